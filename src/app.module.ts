@@ -7,6 +7,7 @@ import * as path from 'path';
 import * as dotenv from 'dotenv';
 import { AppController } from 'src/app.controller';
 import { AppService } from 'src/app.service';
+import configuration from 'src/config/configuration';
 
 // Import feature modules
 import { UserModule } from 'src/modules/user/user.module';
@@ -18,6 +19,10 @@ import { OrderModule } from './modules/order/order.module';
 import { PaymentModule } from './modules/payment/payment.module';
 import { DeliveryModule } from './modules/delivery/delivery.module';
 import { CouponModule } from './modules/coupon/coupon.module';
+import { WebhookModule } from './modules/webhook/webhook.module';
+import { LedgerModule } from './modules/ledger/ledger.module';
+import { FeeModule } from './modules/fee/fee.module';
+import { ReviewModule } from './modules/review/review.module';
 // import { NotificationModule } from './modules/notification/notification.module';
 // import { AdminModule } from './modules/admin/admin.module';
 
@@ -45,6 +50,7 @@ if (nodeEnv !== 'development') {
     // Configuration
     ConfigModule.forRoot({
       isGlobal: true,
+      load: [configuration],
       envFilePath: [envPath, '.env'],
       ignoreEnvFile: false,
     }),
@@ -83,6 +89,10 @@ if (nodeEnv !== 'development') {
     PaymentModule,
     DeliveryModule,
     CouponModule,
+    WebhookModule,
+    LedgerModule,
+    FeeModule,
+    ReviewModule,
     // NotificationModule,
     // AdminModule,
 
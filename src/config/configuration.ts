@@ -94,6 +94,49 @@ export default () => ({
     customerId: process.env.UBER_CUSTOMER_ID,
     webhookSecret: process.env.UBER_WEBHOOK_SECRET,
   },
+
+  deliveryRates: {
+    // cheapest | fastest | reliability
+    policy: process.env.DELIVERY_RATE_POLICY || 'cheapest',
+    // Providers that don't quote in time are left out of the comparison
+    providerTimeoutMs:
+      parseInt(process.env.DELIVERY_RATE_PROVIDER_TIMEOUT_MS, 10) || 8000,
+    // Providers quoted per vendor country, e.g. "NG:shipbubble|uber,*:uber"
+    routeProviders:
+      process.env.DELIVERY_ROUTE_PROVIDERS || 'NG:shipbubble,*:uber',
+    // Delivery outcomes this far back count towards reliability scores
+    reliabilityWindowDays:
+      parseInt(process.env.DELIVERY_RELIABILITY_WINDOW_DAYS, 10) || 90,
+  },
+
+  deliveryFailover: {
+    // A booked delivery with no courier after this long goes to the next provider
+    courierAssignmentMinutes:
+      parseInt(process.env.DELIVERY_COURIER_ASSIGNMENT_MINUTES, 10) || 15,
+    // Providers tried per order, the first booking included
+    maxAttempts: parseInt(process.env.DELIVERY_FAILOVER_MAX_ATTEMPTS, 10) || 3,
+    // platform | vendor: who covers a replacement dearer than the fee paid
+    priceDifferencePaidBy:
+      process.env.DELIVERY_FAILOVER_PRICE_DIFFERENCE_PAID_BY || 'platform',
+  },
+
+  deliveryTracking: {
+    // Gift tracking links are this URL followed by the order's tracking token
+    publicUrl:
+      process.env.DELIVERY_TRACKING_URL ||
+      `${process.env.FRONTEND_URL || 'https://rambini.com'}/track`,
+    // Provider APIs are polled on read at most this often per delivery
+    providerRefreshSeconds:
+      parseInt(process.env.DELIVERY_TRACKING_REFRESH_SECONDS, 10) || 30,
+  },
+
+  proofOfDelivery: {
+    // Order totals from which customers may set a drop-off PIN, per currency
+    pinMinOrderValues:
+      process.env.DELIVERY_PIN_MIN_ORDER_VALUES || 'NGN:50000,USD:100',
+    // Wrong PINs a rider may enter before the drop-off is locked for support
+    maxPinAttempts: parseInt(process.env.DELIVERY_PIN_MAX_ATTEMPTS, 10) || 5,
+  },
   
   admin: {
     email: process.env.ADMIN_EMAIL || 'admin@rambini.com',
@@ -110,4 +153,68 @@ export default () => ({
     serviceFeePercentage: parseFloat(process.env.SERVICE_FEE_PERCENTAGE) || 15,
     commissionPercentage: parseFloat(process.env.COMMISSION_PERCENTAGE) || 20,
   },
+
+  orderQuotes: {
+    signingSecret: process.env.ORDER_QUOTE_SIGNING_SECRET,
+    ttlSeconds: parseInt(process.env.ORDER_QUOTE_TTL_SECONDS, 10) || 300,
+  },
+
+  fx: {
+    providerMode: process.env.FX_RATE_PROVIDER_MODE || 'fixture', // 'fixture'
+    // Added on top of the mid-market rate when a wallet pays in another currency
+    spreadPercentage: parseFloat(process.env.FX_SPREAD_PERCENTAGE) || 1.5,
+  },
+
+  walletTransfers: {
+    // Most a customer can send per UTC day, in their wallet currency
+    dailyAmountLimits: {
+      NGN: parseFloat(process.env.WALLET_TRANSFER_DAILY_LIMIT_NGN) || 500000,
+      USD: parseFloat(process.env.WALLET_TRANSFER_DAILY_LIMIT_USD) || 500,
+      GBP: parseFloat(process.env.WALLET_TRANSFER_DAILY_LIMIT_GBP) || 400,
+      EUR: parseFloat(process.env.WALLET_TRANSFER_DAILY_LIMIT_EUR) || 450,
+    },
+    dailyCountLimit:
+      parseInt(process.env.WALLET_TRANSFER_DAILY_COUNT_LIMIT, 10) || 10,
+    // Unclaimed gift credit goes back to the sender after this many days
+    giftClaimDays: parseInt(process.env.WALLET_GIFT_CLAIM_DAYS, 10) || 30,
+  },
+
+  scheduledOrders: {
+    // Earliest and latest a slot can be booked, from now
+    minLeadMinutes:
+      parseInt(process.env.SCHEDULED_ORDER_MIN_LEAD_MINUTES, 10) || 60,
+    maxDaysAhead: parseInt(process.env.SCHEDULED_ORDER_MAX_DAYS_AHEAD, 10) || 14,
+    // How long before the slot the vendor sees the order in their queue
+    vendorLeadMinutes:
+      parseInt(process.env.SCHEDULED_ORDER_VENDOR_LEAD_MINUTES, 10) || 45,
+    // Just-in-time payments are taken this long before the slot
+    chargeLeadMinutes:
+      parseInt(process.env.SCHEDULED_ORDER_CHARGE_LEAD_MINUTES, 10) || 60,
+    // Delivery quotes expire, so a fresh one is fetched this close to the slot
+    deliveryRequoteMinutes:
+      parseInt(process.env.SCHEDULED_ORDER_DELIVERY_REQUOTE_MINUTES, 10) || 20,
+    // Recurring occurrences become orders this far ahead of their slot
+    recurringGenerateAheadHours:
+      parseInt(process.env.RECURRING_ORDER_GENERATE_AHEAD_HOURS, 10) || 24,
+    // A recurring order is paused after this many failed occurrences in a row
+    recurringMaxConsecutiveFailures:
+      parseInt(process.env.RECURRING_ORDER_MAX_CONSECUTIVE_FAILURES, 10) || 3,
+  },
+
+  groupOrders: {
+    maxParticipants: parseInt(process.env.GROUP_ORDER_MAX_PARTICIPANTS, 10) || 25,
+  },
+
+  reviews: {
+    // Days after delivery during which an order can still be rated
+    ratingWindowDays: parseInt(process.env.REVIEW_RATING_WINDOW_DAYS, 10) || 14,
+    maxPhotos: parseInt(process.env.REVIEW_MAX_PHOTOS, 10) || 5,
+  },
+
+  payouts: {
+    mode: process.env.PAYOUT_PROVIDER_MODE || 'live', // 'live' | 'local'
+    autoInitiate: process.env.PAYOUT_AUTO_INITIATE === 'true',
+    localWebhookSecret: process.env.PAYOUT_LOCAL_WEBHOOK_SECRET,
+    stripeConnectWebhookSecret: process.env.STRIPE_CONNECT_WEBHOOK_SECRET,
+  },
 });
\ No newline at end of file
@@ -24,7 +24,32 @@ import {
   Bank,
   SavedCard,
   Coupon,
-  CouponUsage
+  CouponUsage,
+  AppliedCoupon,
+  VendorOpeningHours,
+  VendorClosure,
+  MenuModifierGroup,
+  MenuModifierOption,
+  OrderStatusHistory,
+  Refund,
+  RefundItem,
+  WebhookEvent,
+  LedgerAccount,
+  JournalEntry,
+  JournalLine,
+  SettlementRun,
+  SettlementMismatch,
+  FeeRule,
+  WalletBalance,
+  WalletTransfer,
+  RecurringOrder,
+  GroupOrder,
+  GroupOrderParticipant,
+  GroupOrderItem,
+  Review,
+  ReviewItemRating,
+  VendorDeliveryZone,
+  DeliveryRider
 } from 'src/entities';
 
 export const getDatabaseConfig = (configService: ConfigService): TypeOrmModuleOptions => ({
@@ -58,7 +83,32 @@ export const getDatabaseConfig = (configService: ConfigService): TypeOrmModuleOp
     Bank,
     SavedCard,
     Coupon,
-    CouponUsage
+    CouponUsage,
+    AppliedCoupon,
+    VendorOpeningHours,
+    VendorClosure,
+    MenuModifierGroup,
+    MenuModifierOption,
+    OrderStatusHistory,
+    Refund,
+    RefundItem,
+    WebhookEvent,
+    LedgerAccount,
+    JournalEntry,
+    JournalLine,
+    SettlementRun,
+    SettlementMismatch,
+    FeeRule,
+    WalletBalance,
+    WalletTransfer,
+    RecurringOrder,
+    GroupOrder,
+    GroupOrderParticipant,
+    GroupOrderItem,
+    Review,
+    ReviewItemRating,
+    VendorDeliveryZone,
+    DeliveryRider
   ],
   migrations: configService.get('DB_USE_MIGRATIONS') === 'true' 
     ? [__dirname + '/migrations/*{.ts,.js}'] 
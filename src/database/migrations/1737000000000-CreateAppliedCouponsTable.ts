@@ -0,0 +1,92 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateAppliedCouponsTable1737000000000
+  implements MigrationInterface
+{
+  name = 'CreateAppliedCouponsTable1737000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'applied_coupons',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'user_id',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'vendor_id',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'coupon_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'code',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'discount_amount',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: false,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['coupon_id'],
+            referencedTableName: 'coupons',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'applied_coupons',
+      new TableIndex({
+        name: 'IDX_applied_coupons_user_vendor_unique',
+        columnNames: ['user_id', 'vendor_id'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'applied_coupons',
+      new TableIndex({
+        name: 'IDX_applied_coupons_user_id',
+        columnNames: ['user_id'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('applied_coupons');
+  }
+}
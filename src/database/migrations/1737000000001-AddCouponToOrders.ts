@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddCouponToOrders1737000000001 implements MigrationInterface {
+  name = 'AddCouponToOrders1737000000001';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('orders', [
+      new TableColumn({
+        name: 'discount_amount',
+        type: 'decimal',
+        precision: 12,
+        scale: 2,
+        default: 0,
+      }),
+      new TableColumn({
+        name: 'coupon_id',
+        type: 'varchar',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('orders', 'coupon_id');
+    await queryRunner.dropColumn('orders', 'discount_amount');
+  }
+}
@@ -0,0 +1,84 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  TableColumn,
+  TableIndex,
+} from 'typeorm';
+
+export class AddPayoutFieldsToWithdrawalsAndBanks1737000000002
+  implements MigrationInterface
+{
+  name = 'AddPayoutFieldsToWithdrawalsAndBanks1737000000002';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('banks', [
+      new TableColumn({
+        name: 'bank_code',
+        type: 'varchar',
+        length: '20',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'paystack_recipient_code',
+        type: 'varchar',
+        length: '100',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'stripe_connect_account_id',
+        type: 'varchar',
+        length: '100',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.addColumns('withdrawals', [
+      new TableColumn({
+        name: 'payout_provider',
+        type: 'enum',
+        enum: ['PAYSTACK', 'STRIPE'],
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'payout_reference',
+        type: 'varchar',
+        length: '100',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'payout_transfer_id',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'payout_initiated_at',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.createIndex(
+      'withdrawals',
+      new TableIndex({
+        name: 'IDX_withdrawals_payout_reference',
+        columnNames: ['payout_reference'],
+        isUnique: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex(
+      'withdrawals',
+      'IDX_withdrawals_payout_reference',
+    );
+    await queryRunner.dropColumn('withdrawals', 'payout_initiated_at');
+    await queryRunner.dropColumn('withdrawals', 'payout_transfer_id');
+    await queryRunner.dropColumn('withdrawals', 'payout_reference');
+    await queryRunner.dropColumn('withdrawals', 'payout_provider');
+    await queryRunner.dropColumn('banks', 'stripe_connect_account_id');
+    await queryRunner.dropColumn('banks', 'paystack_recipient_code');
+    await queryRunner.dropColumn('banks', 'bank_code');
+  }
+}
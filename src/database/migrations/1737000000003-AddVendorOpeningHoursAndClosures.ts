@@ -0,0 +1,183 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableIndex,
+} from 'typeorm';
+
+export class AddVendorOpeningHoursAndClosures1737000000003
+  implements MigrationInterface
+{
+  name = 'AddVendorOpeningHoursAndClosures1737000000003';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('vendors', [
+      new TableColumn({
+        name: 'timezone',
+        type: 'varchar',
+        length: '64',
+        default: "'Africa/Lagos'",
+        isNullable: false,
+      }),
+      new TableColumn({
+        name: 'paused_until',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'pause_reason',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'vendor_opening_hours',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'vendor_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'day_of_week',
+            type: 'int',
+            isNullable: false,
+          },
+          {
+            name: 'opens_at',
+            type: 'varchar',
+            length: '5',
+            isNullable: false,
+          },
+          {
+            name: 'closes_at',
+            type: 'varchar',
+            length: '5',
+            isNullable: false,
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['vendor_id'],
+            referencedTableName: 'vendors',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'vendor_opening_hours',
+      new TableIndex({
+        name: 'IDX_vendor_opening_hours_vendor_day',
+        columnNames: ['vendor_id', 'day_of_week'],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'vendor_closures',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'vendor_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'starts_at',
+            type: 'timestamp',
+            isNullable: false,
+          },
+          {
+            name: 'ends_at',
+            type: 'timestamp',
+            isNullable: false,
+          },
+          {
+            name: 'reason',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['vendor_id'],
+            referencedTableName: 'vendors',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'vendor_closures',
+      new TableIndex({
+        name: 'IDX_vendor_closures_vendor_ends_at',
+        columnNames: ['vendor_id', 'ends_at'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('vendor_closures');
+    await queryRunner.dropTable('vendor_opening_hours');
+    await queryRunner.dropColumn('vendors', 'pause_reason');
+    await queryRunner.dropColumn('vendors', 'paused_until');
+    await queryRunner.dropColumn('vendors', 'timezone');
+  }
+}
@@ -0,0 +1,199 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableIndex,
+} from 'typeorm';
+
+export class AddMenuModifiers1737000000004 implements MigrationInterface {
+  name = 'AddMenuModifiers1737000000004';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'menu_modifier_groups',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'menu_item_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+          },
+          {
+            name: 'description',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'min_selections',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'max_selections',
+            type: 'int',
+            default: 1,
+          },
+          {
+            name: 'sort_order',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['menu_item_id'],
+            referencedTableName: 'menu_items',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'menu_modifier_groups',
+      new TableIndex({
+        name: 'IDX_menu_modifier_groups_menu_item_id',
+        columnNames: ['menu_item_id'],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'menu_modifier_options',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'group_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+          },
+          {
+            name: 'price_delta',
+            type: 'decimal',
+            precision: 12,
+            scale: 2,
+            default: 0,
+          },
+          {
+            name: 'is_available',
+            type: 'boolean',
+            default: true,
+          },
+          {
+            name: 'sort_order',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['group_id'],
+            referencedTableName: 'menu_modifier_groups',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'menu_modifier_options',
+      new TableIndex({
+        name: 'IDX_menu_modifier_options_group_id',
+        columnNames: ['group_id'],
+      }),
+    );
+
+    await queryRunner.addColumns('cart_items', [
+      new TableColumn({
+        name: 'selected_options',
+        type: 'jsonb',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'options_signature',
+        type: 'varchar',
+        length: '1000',
+        default: "''",
+      }),
+    ]);
+
+    await queryRunner.addColumn(
+      'order_items',
+      new TableColumn({
+        name: 'selected_options',
+        type: 'jsonb',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('order_items', 'selected_options');
+    await queryRunner.dropColumn('cart_items', 'options_signature');
+    await queryRunner.dropColumn('cart_items', 'selected_options');
+    await queryRunner.dropTable('menu_modifier_options');
+    await queryRunner.dropTable('menu_modifier_groups');
+  }
+}
@@ -0,0 +1,78 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddMenuItemInventory1737000000005 implements MigrationInterface {
+  name = 'AddMenuItemInventory1737000000005';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('menu_items', [
+      new TableColumn({
+        name: 'stock_quantity',
+        type: 'int',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'daily_stock_limit',
+        type: 'int',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'daily_sold_count',
+        type: 'int',
+        default: 0,
+        isNullable: false,
+      }),
+      new TableColumn({
+        name: 'daily_sold_date',
+        type: 'varchar',
+        length: '10',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'sold_out_at',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.addColumns('order_items', [
+      new TableColumn({
+        name: 'reserved_quantity',
+        type: 'int',
+        default: 0,
+        isNullable: false,
+      }),
+      new TableColumn({
+        name: 'reserved_business_day',
+        type: 'varchar',
+        length: '10',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.addColumn(
+      'vendors',
+      new TableColumn({
+        name: 'inventory_reset_time',
+        type: 'varchar',
+        length: '5',
+        default: "'00:00'",
+        isNullable: false,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('vendors', 'inventory_reset_time');
+    await queryRunner.dropColumns('order_items', [
+      'reserved_quantity',
+      'reserved_business_day',
+    ]);
+    await queryRunner.dropColumns('menu_items', [
+      'stock_quantity',
+      'daily_stock_limit',
+      'daily_sold_count',
+      'daily_sold_date',
+      'sold_out_at',
+    ]);
+  }
+}
@@ -0,0 +1,118 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+const ORDER_STATUSES = [
+  'NEW',
+  'CONFIRMED',
+  'PREPARING',
+  'READY',
+  'OUT_FOR_DELIVERY',
+  'DELIVERED',
+  'CANCELLED',
+  'REFUNDED',
+];
+
+export class CreateOrderStatusHistoryTable1737000000006
+  implements MigrationInterface
+{
+  name = 'CreateOrderStatusHistoryTable1737000000006';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'order_status_history',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'order_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'from_status',
+            type: 'enum',
+            enum: ORDER_STATUSES,
+            enumName: 'order_status_history_from_status_enum',
+            isNullable: true,
+          },
+          {
+            name: 'to_status',
+            type: 'enum',
+            enum: ORDER_STATUSES,
+            enumName: 'order_status_history_to_status_enum',
+            isNullable: false,
+          },
+          {
+            name: 'actor_type',
+            type: 'enum',
+            enum: ['CUSTOMER', 'VENDOR', 'ADMIN', 'DELIVERY_WEBHOOK', 'SYSTEM'],
+            isNullable: false,
+          },
+          {
+            name: 'actor_id',
+            type: 'varchar',
+            isNullable: true,
+          },
+          {
+            name: 'reason',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'metadata',
+            type: 'jsonb',
+            isNullable: true,
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['order_id'],
+            referencedTableName: 'orders',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'order_status_history',
+      new TableIndex({
+        name: 'IDX_order_status_history_order_created',
+        columnNames: ['order_id', 'created_at'],
+      }),
+    );
+
+    // Give existing orders a starting point so their timelines are not empty
+    await queryRunner.query(`
+      INSERT INTO order_status_history (order_id, to_status, actor_type, reason, created_at, updated_at)
+      SELECT id, order_status::text::order_status_history_to_status_enum, 'SYSTEM', 'Recorded before status history was introduced', created_at, created_at
+      FROM orders
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('order_status_history');
+  }
+}
@@ -0,0 +1,199 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableIndex,
+} from 'typeorm';
+
+const timestampColumns = [
+  {
+    name: 'deleted_at',
+    type: 'timestamp',
+    isNullable: true,
+  },
+  {
+    name: 'created_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+  {
+    name: 'updated_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+];
+
+const money = (name: string, isNullable = false) => ({
+  name,
+  type: 'decimal',
+  precision: 12,
+  scale: 2,
+  isNullable,
+  ...(isNullable ? {} : { default: 0 }),
+});
+
+export class CreateRefundsTables1737000000007 implements MigrationInterface {
+  name = 'CreateRefundsTables1737000000007';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'refunds',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'refund_reference',
+            type: 'varchar',
+            isUnique: true,
+            isNullable: false,
+          },
+          { name: 'order_id', type: 'uuid', isNullable: false },
+          { name: 'payment_id', type: 'uuid', isNullable: false },
+          { name: 'vendor_id', type: 'uuid', isNullable: false },
+          { name: 'customer_id', type: 'uuid', isNullable: false },
+          {
+            name: 'provider',
+            type: 'enum',
+            enum: ['WALLET', 'STRIPE', 'PAYSTACK', 'MERCURY', 'CARD_SAVED'],
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['PENDING', 'COMPLETED', 'FAILED'],
+            default: "'PENDING'",
+          },
+          {
+            name: 'currency',
+            type: 'enum',
+            enum: ['NGN', 'USD', 'EUR', 'GBP'],
+            default: "'NGN'",
+          },
+          money('amount'),
+          money('items_amount'),
+          money('discount_amount'),
+          money('delivery_fee_amount'),
+          money('service_fee_amount'),
+          money('vendor_clawback_amount'),
+          { name: 'reason', type: 'text', isNullable: false },
+          {
+            name: 'initiated_by_type',
+            type: 'enum',
+            enum: ['VENDOR', 'ADMIN', 'SYSTEM'],
+            isNullable: false,
+          },
+          { name: 'initiated_by_id', type: 'varchar', isNullable: true },
+          { name: 'provider_reference', type: 'varchar', isNullable: true },
+          { name: 'gateway_response', type: 'jsonb', isNullable: true },
+          { name: 'failure_reason', type: 'text', isNullable: true },
+          { name: 'processed_at', type: 'timestamp', isNullable: true },
+          ...timestampColumns,
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['order_id'],
+            referencedTableName: 'orders',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['payment_id'],
+            referencedTableName: 'payments',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('refunds', [
+      new TableIndex({
+        name: 'IDX_refunds_order_created',
+        columnNames: ['order_id', 'created_at'],
+      }),
+      new TableIndex({
+        name: 'IDX_refunds_payment',
+        columnNames: ['payment_id'],
+      }),
+      new TableIndex({
+        name: 'IDX_refunds_vendor_created',
+        columnNames: ['vendor_id', 'created_at'],
+      }),
+      new TableIndex({
+        name: 'IDX_refunds_status_created',
+        columnNames: ['status', 'created_at'],
+      }),
+    ]);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'refund_items',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          { name: 'refund_id', type: 'uuid', isNullable: false },
+          { name: 'order_item_id', type: 'uuid', isNullable: false },
+          { name: 'quantity', type: 'int', isNullable: false },
+          money('unit_price'),
+          money('amount'),
+          money('vendor_clawback_amount'),
+          ...timestampColumns,
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['refund_id'],
+            referencedTableName: 'refunds',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['order_item_id'],
+            referencedTableName: 'order_items',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('refund_items', [
+      new TableIndex({
+        name: 'IDX_refund_items_refund',
+        columnNames: ['refund_id'],
+      }),
+      new TableIndex({
+        name: 'IDX_refund_items_order_item',
+        columnNames: ['order_item_id'],
+      }),
+    ]);
+
+    await queryRunner.addColumn(
+      'order_items',
+      new TableColumn({
+        name: 'refunded_quantity',
+        type: 'int',
+        default: 0,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('order_items', 'refunded_quantity');
+    await queryRunner.dropTable('refund_items');
+    await queryRunner.dropTable('refunds');
+  }
+}
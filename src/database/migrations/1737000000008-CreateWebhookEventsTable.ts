@@ -0,0 +1,138 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateWebhookEventsTable1737000000008
+  implements MigrationInterface
+{
+  name = 'CreateWebhookEventsTable1737000000008';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'webhook_events',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'source',
+            type: 'enum',
+            enum: ['PAYMENT', 'PAYOUT', 'DELIVERY'],
+            isNullable: false,
+          },
+          {
+            name: 'provider',
+            type: 'varchar',
+            length: '32',
+            isNullable: false,
+          },
+          {
+            name: 'event_id',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'event_type',
+            type: 'varchar',
+            isNullable: true,
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['RECEIVED', 'PROCESSING', 'PROCESSED', 'FAILED'],
+            default: "'RECEIVED'",
+          },
+          {
+            name: 'payload',
+            type: 'jsonb',
+            isNullable: false,
+          },
+          {
+            name: 'normalized_payload',
+            type: 'jsonb',
+            isNullable: true,
+          },
+          {
+            name: 'attempts',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'last_error',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'processing_started_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'processed_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'failed_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'replay_count',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'last_replayed_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'last_replayed_by',
+            type: 'varchar',
+            isNullable: true,
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('webhook_events', [
+      new TableIndex({
+        name: 'IDX_webhook_events_source_provider_event',
+        columnNames: ['source', 'provider', 'event_id'],
+        isUnique: true,
+      }),
+      new TableIndex({
+        name: 'IDX_webhook_events_status_created',
+        columnNames: ['status', 'created_at'],
+      }),
+      new TableIndex({
+        name: 'IDX_webhook_events_source_created',
+        columnNames: ['source', 'created_at'],
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('webhook_events');
+  }
+}
@@ -0,0 +1,293 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+const timestampColumns = [
+  {
+    name: 'deleted_at',
+    type: 'timestamp',
+    isNullable: true,
+  },
+  {
+    name: 'created_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+  {
+    name: 'updated_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+];
+
+const idColumn = {
+  name: 'id',
+  type: 'uuid',
+  isPrimary: true,
+  generationStrategy: 'uuid' as const,
+  default: 'uuid_generate_v4()',
+};
+
+const currencies = ['NGN', 'USD', 'EUR', 'GBP'];
+const directions = ['DEBIT', 'CREDIT'];
+
+export class CreateLedgerTables1737000000009 implements MigrationInterface {
+  name = 'CreateLedgerTables1737000000009';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'ledger_accounts',
+        columns: [
+          idColumn,
+          { name: 'code', type: 'varchar', isUnique: true, isNullable: false },
+          {
+            name: 'type',
+            type: 'enum',
+            enum: [
+              'CUSTOMER_WALLET',
+              'VENDOR_PAYABLE',
+              'PLATFORM_COMMISSION',
+              'GATEWAY_CLEARING',
+              'PAYOUT_IN_TRANSIT',
+              'ADJUSTMENTS',
+            ],
+            isNullable: false,
+          },
+          { name: 'owner_id', type: 'varchar', isNullable: true },
+          {
+            name: 'currency',
+            type: 'enum',
+            enum: currencies,
+            isNullable: false,
+          },
+          {
+            name: 'normal_balance',
+            type: 'enum',
+            enum: directions,
+            isNullable: false,
+          },
+          ...timestampColumns,
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'ledger_accounts',
+      new TableIndex({
+        name: 'IDX_ledger_accounts_type_owner',
+        columnNames: ['type', 'owner_id'],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'journal_entries',
+        columns: [
+          idColumn,
+          {
+            name: 'entry_type',
+            type: 'enum',
+            enum: [
+              'OPENING_BALANCE',
+              'WALLET_FUNDING',
+              'ORDER_PAYMENT',
+              'REFUND',
+              'WITHDRAWAL_REQUESTED',
+              'WITHDRAWAL_PAID',
+              'WITHDRAWAL_RETURNED',
+              'ADJUSTMENT',
+            ],
+            isNullable: false,
+          },
+          { name: 'reference', type: 'varchar', isNullable: false },
+          {
+            name: 'currency',
+            type: 'enum',
+            enum: currencies,
+            isNullable: false,
+          },
+          { name: 'description', type: 'text', isNullable: false },
+          { name: 'order_id', type: 'uuid', isNullable: true },
+          { name: 'metadata', type: 'jsonb', isNullable: true },
+          { name: 'posted_at', type: 'timestamp', isNullable: false },
+          ...timestampColumns,
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('journal_entries', [
+      new TableIndex({
+        name: 'IDX_journal_entries_type_reference',
+        columnNames: ['entry_type', 'reference'],
+        isUnique: true,
+      }),
+      new TableIndex({
+        name: 'IDX_journal_entries_order',
+        columnNames: ['order_id'],
+      }),
+      new TableIndex({
+        name: 'IDX_journal_entries_posted_at',
+        columnNames: ['posted_at'],
+      }),
+    ]);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'journal_lines',
+        columns: [
+          idColumn,
+          { name: 'journal_entry_id', type: 'uuid', isNullable: false },
+          { name: 'account_id', type: 'uuid', isNullable: false },
+          {
+            name: 'direction',
+            type: 'enum',
+            enum: directions,
+            isNullable: false,
+          },
+          {
+            name: 'amount',
+            type: 'decimal',
+            precision: 15,
+            scale: 2,
+            isNullable: false,
+          },
+          ...timestampColumns,
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['journal_entry_id'],
+            referencedTableName: 'journal_entries',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['account_id'],
+            referencedTableName: 'ledger_accounts',
+            referencedColumnNames: ['id'],
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('journal_lines', [
+      new TableIndex({
+        name: 'IDX_journal_lines_entry',
+        columnNames: ['journal_entry_id'],
+      }),
+      new TableIndex({
+        name: 'IDX_journal_lines_account',
+        columnNames: ['account_id'],
+      }),
+    ]);
+
+    await this.openBalances(queryRunner);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('journal_lines');
+    await queryRunner.dropTable('journal_entries');
+    await queryRunner.dropTable('ledger_accounts');
+  }
+
+  /**
+   * Seed the ledger from the balances that exist today: one OPENING_BALANCE
+   * entry per wallet and per withdrawal still in flight, balanced against the
+   * ADJUSTMENTS account. Account codes follow ledgerAccountCode().
+   */
+  private async openBalances(queryRunner: QueryRunner): Promise<void> {
+    // Literals in a UNION resolve to text, so every enum value is cast
+    const accountType = `"ledger_accounts_type_enum"`;
+    const normalBalance = `"ledger_accounts_normal_balance_enum"`;
+    const currency = `"ledger_accounts_currency_enum"`;
+    const entryType = `"journal_entries_entry_type_enum"`;
+    const entryCurrency = `"journal_entries_currency_enum"`;
+    const direction = `"journal_lines_direction_enum"`;
+
+    await queryRunner.query(`
+      INSERT INTO ledger_accounts (code, type, owner_id, currency, normal_balance)
+      SELECT 'CUSTOMER_WALLET:' || user_id || ':' || currency, 'CUSTOMER_WALLET'::${accountType},
+        user_id, currency::text::${currency}, 'CREDIT'::${normalBalance}
+      FROM wallets WHERE deleted_at IS NULL AND balance <> 0
+      UNION ALL
+      SELECT 'VENDOR_PAYABLE:' || user_id || ':' || currency, 'VENDOR_PAYABLE'::${accountType},
+        user_id, currency::text::${currency}, 'CREDIT'::${normalBalance}
+      FROM wallets WHERE deleted_at IS NULL AND vendor_balance <> 0
+      UNION ALL
+      SELECT DISTINCT 'PAYOUT_IN_TRANSIT:' || currency, 'PAYOUT_IN_TRANSIT'::${accountType},
+        NULL, currency::text::${currency}, 'CREDIT'::${normalBalance}
+      FROM withdrawals
+      WHERE deleted_at IS NULL AND status IN ('PENDING', 'PROCESSING')
+    `);
+
+    await queryRunner.query(`
+      INSERT INTO ledger_accounts (code, type, owner_id, currency, normal_balance)
+      SELECT DISTINCT 'ADJUSTMENTS:' || currency, 'ADJUSTMENTS', NULL,
+        currency, 'DEBIT'
+      FROM ledger_accounts
+    `);
+
+    await queryRunner.query(`
+      INSERT INTO journal_entries (entry_type, reference, currency, description, posted_at)
+      SELECT 'OPENING_BALANCE'::${entryType}, 'wallet:' || id, currency::text::${entryCurrency},
+        'Opening balance carried over from wallet', now()
+      FROM wallets
+      WHERE deleted_at IS NULL AND (balance <> 0 OR vendor_balance <> 0)
+      UNION ALL
+      SELECT 'OPENING_BALANCE'::${entryType}, 'withdrawal:' || id, currency::text::${entryCurrency},
+        'Opening balance for withdrawal in flight', now()
+      FROM withdrawals
+      WHERE deleted_at IS NULL AND status IN ('PENDING', 'PROCESSING')
+    `);
+
+    // Wallet side: positive balances are credits, negative vendor balances
+    // (refund clawbacks) are debits; the net goes to ADJUSTMENTS
+    await queryRunner.query(`
+      INSERT INTO journal_lines (journal_entry_id, account_id, direction, amount)
+      SELECT e.id, a.id,
+        (CASE WHEN w.balance > 0 THEN 'CREDIT' ELSE 'DEBIT' END)::${direction},
+        abs(w.balance)
+      FROM wallets w
+      JOIN journal_entries e
+        ON e.entry_type = 'OPENING_BALANCE' AND e.reference = 'wallet:' || w.id
+      JOIN ledger_accounts a
+        ON a.code = 'CUSTOMER_WALLET:' || w.user_id || ':' || w.currency
+      WHERE w.balance <> 0
+      UNION ALL
+      SELECT e.id, a.id,
+        (CASE WHEN w.vendor_balance > 0 THEN 'CREDIT' ELSE 'DEBIT' END)::${direction},
+        abs(w.vendor_balance)
+      FROM wallets w
+      JOIN journal_entries e
+        ON e.entry_type = 'OPENING_BALANCE' AND e.reference = 'wallet:' || w.id
+      JOIN ledger_accounts a
+        ON a.code = 'VENDOR_PAYABLE:' || w.user_id || ':' || w.currency
+      WHERE w.vendor_balance <> 0
+      UNION ALL
+      SELECT e.id, a.id,
+        (CASE WHEN w.balance + w.vendor_balance > 0 THEN 'DEBIT' ELSE 'CREDIT' END)::${direction},
+        abs(w.balance + w.vendor_balance)
+      FROM wallets w
+      JOIN journal_entries e
+        ON e.entry_type = 'OPENING_BALANCE' AND e.reference = 'wallet:' || w.id
+      JOIN ledger_accounts a ON a.code = 'ADJUSTMENTS:' || w.currency
+      WHERE w.balance + w.vendor_balance <> 0
+    `);
+
+    await queryRunner.query(`
+      INSERT INTO journal_lines (journal_entry_id, account_id, direction, amount)
+      SELECT e.id, a.id, 'CREDIT'::${direction}, wd.amount
+      FROM withdrawals wd
+      JOIN journal_entries e
+        ON e.entry_type = 'OPENING_BALANCE' AND e.reference = 'withdrawal:' || wd.id
+      JOIN ledger_accounts a ON a.code = 'PAYOUT_IN_TRANSIT:' || wd.currency
+      UNION ALL
+      SELECT e.id, a.id, 'DEBIT'::${direction}, wd.amount
+      FROM withdrawals wd
+      JOIN journal_entries e
+        ON e.entry_type = 'OPENING_BALANCE' AND e.reference = 'withdrawal:' || wd.id
+      JOIN ledger_accounts a ON a.code = 'ADJUSTMENTS:' || wd.currency
+    `);
+  }
+}
@@ -0,0 +1,185 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+const timestampColumns = [
+  {
+    name: 'deleted_at',
+    type: 'timestamp',
+    isNullable: true,
+  },
+  {
+    name: 'created_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+  {
+    name: 'updated_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+];
+
+const idColumn = {
+  name: 'id',
+  type: 'uuid',
+  isPrimary: true,
+  generationStrategy: 'uuid' as const,
+  default: 'uuid_generate_v4()',
+};
+
+const providers = ['WALLET', 'STRIPE', 'PAYSTACK', 'MERCURY', 'CARD_SAVED'];
+
+const countColumn = (name: string) => ({
+  name,
+  type: 'int',
+  default: 0,
+});
+
+const amountColumn = (name: string) => ({
+  name,
+  type: 'decimal',
+  precision: 15,
+  scale: 2,
+  isNullable: true,
+});
+
+export class CreateSettlementTables1737000000010 implements MigrationInterface {
+  name = 'CreateSettlementTables1737000000010';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'settlement_runs',
+        columns: [
+          idColumn,
+          {
+            name: 'provider',
+            type: 'enum',
+            enum: providers,
+            isNullable: false,
+          },
+          { name: 'settlement_date', type: 'date', isNullable: false },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['RUNNING', 'COMPLETED', 'FAILED'],
+            default: "'RUNNING'",
+          },
+          countColumn('gateway_count'),
+          countColumn('local_count'),
+          countColumn('matched_count'),
+          countColumn('mismatch_count'),
+          { name: 'error', type: 'text', isNullable: true },
+          { name: 'completed_at', type: 'timestamp', isNullable: true },
+          { name: 'triggered_by', type: 'varchar', isNullable: true },
+          ...timestampColumns,
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('settlement_runs', [
+      new TableIndex({
+        name: 'IDX_settlement_runs_provider_date',
+        columnNames: ['provider', 'settlement_date'],
+      }),
+      new TableIndex({
+        name: 'IDX_settlement_runs_status_created',
+        columnNames: ['status', 'created_at'],
+      }),
+    ]);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'settlement_mismatches',
+        columns: [
+          idColumn,
+          { name: 'run_id', type: 'uuid', isNullable: false },
+          {
+            name: 'provider',
+            type: 'enum',
+            enum: providers,
+            isNullable: false,
+          },
+          { name: 'settlement_date', type: 'date', isNullable: false },
+          {
+            name: 'mismatch_type',
+            type: 'enum',
+            enum: [
+              'MISSING_LOCALLY',
+              'MISSING_AT_GATEWAY',
+              'AMOUNT_MISMATCH',
+              'CURRENCY_MISMATCH',
+              'STATUS_MISMATCH',
+            ],
+            isNullable: false,
+          },
+          { name: 'reference', type: 'varchar', isNullable: false },
+          { name: 'payment_id', type: 'varchar', isNullable: true },
+          { name: 'transaction_id', type: 'varchar', isNullable: true },
+          {
+            name: 'gateway_transaction_id',
+            type: 'varchar',
+            isNullable: true,
+          },
+          amountColumn('local_amount'),
+          amountColumn('gateway_amount'),
+          {
+            name: 'local_currency',
+            type: 'varchar',
+            length: '3',
+            isNullable: true,
+          },
+          {
+            name: 'gateway_currency',
+            type: 'varchar',
+            length: '3',
+            isNullable: true,
+          },
+          { name: 'local_status', type: 'varchar', isNullable: true },
+          { name: 'gateway_status', type: 'varchar', isNullable: true },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['OPEN', 'RESOLVED'],
+            default: "'OPEN'",
+          },
+          { name: 'last_seen_at', type: 'timestamp', isNullable: false },
+          { name: 'resolution_note', type: 'text', isNullable: true },
+          { name: 'resolved_by', type: 'varchar', isNullable: true },
+          { name: 'resolved_at', type: 'timestamp', isNullable: true },
+          ...timestampColumns,
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['run_id'],
+            referencedTableName: 'settlement_runs',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('settlement_mismatches', [
+      new TableIndex({
+        name: 'IDX_settlement_mismatches_provider_reference_type',
+        columnNames: ['provider', 'reference', 'mismatch_type'],
+        isUnique: true,
+      }),
+      new TableIndex({
+        name: 'IDX_settlement_mismatches_status_date',
+        columnNames: ['status', 'settlement_date'],
+      }),
+      new TableIndex({
+        name: 'IDX_settlement_mismatches_run',
+        columnNames: ['run_id'],
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('settlement_mismatches');
+    await queryRunner.dropTable('settlement_runs');
+  }
+}
@@ -0,0 +1,129 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableIndex,
+} from 'typeorm';
+
+const timestampColumns = [
+  {
+    name: 'deleted_at',
+    type: 'timestamp',
+    isNullable: true,
+  },
+  {
+    name: 'created_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+  {
+    name: 'updated_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+];
+
+export class CreateFeeRules1737000000011 implements MigrationInterface {
+  name = 'CreateFeeRules1737000000011';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'fee_rules',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          { name: 'name', type: 'varchar', length: '255', isNullable: false },
+          { name: 'description', type: 'text', isNullable: true },
+          {
+            name: 'fee_kind',
+            type: 'enum',
+            enum: ['SERVICE_FEE', 'COMMISSION'],
+            isNullable: false,
+          },
+          { name: 'vendor_id', type: 'varchar', isNullable: true },
+          { name: 'category_id', type: 'varchar', isNullable: true },
+          { name: 'country', type: 'varchar', length: '2', isNullable: true },
+          {
+            name: 'currency',
+            type: 'enum',
+            enum: ['NGN', 'USD', 'EUR', 'GBP'],
+            isNullable: true,
+          },
+          {
+            name: 'order_type',
+            type: 'enum',
+            enum: ['DELIVERY', 'PICKUP'],
+            isNullable: true,
+          },
+          {
+            name: 'percentage',
+            type: 'decimal',
+            precision: 5,
+            scale: 2,
+            default: 0,
+          },
+          {
+            name: 'flat_amount',
+            type: 'decimal',
+            precision: 12,
+            scale: 2,
+            default: 0,
+          },
+          {
+            name: 'min_amount',
+            type: 'decimal',
+            precision: 12,
+            scale: 2,
+            isNullable: true,
+          },
+          {
+            name: 'max_amount',
+            type: 'decimal',
+            precision: 12,
+            scale: 2,
+            isNullable: true,
+          },
+          { name: 'start_date', type: 'timestamp', isNullable: true },
+          { name: 'end_date', type: 'timestamp', isNullable: true },
+          { name: 'priority', type: 'int', default: 0 },
+          { name: 'is_active', type: 'boolean', default: true },
+          { name: 'updated_by', type: 'varchar', isNullable: true },
+          ...timestampColumns,
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('fee_rules', [
+      new TableIndex({
+        name: 'IDX_fee_rules_kind_active',
+        columnNames: ['fee_kind', 'is_active'],
+      }),
+      new TableIndex({
+        name: 'IDX_fee_rules_vendor',
+        columnNames: ['vendor_id'],
+      }),
+    ]);
+
+    await queryRunner.addColumn(
+      'orders',
+      new TableColumn({
+        name: 'fee_breakdown',
+        type: 'jsonb',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('orders', 'fee_breakdown');
+    await queryRunner.dropTable('fee_rules');
+  }
+}
@@ -0,0 +1,146 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableIndex,
+} from 'typeorm';
+
+const timestampColumns = [
+  {
+    name: 'deleted_at',
+    type: 'timestamp',
+    isNullable: true,
+  },
+  {
+    name: 'created_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+  {
+    name: 'updated_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+];
+
+const currencies = ['NGN', 'USD', 'EUR', 'GBP'];
+
+export class AddMultiCurrencyWallets1737000000012
+  implements MigrationInterface
+{
+  name = 'AddMultiCurrencyWallets1737000000012';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'wallet_balances',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          { name: 'wallet_id', type: 'uuid', isNullable: false },
+          {
+            name: 'currency',
+            type: 'enum',
+            enum: currencies,
+            isNullable: false,
+          },
+          {
+            name: 'balance',
+            type: 'decimal',
+            precision: 15,
+            scale: 2,
+            default: 0,
+          },
+          ...timestampColumns,
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['wallet_id'],
+            referencedTableName: 'wallets',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'wallet_balances',
+      new TableIndex({
+        name: 'IDX_wallet_balances_wallet_currency',
+        columnNames: ['wallet_id', 'currency'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.addColumns('transactions', [
+      new TableColumn({
+        name: 'currency',
+        type: 'enum',
+        enum: currencies,
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'fx_original_currency',
+        type: 'enum',
+        enum: currencies,
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'fx_original_amount',
+        type: 'decimal',
+        precision: 15,
+        scale: 2,
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'fx_rate',
+        type: 'decimal',
+        precision: 18,
+        scale: 8,
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'fx_spread_percentage',
+        type: 'decimal',
+        precision: 5,
+        scale: 2,
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'fx_rate_source',
+        type: 'varchar',
+        isNullable: true,
+      }),
+    ]);
+
+    // Enum values can't be added inside a transaction block before
+    // Postgres 12; IF NOT EXISTS keeps the migration re-runnable
+    await queryRunner.query(
+      `ALTER TYPE "ledger_accounts_type_enum" ADD VALUE IF NOT EXISTS 'FX_POSITION'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "journal_entries_entry_type_enum" ADD VALUE IF NOT EXISTS 'FX_CONVERSION'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres can't drop enum values; FX_POSITION and FX_CONVERSION stay
+    await queryRunner.dropColumns('transactions', [
+      'fx_rate_source',
+      'fx_spread_percentage',
+      'fx_rate',
+      'fx_original_amount',
+      'fx_original_currency',
+      'currency',
+    ]);
+    await queryRunner.dropTable('wallet_balances', true, true);
+  }
+}
@@ -0,0 +1,153 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+const timestampColumns = [
+  {
+    name: 'deleted_at',
+    type: 'timestamp',
+    isNullable: true,
+  },
+  {
+    name: 'created_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+  {
+    name: 'updated_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+];
+
+export class CreateWalletTransfers1737000000013 implements MigrationInterface {
+  name = 'CreateWalletTransfers1737000000013';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'wallet_transfers',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          { name: 'reference', type: 'varchar', isNullable: false },
+          { name: 'sender_id', type: 'uuid', isNullable: false },
+          { name: 'recipient_id', type: 'uuid', isNullable: true },
+          {
+            name: 'recipient_phone',
+            type: 'varchar',
+            length: '20',
+            isNullable: true,
+          },
+          {
+            name: 'recipient_email',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'amount',
+            type: 'decimal',
+            precision: 15,
+            scale: 2,
+            isNullable: false,
+          },
+          {
+            name: 'currency',
+            type: 'enum',
+            enum: ['NGN', 'USD', 'EUR', 'GBP'],
+            isNullable: false,
+          },
+          { name: 'note', type: 'varchar', length: '255', isNullable: true },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: [
+              'PENDING_OTP',
+              'COMPLETED',
+              'PENDING_CLAIM',
+              'CLAIMED',
+              'RETURNED',
+              'CANCELLED',
+            ],
+            default: "'PENDING_OTP'",
+          },
+          { name: 'otp_id', type: 'varchar', isNullable: true },
+          {
+            name: 'otp_channel',
+            type: 'enum',
+            enum: ['SMS', 'EMAIL'],
+            isNullable: true,
+          },
+          { name: 'confirmed_at', type: 'timestamp', isNullable: true },
+          { name: 'claim_expires_at', type: 'timestamp', isNullable: true },
+          { name: 'claimed_at', type: 'timestamp', isNullable: true },
+          { name: 'returned_at', type: 'timestamp', isNullable: true },
+          ...timestampColumns,
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['sender_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['recipient_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'SET NULL',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('wallet_transfers', [
+      new TableIndex({
+        name: 'IDX_wallet_transfers_reference',
+        columnNames: ['reference'],
+        isUnique: true,
+      }),
+      new TableIndex({
+        name: 'IDX_wallet_transfers_sender_created',
+        columnNames: ['sender_id', 'created_at'],
+      }),
+      new TableIndex({
+        name: 'IDX_wallet_transfers_recipient_created',
+        columnNames: ['recipient_id', 'created_at'],
+      }),
+      new TableIndex({
+        name: 'IDX_wallet_transfers_status_claim_expires',
+        columnNames: ['status', 'claim_expires_at'],
+      }),
+      new TableIndex({
+        name: 'IDX_wallet_transfers_recipient_phone',
+        columnNames: ['recipient_phone'],
+      }),
+      new TableIndex({
+        name: 'IDX_wallet_transfers_recipient_email',
+        columnNames: ['recipient_email'],
+      }),
+    ]);
+
+    await queryRunner.query(
+      `ALTER TYPE "transactions_transaction_type_enum" ADD VALUE IF NOT EXISTS 'TRANSFER'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "ledger_accounts_type_enum" ADD VALUE IF NOT EXISTS 'GIFT_CREDIT'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "journal_entries_entry_type_enum" ADD VALUE IF NOT EXISTS 'WALLET_TRANSFER'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres can't drop enum values; TRANSFER, GIFT_CREDIT and
+    // WALLET_TRANSFER stay
+    await queryRunner.dropTable('wallet_transfers', true, true);
+  }
+}
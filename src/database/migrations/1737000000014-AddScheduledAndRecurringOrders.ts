@@ -0,0 +1,191 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+const timestampColumns = [
+  {
+    name: 'deleted_at',
+    type: 'timestamp',
+    isNullable: true,
+  },
+  {
+    name: 'created_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+  {
+    name: 'updated_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+];
+
+export class AddScheduledAndRecurringOrders1737000000014
+  implements MigrationInterface
+{
+  name = 'AddScheduledAndRecurringOrders1737000000014';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'recurring_orders',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          { name: 'customer_id', type: 'uuid', isNullable: false },
+          { name: 'vendor_id', type: 'uuid', isNullable: false },
+          {
+            name: 'order_type',
+            type: 'enum',
+            enum: ['DELIVERY', 'PICKUP'],
+            isNullable: false,
+          },
+          { name: 'delivery_address_id', type: 'uuid', isNullable: true },
+          {
+            name: 'payment_method',
+            type: 'enum',
+            enum: ['WALLET', 'STRIPE', 'PAYSTACK', 'MERCURY', 'CARD_SAVED'],
+            isNullable: false,
+          },
+          { name: 'saved_card_id', type: 'uuid', isNullable: true },
+          { name: 'items', type: 'jsonb', isNullable: false },
+          {
+            name: 'days_of_week',
+            type: 'int',
+            isArray: true,
+            isNullable: false,
+          },
+          {
+            name: 'time_of_day',
+            type: 'varchar',
+            length: '5',
+            isNullable: false,
+          },
+          {
+            name: 'timezone',
+            type: 'varchar',
+            length: '64',
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['ACTIVE', 'PAUSED', 'CANCELLED'],
+            default: "'ACTIVE'",
+          },
+          { name: 'next_occurrence_at', type: 'timestamp', isNullable: true },
+          { name: 'ends_at', type: 'timestamp', isNullable: true },
+          { name: 'delivery_instructions', type: 'text', isNullable: true },
+          { name: 'vendor_notes', type: 'text', isNullable: true },
+          { name: 'last_order_id', type: 'uuid', isNullable: true },
+          { name: 'consecutive_failures', type: 'int', default: 0 },
+          { name: 'last_failure_reason', type: 'text', isNullable: true },
+          ...timestampColumns,
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['customer_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['vendor_id'],
+            referencedTableName: 'vendors',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('recurring_orders', [
+      new TableIndex({
+        name: 'IDX_recurring_orders_customer_status',
+        columnNames: ['customer_id', 'status'],
+      }),
+      new TableIndex({
+        name: 'IDX_recurring_orders_status_next_occurrence',
+        columnNames: ['status', 'next_occurrence_at'],
+      }),
+    ]);
+
+    await queryRunner.addColumns('orders', [
+      new TableColumn({
+        name: 'scheduled_for',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'payment_timing',
+        type: 'enum',
+        enum: ['UPFRONT', 'JUST_IN_TIME'],
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'saved_card_id',
+        type: 'uuid',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'recurring_order_id',
+        type: 'uuid',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'released_to_vendor_at',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'delivery_requoted_at',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.createForeignKey(
+      'orders',
+      new TableForeignKey({
+        name: 'FK_ORDERS_RECURRING_ORDER',
+        columnNames: ['recurring_order_id'],
+        referencedTableName: 'recurring_orders',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'orders',
+      new TableIndex({
+        name: 'IDX_orders_scheduled_for_released',
+        columnNames: ['scheduled_for', 'released_to_vendor_at'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('orders', 'IDX_orders_scheduled_for_released');
+    await queryRunner.dropForeignKey('orders', 'FK_ORDERS_RECURRING_ORDER');
+    await queryRunner.dropColumns('orders', [
+      'delivery_requoted_at',
+      'released_to_vendor_at',
+      'recurring_order_id',
+      'saved_card_id',
+      'payment_timing',
+      'scheduled_for',
+    ]);
+    await queryRunner.dropTable('recurring_orders', true, true);
+  }
+}
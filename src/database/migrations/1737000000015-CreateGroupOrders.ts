@@ -0,0 +1,304 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+const timestampColumns = [
+  {
+    name: 'deleted_at',
+    type: 'timestamp',
+    isNullable: true,
+  },
+  {
+    name: 'created_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+  {
+    name: 'updated_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+];
+
+const moneyColumn = (name: string) => ({
+  name,
+  type: 'decimal',
+  precision: 12,
+  scale: 2,
+  default: 0,
+});
+
+export class CreateGroupOrders1737000000015 implements MigrationInterface {
+  name = 'CreateGroupOrders1737000000015';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'group_orders',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          { name: 'host_id', type: 'uuid', isNullable: false },
+          { name: 'vendor_id', type: 'uuid', isNullable: false },
+          {
+            name: 'share_token',
+            type: 'varchar',
+            length: '32',
+            isNullable: false,
+            isUnique: true,
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['OPEN', 'LOCKED', 'PLACED', 'CANCELLED'],
+            default: "'OPEN'",
+          },
+          {
+            name: 'payment_mode',
+            type: 'enum',
+            enum: ['HOST_PAYS', 'SPLIT'],
+            isNullable: false,
+          },
+          {
+            name: 'order_type',
+            type: 'enum',
+            enum: ['DELIVERY', 'PICKUP'],
+            isNullable: false,
+          },
+          { name: 'delivery_address_id', type: 'uuid', isNullable: true },
+          {
+            name: 'currency',
+            type: 'enum',
+            enum: ['NGN', 'USD', 'EUR', 'GBP'],
+            isNullable: false,
+          },
+          moneyColumn('subtotal'),
+          moneyColumn('delivery_fee'),
+          moneyColumn('service_fee'),
+          moneyColumn('total_amount'),
+          { name: 'fee_breakdown', type: 'jsonb', isNullable: true },
+          { name: 'delivery_quote_id', type: 'uuid', isNullable: true },
+          { name: 'order_id', type: 'uuid', isNullable: true },
+          { name: 'delivery_instructions', type: 'text', isNullable: true },
+          { name: 'vendor_notes', type: 'text', isNullable: true },
+          { name: 'locked_at', type: 'timestamp', isNullable: true },
+          { name: 'placed_at', type: 'timestamp', isNullable: true },
+          { name: 'cancelled_at', type: 'timestamp', isNullable: true },
+          ...timestampColumns,
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['host_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['vendor_id'],
+            referencedTableName: 'vendors',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'group_orders',
+      new TableIndex({
+        name: 'IDX_group_orders_host_status',
+        columnNames: ['host_id', 'status'],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'group_order_participants',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          { name: 'group_order_id', type: 'uuid', isNullable: false },
+          { name: 'user_id', type: 'uuid', isNullable: false },
+          { name: 'is_host', type: 'boolean', default: false },
+          {
+            name: 'display_name',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['ACTIVE', 'LEFT', 'CANCELLED'],
+            default: "'ACTIVE'",
+          },
+          moneyColumn('share_amount'),
+          moneyColumn('paid_amount'),
+          moneyColumn('refunded_amount'),
+          {
+            name: 'payment_method',
+            type: 'enum',
+            enum: ['WALLET', 'STRIPE', 'PAYSTACK', 'MERCURY', 'CARD_SAVED'],
+            isNullable: true,
+          },
+          { name: 'payment_reference', type: 'varchar', isNullable: true },
+          { name: 'paid_at', type: 'timestamp', isNullable: true },
+          { name: 'cancelled_at', type: 'timestamp', isNullable: true },
+          ...timestampColumns,
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['group_order_id'],
+            referencedTableName: 'group_orders',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['user_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('group_order_participants', [
+      new TableIndex({
+        name: 'IDX_group_order_participants_group_user',
+        columnNames: ['group_order_id', 'user_id'],
+        isUnique: true,
+      }),
+      new TableIndex({
+        name: 'IDX_group_order_participants_user_status',
+        columnNames: ['user_id', 'status'],
+      }),
+    ]);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'group_order_items',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          { name: 'group_order_id', type: 'uuid', isNullable: false },
+          { name: 'participant_id', type: 'uuid', isNullable: false },
+          { name: 'menu_item_id', type: 'uuid', isNullable: false },
+          { name: 'quantity', type: 'int', isNullable: false },
+          {
+            name: 'unit_price',
+            type: 'decimal',
+            precision: 12,
+            scale: 2,
+            isNullable: false,
+          },
+          {
+            name: 'total_price',
+            type: 'decimal',
+            precision: 12,
+            scale: 2,
+            isNullable: false,
+          },
+          { name: 'selected_options', type: 'jsonb', default: "'[]'" },
+          ...timestampColumns,
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['group_order_id'],
+            referencedTableName: 'group_orders',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['participant_id'],
+            referencedTableName: 'group_order_participants',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['menu_item_id'],
+            referencedTableName: 'menu_items',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'group_order_items',
+      new TableIndex({
+        name: 'IDX_group_order_items_group_participant',
+        columnNames: ['group_order_id', 'participant_id'],
+      }),
+    );
+
+    await queryRunner.addColumn(
+      'orders',
+      new TableColumn({
+        name: 'group_order_id',
+        type: 'uuid',
+        isNullable: true,
+      }),
+    );
+    await queryRunner.createForeignKey(
+      'orders',
+      new TableForeignKey({
+        name: 'FK_ORDERS_GROUP_ORDER',
+        columnNames: ['group_order_id'],
+        referencedTableName: 'group_orders',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.addColumns('order_items', [
+      new TableColumn({
+        name: 'group_participant_id',
+        type: 'uuid',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'group_participant_name',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumns('order_items', [
+      'group_participant_name',
+      'group_participant_id',
+    ]);
+    await queryRunner.dropForeignKey('orders', 'FK_ORDERS_GROUP_ORDER');
+    await queryRunner.dropColumn('orders', 'group_order_id');
+    await queryRunner.dropTable('group_order_items', true, true);
+    await queryRunner.dropTable('group_order_participants', true, true);
+    await queryRunner.dropTable('group_orders', true, true);
+  }
+}
@@ -0,0 +1,204 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableIndex,
+} from 'typeorm';
+
+const timestampColumns = [
+  {
+    name: 'deleted_at',
+    type: 'timestamp',
+    isNullable: true,
+  },
+  {
+    name: 'created_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+  {
+    name: 'updated_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+];
+
+const ratingAggregateColumns = () => [
+  new TableColumn({
+    name: 'rating_average',
+    type: 'decimal',
+    precision: 3,
+    scale: 2,
+    default: 0,
+  }),
+  new TableColumn({
+    name: 'total_ratings',
+    type: 'int',
+    default: 0,
+  }),
+];
+
+export class CreateReviews1737000000016 implements MigrationInterface {
+  name = 'CreateReviews1737000000016';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'reviews',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'order_id',
+            type: 'uuid',
+            isNullable: false,
+            isUnique: true,
+          },
+          { name: 'customer_id', type: 'uuid', isNullable: false },
+          { name: 'vendor_id', type: 'uuid', isNullable: false },
+          { name: 'food_rating', type: 'int', isNullable: false },
+          { name: 'packaging_rating', type: 'int', isNullable: false },
+          { name: 'delivery_rating', type: 'int', isNullable: true },
+          {
+            name: 'overall_rating',
+            type: 'decimal',
+            precision: 3,
+            scale: 2,
+            isNullable: false,
+          },
+          { name: 'comment', type: 'text', isNullable: true },
+          { name: 'photo_urls', type: 'jsonb', default: "'[]'" },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['PUBLISHED', 'HIDDEN'],
+            default: "'PUBLISHED'",
+          },
+          { name: 'is_flagged', type: 'boolean', default: false },
+          {
+            name: 'flag_reason',
+            type: 'varchar',
+            length: '500',
+            isNullable: true,
+          },
+          { name: 'moderation_note', type: 'text', isNullable: true },
+          { name: 'moderated_by', type: 'uuid', isNullable: true },
+          { name: 'moderated_at', type: 'timestamp', isNullable: true },
+          { name: 'vendor_reply', type: 'text', isNullable: true },
+          { name: 'vendor_replied_at', type: 'timestamp', isNullable: true },
+          ...timestampColumns,
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['order_id'],
+            referencedTableName: 'orders',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['customer_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['vendor_id'],
+            referencedTableName: 'vendors',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('reviews', [
+      new TableIndex({
+        name: 'IDX_reviews_vendor_status_created',
+        columnNames: ['vendor_id', 'status', 'created_at'],
+      }),
+      new TableIndex({
+        name: 'IDX_reviews_customer_created',
+        columnNames: ['customer_id', 'created_at'],
+      }),
+    ]);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'review_item_ratings',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          { name: 'review_id', type: 'uuid', isNullable: false },
+          { name: 'order_item_id', type: 'uuid', isNullable: false },
+          { name: 'menu_item_id', type: 'uuid', isNullable: false },
+          { name: 'rating', type: 'int', isNullable: false },
+          { name: 'comment', type: 'text', isNullable: true },
+          ...timestampColumns,
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['review_id'],
+            referencedTableName: 'reviews',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['menu_item_id'],
+            referencedTableName: 'menu_items',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('review_item_ratings', [
+      new TableIndex({
+        name: 'IDX_review_item_ratings_review_order_item',
+        columnNames: ['review_id', 'order_item_id'],
+        isUnique: true,
+      }),
+      new TableIndex({
+        name: 'IDX_review_item_ratings_menu_item',
+        columnNames: ['menu_item_id'],
+      }),
+    ]);
+
+    await queryRunner.addColumns('vendors', ratingAggregateColumns());
+    await queryRunner.addColumns('menu_items', ratingAggregateColumns());
+    await queryRunner.createIndex(
+      'menu_items',
+      new TableIndex({
+        name: 'IDX_menu_items_rating_average',
+        columnNames: ['rating_average'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('menu_items', 'IDX_menu_items_rating_average');
+    await queryRunner.dropColumns('menu_items', [
+      'total_ratings',
+      'rating_average',
+    ]);
+    await queryRunner.dropColumns('vendors', [
+      'total_ratings',
+      'rating_average',
+    ]);
+    await queryRunner.dropTable('review_item_ratings', true, true);
+    await queryRunner.dropTable('reviews', true, true);
+  }
+}
@@ -0,0 +1,195 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+const timestampColumns = [
+  {
+    name: 'deleted_at',
+    type: 'timestamp',
+    isNullable: true,
+  },
+  {
+    name: 'created_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+  {
+    name: 'updated_at',
+    type: 'timestamp',
+    default: 'CURRENT_TIMESTAMP',
+  },
+];
+
+const moneyColumn = (name: string) => ({
+  name,
+  type: 'decimal',
+  precision: 12,
+  scale: 2,
+  default: 0,
+});
+
+export class AddSelfDelivery1737000000017 implements MigrationInterface {
+  name = 'AddSelfDelivery1737000000017';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // deliveries.provider was created before Uber was added
+    await queryRunner.query(
+      `ALTER TYPE "deliveries_provider_enum" ADD VALUE IF NOT EXISTS 'uber'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "deliveries_provider_enum" ADD VALUE IF NOT EXISTS 'self_delivery'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "delivery_quotes_provider_enum" ADD VALUE IF NOT EXISTS 'self_delivery'`,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'vendor_delivery_zones',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          { name: 'vendor_id', type: 'uuid', isNullable: false },
+          { name: 'name', type: 'varchar', length: '100', isNullable: false },
+          {
+            name: 'max_distance_km',
+            type: 'decimal',
+            precision: 6,
+            scale: 2,
+            isNullable: false,
+          },
+          {
+            name: 'fee_type',
+            type: 'enum',
+            enum: ['FLAT', 'DISTANCE'],
+            default: "'FLAT'",
+          },
+          moneyColumn('base_fee'),
+          moneyColumn('per_km_fee'),
+          {
+            name: 'min_order_amount',
+            type: 'decimal',
+            precision: 12,
+            scale: 2,
+            isNullable: true,
+          },
+          { name: 'estimated_minutes', type: 'int', default: 45 },
+          { name: 'is_active', type: 'boolean', default: true },
+          ...timestampColumns,
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['vendor_id'],
+            referencedTableName: 'vendors',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'vendor_delivery_zones',
+      new TableIndex({
+        name: 'IDX_vendor_delivery_zones_vendor_active',
+        columnNames: ['vendor_id', 'is_active'],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'delivery_riders',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          { name: 'vendor_id', type: 'uuid', isNullable: false },
+          { name: 'user_id', type: 'uuid', isNullable: true },
+          { name: 'name', type: 'varchar', length: '255', isNullable: false },
+          {
+            name: 'phone_number',
+            type: 'varchar',
+            length: '32',
+            isNullable: false,
+          },
+          {
+            name: 'vehicle_description',
+            type: 'varchar',
+            length: '100',
+            isNullable: true,
+          },
+          { name: 'is_active', type: 'boolean', default: true },
+          ...timestampColumns,
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['vendor_id'],
+            referencedTableName: 'vendors',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['user_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'SET NULL',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('delivery_riders', [
+      new TableIndex({
+        name: 'IDX_delivery_riders_vendor_active',
+        columnNames: ['vendor_id', 'is_active'],
+      }),
+      new TableIndex({
+        name: 'IDX_delivery_riders_user',
+        columnNames: ['user_id'],
+      }),
+    ]);
+
+    await queryRunner.addColumn(
+      'deliveries',
+      new TableColumn({
+        name: 'rider_id',
+        type: 'uuid',
+        isNullable: true,
+      }),
+    );
+    await queryRunner.createForeignKey(
+      'deliveries',
+      new TableForeignKey({
+        name: 'FK_DELIVERIES_RIDER',
+        columnNames: ['rider_id'],
+        referencedTableName: 'delivery_riders',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres can't drop enum values; uber and self_delivery stay
+    await queryRunner.dropForeignKey('deliveries', 'FK_DELIVERIES_RIDER');
+    await queryRunner.dropColumn('deliveries', 'rider_id');
+    await queryRunner.dropTable('delivery_riders', true, true);
+    await queryRunner.dropTable('vendor_delivery_zones', true, true);
+  }
+}
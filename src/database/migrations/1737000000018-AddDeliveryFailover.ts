@@ -0,0 +1,92 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class AddDeliveryFailover1737000000018 implements MigrationInterface {
+  name = 'AddDeliveryFailover1737000000018';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // A booking the provider rejected never gets a tracking number
+    await queryRunner.query(
+      `ALTER TABLE "deliveries" ALTER COLUMN "tracking_number" DROP NOT NULL`,
+    );
+
+    await queryRunner.addColumns('deliveries', [
+      new TableColumn({
+        name: 'delivery_quote_id',
+        type: 'uuid',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'attempt_number',
+        type: 'int',
+        default: 1,
+      }),
+      new TableColumn({
+        name: 'courier_assigned_at',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'price_difference',
+        type: 'decimal',
+        precision: 12,
+        scale: 2,
+        default: 0,
+      }),
+      new TableColumn({
+        name: 'price_difference_paid_by',
+        type: 'enum',
+        enum: ['platform', 'vendor'],
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.createForeignKey(
+      'deliveries',
+      new TableForeignKey({
+        name: 'FK_DELIVERIES_DELIVERY_QUOTE',
+        columnNames: ['delivery_quote_id'],
+        referencedTableName: 'delivery_quotes',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createIndices('deliveries', [
+      new TableIndex({
+        name: 'IDX_deliveries_order_attempt',
+        columnNames: ['order_id', 'attempt_number'],
+      }),
+      new TableIndex({
+        name: 'IDX_deliveries_status_created',
+        columnNames: ['status', 'created_at'],
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('deliveries', 'IDX_deliveries_status_created');
+    await queryRunner.dropIndex('deliveries', 'IDX_deliveries_order_attempt');
+    await queryRunner.dropForeignKey(
+      'deliveries',
+      'FK_DELIVERIES_DELIVERY_QUOTE',
+    );
+    await queryRunner.dropColumn('deliveries', 'price_difference_paid_by');
+    await queryRunner.dropColumn('deliveries', 'price_difference');
+    await queryRunner.dropColumn('deliveries', 'courier_assigned_at');
+    await queryRunner.dropColumn('deliveries', 'attempt_number');
+    await queryRunner.dropColumn('deliveries', 'delivery_quote_id');
+    // Rows from rejected bookings have to go before the column is required
+    await queryRunner.query(
+      `DELETE FROM "deliveries" WHERE "tracking_number" IS NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "deliveries" ALTER COLUMN "tracking_number" SET NOT NULL`,
+    );
+  }
+}
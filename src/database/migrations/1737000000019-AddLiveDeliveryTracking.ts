@@ -0,0 +1,87 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  TableColumn,
+  TableIndex,
+} from 'typeorm';
+
+// Same precision as addresses.latitude / addresses.longitude
+const coordinateColumn = (name: string, precision: number) =>
+  new TableColumn({
+    name,
+    type: 'decimal',
+    precision,
+    scale: 8,
+    isNullable: true,
+  });
+
+export class AddLiveDeliveryTracking1737000000019
+  implements MigrationInterface
+{
+  name = 'AddLiveDeliveryTracking1737000000019';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('deliveries', [
+      new TableColumn({
+        name: 'courier_phone',
+        type: 'varchar',
+        length: '32',
+        isNullable: true,
+      }),
+      coordinateColumn('courier_latitude', 10),
+      coordinateColumn('courier_longitude', 11),
+      new TableColumn({
+        name: 'courier_located_at',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'provider_synced_at',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.addColumns('orders', [
+      new TableColumn({
+        name: 'is_gift',
+        type: 'boolean',
+        default: false,
+      }),
+      new TableColumn({
+        name: 'gift_recipient_name',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'tracking_token',
+        type: 'varchar',
+        length: '64',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.createIndex(
+      'orders',
+      new TableIndex({
+        name: 'IDX_orders_tracking_token',
+        columnNames: ['tracking_token'],
+        isUnique: true,
+        where: '"tracking_token" IS NOT NULL',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('orders', 'IDX_orders_tracking_token');
+    await queryRunner.dropColumn('orders', 'tracking_token');
+    await queryRunner.dropColumn('orders', 'gift_recipient_name');
+    await queryRunner.dropColumn('orders', 'is_gift');
+    await queryRunner.dropColumn('deliveries', 'provider_synced_at');
+    await queryRunner.dropColumn('deliveries', 'courier_located_at');
+    await queryRunner.dropColumn('deliveries', 'courier_longitude');
+    await queryRunner.dropColumn('deliveries', 'courier_latitude');
+    await queryRunner.dropColumn('deliveries', 'courier_phone');
+  }
+}
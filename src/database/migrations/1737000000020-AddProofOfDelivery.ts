@@ -0,0 +1,83 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+// Same precision as deliveries.courier_latitude / courier_longitude
+const coordinateColumn = (name: string, precision: number) =>
+  new TableColumn({
+    name,
+    type: 'decimal',
+    precision,
+    scale: 8,
+    isNullable: true,
+  });
+
+export class AddProofOfDelivery1737000000020 implements MigrationInterface {
+  name = 'AddProofOfDelivery1737000000020';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('deliveries', [
+      new TableColumn({
+        name: 'proof_photo_url',
+        type: 'varchar',
+        length: '500',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'proof_signature_url',
+        type: 'varchar',
+        length: '500',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'proof_recipient_name',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'proof_pin_verified',
+        type: 'boolean',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'proof_pin_attempts',
+        type: 'int',
+        default: 0,
+      }),
+      coordinateColumn('proof_latitude', 10),
+      coordinateColumn('proof_longitude', 11),
+      new TableColumn({
+        name: 'proof_captured_at',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'proof_data',
+        type: 'jsonb',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.addColumn(
+      'orders',
+      new TableColumn({
+        name: 'delivery_pin',
+        type: 'varchar',
+        length: '6',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('orders', 'delivery_pin');
+    await queryRunner.dropColumn('deliveries', 'proof_data');
+    await queryRunner.dropColumn('deliveries', 'proof_captured_at');
+    await queryRunner.dropColumn('deliveries', 'proof_longitude');
+    await queryRunner.dropColumn('deliveries', 'proof_latitude');
+    await queryRunner.dropColumn('deliveries', 'proof_pin_attempts');
+    await queryRunner.dropColumn('deliveries', 'proof_pin_verified');
+    await queryRunner.dropColumn('deliveries', 'proof_recipient_name');
+    await queryRunner.dropColumn('deliveries', 'proof_signature_url');
+    await queryRunner.dropColumn('deliveries', 'proof_photo_url');
+  }
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddGroupOrderEscrow1737000000021 implements MigrationInterface {
+  name = 'AddGroupOrderEscrow1737000000021';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "ledger_accounts_type_enum" ADD VALUE IF NOT EXISTS 'GROUP_ORDER_ESCROW'`,
+    );
+  }
+
+  public async down(): Promise<void> {
+    // Postgres can't drop enum values; GROUP_ORDER_ESCROW stays
+  }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWithdrawalReviewStatus1737000000022
+  implements MigrationInterface
+{
+  name = 'AddWithdrawalReviewStatus1737000000022';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "withdrawals_status_enum" ADD VALUE IF NOT EXISTS 'REVIEW_REQUIRED'`,
+    );
+  }
+
+  public async down(): Promise<void> {
+    // Postgres can't drop enum values; REVIEW_REQUIRED stays
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddVendorIsOpen1737000000023 implements MigrationInterface {
+  name = 'AddVendorIsOpen1737000000023';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Everyone starts open; the availability refresh closes vendors within
+    // a minute of deploy
+    await queryRunner.addColumn(
+      'vendors',
+      new TableColumn({
+        name: 'is_open',
+        type: 'boolean',
+        default: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('vendors', 'is_open');
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddOrderDeliveryFailoverClaim1737000000024
+  implements MigrationInterface
+{
+  name = 'AddOrderDeliveryFailoverClaim1737000000024';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'orders',
+      new TableColumn({
+        name: 'delivery_failover_until',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('orders', 'delivery_failover_until');
+  }
+}
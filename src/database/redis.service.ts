@@ -6,6 +6,7 @@ import { createClient, RedisClientType } from 'redis';
 export class RedisService implements OnModuleDestroy {
   private readonly logger = new Logger(RedisService.name);
   private redisClient: RedisClientType | null = null;
+  private subscriberClient: RedisClientType | null = null;
   private readonly isEnabled: boolean;
 
   constructor(private readonly configService: ConfigService) {
@@ -246,7 +247,146 @@ export class RedisService implements OnModuleDestroy {
     }
   }
 
+  async publish(channel: string, message: string): Promise<boolean> {
+    if (!(await this.ensureConnection())) {
+      return false;
+    }
+
+    try {
+      await this.redisClient!.publish(channel, message);
+      return true;
+    } catch (error) {
+      this.logger.error(`Error publishing to channel ${channel}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Subscribe to a pub/sub channel. Subscriptions need a dedicated
+   * connection, which is created on first use and shared afterwards.
+   * @returns false when Redis is unavailable
+   */
+  async subscribe(
+    channel: string,
+    listener: (message: string) => void,
+  ): Promise<boolean> {
+    if (!(await this.ensureConnection())) {
+      return false;
+    }
+
+    try {
+      if (!this.subscriberClient) {
+        this.subscriberClient = this.redisClient!.duplicate();
+        this.subscriberClient.on('error', (err) => {
+          this.logger.error('Redis Subscriber Error:', err);
+        });
+        await this.subscriberClient.connect();
+      }
+
+      await this.subscriberClient.subscribe(channel, listener);
+      return true;
+    } catch (error) {
+      this.logger.error(`Error subscribing to channel ${channel}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Append an entry to a stream, trimming it to roughly maxLength entries
+   * @returns The generated entry id, or null when Redis is unavailable
+   */
+  async xadd(
+    key: string,
+    fields: Record<string, string>,
+    maxLength?: number,
+  ): Promise<string | null> {
+    if (!(await this.ensureConnection())) {
+      return null;
+    }
+
+    try {
+      return await this.redisClient!.xAdd(
+        key,
+        '*',
+        fields,
+        maxLength
+          ? {
+              TRIM: {
+                strategy: 'MAXLEN',
+                strategyModifier: '~',
+                threshold: maxLength,
+              },
+            }
+          : undefined,
+      );
+    } catch (error) {
+      this.logger.error(`Error adding to stream ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Read stream entries between two ids, oldest first. Prefix an id with
+   * '(' to make that end exclusive.
+   */
+  async xrange(
+    key: string,
+    start: string,
+    end: string,
+    count?: number,
+  ): Promise<Array<{ id: string; message: Record<string, string> }>> {
+    if (!(await this.ensureConnection())) {
+      return [];
+    }
+
+    try {
+      return await this.redisClient!.xRange(
+        key,
+        start,
+        end,
+        count ? { COUNT: count } : undefined,
+      );
+    } catch (error) {
+      this.logger.error(`Error reading stream ${key}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Read stream entries newest first
+   */
+  async xrevrange(
+    key: string,
+    end: string,
+    start: string,
+    count?: number,
+  ): Promise<Array<{ id: string; message: Record<string, string> }>> {
+    if (!(await this.ensureConnection())) {
+      return [];
+    }
+
+    try {
+      return await this.redisClient!.xRevRange(
+        key,
+        end,
+        start,
+        count ? { COUNT: count } : undefined,
+      );
+    } catch (error) {
+      this.logger.error(`Error reading stream ${key}:`, error);
+      return [];
+    }
+  }
+
   async onModuleDestroy() {
+    if (this.subscriberClient && this.subscriberClient.isOpen) {
+      try {
+        await this.subscriberClient.quit();
+      } catch (error) {
+        this.logger.error('Error disconnecting Redis subscriber:', error);
+      }
+    }
+
     if (this.redisClient && this.redisClient.isOpen) {
       try {
         await this.redisClient.quit();
@@ -23,7 +23,32 @@ import {
   Bank,
   Coupon,
   CouponUsage,
-  MenuLike
+  AppliedCoupon,
+  MenuLike,
+  VendorOpeningHours,
+  VendorClosure,
+  MenuModifierGroup,
+  MenuModifierOption,
+  OrderStatusHistory,
+  Refund,
+  RefundItem,
+  WebhookEvent,
+  LedgerAccount,
+  JournalEntry,
+  JournalLine,
+  SettlementRun,
+  SettlementMismatch,
+  FeeRule,
+  WalletBalance,
+  WalletTransfer,
+  RecurringOrder,
+  GroupOrder,
+  GroupOrderParticipant,
+  GroupOrderItem,
+  Review,
+  ReviewItemRating,
+  VendorDeliveryZone,
+  DeliveryRider
 } from '../entities';
 
 // Load environment variables
@@ -59,7 +84,32 @@ export default new DataSource({
     Bank,
     Coupon,
     CouponUsage,
-    MenuLike  // ✅ ADD THIS
+    AppliedCoupon,
+    MenuLike,  // ✅ ADD THIS
+    VendorOpeningHours,
+    VendorClosure,
+    MenuModifierGroup,
+    MenuModifierOption,
+    OrderStatusHistory,
+    Refund,
+    RefundItem,
+    WebhookEvent,
+    LedgerAccount,
+    JournalEntry,
+    JournalLine,
+    SettlementRun,
+    SettlementMismatch,
+    FeeRule,
+    WalletBalance,
+    WalletTransfer,
+    RecurringOrder,
+    GroupOrder,
+    GroupOrderParticipant,
+    GroupOrderItem,
+    Review,
+    ReviewItemRating,
+    VendorDeliveryZone,
+    DeliveryRider
   ],
   migrations: [__dirname + '/migrations/*{.ts,.js}'],
   synchronize: false,
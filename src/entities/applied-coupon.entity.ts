@@ -0,0 +1,48 @@
+// src/entities/applied-coupon.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+  Index,
+} from 'typeorm';
+import { Coupon } from './coupon.entity';
+
+// A coupon a customer has applied to their cart for a vendor,
+// consumed when the order for that vendor is created
+@Entity('applied_coupons')
+@Unique(['user_id', 'vendor_id'])
+@Index(['user_id'])
+export class AppliedCoupon {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  user_id: string;
+
+  @Column()
+  vendor_id: string;
+
+  @Column()
+  coupon_id: string;
+
+  @Column()
+  code: string;
+
+  @Column('decimal', { precision: 10, scale: 2 })
+  discount_amount: number;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => Coupon, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'coupon_id' })
+  coupon: Coupon;
+}
@@ -5,7 +5,7 @@ import {
   JoinColumn,
   Index,
 } from 'typeorm';
-import { IsString, IsNotEmpty, Length } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, Length } from 'class-validator';
 import { BaseEntity } from './base.entity';
 import { User } from './user.entity';
 
@@ -34,6 +34,22 @@ export class Bank extends BaseEntity {
   @Length(8, 20)
   account_number: string;
 
+  // Payout provider details
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  @IsOptional()
+  @IsString()
+  bank_code?: string; // Paystack bank code (NGN)
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  @IsOptional()
+  @IsString()
+  paystack_recipient_code?: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  @IsOptional()
+  @IsString()
+  stripe_connect_account_id?: string; // USD, GBP, EUR payouts
+
   // Relationships
   @ManyToOne(() => User, { eager: true })
   @JoinColumn({ name: 'user_id' })
@@ -12,6 +12,17 @@ import { BaseEntity } from './base.entity';
 import { MenuItem } from './menu-item.entity';
 import { Vendor } from './vendor.entity';
 
+/**
+ * Snapshot of a modifier option chosen for a cart or order line
+ */
+export interface SelectedMenuOption {
+  group_id: string;
+  group_name: string;
+  option_id: string;
+  option_name: string;
+  price_delta: number;
+}
+
 @Entity('cart_items')
 export class CartItem extends BaseEntity {
   @Column({ type: 'varchar' })
@@ -32,11 +43,19 @@ export class CartItem extends BaseEntity {
   @Max(99)
   quantity: number;
 
+  // Menu item price plus the price deltas of selected_options
   @Column({ type: 'decimal', precision: 12, scale: 2 })
   @IsNumber()
   @Min(0)
   unit_price: number;
 
+  @Column({ type: 'jsonb', nullable: true })
+  selected_options?: SelectedMenuOption[];
+
+  // Sorted option IDs; lines for the same item with different options stay separate
+  @Column({ type: 'varchar', length: 1000, default: '' })
+  options_signature: string;
+
   @Column({ type: 'decimal', precision: 12, scale: 2 })
   @IsNumber()
   @Min(0)
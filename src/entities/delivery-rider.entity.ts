@@ -0,0 +1,48 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
+import { BaseEntity } from './base.entity';
+
+/**
+ * A rider in a vendor's own fleet. Riders with a user account can post
+ * status updates for the deliveries assigned to them; the vendor can post
+ * them for any rider.
+ */
+@Entity('delivery_riders')
+@Index(['vendor_id', 'is_active'])
+@Index(['user_id'])
+export class DeliveryRider extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  vendor_id: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  @IsOptional()
+  @IsString()
+  user_id?: string | null;
+
+  @Column({ type: 'varchar', length: 255 })
+  @IsString()
+  name: string;
+
+  @Column({ type: 'varchar', length: 32 })
+  @IsString()
+  phone_number: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  @IsOptional()
+  @IsString()
+  vehicle_description?: string | null;
+
+  @Column({ type: 'boolean', default: true })
+  @IsBoolean()
+  is_active: boolean;
+
+  // Relationships
+  @ManyToOne('Vendor', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vendor_id' })
+  vendor: any;
+
+  @ManyToOne('User', { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'user_id' })
+  user: any;
+}
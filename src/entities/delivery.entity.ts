@@ -16,9 +16,17 @@ export enum ShipmentStatus {
 export enum DeliveryProvider {
   SHIPBUBBLE = 'shipbubble',
   UBER = 'uber',
+  // The vendor's own riders
+  SELF_DELIVERY = 'self_delivery',
   // Add other providers as needed
 }
 
+// Who covers a replacement provider costing more than the customer paid
+export enum DeliveryCostBearer {
+  PLATFORM = 'platform',
+  VENDOR = 'vendor',
+}
+
 @Entity('deliveries')
 export class Delivery {
   @PrimaryGeneratedColumn('uuid')
@@ -38,8 +46,16 @@ export class Delivery {
   })
   provider: DeliveryProvider;
 
-  @Column({ name: 'tracking_number', unique: true })
-  tracking_number: string;
+  // Empty when the provider rejected the booking
+  @Column({ name: 'tracking_number', unique: true, nullable: true })
+  tracking_number: string | null;
+
+  @Column({ name: 'delivery_quote_id', type: 'uuid', nullable: true })
+  delivery_quote_id?: string | null;
+
+  // 1 for the first provider tried, counting up with each failover
+  @Column({ name: 'attempt_number', type: 'int', default: 1 })
+  attempt_number: number;
 
   @Column({
     type: 'enum',
@@ -108,6 +124,107 @@ export class Delivery {
   @Column({ name: 'failure_reason', nullable: true })
   failure_reason?: string;
 
+  @Column({ name: 'courier_assigned_at', type: 'timestamp', nullable: true })
+  courier_assigned_at?: Date | null;
+
+  @Column({ name: 'courier_phone', length: 32, nullable: true })
+  courier_phone?: string | null;
+
+  // Last position reported by the provider or rider
+  @Column({
+    name: 'courier_latitude',
+    type: 'decimal',
+    precision: 10,
+    scale: 8,
+    nullable: true,
+  })
+  courier_latitude?: number | null;
+
+  @Column({
+    name: 'courier_longitude',
+    type: 'decimal',
+    precision: 11,
+    scale: 8,
+    nullable: true,
+  })
+  courier_longitude?: number | null;
+
+  @Column({ name: 'courier_located_at', type: 'timestamp', nullable: true })
+  courier_located_at?: Date | null;
+
+  // Last time tracking was pulled from the provider's API
+  @Column({ name: 'provider_synced_at', type: 'timestamp', nullable: true })
+  provider_synced_at?: Date | null;
+
+  // Proof of delivery, from the provider or the vendor's rider
+  @Column({ name: 'proof_photo_url', length: 500, nullable: true })
+  proof_photo_url?: string | null;
+
+  @Column({ name: 'proof_signature_url', length: 500, nullable: true })
+  proof_signature_url?: string | null;
+
+  @Column({ name: 'proof_recipient_name', length: 255, nullable: true })
+  proof_recipient_name?: string | null;
+
+  // Null when the order had no delivery PIN or the provider can't check one
+  @Column({ name: 'proof_pin_verified', type: 'boolean', nullable: true })
+  proof_pin_verified?: boolean | null;
+
+  @Column({ name: 'proof_pin_attempts', type: 'int', default: 0 })
+  proof_pin_attempts: number;
+
+  // Where the order was handed over
+  @Column({
+    name: 'proof_latitude',
+    type: 'decimal',
+    precision: 10,
+    scale: 8,
+    nullable: true,
+  })
+  proof_latitude?: number | null;
+
+  @Column({
+    name: 'proof_longitude',
+    type: 'decimal',
+    precision: 11,
+    scale: 8,
+    nullable: true,
+  })
+  proof_longitude?: number | null;
+
+  @Column({ name: 'proof_captured_at', type: 'timestamp', nullable: true })
+  proof_captured_at?: Date | null;
+
+  // Proof as the provider sent it, and who captured it
+  @Column({ name: 'proof_data', type: 'jsonb', nullable: true })
+  proof_data?: Record<string, any> | null;
+
+  // Failover only: this attempt's cost less the delivery fee the customer paid
+  @Column({
+    name: 'price_difference',
+    type: 'decimal',
+    precision: 12,
+    scale: 2,
+    default: 0,
+  })
+  price_difference: number;
+
+  @Column({
+    name: 'price_difference_paid_by',
+    type: 'enum',
+    enum: DeliveryCostBearer,
+    nullable: true,
+  })
+  price_difference_paid_by?: DeliveryCostBearer | null;
+
+  // Self-delivery only: the vendor's rider carrying the order
+  @Column({ name: 'rider_id', type: 'uuid', nullable: true })
+  rider_id?: string | null;
+
+  @ManyToOne('DeliveryRider', { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'rider_id' })
+  rider?: any;
+
   @OneToMany(() => DeliveryTracking, (tracking) => tracking.delivery)
   tracking_events: DeliveryTracking[];
 
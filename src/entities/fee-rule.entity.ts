@@ -0,0 +1,195 @@
+import { Entity, Column, Index } from 'typeorm';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { OrderType } from './order.entity';
+import { Currency } from './wallet.entity';
+
+export enum FeeKind {
+  // Charged to the customer on top of the subtotal
+  SERVICE_FEE = 'SERVICE_FEE',
+  // Kept by the platform out of the vendor's subtotal
+  COMMISSION = 'COMMISSION',
+}
+
+const decimalTransformer = {
+  to: (value?: number | null) => value,
+  from: (value?: string | null) =>
+    value === null || value === undefined ? null : parseFloat(value),
+};
+
+/**
+ * How a fee is worked out for part of an order. Every scope column left
+ * null matches anything; when several rules match, the most specific one
+ * wins (vendor, then category, country, currency, order type), then the
+ * highest priority.
+ *
+ * fee = base * percentage / 100 + flat_amount, raised to min_amount and
+ * capped at max_amount when those are set.
+ */
+@Entity('fee_rules')
+@Index(['fee_kind', 'is_active'])
+@Index(['vendor_id'])
+export class FeeRule extends BaseEntity {
+  @Column({ type: 'varchar', length: 255 })
+  @IsString()
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  description?: string | null;
+
+  @Column({ type: 'enum', enum: FeeKind })
+  @IsEnum(FeeKind)
+  fee_kind: FeeKind;
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  vendor_id?: string | null;
+
+  // Menu category; the rule then only prices items from that category
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  category_id?: string | null;
+
+  // ISO 3166-1 alpha-2 code of the vendor's country
+  @Column({ type: 'varchar', length: 2, nullable: true })
+  @IsOptional()
+  @IsString()
+  country?: string | null;
+
+  @Column({ type: 'enum', enum: Currency, nullable: true })
+  @IsOptional()
+  @IsEnum(Currency)
+  currency?: Currency | null;
+
+  @Column({ type: 'enum', enum: OrderType, nullable: true })
+  @IsOptional()
+  @IsEnum(OrderType)
+  order_type?: OrderType | null;
+
+  @Column({
+    type: 'decimal',
+    precision: 5,
+    scale: 2,
+    default: 0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value) || 0,
+    },
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  percentage: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 12,
+    scale: 2,
+    default: 0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value) || 0,
+    },
+  })
+  @IsNumber()
+  @Min(0)
+  flat_amount: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 12,
+    scale: 2,
+    nullable: true,
+    transformer: decimalTransformer,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  min_amount?: number | null;
+
+  // Cap
+  @Column({
+    type: 'decimal',
+    precision: 12,
+    scale: 2,
+    nullable: true,
+    transformer: decimalTransformer,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  max_amount?: number | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  start_date?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  end_date?: Date | null;
+
+  @Column({ type: 'int', default: 0 })
+  @IsInt()
+  priority: number;
+
+  @Column({ type: 'boolean', default: true })
+  @IsBoolean()
+  is_active: boolean;
+
+  // Admin who created or last changed the rule
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  updated_by?: string | null;
+}
+
+/**
+ * One rule applied to the part of the order it priced. rule_id is null when
+ * no rule matched and the configured default percentage was used.
+ */
+export interface FeeComponent {
+  rule_id: string | null;
+  rule_name: string;
+  category_id?: string | null;
+  base_amount: number;
+  percentage: number;
+  flat_amount: number;
+  min_amount: number | null;
+  max_amount: number | null;
+  amount: number;
+}
+
+export interface FeeLine {
+  amount: number;
+  components: FeeComponent[];
+}
+
+/**
+ * Fees worked out when the order was placed. Stored on the order so
+ * commission, refunds and cancellations use the same figures even after the
+ * rules change.
+ */
+export interface FeeBreakdown {
+  currency: Currency;
+  subtotal: number;
+  order_type: OrderType | null;
+  service_fee: FeeLine;
+  commission: FeeLine;
+  calculated_at: string;
+}
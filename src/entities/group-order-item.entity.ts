@@ -0,0 +1,57 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { IsNumber, IsString, Max, Min } from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { SelectedMenuOption } from './cart-item.entity';
+
+/**
+ * A line in a group order's shared cart. Each participant only changes
+ * their own lines; prices are checked again when the group is locked.
+ */
+@Entity('group_order_items')
+@Index(['group_order_id', 'participant_id'])
+export class GroupOrderItem extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  group_order_id: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  participant_id: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  menu_item_id: string;
+
+  @Column({ type: 'int' })
+  @IsNumber()
+  @Min(1)
+  @Max(99)
+  quantity: number;
+
+  // Menu item price plus the price deltas of selected_options
+  @Column({ type: 'decimal', precision: 12, scale: 2 })
+  @IsNumber()
+  @Min(0)
+  unit_price: number;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2 })
+  @IsNumber()
+  @Min(0)
+  total_price: number;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  selected_options: SelectedMenuOption[];
+
+  // Relationships
+  @ManyToOne('GroupOrder', 'items', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'group_order_id' })
+  group_order: any;
+
+  @ManyToOne('GroupOrderParticipant', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'participant_id' })
+  participant: any;
+
+  @ManyToOne('MenuItem', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'menu_item_id' })
+  menu_item: any;
+}
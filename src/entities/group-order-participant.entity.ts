@@ -0,0 +1,106 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { PaymentMethod } from './order.entity';
+
+export enum GroupParticipantStatus {
+  ACTIVE = 'ACTIVE',
+  // Left or removed before the order was placed
+  LEFT = 'LEFT',
+  // Their part of a placed order was cancelled and refunded
+  CANCELLED = 'CANCELLED',
+}
+
+@Entity('group_order_participants')
+@Index(['group_order_id', 'user_id'], { unique: true })
+@Index(['user_id', 'status'])
+export class GroupOrderParticipant extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  group_order_id: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  user_id: string;
+
+  @Column({ type: 'boolean', default: false })
+  @IsBoolean()
+  is_host: boolean;
+
+  // Name shown to the group and on the vendor's order
+  @Column({ type: 'varchar', length: 255 })
+  @IsString()
+  display_name: string;
+
+  @Column({
+    type: 'enum',
+    enum: GroupParticipantStatus,
+    default: GroupParticipantStatus.ACTIVE,
+  })
+  @IsEnum(GroupParticipantStatus)
+  status: GroupParticipantStatus;
+
+  // Items plus their part of the delivery and service fees, set on lock
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  @IsNumber()
+  @Min(0)
+  share_amount: number;
+
+  // Split payment: what this participant paid into escrow
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  @IsNumber()
+  @Min(0)
+  paid_amount: number;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  @IsNumber()
+  @Min(0)
+  refunded_amount: number;
+
+  @Column({ type: 'enum', enum: PaymentMethod, nullable: true })
+  @IsOptional()
+  @IsEnum(PaymentMethod)
+  payment_method?: PaymentMethod | null;
+
+  // Wallet transfer reference of the share payment
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  payment_reference?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  paid_at?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  cancelled_at?: Date | null;
+
+  // Relationships
+  @ManyToOne('GroupOrder', 'participants', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'group_order_id' })
+  group_order: any;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: any;
+
+  // Virtual properties
+  get is_active(): boolean {
+    return this.status === GroupParticipantStatus.ACTIVE;
+  }
+
+  get has_paid_share(): boolean {
+    return Number(this.paid_amount) > 0;
+  }
+}
@@ -0,0 +1,167 @@
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import {
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { OrderType } from './order.entity';
+import { Currency } from './wallet.entity';
+import { FeeBreakdown } from './fee-rule.entity';
+
+export enum GroupOrderStatus {
+  // Participants can join and change their own items
+  OPEN = 'OPEN',
+  // Totals and shares are fixed; split shares are being collected
+  LOCKED = 'LOCKED',
+  PLACED = 'PLACED',
+  CANCELLED = 'CANCELLED',
+}
+
+export enum GroupOrderPaymentMode {
+  HOST_PAYS = 'HOST_PAYS',
+  // Each participant pays their own share into escrow before the host
+  // checks out
+  SPLIT = 'SPLIT',
+}
+
+/**
+ * Order one person opens at a vendor and shares by link so others can add
+ * their own items. Placing it creates a single Order whose items are tagged
+ * with the participant they belong to.
+ */
+@Entity('group_orders')
+@Index(['host_id', 'status'])
+export class GroupOrder extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  host_id: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  vendor_id: string;
+
+  // Goes in the share link; anyone holding it can join while the group is open
+  @Column({ type: 'varchar', length: 32, unique: true })
+  @IsString()
+  share_token: string;
+
+  @Column({
+    type: 'enum',
+    enum: GroupOrderStatus,
+    default: GroupOrderStatus.OPEN,
+  })
+  @IsEnum(GroupOrderStatus)
+  status: GroupOrderStatus;
+
+  @Column({ type: 'enum', enum: GroupOrderPaymentMode })
+  @IsEnum(GroupOrderPaymentMode)
+  payment_mode: GroupOrderPaymentMode;
+
+  @Column({ type: 'enum', enum: OrderType })
+  @IsEnum(OrderType)
+  order_type: OrderType;
+
+  @Column({ type: 'uuid', nullable: true })
+  @IsOptional()
+  @IsString()
+  delivery_address_id?: string | null;
+
+  @Column({ type: 'enum', enum: Currency })
+  @IsEnum(Currency)
+  currency: Currency;
+
+  // Totals below are fixed when the group is locked
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  @IsNumber()
+  @Min(0)
+  subtotal: number;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  @IsNumber()
+  @Min(0)
+  delivery_fee: number;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  @IsNumber()
+  @Min(0)
+  service_fee: number;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  @IsNumber()
+  @Min(0)
+  total_amount: number;
+
+  @Column({ type: 'jsonb', nullable: true })
+  @IsOptional()
+  fee_breakdown?: FeeBreakdown | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  @IsOptional()
+  @IsString()
+  delivery_quote_id?: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  @IsOptional()
+  @IsString()
+  order_id?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  delivery_instructions?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  vendor_notes?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  locked_at?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  placed_at?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  cancelled_at?: Date | null;
+
+  // Relationships
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'host_id' })
+  host: any;
+
+  @ManyToOne('Vendor', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vendor_id' })
+  vendor: any;
+
+  @OneToMany('GroupOrderParticipant', 'group_order')
+  participants: any[];
+
+  @OneToMany('GroupOrderItem', 'group_order')
+  items: any[];
+
+  // Virtual properties
+  get is_open(): boolean {
+    return this.status === GroupOrderStatus.OPEN;
+  }
+
+  get is_split(): boolean {
+    return this.payment_mode === GroupOrderPaymentMode.SPLIT;
+  }
+}
@@ -3,6 +3,8 @@ export * from './user.entity';
 export * from './address.entity';
 export * from './vendor.entity';
 export * from './wallet.entity';
+export * from './wallet-balance.entity';
+export * from './wallet-transfer.entity';
 export * from './menu-item.entity';
 export * from './category.entity';
 export * from './cart-item.entity';
@@ -11,15 +13,38 @@ export * from './user-notification-preference.entity';
 export * from './device-token.entity';
 export * from './order.entity';
 export * from './order-item.entity';
+export * from './recurring-order.entity';
+export * from './group-order.entity';
+export * from './group-order-participant.entity';
+export * from './group-order-item.entity';
+export * from './review.entity';
+export * from './review-item-rating.entity';
 export * from './transaction.entity';
 export * from './vendor-application.entity';
 export * from './payment.entity';
 export * from './delivery.entity';
 export * from './delivery-tracking.entity';
 export * from './delivery-quote.entity';
+export * from './vendor-delivery-zone.entity';
+export * from './delivery-rider.entity';
 export * from './withdrawal.entity';
 export * from './saved-card.entity';
 export * from './bank.entity';
 export * from './coupon.entity';
 export * from './coupon-usage.entity'; 
-export * from './menu-like.entity';
\ No newline at end of file
+export * from './applied-coupon.entity';
+export * from './menu-like.entity';
+export * from './vendor-opening-hours.entity';
+export * from './vendor-closure.entity';
+export * from './menu-modifier-group.entity';
+export * from './menu-modifier-option.entity';
+export * from './order-status-history.entity';
+export * from './refund.entity';
+export * from './refund-item.entity';
+export * from './webhook-event.entity';
+export * from './ledger-account.entity';
+export * from './journal-entry.entity';
+export * from './journal-line.entity';
+export * from './settlement-run.entity';
+export * from './settlement-mismatch.entity';
+export * from './fee-rule.entity';
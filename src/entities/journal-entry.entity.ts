@@ -0,0 +1,62 @@
+import { Entity, Column, OneToMany, Index } from 'typeorm';
+import { IsEnum, IsOptional, IsString, IsDateString } from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { Currency } from './wallet.entity';
+import { JournalLine } from './journal-line.entity';
+
+export enum JournalEntryType {
+  OPENING_BALANCE = 'OPENING_BALANCE',
+  WALLET_FUNDING = 'WALLET_FUNDING',
+  ORDER_PAYMENT = 'ORDER_PAYMENT',
+  REFUND = 'REFUND',
+  WITHDRAWAL_REQUESTED = 'WITHDRAWAL_REQUESTED',
+  WITHDRAWAL_PAID = 'WITHDRAWAL_PAID',
+  WITHDRAWAL_RETURNED = 'WITHDRAWAL_RETURNED',
+  ADJUSTMENT = 'ADJUSTMENT',
+  FX_CONVERSION = 'FX_CONVERSION',
+  WALLET_TRANSFER = 'WALLET_TRANSFER',
+}
+
+/**
+ * A balanced set of ledger lines for one business event. reference is the
+ * payment, refund or withdrawal it records, and is unique per entry type so
+ * posting the same event twice is a no-op.
+ */
+@Entity('journal_entries')
+@Index(['entry_type', 'reference'], { unique: true })
+@Index(['order_id'])
+@Index(['posted_at'])
+export class JournalEntry extends BaseEntity {
+  @Column({ type: 'enum', enum: JournalEntryType })
+  @IsEnum(JournalEntryType)
+  entry_type: JournalEntryType;
+
+  @Column({ type: 'varchar' })
+  @IsString()
+  reference: string;
+
+  @Column({ type: 'enum', enum: Currency })
+  @IsEnum(Currency)
+  currency: Currency;
+
+  @Column({ type: 'text' })
+  @IsString()
+  description: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  @IsOptional()
+  @IsString()
+  order_id?: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  @IsOptional()
+  metadata?: Record<string, any>;
+
+  @Column({ type: 'timestamp' })
+  @IsDateString()
+  posted_at: Date;
+
+  // Relationships
+  @OneToMany(() => JournalLine, line => line.journal_entry, { cascade: true })
+  lines: JournalLine[];
+}
@@ -0,0 +1,47 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { IsEnum, IsNumber, IsString, Min } from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { JournalEntry } from './journal-entry.entity';
+import { LedgerAccount, LedgerDirection } from './ledger-account.entity';
+
+/**
+ * One debit or credit of a journal entry against a ledger account
+ */
+@Entity('journal_lines')
+@Index(['journal_entry_id'])
+@Index(['account_id'])
+export class JournalLine extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  journal_entry_id: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  account_id: string;
+
+  @Column({ type: 'enum', enum: LedgerDirection })
+  @IsEnum(LedgerDirection)
+  direction: LedgerDirection;
+
+  @Column({
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value) || 0,
+    },
+  })
+  @IsNumber()
+  @Min(0)
+  amount: number;
+
+  // Relationships
+  @ManyToOne(() => JournalEntry, entry => entry.lines, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'journal_entry_id' })
+  journal_entry: JournalEntry;
+
+  @ManyToOne(() => LedgerAccount)
+  @JoinColumn({ name: 'account_id' })
+  account: LedgerAccount;
+}
@@ -0,0 +1,77 @@
+import { Entity, Column, Index } from 'typeorm';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { Currency } from './wallet.entity';
+
+export enum LedgerAccountType {
+  CUSTOMER_WALLET = 'CUSTOMER_WALLET',
+  VENDOR_PAYABLE = 'VENDOR_PAYABLE',
+  PLATFORM_COMMISSION = 'PLATFORM_COMMISSION',
+  GATEWAY_CLEARING = 'GATEWAY_CLEARING',
+  PAYOUT_IN_TRANSIT = 'PAYOUT_IN_TRANSIT',
+  ADJUSTMENTS = 'ADJUSTMENTS',
+  FX_POSITION = 'FX_POSITION',
+  GIFT_CREDIT = 'GIFT_CREDIT',
+  GROUP_ORDER_ESCROW = 'GROUP_ORDER_ESCROW',
+}
+
+export enum LedgerDirection {
+  DEBIT = 'DEBIT',
+  CREDIT = 'CREDIT',
+}
+
+/**
+ * Which side increases each account. Wallets, vendor payables and payouts
+ * in transit are money the platform owes; gateway clearing is money held for
+ * it by the providers; adjustments absorb opening balances and corrections.
+ * The FX position takes in (credit) and pays out (debit) each currency when
+ * wallet money is converted; its balance per currency is the platform's
+ * exposure in that currency. Gift credit is wallet money sent to someone
+ * without an account yet, held until they claim it or it goes back.
+ * Group order escrow holds split group order shares until the order is
+ * placed or the shares go back.
+ */
+export const LEDGER_NORMAL_BALANCE: Record<LedgerAccountType, LedgerDirection> =
+  {
+    [LedgerAccountType.CUSTOMER_WALLET]: LedgerDirection.CREDIT,
+    [LedgerAccountType.VENDOR_PAYABLE]: LedgerDirection.CREDIT,
+    [LedgerAccountType.PLATFORM_COMMISSION]: LedgerDirection.CREDIT,
+    [LedgerAccountType.GATEWAY_CLEARING]: LedgerDirection.DEBIT,
+    [LedgerAccountType.PAYOUT_IN_TRANSIT]: LedgerDirection.CREDIT,
+    [LedgerAccountType.ADJUSTMENTS]: LedgerDirection.DEBIT,
+    [LedgerAccountType.FX_POSITION]: LedgerDirection.DEBIT,
+    [LedgerAccountType.GIFT_CREDIT]: LedgerDirection.CREDIT,
+    [LedgerAccountType.GROUP_ORDER_ESCROW]: LedgerDirection.CREDIT,
+  };
+
+/**
+ * One account in the double-entry ledger. Customer wallet and vendor payable
+ * accounts belong to a user (owner_id); gateway clearing accounts are kept
+ * per payment provider (owner_id is the provider); the rest are platform
+ * accounts. code is unique per type, owner and currency.
+ */
+@Entity('ledger_accounts')
+@Index(['code'], { unique: true })
+@Index(['type', 'owner_id'])
+export class LedgerAccount extends BaseEntity {
+  @Column({ type: 'varchar', unique: true })
+  @IsString()
+  code: string;
+
+  @Column({ type: 'enum', enum: LedgerAccountType })
+  @IsEnum(LedgerAccountType)
+  type: LedgerAccountType;
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  owner_id?: string;
+
+  @Column({ type: 'enum', enum: Currency })
+  @IsEnum(Currency)
+  currency: Currency;
+
+  @Column({ type: 'enum', enum: LedgerDirection })
+  @IsEnum(LedgerDirection)
+  normal_balance: LedgerDirection;
+}
@@ -2,6 +2,7 @@ import {
   Entity,
   Column,
   ManyToOne,
+  OneToMany,
   JoinColumn,
   Index,
   BeforeInsert,
@@ -17,10 +18,18 @@ import {
   Max,
 } from 'class-validator';
 import { BaseEntity } from './base.entity';
+import { MenuModifierGroup } from './menu-modifier-group.entity';
+
+const ratingTransformer = {
+  to: (value?: number | null) => value,
+  from: (value?: string | null) =>
+    value === null || value === undefined ? null : parseFloat(value),
+};
 
 @Entity('menu_items')
 @Index(['vendor_id', 'is_available'])
 @Index(['category_id', 'is_available'])
+@Index(['rating_average'])
 export class MenuItem extends BaseEntity {
   @Column({ type: 'varchar' })
   @IsString()
@@ -70,6 +79,53 @@ export class MenuItem extends BaseEntity {
   @IsBoolean()
   is_available: boolean;
 
+  // Inventory: null means the item is not stock-tracked
+  @Column({ type: 'int', nullable: true })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  stock_quantity?: number | null;
+
+  // Maximum portions sold per business day (see Vendor.inventory_reset_time)
+  @Column({ type: 'int', nullable: true })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  daily_stock_limit?: number | null;
+
+  @Column({ type: 'int', default: 0 })
+  @IsNumber()
+  @Min(0)
+  daily_sold_count: number;
+
+  // Business day (YYYY-MM-DD, vendor local) that daily_sold_count belongs to
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  @IsOptional()
+  daily_sold_date?: string | null;
+
+  // Set when the item was switched off automatically because it sold out
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  sold_out_at?: Date | null;
+
+  // Rolling average of the item ratings left in published reviews
+  @Column({
+    type: 'decimal',
+    precision: 3,
+    scale: 2,
+    default: 0,
+    transformer: ratingTransformer,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(5)
+  rating_average: number;
+
+  @Column({ type: 'int', default: 0 })
+  @IsNumber()
+  @Min(0)
+  total_ratings: number;
+
   // Relationships
   @ManyToOne('Vendor', { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'vendor_id' })
@@ -79,6 +135,13 @@ export class MenuItem extends BaseEntity {
   @JoinColumn({ name: 'category_id' })
   category: any;
 
+  @OneToMany(() => MenuModifierGroup, group => group.menu_item)
+  modifier_groups?: MenuModifierGroup[];
+
+  get is_stock_tracked(): boolean {
+    return this.stock_quantity != null || this.daily_stock_limit != null;
+  }
+
   // Methods
   toggleAvailability(): void {
     this.is_available = !this.is_available;
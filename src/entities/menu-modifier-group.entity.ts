@@ -0,0 +1,61 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { IsString, IsOptional, IsInt, Min } from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { MenuItem } from './menu-item.entity';
+import { MenuModifierOption } from './menu-modifier-option.entity';
+
+/**
+ * A set of choices on a menu item, e.g. "Size" (pick 1) or "Choose 2 sides"
+ */
+@Entity('menu_modifier_groups')
+@Index(['menu_item_id'])
+export class MenuModifierGroup extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  menu_item_id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  @IsString()
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  // 0 makes the group optional
+  @Column({ type: 'int', default: 0 })
+  @IsInt()
+  @Min(0)
+  min_selections: number;
+
+  @Column({ type: 'int', default: 1 })
+  @IsInt()
+  @Min(1)
+  max_selections: number;
+
+  @Column({ type: 'int', default: 0 })
+  @IsInt()
+  sort_order: number;
+
+  // Relationships
+  @ManyToOne(() => MenuItem, menuItem => menuItem.modifier_groups, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'menu_item_id' })
+  menu_item: MenuItem;
+
+  @OneToMany(() => MenuModifierOption, option => option.group)
+  options: MenuModifierOption[];
+
+  get is_required(): boolean {
+    return this.min_selections > 0;
+  }
+}
@@ -0,0 +1,45 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { IsString, IsNumber, IsBoolean, IsInt } from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { MenuModifierGroup } from './menu-modifier-group.entity';
+
+@Entity('menu_modifier_options')
+@Index(['group_id'])
+export class MenuModifierOption extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  group_id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  @IsString()
+  name: string;
+
+  // Added to the menu item price when selected; may be negative
+  @Column({
+    type: 'decimal',
+    precision: 12,
+    scale: 2,
+    default: 0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value) || 0,
+    },
+  })
+  @IsNumber()
+  price_delta: number;
+
+  @Column({ type: 'boolean', default: true })
+  @IsBoolean()
+  is_available: boolean;
+
+  @Column({ type: 'int', default: 0 })
+  @IsInt()
+  sort_order: number;
+
+  // Relationships
+  @ManyToOne(() => MenuModifierGroup, group => group.options, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'group_id' })
+  group: MenuModifierGroup;
+}
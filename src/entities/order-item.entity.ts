@@ -9,7 +9,7 @@ import { IsOptional, IsNumber, IsString, IsJSON, Min } from 'class-validator';
 import { BaseEntity } from './base.entity';
 import { Order } from './order.entity';
 import { MenuItem } from './menu-item.entity';
-import { CartItem } from './cart-item.entity';
+import { CartItem, SelectedMenuOption } from './cart-item.entity';
 
 @Entity('order_items')
 @Index(['order_id'])
@@ -44,6 +44,32 @@ export class OrderItem extends BaseEntity {
   @Min(0)
   total_price: number;
 
+  // Options as priced at checkout, kept even if the menu changes later
+  @Column({ type: 'jsonb', nullable: true })
+  selected_options?: SelectedMenuOption[];
+
+  // Stock held for this line; reset to 0 once released back to the menu item
+  @Column({ type: 'int', default: 0 })
+  reserved_quantity: number;
+
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  reserved_business_day?: string | null;
+
+  // Portions already refunded to the customer, across all refunds
+  @Column({ type: 'int', default: 0 })
+  refunded_quantity: number;
+
+  // Group orders: who the line belongs to, kept by name so the vendor can
+  // label each person's food
+  @Column({ type: 'uuid', nullable: true })
+  @IsString()
+  @IsOptional()
+  group_participant_id?: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  @IsString()
+  @IsOptional()
+  group_participant_name?: string | null;
 
   // Relationships
   @ManyToOne(() => Order, order => order.order_items, { onDelete: 'CASCADE' })
@@ -59,6 +85,16 @@ export class OrderItem extends BaseEntity {
   cart_item: CartItem;
 
  
+  get options_summary(): string {
+    return (this.selected_options || [])
+      .map(option => option.option_name)
+      .join(', ');
+  }
+
+  get refundable_quantity(): number {
+    return this.quantity - (this.refunded_quantity || 0);
+  }
+
   // Methods
   calculateTotal(): void {
     this.total_price = this.unit_price * this.quantity;
@@ -0,0 +1,54 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { IsString, IsOptional, IsEnum } from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { Order, OrderStatus } from './order.entity';
+
+export enum OrderStatusActor {
+  CUSTOMER = 'CUSTOMER',
+  VENDOR = 'VENDOR',
+  ADMIN = 'ADMIN',
+  DELIVERY_WEBHOOK = 'DELIVERY_WEBHOOK',
+  SYSTEM = 'SYSTEM',
+}
+
+@Entity('order_status_history')
+@Index(['order_id', 'created_at'])
+export class OrderStatusHistory extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  order_id: string;
+
+  // Null for the entry written when the order is created
+  @Column({ type: 'enum', enum: OrderStatus, nullable: true })
+  @IsOptional()
+  @IsEnum(OrderStatus)
+  from_status?: OrderStatus | null;
+
+  @Column({ type: 'enum', enum: OrderStatus })
+  @IsEnum(OrderStatus)
+  to_status: OrderStatus;
+
+  @Column({ type: 'enum', enum: OrderStatusActor })
+  @IsEnum(OrderStatusActor)
+  actor_type: OrderStatusActor;
+
+  // User who made the change; null for webhooks and system jobs
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  actor_id?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  reason?: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  @IsOptional()
+  metadata?: Record<string, any> | null;
+
+  // Relationships
+  @ManyToOne(() => Order, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'order_id' })
+  order: Order;
+}
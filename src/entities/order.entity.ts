@@ -15,6 +15,7 @@ import { Vendor } from './vendor.entity';
 import { Address } from './address.entity';
 import { OrderItem } from './order-item.entity';
 import { DeliveryQuote } from './delivery-quote.entity';
+import { FeeBreakdown } from './fee-rule.entity';
 
 export enum OrderStatus {
   NEW = 'NEW',
@@ -48,12 +49,21 @@ export enum PaymentStatus {
   PARTIALLY_REFUNDED = 'PARTIALLY_REFUNDED',
 }
 
+// When a scheduled order is paid
+export enum ScheduledPaymentTiming {
+  // At checkout, like any other order
+  UPFRONT = 'UPFRONT',
+  // Shortly before the slot, with a saved card or the wallet
+  JUST_IN_TIME = 'JUST_IN_TIME',
+}
+
 @Entity('orders')
 @Index(['order_number'], { unique: true })
 @Index(['customer_id', 'order_status'])
 @Index(['vendor_id', 'order_status'])
 @Index(['order_status', 'created_at'])
 @Index(['payment_status', 'created_at'])
+@Index(['scheduled_for', 'released_to_vendor_at'])
 export class Order extends BaseEntity {
   @Column({ type: 'varchar', unique: true })
   @IsString()
@@ -81,6 +91,12 @@ export class Order extends BaseEntity {
   @IsEnum(DeliveryProvider)
   delivery_provider?: DeliveryProvider
 
+  // Set while a delivery failover is re-booking the order, so two never run
+  // for it at once; expires in case the process dies mid-failover
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  delivery_failover_until?: Date | null;
+
   @Column({ type: 'enum', enum: OrderStatus, default: OrderStatus.NEW })
   @IsEnum(OrderStatus)
   order_status: OrderStatus;
@@ -117,6 +133,15 @@ export class Order extends BaseEntity {
   @Min(0)
   delivery_fee: number;
 
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  @IsNumber()
+  @Min(0)
+  discount_amount: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  coupon_id?: string;
 
   @Column({ type: 'decimal', precision: 12, scale: 2 })
   @IsNumber()
@@ -127,6 +152,11 @@ export class Order extends BaseEntity {
   @IsEnum(Currency)
   currency: Currency;
 
+  // Fee rules applied at checkout; null for orders placed before fee rules
+  @Column({ type: 'jsonb', nullable: true })
+  @IsOptional()
+  fee_breakdown?: FeeBreakdown | null;
+
   @Column({ type: 'int', nullable: true })
   @IsOptional()
   @IsNumber()
@@ -191,6 +221,66 @@ export class Order extends BaseEntity {
   @IsString()
   vendor_notes?: string;
 
+  // Slot the customer chose; null for orders wanted as soon as possible
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  scheduled_for?: Date | null;
+
+  @Column({ type: 'enum', enum: ScheduledPaymentTiming, nullable: true })
+  @IsOptional()
+  @IsEnum(ScheduledPaymentTiming)
+  payment_timing?: ScheduledPaymentTiming | null;
+
+  // Card charged just in time; the default card is used when empty
+  @Column({ type: 'uuid', nullable: true })
+  @IsOptional()
+  @IsString()
+  saved_card_id?: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  @IsOptional()
+  @IsString()
+  recurring_order_id?: string | null;
+
+  // Scheduled orders stay out of the vendor's queue until this is set
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  released_to_vendor_at?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  delivery_requoted_at?: Date | null;
+
+  // Group order this order was placed for; its items carry the participant
+  @Column({ type: 'uuid', nullable: true })
+  @IsOptional()
+  @IsString()
+  group_order_id?: string | null;
+
+  @Column({ type: 'boolean', default: false })
+  @IsBoolean()
+  is_gift: boolean;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  @IsOptional()
+  @IsString()
+  gift_recipient_name?: string | null;
+
+  // Opens the public tracking page shared with a gift's recipient
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  @IsOptional()
+  @IsString()
+  tracking_token?: string | null;
+
+  // Optional, high-value orders only: the courier must enter it at drop-off
+  @Column({ type: 'varchar', length: 6, nullable: true })
+  @IsOptional()
+  @IsString()
+  delivery_pin?: string | null;
+
   // Relationships
   @ManyToOne(() => User, { onDelete: 'RESTRICT' })
   @JoinColumn({ name: 'customer_id' })
@@ -212,6 +302,14 @@ export class Order extends BaseEntity {
   order_items: OrderItem[];
 
   // Virtual properties
+  get is_scheduled(): boolean {
+    return !!this.scheduled_for;
+  }
+
+  get is_group_order(): boolean {
+    return !!this.group_order_id;
+  }
+
   get is_paid(): boolean {
     return this.payment_status === PaymentStatus.PAID;
   }
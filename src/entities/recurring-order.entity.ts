@@ -0,0 +1,142 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import {
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { OrderType, PaymentMethod } from './order.entity';
+import { SelectedMenuOption } from './cart-item.entity';
+
+export enum RecurringOrderStatus {
+  ACTIVE = 'ACTIVE',
+  // Paused by the customer, or after too many failed occurrences
+  PAUSED = 'PAUSED',
+  CANCELLED = 'CANCELLED',
+}
+
+export interface RecurringOrderItem {
+  menu_item_id: string;
+  quantity: number;
+  selected_options: SelectedMenuOption[];
+}
+
+/**
+ * Standing order such as "every weekday at 12:30". Each occurrence becomes a
+ * scheduled order paid just in time; items are repriced from the menu every
+ * time, so the template never locks in old prices.
+ */
+@Entity('recurring_orders')
+@Index(['customer_id', 'status'])
+@Index(['status', 'next_occurrence_at'])
+export class RecurringOrder extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  customer_id: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  vendor_id: string;
+
+  @Column({ type: 'enum', enum: OrderType })
+  @IsEnum(OrderType)
+  order_type: OrderType;
+
+  @Column({ type: 'uuid', nullable: true })
+  @IsOptional()
+  @IsString()
+  delivery_address_id?: string | null;
+
+  // WALLET or CARD_SAVED; nobody is there to complete a hosted payment page
+  @Column({ type: 'enum', enum: PaymentMethod })
+  @IsEnum(PaymentMethod)
+  payment_method: PaymentMethod;
+
+  @Column({ type: 'uuid', nullable: true })
+  @IsOptional()
+  @IsString()
+  saved_card_id?: string | null;
+
+  // Lines copied from the customer's cart when the recurring order was set up
+  @Column({ type: 'jsonb' })
+  @IsArray()
+  items: RecurringOrderItem[];
+
+  // 0 = Sunday, as for vendor opening hours
+  @Column({ type: 'int', array: true })
+  @IsArray()
+  @IsInt({ each: true })
+  days_of_week: number[];
+
+  @Column({ type: 'varchar', length: 5 })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+  time_of_day: string; // HH:mm
+
+  // Zone time_of_day is read in; the vendor's when the customer gives none
+  @Column({ type: 'varchar', length: 64 })
+  @IsString()
+  timezone: string;
+
+  @Column({
+    type: 'enum',
+    enum: RecurringOrderStatus,
+    default: RecurringOrderStatus.ACTIVE,
+  })
+  @IsEnum(RecurringOrderStatus)
+  status: RecurringOrderStatus;
+
+  // Next slot that still needs an order; null once the schedule has ended
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  next_occurrence_at?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  ends_at?: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  delivery_instructions?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  vendor_notes?: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  @IsOptional()
+  @IsString()
+  last_order_id?: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  @IsInt()
+  @Min(0)
+  consecutive_failures: number;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  last_failure_reason?: string | null;
+
+  // Relationships
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'customer_id' })
+  customer: any;
+
+  @ManyToOne('Vendor', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vendor_id' })
+  vendor: any;
+
+  // Virtual properties
+  get is_active(): boolean {
+    return this.status === RecurringOrderStatus.ACTIVE;
+  }
+}
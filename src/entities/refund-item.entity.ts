@@ -0,0 +1,50 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { IsNumber, IsString, Min } from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { Refund } from './refund.entity';
+import { OrderItem } from './order-item.entity';
+
+/**
+ * Quantity of one order line covered by a refund, priced as it was charged
+ */
+@Entity('refund_items')
+@Index(['refund_id'])
+@Index(['order_item_id'])
+export class RefundItem extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  refund_id: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  order_item_id: string;
+
+  @Column({ type: 'int' })
+  @IsNumber()
+  @Min(1)
+  quantity: number;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2 })
+  @IsNumber()
+  @Min(0)
+  unit_price: number;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2 })
+  @IsNumber()
+  @Min(0)
+  amount: number;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  @IsNumber()
+  @Min(0)
+  vendor_clawback_amount: number;
+
+  // Relationships
+  @ManyToOne(() => Refund, refund => refund.items, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'refund_id' })
+  refund: Refund;
+
+  @ManyToOne(() => OrderItem, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'order_item_id' })
+  order_item: OrderItem;
+}
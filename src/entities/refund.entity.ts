@@ -0,0 +1,174 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import {
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsDateString,
+  Min,
+} from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { Order } from './order.entity';
+import { Payment, PaymentProvider } from './payment.entity';
+import { Currency } from './wallet.entity';
+import { RefundItem } from './refund-item.entity';
+
+export enum RefundStatus {
+  PENDING = 'PENDING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+export enum RefundInitiator {
+  VENDOR = 'VENDOR',
+  ADMIN = 'ADMIN',
+  SYSTEM = 'SYSTEM',
+}
+
+/**
+ * One refund issued against an order payment. The amount is broken down
+ * into refunded lines, delivery fee and service fee so partial refunds can be
+ * reconciled later; vendor_clawback_amount is what was taken back out of the
+ * vendor's vendor_balance.
+ */
+@Entity('refunds')
+@Index(['refund_reference'], { unique: true })
+@Index(['order_id', 'created_at'])
+@Index(['payment_id'])
+@Index(['vendor_id', 'created_at'])
+@Index(['status', 'created_at'])
+export class Refund extends BaseEntity {
+  @Column({ type: 'varchar', unique: true })
+  @IsString()
+  refund_reference: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  order_id: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  payment_id: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  vendor_id: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  customer_id: string;
+
+  @Column({ type: 'enum', enum: PaymentProvider })
+  @IsEnum(PaymentProvider)
+  provider: PaymentProvider;
+
+  @Column({ type: 'enum', enum: RefundStatus, default: RefundStatus.PENDING })
+  @IsEnum(RefundStatus)
+  status: RefundStatus;
+
+  @Column({ type: 'enum', enum: Currency, default: Currency.NGN })
+  @IsEnum(Currency)
+  currency: Currency;
+
+  // Total returned to the customer
+  @Column({ type: 'decimal', precision: 12, scale: 2 })
+  @IsNumber()
+  @Min(0)
+  amount: number;
+
+  // Gross value of the refunded lines, before the discount share
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  @IsNumber()
+  @Min(0)
+  items_amount: number;
+
+  // Share of the order discount the refunded lines had received
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  @IsNumber()
+  @Min(0)
+  discount_amount: number;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  @IsNumber()
+  @Min(0)
+  delivery_fee_amount: number;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  @IsNumber()
+  @Min(0)
+  service_fee_amount: number;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  @IsNumber()
+  @Min(0)
+  vendor_clawback_amount: number;
+
+  @Column({ type: 'text' })
+  @IsString()
+  reason: string;
+
+  @Column({ type: 'enum', enum: RefundInitiator })
+  @IsEnum(RefundInitiator)
+  initiated_by_type: RefundInitiator;
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  initiated_by_id?: string | null;
+
+  // Refund id returned by the gateway, or the wallet transaction reference
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  provider_reference?: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  @IsOptional()
+  gateway_response?: Record<string, any> | null;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  failure_reason?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  processed_at?: Date | null;
+
+  // Relationships
+  @ManyToOne(() => Order, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'order_id' })
+  order: Order;
+
+  @ManyToOne(() => Payment, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'payment_id' })
+  payment: Payment;
+
+  @OneToMany(() => RefundItem, item => item.refund, { cascade: true })
+  items: RefundItem[];
+
+  // Methods
+  markAsCompleted(
+    providerReference?: string,
+    gatewayResponse?: Record<string, any>,
+  ): void {
+    this.status = RefundStatus.COMPLETED;
+    this.processed_at = new Date();
+    this.provider_reference = providerReference ?? null;
+    this.gateway_response = gatewayResponse ?? null;
+  }
+
+  markAsFailed(reason: string, gatewayResponse?: Record<string, any>): void {
+    this.status = RefundStatus.FAILED;
+    this.failure_reason = reason;
+    this.gateway_response = gatewayResponse ?? null;
+  }
+}
@@ -0,0 +1,44 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { BaseEntity } from './base.entity';
+
+/**
+ * Optional score for one line of a reviewed order. Menu item averages are
+ * built from these.
+ */
+@Entity('review_item_ratings')
+@Index(['review_id', 'order_item_id'], { unique: true })
+@Index(['menu_item_id'])
+export class ReviewItemRating extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  review_id: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  order_item_id: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  menu_item_id: string;
+
+  @Column({ type: 'int' })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating: number;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  comment?: string | null;
+
+  // Relationships
+  @ManyToOne('Review', 'item_ratings', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'review_id' })
+  review: any;
+
+  @ManyToOne('MenuItem', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'menu_item_id' })
+  menu_item: any;
+}
@@ -0,0 +1,157 @@
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { BaseEntity } from './base.entity';
+
+export enum ReviewStatus {
+  PUBLISHED = 'PUBLISHED',
+  // Hidden by an admin; not shown publicly and left out of rating averages
+  HIDDEN = 'HIDDEN',
+}
+
+const ratingTransformer = {
+  to: (value?: number | null) => value,
+  from: (value?: string | null) =>
+    value === null || value === undefined ? null : parseFloat(value),
+};
+
+/**
+ * A customer's review of a delivered order, with separate scores for the
+ * food, the packaging and (for deliveries) the delivery. overall_rating is
+ * the mean of the scores given and is what the vendor average is built from.
+ */
+@Entity('reviews')
+@Index(['vendor_id', 'status', 'created_at'])
+@Index(['customer_id', 'created_at'])
+export class Review extends BaseEntity {
+  @Column({ type: 'uuid', unique: true })
+  @IsString()
+  order_id: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  customer_id: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  vendor_id: string;
+
+  @Column({ type: 'int' })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  food_rating: number;
+
+  @Column({ type: 'int' })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  packaging_rating: number;
+
+  // Pickup orders have no delivery to rate
+  @Column({ type: 'int', nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  delivery_rating?: number | null;
+
+  @Column({
+    type: 'decimal',
+    precision: 3,
+    scale: 2,
+    transformer: ratingTransformer,
+  })
+  @IsNumber()
+  overall_rating: number;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  comment?: string | null;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  @IsArray()
+  photo_urls: string[];
+
+  @Column({
+    type: 'enum',
+    enum: ReviewStatus,
+    default: ReviewStatus.PUBLISHED,
+  })
+  @IsEnum(ReviewStatus)
+  status: ReviewStatus;
+
+  // Marked for a closer look; flagged reviews stay visible until hidden
+  @Column({ type: 'boolean', default: false })
+  @IsBoolean()
+  is_flagged: boolean;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  @IsOptional()
+  @IsString()
+  flag_reason?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  moderation_note?: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  @IsOptional()
+  @IsString()
+  moderated_by?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  moderated_at?: Date | null;
+
+  // Public reply from the vendor
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  vendor_reply?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  vendor_replied_at?: Date | null;
+
+  // Relationships
+  @ManyToOne('Order', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'order_id' })
+  order: any;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'customer_id' })
+  customer: any;
+
+  @ManyToOne('Vendor', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vendor_id' })
+  vendor: any;
+
+  @OneToMany('ReviewItemRating', 'review')
+  item_ratings: any[];
+
+  get is_published(): boolean {
+    return this.status === ReviewStatus.PUBLISHED;
+  }
+}
@@ -0,0 +1,150 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import {
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsDateString,
+} from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { PaymentProvider } from './payment.entity';
+import { SettlementRun } from './settlement-run.entity';
+
+export enum SettlementMismatchType {
+  // Charged at the gateway, no payment or transaction on our side
+  MISSING_LOCALLY = 'MISSING_LOCALLY',
+  // Paid on our side, no matching charge at the gateway
+  MISSING_AT_GATEWAY = 'MISSING_AT_GATEWAY',
+  AMOUNT_MISMATCH = 'AMOUNT_MISMATCH',
+  CURRENCY_MISMATCH = 'CURRENCY_MISMATCH',
+  // One side considers the charge paid, the other does not
+  STATUS_MISMATCH = 'STATUS_MISMATCH',
+}
+
+export enum SettlementMismatchStatus {
+  OPEN = 'OPEN',
+  RESOLVED = 'RESOLVED',
+}
+
+const decimalTransformer = {
+  to: (value?: number | null) => value,
+  from: (value?: string | null) =>
+    value === null || value === undefined ? null : parseFloat(value),
+};
+
+@Entity('settlement_mismatches')
+@Index(['provider', 'reference', 'mismatch_type'], { unique: true })
+@Index(['status', 'settlement_date'])
+@Index(['run_id'])
+export class SettlementMismatch extends BaseEntity {
+  // Run that last reported the mismatch
+  @Column({ type: 'uuid' })
+  @IsString()
+  run_id: string;
+
+  @Column({ type: 'enum', enum: PaymentProvider })
+  @IsEnum(PaymentProvider)
+  provider: PaymentProvider;
+
+  @Column({ type: 'date' })
+  @IsDateString()
+  settlement_date: string;
+
+  @Column({ type: 'enum', enum: SettlementMismatchType })
+  @IsEnum(SettlementMismatchType)
+  mismatch_type: SettlementMismatchType;
+
+  // Our payment reference when known, otherwise the gateway's
+  @Column({ type: 'varchar' })
+  @IsString()
+  reference: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  payment_id?: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  transaction_id?: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  gateway_transaction_id?: string | null;
+
+  @Column({
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    nullable: true,
+    transformer: decimalTransformer,
+  })
+  @IsOptional()
+  @IsNumber()
+  local_amount?: number | null;
+
+  @Column({
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    nullable: true,
+    transformer: decimalTransformer,
+  })
+  @IsOptional()
+  @IsNumber()
+  gateway_amount?: number | null;
+
+  @Column({ type: 'varchar', length: 3, nullable: true })
+  @IsOptional()
+  @IsString()
+  local_currency?: string | null;
+
+  @Column({ type: 'varchar', length: 3, nullable: true })
+  @IsOptional()
+  @IsString()
+  gateway_currency?: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  local_status?: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  gateway_status?: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: SettlementMismatchStatus,
+    default: SettlementMismatchStatus.OPEN,
+  })
+  @IsEnum(SettlementMismatchStatus)
+  status: SettlementMismatchStatus;
+
+  @Column({ type: 'timestamp' })
+  @IsDateString()
+  last_seen_at: Date;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  resolution_note?: string | null;
+
+  // Admin who resolved it; null when a later run no longer reported it
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  resolved_by?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  resolved_at?: Date | null;
+
+  @ManyToOne(() => SettlementRun, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'run_id' })
+  run: SettlementRun;
+}
@@ -0,0 +1,80 @@
+import { Entity, Column, Index } from 'typeorm';
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsDateString,
+  Min,
+} from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { PaymentProvider } from './payment.entity';
+
+export enum SettlementRunStatus {
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * One pass of matching a gateway's transaction list for a settlement day
+ * against our payments. Runs can be repeated for the same day; mismatches
+ * are carried over rather than duplicated.
+ */
+@Entity('settlement_runs')
+@Index(['provider', 'settlement_date'])
+@Index(['status', 'created_at'])
+export class SettlementRun extends BaseEntity {
+  @Column({ type: 'enum', enum: PaymentProvider })
+  @IsEnum(PaymentProvider)
+  provider: PaymentProvider;
+
+  // UTC day being reconciled, YYYY-MM-DD
+  @Column({ type: 'date' })
+  @IsDateString()
+  settlement_date: string;
+
+  @Column({
+    type: 'enum',
+    enum: SettlementRunStatus,
+    default: SettlementRunStatus.RUNNING,
+  })
+  @IsEnum(SettlementRunStatus)
+  status: SettlementRunStatus;
+
+  @Column({ type: 'int', default: 0 })
+  @IsInt()
+  @Min(0)
+  gateway_count: number;
+
+  @Column({ type: 'int', default: 0 })
+  @IsInt()
+  @Min(0)
+  local_count: number;
+
+  @Column({ type: 'int', default: 0 })
+  @IsInt()
+  @Min(0)
+  matched_count: number;
+
+  @Column({ type: 'int', default: 0 })
+  @IsInt()
+  @Min(0)
+  mismatch_count: number;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  error?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  completed_at?: Date | null;
+
+  // Admin who started the run; null for the nightly job
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  triggered_by?: string | null;
+}
@@ -7,6 +7,7 @@ import {
 } from 'typeorm';
 import { IsEnum, IsOptional, IsNumber, IsString, IsDateString, IsJSON, Min } from 'class-validator';
 import { BaseEntity } from './base.entity';
+import { Currency } from './wallet.entity';
 
 export enum TransactionType {
   CREDIT = 'CREDIT',
@@ -16,6 +17,8 @@ export enum TransactionType {
   REFUND = 'REFUND',
   REVERSAL = 'REVERSAL',
   FEE = 'FEE',
+  // Wallet-to-wallet; balance_before/after show which side of it this is
+  TRANSFER = 'TRANSFER',
 }
 
 export enum TransactionStatus {
@@ -96,6 +99,41 @@ export class Transaction extends BaseEntity {
   @IsJSON()
   metadata?: Record<string, any>;
 
+  // Currency of amount and balances; null on transactions from before
+  // multi-currency wallets, which are in the wallet's currency
+  @Column({ type: 'enum', enum: Currency, nullable: true })
+  @IsOptional()
+  @IsEnum(Currency)
+  currency?: Currency;
+
+  // Set when the amount was converted, e.g. paying a GBP order from an NGN
+  // wallet: fx_original_amount GBP at fx_rate plus fx_spread_percentage
+  @Column({ type: 'enum', enum: Currency, nullable: true })
+  @IsOptional()
+  @IsEnum(Currency)
+  fx_original_currency?: Currency;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true })
+  @IsOptional()
+  @IsNumber()
+  fx_original_amount?: number;
+
+  // Mid-market units of currency per one fx_original_currency
+  @Column({ type: 'decimal', precision: 18, scale: 8, nullable: true })
+  @IsOptional()
+  @IsNumber()
+  fx_rate?: number;
+
+  @Column({ type: 'decimal', precision: 5, scale: 2, nullable: true })
+  @IsOptional()
+  @IsNumber()
+  fx_spread_percentage?: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  fx_rate_source?: string;
+
   // Relationships
   @ManyToOne('Wallet', { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'wallet_id' })
@@ -126,6 +164,10 @@ export class Transaction extends BaseEntity {
     return this.status === TransactionStatus.REVERSED;
   }
 
+  get is_fx_converted(): boolean {
+    return !!this.fx_original_currency;
+  }
+
   get is_system_transaction(): boolean {
     return [TransactionType.COMMISSION, TransactionType.FEE].includes(this.transaction_type);
   }
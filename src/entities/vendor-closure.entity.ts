@@ -0,0 +1,35 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { IsString, IsOptional, IsDate } from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { Vendor } from './vendor.entity';
+
+@Entity('vendor_closures')
+@Index(['vendor_id', 'ends_at'])
+export class VendorClosure extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  vendor_id: string;
+
+  @Column({ type: 'timestamp' })
+  @IsDate()
+  starts_at: Date;
+
+  @Column({ type: 'timestamp' })
+  @IsDate()
+  ends_at: Date;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  @IsOptional()
+  @IsString()
+  reason?: string; // e.g. "Public holiday"
+
+  // Relationships
+  @ManyToOne(() => Vendor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vendor_id' })
+  vendor: Vendor;
+
+  // Methods
+  coversDate(date: Date): boolean {
+    return this.starts_at <= date && date < this.ends_at;
+  }
+}
@@ -0,0 +1,116 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { BaseEntity } from './base.entity';
+
+export enum DeliveryFeeType {
+  // base_fee for any address in the zone
+  FLAT = 'FLAT',
+  // base_fee plus per_km_fee for every kilometre from the vendor
+  DISTANCE = 'DISTANCE',
+}
+
+const decimalTransformer = {
+  to: (value?: number | null) => value,
+  from: (value?: string | null) =>
+    value === null || value === undefined ? null : parseFloat(value),
+};
+
+/**
+ * An area a vendor delivers to with its own riders, measured as a radius
+ * from the vendor's address. An address falls in the smallest active zone
+ * that reaches it.
+ */
+@Entity('vendor_delivery_zones')
+@Index(['vendor_id', 'is_active'])
+export class VendorDeliveryZone extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  vendor_id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  @IsString()
+  name: string;
+
+  @Column({
+    type: 'decimal',
+    precision: 6,
+    scale: 2,
+    transformer: decimalTransformer,
+  })
+  @IsNumber()
+  @Min(0)
+  max_distance_km: number;
+
+  @Column({
+    type: 'enum',
+    enum: DeliveryFeeType,
+    default: DeliveryFeeType.FLAT,
+  })
+  @IsEnum(DeliveryFeeType)
+  fee_type: DeliveryFeeType;
+
+  @Column({
+    type: 'decimal',
+    precision: 12,
+    scale: 2,
+    default: 0,
+    transformer: decimalTransformer,
+  })
+  @IsNumber()
+  @Min(0)
+  base_fee: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 12,
+    scale: 2,
+    default: 0,
+    transformer: decimalTransformer,
+  })
+  @IsNumber()
+  @Min(0)
+  per_km_fee: number;
+
+  // Orders below this subtotal can't be delivered in the zone
+  @Column({
+    type: 'decimal',
+    precision: 12,
+    scale: 2,
+    nullable: true,
+    transformer: decimalTransformer,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  min_order_amount?: number | null;
+
+  @Column({ type: 'int', default: 45 })
+  @IsInt()
+  @Min(1)
+  estimated_minutes: number;
+
+  @Column({ type: 'boolean', default: true })
+  @IsBoolean()
+  is_active: boolean;
+
+  // Relationships
+  @ManyToOne('Vendor', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vendor_id' })
+  vendor: any;
+
+  calculateFee(distanceKm: number): number {
+    const fee =
+      this.fee_type === DeliveryFeeType.DISTANCE
+        ? Number(this.base_fee) + Number(this.per_km_fee) * distanceKm
+        : Number(this.base_fee);
+    return Math.round(fee * 100) / 100;
+  }
+}
@@ -0,0 +1,33 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { IsString, IsInt, Min, Max, Matches } from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { Vendor } from './vendor.entity';
+
+@Entity('vendor_opening_hours')
+@Index(['vendor_id', 'day_of_week'])
+export class VendorOpeningHours extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  vendor_id: string;
+
+  // 0 = Sunday ... 6 = Saturday, in the vendor's timezone
+  @Column({ type: 'int' })
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  day_of_week: number;
+
+  @Column({ type: 'varchar', length: 5 })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+  opens_at: string; // HH:mm
+
+  // A closing time at or before opens_at runs past midnight into the next day
+  @Column({ type: 'varchar', length: 5 })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+  closes_at: string; // HH:mm
+
+  // Relationships
+  @ManyToOne(() => Vendor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vendor_id' })
+  vendor: Vendor;
+}
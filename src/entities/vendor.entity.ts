@@ -20,6 +20,12 @@ import { Address } from './address.entity';
 import { User } from './user.entity';
 import { MenuItem } from './menu-item.entity';
 
+const ratingTransformer = {
+  to: (value?: number | null) => value,
+  from: (value?: string | null) =>
+    value === null || value === undefined ? null : parseFloat(value),
+};
+
 @Entity('vendors')
 export class Vendor extends BaseEntity {
   @Column({ type: 'varchar' })
@@ -44,6 +50,50 @@ export class Vendor extends BaseEntity {
   @IsBoolean()
   is_active: boolean;
 
+  // Opening hours and closures are evaluated in this IANA timezone
+  @Column({ type: 'varchar', length: 64, default: 'Africa/Lagos' })
+  @IsString()
+  timezone: string;
+
+  // Local time (HH:mm) at which daily menu item stock limits reset
+  @Column({ type: 'varchar', length: 5, default: '00:00' })
+  @IsString()
+  inventory_reset_time: string;
+
+  // Whether the vendor is open by its hours, closures and pause, kept up to
+  // date by VendorAvailabilityService so menu search can filter on it
+  @Column({ type: 'boolean', default: true })
+  @IsBoolean()
+  is_open: boolean;
+
+  // Temporary pause, e.g. "busy for 30 minutes"
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  paused_until?: Date;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  @IsOptional()
+  @IsString()
+  pause_reason?: string;
+
+  // Rolling averages over published reviews, kept up to date by ReviewService
+  @Column({
+    type: 'decimal',
+    precision: 3,
+    scale: 2,
+    default: 0,
+    transformer: ratingTransformer,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(5)
+  rating_average: number;
+
+  @Column({ type: 'int', default: 0 })
+  @IsNumber()
+  @Min(0)
+  total_ratings: number;
+
   // Relationships
   @OneToOne(() => User)
   @JoinColumn({ name: 'user_id' })
@@ -73,6 +123,10 @@ export class Vendor extends BaseEntity {
     return this.user?.full_name || null;
   }
 
+  get is_paused(): boolean {
+    return !!this.paused_until && this.paused_until > new Date();
+  }
+
   // Methods
   approve(): void {
     this.is_active = true;
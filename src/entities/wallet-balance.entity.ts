@@ -0,0 +1,56 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { IsEnum, IsNumber, IsString, Min } from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { Currency } from './wallet.entity';
+
+/**
+ * Balance a wallet holds in a currency other than its own. Wallet.balance
+ * stays the balance in Wallet.currency; refunds and funding in any other
+ * currency land here, and orders in that currency are paid from here first.
+ */
+@Entity('wallet_balances')
+@Index(['wallet_id', 'currency'], { unique: true })
+export class WalletBalance extends BaseEntity {
+  @Column({ type: 'uuid' })
+  @IsString()
+  wallet_id: string;
+
+  @Column({ type: 'enum', enum: Currency })
+  @IsEnum(Currency)
+  currency: Currency;
+
+  @Column({
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    default: 0.0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value) || 0,
+    },
+  })
+  @IsNumber()
+  @Min(0)
+  balance: number;
+
+  // Relationships
+  @ManyToOne('Wallet', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'wallet_id' })
+  wallet: any;
+
+  // Methods
+  credit(amount: number): void {
+    if (amount > 0) {
+      this.balance = (Number(this.balance) || 0) + Number(amount);
+    }
+  }
+
+  debit(amount: number): boolean {
+    const currentBalance = Number(this.balance) || 0;
+    if (amount > 0 && currentBalance >= amount) {
+      this.balance = currentBalance - Number(amount);
+      return true;
+    }
+    return false;
+  }
+}
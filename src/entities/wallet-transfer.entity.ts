@@ -0,0 +1,142 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import {
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { BaseEntity } from './base.entity';
+import { Currency } from './wallet.entity';
+
+export enum WalletTransferStatus {
+  // Created, waiting for the sender to confirm with the OTP
+  PENDING_OTP = 'PENDING_OTP',
+  COMPLETED = 'COMPLETED',
+  // Recipient has no account yet; the money is held as gift credit
+  PENDING_CLAIM = 'PENDING_CLAIM',
+  CLAIMED = 'CLAIMED',
+  // Gift credit not claimed in time, sent back to the sender
+  RETURNED = 'RETURNED',
+  CANCELLED = 'CANCELLED',
+}
+
+export enum WalletTransferOtpChannel {
+  SMS = 'SMS',
+  EMAIL = 'EMAIL',
+}
+
+/**
+ * Wallet-to-wallet transfer addressed by phone number or email. When nobody
+ * has that phone or email yet, the sender's money is held as gift credit
+ * until someone signs up with it or claim_expires_at passes.
+ */
+@Entity('wallet_transfers')
+@Index(['sender_id', 'created_at'])
+@Index(['recipient_id', 'created_at'])
+@Index(['status', 'claim_expires_at'])
+@Index(['recipient_phone'])
+@Index(['recipient_email'])
+@Index(['reference'], { unique: true })
+export class WalletTransfer extends BaseEntity {
+  @Column({ type: 'varchar' })
+  @IsString()
+  reference: string;
+
+  @Column({ type: 'uuid' })
+  @IsString()
+  sender_id: string;
+
+  // Null while the transfer is unclaimed gift credit
+  @Column({ type: 'uuid', nullable: true })
+  @IsOptional()
+  @IsString()
+  recipient_id?: string | null;
+
+  // What the sender entered; used to match gift credit on sign up
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  @IsOptional()
+  @IsString()
+  recipient_phone?: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  @IsOptional()
+  @IsString()
+  recipient_email?: string | null;
+
+  @Column({
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value) || 0,
+    },
+  })
+  @IsNumber()
+  @Min(0)
+  amount: number;
+
+  // The sender's wallet currency
+  @Column({ type: 'enum', enum: Currency })
+  @IsEnum(Currency)
+  currency: Currency;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  @IsOptional()
+  @IsString()
+  note?: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: WalletTransferStatus,
+    default: WalletTransferStatus.PENDING_OTP,
+  })
+  @IsEnum(WalletTransferStatus)
+  status: WalletTransferStatus;
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  otp_id?: string | null;
+
+  @Column({ type: 'enum', enum: WalletTransferOtpChannel, nullable: true })
+  @IsOptional()
+  @IsEnum(WalletTransferOtpChannel)
+  otp_channel?: WalletTransferOtpChannel | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  confirmed_at?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  claim_expires_at?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  claimed_at?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  returned_at?: Date | null;
+
+  // Relationships
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'sender_id' })
+  sender: any;
+
+  @ManyToOne('User', { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'recipient_id' })
+  recipient: any;
+
+  // Virtual properties
+  get is_gift(): boolean {
+    return !!this.claim_expires_at;
+  }
+}
@@ -0,0 +1,110 @@
+import { Entity, Column, Index } from 'typeorm';
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsDateString,
+  Min,
+} from 'class-validator';
+import { BaseEntity } from './base.entity';
+
+export enum WebhookSource {
+  PAYMENT = 'PAYMENT',
+  PAYOUT = 'PAYOUT',
+  DELIVERY = 'DELIVERY',
+}
+
+export enum WebhookEventStatus {
+  RECEIVED = 'RECEIVED',
+  PROCESSING = 'PROCESSING',
+  PROCESSED = 'PROCESSED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * Inbound webhook as it was received, kept so it is processed exactly once
+ * and can be replayed. The signature is checked before the row is written;
+ * normalized_payload is what the provider adapter extracted at that point,
+ * so processing and replays never depend on signature timestamps.
+ */
+@Entity('webhook_events')
+@Index(['source', 'provider', 'event_id'], { unique: true })
+@Index(['status', 'created_at'])
+@Index(['source', 'created_at'])
+export class WebhookEvent extends BaseEntity {
+  @Column({ type: 'enum', enum: WebhookSource })
+  @IsEnum(WebhookSource)
+  source: WebhookSource;
+
+  // PaymentProvider, PayoutProvider or DeliveryProvider value
+  @Column({ type: 'varchar', length: 32 })
+  @IsString()
+  provider: string;
+
+  // Provider's own event id, or a hash of the body when it does not send one
+  @Column({ type: 'varchar' })
+  @IsString()
+  event_id: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  event_type?: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: WebhookEventStatus,
+    default: WebhookEventStatus.RECEIVED,
+  })
+  @IsEnum(WebhookEventStatus)
+  status: WebhookEventStatus;
+
+  @Column({ type: 'jsonb' })
+  payload: Record<string, any>;
+
+  @Column({ type: 'jsonb', nullable: true })
+  @IsOptional()
+  normalized_payload?: Record<string, any> | null;
+
+  @Column({ type: 'int', default: 0 })
+  @IsInt()
+  @Min(0)
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  @IsString()
+  last_error?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  processing_started_at?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  processed_at?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  failed_at?: Date | null;
+
+  @Column({ type: 'int', default: 0 })
+  @IsInt()
+  @Min(0)
+  replay_count: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  last_replayed_at?: Date | null;
+
+  // Admin who last replayed the event
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsString()
+  last_replayed_by?: string | null;
+}
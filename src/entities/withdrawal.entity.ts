@@ -17,6 +17,9 @@ export enum WithdrawalStatus {
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
   REJECTED = 'REJECTED',
+  // Payout failed but its funds could not be pulled back; an admin decides
+  // whether to refund the wallet
+  REVIEW_REQUIRED = 'REVIEW_REQUIRED',
 }
 
 export enum RecipientType {
@@ -30,6 +33,11 @@ export enum AccountType {
   SAVINGS = 'SAVINGS',
 }
 
+export enum PayoutProvider {
+  PAYSTACK = 'PAYSTACK',
+  STRIPE = 'STRIPE',
+}
+
 export enum Country {
   NIGERIA = 'NG',
   UNITED_STATES = 'US',
@@ -173,6 +181,26 @@ export class Withdrawal extends BaseEntity {
   @IsBoolean()
   is_otp_verified: boolean;
 
+  // Automated payout fields
+  @Column({ type: 'enum', enum: PayoutProvider, nullable: true })
+  @IsOptional()
+  @IsEnum(PayoutProvider)
+  payout_provider?: PayoutProvider;
+
+  @Column({ type: 'varchar', length: 100, nullable: true, unique: true })
+  @IsOptional()
+  @IsString()
+  payout_reference?: string; // Our reference sent to the provider
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  @IsOptional()
+  @IsString()
+  payout_transfer_id?: string; // Provider transfer / payout ID
+
+  @Column({ type: 'timestamp', nullable: true })
+  @IsOptional()
+  payout_initiated_at?: Date;
+
   // Relationships
   @ManyToOne(() => User, { eager: true })
   @JoinColumn({ name: 'user_id' })
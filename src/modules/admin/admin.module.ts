@@ -1,6 +1,14 @@
 import { Global, Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { Vendor, User, Address, Order, Wallet, Payment } from '@/entities';
+import {
+  Vendor,
+  User,
+  Address,
+  Order,
+  Wallet,
+  WalletBalance,
+  Payment,
+} from '@/entities';
 
 // Services
 import { AdminService } from './service/admin.service';
@@ -34,6 +42,7 @@ import { NotificationModule } from '../notification/notification.module';
 import { PaymentModule } from '../payment/payment.module';
 import { UserModule } from '../user/user.module';
 import { VendorModule } from '../vendor/vendor.module';
+import { LedgerModule } from '../ledger/ledger.module';
 
 // Database
 import { RedisService } from '../../database/redis.service';
@@ -48,6 +57,7 @@ import { RedisService } from '../../database/redis.service';
       Order,   // Required for AdminOrderService, FixCustomerRefundsService, and RevertCancellationService
       Wallet,  // Required for AdminOrderService, FixCustomerRefundsService, and RevertCancellationService
       Payment, // Required for AdminOrderService, FixCustomerRefundsService, and RevertCancellationService
+      WalletBalance, // Required for AdminProfileService wallet currency changes
     ]),
     OrderModule,
     MenuModule,
@@ -57,6 +67,7 @@ import { RedisService } from '../../database/redis.service';
     PaymentModule,
     UserModule,
     VendorModule,
+    LedgerModule,
   ],
   controllers: [
     AdminOrderController,
@@ -24,7 +24,7 @@ import { AdminOrderService } from '../service/admin-order.service';
 import { AdminAuthGuard } from '../../auth/guards/admin-auth-guard';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { GetUser } from '@/common/decorators/get-user.decorator';
-import { User } from '@/entities';
+import { RefundInitiator, User } from '@/entities';
 import {
   OrderFilterDto,
   OrderResponseDto,
@@ -34,6 +34,11 @@ import {
   AdminCancelOrderDto,
   AdminCancelOrderResponseDto,
 } from '../dto/admin-order.dto';
+import { RefundService } from '../../payment/services/refund.service';
+import {
+  CreateItemRefundDto,
+  RefundResponseDto,
+} from '../../payment/dto/refund.dto';
 
 @ApiTags('Admin - Orders')
 @Controller('admin/orders')
@@ -43,6 +48,7 @@ export class AdminOrderController {
   constructor(
     private readonly orderService: OrderService,
     private readonly adminOrderService: AdminOrderService,
+    private readonly refundService: RefundService,
   ) {}
 
   @Get()
@@ -239,4 +245,51 @@ export class AdminOrderController {
       body.reason,
     );
   }
+
+  @Get(':id/refunds')
+  @ApiOperation({ summary: '[ADMIN ONLY]: List refunds issued on an order' })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Refunds retrieved successfully',
+    type: [RefundResponseDto],
+  })
+  async getOrderRefunds(
+    @Param('id') orderId: string,
+  ): Promise<RefundResponseDto[]> {
+    return await this.refundService.getOrderRefunds(orderId);
+  }
+
+  @Post(':id/refunds')
+  @ApiOperation({
+    summary: '[ADMIN ONLY]: Refund specific order lines',
+    description: `
+      Refunds the given quantities of order lines through the provider that
+      took the payment (wallet, Stripe, Paystack or Mercury).
+      - Service fee and discount are refunded in proportion to the lines
+      - Delivery fee is refunded when include_delivery_fee is set or every line has been refunded
+      - The vendor's share of the refunded lines is debited from their vendor_balance
+    `,
+  })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Refund issued',
+    type: RefundResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Quantity not refundable, order not paid, or provider refund failed',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async refundOrderItems(
+    @GetUser() admin: User,
+    @Param('id') orderId: string,
+    @Body() refundDto: CreateItemRefundDto,
+  ): Promise<RefundResponseDto> {
+    return await this.refundService.refundOrderItems(orderId, refundDto, {
+      type: RefundInitiator.ADMIN,
+      id: admin.id,
+    });
+  }
 }
\ No newline at end of file
@@ -125,6 +125,21 @@ export class AdminWithdrawalController {
     );
   }
 
+  @Get('review-required')
+  @ApiOperation({
+    summary: 'Get failed payouts whose funds could not be reversed',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Withdrawals awaiting review retrieved successfully',
+    type: [WithdrawalResponseDto],
+  })
+  async getReviewRequiredWithdrawals(): Promise<WithdrawalResponseDto[]> {
+    return await this.withdrawalService.getWithdrawalsByStatus(
+      WithdrawalStatus.REVIEW_REQUIRED
+    );
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get withdrawal by ID' })
   @ApiParam({ name: 'id', description: 'Withdrawal ID' })
@@ -215,4 +230,27 @@ export class AdminWithdrawalController {
       actionData,
     );
   }
-}
\ No newline at end of file
+
+  @Post(':id/payout')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Pay out withdrawal via Paystack (NGN) or Stripe Connect',
+  })
+  @ApiParam({ name: 'id', description: 'Withdrawal ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Payout initiated successfully',
+    type: WithdrawalResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - withdrawal not processing or already paid out',
+  })
+  @ApiResponse({ status: 404, description: 'Withdrawal not found' })
+  async initiatePayout(
+    @Request() req: any,
+    @Param('id') id: string,
+  ): Promise<WithdrawalResponseDto> {
+    return await this.withdrawalService.initiatePayout(id, req.user.id);
+  }
+}
@@ -7,18 +7,25 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import {
   Order,
   OrderStatus,
   PaymentStatus,
   User,
   Wallet,
-  NotificationType,
   Payment,
+  PaymentProvider,
+  OrderStatusActor,
 } from '@/entities';
 import { OrderRepository } from '../../order/repositories/order.repository';
-import { OrderEmailNotificationService } from '../../notification/services/order-email-notification.service';
-import { NotificationService } from '../../notification/notification.service';
+import {
+  OrderStateMachineService,
+  OrderTransitionContext,
+} from '../../order/services/order-state-machine.service';
+import { PAYMENT_EVENTS, RefundIssuedEvent } from '../../payment/events';
+import { MenuInventoryService } from '../../menu/services/menu-inventory.service';
+import { LedgerService } from '../../ledger/services/ledger.service';
 import { OrderResponseDto, UpdateOrderStatusDto } from '../../order/dto';
 import {
   AdminCancelOrderDto,
@@ -40,8 +47,10 @@ export class AdminOrderService {
     @InjectRepository(Payment)
     private readonly paymentRepo: Repository<Payment>,
     private readonly orderRepository: OrderRepository,
-    private readonly orderEmailNotification: OrderEmailNotificationService,
-    private readonly notificationService: NotificationService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly menuInventoryService: MenuInventoryService,
+    private readonly orderStateMachine: OrderStateMachineService,
+    private readonly ledgerService: LedgerService,
   ) {}
 
   /**
@@ -75,11 +84,17 @@ export class AdminOrderService {
     const deliveryFee = Number(order.delivery_fee) || 0;
     const totalAmount = Number(order.total_amount) || 0;
     
-    // Calculate service fee (15% of subtotal) - this is the platform commission
-    const serviceFee = this.calculateServiceFee(subtotal);
+    // Orders priced by fee rules carry their own service fee and commission;
+    // older orders use 15% of subtotal for both
+    const serviceFee = order.fee_breakdown
+      ? Number(order.fee_breakdown.service_fee.amount)
+      : this.calculateServiceFee(subtotal);
+    const commission = order.fee_breakdown
+      ? Number(order.fee_breakdown.commission.amount)
+      : serviceFee;
 
     // What vendor actually received (subtotal minus platform commission)
-    const vendorReceivedAmount = subtotal - serviceFee;
+    const vendorReceivedAmount = subtotal - commission;
 
     // Customer gets full refund
     const customerRefundAmount = totalAmount;
@@ -312,6 +327,19 @@ export class AdminOrderService {
         `[ADMIN CANCEL] ✓ Debited VENDOR wallet.vendor_balance: ${vendorPreviousBalance} → ${vendorNewBalance} (-${refundBreakdown.vendorDebitAmount})`,
       );
 
+      // Refunds from an admin cancellation always land in the wallet
+      await this.ledgerService.recordRefund({
+        reference: `admin_cancel:${order.id}`,
+        order_id: order.id,
+        currency: order.currency,
+        amount: refundBreakdown.customerRefundAmount,
+        vendor_clawback: refundBreakdown.vendorDebitAmount,
+        vendor_user_id: order.vendor.user_id,
+        customer_id: order.customer_id,
+        provider: PaymentProvider.WALLET,
+        description: `Order ${order.order_number} cancelled by admin`,
+      });
+
       // Update payment record to REFUNDED
       try {
         const payment = await this.paymentRepo.findOne({
@@ -354,6 +382,7 @@ export class AdminOrderService {
     }
 
     // Update order status
+    const previousStatus = order.order_status;
     order.order_status = OrderStatus.CANCELLED;
     order.payment_status = refundProcessed ? PaymentStatus.REFUNDED : order.payment_status;
     order.cancelled_at = new Date();
@@ -364,80 +393,37 @@ export class AdminOrderService {
 
     this.logger.log(`[ADMIN CANCEL] ✓ Order status updated to CANCELLED`);
 
-    // Send notifications
-    try {
-      const deliveryFeeText = refundBreakdown?.deliveryFee 
-        ? ` (including ${refundBreakdown.deliveryFee.toFixed(2)} ${order.currency} delivery fee)`
-        : '';
-
-      // Email to customer
-      await this.orderEmailNotification.sendOrderStatusUpdateToCustomer(
-        order,
-        order.customer,
-        OrderStatus.CANCELLED,
-        {
-          vendorNotes: `Order cancelled by admin. Reason: ${cancelDto.reason || 'Administrative action'}. ${refundProcessed ? `Full refund of ${refundBreakdown.customerRefundAmount.toFixed(2)} ${order.currency}${deliveryFeeText} has been processed to your wallet.` : ''}`,
-        },
-      );
-
-      // Push notification to customer
-      await this.notificationService.sendPushNotification(
-        order.customer_id,
-        NotificationType.ORDER_UPDATE,
-        `Order #${order.order_number} Cancelled`,
-        `Your order has been cancelled by admin. ${refundProcessed ? `Full refund of ${refundBreakdown.customerRefundAmount.toFixed(2)} ${order.currency} has been credited to your wallet.` : ''}`,
-        {
-          order_id: orderId,
-          order_number: order.order_number,
-          status: OrderStatus.CANCELLED,
-          reason: cancelDto.reason,
-          refund_amount: refundBreakdown?.customerRefundAmount,
-          refund_processed: refundProcessed,
-        },
-      );
-
-      this.logger.log(`[ADMIN CANCEL] ✓ Customer notifications sent`);
-
-      // Email to vendor
-      if (order.vendor?.user) {
-        await this.orderEmailNotification.sendOrderStatusChangeToAdmin(
-          order,
-          order.order_status,
-          OrderStatus.CANCELLED,
-          `Admin: ${admin.email}`,
-        );
-
-        // Push notification to vendor
-        await this.notificationService.sendPushNotification(
-          order.vendor.user_id,
-          NotificationType.ORDER_UPDATE,
-          `Order #${order.order_number} Cancelled by Admin`,
-          `Order has been cancelled by admin. ${refundProcessed ? `${refundBreakdown.vendorDebitAmount.toFixed(2)} ${order.currency} (amount you received) has been debited from your wallet.` : ''}`,
-          {
-            order_id: orderId,
-            order_number: order.order_number,
-            status: OrderStatus.CANCELLED,
-            cancelled_by: 'ADMIN',
-            admin_email: admin.email,
-            debit_amount: refundBreakdown?.vendorDebitAmount,
-          },
-        );
+    const transition: OrderTransitionContext = {
+      actor: OrderStatusActor.ADMIN,
+      actor_id: admin.id,
+      reason: order.cancellation_reason,
+      metadata: { refund_processed: refundProcessed },
+    };
+    await this.orderStateMachine.recordTransition(
+      orderId,
+      previousStatus,
+      OrderStatus.CANCELLED,
+      transition,
+    );
 
-        this.logger.log(`[ADMIN CANCEL] ✓ Vendor notifications sent`);
-      }
+    await this.menuInventoryService.releaseOrderStockSafely(orderId);
 
-      // Email to admin for record
-      await this.orderEmailNotification.sendOrderStatusChangeToAdmin(
-        order,
-        order.order_status,
-        OrderStatus.CANCELLED,
-        `Admin: ${admin.email} - Reason: ${cancelDto.reason}`,
-      );
+    this.orderStateMachine.publishTransition(
+      order,
+      previousStatus,
+      OrderStatus.CANCELLED,
+      transition,
+    );
 
-      this.logger.log(`[ADMIN CANCEL] ✓ Admin notification sent`);
-    } catch (error) {
-      this.logger.error(
-        `[ADMIN CANCEL] ⚠️ Failed to send notifications: ${error.message}`,
+    if (refundProcessed) {
+      this.eventEmitter.emit(
+        PAYMENT_EVENTS.REFUND_ISSUED,
+        new RefundIssuedEvent(order, {
+          amount: refundBreakdown.customerRefundAmount,
+          vendor_debit_amount: refundBreakdown.vendorDebitAmount,
+          reason: `Order cancelled by admin: ${cancelDto.reason || 'Administrative action'}`,
+          issued_by: admin.id,
+        }),
       );
     }
 
@@ -546,6 +532,12 @@ export class AdminOrderService {
       throw new NotFoundException('Order not found');
     }
 
+    this.orderStateMachine.assertTransition(
+      OrderStatusActor.ADMIN,
+      order.order_status,
+      updateDto.order_status,
+    );
+
     const updateData: Partial<Order> = {
       order_status: updateDto.order_status,
     };
@@ -556,6 +548,25 @@ export class AdminOrderService {
 
     const updatedOrder = await this.orderRepository.update(orderId, updateData);
 
+    const transition: OrderTransitionContext = {
+      actor: OrderStatusActor.ADMIN,
+      actor_id: adminId,
+      reason: updateDto.reason || 'Status changed by admin',
+      metadata: { override: true },
+    };
+    await this.orderStateMachine.recordTransition(
+      orderId,
+      order.order_status,
+      updateDto.order_status,
+      transition,
+    );
+    this.orderStateMachine.publishTransition(
+      updatedOrder,
+      order.order_status,
+      updateDto.order_status,
+      transition,
+    );
+
     this.logger.log(
       `[ADMIN ORDER] Order ${orderId} status updated to ${updateDto.order_status}`,
     );
@@ -596,6 +607,7 @@ export class AdminOrderService {
       );
     }
 
+    const previousStatus = order.order_status;
     order.order_status = OrderStatus.CANCELLED;
     order.cancelled_at = new Date();
     order.cancellation_reason =
@@ -608,24 +620,27 @@ export class AdminOrderService {
       `[ADMIN MARK FAILED] ✓ Order ${orderId} marked as cancelled`,
     );
 
-    try {
-      await this.notificationService.sendPushNotification(
-        order.customer_id,
-        NotificationType.ORDER_UPDATE,
-        `Order #${order.order_number} Cancelled`,
-        'Your order has been cancelled due to payment failure.',
-        {
-          order_id: orderId,
-          order_number: order.order_number,
-          status: OrderStatus.CANCELLED,
-          reason: 'Payment failed',
-        },
-      );
-    } catch (error) {
-      this.logger.error(
-        `[ADMIN MARK FAILED] Failed to send notification: ${error.message}`,
-      );
-    }
+    const transition: OrderTransitionContext = {
+      actor: OrderStatusActor.ADMIN,
+      actor_id: admin.id,
+      reason: order.cancellation_reason,
+      metadata: { payment_status: order.payment_status },
+    };
+    await this.orderStateMachine.recordTransition(
+      orderId,
+      previousStatus,
+      OrderStatus.CANCELLED,
+      transition,
+    );
+
+    await this.menuInventoryService.releaseOrderStockSafely(orderId);
+
+    this.orderStateMachine.publishTransition(
+      order,
+      previousStatus,
+      OrderStatus.CANCELLED,
+      transition,
+    );
 
     return {
       message: 'Order marked as cancelled successfully',
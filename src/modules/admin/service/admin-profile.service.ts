@@ -9,7 +9,7 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { User, Address, Vendor, Wallet } from 'src/entities';
+import { User, Address, Vendor, Wallet, WalletBalance } from 'src/entities';
 import { AddressService } from '../../user/services/address.service';
 import {
   AdminUpdatePhoneDto,
@@ -30,6 +30,8 @@ export class AdminProfileService {
     private readonly vendorRepository: Repository<Vendor>,
     @InjectRepository(Wallet)
     private readonly walletRepository: Repository<Wallet>,
+    @InjectRepository(WalletBalance)
+    private readonly walletBalanceRepository: Repository<WalletBalance>,
     private readonly addressService: AddressService,
   ) {}
 
@@ -559,9 +561,40 @@ export class AdminProfileService {
     }
 
     const oldCurrency = wallet.currency;
+    if (oldCurrency === updateDto.currency) {
+      throw new BadRequestException(
+        `Wallet currency is already ${updateDto.currency}`,
+      );
+    }
+
+    // The main balance is in the wallet currency, so relabelling it would
+    // change its value. Park it as a balance in the old currency instead and
+    // promote whatever is already held in the new one.
+    const balances = await this.walletBalanceRepository.find({
+      where: { wallet_id: wallet.id },
+    });
+    const parked =
+      balances.find((balance) => balance.currency === oldCurrency) ||
+      this.walletBalanceRepository.create({
+        wallet_id: wallet.id,
+        currency: oldCurrency,
+        balance: 0,
+      });
+    const promoted = balances.find(
+      (balance) => balance.currency === updateDto.currency,
+    );
+
+    parked.credit(wallet.balance);
+    await this.walletBalanceRepository.save(parked);
+
+    wallet.balance = promoted ? Number(promoted.balance) : 0;
     wallet.currency = updateDto.currency;
     await this.walletRepository.save(wallet);
 
+    if (promoted) {
+      await this.walletBalanceRepository.remove(promoted);
+    }
+
     this.logger.log(
       `[ADMIN] Wallet currency updated for user ${userId}: ${oldCurrency} → ${updateDto.currency}. Admin: ${adminUser.email}`,
     );
@@ -577,6 +610,8 @@ export class AdminProfileService {
         wallet_id: wallet.id,
         old_currency: oldCurrency,
         new_currency: wallet.currency,
+        balance: wallet.balance,
+        parked_balance: parked.balance,
       },
     };
   }
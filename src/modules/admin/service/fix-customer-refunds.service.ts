@@ -1,8 +1,11 @@
 // src/modules/admin/services/fix-customer-refunds.service.ts
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Repository } from 'typeorm';
-import { Order, OrderStatus, PaymentStatus, Wallet, Payment } from '@/entities';
+import { Order, OrderStatus, PaymentStatus, Wallet, Payment, PaymentProvider } from '@/entities';
+import { LedgerService } from '../../ledger/services/ledger.service';
+import { PAYMENT_EVENTS, RefundIssuedEvent } from '../../payment/events';
 
 export interface RefundFixResult {
   total_cancelled_orders: number;
@@ -37,8 +40,49 @@ export class FixCustomerRefundsService {
     private readonly walletRepository: Repository<Wallet>,
     @InjectRepository(Payment)
     private readonly paymentRepository: Repository<Payment>,
+    private readonly ledgerService: LedgerService,
+    private readonly eventEmitter: EventEmitter2,
   ) {}
 
+  /**
+   * Ledger entry for a cancellation refund the platform absorbs. The
+   * reference is per order, so an order is never refunded twice in the ledger.
+   */
+  private async postRefundToLedger(order: Order, refundAmount: number): Promise<void> {
+    await this.ledgerService.recordRefund({
+      reference: `cancellation_refund:${order.id}`,
+      order_id: order.id,
+      currency: order.currency,
+      amount: refundAmount,
+      vendor_clawback: 0,
+      customer_id: order.customer_id,
+      provider: PaymentProvider.WALLET,
+      description: `Refund for cancelled order ${order.order_number}`,
+    });
+  }
+
+  /**
+   * Mark a cancelled order refunded. Only payment_status is written, so the
+   * order status never bypasses the state machine. The refund is published
+   * as a payment event like any other refund; the order's status did not
+   * change, so nothing goes into its status history.
+   */
+  private async markOrderRefunded(order: Order, refundAmount: number): Promise<void> {
+    order.payment_status = PaymentStatus.REFUNDED;
+    await this.orderRepository.update(order.id, {
+      payment_status: PaymentStatus.REFUNDED,
+    });
+
+    this.eventEmitter.emit(
+      PAYMENT_EVENTS.REFUND_ISSUED,
+      new RefundIssuedEvent(order, {
+        amount: refundAmount,
+        vendor_debit_amount: 0,
+        reason: 'Cancellation refund issued by admin fix',
+      }),
+    );
+  }
+
   /**
    * Calculate service fee from subtotal
    */
@@ -340,10 +384,10 @@ export class FixCustomerRefundsService {
             wallet.balance = Number(wallet.balance) + refundAmount;
             wallet.last_transaction_at = new Date();
             totalRefunded += refundAmount;
+            await this.postRefundToLedger(order, refundAmount);
 
             // Update order payment status to REFUNDED
-            order.payment_status = PaymentStatus.REFUNDED;
-            await this.orderRepository.save(order);
+            await this.markOrderRefunded(order, refundAmount);
 
             // Update payment record if exists
             if (payment) {
@@ -513,9 +557,9 @@ export class FixCustomerRefundsService {
         wallet.balance = Number(wallet.balance) + refundAmount;
         wallet.last_transaction_at = new Date();
         result.total_amount_to_refund += refundAmount;
+        await this.postRefundToLedger(order, refundAmount);
 
-        order.payment_status = PaymentStatus.REFUNDED;
-        await this.orderRepository.save(order);
+        await this.markOrderRefunded(order, refundAmount);
 
         if (payment) {
           payment.processRefund(
@@ -626,9 +670,9 @@ export class FixCustomerRefundsService {
     wallet.balance = Number(wallet.balance) + refundAmount;
     wallet.last_transaction_at = new Date();
     await this.walletRepository.save(wallet);
+    await this.postRefundToLedger(order, refundAmount);
 
-    order.payment_status = PaymentStatus.REFUNDED;
-    await this.orderRepository.save(order);
+    await this.markOrderRefunded(order, refundAmount);
 
     if (payment) {
       payment.processRefund(
@@ -2,7 +2,9 @@
 import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { Order, OrderStatus, PaymentStatus, Wallet, Payment, PaymentTransactionStatus } from '@/entities';
+import { Order, OrderStatus, OrderStatusActor, PaymentStatus, Wallet, Payment, PaymentTransactionStatus, PaymentProvider, LedgerAccountType } from '@/entities';
+import { OrderStateMachineService, OrderTransitionContext } from '../../order/services/order-state-machine.service';
+import { LedgerService } from '../../ledger/services/ledger.service';
 
 export interface RevertCancellationResult {
   success: boolean;
@@ -51,6 +53,8 @@ export class RevertCancellationService {
     private readonly walletRepo: Repository<Wallet>,
     @InjectRepository(Payment)
     private readonly paymentRepo: Repository<Payment>,
+    private readonly orderStateMachine: OrderStateMachineService,
+    private readonly ledgerService: LedgerService,
   ) {}
 
   /**
@@ -144,6 +148,18 @@ export class RevertCancellationService {
       `[REVERT CANCEL] ✓ Credited vendor wallet: ${previousState.vendor_balance} → ${vendorWallet.vendor_balance} (+${vendorReceivedAmount})`
     );
 
+    await this.ledgerService.recordRefundReversal({
+      reference: `revert_cancellation:${order.id}:${Date.now()}`,
+      order_id: order.id,
+      currency: order.currency,
+      amount: totalAmount,
+      vendor_clawback: vendorReceivedAmount,
+      vendor_user_id: order.vendor.user_id,
+      customer_id: order.customer_id,
+      provider: PaymentProvider.WALLET,
+      description: `Cancellation of order ${order.order_number} reverted`,
+    });
+
     // Update order status to DELIVERED (assuming the order was actually delivered)
     order.order_status = OrderStatus.DELIVERED;
     order.payment_status = PaymentStatus.PAID;
@@ -156,6 +172,27 @@ export class RevertCancellationService {
 
     this.logger.log(`[REVERT CANCEL] ✓ Order status updated to DELIVERED`);
 
+    const transition: OrderTransitionContext = {
+      actor: OrderStatusActor.ADMIN,
+      reason: 'Revert incorrect cancellation - order was actually delivered',
+      metadata: {
+        customer_debit: totalAmount,
+        vendor_credit: vendorReceivedAmount,
+      },
+    };
+    await this.orderStateMachine.recordTransition(
+      orderId,
+      previousState.order_status,
+      OrderStatus.DELIVERED,
+      transition,
+    );
+    this.orderStateMachine.publishTransition(
+      order,
+      previousState.order_status,
+      OrderStatus.DELIVERED,
+      transition,
+    );
+
     // Update payment record
     const payment = await this.paymentRepo.findOne({
       where: { order_id: orderId },
@@ -228,6 +265,14 @@ export class RevertCancellationService {
 
     const newBalance = Number(vendorWallet.vendor_balance);
 
+    await this.ledgerService.recordAdjustment({
+      account: LedgerAccountType.VENDOR_PAYABLE,
+      user_id: vendorUserId,
+      currency: vendorWallet.currency,
+      amount: adjustmentAmount,
+      description: `Vendor balance fixed by admin: ${reason}`,
+    });
+
     this.logger.log(
       `[FIX VENDOR BALANCE] ✓ Adjusted vendor balance: ${previousBalance} → ${newBalance} (${adjustmentAmount >= 0 ? '+' : ''}${adjustmentAmount})`
     );
@@ -269,8 +314,13 @@ export class RevertCancellationService {
 
     const subtotal = Number(order.subtotal);
     const totalAmount = Number(order.total_amount);
-    const serviceFee = this.calculateServiceFee(subtotal);
-    const correctVendorDebit = subtotal - serviceFee;
+    const serviceFee = order.fee_breakdown
+      ? Number(order.fee_breakdown.service_fee.amount)
+      : this.calculateServiceFee(subtotal);
+    const commission = order.fee_breakdown
+      ? Number(order.fee_breakdown.commission.amount)
+      : serviceFee;
+    const correctVendorDebit = subtotal - commission;
 
     return {
       order_number: order.order_number,
@@ -278,7 +328,7 @@ export class RevertCancellationService {
       service_fee: serviceFee,
       correct_vendor_debit: correctVendorDebit,
       total_refunded_to_customer: totalAmount,
-      explanation: `Subtotal (${subtotal}) - Service Fee (${serviceFee}) = ${correctVendorDebit}. This is what should be debited from vendor. Customer gets full total (${totalAmount}) refunded.`,
+      explanation: `Subtotal (${subtotal}) - ${order.fee_breakdown ? 'Commission' : 'Service Fee'} (${commission}) = ${correctVendorDebit}. This is what should be debited from vendor. Customer gets full total (${totalAmount}) refunded.`,
     };
   }
 }
\ No newline at end of file
@@ -11,4 +11,12 @@ export class PhoneValidator {
     const phoneRegex = /^\+[1-9]\d{1,14}$/;
     return phoneRegex.test(phoneNumber);
   }
+
+  /**
+   * Drop the spaces, dashes, dots and brackets people type into phone
+   * numbers, so "+234 801-234 5678" matches the stored "+2348012345678"
+   */
+  static normalize(phoneNumber: string): string {
+    return phoneNumber.trim().replace(/[\s\-().]/g, '');
+  }
 }
@@ -5,9 +5,11 @@ import { User, UserType, UserStatus } from '../../../entities';
 import { OTPService } from './otp.service';
 import { JWTService, TokenPair } from './jwt.service';
 import { UserService } from '../../user/services/user.service';
+import { USER_EVENTS, UserContactVerifiedEvent } from '../../user/events';
 import { EmailNotificationService } from '../../notification/services/email-notification.service';
 import { RegisterDto, VerifyEmailDto, ResendVerificationEmailDto } from '../dto';
 import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { RedisService } from '@/database/redis.service';
 import { AuthResponseBuilder } from '../helpers/auth-response.builder';
 import { EmailValidator } from '../helpers/validators';
@@ -28,6 +30,7 @@ export class EmailAuthService {
     private readonly configService: ConfigService,
     private readonly redisService: RedisService,
     private readonly authResponseBuilder: AuthResponseBuilder,
+    private readonly eventEmitter: EventEmitter2,
   ) {}
 
   async register(registerDto: RegisterDto): Promise<{ otpId: string; message: string }> {
@@ -125,6 +128,11 @@ export class EmailAuthService {
     // Remove cache
     await this.redisService.del(cacheKey);
 
+    this.eventEmitter.emit(
+      USER_EVENTS.CONTACT_VERIFIED,
+      new UserContactVerifiedEvent(user, 'email'),
+    );
+
     // Generate tokens
     const tokens = this.jwtService.generateTokenPair(user);
 
@@ -4,6 +4,11 @@ import { RedisService } from '@/database/redis.service';
 import { TwilioVerifyService } from './twillo-otp.service';
 import { v4 as uuidv4 } from 'uuid';
 
+export type EmailOTPType =
+  | 'email_verification'
+  | 'password_reset'
+  | 'wallet_transfer';
+
 export interface OTPData {
   phoneNumber?: string;
   email?: string;
@@ -11,7 +16,7 @@ export interface OTPData {
   attempts: number;
   createdAt: Date;
   expiresAt: Date;
-  type?: 'phone' | 'email_verification' | 'password_reset';
+  type?: 'phone' | EmailOTPType;
   twilioSid?: string; // Track Twilio verification SID
 }
 
@@ -283,7 +288,7 @@ export class OTPService {
   /**
    * Email OTP methods remain unchanged (using custom implementation)
    */
-  async generateEmailOTP(email: string, type: 'email_verification' | 'password_reset' = 'email_verification'): Promise<{ otpId: string; otpCode: string }> {
+  async generateEmailOTP(email: string, type: EmailOTPType = 'email_verification'): Promise<{ otpId: string; otpCode: string }> {
     // Generate 6-digit OTP
     let otpCode = Math.floor(100000 + Math.random() * 900000).toString();
     
@@ -315,7 +320,7 @@ export class OTPService {
     return { otpId, otpCode };
   }
 
-  async validateEmailOTP(otpId: string, otpCode: string, type: 'email_verification' | 'password_reset' = 'email_verification'): Promise<{ 
+  async validateEmailOTP(otpId: string, otpCode: string, type: EmailOTPType = 'email_verification'): Promise<{ 
     isValid: boolean; 
     email?: string; 
     error?: string;
@@ -356,7 +361,7 @@ export class OTPService {
     return { isValid: true, email: otpData.email };
   }
 
-  async resendEmailOTP(otpId: string, type: 'email_verification' | 'password_reset' = 'email_verification'): Promise<{ otpCode: string, email: string } | null> {
+  async resendEmailOTP(otpId: string, type: EmailOTPType = 'email_verification'): Promise<{ otpCode: string, email: string } | null> {
     const key = `otp:email:${type}:${otpId}`;
     const otpDataString = await this.redisService.get(key);
 
@@ -153,6 +153,12 @@ export class ProfileService {
       });
       await this.walletRepository.save(wallet);
       this.logger.log(`Created wallet with currency ${currency} for user ${userId}`);
+    } else if (wallet.currency !== currency && Number(wallet.balance) > 0) {
+      // Relabelling would change what the balance is worth, e.g. gift
+      // credit claimed before the profile was completed
+      this.logger.warn(
+        `Keeping wallet currency ${wallet.currency} for user ${userId}: it already holds ${wallet.balance}`,
+      );
     } else if (wallet.currency !== currency) {
       wallet.currency = currency;
       await this.walletRepository.save(wallet);
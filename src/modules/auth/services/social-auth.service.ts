@@ -274,6 +274,14 @@ export class SocialAuthService {
   }
 
   private async createWalletForUser(user: User): Promise<void> {
+    // Claiming gift credit on sign up may already have created it
+    const existing = await this.walletRepository.findOne({
+      where: { user_id: user.id },
+    });
+    if (existing) {
+      return;
+    }
+
     const currency = getCurrencyForCountry(user.country || 'NG');
     const wallet = this.walletRepository.create({
       user_id: user.id,
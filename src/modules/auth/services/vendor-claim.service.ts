@@ -3,10 +3,12 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { randomBytes } from 'crypto';
 import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import * as bcrypt from 'bcryptjs';
 import { User, Vendor, UserStatus, UserType } from '@/entities';
 import { RedisService } from '@/database/redis.service';
 import { EmailNotificationService } from '@/modules/notification/services/email-notification.service';
+import { USER_EVENTS, UserContactVerifiedEvent } from '@/modules/user/events';
 import { EmailTemplates } from '../helpers/email-templates';
 
 type VendorClaimPayload = {
@@ -28,6 +30,7 @@ export class VendorClaimService {
     private readonly redisService: RedisService,
     private readonly emailNotificationService: EmailNotificationService,
     private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
   ) {}
 
   async sendVendorClaimInvite(userId: string, vendorId: string, email: string): Promise<{ claimUrl: string }> {
@@ -121,6 +124,11 @@ export class VendorClaimService {
 
     await this.redisService.del(this.getClaimKey(token));
 
+    this.eventEmitter.emit(
+      USER_EVENTS.CONTACT_VERIFIED,
+      new UserContactVerifiedEvent(user, 'email'),
+    );
+
     return { message: 'Vendor account claimed successfully' };
   }
 
@@ -6,6 +6,7 @@ import { AuthModule } from 'src/modules/auth/auth.module';
 import { VendorModule } from '../vendor/vendor.module';
 import { OrderModule } from '../order/order.module';
 import { CouponModule } from '../coupon/coupon.module';
+import { FeeModule } from '../fee/fee.module';
 
 // Controllers
 import { CartController } from './controllers/cart.controller';
@@ -24,6 +25,7 @@ import { OrderRepository } from '../order/repositories/order.repository';
     AuthModule,
     VendorModule,
     CouponModule, // Import CouponModule to access CouponService
+    FeeModule, // Import FeeModule to estimate the service fee
     forwardRef(() => OrderModule),
   ],
   controllers: [
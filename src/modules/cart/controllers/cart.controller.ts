@@ -189,6 +189,7 @@ export class CartController {
         can_proceed: false,
         errors: validation.errors,
         invalid_items: validation.invalid_items,
+        stock_issues: validation.stock_issues,
         message: 'Cart contains invalid items that need to be resolved before checkout',
       };
     }
@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsNumber, IsOptional, IsJSON, Min, Max } from 'class-validator';
+import { IsString, IsNumber, IsOptional, IsJSON, Min, Max, IsArray, IsUUID } from 'class-validator';
 import { Transform } from 'class-transformer';
 
 export class AddToCartDto {
@@ -14,4 +14,13 @@ export class AddToCartDto {
   @Transform(({ value }) => parseInt(value))
   quantity: number;
 
+  @ApiPropertyOptional({
+    description: 'IDs of the chosen modifier options (size, add-ons, etc.)',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', { each: true })
+  option_ids?: string[];
+
 } 
\ No newline at end of file
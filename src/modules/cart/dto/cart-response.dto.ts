@@ -1,4 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SelectedMenuOption } from 'src/entities';
 
 export class CartItemResponseDto {
   @ApiProperty({ description: 'Cart item ID' })
@@ -16,6 +17,12 @@ export class CartItemResponseDto {
   @ApiProperty({ description: 'Total price for this item' })
   total_price: number;
 
+  @ApiPropertyOptional({
+    description: 'Modifier options chosen for this item',
+    type: 'array',
+  })
+  selected_options?: SelectedMenuOption[];
+
   @ApiProperty({ description: 'Service fee for this item' })
   service_fee: number;
 
@@ -38,6 +38,19 @@ export class CartRepository {
     });
   }
 
+  async findActiveLine(userId: string, menuItemId: string, vendorId: string, optionsSignature: string): Promise<CartItem | null> {
+    return await this.cartItemRepository.findOne({
+      where: {
+        user_id: userId,
+        menu_item_id: menuItemId,
+        vendor_id: vendorId,
+        options_signature: optionsSignature,
+        is_active: true,
+      },
+      relations: ['menu_item', 'menu_item.vendor', 'menu_item.category'],
+    });
+  }
+
   async findByUserMenuItemAndVendorAnyStatus(userId: string, menuItemId: string, vendorId: string): Promise<CartItem | null> {
     return await this.cartItemRepository.findOne({
       where: { user_id: userId, menu_item_id: menuItemId, vendor_id: vendorId },
@@ -173,9 +186,14 @@ export class CartRepository {
         continue;
       }
 
-      // Check if price has changed
-      if (menuItem.price !== cartItem.unit_price) {
-        cartItem.unit_price = menuItem.price;
+      // Check if price has changed (base price plus chosen option deltas)
+      const optionsTotal = (cartItem.selected_options || []).reduce(
+        (sum, option) => sum + Number(option.price_delta),
+        0,
+      );
+      const currentPrice = Math.round((Number(menuItem.price) + optionsTotal) * 100) / 100;
+      if (currentPrice !== Number(cartItem.unit_price)) {
+        cartItem.unit_price = currentPrice;
         cartItem.calculateTotal();
         await this.cartItemRepository.save(cartItem);
       }
@@ -9,6 +9,7 @@ import { ConfigService } from '@nestjs/config';
 import { CartRepository } from '../repositories/cart.repository';
 import { OrderRepository } from 'src/modules/order/repositories/order.repository';
 import { CouponService } from 'src/modules/coupon/services/coupon.service';
+import { CouponRepository } from 'src/modules/coupon/repositories/coupon.repository';
 import {
   AddToCartDto,
   UpdateCartItemDto,
@@ -20,24 +21,31 @@ import {
 import { CartItem } from 'src/entities';
 import { MenuItemService } from '@/modules/menu/services/menu-item.service';
 import { VendorService } from '@/modules/vendor/services/vendor.service';
+import { VendorAvailabilityService } from '@/modules/vendor/services/vendor-availability.service';
+import { MenuModifierService } from '@/modules/menu/services/menu-modifier.service';
+import {
+  MenuInventoryService,
+  CartStockIssue,
+} from '@/modules/menu/services/menu-inventory.service';
+import { FeeCalculatorService } from '@/modules/fee/services/fee-calculator.service';
 
 @Injectable()
 export class CartService {
   private readonly logger = new Logger(CartService.name);
   private readonly serviceFeePercentage: number;
-  // Store applied coupons per user and optionally per vendor
-  private appliedCoupons: Map<
-    string,
-    Map<string, { couponId: string; code: string; discountAmount: number }>
-  > = new Map();
 
   constructor(
     private readonly cartRepository: CartRepository,
     private readonly orderRepository: OrderRepository,
     private readonly menuItemService: MenuItemService,
+    private readonly menuModifierService: MenuModifierService,
+    private readonly menuInventoryService: MenuInventoryService,
     private readonly vendorService: VendorService,
+    private readonly vendorAvailabilityService: VendorAvailabilityService,
     private readonly couponService: CouponService,
+    private readonly couponRepository: CouponRepository,
     private readonly configService: ConfigService,
+    private readonly feeCalculator: FeeCalculatorService,
   ) {
     this.serviceFeePercentage =
       this.configService.get<number>('fees.serviceFeePercentage') || 15;
@@ -66,18 +74,23 @@ export class CartService {
       );
     }
 
-    const existingActiveCartItem =
-      await this.cartRepository.findByUserMenuItemAndVendor(
-        userId,
-        addToCartDto.menu_item_id,
-        menuItem.vendor_id,
-        true,
-      );
+    const selection = await this.menuModifierService.resolveSelection(
+      menuItem,
+      addToCartDto.option_ids,
+    );
+
+    // The same item with different options is kept as a separate line
+    const existingActiveCartItem = await this.cartRepository.findActiveLine(
+      userId,
+      addToCartDto.menu_item_id,
+      menuItem.vendor_id,
+      selection.options_signature,
+    );
 
     if (existingActiveCartItem) {
       const newQuantity =
         Number(existingActiveCartItem.quantity) + Number(addToCartDto.quantity);
-      const unitPrice = Number(menuItem.price);
+      const unitPrice = selection.unit_price;
       const newTotalPrice = unitPrice * newQuantity;
 
       existingActiveCartItem.updateQuantity(newQuantity);
@@ -88,6 +101,7 @@ export class CartService {
           quantity: newQuantity,
           unit_price: unitPrice,
           total_price: newTotalPrice,
+          selected_options: selection.selected_options,
         },
       );
 
@@ -99,8 +113,10 @@ export class CartService {
       menu_item_id: addToCartDto.menu_item_id,
       vendor_id: menuItem.vendor_id,
       quantity: addToCartDto.quantity,
-      unit_price: Number(menuItem.price),
-      total_price: Number(menuItem.price) * Number(addToCartDto.quantity),
+      unit_price: selection.unit_price,
+      total_price: selection.unit_price * Number(addToCartDto.quantity),
+      selected_options: selection.selected_options,
+      options_signature: selection.options_signature,
     });
 
     this.logger.log(`Added new item to cart: ${cartItem.id}`);
@@ -185,7 +201,7 @@ export class CartService {
     const removedCount = await this.cartRepository.clearUserCart(userId);
 
     // Clear applied coupons for this user
-    this.appliedCoupons.delete(userId);
+    await this.couponRepository.removeAppliedCoupons(userId);
 
     this.logger.log(
       `Cleared ${removedCount} items from cart for user ${userId}`,
@@ -198,6 +214,7 @@ export class CartService {
     valid_items: CartItemResponseDto[];
     invalid_items: CartItemResponseDto[];
     errors: string[];
+    stock_issues: CartStockIssue[];
     summary: {
       total_items: number;
       subtotal: number;
@@ -208,6 +225,23 @@ export class CartService {
 
     const validation = await this.cartRepository.validateCartItems(userId);
 
+    // Lines asking for more than the remaining stock cannot be checked out
+    const stock_issues = await this.menuInventoryService.checkCartStock(
+      validation.valid_items,
+    );
+    const overStockIds = new Set(stock_issues.map(issue => issue.cart_item_id));
+    validation.invalid_items.push(
+      ...validation.valid_items.filter(item => overStockIds.has(item.id)),
+    );
+    validation.valid_items = validation.valid_items.filter(
+      item => !overStockIds.has(item.id),
+    );
+    validation.errors.push(
+      ...stock_issues.map(issue =>
+        this.menuInventoryService.formatStockIssue(issue),
+      ),
+    );
+
     const valid_items = validation.valid_items.map(item =>
       this.mapToCartItemResponse(item),
     );
@@ -223,6 +257,7 @@ export class CartService {
       valid_items,
       invalid_items,
       errors: validation.errors,
+      stock_issues,
       summary: {
         total_items: summary.total_items,
         subtotal: summary.subtotal,
@@ -271,9 +306,14 @@ export class CartService {
     return cartItems;
   }
 
+  /**
+   * Check cart lines can still be ordered. `at` is when the vendor has to be
+   * open: now, or the slot of a scheduled order.
+   */
   async validateCartItemsForCheckout(
     userId: string,
     cartItemIds: string[],
+    at: Date = new Date(),
   ): Promise<{
     cartItems: CartItem[];
     vendorId: string;
@@ -301,8 +341,21 @@ export class CartService {
         continue;
       }
 
-      const currentPrice = cartItem.menu_item.price;
-      const cartPrice = cartItem.unit_price;
+      const { unit_price: currentPrice, unavailable_options } =
+        await this.menuModifierService.repriceSelection(
+          cartItem.menu_item,
+          cartItem.selected_options,
+        );
+      if (unavailable_options.length > 0) {
+        issues.push(
+          `${unavailable_options.join(', ')} for "${
+            cartItem.menu_item.name
+          }" is no longer available`,
+        );
+        continue;
+      }
+
+      const cartPrice = Number(cartItem.unit_price);
       const priceChange = Math.abs(currentPrice - cartPrice) / cartPrice;
 
       if (priceChange > 0.1) {
@@ -314,6 +367,15 @@ export class CartService {
       subtotal += Number(cartItem.total_price);
     }
 
+    const stockIssues = await this.menuInventoryService.checkCartStock(
+      cartItems.filter(item => item.menu_item?.is_available),
+    );
+    issues.push(
+      ...stockIssues.map(issue =>
+        this.menuInventoryService.formatStockIssue(issue),
+      ),
+    );
+
     const vendorIds = new Set(cartItems.map(item => item.vendor_id));
     if (vendorIds.size === 0) {
       issues.push('No valid vendor found for cart items');
@@ -325,6 +387,24 @@ export class CartService {
 
     const vendorId = vendorIds.size === 1 ? Array.from(vendorIds)[0] : '';
 
+    if (vendorId) {
+      const vendor = await this.vendorService.getVendorById(vendorId);
+      if (!vendor || !vendor.is_active) {
+        issues.push('This vendor is not currently active');
+      } else {
+        const availability =
+          await this.vendorAvailabilityService.getAvailability(vendor, at);
+        if (!availability.is_open_now) {
+          issues.push(
+            this.vendorAvailabilityService.formatClosedMessage(
+              vendor,
+              availability,
+            ),
+          );
+        }
+      }
+    }
+
     return {
       cartItems,
       vendorId,
@@ -354,6 +434,7 @@ export class CartService {
       unit_price: cartItem.unit_price,
       service_fee: Number(serviceFee.toFixed(2)),
       total_price: Number(cartItem.total_price) + Number(serviceFee.toFixed(2)),
+      selected_options: cartItem.selected_options || [],
       created_at: cartItem.created_at,
       updated_at: cartItem.updated_at,
       is_preOrder: cartItem.menu_item?.is_preOrder,
@@ -433,9 +514,15 @@ export class CartService {
     let totalItems = 0;
     let totalSubtotal = 0;
     let totalDiscount = 0;
+    let serviceCharge = 0;
 
     // Get user's applied coupons
-    const userCoupons = this.appliedCoupons.get(userId) || new Map();
+    const userCoupons = new Map(
+      (await this.couponRepository.findAppliedCoupons(userId)).map(coupon => [
+        coupon.vendor_id,
+        coupon,
+      ]),
+    );
     const appliedCouponsList = [];
 
     for (const [vendorId, items] of vendorGroups) {
@@ -456,7 +543,7 @@ export class CartService {
       const appliedCoupon = userCoupons.get(vendorId);
 
       if (appliedCoupon) {
-        vendorDiscount = appliedCoupon.discountAmount;
+        vendorDiscount = Number(appliedCoupon.discount_amount);
         appliedCouponsList.push({
           vendor_id: vendorId,
           coupon_code: appliedCoupon.code,
@@ -477,9 +564,9 @@ export class CartService {
       totalItems += vendorTotalItems;
       totalSubtotal += Number(vendorSubtotal);
       totalDiscount += vendorDiscount;
+      serviceCharge += await this.estimateServiceFee(vendorId, items);
     }
 
-    const serviceCharge = (totalSubtotal * this.serviceFeePercentage) / 100;
     const finalTotal = totalSubtotal + serviceCharge - totalDiscount;
 
     return {
@@ -526,23 +613,22 @@ export class CartService {
         ? cartItems[0]?.menu_item?.vendor?.business_name || 'Unknown Vendor'
         : 'Unknown Vendor';
 
-    const serviceCharge =
-      (Number(summary.subtotal) * this.serviceFeePercentage) / 100;
+    const serviceCharge = await this.estimateServiceFee(vendorId, cartItems);
 
     // Check if coupon is applied for this vendor
     let discount = 0;
     let appliedCoupon = null;
-    const userCoupons = this.appliedCoupons.get(userId);
-
-    if (userCoupons) {
-      const coupon = userCoupons.get(vendorId);
-      if (coupon) {
-        discount = coupon.discountAmount;
-        appliedCoupon = {
-          code: coupon.code,
-          discount_amount: discount,
-        };
-      }
+    const coupon = await this.couponRepository.findAppliedCoupon(
+      userId,
+      vendorId,
+    );
+
+    if (coupon) {
+      discount = Number(coupon.discount_amount);
+      appliedCoupon = {
+        code: coupon.code,
+        discount_amount: discount,
+      };
     }
 
     const finalTotal = summary.subtotal + serviceCharge - discount;
@@ -562,6 +648,28 @@ export class CartService {
     };
   }
 
+  /**
+   * Service fee the fee rules would charge for these items. The order type
+   * is not known until checkout, so rules scoped to one are left out.
+   */
+  private async estimateServiceFee(
+    vendorId: string,
+    cartItems: CartItem[],
+  ): Promise<number> {
+    if (cartItems.length === 0) {
+      return 0;
+    }
+
+    const breakdown = await this.feeCalculator.calculate({
+      vendor_id: vendorId,
+      lines: cartItems.map(item => ({
+        category_id: item.menu_item?.category_id,
+        amount: Number(item.total_price),
+      })),
+    });
+    return breakdown.service_fee.amount;
+  }
+
   async removeCartItems(userId: string, cartItemIds: string[]): Promise<void> {
     this.logger.log(
       `Removing cart items ${cartItemIds.join(', ')} for user ${userId}`,
@@ -631,10 +739,7 @@ export class CartService {
     }
 
     // Remove applied coupon for this vendor
-    const userCoupons = this.appliedCoupons.get(userId);
-    if (userCoupons) {
-      userCoupons.delete(vendorId);
-    }
+    await this.couponRepository.removeAppliedCoupons(userId, vendorId);
 
     this.logger.log(
       `Cleared ${cartItems.length} items from cart for user ${userId} and vendor ${vendorId}`,
@@ -725,15 +830,12 @@ export class CartService {
         };
       }
 
-      // Store applied coupon
-      if (!this.appliedCoupons.has(userId)) {
-        this.appliedCoupons.set(userId, new Map());
-      }
-
-      const userCoupons = this.appliedCoupons.get(userId)!;
-
       // Check if a coupon is already applied for this vendor
-      if (userCoupons.has(targetVendorId)) {
+      const existingCoupon = await this.couponRepository.findAppliedCoupon(
+        userId,
+        targetVendorId,
+      );
+      if (existingCoupon) {
         return {
           success: false,
           message:
@@ -742,10 +844,13 @@ export class CartService {
         };
       }
 
-      userCoupons.set(targetVendorId, {
-        couponId: validation.coupon!.id,
+      // Store applied coupon
+      await this.couponRepository.saveAppliedCoupon({
+        user_id: userId,
+        vendor_id: targetVendorId,
+        coupon_id: validation.coupon!.id,
         code: validation.coupon!.code,
-        discountAmount: validation.discount_amount!,
+        discount_amount: validation.discount_amount!,
       });
 
       // Get updated cart
@@ -772,44 +877,23 @@ export class CartService {
   async removeCouponFromCart(userId: string, vendorId?: string): Promise<void> {
     this.logger.log(`Removing coupon from cart for user ${userId}`);
 
-    const userCoupons = this.appliedCoupons.get(userId);
-    if (!userCoupons) {
-      return;
-    }
-
-    if (vendorId) {
-      userCoupons.delete(vendorId);
-    } else {
-      this.appliedCoupons.delete(userId);
-    }
+    await this.couponRepository.removeAppliedCoupons(userId, vendorId);
   }
 
   async getAppliedCoupons(
     userId: string,
     vendorId?: string,
   ): Promise<Array<{ vendor_id: string; code: string; discount: number }>> {
-    const userCoupons = this.appliedCoupons.get(userId);
-    if (!userCoupons) {
-      return [];
-    }
-
-    if (vendorId) {
-      const coupon = userCoupons.get(vendorId);
-      return coupon
-        ? [
-            {
-              vendor_id: vendorId,
-              code: coupon.code,
-              discount: coupon.discountAmount,
-            },
-          ]
-        : [];
-    }
-
-    return Array.from(userCoupons.entries()).map(([vId, coupon]) => ({
-      vendor_id: vId,
-      code: coupon.code,
-      discount: coupon.discountAmount,
-    }));
+    const userCoupons = vendorId
+      ? [await this.couponRepository.findAppliedCoupon(userId, vendorId)]
+      : await this.couponRepository.findAppliedCoupons(userId);
+
+    return userCoupons
+      .filter(coupon => !!coupon)
+      .map(coupon => ({
+        vendor_id: coupon.vendor_id,
+        code: coupon.code,
+        discount: Number(coupon.discount_amount),
+      }));
   }
 }
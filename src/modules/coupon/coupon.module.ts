@@ -1,7 +1,7 @@
 // src/modules/coupon/coupon.module.ts
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { Coupon, CouponUsage } from 'src/entities';
+import { Coupon, CouponUsage, AppliedCoupon } from 'src/entities';
 
 // Import the Auth Module
 import { AuthModule } from '../auth/auth.module';
@@ -17,7 +17,7 @@ import { CouponRepository } from './repositories/coupon.repository';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Coupon, CouponUsage]),
+    TypeOrmModule.forFeature([Coupon, CouponUsage, AppliedCoupon]),
     AuthModule, // Add this line to import JWT authentication
   ],
   controllers: [
@@ -1,8 +1,8 @@
 // src/modules/coupon/repositories/coupon.repository.ts
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Coupon, CouponUsage } from 'src/entities';
+import { EntityManager, Repository } from 'typeorm';
+import { AppliedCoupon, Coupon, CouponUsage } from 'src/entities';
 
 @Injectable()
 export class CouponRepository {
@@ -11,6 +11,8 @@ export class CouponRepository {
     private readonly couponRepo: Repository<Coupon>,
     @InjectRepository(CouponUsage)
     private readonly usageRepo: Repository<CouponUsage>,
+    @InjectRepository(AppliedCoupon)
+    private readonly appliedRepo: Repository<AppliedCoupon>,
   ) {}
 
   async create(data: Partial<Coupon>): Promise<Coupon> {
@@ -42,19 +44,65 @@ export class CouponRepository {
     couponId: string,
     userId: string,
     discountAmount: number,
-    orderId?: string
+    orderId?: string,
+    manager?: EntityManager
   ): Promise<CouponUsage> {
-    const usage = this.usageRepo.create({
+    const repo = manager ? manager.getRepository(CouponUsage) : this.usageRepo;
+    const usage = repo.create({
       coupon_id: couponId,
       user_id: userId,
       order_id: orderId,
       discount_amount: discountAmount,
     });
-    return await this.usageRepo.save(usage);
+    return await repo.save(usage);
   }
 
-  async incrementUsageCount(couponId: string): Promise<void> {
-    await this.couponRepo.increment({ id: couponId }, 'usage_count', 1);
+  /**
+   * Increments usage_count unless the coupon has already hit its usage_limit.
+   * Returns false when the limit was reached by a concurrent order.
+   */
+  async incrementUsageCount(couponId: string, manager?: EntityManager): Promise<boolean> {
+    const repo = manager ? manager.getRepository(Coupon) : this.couponRepo;
+    const result = await repo
+      .createQueryBuilder()
+      .update(Coupon)
+      .set({ usage_count: () => 'usage_count + 1' })
+      .where('id = :couponId', { couponId })
+      .andWhere('(usage_limit IS NULL OR usage_count < usage_limit)')
+      .execute();
+
+    return result.affected > 0;
+  }
+
+  // Applied (cart) coupons
+
+  async findAppliedCoupon(userId: string, vendorId: string): Promise<AppliedCoupon | null> {
+    return await this.appliedRepo.findOne({
+      where: { user_id: userId, vendor_id: vendorId }
+    });
+  }
+
+  async findAppliedCoupons(userId: string): Promise<AppliedCoupon[]> {
+    return await this.appliedRepo.find({
+      where: { user_id: userId },
+      order: { created_at: 'ASC' }
+    });
+  }
+
+  async saveAppliedCoupon(data: Partial<AppliedCoupon>): Promise<AppliedCoupon> {
+    const applied = this.appliedRepo.create(data);
+    return await this.appliedRepo.save(applied);
+  }
+
+  async removeAppliedCoupons(
+    userId: string,
+    vendorId?: string,
+    manager?: EntityManager
+  ): Promise<void> {
+    const repo = manager ? manager.getRepository(AppliedCoupon) : this.appliedRepo;
+    await repo.delete(
+      vendorId ? { user_id: userId, vendor_id: vendorId } : { user_id: userId }
+    );
   }
 
   async update(id: string, data: Partial<Coupon>): Promise<Coupon> {
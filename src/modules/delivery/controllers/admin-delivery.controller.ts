@@ -0,0 +1,41 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { AdminAuthGuard } from '../../auth/guards/admin-auth-guard';
+import { DeliveryProofService } from '../services/delivery-proof.service';
+import { DeliveryEvidenceResponseDto } from '../dto';
+
+@ApiTags('Admin - Deliveries')
+@Controller('admin/deliveries')
+@UseGuards(JwtAuthGuard, AdminAuthGuard)
+@ApiBearerAuth()
+export class AdminDeliveryController {
+  constructor(private readonly deliveryProofService: DeliveryProofService) {}
+
+  @Get('orders/:orderId/evidence')
+  @ApiOperation({
+    summary: '[ADMIN ONLY]: Get the delivery evidence for an order',
+    description:
+      'Every delivery attempt with its proof of delivery, PIN checks and tracking events, plus the order status history. For handling disputes.',
+  })
+  @ApiParam({ name: 'orderId', description: 'Order ID' })
+  @ApiResponse({ status: 200, type: DeliveryEvidenceResponseDto })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async getOrderEvidence(
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+  ): Promise<DeliveryEvidenceResponseDto> {
+    return await this.deliveryProofService.getOrderEvidence(orderId);
+  }
+}
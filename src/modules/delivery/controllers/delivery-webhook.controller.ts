@@ -10,7 +10,8 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiExcludeEndpoint } from '@nestjs/swagger';
 import { DeliveryService } from '../services/delivery.service';
-import { DeliveryProvider } from 'src/entities';
+import { DeliveryProvider, WebhookSource } from 'src/entities';
+import { WebhookInboxService } from 'src/modules/webhook/services/webhook-inbox.service';
 import { DeliveryWebhookDto } from '../dto';
 
 @ApiTags('Delivery Webhooks')
@@ -18,7 +19,10 @@ import { DeliveryWebhookDto } from '../dto';
 export class DeliveryWebhookController {
   private readonly logger = new Logger(DeliveryWebhookController.name);
 
-  constructor(private readonly deliveryService: DeliveryService) {}
+  constructor(
+    private readonly deliveryService: DeliveryService,
+    private readonly webhookInbox: WebhookInboxService,
+  ) {}
 
   @Post('shipbubble')
   @HttpCode(HttpStatus.OK)
@@ -36,12 +40,21 @@ export class DeliveryWebhookController {
     this.logger.log('Received Shipbubble webhook');
 
     try {
-      const result = await this.deliveryService.processWebhook(
+      const result = await this.deliveryService.verifyWebhook(
         DeliveryProvider.SHIPBUBBLE,
         payload,
         signature,
       );
 
+      if (result.success) {
+        await this.webhookInbox.record({
+          source: WebhookSource.DELIVERY,
+          provider: DeliveryProvider.SHIPBUBBLE,
+          payload,
+          normalized: result,
+        });
+      }
+
       return { success: result.success };
     } catch (error) {
       this.logger.error(`Failed to process Shipbubble webhook: ${error.message}`);
@@ -75,12 +88,21 @@ export class DeliveryWebhookController {
         throw new BadRequestException('Missing webhook signature');
       }
 
-      const result = await this.deliveryService.processWebhook(
+      const result = await this.deliveryService.verifyWebhook(
         DeliveryProvider.UBER,
         payload,
         signature,
       );
 
+      if (result.success) {
+        await this.webhookInbox.record({
+          source: WebhookSource.DELIVERY,
+          provider: DeliveryProvider.UBER,
+          payload,
+          normalized: result,
+        });
+      }
+
       return { success: result.success };
     } catch (error) {
       this.logger.error(`Failed to process Uber webhook: ${error.message}`);
@@ -25,6 +25,7 @@ import {
   CreateShipmentResponseDto,
   ShipmentTrackingResponseDto,
   DeliveryResponseDto,
+  DeliveryRateShoppingResponseDto,
   ShipbubblePackageCategoriesResponseDto,
   ShipbubblePackageDimensionsResponseDto,
   ShipbubbleCreateShipmentRequestDto,
@@ -64,17 +65,11 @@ export class DeliveryController {
 
   @Post('initialize')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Initialize delivery for order' })
+  @ApiOperation({ summary: 'Initialize delivery for order: quote every provider on the route and select the best' })
   @ApiResponse({
     status: 200,
-    description: 'Delivery initialized successfully',
-    schema: {
-      type: 'object',
-      properties: {
-        fee: { type: 'number', description: 'Delivery fee amount' },
-        delivery_id: { type: 'string', description: 'Delivery quote ID' },
-      },
-    },
+    description: 'Delivery quotes ranked by the rate policy, with the selected one first',
+    type: DeliveryRateShoppingResponseDto,
   })
   @ApiResponse({ status: 400, description: 'Failed to get delivery quotes' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
@@ -82,7 +77,7 @@ export class DeliveryController {
   async initializeDelivery(
     @GetUser() user: User,
     @Body() initializeDto: IntializeDeliveryDto,
-  ): Promise<{ fee: number; delivery_id: string }> {
+  ): Promise<DeliveryRateShoppingResponseDto> {
     const userDetails = {
       name: `${user.first_name} ${user.last_name}`,
       email: user.email,
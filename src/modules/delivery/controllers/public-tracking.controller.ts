@@ -0,0 +1,27 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { DeliveryLiveTrackingService } from '../services/delivery-live-tracking.service';
+import { OrderTrackingResponseDto } from '../dto';
+
+/**
+ * Tracking links the customer shares with a gift's recipient. The token in
+ * the link is the only credential, so there is no auth here.
+ */
+@ApiTags('Delivery Tracking')
+@Controller('tracking')
+export class PublicTrackingController {
+  constructor(
+    private readonly deliveryLiveTrackingService: DeliveryLiveTrackingService,
+  ) {}
+
+  @Get(':token')
+  @ApiOperation({ summary: 'Track a gift order from its shared link' })
+  @ApiParam({ name: 'token', description: 'Token from the tracking link' })
+  @ApiResponse({ status: 200, type: OrderTrackingResponseDto })
+  @ApiResponse({ status: 404, description: 'Tracking link not found' })
+  async getTracking(
+    @Param('token') token: string,
+  ): Promise<OrderTrackingResponseDto> {
+    return await this.deliveryLiveTrackingService.getPublicTracking(token);
+  }
+}
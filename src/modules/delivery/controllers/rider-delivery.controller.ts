@@ -0,0 +1,110 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/modules/auth/guards/jwt-auth.guard';
+import { GetUser } from '@/common/decorators/get-user.decorator';
+import { User } from '@/entities';
+import { DeliveryFleetService } from '../services/delivery-fleet.service';
+import {
+  DELIVERY_PROOF_UPLOAD_FIELDS,
+  DELIVERY_PROOF_UPLOAD_OPTIONS,
+  DELIVERY_PROOF_UPLOAD_SCHEMA,
+  DeliveryProofUploadDto,
+  RiderStatusUpdateDto,
+  SelfDeliveryResponseDto,
+} from '../dto';
+
+/**
+ * For vendors' riders, who sign in with the account their vendor linked
+ */
+@ApiTags('Rider Deliveries')
+@Controller('rider/deliveries')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class RiderDeliveryController {
+  constructor(private readonly deliveryFleetService: DeliveryFleetService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the open deliveries assigned to you' })
+  @ApiResponse({ status: 200, type: [SelfDeliveryResponseDto] })
+  async getDeliveries(
+    @GetUser() user: User,
+  ): Promise<SelfDeliveryResponseDto[]> {
+    return await this.deliveryFleetService.getRiderDeliveries(user.id);
+  }
+
+  @Post(':id/status')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Post a status update for one of your deliveries' })
+  @ApiParam({ name: 'id', description: 'Delivery ID' })
+  @ApiResponse({ status: 200, type: SelfDeliveryResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Status would move the delivery backwards',
+  })
+  @ApiResponse({ status: 404, description: 'Not a delivery assigned to you' })
+  async updateStatus(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RiderStatusUpdateDto,
+  ): Promise<SelfDeliveryResponseDto> {
+    return await this.deliveryFleetService.updateStatusAsRider(
+      user.id,
+      id,
+      dto,
+    );
+  }
+
+  @Post(':id/proof')
+  @ApiOperation({
+    summary: 'Upload a handover photo or signature for one of your deliveries',
+  })
+  @ApiParam({ name: 'id', description: 'Delivery ID' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ schema: DELIVERY_PROOF_UPLOAD_SCHEMA })
+  @UseInterceptors(
+    FileFieldsInterceptor(
+      DELIVERY_PROOF_UPLOAD_FIELDS,
+      DELIVERY_PROOF_UPLOAD_OPTIONS,
+    ),
+  )
+  @ApiResponse({ status: 201, type: SelfDeliveryResponseDto })
+  @ApiResponse({ status: 404, description: 'Not a delivery assigned to you' })
+  async attachProof(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @UploadedFiles()
+    files: {
+      photo?: Express.Multer.File[];
+      signature?: Express.Multer.File[];
+    },
+    @Body() dto: DeliveryProofUploadDto,
+  ): Promise<SelfDeliveryResponseDto> {
+    return await this.deliveryFleetService.attachProofAsRider(
+      user.id,
+      id,
+      { photo: files?.photo?.[0], signature: files?.signature?.[0] },
+      dto,
+    );
+  }
+}
@@ -0,0 +1,230 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/modules/auth/guards/jwt-auth.guard';
+import { GetUser } from '@/common/decorators/get-user.decorator';
+import { AccessControl } from '@/common/guards';
+import { User, UserType } from '@/entities';
+import { DeliveryFleetService } from '../services/delivery-fleet.service';
+import {
+  AssignRiderDto,
+  CreateDeliveryRiderDto,
+  CreateDeliveryZoneDto,
+  DeliveryRiderResponseDto,
+  DeliveryZoneResponseDto,
+  DELIVERY_PROOF_UPLOAD_FIELDS,
+  DELIVERY_PROOF_UPLOAD_OPTIONS,
+  DELIVERY_PROOF_UPLOAD_SCHEMA,
+  DeliveryProofUploadDto,
+  RiderStatusUpdateDto,
+  SelfDeliveryResponseDto,
+  UpdateDeliveryRiderDto,
+  UpdateDeliveryZoneDto,
+} from '../dto';
+
+@ApiTags('Vendor Self Delivery')
+@Controller('vendor/delivery')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class VendorDeliveryController {
+  constructor(private readonly deliveryFleetService: DeliveryFleetService) {}
+
+  @Get('zones')
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({
+    summary: 'List the zones you deliver to with your own riders',
+  })
+  @ApiResponse({ status: 200, type: [DeliveryZoneResponseDto] })
+  async getZones(@GetUser() user: User): Promise<DeliveryZoneResponseDto[]> {
+    return await this.deliveryFleetService.getZones(user.id);
+  }
+
+  @Post('zones')
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({
+    summary: 'Add a delivery zone with a flat or distance-based fee',
+  })
+  @ApiResponse({ status: 201, type: DeliveryZoneResponseDto })
+  async createZone(
+    @GetUser() user: User,
+    @Body() dto: CreateDeliveryZoneDto,
+  ): Promise<DeliveryZoneResponseDto> {
+    return await this.deliveryFleetService.createZone(user.id, dto);
+  }
+
+  @Put('zones/:id')
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({ summary: 'Update a delivery zone' })
+  @ApiParam({ name: 'id', description: 'Zone ID' })
+  @ApiResponse({ status: 200, type: DeliveryZoneResponseDto })
+  async updateZone(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateDeliveryZoneDto,
+  ): Promise<DeliveryZoneResponseDto> {
+    return await this.deliveryFleetService.updateZone(user.id, id, dto);
+  }
+
+  @Delete('zones/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({ summary: 'Remove a delivery zone' })
+  @ApiParam({ name: 'id', description: 'Zone ID' })
+  @ApiResponse({ status: 204, description: 'Zone removed' })
+  async deleteZone(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.deliveryFleetService.deleteZone(user.id, id);
+  }
+
+  @Get('riders')
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({ summary: 'List your riders' })
+  @ApiResponse({ status: 200, type: [DeliveryRiderResponseDto] })
+  async getRiders(@GetUser() user: User): Promise<DeliveryRiderResponseDto[]> {
+    return await this.deliveryFleetService.getRiders(user.id);
+  }
+
+  @Post('riders')
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({ summary: 'Add a rider' })
+  @ApiResponse({ status: 201, type: DeliveryRiderResponseDto })
+  @ApiResponse({ status: 400, description: 'No account uses the rider email' })
+  async createRider(
+    @GetUser() user: User,
+    @Body() dto: CreateDeliveryRiderDto,
+  ): Promise<DeliveryRiderResponseDto> {
+    return await this.deliveryFleetService.createRider(user.id, dto);
+  }
+
+  @Put('riders/:id')
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({ summary: 'Update a rider' })
+  @ApiParam({ name: 'id', description: 'Rider ID' })
+  @ApiResponse({ status: 200, type: DeliveryRiderResponseDto })
+  async updateRider(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateDeliveryRiderDto,
+  ): Promise<DeliveryRiderResponseDto> {
+    return await this.deliveryFleetService.updateRider(user.id, id, dto);
+  }
+
+  @Delete('riders/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({ summary: 'Remove a rider with no open deliveries' })
+  @ApiParam({ name: 'id', description: 'Rider ID' })
+  @ApiResponse({ status: 204, description: 'Rider removed' })
+  async deleteRider(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.deliveryFleetService.deleteRider(user.id, id);
+  }
+
+  @Get('orders')
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({ summary: 'List your self-deliveries still on the road' })
+  @ApiResponse({ status: 200, type: [SelfDeliveryResponseDto] })
+  async getOpenDeliveries(
+    @GetUser() user: User,
+  ): Promise<SelfDeliveryResponseDto[]> {
+    return await this.deliveryFleetService.getOpenDeliveries(user.id);
+  }
+
+  @Put('orders/:orderId/rider')
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({ summary: 'Assign or reassign the rider delivering an order' })
+  @ApiParam({ name: 'orderId', description: 'Order ID' })
+  @ApiResponse({ status: 200, type: SelfDeliveryResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Order is not self-delivered or already closed',
+  })
+  async assignRider(
+    @GetUser() user: User,
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+    @Body() dto: AssignRiderDto,
+  ): Promise<SelfDeliveryResponseDto> {
+    return await this.deliveryFleetService.assignRider(
+      user.id,
+      orderId,
+      dto.rider_id,
+    );
+  }
+
+  @Post('orders/:orderId/status')
+  @HttpCode(HttpStatus.OK)
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({ summary: 'Post a status update on behalf of the rider' })
+  @ApiParam({ name: 'orderId', description: 'Order ID' })
+  @ApiResponse({ status: 200, type: SelfDeliveryResponseDto })
+  async updateStatus(
+    @GetUser() user: User,
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+    @Body() dto: RiderStatusUpdateDto,
+  ): Promise<SelfDeliveryResponseDto> {
+    return await this.deliveryFleetService.updateStatusAsVendor(
+      user.id,
+      orderId,
+      dto,
+    );
+  }
+
+  @Post('orders/:orderId/proof')
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({
+    summary: 'Upload a handover photo or signature on behalf of the rider',
+  })
+  @ApiParam({ name: 'orderId', description: 'Order ID' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ schema: DELIVERY_PROOF_UPLOAD_SCHEMA })
+  @UseInterceptors(
+    FileFieldsInterceptor(
+      DELIVERY_PROOF_UPLOAD_FIELDS,
+      DELIVERY_PROOF_UPLOAD_OPTIONS,
+    ),
+  )
+  @ApiResponse({ status: 201, type: SelfDeliveryResponseDto })
+  async attachProof(
+    @GetUser() user: User,
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+    @UploadedFiles()
+    files: {
+      photo?: Express.Multer.File[];
+      signature?: Express.Multer.File[];
+    },
+    @Body() dto: DeliveryProofUploadDto,
+  ): Promise<SelfDeliveryResponseDto> {
+    return await this.deliveryFleetService.attachProofAsVendor(
+      user.id,
+      orderId,
+      { photo: files?.photo?.[0], signature: files?.signature?.[0] },
+      dto,
+    );
+  }
+}
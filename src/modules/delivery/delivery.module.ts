@@ -9,8 +9,25 @@ import { DeliveryProviderSelectorService } from './services/delivery-provider-se
 import { DeliveryQuoteService } from './services/delivery-quote.service';
 import { DeliveryController } from './controllers/delivery.controller';
 import { DeliveryWebhookController } from './controllers/delivery-webhook.controller';
+import { VendorDeliveryController } from './controllers/vendor-delivery.controller';
+import { RiderDeliveryController } from './controllers/rider-delivery.controller';
+import { PublicTrackingController } from './controllers/public-tracking.controller';
+import { AdminDeliveryController } from './controllers/admin-delivery.controller';
+import { SelfDeliveryService } from './services/self-delivery.service';
+import { DeliveryFleetService } from './services/delivery-fleet.service';
+import { DeliveryRateShoppingService } from './services/delivery-rate-shopping.service';
+import { DeliveryFailoverService } from './services/delivery-failover.service';
+import { DeliveryLiveTrackingService } from './services/delivery-live-tracking.service';
+import { DeliveryProofService } from './services/delivery-proof.service';
 import { DeliveryRepository } from './repositories/delivery.repository';
-import { Delivery, DeliveryTracking, Address, Order } from 'src/entities';
+import {
+  Delivery,
+  DeliveryTracking,
+  Address,
+  Order,
+  VendorDeliveryZone,
+  DeliveryRider,
+} from 'src/entities';
 import { DeliveryQuote } from 'src/entities/delivery-quote.entity';
 import { ConfigModule } from '@nestjs/config';
 import { AuthModule } from 'src/modules/auth/auth.module';
@@ -18,10 +35,23 @@ import { UserModule } from 'src/modules/user/user.module';
 import { CartModule } from 'src/modules/cart/cart.module';
 import { VendorModule } from 'src/modules/vendor/vendor.module';
 import { NotificationModule } from 'src/modules/notification/notification.module';
+import { OrderModule } from 'src/modules/order/order.module';
+import { WebhookModule } from 'src/modules/webhook/webhook.module';
+import { LedgerModule } from 'src/modules/ledger/ledger.module';
+import { FileStorageModule } from 'src/modules/file-storage/file-storage.module';
+import { DeliveryWebhookProcessor } from './queues/delivery-webhook.processor';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Delivery, DeliveryTracking, Address, DeliveryQuote, Order]),
+    TypeOrmModule.forFeature([
+      Delivery,
+      DeliveryTracking,
+      Address,
+      DeliveryQuote,
+      Order,
+      VendorDeliveryZone,
+      DeliveryRider,
+    ]),
     HttpModule.register({
       timeout: 30000, // 30 seconds timeout
       maxRedirects: 5,
@@ -33,18 +63,36 @@ import { NotificationModule } from 'src/modules/notification/notification.module
     forwardRef(() => CartModule), // Import CartModule to get access to CartService
     forwardRef(() => VendorModule), // Import VendorModule to get access to VendorService
     NotificationModule, // Import NotificationModule to get access to NotificationService and NotificationSSEService
+    forwardRef(() => OrderModule), // Import OrderModule to record order status history
+    WebhookModule, // Import WebhookModule to store inbound webhooks and process them from the queue
+    LedgerModule, // Import LedgerModule to post vendor-paid failover costs
+    FileStorageModule, // Import FileStorageModule to store proof of delivery images
     
   ],
-  controllers: [DeliveryController, DeliveryWebhookController],
+  controllers: [
+    DeliveryController,
+    DeliveryWebhookController,
+    VendorDeliveryController,
+    RiderDeliveryController,
+    PublicTrackingController,
+    AdminDeliveryController,
+  ],
   providers: [
     DeliveryService,
     ShipbubbleDeliveryService,
     UberDeliveryService,
+    SelfDeliveryService,
+    DeliveryFleetService,
     DeliveryProviderFactoryService,
     DeliveryProviderSelectorService,
     DeliveryQuoteService,
+    DeliveryRateShoppingService,
+    DeliveryFailoverService,
+    DeliveryLiveTrackingService,
+    DeliveryProofService,
     DeliveryRepository,
+    DeliveryWebhookProcessor,
   ],
-  exports: [DeliveryService, DeliveryProviderFactoryService, DeliveryProviderSelectorService, ShipbubbleDeliveryService, UberDeliveryService, DeliveryQuoteService],
+  exports: [DeliveryService, DeliveryFailoverService, DeliveryLiveTrackingService, DeliveryProviderFactoryService, DeliveryProviderSelectorService, ShipbubbleDeliveryService, UberDeliveryService, DeliveryQuoteService],
 })
 export class DeliveryModule {}
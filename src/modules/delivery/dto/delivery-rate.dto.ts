@@ -736,6 +736,17 @@ export class UberDirectPickupVerificationDto {
   signature?: boolean;
 }
 
+export class UberDirectPincodeVerificationDto {
+  @ApiProperty({ description: 'Require the courier to enter a PIN' })
+  @IsBoolean()
+  enabled: boolean;
+
+  @ApiProperty({ description: 'PIN the recipient gives the courier', required: false })
+  @IsString()
+  @IsOptional()
+  value?: string;
+}
+
 export class UberDirectDropoffVerificationDto {
   @ApiProperty({ description: 'Require picture verification', required: false })
   @IsBoolean()
@@ -761,6 +772,12 @@ export class UberDirectDropoffVerificationDto {
   @IsBoolean()
   @IsOptional()
   pin?: boolean;
+
+  @ApiProperty({ description: 'Require a PIN chosen by us', type: UberDirectPincodeVerificationDto, required: false })
+  @ValidateNested()
+  @Type(() => UberDirectPincodeVerificationDto)
+  @IsOptional()
+  pincode?: UberDirectPincodeVerificationDto;
 }
 
 export class UberDirectReturnVerificationDto {
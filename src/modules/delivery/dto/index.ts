@@ -5,9 +5,14 @@ export * from './create-shipment.dto';
 export * from './create-delivery.dto';
 export * from './delivery-response.dto';
 export * from './webhook.dto';
+export * from './self-delivery.dto';
+export * from './rate-shopping.dto';
+export * from './live-tracking.dto';
+export * from './proof-of-delivery.dto';
 
 // Re-export interfaces
 export * from '../interfaces/base-delivery-provider.interface';
 export * from '../interfaces/shipbubble-provider.interface';
 export * from '../interfaces/uber-provider.interface';
-export * from '../interfaces/delivery-provider-factory.interface';
\ No newline at end of file
+export * from '../interfaces/delivery-provider-factory.interface';
+export * from '../interfaces/self-delivery-provider.interface';
@@ -0,0 +1,79 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DeliveryProvider, OrderStatus, ShipmentStatus } from 'src/entities';
+
+export class DeliveryTimelineEventDto {
+  @ApiProperty({ enum: ShipmentStatus })
+  status: ShipmentStatus;
+
+  @ApiProperty({ example: 'Your order has been picked up by the rider' })
+  description: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  location: string | null;
+
+  @ApiProperty()
+  timestamp: Date;
+}
+
+export class CourierLocationDto {
+  @ApiProperty()
+  latitude: number;
+
+  @ApiProperty()
+  longitude: number;
+
+  @ApiProperty({ description: 'When the courier was at this position' })
+  updated_at: Date;
+}
+
+export class OrderTrackingResponseDto {
+  @ApiProperty()
+  order_id: string;
+
+  @ApiProperty()
+  order_number: string;
+
+  @ApiProperty({ enum: OrderStatus })
+  order_status: OrderStatus;
+
+  @ApiPropertyOptional({ enum: DeliveryProvider, nullable: true })
+  provider: DeliveryProvider | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  tracking_number: string | null;
+
+  @ApiPropertyOptional({
+    enum: ShipmentStatus,
+    nullable: true,
+    description: 'Null until a delivery has been booked',
+  })
+  status: ShipmentStatus | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  courier_name: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  courier_phone: string | null;
+
+  @ApiPropertyOptional({ type: CourierLocationDto, nullable: true })
+  courier_location: CourierLocationDto | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  estimated_delivery: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  delivered_at: Date | null;
+
+  @ApiProperty({
+    type: [DeliveryTimelineEventDto],
+    description: 'Oldest first',
+  })
+  timeline: DeliveryTimelineEventDto[];
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description:
+      'Gift orders, for the customer only: public link to share with the recipient',
+  })
+  share_url?: string | null;
+}
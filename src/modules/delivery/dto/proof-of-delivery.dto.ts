@@ -0,0 +1,232 @@
+import { BadRequestException } from '@nestjs/common';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MulterOptions } from '@nestjs/platform-express/multer/interfaces/multer-options.interface';
+import { Type } from 'class-transformer';
+import {
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  DeliveryProvider,
+  OrderStatus,
+  OrderStatusActor,
+  ShipmentStatus,
+} from 'src/entities';
+
+// Proof uploads: a photo and a signature image, up to 5MB each
+export const DELIVERY_PROOF_UPLOAD_OPTIONS: MulterOptions = {
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new BadRequestException('Proof must be an image'), false);
+    }
+  },
+};
+
+export const DELIVERY_PROOF_UPLOAD_FIELDS = [
+  { name: 'photo', maxCount: 1 },
+  { name: 'signature', maxCount: 1 },
+];
+
+// Swagger schema for the multipart proof upload
+export const DELIVERY_PROOF_UPLOAD_SCHEMA = {
+  type: 'object',
+  properties: {
+    photo: { type: 'string', format: 'binary' },
+    signature: { type: 'string', format: 'binary' },
+    recipient_name: { type: 'string' },
+    latitude: { type: 'number' },
+    longitude: { type: 'number' },
+  },
+};
+
+/**
+ * Text fields sent with a rider's proof photo or signature. The request is
+ * multipart, so numbers arrive as strings.
+ */
+export class DeliveryProofUploadDto {
+  @ApiPropertyOptional({ description: 'Who took the order', example: 'Ada' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  recipient_name?: string;
+
+  @ApiPropertyOptional({ description: 'Latitude at handover' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @ApiPropertyOptional({ description: 'Longitude at handover' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+}
+
+export class DeliveryProofDto {
+  @ApiPropertyOptional({ nullable: true })
+  photo_url: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  signature_url: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  recipient_name: string | null;
+
+  @ApiProperty({ description: 'Whether the order had a delivery PIN' })
+  pin_required: boolean;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: 'Null when no PIN was required or the provider did not say',
+  })
+  pin_verified: boolean | null;
+
+  @ApiProperty({ description: 'Wrong PINs entered by the rider' })
+  pin_attempts: number;
+
+  @ApiPropertyOptional({ nullable: true })
+  latitude: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  longitude: number | null;
+
+  @ApiPropertyOptional({ nullable: true, description: 'When proof was taken' })
+  captured_at: Date | null;
+}
+
+export class DeliveryEvidenceEventDto {
+  @ApiProperty({ description: 'Status as the provider or rider sent it' })
+  status: string;
+
+  @ApiProperty()
+  description: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  location: string | null;
+
+  @ApiProperty()
+  timestamp: Date;
+
+  @ApiPropertyOptional({ nullable: true })
+  provider_data: Record<string, any> | null;
+}
+
+export class DeliveryEvidenceAttemptDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  attempt_number: number;
+
+  @ApiProperty({ enum: DeliveryProvider })
+  provider: DeliveryProvider;
+
+  @ApiPropertyOptional({ nullable: true })
+  tracking_number: string | null;
+
+  @ApiProperty({ enum: ShipmentStatus })
+  status: ShipmentStatus;
+
+  @ApiPropertyOptional({ nullable: true })
+  failure_reason: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  courier_name: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  courier_phone: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  rider_id: string | null;
+
+  @ApiProperty({ description: 'Drop-off address the courier was given' })
+  destination_address: Record<string, any>;
+
+  @ApiPropertyOptional({ nullable: true })
+  actual_delivery: Date | null;
+
+  @ApiProperty({ type: DeliveryProofDto })
+  proof: DeliveryProofDto;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: 'Proof as the provider sent it',
+  })
+  proof_data: Record<string, any> | null;
+
+  @ApiProperty({
+    type: [DeliveryEvidenceEventDto],
+    description: 'Oldest first',
+  })
+  tracking_events: DeliveryEvidenceEventDto[];
+
+  @ApiProperty()
+  created_at: Date;
+}
+
+export class DeliveryEvidenceStatusChangeDto {
+  @ApiPropertyOptional({ enum: OrderStatus, nullable: true })
+  from_status: OrderStatus | null;
+
+  @ApiProperty({ enum: OrderStatus })
+  to_status: OrderStatus;
+
+  @ApiProperty({ enum: OrderStatusActor })
+  actor_type: OrderStatusActor;
+
+  @ApiPropertyOptional({ nullable: true })
+  actor_id: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  reason: string | null;
+
+  @ApiProperty()
+  created_at: Date;
+}
+
+export class DeliveryEvidenceResponseDto {
+  @ApiProperty()
+  order_id: string;
+
+  @ApiProperty()
+  order_number: string;
+
+  @ApiProperty({ enum: OrderStatus })
+  order_status: OrderStatus;
+
+  @ApiProperty()
+  customer_id: string;
+
+  @ApiProperty()
+  vendor_id: string;
+
+  @ApiProperty()
+  total_amount: number;
+
+  @ApiProperty()
+  currency: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  delivered_at: Date | null;
+
+  @ApiProperty({
+    type: [DeliveryEvidenceAttemptDto],
+    description: 'Every delivery attempt, first attempt first',
+  })
+  attempts: DeliveryEvidenceAttemptDto[];
+
+  @ApiProperty({ type: [DeliveryEvidenceStatusChangeDto] })
+  status_history: DeliveryEvidenceStatusChangeDto[];
+}
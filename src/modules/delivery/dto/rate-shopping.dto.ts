@@ -0,0 +1,79 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DeliveryProvider } from 'src/entities';
+
+export enum DeliveryRatePolicy {
+  CHEAPEST = 'cheapest',
+  FASTEST = 'fastest',
+  // Highest share of deliveries completed over the reliability window
+  RELIABILITY = 'reliability',
+}
+
+export class DeliveryRateCandidateDto {
+  @ApiProperty({
+    description:
+      'Delivery quote ID; pass as delivery_quote_id to order with this rate',
+  })
+  delivery_id: string;
+
+  @ApiProperty({ enum: DeliveryProvider })
+  provider: DeliveryProvider;
+
+  @ApiPropertyOptional({
+    description: 'Courier or service shown to the customer',
+  })
+  courier_name?: string;
+
+  @ApiProperty()
+  fee: number;
+
+  @ApiProperty()
+  currency: string;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: 'When the provider expects to drop off',
+  })
+  estimated_delivery_time: Date | null;
+
+  @ApiProperty({
+    description: 'Share of recent deliveries the provider completed, 0 to 1',
+  })
+  reliability_score: number;
+
+  @ApiProperty({ description: '1 for the best candidate under the policy' })
+  rank: number;
+
+  @ApiProperty()
+  selected: boolean;
+}
+
+export class UnavailableDeliveryProviderDto {
+  @ApiProperty({ enum: DeliveryProvider })
+  provider: DeliveryProvider;
+
+  @ApiProperty({ example: 'Timed out after 8000ms' })
+  reason: string;
+}
+
+export class DeliveryRateShoppingResponseDto {
+  @ApiProperty({ description: 'Fee of the selected candidate' })
+  fee: number;
+
+  @ApiProperty({ description: 'Delivery quote ID of the selected candidate' })
+  delivery_id: string;
+
+  @ApiProperty({ enum: DeliveryRatePolicy })
+  policy: DeliveryRatePolicy;
+
+  @ApiProperty({ example: 'cheapest: 1500 NGN, lowest of 2 quotes' })
+  selection_reason: string;
+
+  @ApiProperty({
+    type: [DeliveryRateCandidateDto],
+    description: 'Every quote received, best first',
+  })
+  candidates: DeliveryRateCandidateDto[];
+
+  @ApiProperty({ type: [UnavailableDeliveryProviderDto] })
+  unavailable_providers: UnavailableDeliveryProviderDto[];
+}
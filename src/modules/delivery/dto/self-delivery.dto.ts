@@ -0,0 +1,271 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEmail,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { DeliveryFeeType, ShipmentStatus } from 'src/entities';
+import { DeliveryProofDto } from './proof-of-delivery.dto';
+
+export class CreateDeliveryZoneDto {
+  @ApiProperty({
+    description: 'Zone name shown to the vendor',
+    example: 'Within 5km',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Furthest distance from the vendor, in km',
+    example: 5,
+  })
+  @IsNumber()
+  @Min(0.1)
+  @Max(9999)
+  max_distance_km: number;
+
+  @ApiProperty({
+    enum: DeliveryFeeType,
+    description: 'Flat fee or base fee plus a per-km rate',
+  })
+  @IsEnum(DeliveryFeeType)
+  fee_type: DeliveryFeeType;
+
+  @ApiProperty({
+    description: 'Flat fee, or the base of a distance-based fee',
+    example: 1500,
+  })
+  @IsNumber()
+  @Min(0)
+  base_fee: number;
+
+  @ApiPropertyOptional({
+    description: 'Charged per km for distance-based fees',
+    example: 200,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  per_km_fee?: number;
+
+  @ApiPropertyOptional({
+    description: 'Smallest order subtotal delivered in this zone',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  min_order_amount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Typical minutes from dispatch to doorstep',
+    default: 45,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1440)
+  estimated_minutes?: number;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean;
+}
+
+export class UpdateDeliveryZoneDto extends PartialType(CreateDeliveryZoneDto) {}
+
+export class DeliveryZoneResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  max_distance_km: number;
+
+  @ApiProperty({ enum: DeliveryFeeType })
+  fee_type: DeliveryFeeType;
+
+  @ApiProperty()
+  base_fee: number;
+
+  @ApiProperty()
+  per_km_fee: number;
+
+  @ApiPropertyOptional({ nullable: true })
+  min_order_amount: number | null;
+
+  @ApiProperty()
+  estimated_minutes: number;
+
+  @ApiProperty()
+  is_active: boolean;
+}
+
+export class CreateDeliveryRiderDto {
+  @ApiProperty({ example: 'Musa Ibrahim' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ example: '+2348012345678' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  phone_number: string;
+
+  @ApiPropertyOptional({ example: 'Red motorbike, LAG-123-XY' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  vehicle_description?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Email of the rider's account, so they can post status updates themselves",
+  })
+  @IsOptional()
+  @IsEmail()
+  user_email?: string;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean;
+}
+
+export class UpdateDeliveryRiderDto extends PartialType(
+  CreateDeliveryRiderDto,
+) {}
+
+export class DeliveryRiderResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  phone_number: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  vehicle_description: string | null;
+
+  @ApiProperty({ description: 'Whether the rider can post their own updates' })
+  has_account: boolean;
+
+  @ApiProperty()
+  is_active: boolean;
+}
+
+export class AssignRiderDto {
+  @ApiProperty({ description: 'One of your active riders' })
+  @IsUUID()
+  rider_id: string;
+}
+
+export const RIDER_STATUS_UPDATES = [
+  ShipmentStatus.PICKED_UP,
+  ShipmentStatus.OUT_FOR_DELIVERY,
+  ShipmentStatus.DELIVERED,
+  ShipmentStatus.FAILED,
+] as const;
+
+export class RiderStatusUpdateDto {
+  @ApiProperty({ enum: RIDER_STATUS_UPDATES })
+  @IsIn(RIDER_STATUS_UPDATES)
+  status: (typeof RIDER_STATUS_UPDATES)[number];
+
+  @ApiPropertyOptional({
+    description: 'Shown to the customer; required when the delivery failed',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+
+  @ApiPropertyOptional({
+    description: 'Where the rider is, in words',
+    example: 'Admiralty Way, Lekki',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  location?: string;
+
+  @ApiPropertyOptional({ description: 'Latitude' })
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @ApiPropertyOptional({ description: 'Longitude' })
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Required to mark delivered when the customer set a delivery PIN',
+    example: '4821',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(6)
+  pin?: string;
+}
+
+export class SelfDeliveryResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  order_id: string;
+
+  @ApiPropertyOptional()
+  order_number?: string;
+
+  @ApiProperty()
+  tracking_number: string;
+
+  @ApiProperty({ enum: ShipmentStatus })
+  status: ShipmentStatus;
+
+  @ApiPropertyOptional({ type: DeliveryRiderResponseDto, nullable: true })
+  rider: DeliveryRiderResponseDto | null;
+
+  @ApiProperty({ description: 'Drop-off address' })
+  destination_address: Record<string, any>;
+
+  @ApiProperty()
+  estimated_delivery: Date;
+
+  @ApiPropertyOptional({ nullable: true })
+  actual_delivery: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  failure_reason: string | null;
+
+  @ApiProperty({ type: DeliveryProofDto })
+  proof: DeliveryProofDto;
+
+  @ApiProperty()
+  created_at: Date;
+}
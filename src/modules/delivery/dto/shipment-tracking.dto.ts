@@ -55,6 +55,18 @@ export class ShipmentTrackingResponseDto {
   @IsOptional()
   courier?: string;
 
+  @ApiProperty({ description: 'Courier phone number', required: false })
+  @IsString()
+  @IsOptional()
+  courierPhone?: string;
+
+  @ApiProperty({ description: 'Last known courier position', required: false })
+  @IsOptional()
+  courierCoordinates?: {
+    latitude: number;
+    longitude: number;
+  };
+
   @ApiProperty({ description: 'Service type', required: false })
   @IsString()
   @IsOptional()
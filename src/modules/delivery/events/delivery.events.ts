@@ -0,0 +1,21 @@
+import { Delivery } from 'src/entities';
+
+export const DELIVERY_EVENTS = {
+  TRACKING_UPDATED: 'delivery.tracking_updated',
+} as const;
+
+/**
+ * Published whenever a delivery's status, courier or position changes, from
+ * a provider webhook, a provider poll or a vendor's rider
+ */
+export class DeliveryTrackingUpdatedEvent {
+  readonly delivery_id: string;
+  readonly order_id: string;
+  readonly occurred_at: Date;
+
+  constructor(delivery: Delivery) {
+    this.delivery_id = delivery.id;
+    this.order_id = delivery.order_id;
+    this.occurred_at = new Date();
+  }
+}
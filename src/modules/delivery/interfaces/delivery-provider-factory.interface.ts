@@ -1,5 +1,7 @@
 import { ShipbubbleProviderInterface } from './shipbubble-provider.interface';
 import { UberProviderInterface } from './uber-provider.interface';
+import { SelfDeliveryProviderInterface } from './self-delivery-provider.interface';
+import { DeliveryProvider } from 'src/entities';
 
 /**
  * Delivery provider factory interface for geographic-based routing
@@ -24,6 +26,21 @@ export interface DeliveryProviderFactoryInterface {
    */
   getUberProvider(): UberProviderInterface;
 
+  /**
+   * Get self-delivery provider (vendor's own riders)
+   * @returns SelfDeliveryProviderInterface
+   */
+  getSelfDeliveryProvider(): SelfDeliveryProviderInterface;
+
+  /**
+   * Get the provider a delivery or quote was made with
+   * @param provider Delivery provider
+   * @returns ShipbubbleProviderInterface | UberProviderInterface | SelfDeliveryProviderInterface
+   */
+  getProvider(
+    provider: DeliveryProvider,
+  ): ShipbubbleProviderInterface | UberProviderInterface | SelfDeliveryProviderInterface;
+
   /**
    * Check if country is supported by any provider
    * @param country Country code
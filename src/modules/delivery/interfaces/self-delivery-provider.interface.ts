@@ -0,0 +1,71 @@
+import { Delivery, DeliveryQuote } from 'src/entities';
+import { BaseDeliveryProviderInterface } from './base-delivery-provider.interface';
+import { DeliveryWebhookDto, ShipmentTrackingResponseDto } from '../dto';
+
+/**
+ * Quote for a delivery by the vendor's own riders
+ */
+export interface SelfDeliveryQuote {
+  zone_id: string;
+  zone_name: string;
+  fee: number;
+  distance_km: number;
+  estimated_minutes: number;
+}
+
+/**
+ * Vendor-run delivery provider. Fees come from the vendor's delivery zones
+ * and tracking from the status updates its riders post.
+ */
+export interface SelfDeliveryProviderInterface
+  extends BaseDeliveryProviderInterface {
+  /**
+   * Quote a delivery from the vendor to an address
+   * @param vendorId Vendor ID
+   * @param origin Vendor coordinates
+   * @param destination Customer coordinates
+   * @param subtotal Order subtotal, checked against zone minimums
+   * @returns Promise<SelfDeliveryQuote | null> null when no zone covers the address
+   */
+  getDeliveryQuote(
+    vendorId: string,
+    origin: { latitude: number; longitude: number },
+    destination: { latitude: number; longitude: number },
+    subtotal: number,
+  ): Promise<SelfDeliveryQuote | null>;
+
+  /**
+   * Book a delivery; riders are assigned afterwards by the vendor
+   * @param deliveryQuote Self-delivery quote the customer accepted
+   * @param orderId Order ID
+   * @param attemptNumber Which delivery attempt for the order this is
+   * @returns Promise<Delivery>
+   */
+  createDelivery(
+    deliveryQuote: DeliveryQuote,
+    orderId: string,
+    attemptNumber?: number,
+  ): Promise<Delivery>;
+
+  /**
+   * Track a delivery from its recorded rider updates
+   * @param trackingNumber Tracking number
+   * @returns Promise<ShipmentTrackingResponseDto>
+   */
+  trackShipment(trackingNumber: string): Promise<ShipmentTrackingResponseDto>;
+
+  /**
+   * Cancel a delivery that hasn't been picked up
+   * @param trackingNumber Tracking number
+   * @returns Promise<boolean>
+   */
+  cancelShipment(trackingNumber: string): Promise<boolean>;
+
+  /**
+   * Self-delivery has no provider webhooks; updates come from riders
+   * @param payload Webhook payload
+   * @param signature Webhook signature
+   * @returns Promise<DeliveryWebhookDto>
+   */
+  processWebhook(payload: any, signature: string): Promise<DeliveryWebhookDto>;
+}
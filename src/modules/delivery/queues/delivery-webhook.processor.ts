@@ -0,0 +1,35 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Job } from 'bull';
+import { DeliveryProvider, WebhookSource } from 'src/entities';
+import { WebhookInboxService } from 'src/modules/webhook/services/webhook-inbox.service';
+import {
+  WEBHOOK_EVENTS_QUEUE,
+  WEBHOOK_WORKER_CONCURRENCY,
+  WebhookJobData,
+} from 'src/modules/webhook/queues/webhook-queue.constants';
+import { DeliveryWebhookDto } from '../dto';
+import { DeliveryService } from '../services/delivery.service';
+
+/**
+ * Applies stored delivery provider webhooks to their orders
+ */
+@Processor(WEBHOOK_EVENTS_QUEUE)
+export class DeliveryWebhookProcessor {
+  constructor(
+    private readonly webhookInbox: WebhookInboxService,
+    private readonly deliveryService: DeliveryService,
+  ) {}
+
+  @Process({
+    name: WebhookSource.DELIVERY,
+    concurrency: WEBHOOK_WORKER_CONCURRENCY,
+  })
+  async process(job: Job<WebhookJobData>): Promise<void> {
+    await this.webhookInbox.process(job.data.webhookEventId, async event => {
+      await this.deliveryService.applyWebhookResult(
+        event.provider as DeliveryProvider,
+        event.normalized_payload as DeliveryWebhookDto,
+      );
+    });
+  }
+}
@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, IsNull, LessThan, Not, Repository } from 'typeorm';
 import { Delivery, ShipmentStatus, DeliveryProvider } from 'src/entities';
 
 @Injectable()
@@ -28,7 +28,7 @@ export class DeliveryRepository {
   async findById(id: string): Promise<Delivery | null> {
     return await this.deliveryRepository.findOne({
       where: { id },
-      relations: ['order', 'trackingEvents'],
+      relations: ['order', 'tracking_events'],
     });
   }
 
@@ -56,6 +56,66 @@ export class DeliveryRepository {
     });
   }
 
+  /**
+   * Find the order's delivery that is still in progress, ignoring attempts
+   * that failed or were cancelled
+   * @param orderId Order ID
+   * @returns Promise<Delivery | null>
+   */
+  async findActiveByOrderId(orderId: string): Promise<Delivery | null> {
+    return await this.deliveryRepository.findOne({
+      where: {
+        order_id: orderId,
+        status: Not(In([ShipmentStatus.FAILED, ShipmentStatus.CANCELLED])),
+      },
+      relations: ['order', 'tracking_events'],
+      order: { attempt_number: 'DESC' },
+    });
+  }
+
+  /**
+   * Find the order's most recent delivery attempt, whatever its status
+   * @param orderId Order ID
+   * @returns Promise<Delivery | null>
+   */
+  async findLatestByOrderId(orderId: string): Promise<Delivery | null> {
+    return await this.deliveryRepository.findOne({
+      where: { order_id: orderId },
+      relations: ['order', 'tracking_events'],
+      order: { attempt_number: 'DESC', created_at: 'DESC' },
+    });
+  }
+
+  /**
+   * Find every delivery attempt for an order, first attempt first
+   * @param orderId Order ID
+   * @returns Promise<Delivery[]>
+   */
+  async findAttemptsByOrderId(orderId: string): Promise<Delivery[]> {
+    return await this.deliveryRepository.find({
+      where: { order_id: orderId },
+      order: { attempt_number: 'ASC', created_at: 'ASC' },
+    });
+  }
+
+  /**
+   * Find pending deliveries booked before the cutoff that still have no
+   * courier or rider
+   * @param bookedBefore Cutoff for when the delivery was booked
+   * @returns Promise<Delivery[]>
+   */
+  async findAwaitingCourier(bookedBefore: Date): Promise<Delivery[]> {
+    return await this.deliveryRepository.find({
+      where: {
+        status: ShipmentStatus.PENDING,
+        courier_assigned_at: IsNull(),
+        created_at: LessThan(bookedBefore),
+      },
+      relations: ['order'],
+      order: { created_at: 'ASC' },
+    });
+  }
+
   /**
    * Find deliveries by status
    * @param status Delivery status
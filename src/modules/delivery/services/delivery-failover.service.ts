@@ -0,0 +1,528 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, Repository } from 'typeorm';
+import {
+  Delivery,
+  DeliveryCostBearer,
+  DeliveryQuote,
+  LedgerAccountType,
+  NotificationPriority,
+  NotificationType,
+  Order,
+  OrderStatus,
+  OrderType,
+  ShipmentStatus,
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+  Vendor,
+  Wallet,
+} from 'src/entities';
+import { VendorService } from 'src/modules/vendor/services/vendor.service';
+import { InAppNotificationService } from 'src/modules/notification/services/in-app-notification.service';
+import { LedgerService } from 'src/modules/ledger/services/ledger.service';
+import { DeliveryResponseDto } from '../dto';
+import { DeliveryRepository } from '../repositories/delivery.repository';
+import { DeliveryService } from './delivery.service';
+import { DeliveryProviderFactoryService } from './delivery-provider-factory.service';
+import { DeliveryProviderSelectorService } from './delivery-provider-selector.service';
+import { DeliveryRateShoppingService } from './delivery-rate-shopping.service';
+import { DeliveryQuoteService } from './delivery-quote.service';
+
+const MINUTE_MS = 60 * 1000;
+
+// Longest a failover may hold an order before another can take over
+const FAILOVER_CLAIM_MS = 5 * MINUTE_MS;
+
+// Dispatch runs as the vendor marks the order ready, before the new status
+// is saved
+const DISPATCHABLE_STATUSES = [OrderStatus.PREPARING, OrderStatus.READY];
+
+const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+/**
+ * Keeps a ready order moving when its delivery provider lets it down: a
+ * rejected booking, or no courier taking the job in time, is re-quoted with
+ * the next provider on the route and booked again.
+ */
+@Injectable()
+export class DeliveryFailoverService {
+  private readonly logger = new Logger(DeliveryFailoverService.name);
+  private isProcessing = false;
+
+  constructor(
+    @InjectRepository(Order)
+    private readonly orderRepository: Repository<Order>,
+    private readonly deliveryRepository: DeliveryRepository,
+    private readonly deliveryService: DeliveryService,
+    private readonly providerFactory: DeliveryProviderFactoryService,
+    private readonly deliveryProviderSelector: DeliveryProviderSelectorService,
+    private readonly deliveryRateShoppingService: DeliveryRateShoppingService,
+    private readonly deliveryQuoteService: DeliveryQuoteService,
+    private readonly vendorService: VendorService,
+    private readonly inAppNotificationService: InAppNotificationService,
+    private readonly ledgerService: LedgerService,
+    private readonly configService: ConfigService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Book delivery for an order that is ready, failing over to another
+   * provider if the booking is rejected. Returns null when no provider
+   * could take it.
+   */
+  async dispatchOrder(
+    orderId: string,
+    deliveryQuoteId: string,
+  ): Promise<DeliveryResponseDto | null> {
+    try {
+      return await this.deliveryService.createDelivery(
+        deliveryQuoteId,
+        orderId,
+      );
+    } catch (error) {
+      return await this.failover(orderId, error.message);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processUnassignedDeliveries(): Promise<void> {
+    // A slow run must not overlap the next tick
+    if (this.isProcessing) {
+      return;
+    }
+    this.isProcessing = true;
+
+    try {
+      const minutes = this.configService.get<number>(
+        'deliveryFailover.courierAssignmentMinutes',
+        15,
+      );
+      const stale = await this.deliveryRepository.findAwaitingCourier(
+        new Date(Date.now() - minutes * MINUTE_MS),
+      );
+
+      for (const delivery of stale) {
+        if (!DISPATCHABLE_STATUSES.includes(delivery.order?.order_status)) {
+          continue;
+        }
+        try {
+          await this.abandonDelivery(
+            delivery,
+            `No courier assigned within ${minutes} minutes`,
+          );
+          await this.failover(delivery.order_id, delivery.failure_reason);
+        } catch (error) {
+          this.logger.error(
+            `Failover for delivery ${delivery.id} failed: ${error.message}`,
+            error.stack,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Unassigned delivery processing failed: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Re-quote the order with the providers not tried yet and book the best
+   * one that accepts. The customer keeps the delivery fee they paid; a
+   * dearer replacement is covered by the platform or the vendor. Only one
+   * failover runs per order: the dispatch path and the unassigned delivery
+   * sweep can both get here for the same order, and the second one stops.
+   */
+  async failover(
+    orderId: string,
+    reason: string,
+  ): Promise<DeliveryResponseDto | null> {
+    if (!(await this.claimFailover(orderId))) {
+      this.logger.log(`Failover for order ${orderId} is already running`);
+      return null;
+    }
+
+    try {
+      return await this.rebook(orderId, reason);
+    } finally {
+      await this.orderRepository.update(orderId, {
+        delivery_failover_until: null,
+      });
+    }
+  }
+
+  /**
+   * Take the order for a failover unless another one holds it
+   */
+  private async claimFailover(orderId: string): Promise<boolean> {
+    const now = new Date();
+    const claim = await this.orderRepository
+      .createQueryBuilder()
+      .update(Order)
+      .set({
+        delivery_failover_until: new Date(now.getTime() + FAILOVER_CLAIM_MS),
+      })
+      .where('id = :orderId', { orderId })
+      .andWhere(
+        '(delivery_failover_until IS NULL OR delivery_failover_until < :now)',
+        { now },
+      )
+      .execute();
+    return !!claim.affected;
+  }
+
+  private async rebook(
+    orderId: string,
+    reason: string,
+  ): Promise<DeliveryResponseDto | null> {
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId },
+      relations: ['order_items', 'order_items.menu_item'],
+    });
+    if (
+      !order ||
+      order.order_type !== OrderType.DELIVERY ||
+      !order.delivery_address_id ||
+      !DISPATCHABLE_STATUSES.includes(order.order_status)
+    ) {
+      return null;
+    }
+    // Nothing to replace if another booking is already under way
+    if (await this.deliveryRepository.findActiveByOrderId(orderId)) {
+      return null;
+    }
+
+    const vendor = await this.vendorService.getVendorById(order.vendor_id);
+    const attempts = await this.deliveryRepository.findAttemptsByOrderId(
+      orderId,
+    );
+    const maxAttempts = this.configService.get<number>(
+      'deliveryFailover.maxAttempts',
+      3,
+    );
+    const tried = new Set(attempts.map(attempt => attempt.provider));
+    // Self-delivery is offered whenever the vendor has zones; quoting it
+    // fails for addresses outside them
+    const candidates = this.deliveryProviderSelector
+      .getAvailableProviders(vendor.address?.country, {
+        selfDeliveryAvailable: true,
+      })
+      .filter(provider => !tried.has(provider));
+
+    let attemptCount = attempts.length;
+    let lastReason = reason;
+
+    if (candidates.length > 0 && attemptCount < maxAttempts) {
+      const shopping = await this.deliveryRateShoppingService.shopRates(
+        candidates,
+        provider =>
+          this.deliveryService.quoteDeliveryForAddress(
+            vendor,
+            order.customer_id,
+            order.delivery_address_id,
+            order.order_items || [],
+            Number(order.subtotal),
+            { provider, orderId: order.id },
+          ),
+      );
+
+      for (const { quote } of shopping.ranked) {
+        if (attemptCount >= maxAttempts) {
+          break;
+        }
+        attemptCount++;
+
+        await this.deliveryQuoteService.markQuoteAsSelected(
+          quote.id,
+          'system',
+          `failover: ${lastReason}`,
+        );
+        await this.orderRepository.update(order.id, {
+          delivery_quote_id: quote.id,
+        });
+
+        let result: DeliveryResponseDto;
+        try {
+          result = await this.deliveryService.createDelivery(
+            quote.id,
+            order.id,
+          );
+        } catch (error) {
+          lastReason = error.message;
+          continue;
+        }
+
+        const delivery = await this.deliveryRepository.findActiveByOrderId(
+          order.id,
+        );
+        const vendorCharge = await this.settlePriceDifference(
+          order,
+          vendor,
+          quote,
+          delivery,
+          attempts[attempts.length - 1],
+        );
+
+        this.logger.log(
+          `Order ${order.id} failed over to ${quote.provider} (attempt ${delivery.attempt_number}) after: ${lastReason}`,
+        );
+        await this.notifyFailover(order, vendor, quote, delivery, vendorCharge);
+        return result;
+      }
+    }
+
+    this.logger.warn(
+      `No delivery provider could take order ${order.id} after ${attemptCount} attempts: ${lastReason}`,
+    );
+    await this.notifyFailoverExhausted(order, vendor, lastReason);
+    return null;
+  }
+
+  /**
+   * Give up on a booking that no courier took: cancel it with the provider
+   * where possible and record why
+   */
+  private async abandonDelivery(
+    delivery: Delivery,
+    reason: string,
+  ): Promise<void> {
+    try {
+      await this.providerFactory
+        .getProvider(delivery.provider)
+        .cancelShipment(delivery.tracking_number);
+    } catch (error) {
+      this.logger.warn(
+        `Could not cancel ${delivery.provider} delivery ${delivery.tracking_number}: ${error.message}`,
+      );
+    }
+
+    delivery.markAsFailed(reason);
+    await this.deliveryRepository.updateStatus(
+      delivery.id,
+      ShipmentStatus.FAILED,
+      reason,
+    );
+  }
+
+  /**
+   * Record what the replacement costs over the fee the customer paid. When
+   * the vendor bears it they end up paying only for the replacement that
+   * is running, so what an earlier failover of the order took is settled
+   * against it. Returns what was taken from the vendor, negative when some
+   * was given back.
+   */
+  private async settlePriceDifference(
+    order: Order,
+    vendor: Vendor,
+    quote: DeliveryQuote,
+    delivery: Delivery,
+    previous: Delivery | undefined,
+  ): Promise<number> {
+    const difference = roundMoney(
+      Number(quote.fee) - Number(order.delivery_fee),
+    );
+    const paidBy = difference > 0 ? this.getPriceDifferenceBearer() : null;
+    await this.deliveryRepository.update(delivery.id, {
+      price_difference: difference,
+      price_difference_paid_by: paidBy,
+    });
+    delivery.price_difference = difference;
+    delivery.price_difference_paid_by = paidBy;
+
+    const vendorShare = (attempt: Delivery | undefined) =>
+      attempt?.price_difference_paid_by === DeliveryCostBearer.VENDOR
+        ? Math.max(Number(attempt.price_difference), 0)
+        : 0;
+    const charge = roundMoney(vendorShare(delivery) - vendorShare(previous));
+    if (charge !== 0) {
+      await this.chargeVendorBalance(order, vendor, delivery, charge);
+    }
+    return charge;
+  }
+
+  /**
+   * Take a replacement delivery's extra cost from vendor_balance, or give
+   * it back when negative. The reference is the delivery's, so each
+   * attempt is charged once.
+   */
+  private async chargeVendorBalance(
+    order: Order,
+    vendor: Vendor,
+    delivery: Delivery,
+    amount: number,
+  ): Promise<void> {
+    const reference = `delivery_failover_${delivery.id}`;
+
+    await this.dataSource.transaction(async manager => {
+      const existing = await manager.findOne(Transaction, {
+        where: { reference_id: reference },
+      });
+      if (existing) {
+        return;
+      }
+
+      let vendorWallet = await manager.findOne(Wallet, {
+        where: { user_id: vendor.user_id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!vendorWallet) {
+        vendorWallet = manager.create(Wallet, {
+          user_id: vendor.user_id,
+          balance: 0,
+          vendor_balance: 0,
+          is_active: true,
+        });
+      }
+
+      // Like refund clawbacks, the balance may go negative until future
+      // earnings cover it
+      const balanceBefore = Number(vendorWallet.vendor_balance) || 0;
+      vendorWallet.vendor_balance = roundMoney(balanceBefore - amount);
+      vendorWallet.last_transaction_at = new Date();
+      vendorWallet = await manager.save(vendorWallet);
+
+      const description =
+        amount > 0
+          ? `Replacement delivery for order ${order.order_number}`
+          : `Replacement delivery for order ${order.order_number}, earlier charge returned`;
+      await manager.save(
+        manager.create(Transaction, {
+          wallet_id: vendorWallet.id,
+          transaction_type:
+            amount > 0 ? TransactionType.DEBIT : TransactionType.CREDIT,
+          amount: Math.abs(amount),
+          balance_before: balanceBefore,
+          balance_after: Number(vendorWallet.vendor_balance),
+          description,
+          reference_id: reference,
+          status: TransactionStatus.COMPLETED,
+          processed_at: new Date(),
+          metadata: {
+            order_id: order.id,
+            delivery_id: delivery.id,
+            balance: 'vendor_balance',
+          },
+        }),
+      );
+
+      await this.ledgerService.recordAdjustment(
+        {
+          account: LedgerAccountType.VENDOR_PAYABLE,
+          user_id: vendor.user_id,
+          currency: order.currency,
+          amount: -amount,
+          description,
+          reference,
+          order_id: order.id,
+        },
+        manager,
+      );
+    });
+  }
+
+  private getPriceDifferenceBearer(): DeliveryCostBearer {
+    const bearer = this.configService.get<string>(
+      'deliveryFailover.priceDifferencePaidBy',
+      DeliveryCostBearer.PLATFORM,
+    );
+    return bearer === DeliveryCostBearer.VENDOR
+      ? DeliveryCostBearer.VENDOR
+      : DeliveryCostBearer.PLATFORM;
+  }
+
+  private async notifyFailover(
+    order: Order,
+    vendor: Vendor,
+    quote: DeliveryQuote,
+    delivery: Delivery,
+    vendorCharge: number,
+  ): Promise<void> {
+    const courier = quote.courier_name || quote.provider;
+    const data = {
+      order_id: order.id,
+      delivery_id: delivery.id,
+      provider: quote.provider,
+      tracking_number: delivery.tracking_number,
+    };
+
+    await this.notify(
+      order.customer_id,
+      'Delivery partner changed',
+      `Your order ${order.order_number} will now be delivered by ${courier}. There is nothing extra to pay.`,
+      data,
+    );
+    await this.notify(
+      vendor.user_id,
+      'Delivery partner changed',
+      `The courier for order ${
+        order.order_number
+      } fell through; ${courier} will collect it instead.${
+        vendorCharge > 0
+          ? ` The extra ${vendorCharge} ${order.currency} has been taken from your balance.`
+          : vendorCharge < 0
+          ? ` ${-vendorCharge} ${
+              order.currency
+            } charged for an earlier replacement has been returned to your balance.`
+          : ''
+      }`,
+      {
+        ...data,
+        price_difference: delivery.price_difference,
+        price_difference_paid_by: delivery.price_difference_paid_by,
+        vendor_charge: vendorCharge,
+      },
+    );
+  }
+
+  private async notifyFailoverExhausted(
+    order: Order,
+    vendor: Vendor,
+    reason: string,
+  ): Promise<void> {
+    const data = { order_id: order.id, failure_reason: reason };
+
+    await this.notify(
+      order.customer_id,
+      'Delivery delayed',
+      `We're having trouble finding a courier for order ${order.order_number}. Our team is on it and will be in touch.`,
+      data,
+    );
+    await this.notify(
+      vendor.user_id,
+      'No courier available',
+      `No delivery partner could take order ${order.order_number}. Our support team will arrange delivery or a refund.`,
+      data,
+    );
+  }
+
+  private async notify(
+    userId: string,
+    title: string,
+    message: string,
+    data: Record<string, any>,
+  ): Promise<void> {
+    try {
+      await this.inAppNotificationService.createInAppNotification(
+        userId,
+        NotificationType.ORDER_UPDATE,
+        title,
+        message,
+        {
+          data,
+          priority: NotificationPriority.HIGH,
+          category: 'delivery_failover',
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify user ${userId} about delivery failover for order ${data.order_id}: ${error.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,630 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Not, Repository } from 'typeorm';
+import {
+  Delivery,
+  DeliveryFeeType,
+  DeliveryProvider,
+  DeliveryRider,
+  DeliveryTracking,
+  NotificationPriority,
+  NotificationType,
+  Order,
+  ShipmentStatus,
+  Vendor,
+  VendorDeliveryZone,
+} from 'src/entities';
+import { VendorService } from 'src/modules/vendor/services/vendor.service';
+import { UserService } from 'src/modules/user/services/user.service';
+import { InAppNotificationService } from 'src/modules/notification/services/in-app-notification.service';
+import { DeliveryService } from './delivery.service';
+import { DeliveryLiveTrackingService } from './delivery-live-tracking.service';
+import {
+  DeliveryProofFiles,
+  DeliveryProofService,
+} from './delivery-proof.service';
+import {
+  CreateDeliveryRiderDto,
+  CreateDeliveryZoneDto,
+  DeliveryProofUploadDto,
+  DeliveryRiderResponseDto,
+  DeliveryZoneResponseDto,
+  RiderStatusUpdateDto,
+  SelfDeliveryResponseDto,
+  UpdateDeliveryRiderDto,
+  UpdateDeliveryZoneDto,
+} from '../dto';
+
+// Riders move a delivery forward through these; skipping steps is fine
+const STATUS_PROGRESSION: ShipmentStatus[] = [
+  ShipmentStatus.PENDING,
+  ShipmentStatus.PICKED_UP,
+  ShipmentStatus.OUT_FOR_DELIVERY,
+  ShipmentStatus.DELIVERED,
+];
+
+const CLOSED_STATUSES = [
+  ShipmentStatus.DELIVERED,
+  ShipmentStatus.FAILED,
+  ShipmentStatus.CANCELLED,
+  ShipmentStatus.RETURNED,
+];
+
+const STATUS_DESCRIPTIONS: Partial<Record<ShipmentStatus, string>> = {
+  [ShipmentStatus.PICKED_UP]: 'Your order has been picked up by the rider',
+  [ShipmentStatus.OUT_FOR_DELIVERY]: 'Your order is on its way',
+  [ShipmentStatus.DELIVERED]: 'Your order has been delivered',
+  [ShipmentStatus.FAILED]: 'The rider could not deliver your order',
+};
+
+/**
+ * Vendors' own delivery fleets: the zones they deliver to, their riders,
+ * and the status updates riders post for self-delivered orders
+ */
+@Injectable()
+export class DeliveryFleetService {
+  private readonly logger = new Logger(DeliveryFleetService.name);
+
+  constructor(
+    @InjectRepository(VendorDeliveryZone)
+    private readonly zoneRepository: Repository<VendorDeliveryZone>,
+    @InjectRepository(DeliveryRider)
+    private readonly riderRepository: Repository<DeliveryRider>,
+    @InjectRepository(Delivery)
+    private readonly deliveryRepository: Repository<Delivery>,
+    @InjectRepository(DeliveryTracking)
+    private readonly deliveryTrackingRepository: Repository<DeliveryTracking>,
+    @InjectRepository(Order)
+    private readonly orderRepository: Repository<Order>,
+    private readonly vendorService: VendorService,
+    private readonly userService: UserService,
+    private readonly deliveryService: DeliveryService,
+    private readonly deliveryLiveTrackingService: DeliveryLiveTrackingService,
+    private readonly deliveryProofService: DeliveryProofService,
+    private readonly inAppNotificationService: InAppNotificationService,
+  ) {}
+
+  // Zones
+
+  async getZones(vendorUserId: string): Promise<DeliveryZoneResponseDto[]> {
+    const vendor = await this.getVendorForUser(vendorUserId);
+    const zones = await this.zoneRepository.find({
+      where: { vendor_id: vendor.id },
+      order: { max_distance_km: 'ASC' },
+    });
+    return zones.map(zone => this.mapZone(zone));
+  }
+
+  async createZone(
+    vendorUserId: string,
+    dto: CreateDeliveryZoneDto,
+  ): Promise<DeliveryZoneResponseDto> {
+    const vendor = await this.getVendorForUser(vendorUserId);
+    this.assertZoneFees(dto.fee_type, dto.per_km_fee);
+
+    const zone = await this.zoneRepository.save(
+      this.zoneRepository.create({
+        vendor_id: vendor.id,
+        name: dto.name,
+        max_distance_km: dto.max_distance_km,
+        fee_type: dto.fee_type,
+        base_fee: dto.base_fee,
+        per_km_fee: dto.per_km_fee ?? 0,
+        min_order_amount: dto.min_order_amount ?? null,
+        estimated_minutes: dto.estimated_minutes ?? 45,
+        is_active: dto.is_active ?? true,
+      }),
+    );
+
+    this.logger.log(`Vendor ${vendor.id} added delivery zone ${zone.id}`);
+    return this.mapZone(zone);
+  }
+
+  async updateZone(
+    vendorUserId: string,
+    zoneId: string,
+    dto: UpdateDeliveryZoneDto,
+  ): Promise<DeliveryZoneResponseDto> {
+    const zone = await this.getOwnZone(vendorUserId, zoneId);
+    Object.assign(zone, dto);
+    this.assertZoneFees(zone.fee_type, zone.per_km_fee);
+
+    return this.mapZone(await this.zoneRepository.save(zone));
+  }
+
+  async deleteZone(vendorUserId: string, zoneId: string): Promise<void> {
+    const zone = await this.getOwnZone(vendorUserId, zoneId);
+    await this.zoneRepository.softRemove(zone);
+  }
+
+  // Riders
+
+  async getRiders(vendorUserId: string): Promise<DeliveryRiderResponseDto[]> {
+    const vendor = await this.getVendorForUser(vendorUserId);
+    const riders = await this.riderRepository.find({
+      where: { vendor_id: vendor.id },
+      order: { name: 'ASC' },
+    });
+    return riders.map(rider => this.mapRider(rider));
+  }
+
+  async createRider(
+    vendorUserId: string,
+    dto: CreateDeliveryRiderDto,
+  ): Promise<DeliveryRiderResponseDto> {
+    const vendor = await this.getVendorForUser(vendorUserId);
+
+    const rider = await this.riderRepository.save(
+      this.riderRepository.create({
+        vendor_id: vendor.id,
+        name: dto.name,
+        phone_number: dto.phone_number,
+        vehicle_description: dto.vehicle_description ?? null,
+        user_id: dto.user_email
+          ? await this.resolveRiderUserId(dto.user_email)
+          : null,
+        is_active: dto.is_active ?? true,
+      }),
+    );
+
+    this.logger.log(`Vendor ${vendor.id} added rider ${rider.id}`);
+    return this.mapRider(rider);
+  }
+
+  async updateRider(
+    vendorUserId: string,
+    riderId: string,
+    dto: UpdateDeliveryRiderDto,
+  ): Promise<DeliveryRiderResponseDto> {
+    const rider = await this.getOwnRider(vendorUserId, riderId);
+    const { user_email, ...changes } = dto;
+    Object.assign(rider, changes);
+    if (user_email !== undefined) {
+      rider.user_id = user_email
+        ? await this.resolveRiderUserId(user_email)
+        : null;
+    }
+
+    return this.mapRider(await this.riderRepository.save(rider));
+  }
+
+  async deleteRider(vendorUserId: string, riderId: string): Promise<void> {
+    const rider = await this.getOwnRider(vendorUserId, riderId);
+    const openDeliveries = await this.deliveryRepository.count({
+      where: { rider_id: rider.id, status: Not(In(CLOSED_STATUSES)) },
+    });
+    if (openDeliveries > 0) {
+      throw new BadRequestException(
+        "Reassign this rider's open deliveries before removing them",
+      );
+    }
+
+    await this.riderRepository.softRemove(rider);
+  }
+
+  // Deliveries
+
+  /**
+   * Self-deliveries of a vendor's orders that are still on the road
+   */
+  async getOpenDeliveries(
+    vendorUserId: string,
+  ): Promise<SelfDeliveryResponseDto[]> {
+    const vendor = await this.getVendorForUser(vendorUserId);
+    const deliveries = await this.deliveryRepository
+      .createQueryBuilder('delivery')
+      .innerJoinAndSelect('delivery.order', 'order')
+      .leftJoinAndSelect('delivery.rider', 'rider')
+      .where('order.vendor_id = :vendorId', { vendorId: vendor.id })
+      .andWhere('delivery.provider = :provider', {
+        provider: DeliveryProvider.SELF_DELIVERY,
+      })
+      .andWhere('delivery.status NOT IN (:...closed)', {
+        closed: CLOSED_STATUSES,
+      })
+      .orderBy('delivery.created_at', 'ASC')
+      .getMany();
+
+    return deliveries.map(delivery => this.mapDelivery(delivery));
+  }
+
+  async assignRider(
+    vendorUserId: string,
+    orderId: string,
+    riderId: string,
+  ): Promise<SelfDeliveryResponseDto> {
+    const vendor = await this.getVendorForUser(vendorUserId);
+    const delivery = await this.getVendorDelivery(vendor, orderId);
+    if (CLOSED_STATUSES.includes(delivery.status)) {
+      throw new BadRequestException(`Delivery is already ${delivery.status}`);
+    }
+
+    const rider = await this.riderRepository.findOne({
+      where: { id: riderId, vendor_id: vendor.id },
+    });
+    if (!rider) {
+      throw new NotFoundException('Rider not found');
+    }
+    if (!rider.is_active) {
+      throw new BadRequestException('Rider is not active');
+    }
+
+    const previousRiderId = delivery.rider_id;
+    delivery.rider_id = rider.id;
+    delivery.rider = rider;
+    delivery.courier_name = rider.name;
+    delivery.courier_phone = rider.phone_number;
+    if (!delivery.courier_assigned_at) {
+      delivery.courier_assigned_at = new Date();
+    }
+    await this.deliveryRepository.save(delivery);
+
+    await this.addTrackingEvent(
+      delivery.id,
+      'rider_assigned',
+      `${rider.name} will deliver your order`,
+      undefined,
+      { rider_id: rider.id, previous_rider_id: previousRiderId ?? null },
+    );
+    this.deliveryLiveTrackingService.publishUpdate(delivery);
+
+    if (rider.user_id && rider.id !== previousRiderId) {
+      await this.notifyRider(rider, delivery);
+    }
+
+    this.logger.log(
+      `Rider ${rider.id} assigned to delivery ${delivery.id} for order ${orderId}`,
+    );
+    return this.mapDelivery(delivery);
+  }
+
+  async updateStatusAsVendor(
+    vendorUserId: string,
+    orderId: string,
+    dto: RiderStatusUpdateDto,
+  ): Promise<SelfDeliveryResponseDto> {
+    const vendor = await this.getVendorForUser(vendorUserId);
+    const delivery = await this.getVendorDelivery(vendor, orderId);
+    return await this.applyStatusUpdate(delivery, dto, vendorUserId);
+  }
+
+  async attachProofAsVendor(
+    vendorUserId: string,
+    orderId: string,
+    files: DeliveryProofFiles,
+    dto: DeliveryProofUploadDto,
+  ): Promise<SelfDeliveryResponseDto> {
+    const vendor = await this.getVendorForUser(vendorUserId);
+    const delivery = await this.getVendorDelivery(vendor, orderId);
+    await this.deliveryProofService.attachProof(
+      delivery,
+      files,
+      dto,
+      vendorUserId,
+    );
+    return this.mapDelivery(await this.reloadDelivery(delivery.id));
+  }
+
+  // Rider app
+
+  async getRiderDeliveries(
+    riderUserId: string,
+  ): Promise<SelfDeliveryResponseDto[]> {
+    const deliveries = await this.deliveryRepository
+      .createQueryBuilder('delivery')
+      .innerJoinAndSelect('delivery.rider', 'rider')
+      .innerJoinAndSelect('delivery.order', 'order')
+      .where('rider.user_id = :riderUserId', { riderUserId })
+      .andWhere('delivery.status NOT IN (:...closed)', {
+        closed: CLOSED_STATUSES,
+      })
+      .orderBy('delivery.created_at', 'ASC')
+      .getMany();
+
+    return deliveries.map(delivery => this.mapDelivery(delivery));
+  }
+
+  async updateStatusAsRider(
+    riderUserId: string,
+    deliveryId: string,
+    dto: RiderStatusUpdateDto,
+  ): Promise<SelfDeliveryResponseDto> {
+    const delivery = await this.deliveryRepository.findOne({
+      where: { id: deliveryId },
+      relations: ['order', 'rider'],
+    });
+    if (!delivery || delivery.rider?.user_id !== riderUserId) {
+      throw new NotFoundException('Delivery not found');
+    }
+
+    return await this.applyStatusUpdate(delivery, dto, riderUserId);
+  }
+
+  async attachProofAsRider(
+    riderUserId: string,
+    deliveryId: string,
+    files: DeliveryProofFiles,
+    dto: DeliveryProofUploadDto,
+  ): Promise<SelfDeliveryResponseDto> {
+    const delivery = await this.deliveryRepository.findOne({
+      where: { id: deliveryId },
+      relations: ['order', 'rider'],
+    });
+    if (!delivery || delivery.rider?.user_id !== riderUserId) {
+      throw new NotFoundException('Delivery not found');
+    }
+
+    await this.deliveryProofService.attachProof(
+      delivery,
+      files,
+      dto,
+      riderUserId,
+    );
+    return this.mapDelivery(await this.reloadDelivery(delivery.id));
+  }
+
+  /**
+   * Record a rider's update as a tracking event and move the order along
+   * the same way a third-party provider's webhook would
+   */
+  private async applyStatusUpdate(
+    delivery: Delivery,
+    dto: RiderStatusUpdateDto,
+    postedBy: string,
+  ): Promise<SelfDeliveryResponseDto> {
+    if (CLOSED_STATUSES.includes(delivery.status)) {
+      throw new BadRequestException(`Delivery is already ${delivery.status}`);
+    }
+    if (!delivery.rider_id) {
+      throw new BadRequestException('Assign a rider before posting updates');
+    }
+
+    if (dto.status === ShipmentStatus.FAILED) {
+      if (!dto.note) {
+        throw new BadRequestException('Say why the delivery failed');
+      }
+      delivery.markAsFailed(dto.note);
+    } else {
+      const current = STATUS_PROGRESSION.indexOf(delivery.status);
+      const next = STATUS_PROGRESSION.indexOf(dto.status);
+      if (next <= current) {
+        throw new BadRequestException(`Delivery is already ${delivery.status}`);
+      }
+      if (dto.status === ShipmentStatus.DELIVERED) {
+        await this.deliveryProofService.verifyPin(delivery, dto.pin);
+        delivery.markAsDelivered();
+        this.deliveryProofService.stampHandover(
+          delivery,
+          postedBy,
+          dto.latitude,
+          dto.longitude,
+        );
+      } else {
+        delivery.status = dto.status;
+      }
+    }
+    const hasCoordinates = dto.latitude != null && dto.longitude != null;
+    if (hasCoordinates) {
+      delivery.courier_latitude = dto.latitude;
+      delivery.courier_longitude = dto.longitude;
+      delivery.courier_located_at = new Date();
+    }
+    await this.deliveryRepository.save(delivery);
+
+    await this.addTrackingEvent(
+      delivery.id,
+      dto.status,
+      dto.note || STATUS_DESCRIPTIONS[dto.status],
+      dto.location ||
+        (hasCoordinates ? `${dto.latitude},${dto.longitude}` : undefined),
+      {
+        rider_id: delivery.rider_id,
+        posted_by: postedBy,
+        latitude: dto.latitude ?? null,
+        longitude: dto.longitude ?? null,
+      },
+    );
+    this.deliveryLiveTrackingService.publishUpdate(delivery);
+
+    // A failed drop-off leaves the order with the vendor to sort out
+    if (dto.status !== ShipmentStatus.FAILED) {
+      const order = await this.orderRepository.findOne({
+        where: { id: delivery.order_id },
+      });
+      if (order) {
+        await this.deliveryService.applyDeliveryStatusToOrder(
+          order,
+          DeliveryProvider.SELF_DELIVERY,
+          dto.status,
+          {
+            tracking_id: delivery.tracking_number,
+            rider_id: delivery.rider_id,
+          },
+        );
+      }
+    }
+
+    return this.mapDelivery(delivery);
+  }
+
+  private async addTrackingEvent(
+    deliveryId: string,
+    status: string,
+    description: string,
+    location?: string,
+    providerData?: Record<string, any>,
+  ): Promise<void> {
+    await this.deliveryTrackingRepository.save(
+      this.deliveryTrackingRepository.create({
+        delivery_id: deliveryId,
+        status,
+        description,
+        location,
+        timestamp: new Date(),
+        provider_data: providerData,
+      }),
+    );
+  }
+
+  private async notifyRider(
+    rider: DeliveryRider,
+    delivery: Delivery,
+  ): Promise<void> {
+    try {
+      await this.inAppNotificationService.createInAppNotification(
+        rider.user_id,
+        NotificationType.ORDER_UPDATE,
+        'New delivery assigned',
+        `Deliver order ${
+          delivery.order?.order_number ?? delivery.order_id
+        } to ${delivery.destination_address?.address}`,
+        {
+          data: {
+            delivery_id: delivery.id,
+            order_id: delivery.order_id,
+            tracking_number: delivery.tracking_number,
+          },
+          priority: NotificationPriority.HIGH,
+          category: 'self_delivery',
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify rider ${rider.id} about delivery ${delivery.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private async getVendorForUser(vendorUserId: string): Promise<Vendor> {
+    const vendor = await this.vendorService.getVendorByUserId(vendorUserId);
+    if (!vendor) {
+      throw new NotFoundException('Vendor profile not found');
+    }
+    return vendor;
+  }
+
+  private async getOwnZone(
+    vendorUserId: string,
+    zoneId: string,
+  ): Promise<VendorDeliveryZone> {
+    const vendor = await this.getVendorForUser(vendorUserId);
+    const zone = await this.zoneRepository.findOne({
+      where: { id: zoneId, vendor_id: vendor.id },
+    });
+    if (!zone) {
+      throw new NotFoundException('Delivery zone not found');
+    }
+    return zone;
+  }
+
+  private async getOwnRider(
+    vendorUserId: string,
+    riderId: string,
+  ): Promise<DeliveryRider> {
+    const vendor = await this.getVendorForUser(vendorUserId);
+    const rider = await this.riderRepository.findOne({
+      where: { id: riderId, vendor_id: vendor.id },
+    });
+    if (!rider) {
+      throw new NotFoundException('Rider not found');
+    }
+    return rider;
+  }
+
+  private async getVendorDelivery(
+    vendor: Vendor,
+    orderId: string,
+  ): Promise<Delivery> {
+    const delivery = await this.deliveryRepository.findOne({
+      where: { order_id: orderId },
+      relations: ['order', 'rider'],
+      order: { created_at: 'DESC' },
+    });
+    if (!delivery) {
+      throw new NotFoundException('Delivery not found');
+    }
+    if (delivery.order?.vendor_id !== vendor.id) {
+      throw new ForbiddenException('Not an order of your business');
+    }
+    if (delivery.provider !== DeliveryProvider.SELF_DELIVERY) {
+      throw new BadRequestException(
+        `Order is delivered by ${delivery.provider}, not your riders`,
+      );
+    }
+    return delivery;
+  }
+
+  private async resolveRiderUserId(email: string): Promise<string> {
+    const user = await this.userService.findByEmail(email);
+    if (!user) {
+      throw new BadRequestException(
+        'No account uses that email; the rider needs to sign up first',
+      );
+    }
+    return user.id;
+  }
+
+  private assertZoneFees(
+    feeType: DeliveryFeeType,
+    perKmFee?: number | null,
+  ): void {
+    if (feeType === DeliveryFeeType.DISTANCE && !perKmFee) {
+      throw new BadRequestException('Distance-based zones need a per-km fee');
+    }
+  }
+
+  private mapZone(zone: VendorDeliveryZone): DeliveryZoneResponseDto {
+    return {
+      id: zone.id,
+      name: zone.name,
+      max_distance_km: zone.max_distance_km,
+      fee_type: zone.fee_type,
+      base_fee: zone.base_fee,
+      per_km_fee: zone.per_km_fee,
+      min_order_amount: zone.min_order_amount ?? null,
+      estimated_minutes: zone.estimated_minutes,
+      is_active: zone.is_active,
+    };
+  }
+
+  private mapRider(rider: DeliveryRider): DeliveryRiderResponseDto {
+    return {
+      id: rider.id,
+      name: rider.name,
+      phone_number: rider.phone_number,
+      vehicle_description: rider.vehicle_description ?? null,
+      has_account: !!rider.user_id,
+      is_active: rider.is_active,
+    };
+  }
+
+  private async reloadDelivery(deliveryId: string): Promise<Delivery> {
+    return await this.deliveryRepository.findOne({
+      where: { id: deliveryId },
+      relations: ['order', 'rider'],
+    });
+  }
+
+  private mapDelivery(delivery: Delivery): SelfDeliveryResponseDto {
+    return {
+      id: delivery.id,
+      order_id: delivery.order_id,
+      order_number: delivery.order?.order_number,
+      tracking_number: delivery.tracking_number,
+      status: delivery.status,
+      rider: delivery.rider ? this.mapRider(delivery.rider) : null,
+      destination_address: delivery.destination_address,
+      estimated_delivery: delivery.estimated_delivery,
+      actual_delivery: delivery.actual_delivery ?? null,
+      failure_reason: delivery.failure_reason ?? null,
+      proof: this.deliveryProofService.mapProof(delivery),
+      created_at: delivery.created_at,
+    };
+  }
+}
@@ -0,0 +1,454 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { Repository } from 'typeorm';
+import {
+  Delivery,
+  DeliveryProvider,
+  DeliveryTracking,
+  Order,
+  ShipmentStatus,
+} from 'src/entities';
+import { NotificationSSEService } from 'src/modules/notification/services/notification-sse.service';
+import {
+  CourierLocationDto,
+  DeliveryTimelineEventDto,
+  OrderTrackingResponseDto,
+  ShipmentTrackingResponseDto,
+} from '../dto';
+import { DeliveryRepository } from '../repositories/delivery.repository';
+import { DELIVERY_EVENTS, DeliveryTrackingUpdatedEvent } from '../events';
+import { UberDeliveryService } from './uber-delivery.service';
+import { ShipbubbleDeliveryService } from './shipbubble-delivery.service';
+
+// Deliveries only move forward through these
+const STATUS_PROGRESSION: ShipmentStatus[] = [
+  ShipmentStatus.PENDING,
+  ShipmentStatus.PICKED_UP,
+  ShipmentStatus.IN_TRANSIT,
+  ShipmentStatus.OUT_FOR_DELIVERY,
+  ShipmentStatus.DELIVERED,
+];
+
+const CLOSED_STATUSES = [
+  ShipmentStatus.DELIVERED,
+  ShipmentStatus.FAILED,
+  ShipmentStatus.CANCELLED,
+  ShipmentStatus.RETURNED,
+];
+
+const STATUS_DESCRIPTIONS: Record<ShipmentStatus, string> = {
+  [ShipmentStatus.PENDING]: 'Waiting for a courier',
+  [ShipmentStatus.PICKED_UP]: 'Your order has been picked up',
+  [ShipmentStatus.IN_TRANSIT]: 'Your order is in transit',
+  [ShipmentStatus.OUT_FOR_DELIVERY]: 'Your order is on its way',
+  [ShipmentStatus.DELIVERED]: 'Your order has been delivered',
+  [ShipmentStatus.FAILED]: 'The courier could not deliver your order',
+  [ShipmentStatus.CANCELLED]: 'The delivery was cancelled',
+  [ShipmentStatus.RETURNED]: 'Your order was returned to the vendor',
+};
+
+// Gift tracking tokens are 24 random bytes in hex
+const TRACKING_TOKEN_PATTERN = /^[0-9a-f]{48}$/;
+
+export interface CourierUpdate {
+  name?: string | null;
+  phone?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface ProviderTrackingUpdate {
+  // Status as the provider or rider reported it
+  status?: string;
+  description?: string;
+  location?: string;
+  courier?: CourierUpdate;
+  courierAssigned?: boolean;
+  providerData?: Record<string, any>;
+}
+
+/**
+ * Map the statuses providers, webhooks and riders report onto
+ * ShipmentStatus. Returns null for anything unrecognised.
+ */
+export function normalizeShipmentStatus(
+  status?: string | null,
+): ShipmentStatus | null {
+  const value = (status || '').toLowerCase();
+  if ((Object.values(ShipmentStatus) as string[]).includes(value)) {
+    return value as ShipmentStatus;
+  }
+
+  if (value.includes('out_for_delivery') || value.includes('dropoff')) {
+    return ShipmentStatus.OUT_FOR_DELIVERY;
+  }
+  if (value.includes('delivered') || value.includes('completed')) {
+    return ShipmentStatus.DELIVERED;
+  }
+  if (value.includes('picked') || value.includes('pickup_complete')) {
+    return ShipmentStatus.PICKED_UP;
+  }
+  if (value.includes('transit')) {
+    return ShipmentStatus.IN_TRANSIT;
+  }
+  if (value.includes('cancel')) {
+    return ShipmentStatus.CANCELLED;
+  }
+  if (value.includes('return')) {
+    return ShipmentStatus.RETURNED;
+  }
+  if (value.includes('fail')) {
+    return ShipmentStatus.FAILED;
+  }
+  // Booked, confirmed, courier or rider assigned, courier heading to pickup
+  if (
+    ['pending', 'confirmed', 'assigned', 'accepted', 'pickup'].some(keyword =>
+      value.includes(keyword),
+    )
+  ) {
+    return ShipmentStatus.PENDING;
+  }
+  return null;
+}
+
+/**
+ * One view of where an order's delivery is, whoever carries it: the
+ * normalised timeline, the courier and their last position. Provider APIs
+ * are polled when webhooks have gone quiet, and every change is pushed to
+ * the customer over SSE.
+ */
+@Injectable()
+export class DeliveryLiveTrackingService {
+  private readonly logger = new Logger(DeliveryLiveTrackingService.name);
+
+  constructor(
+    @InjectRepository(Order)
+    private readonly orderRepository: Repository<Order>,
+    @InjectRepository(DeliveryTracking)
+    private readonly deliveryTrackingRepository: Repository<DeliveryTracking>,
+    private readonly deliveryRepository: DeliveryRepository,
+    private readonly uberDeliveryService: UberDeliveryService,
+    private readonly shipbubbleDeliveryService: ShipbubbleDeliveryService,
+    private readonly sseService: NotificationSSEService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Tracking for an order, refreshed from the provider if it's stale.
+   * Access checks are the caller's job.
+   */
+  async getOrderTracking(
+    order: Order,
+    options: { includeShareUrl?: boolean } = {},
+  ): Promise<OrderTrackingResponseDto> {
+    let delivery = await this.getCurrentDelivery(order.id);
+    if (delivery && this.isSyncDue(delivery)) {
+      delivery = await this.syncFromProvider(delivery);
+    }
+
+    const tracking = this.buildTracking(order, delivery);
+    if (options.includeShareUrl) {
+      tracking.share_url = this.getShareUrl(order);
+    }
+    return tracking;
+  }
+
+  /**
+   * Tracking behind a gift order's public link
+   */
+  async getPublicTracking(token: string): Promise<OrderTrackingResponseDto> {
+    const order = TRACKING_TOKEN_PATTERN.test(token || '')
+      ? await this.orderRepository.findOne({
+          where: { tracking_token: token, is_gift: true },
+        })
+      : null;
+    if (!order) {
+      throw new NotFoundException('Tracking link not found');
+    }
+
+    return await this.getOrderTracking(order);
+  }
+
+  getShareUrl(order: Order): string | null {
+    if (!order.is_gift || !order.tracking_token) {
+      return null;
+    }
+    const baseUrl = this.configService
+      .get<string>('deliveryTracking.publicUrl', 'https://rambini.com/track')
+      .replace(/\/+$/, '');
+    return `${baseUrl}/${order.tracking_token}`;
+  }
+
+  /**
+   * Apply a provider webhook or rider update to the delivery: record it on
+   * the timeline, move the status forward and refresh the courier details
+   */
+  async recordProviderUpdate(
+    delivery: Delivery,
+    update: ProviderTrackingUpdate,
+  ): Promise<Delivery> {
+    const changes: Partial<Delivery> = {
+      ...this.getCourierChanges(delivery, update.courier),
+    };
+
+    const status = normalizeShipmentStatus(update.status);
+    if (status && this.canAdvance(delivery.status, status)) {
+      changes.status = status;
+      if (status === ShipmentStatus.DELIVERED) {
+        changes.actual_delivery = new Date();
+      }
+    }
+    if (
+      (update.courierAssigned || update.courier?.name) &&
+      !delivery.courier_assigned_at
+    ) {
+      changes.courier_assigned_at = new Date();
+    }
+
+    if (update.status) {
+      await this.deliveryTrackingRepository.save(
+        this.deliveryTrackingRepository.create({
+          delivery_id: delivery.id,
+          status: update.status,
+          description:
+            update.description ||
+            (status ? STATUS_DESCRIPTIONS[status] : update.status),
+          location: update.location,
+          timestamp: new Date(),
+          provider_data: update.providerData,
+        }),
+      );
+    }
+
+    // Reload so the returned delivery carries the new timeline entry
+    const updated =
+      Object.keys(changes).length > 0
+        ? await this.deliveryRepository.update(delivery.id, changes)
+        : await this.deliveryRepository.findById(delivery.id);
+
+    this.publishUpdate(updated);
+    return updated;
+  }
+
+  publishUpdate(delivery: Delivery): void {
+    this.eventEmitter.emit(
+      DELIVERY_EVENTS.TRACKING_UPDATED,
+      new DeliveryTrackingUpdatedEvent(delivery),
+    );
+  }
+
+  @OnEvent(DELIVERY_EVENTS.TRACKING_UPDATED, { async: true })
+  async handleTrackingUpdated(
+    event: DeliveryTrackingUpdatedEvent,
+  ): Promise<void> {
+    try {
+      const order = await this.orderRepository.findOne({
+        where: { id: event.order_id },
+      });
+      if (!order) {
+        return;
+      }
+
+      const delivery = await this.getCurrentDelivery(order.id);
+      this.sseService.sendDeliveryTracking(
+        order.customer_id,
+        order.id,
+        this.buildTracking(order, delivery),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to push tracking for order ${event.order_id}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * The delivery in progress, or the last attempt when none is
+   */
+  private async getCurrentDelivery(orderId: string): Promise<Delivery | null> {
+    const active = await this.deliveryRepository.findActiveByOrderId(orderId);
+    if (active) {
+      return active;
+    }
+    return await this.deliveryRepository.findLatestByOrderId(orderId);
+  }
+
+  private isSyncDue(delivery: Delivery): boolean {
+    if (
+      delivery.provider === DeliveryProvider.SELF_DELIVERY ||
+      !delivery.tracking_number ||
+      CLOSED_STATUSES.includes(delivery.status)
+    ) {
+      return false;
+    }
+    const refreshSeconds = this.configService.get<number>(
+      'deliveryTracking.providerRefreshSeconds',
+      30,
+    );
+    return (
+      !delivery.provider_synced_at ||
+      Date.now() - new Date(delivery.provider_synced_at).getTime() >
+        refreshSeconds * 1000
+    );
+  }
+
+  /**
+   * Pull the latest status and courier position from the provider's API
+   */
+  private async syncFromProvider(delivery: Delivery): Promise<Delivery> {
+    let tracking: ShipmentTrackingResponseDto | null = null;
+    try {
+      tracking =
+        delivery.provider === DeliveryProvider.UBER
+          ? await this.uberDeliveryService.getDeliveryTracking(
+              delivery.tracking_number,
+            )
+          : await this.shipbubbleDeliveryService.trackShipment(
+              delivery.tracking_number,
+            );
+    } catch (error) {
+      this.logger.warn(
+        `Could not refresh ${delivery.provider} tracking for ${delivery.tracking_number}: ${error.message}`,
+      );
+    }
+
+    await this.deliveryRepository.update(delivery.id, {
+      provider_synced_at: new Date(),
+    });
+    delivery.provider_synced_at = new Date();
+    if (!tracking?.success) {
+      return delivery;
+    }
+
+    const status = normalizeShipmentStatus(tracking.status);
+    const courier: CourierUpdate = {
+      name: tracking.courier,
+      phone: tracking.courierPhone,
+      latitude: tracking.courierCoordinates?.latitude,
+      longitude: tracking.courierCoordinates?.longitude,
+    };
+    const statusChanged =
+      !!status &&
+      status !== delivery.status &&
+      this.canAdvance(delivery.status, status);
+    if (!statusChanged && !this.hasCourierChanges(delivery, courier)) {
+      return delivery;
+    }
+
+    return await this.recordProviderUpdate(delivery, {
+      status: statusChanged ? status : undefined,
+      description: tracking.statusDescription,
+      location: tracking.currentLocation,
+      courier,
+    });
+  }
+
+  private buildTracking(
+    order: Order,
+    delivery: Delivery | null,
+  ): OrderTrackingResponseDto {
+    const timeline: DeliveryTimelineEventDto[] = [
+      ...(delivery?.tracking_events || []),
+    ]
+      .sort(
+        (a, b) =>
+          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+      )
+      .map(event => ({
+        status: normalizeShipmentStatus(event.status),
+        description: event.description,
+        location: event.location ?? null,
+        timestamp: event.timestamp,
+      }))
+      .filter(event => event.status !== null);
+
+    return {
+      order_id: order.id,
+      order_number: order.order_number,
+      order_status: order.order_status,
+      provider: delivery?.provider ?? null,
+      tracking_number: delivery?.tracking_number ?? null,
+      status: delivery?.status ?? null,
+      courier_name: delivery?.courier_name ?? null,
+      courier_phone: delivery?.courier_phone ?? null,
+      courier_location: this.getCourierLocation(delivery),
+      estimated_delivery:
+        delivery?.estimated_delivery ?? order.estimated_delivery_time ?? null,
+      delivered_at: delivery?.actual_delivery ?? order.delivered_at ?? null,
+      timeline,
+    };
+  }
+
+  private getCourierLocation(
+    delivery: Delivery | null,
+  ): CourierLocationDto | null {
+    if (
+      delivery?.courier_latitude == null ||
+      delivery?.courier_longitude == null
+    ) {
+      return null;
+    }
+    return {
+      latitude: Number(delivery.courier_latitude),
+      longitude: Number(delivery.courier_longitude),
+      updated_at: delivery.courier_located_at,
+    };
+  }
+
+  private getCourierChanges(
+    delivery: Delivery,
+    courier?: CourierUpdate,
+  ): Partial<Delivery> {
+    const changes: Partial<Delivery> = {};
+    if (!courier) {
+      return changes;
+    }
+
+    if (courier.name && courier.name !== delivery.courier_name) {
+      changes.courier_name = courier.name;
+    }
+    if (courier.phone && courier.phone !== delivery.courier_phone) {
+      changes.courier_phone = courier.phone;
+    }
+    if (courier.latitude != null && courier.longitude != null) {
+      changes.courier_latitude = Number(courier.latitude);
+      changes.courier_longitude = Number(courier.longitude);
+      changes.courier_located_at = new Date();
+    }
+    return changes;
+  }
+
+  private hasCourierChanges(
+    delivery: Delivery,
+    courier: CourierUpdate,
+  ): boolean {
+    const changes = this.getCourierChanges(delivery, courier);
+    if (changes.courier_name || changes.courier_phone) {
+      return true;
+    }
+    return (
+      changes.courier_latitude != null &&
+      (Number(delivery.courier_latitude) !== changes.courier_latitude ||
+        Number(delivery.courier_longitude) !== changes.courier_longitude)
+    );
+  }
+
+  /**
+   * Whether a delivery may move to the status. Closed deliveries stay
+   * closed, and late or repeated updates never move one backwards.
+   */
+  private canAdvance(current: ShipmentStatus, next: ShipmentStatus): boolean {
+    if (CLOSED_STATUSES.includes(current) || current === next) {
+      return false;
+    }
+    if (!STATUS_PROGRESSION.includes(next)) {
+      return true;
+    }
+    return (
+      STATUS_PROGRESSION.indexOf(next) > STATUS_PROGRESSION.indexOf(current)
+    );
+  }
+}
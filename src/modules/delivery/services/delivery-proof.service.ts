@@ -0,0 +1,413 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { firstValueFrom } from 'rxjs';
+import { timingSafeEqual } from 'crypto';
+import {
+  Delivery,
+  DeliveryProvider,
+  Order,
+  ShipmentStatus,
+} from 'src/entities';
+import { FileStorageService } from 'src/modules/file-storage/services/file-storage.service';
+import { OrderStateMachineService } from '@/modules/order/services/order-state-machine.service';
+import {
+  DeliveryEvidenceAttemptDto,
+  DeliveryEvidenceResponseDto,
+  DeliveryProofDto,
+  DeliveryProofUploadDto,
+  DeliveryWebhookDto,
+} from '../dto';
+import { ProofOfDelivery } from '../interfaces/enhanced-delivery-provider.interface';
+import { DeliveryRepository } from '../repositories/delivery.repository';
+import { UberDeliveryService } from './uber-delivery.service';
+
+// Proof can't be added to a delivery that never reached the customer
+const UNDELIVERED_STATUSES = [
+  ShipmentStatus.FAILED,
+  ShipmentStatus.CANCELLED,
+  ShipmentStatus.RETURNED,
+];
+
+export interface DeliveryProofFiles {
+  photo?: Express.Multer.File;
+  signature?: Express.Multer.File;
+}
+
+/**
+ * Proof of delivery for every kind of delivery: provider proof stored from
+ * the delivered webhook, photos and signatures from vendors' riders, and
+ * the customer's drop-off PIN. Provider images are copied into our own
+ * storage since their links expire.
+ */
+@Injectable()
+export class DeliveryProofService {
+  private readonly logger = new Logger(DeliveryProofService.name);
+
+  constructor(
+    private readonly deliveryRepository: DeliveryRepository,
+    @InjectRepository(Order)
+    private readonly orderRepository: Repository<Order>,
+    private readonly uberDeliveryService: UberDeliveryService,
+    private readonly fileStorageService: FileStorageService,
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+    @Inject(forwardRef(() => OrderStateMachineService))
+    private readonly orderStateMachine: OrderStateMachineService,
+  ) {}
+
+  /**
+   * Check the PIN a rider entered against the customer's before a
+   * self-delivery is marked delivered. Does nothing when the order has no
+   * PIN. Too many wrong PINs lock the drop-off until support steps in.
+   */
+  async verifyPin(delivery: Delivery, pin?: string): Promise<void> {
+    const order =
+      delivery.order ??
+      (await this.orderRepository.findOne({
+        where: { id: delivery.order_id },
+      }));
+    if (!order?.delivery_pin) {
+      return;
+    }
+
+    const maxAttempts = this.configService.get<number>(
+      'proofOfDelivery.maxPinAttempts',
+      5,
+    );
+    if (delivery.proof_pin_attempts >= maxAttempts) {
+      throw new BadRequestException(
+        'Too many wrong delivery PINs. Contact support to complete this delivery',
+      );
+    }
+    if (!pin) {
+      throw new BadRequestException(
+        'Ask the customer for their delivery PIN to complete this delivery',
+      );
+    }
+
+    if (!this.pinMatches(order.delivery_pin, pin)) {
+      delivery.proof_pin_attempts += 1;
+      await this.deliveryRepository.update(delivery.id, {
+        proof_pin_attempts: delivery.proof_pin_attempts,
+      });
+      throw new BadRequestException('Delivery PIN does not match');
+    }
+
+    delivery.proof_pin_verified = true;
+  }
+
+  /**
+   * Stamp when and where a self-delivery was handed over. The caller saves
+   * the delivery.
+   */
+  stampHandover(
+    delivery: Delivery,
+    capturedBy: string,
+    latitude?: number,
+    longitude?: number,
+  ): void {
+    const hasCoordinates = latitude != null && longitude != null;
+    delivery.proof_captured_at = delivery.actual_delivery ?? new Date();
+    delivery.proof_latitude = hasCoordinates
+      ? latitude
+      : delivery.courier_latitude ?? null;
+    delivery.proof_longitude = hasCoordinates
+      ? longitude
+      : delivery.courier_longitude ?? null;
+    delivery.proof_data = {
+      ...(delivery.proof_data || {}),
+      captured_by: capturedBy,
+    };
+  }
+
+  /**
+   * Store the handover photo or signature a rider or vendor took
+   */
+  async attachProof(
+    delivery: Delivery,
+    files: DeliveryProofFiles,
+    dto: DeliveryProofUploadDto,
+    uploadedBy: string,
+  ): Promise<Delivery> {
+    if (UNDELIVERED_STATUSES.includes(delivery.status)) {
+      throw new BadRequestException(`Delivery is already ${delivery.status}`);
+    }
+    if (!files.photo && !files.signature) {
+      throw new BadRequestException('Attach a photo or a signature');
+    }
+
+    const changes: Partial<Delivery> = {
+      proof_data: {
+        ...(delivery.proof_data || {}),
+        uploaded_by: uploadedBy,
+      },
+    };
+    if (files.photo) {
+      const uploaded = await this.fileStorageService.uploadImage(files.photo, {
+        quality: 85,
+      });
+      changes.proof_photo_url = uploaded.url;
+    }
+    if (files.signature) {
+      const uploaded = await this.fileStorageService.uploadImage(
+        files.signature,
+        { format: 'png' },
+      );
+      changes.proof_signature_url = uploaded.url;
+    }
+    if (dto.recipient_name) {
+      changes.proof_recipient_name = dto.recipient_name;
+    }
+    if (dto.latitude != null && dto.longitude != null) {
+      changes.proof_latitude = dto.latitude;
+      changes.proof_longitude = dto.longitude;
+    }
+    if (!delivery.proof_captured_at) {
+      changes.proof_captured_at = new Date();
+    }
+
+    return await this.deliveryRepository.update(delivery.id, changes);
+  }
+
+  /**
+   * Store the proof a provider has for a delivered order. Failures are
+   * logged rather than thrown so the webhook still moves the order along.
+   */
+  async captureProviderProof(
+    delivery: Delivery,
+    webhookResult: DeliveryWebhookDto,
+  ): Promise<void> {
+    // Redelivered webhooks find the proof already stored
+    if (delivery.proof_captured_at) {
+      return;
+    }
+
+    try {
+      const webhookProof = webhookResult.data?.proof_of_delivery || {};
+      let providerProof: ProofOfDelivery | null = null;
+      if (delivery.provider === DeliveryProvider.UBER) {
+        try {
+          providerProof = await this.uberDeliveryService.getProofOfDelivery(
+            delivery.tracking_number,
+          );
+        } catch (error) {
+          this.logger.warn(
+            `No Uber proof of delivery for ${delivery.tracking_number}: ${error.message}`,
+          );
+        }
+      }
+
+      const order = await this.orderRepository.findOne({
+        where: { id: delivery.order_id },
+      });
+      const pinEntered = webhookProof.pin_entered;
+      const location = webhookProof.completion_location;
+      const latitude = location?.lat ?? location?.latitude;
+      const longitude = location?.lng ?? location?.longitude;
+      const hasCoordinates = latitude != null && longitude != null;
+
+      await this.deliveryRepository.update(delivery.id, {
+        proof_photo_url: await this.storeProviderImage(
+          delivery,
+          'photo',
+          webhookProof.photo_url || providerProof?.photo,
+        ),
+        proof_signature_url: await this.storeProviderImage(
+          delivery,
+          'signature',
+          webhookProof.signature_url || providerProof?.signature,
+        ),
+        proof_recipient_name:
+          webhookProof.signer_name || providerProof?.recipientName || null,
+        proof_pin_verified:
+          order?.delivery_pin && pinEntered != null
+            ? this.pinMatches(order.delivery_pin, String(pinEntered))
+            : null,
+        proof_latitude: hasCoordinates
+          ? Number(latitude)
+          : delivery.courier_latitude ?? null,
+        proof_longitude: hasCoordinates
+          ? Number(longitude)
+          : delivery.courier_longitude ?? null,
+        proof_captured_at:
+          providerProof?.deliveredAt ??
+          (webhookResult.timestamp
+            ? new Date(webhookResult.timestamp)
+            : new Date()),
+        proof_data: {
+          captured_by: delivery.provider,
+          webhook: webhookResult.data?.proof_of_delivery ?? null,
+          provider: providerProof,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to store proof of delivery for ${delivery.id}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Everything on record about how an order was delivered, for support
+   * handling a dispute
+   */
+  async getOrderEvidence(
+    orderId: string,
+  ): Promise<DeliveryEvidenceResponseDto> {
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId },
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const attempts = await this.deliveryRepository.findAttemptsByOrderId(
+      orderId,
+    );
+    const withEvents = await Promise.all(
+      attempts.map(attempt => this.deliveryRepository.findById(attempt.id)),
+    );
+    const history = await this.orderStateMachine.getHistory(orderId);
+
+    return {
+      order_id: order.id,
+      order_number: order.order_number,
+      order_status: order.order_status,
+      customer_id: order.customer_id,
+      vendor_id: order.vendor_id,
+      total_amount: Number(order.total_amount),
+      currency: order.currency,
+      delivered_at: order.delivered_at ?? null,
+      attempts: withEvents
+        .filter(delivery => !!delivery)
+        .map(delivery => this.mapAttempt(delivery, order)),
+      status_history: history.map(entry => ({
+        from_status: entry.from_status ?? null,
+        to_status: entry.to_status,
+        actor_type: entry.actor_type,
+        actor_id: entry.actor_id ?? null,
+        reason: entry.reason ?? null,
+        created_at: entry.created_at,
+      })),
+    };
+  }
+
+  mapProof(delivery: Delivery, order?: Order): DeliveryProofDto {
+    return {
+      photo_url: delivery.proof_photo_url ?? null,
+      signature_url: delivery.proof_signature_url ?? null,
+      recipient_name: delivery.proof_recipient_name ?? null,
+      pin_required: !!(order ?? delivery.order)?.delivery_pin,
+      pin_verified: delivery.proof_pin_verified ?? null,
+      pin_attempts: delivery.proof_pin_attempts ?? 0,
+      latitude:
+        delivery.proof_latitude != null
+          ? Number(delivery.proof_latitude)
+          : null,
+      longitude:
+        delivery.proof_longitude != null
+          ? Number(delivery.proof_longitude)
+          : null,
+      captured_at: delivery.proof_captured_at ?? null,
+    };
+  }
+
+  private mapAttempt(
+    delivery: Delivery,
+    order: Order,
+  ): DeliveryEvidenceAttemptDto {
+    return {
+      id: delivery.id,
+      attempt_number: delivery.attempt_number,
+      provider: delivery.provider,
+      tracking_number: delivery.tracking_number,
+      status: delivery.status,
+      failure_reason: delivery.failure_reason ?? null,
+      courier_name: delivery.courier_name ?? null,
+      courier_phone: delivery.courier_phone ?? null,
+      rider_id: delivery.rider_id ?? null,
+      destination_address: delivery.destination_address,
+      actual_delivery: delivery.actual_delivery ?? null,
+      proof: this.mapProof(delivery, order),
+      proof_data: delivery.proof_data ?? null,
+      tracking_events: [...(delivery.tracking_events || [])]
+        .sort(
+          (a, b) =>
+            new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+        )
+        .map(event => ({
+          status: event.status,
+          description: event.description,
+          location: event.location ?? null,
+          timestamp: event.timestamp,
+          provider_data: event.provider_data ?? null,
+        })),
+      created_at: delivery.created_at,
+    };
+  }
+
+  /**
+   * Copy a provider's proof image into our storage. Providers send either
+   * a link or base64 data. Falls back to the provider's link when the copy
+   * fails, so there is still something to look at.
+   */
+  private async storeProviderImage(
+    delivery: Delivery,
+    label: string,
+    source?: string,
+  ): Promise<string | null> {
+    if (!source) {
+      return null;
+    }
+
+    const isUrl = /^https?:\/\//i.test(source);
+    try {
+      let buffer: Buffer;
+      let mimetype = 'image/jpeg';
+      if (isUrl) {
+        const response = await firstValueFrom(
+          this.httpService.get<ArrayBuffer>(source, {
+            responseType: 'arraybuffer',
+          }),
+        );
+        if (response.status !== 200) {
+          throw new Error(`download returned ${response.status}`);
+        }
+        buffer = Buffer.from(response.data);
+        mimetype = String(response.headers['content-type'] || mimetype);
+      } else {
+        const dataUri = source.match(/^data:([^;]+);base64,(.*)$/);
+        buffer = Buffer.from(dataUri ? dataUri[2] : source, 'base64');
+        mimetype = dataUri ? dataUri[1] : mimetype;
+      }
+
+      const uploaded = await this.fileStorageService.uploadImageBuffer(
+        buffer,
+        `${delivery.id}-${label}.${mimetype.split('/')[1] || 'jpg'}`,
+        mimetype,
+      );
+      return uploaded.url;
+    } catch (error) {
+      this.logger.warn(
+        `Could not store ${delivery.provider} proof ${label} for ${delivery.id}: ${error.message}`,
+      );
+      return isUrl ? source : null;
+    }
+  }
+
+  private pinMatches(expected: string, entered: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(entered.trim());
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
@@ -4,6 +4,9 @@ import { ShipbubbleProviderInterface } from '../interfaces/shipbubble-provider.i
 import { UberProviderInterface } from '../interfaces/uber-provider.interface';
 import { ShipbubbleDeliveryService } from './shipbubble-delivery.service';
 import { UberDeliveryService } from './uber-delivery.service';
+import { SelfDeliveryProviderInterface } from '../interfaces/self-delivery-provider.interface';
+import { SelfDeliveryService } from './self-delivery.service';
+import { DeliveryProvider } from 'src/entities';
 
 @Injectable()
 export class DeliveryProviderFactoryService implements DeliveryProviderFactoryInterface {
@@ -12,6 +15,7 @@ export class DeliveryProviderFactoryService implements DeliveryProviderFactoryIn
   constructor(
     private readonly shipbubbleService: ShipbubbleDeliveryService,
     private readonly uberService: UberDeliveryService,
+    private readonly selfDeliveryService: SelfDeliveryService,
   ) {}
   getProviderByCountry(country: string): ShipbubbleProviderInterface | UberProviderInterface {
     const normalizedCountry = country.toUpperCase();
@@ -39,6 +43,32 @@ export class DeliveryProviderFactoryService implements DeliveryProviderFactoryIn
     return this.uberService;
   }
 
+  /**
+   * Get self-delivery provider (vendor's own riders)
+   */
+  getSelfDeliveryProvider(): SelfDeliveryProviderInterface {
+    return this.selfDeliveryService;
+  }
+
+  /**
+   * Get the provider a delivery or quote was made with
+   */
+  getProvider(
+    provider: DeliveryProvider,
+  ):
+    | ShipbubbleProviderInterface
+    | UberProviderInterface
+    | SelfDeliveryProviderInterface {
+    switch (provider) {
+      case DeliveryProvider.SHIPBUBBLE:
+        return this.shipbubbleService;
+      case DeliveryProvider.SELF_DELIVERY:
+        return this.selfDeliveryService;
+      default:
+        return this.uberService;
+    }
+  }
+
   /**
    * Check if country is supported by any provider
    */
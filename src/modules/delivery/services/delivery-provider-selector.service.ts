@@ -1,39 +1,110 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { DeliveryProvider } from 'src/entities';
 
 @Injectable()
 export class DeliveryProviderSelectorService {
- 
-  selectProvider(country: string): DeliveryProvider {
-    const countryCode = country.toUpperCase();
-    
-    // Nigeria uses Shipbubble
-    if (countryCode === 'NG') {
-      return DeliveryProvider.SHIPBUBBLE;
+  private readonly logger = new Logger(DeliveryProviderSelectorService.name);
+  private readonly routeProviders: Map<string, DeliveryProvider[]>;
+
+  constructor(private readonly configService: ConfigService) {
+    this.routeProviders = this.parseRouteProviders(
+      this.configService.get<string>(
+        'deliveryRates.routeProviders',
+        'NG:shipbubble,*:uber',
+      ),
+    );
+  }
+
+  /**
+   * Vendors that deliver to the address with their own riders use them;
+   * everyone else goes to the third-party provider for their country.
+   */
+  selectProvider(
+    country: string,
+    options: { selfDeliveryAvailable?: boolean } = {},
+  ): DeliveryProvider {
+    if (options.selfDeliveryAvailable) {
+      return DeliveryProvider.SELF_DELIVERY;
     }
-    
-    // All other countries use Uber
-    // This includes US, CA, UK, AU, etc.
-    return DeliveryProvider.UBER;
+
+    // First provider configured for the country; by default Nigeria uses
+    // Shipbubble and all other countries use Uber
+    return this.getAvailableProviders(country)[0];
   }
 
 
-  getAvailableProviders(country: string): DeliveryProvider[] {
+  /**
+   * Every provider enabled for deliveries from a country, which rate
+   * shopping asks for quotes
+   */
+  getAvailableProviders(
+    country: string,
+    options: { selfDeliveryAvailable?: boolean } = {},
+  ): DeliveryProvider[] {
     const countryCode = country.toUpperCase();
-    
-    if (countryCode === 'NG') {
-      return [DeliveryProvider.SHIPBUBBLE];
-    }
-    
-    return [DeliveryProvider.UBER];
+    const providers = options.selfDeliveryAvailable
+      ? [DeliveryProvider.SELF_DELIVERY]
+      : [];
+
+    return [
+      ...providers,
+      ...(this.routeProviders.get(countryCode) ||
+        this.routeProviders.get('*') || [DeliveryProvider.UBER]),
+    ];
   }
 
-  isProviderAvailable(provider: DeliveryProvider, country: string): boolean {
-    const availableProviders = this.getAvailableProviders(country);
+  isProviderAvailable(
+    provider: DeliveryProvider,
+    country: string,
+    options: { selfDeliveryAvailable?: boolean } = {},
+  ): boolean {
+    const availableProviders = this.getAvailableProviders(country, options);
     return availableProviders.includes(provider);
   }
 
-  getDefaultProvider(country: string): DeliveryProvider {
-    return this.selectProvider(country);
+  getDefaultProvider(
+    country: string,
+    options: { selfDeliveryAvailable?: boolean } = {},
+  ): DeliveryProvider {
+    return this.selectProvider(country, options);
+  }
+
+  /**
+   * Parse "NG:shipbubble|uber,*:uber" into providers per country code
+   */
+  private parseRouteProviders(
+    routes: string,
+  ): Map<string, DeliveryProvider[]> {
+    const known = Object.values(DeliveryProvider) as string[];
+    const routeProviders = new Map<string, DeliveryProvider[]>();
+
+    for (const route of routes.split(',')) {
+      const [country, providerList] = route.split(':').map((part) => part.trim());
+      if (!country || !providerList) {
+        continue;
+      }
+
+      const providers = providerList
+        .split('|')
+        .map((provider) => provider.trim().toLowerCase())
+        .filter((provider) => {
+          // Self-delivery depends on the vendor's zones, not the route
+          if (
+            !known.includes(provider) ||
+            provider === DeliveryProvider.SELF_DELIVERY
+          ) {
+            this.logger.warn(`Ignoring delivery provider "${provider}" for ${country}`);
+            return false;
+          }
+          return true;
+        }) as DeliveryProvider[];
+
+      if (providers.length > 0) {
+        routeProviders.set(country.toUpperCase(), providers);
+      }
+    }
+
+    return routeProviders;
   }
 }
@@ -304,6 +304,21 @@ export class DeliveryQuoteService {
     return await this.deliveryQuoteRepository.save(quote);
   }
 
+  /**
+   * Record a customer ordering with a rate-shopping candidate other than
+   * the one selected for them
+   */
+  async confirmCustomerChoice(quoteId: string, customerId: string): Promise<void> {
+    const quote = await this.deliveryQuoteRepository.findOne({
+      where: { id: quoteId },
+    });
+
+    if (quote && quote.status === QuoteStatus.PENDING) {
+      quote.markAsSelected(customerId, 'customer_choice');
+      await this.deliveryQuoteRepository.save(quote);
+    }
+  }
+
   /**
    * Mark quote as used
    */
@@ -0,0 +1,262 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  Delivery,
+  DeliveryProvider,
+  DeliveryQuote,
+  ShipmentStatus,
+} from 'src/entities';
+import { DeliveryRatePolicy, UnavailableDeliveryProviderDto } from '../dto';
+
+// Outcomes that count towards a provider's reliability
+const CLOSED_STATUSES = [
+  ShipmentStatus.DELIVERED,
+  ShipmentStatus.FAILED,
+  ShipmentStatus.CANCELLED,
+  ShipmentStatus.RETURNED,
+];
+
+export interface RankedDeliveryQuote {
+  quote: DeliveryQuote;
+  estimated_delivery_time: Date | null;
+  reliability_score: number;
+}
+
+export interface DeliveryRateShoppingResult {
+  policy: DeliveryRatePolicy;
+  // Best first
+  ranked: RankedDeliveryQuote[];
+  unavailable: UnavailableDeliveryProviderDto[];
+  selection_reason: string;
+}
+
+/**
+ * Asks every provider on a route for a quote at once and ranks what comes
+ * back by the configured policy
+ */
+@Injectable()
+export class DeliveryRateShoppingService {
+  private readonly logger = new Logger(DeliveryRateShoppingService.name);
+
+  constructor(
+    @InjectRepository(Delivery)
+    private readonly deliveryRepository: Repository<Delivery>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  getPolicy(): DeliveryRatePolicy {
+    const policy = this.configService.get<string>(
+      'deliveryRates.policy',
+      DeliveryRatePolicy.CHEAPEST,
+    );
+    if (!(Object.values(DeliveryRatePolicy) as string[]).includes(policy)) {
+      this.logger.warn(
+        `Unknown delivery rate policy "${policy}", using cheapest`,
+      );
+      return DeliveryRatePolicy.CHEAPEST;
+    }
+    return policy as DeliveryRatePolicy;
+  }
+
+  /**
+   * Request quotes from the providers in parallel. A provider that errors or
+   * doesn't answer within the timeout is reported as unavailable.
+   */
+  async shopRates(
+    providers: DeliveryProvider[],
+    requestQuote: (provider: DeliveryProvider) => Promise<DeliveryQuote>,
+    policy: DeliveryRatePolicy = this.getPolicy(),
+  ): Promise<DeliveryRateShoppingResult> {
+    const timeoutMs = this.configService.get<number>(
+      'deliveryRates.providerTimeoutMs',
+      8000,
+    );
+
+    const results = await Promise.all(
+      [...new Set(providers)].map(async provider => {
+        try {
+          const quote = await this.withTimeout(
+            requestQuote(provider),
+            timeoutMs,
+          );
+          return { provider, quote };
+        } catch (error) {
+          this.logger.warn(`No ${provider} delivery quote: ${error.message}`);
+          return { provider, error: error.message as string };
+        }
+      }),
+    );
+
+    const quotes = results
+      .filter(result => result.quote)
+      .map(result => result.quote);
+    const unavailable = results
+      .filter(result => !result.quote)
+      .map(result => ({ provider: result.provider, reason: result.error }));
+
+    const scores = await this.getReliabilityScores(
+      quotes.map(quote => quote.provider),
+    );
+    const ranked = this.rank(
+      quotes.map(quote => ({
+        quote,
+        estimated_delivery_time: this.getEstimatedDeliveryTime(quote),
+        reliability_score: scores.get(quote.provider) ?? 0.5,
+      })),
+      policy,
+    );
+
+    return {
+      policy,
+      ranked,
+      unavailable,
+      selection_reason: ranked.length
+        ? this.describeSelection(ranked, policy)
+        : '',
+    };
+  }
+
+  /**
+   * Share of each provider's deliveries over the window that ended
+   * delivered. Smoothed towards 0.5 so a provider with little history
+   * isn't ranked on one or two outcomes.
+   */
+  async getReliabilityScores(
+    providers: DeliveryProvider[],
+  ): Promise<Map<DeliveryProvider, number>> {
+    const scores = new Map<DeliveryProvider, number>();
+    const uniqueProviders = [...new Set(providers)];
+    if (uniqueProviders.length === 0) {
+      return scores;
+    }
+
+    const windowDays = this.configService.get<number>(
+      'deliveryRates.reliabilityWindowDays',
+      90,
+    );
+    const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+
+    const rows: {
+      provider: DeliveryProvider;
+      delivered: string;
+      total: string;
+    }[] = await this.deliveryRepository
+      .createQueryBuilder('delivery')
+      .select('delivery.provider', 'provider')
+      .addSelect(
+        'COUNT(*) FILTER (WHERE delivery.status = :delivered)',
+        'delivered',
+      )
+      .addSelect('COUNT(*)', 'total')
+      .where('delivery.provider IN (:...providers)', {
+        providers: uniqueProviders,
+      })
+      .andWhere('delivery.status IN (:...closed)', {
+        closed: CLOSED_STATUSES,
+      })
+      .andWhere('delivery.created_at >= :since', { since })
+      .setParameter('delivered', ShipmentStatus.DELIVERED)
+      .groupBy('delivery.provider')
+      .getRawMany();
+
+    for (const provider of uniqueProviders) {
+      const row = rows.find(candidate => candidate.provider === provider);
+      const delivered = Number(row?.delivered ?? 0);
+      const total = Number(row?.total ?? 0);
+      scores.set(
+        provider,
+        Math.round(((delivered + 1) / (total + 2)) * 1000) / 1000,
+      );
+    }
+
+    return scores;
+  }
+
+  private rank(
+    candidates: RankedDeliveryQuote[],
+    policy: DeliveryRatePolicy,
+  ): RankedDeliveryQuote[] {
+    const byFee = (a: RankedDeliveryQuote, b: RankedDeliveryQuote) =>
+      Number(a.quote.fee) - Number(b.quote.fee);
+    // Quotes without an ETA go after those with one
+    const byEta = (a: RankedDeliveryQuote, b: RankedDeliveryQuote) =>
+      (a.estimated_delivery_time?.getTime() ?? Infinity) -
+        (b.estimated_delivery_time?.getTime() ?? Infinity) || 0;
+    const byReliability = (a: RankedDeliveryQuote, b: RankedDeliveryQuote) =>
+      b.reliability_score - a.reliability_score;
+
+    const comparators = {
+      [DeliveryRatePolicy.CHEAPEST]: [byFee, byEta, byReliability],
+      [DeliveryRatePolicy.FASTEST]: [byEta, byFee, byReliability],
+      [DeliveryRatePolicy.RELIABILITY]: [byReliability, byFee, byEta],
+    }[policy];
+
+    return [...candidates].sort((a, b) => {
+      for (const compare of comparators) {
+        const result = compare(a, b);
+        if (result !== 0) {
+          return result;
+        }
+      }
+      return 0;
+    });
+  }
+
+  private describeSelection(
+    ranked: RankedDeliveryQuote[],
+    policy: DeliveryRatePolicy,
+  ): string {
+    const [best] = ranked;
+    const count = `of ${ranked.length} quote${ranked.length === 1 ? '' : 's'}`;
+
+    switch (policy) {
+      case DeliveryRatePolicy.FASTEST:
+        return best.estimated_delivery_time
+          ? `fastest: drop-off by ${best.estimated_delivery_time.toISOString()}, earliest ${count}`
+          : `fastest: no ETAs quoted, cheapest ${count}`;
+      case DeliveryRatePolicy.RELIABILITY:
+        return `reliability: ${Math.round(
+          best.reliability_score * 100,
+        )}% of recent deliveries completed, best ${count}`;
+      default:
+        return `cheapest: ${best.quote.fee} ${best.quote.currency}, lowest ${count}`;
+    }
+  }
+
+  private getEstimatedDeliveryTime(quote: DeliveryQuote): Date | null {
+    if (quote.estimated_delivery_time) {
+      const eta = new Date(quote.estimated_delivery_time);
+      if (!isNaN(eta.getTime())) {
+        return eta;
+      }
+    }
+    if (quote.duration_minutes) {
+      return new Date(
+        new Date(quote.created_at ?? Date.now()).getTime() +
+          quote.duration_minutes * 60 * 1000,
+      );
+    }
+    return null;
+  }
+
+  private async withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number,
+  ): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+        timeoutMs,
+      );
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
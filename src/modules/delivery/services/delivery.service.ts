@@ -19,8 +19,12 @@ import {
   DeliveryQuote,
   Order,
   OrderStatus,
+  OrderStatusActor,
   OrderType,
-  NotificationType,
+  PaymentStatus,
+  QuoteStatus,
+  ScheduledPaymentTiming,
+  Vendor,
 } from 'src/entities';
 import { AddressService } from '../../user/services/address.service';
 import {
@@ -38,17 +42,39 @@ import {
   ShipbubbleCreateShipmentResponseDto,
   ShipbubblePackageCategoryDto,
 } from '../dto';
-import { DeliveryResponseDto } from '../dto';
+import { DeliveryRateShoppingResponseDto, DeliveryResponseDto } from '../dto';
 import { IntializeDeliveryDto } from '../interfaces/intializeDeliveryDto';
 import { VendorService } from '../../vendor/services/vendor.service';
 import { CartService } from '@/modules/cart/services/cart.service';
 import { UberDeliveryService } from './uber-delivery.service';
 import { ShipbubbleDeliveryService } from './shipbubble-delivery.service';
+import { SelfDeliveryService } from './self-delivery.service';
 import { DeliveryProviderSelectorService } from './delivery-provider-selector.service';
+import { DeliveryRateShoppingService } from './delivery-rate-shopping.service';
+import { DeliveryQuoteService } from './delivery-quote.service';
+import {
+  DeliveryLiveTrackingService,
+  normalizeShipmentStatus,
+} from './delivery-live-tracking.service';
+import { DeliveryProofService } from './delivery-proof.service';
 import { getCurrencyForCountry } from '@/utils/currency-mapper';
 import { UserService } from '@/modules/user/services/user.service';
-import { NotificationSSEService } from '@/modules/notification/services/notification-sse.service';
-import { NotificationService } from '@/modules/notification/notification.service';
+import {
+  OrderStateMachineService,
+  OrderTransitionContext,
+} from '@/modules/order/services/order-state-machine.service';
+
+// Provider statuses reached only once a courier has the job
+const COURIER_ASSIGNED_STATUSES = [
+  'courier_assigned',
+  'pickup_imminent',
+  'picked_up',
+  'in_transit',
+  'out_for_delivery',
+  'dropoff_imminent',
+  'delivered',
+  'completed',
+];
 
 @Injectable()
 export class DeliveryService {
@@ -67,24 +93,34 @@ export class DeliveryService {
     @InjectRepository(Order)
     private readonly orderRepository: Repository<Order>,
     private readonly deliveryProviderSelector: DeliveryProviderSelectorService,
+    private readonly deliveryRateShoppingService: DeliveryRateShoppingService,
+    private readonly deliveryQuoteService: DeliveryQuoteService,
     private readonly cartService: CartService,
     private readonly shipbubbleDeliveryService: ShipbubbleDeliveryService,
     private readonly uberDeliveryService: UberDeliveryService,
+    private readonly selfDeliveryService: SelfDeliveryService,
+    private readonly deliveryLiveTrackingService: DeliveryLiveTrackingService,
+    private readonly deliveryProofService: DeliveryProofService,
     private readonly userService: UserService,
-    private readonly notificationSSEService: NotificationSSEService,
-    private readonly notificationService: NotificationService,
     private readonly configService: ConfigService,
+    @Inject(forwardRef(() => OrderStateMachineService))
+    private readonly orderStateMachine: OrderStateMachineService,
   ) {}
 
   private getProviderByCountry(country: string) {
     return this.providerFactory.getProviderByCountry(country);
   }
 
+  /**
+   * Quote a delivery with every provider enabled for the route and select
+   * the best candidate under the rate policy. All candidates are returned
+   * so the customer can order with another one.
+   */
   async intializeDelivery(
     user_id: string,
     userDetails: { name: string; email: string; phone: string },
     intializeDto: IntializeDeliveryDto,
-  ) {
+  ): Promise<DeliveryRateShoppingResponseDto> {
     // ✅ NEW: Use getFormattedAddressForDelivery instead of getAddressByIdForDelivery
     const customerAddress =
       await this.addressService.getFormattedAddressForDelivery(
@@ -113,83 +149,279 @@ export class DeliveryService {
 
     this.logger.log('Subtotal', subtotal);
 
-    // Select delivery provider based on vendor country
-    const selectedDeliveryProvider =
-      this.deliveryProviderSelector.selectProvider(vendor.address.country);
+    // Every provider that can deliver from the vendor to this address
+    const providers = this.deliveryProviderSelector.getAvailableProviders(
+      vendor.address.country,
+      {
+        selfDeliveryAvailable: await this.isSelfDeliveryAvailable(
+          vendor,
+          customerAddress,
+          subtotal,
+        ),
+      },
+    );
 
-    let deliveryFee = 0;
+    this.logger.log(`Getting delivery quotes from ${providers.join(', ')}`);
+
+    const result = await this.deliveryRateShoppingService.shopRates(
+      providers,
+      provider =>
+        this.quoteDelivery(
+          vendor,
+          customerAddress,
+          items,
+          subtotal,
+          provider,
+          userDetails,
+        ),
+    );
 
-    try {
-      this.logger.log('Getting delivery quote');
+    if (result.ranked.length === 0) {
+      this.logger.error('Failed to get delivery quotes', result.unavailable);
+      throw new BadRequestException('Failed to get delivery quotes');
+    }
 
-      // ✅ Pass the formatted customer address
-      const deliveryQuoteResult = await this.getDeliveryQuoteForOrder(
-        vendor,
-        customerAddress, // 👈 Now using DeliveryAddressData
-        items,
-        subtotal,
-        selectedDeliveryProvider,
-        userDetails,
-      );
+    const [best] = result.ranked;
+    await this.deliveryQuoteService.markQuoteAsSelected(
+      best.quote.id,
+      user_id,
+      result.selection_reason,
+    );
 
-      this.logger.log('Delivery quote result', deliveryQuoteResult);
-
-      deliveryFee = deliveryQuoteResult.fee;
-
-      const currency = getCurrencyForCountry(vendor.address.country);
-
-      // Save the delivery quote to db
-      const deliveryQuote = this.deliveryQuoteRepository.create({
-        provider: selectedDeliveryProvider,
-        fee: deliveryQuoteResult.fee,
-        provider_quote_id: deliveryQuoteResult.quote_id,
-        provider_request_token: deliveryQuoteResult.quote_requestToken,
-        service_code: deliveryQuoteResult.quote_ServiceCode,
-        courier_id: deliveryQuoteResult.courier_id,
-        currency: currency,
-        quantity_of_items: items.length,
-        items_price: subtotal,
-        origin_address: {
-          address: vendor.address.address_line_1,
-          city: vendor.address.city,
-          state: vendor.address.state,
-          country: vendor.address.country,
-          postalCode: vendor.address.postal_code,
-          latitude: vendor.address.latitude,
-          longitude: vendor.address.longitude,
-          phone: vendor.user.phone_number,
-          email: vendor.user.email,
-          name: vendor.user.full_name,
-        },
-        destination_address: {
-          // ✅ Use the formatted address
-          address: customerAddress.address,
-          city: customerAddress.city,
-          state: customerAddress.state,
-          country: customerAddress.country,
-          postalCode: customerAddress.postal_code,
-          latitude: customerAddress.latitude,
-          longitude: customerAddress.longitude,
-          phone: customerAddress.phone || userDetails.phone,
-          email: customerAddress.email || userDetails.email,
-          name: customerAddress.name || userDetails.name,
-        },
-      });
+    this.logger.log(
+      `✅ Delivery fee calculated: ${best.quote.fee} via ${best.quote.provider} (${result.selection_reason})`,
+    );
 
-      await this.deliveryQuoteRepository.save(deliveryQuote);
+    return {
+      fee: Number(best.quote.fee),
+      delivery_id: best.quote.id,
+      policy: result.policy,
+      selection_reason: result.selection_reason,
+      candidates: result.ranked.map((candidate, index) => ({
+        delivery_id: candidate.quote.id,
+        provider: candidate.quote.provider,
+        courier_name: candidate.quote.courier_name,
+        fee: Number(candidate.quote.fee),
+        currency: candidate.quote.currency,
+        estimated_delivery_time: candidate.estimated_delivery_time,
+        reliability_score: candidate.reliability_score,
+        rank: index + 1,
+        selected: index === 0,
+      })),
+      unavailable_providers: result.unavailable,
+    };
+  }
 
-      this.logger.log(
-        `✅ Delivery fee calculated: ${deliveryFee} via ${selectedDeliveryProvider}`,
+  /**
+   * Quote delivery of order lines to one of the customer's addresses, for
+   * orders placed without a cart such as recurring ones
+   */
+  async quoteDeliveryForAddress(
+    vendor: Vendor,
+    customerId: string,
+    deliveryAddressId: string,
+    items: any[],
+    subtotal: number,
+    options: { provider?: DeliveryProvider; orderId?: string } = {},
+  ): Promise<DeliveryQuote> {
+    const [customer, customerAddress] = await Promise.all([
+      this.userService.findById(customerId),
+      this.addressService.getFormattedAddressForDelivery(deliveryAddressId),
+    ]);
+
+    return await this.quoteDelivery(
+      vendor,
+      customerAddress,
+      items,
+      subtotal,
+      options.provider ||
+        (await this.selectProviderForAddress(
+          vendor,
+          customerAddress,
+          subtotal,
+        )),
+      {
+        name: `${customer.first_name} ${customer.last_name}`,
+        email: customer.email,
+        phone: customer.phone_number,
+      },
+      options.orderId,
+    );
+  }
+
+  /**
+   * Pick the provider for a delivery: the vendor's own riders when one of
+   * its zones covers the address, otherwise the provider for its country
+   */
+  private async selectProviderForAddress(
+    vendor: any,
+    customerAddress: any,
+    subtotal: number,
+  ): Promise<DeliveryProvider> {
+    return this.deliveryProviderSelector.selectProvider(
+      vendor.address.country,
+      {
+        selfDeliveryAvailable: await this.isSelfDeliveryAvailable(
+          vendor,
+          customerAddress,
+          subtotal,
+        ),
+      },
+    );
+  }
+
+  /**
+   * Whether one of the vendor's own delivery zones covers the address
+   */
+  private async isSelfDeliveryAvailable(
+    vendor: any,
+    customerAddress: any,
+    subtotal: number,
+  ): Promise<boolean> {
+    const selfDeliveryQuote = await this.selfDeliveryService.getDeliveryQuote(
+      vendor.id,
+      vendor.address,
+      customerAddress,
+      subtotal,
+    );
+    return !!selfDeliveryQuote;
+  }
+
+  /**
+   * Fetch a fresh quote for an order's delivery and point the order at it.
+   * Quotes expire, so scheduled orders are re-quoted close to dispatch. The
+   * new fee is only passed on to just-in-time orders not charged yet.
+   */
+  async requoteDeliveryForOrder(orderId: string): Promise<DeliveryQuote> {
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId },
+      relations: ['order_items', 'order_items.menu_item'],
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+    if (order.order_type !== OrderType.DELIVERY || !order.delivery_address_id) {
+      throw new BadRequestException('Order has no delivery address');
+    }
+
+    const vendor = await this.vendorService.getVendorById(order.vendor_id);
+    const previousQuote = order.delivery_quote_id
+      ? await this.deliveryQuoteRepository.findOne({
+          where: { id: order.delivery_quote_id },
+        })
+      : null;
+
+    const deliveryQuote = await this.quoteDeliveryForAddress(
+      vendor,
+      order.customer_id,
+      order.delivery_address_id,
+      order.order_items || [],
+      Number(order.subtotal),
+      { provider: previousQuote?.provider, orderId: order.id },
+    );
+
+    const updates: Partial<Order> = { delivery_quote_id: deliveryQuote.id };
+    if (
+      order.payment_timing === ScheduledPaymentTiming.JUST_IN_TIME &&
+      order.payment_status === PaymentStatus.PENDING
+    ) {
+      const deliveryFee = Number(deliveryQuote.fee);
+      updates.delivery_fee = deliveryFee;
+      updates.total_amount =
+        Math.round(
+          (Number(order.total_amount) -
+            Number(order.delivery_fee) +
+            deliveryFee) *
+            100,
+        ) / 100;
+    } else if (Number(deliveryQuote.fee) !== Number(order.delivery_fee)) {
+      this.logger.warn(
+        `Delivery for order ${order.id} re-quoted at ${deliveryQuote.fee}; customer paid ${order.delivery_fee}`,
       );
+    }
+    await this.orderRepository.update(order.id, updates);
 
-      return {
-        fee: deliveryQuote.fee,
-        delivery_id: deliveryQuote.id,
-      };
-    } catch (error) {
-      this.logger.error('Failed to get delivery quotes', error);
-      throw new BadRequestException('Failed to get delivery quotes');
+    if (previousQuote && !previousQuote.used_at) {
+      await this.deliveryQuoteRepository.update(previousQuote.id, {
+        status: QuoteStatus.CANCELLED,
+      });
     }
+
+    this.logger.log(
+      `Order ${order.id} re-quoted for delivery: ${deliveryQuote.id} (${deliveryQuote.fee} via ${deliveryQuote.provider})`,
+    );
+    return deliveryQuote;
+  }
+
+  /**
+   * Ask the provider for a rate and save it as a delivery quote
+   */
+  private async quoteDelivery(
+    vendor: any,
+    customerAddress: any,
+    items: any[],
+    subtotal: number,
+    provider: DeliveryProvider,
+    userDetails: { name: string; email: string; phone: string },
+    orderId?: string,
+  ): Promise<DeliveryQuote> {
+    // ✅ Pass the formatted customer address
+    const deliveryQuoteResult = await this.getDeliveryQuoteForOrder(
+      vendor,
+      customerAddress, // 👈 Now using DeliveryAddressData
+      items,
+      subtotal,
+      provider,
+      userDetails,
+    );
+
+    this.logger.log('Delivery quote result', deliveryQuoteResult);
+
+    const currency = getCurrencyForCountry(vendor.address.country);
+
+    // Save the delivery quote to db
+    const deliveryQuote = this.deliveryQuoteRepository.create({
+      order_id: orderId,
+      provider,
+      fee: deliveryQuoteResult.fee,
+      provider_quote_id: deliveryQuoteResult.quote_id,
+      provider_request_token: deliveryQuoteResult.quote_requestToken,
+      service_code: deliveryQuoteResult.quote_ServiceCode,
+      courier_id: deliveryQuoteResult.courier_id,
+      courier_name: deliveryQuoteResult.courier_name,
+      estimated_delivery_time: deliveryQuoteResult.estimated_delivery_time,
+      duration_minutes: deliveryQuoteResult.duration_minutes,
+      currency: currency,
+      quantity_of_items: items.length,
+      items_price: subtotal,
+      origin_address: {
+        address: vendor.address.address_line_1,
+        city: vendor.address.city,
+        state: vendor.address.state,
+        country: vendor.address.country,
+        postalCode: vendor.address.postal_code,
+        latitude: vendor.address.latitude,
+        longitude: vendor.address.longitude,
+        phone: vendor.user.phone_number,
+        email: vendor.user.email,
+        name: vendor.user.full_name,
+      },
+      destination_address: {
+        // ✅ Use the formatted address
+        address: customerAddress.address,
+        city: customerAddress.city,
+        state: customerAddress.state,
+        country: customerAddress.country,
+        postalCode: customerAddress.postal_code,
+        latitude: customerAddress.latitude,
+        longitude: customerAddress.longitude,
+        phone: customerAddress.phone || userDetails.phone,
+        email: customerAddress.email || userDetails.email,
+        name: customerAddress.name || userDetails.name,
+      },
+    });
+
+    return await this.deliveryQuoteRepository.save(deliveryQuote);
   }
 
   async validateAddress(
@@ -244,13 +476,16 @@ export class DeliveryService {
       `Creating delivery for order ${orderId} using delivery quote ${deliveryQuoteId}`,
     );
 
-    // Check if delivery already exists for this order
-    const existingDelivery = await this.deliveryRepository.findByOrderId(
+    // Check if delivery already exists for this order. Failed and
+    // cancelled attempts stay on record but don't block a new one.
+    const existingDelivery = await this.deliveryRepository.findActiveByOrderId(
       orderId,
     );
     if (existingDelivery) {
       throw new BadRequestException('Delivery already exists for this order');
     }
+    const attemptNumber =
+      (await this.deliveryRepository.findAttemptsByOrderId(orderId)).length + 1;
 
     // Get the delivery quote
     const deliveryQuote = await this.deliveryQuoteRepository.findOne({
@@ -274,106 +509,214 @@ export class DeliveryService {
     let referenceNumber: string;
     let labelUrl: string;
 
-    if (deliveryQuote.provider === DeliveryProvider.UBER) {
-      // Use Uber's createDelivery method
-      this.logger.log('Creating delivery with Uber Direct');
-
-      // Get Uber delivery service
-      const uberService = this.uberDeliveryService;
-
-      // Create delivery request from quote data
-      const deliveryRequest = {
-        pickup_name: deliveryQuote.origin_address?.name || 'Vendor', // This should come from vendor data
-        pickup_address: JSON.stringify({
-          street_address: [deliveryQuote.origin_address?.address],
-          city: deliveryQuote.origin_address?.city,
-          state: deliveryQuote.origin_address?.state,
-          zip_code: deliveryQuote.origin_address?.postalCode,
-          country: deliveryQuote.origin_address?.country,
-        }),
-        pickup_phone_number:
-          deliveryQuote.origin_address?.phone || '+1234567890', // This should come from vendor data
-        dropoff_name: deliveryQuote.destination_address?.name || 'Customer', // This should come from order data
-        dropoff_address: JSON.stringify({
-          street_address: [deliveryQuote.destination_address?.address],
-          city: deliveryQuote.destination_address?.city,
-          state: deliveryQuote.destination_address?.state,
-          zip_code: deliveryQuote.destination_address?.postalCode,
-          country: deliveryQuote.destination_address?.country,
-        }),
-        dropoff_phone_number:
-          deliveryQuote.destination_address?.phone || '+1234567890', // This should come from order data
-        manifest_items: [
-          {
-            name: 'Food Order',
-            description: 'Food delivery order',
-            quantity: deliveryQuote.quantity_of_items || 1,
-            price: Math.round((deliveryQuote.items_price || 0) * 100),
+    let delivery: Delivery;
+
+    try {
+      if (deliveryQuote.provider === DeliveryProvider.UBER) {
+        // Use Uber's createDelivery method
+        this.logger.log('Creating delivery with Uber Direct');
+
+        // Get Uber delivery service
+        const uberService = this.uberDeliveryService;
+
+        // The courier photographs every drop-off and, when the customer
+        // set one, must enter their delivery PIN
+        const order = await this.orderRepository.findOne({
+          where: { id: orderId },
+        });
+
+        // Create delivery request from quote data
+        const deliveryRequest = {
+          pickup_name: deliveryQuote.origin_address?.name || 'Vendor', // This should come from vendor data
+          pickup_address: JSON.stringify({
+            street_address: [deliveryQuote.origin_address?.address],
+            city: deliveryQuote.origin_address?.city,
+            state: deliveryQuote.origin_address?.state,
+            zip_code: deliveryQuote.origin_address?.postalCode,
+            country: deliveryQuote.origin_address?.country,
+          }),
+          pickup_phone_number:
+            deliveryQuote.origin_address?.phone || '+1234567890', // This should come from vendor data
+          dropoff_name: deliveryQuote.destination_address?.name || 'Customer', // This should come from order data
+          dropoff_address: JSON.stringify({
+            street_address: [deliveryQuote.destination_address?.address],
+            city: deliveryQuote.destination_address?.city,
+            state: deliveryQuote.destination_address?.state,
+            zip_code: deliveryQuote.destination_address?.postalCode,
+            country: deliveryQuote.destination_address?.country,
+          }),
+          dropoff_phone_number:
+            deliveryQuote.destination_address?.phone || '+1234567890', // This should come from order data
+          manifest_items: [
+            {
+              name: 'Food Order',
+              description: 'Food delivery order',
+              quantity: deliveryQuote.quantity_of_items || 1,
+              price: Math.round((deliveryQuote.items_price || 0) * 100),
+            },
+          ],
+          manifest_total_value: Math.round(
+            (deliveryQuote.package_details?.value || 0) * 100,
+          ),
+          pickup_ready_dt: new Date(Date.now() + 20 * 60 * 1000).toISOString(), // 20 minutes from now
+          pickup_deadline_dt: new Date(
+            Date.now() + 50 * 60 * 1000,
+          ).toISOString(), // 50 minutes from now
+          dropoff_ready_dt: new Date(Date.now() + 50 * 60 * 1000).toISOString(), // 50 minutes from now
+          dropoff_deadline_dt: new Date(
+            Date.now() + 140 * 60 * 1000,
+          ).toISOString(), // 140 minutes from now
+          manifest_reference: orderId,
+          external_store_id: orderId,
+          external_id: orderId,
+          quote_id: deliveryQuote.provider_quote_id,
+          deliverable_action: 'deliverable_action_meet_at_door' as const,
+          undeliverable_action: 'return' as const,
+          dropoff_notes: 'Please ring the doorbell',
+          dropoff_verification: {
+            picture: true,
+            ...(order?.delivery_pin && {
+              pincode: { enabled: true, value: order.delivery_pin },
+            }),
           },
-        ],
-        manifest_total_value: Math.round(
-          (deliveryQuote.package_details?.value || 0) * 100,
-        ),
-        pickup_ready_dt: new Date(Date.now() + 20 * 60 * 1000).toISOString(), // 20 minutes from now
-        pickup_deadline_dt: new Date(Date.now() + 50 * 60 * 1000).toISOString(), // 50 minutes from now
-        dropoff_ready_dt: new Date(Date.now() + 50 * 60 * 1000).toISOString(), // 50 minutes from now
-        dropoff_deadline_dt: new Date(
-          Date.now() + 140 * 60 * 1000,
-        ).toISOString(), // 140 minutes from now
-        manifest_reference: orderId,
-        external_store_id: orderId,
-        external_id: orderId,
-        quote_id: deliveryQuote.provider_quote_id,
-        deliverable_action: 'deliverable_action_meet_at_door' as const,
-        undeliverable_action: 'return' as const,
-        dropoff_notes: 'Please ring the doorbell',
-      };
+        };
 
-      this.logger.log('Delivery request', deliveryRequest);
-
-      deliveryResult = await uberService.createDelivery(deliveryRequest);
-      this.logger.log('Delivery response', deliveryResult);
-      trackingNumber = deliveryResult.id;
-      referenceNumber = deliveryResult.external_id || orderId;
-      labelUrl = deliveryResult.tracking_url;
-    } else if (deliveryQuote.provider === DeliveryProvider.SHIPBUBBLE) {
-      // Use Shipbubble's createShipmentLabel method
-      this.logger.log('Creating shipment label with Shipbubble');
-
-      // Get Shipbubble delivery service
-      const shipbubbleService = this.shipbubbleDeliveryService;
-
-      // Create shipment request from quote data
-      const shipmentRequest = {
-        request_token: deliveryQuote.provider_request_token,
-        courier_id: deliveryQuote.courier_id,
-        service_code: deliveryQuote.service_code,
-      };
+        this.logger.log('Delivery request', deliveryRequest);
 
-      this.logger.log('Shipment request', shipmentRequest);
+        deliveryResult = await uberService.createDelivery(deliveryRequest);
+        this.logger.log('Delivery response', deliveryResult);
+        trackingNumber = deliveryResult.id;
+        referenceNumber = deliveryResult.external_id || orderId;
+        labelUrl = deliveryResult.tracking_url;
+      } else if (deliveryQuote.provider === DeliveryProvider.SHIPBUBBLE) {
+        // Use Shipbubble's createShipmentLabel method
+        this.logger.log('Creating shipment label with Shipbubble');
 
-      deliveryResult = await shipbubbleService.createShipmentLabel(
-        shipmentRequest,
-      );
-      this.logger.log('Shipment response', deliveryResult);
-      trackingNumber =
-        deliveryResult.data.tracking_number || deliveryResult.data.tracking_url;
-      referenceNumber = deliveryResult.data.reference_number || orderId;
-      labelUrl = deliveryResult.data.tracking_url;
-    } else {
-      throw new BadRequestException(
-        `Unsupported delivery provider: ${deliveryQuote.provider}`,
+        // Get Shipbubble delivery service
+        const shipbubbleService = this.shipbubbleDeliveryService;
+
+        // Create shipment request from quote data
+        const shipmentRequest = {
+          request_token: deliveryQuote.provider_request_token,
+          courier_id: deliveryQuote.courier_id,
+          service_code: deliveryQuote.service_code,
+        };
+
+        this.logger.log('Shipment request', shipmentRequest);
+
+        deliveryResult = await shipbubbleService.createShipmentLabel(
+          shipmentRequest,
+        );
+        this.logger.log('Shipment response', deliveryResult);
+        trackingNumber =
+          deliveryResult.data.tracking_number ||
+          deliveryResult.data.tracking_url;
+        referenceNumber = deliveryResult.data.reference_number || orderId;
+        labelUrl = deliveryResult.data.tracking_url;
+      } else if (deliveryQuote.provider === DeliveryProvider.SELF_DELIVERY) {
+        // No provider to call; the vendor assigns one of its riders next
+        this.logger.log("Booking delivery with the vendor's own riders");
+
+        delivery = await this.selfDeliveryService.createDelivery(
+          deliveryQuote,
+          orderId,
+          attemptNumber,
+        );
+        trackingNumber = delivery.tracking_number;
+        referenceNumber = orderId;
+      } else {
+        throw new BadRequestException(
+          `Unsupported delivery provider: ${deliveryQuote.provider}`,
+        );
+      }
+    } catch (error) {
+      // Keep the rejected attempt so failover knows what was tried
+      await this.deliveryRepository.create({
+        ...this.buildDeliveryRecord(deliveryQuote, orderId, attemptNumber),
+        tracking_number: null,
+        status: ShipmentStatus.FAILED,
+        failure_reason: error.message,
+      });
+      this.logger.error(
+        `${deliveryQuote.provider} rejected delivery for order ${orderId} (attempt ${attemptNumber}): ${error.message}`,
       );
+      throw error;
+    }
+
+    if (!delivery) {
+      delivery = await this.deliveryRepository.create({
+        ...this.buildDeliveryRecord(deliveryQuote, orderId, attemptNumber),
+        tracking_number: trackingNumber,
+        reference_number: referenceNumber,
+        label_url: labelUrl,
+        provider_response: deliveryResult,
+      });
     }
 
     deliveryQuote.trackingNumber = trackingNumber;
     deliveryQuote.labelUrl = labelUrl;
     deliveryQuote.referenceNumber = referenceNumber;
+    deliveryQuote.markAsUsed(delivery.id);
     await this.deliveryQuoteRepository.save(deliveryQuote);
 
     return this.mapToDeliveryResponse(deliveryQuote);
   }
 
+  /**
+   * Delivery fields every attempt records, whether or not the provider
+   * accepted it
+   */
+  private buildDeliveryRecord(
+    deliveryQuote: DeliveryQuote,
+    orderId: string,
+    attemptNumber: number,
+  ): Partial<Delivery> {
+    const origin = deliveryQuote.origin_address;
+    const destination = deliveryQuote.destination_address;
+    const durationMinutes = deliveryQuote.duration_minutes || 60;
+
+    return {
+      order_id: orderId,
+      provider: deliveryQuote.provider,
+      delivery_quote_id: deliveryQuote.id,
+      attempt_number: attemptNumber,
+      cost: deliveryQuote.fee,
+      currency: deliveryQuote.currency,
+      courier_name: deliveryQuote.courier_name || deliveryQuote.provider,
+      service_type:
+        deliveryQuote.service_type ||
+        deliveryQuote.service_code ||
+        deliveryQuote.provider,
+      rate_id: deliveryQuote.provider_quote_id || deliveryQuote.id,
+      estimated_delivery:
+        deliveryQuote.estimated_delivery_time ??
+        new Date(Date.now() + durationMinutes * 60 * 1000),
+      origin_address: {
+        address: origin?.address,
+        city: origin?.city,
+        state: origin?.state,
+        country: origin?.country,
+        postalCode: origin?.postalCode,
+      },
+      destination_address: {
+        address: destination?.address,
+        city: destination?.city,
+        state: destination?.state,
+        country: destination?.country,
+        postalCode: destination?.postalCode,
+      },
+      package_details: {
+        weight: deliveryQuote.package_details?.weight ?? 0,
+        length: deliveryQuote.package_details?.length ?? 0,
+        width: deliveryQuote.package_details?.width ?? 0,
+        height: deliveryQuote.package_details?.height ?? 0,
+        value:
+          deliveryQuote.package_details?.value ??
+          (Number(deliveryQuote.items_price) || 0),
+      },
+    };
+  }
+
   async trackDelivery(
     trackingNumber: string,
   ): Promise<ShipmentTrackingResponseDto> {
@@ -385,10 +728,9 @@ export class DeliveryService {
     }
 
     // Get provider based on the stored provider type
-    const deliveryProvider =
-      delivery.provider === DeliveryProvider.SHIPBUBBLE
-        ? this.providerFactory.getShipbubbleProvider()
-        : this.providerFactory.getUberProvider();
+    const deliveryProvider = this.providerFactory.getProvider(
+      delivery.provider,
+    );
 
     const trackingData = await deliveryProvider.trackShipment(trackingNumber);
 
@@ -417,8 +759,8 @@ export class DeliveryService {
       currentLocation: trackingData.currentLocation,
       events: trackingData.events || [],
       estimatedDelivery: trackingData.estimatedDelivery,
-      courier: 'courier',
-      service: 'service',
+      courier: delivery.courier_name,
+      service: delivery.service_type,
     };
   }
 
@@ -435,10 +777,9 @@ export class DeliveryService {
     }
 
     // Get provider based on the stored provider type
-    const deliveryProvider =
-      delivery.provider === DeliveryProvider.SHIPBUBBLE
-        ? this.providerFactory.getShipbubbleProvider()
-        : this.providerFactory.getUberProvider();
+    const deliveryProvider = this.providerFactory.getProvider(
+      delivery.provider,
+    );
 
     const cancelled = await deliveryProvider.cancelShipment(trackingNumber);
     if (cancelled) {
@@ -456,22 +797,29 @@ export class DeliveryService {
     return cancelled;
   }
 
-  async processWebhook(
+  /**
+   * Verify a delivery provider webhook and normalise it. An unsuccessful
+   * result means the signature or payload was rejected.
+   */
+  async verifyWebhook(
     provider: DeliveryProvider,
     payload: any,
     signature: string,
   ): Promise<DeliveryWebhookDto> {
     // Get provider based on the provider type
-    const deliveryProvider =
-      provider === DeliveryProvider.SHIPBUBBLE
-        ? this.providerFactory.getShipbubbleProvider()
-        : this.providerFactory.getUberProvider();
-
-    const webhookResult = await deliveryProvider.processWebhook(
-      payload,
-      signature,
-    );
+    const deliveryProvider = this.providerFactory.getProvider(provider);
+
+    return deliveryProvider.processWebhook(payload, signature);
+  }
 
+  /**
+   * Apply a verified delivery webhook to its order. Called by the webhook
+   * inbox worker, once per stored event.
+   */
+  async applyWebhookResult(
+    provider: DeliveryProvider,
+    webhookResult: DeliveryWebhookDto,
+  ): Promise<DeliveryWebhookDto> {
     if (webhookResult.success && webhookResult.trackingId) {
       // Update delivery status based on webhook event
       // GET delivery quote with trackingid
@@ -486,111 +834,14 @@ export class DeliveryService {
           `Processing webhook for delivery quote ${deliveryQuote.id} and order ${deliveryQuote.order.id}`,
         );
 
-        // Map delivery status to order status
-        const newOrderStatus = this.mapDeliveryStatusToOrderStatus(
+        await this.recordWebhookTracking(deliveryQuote, webhookResult);
+
+        await this.applyDeliveryStatusToOrder(
+          deliveryQuote.order,
+          provider,
           webhookResult.status || webhookResult.eventType,
+          { tracking_id: webhookResult.trackingId },
         );
-
-        if (newOrderStatus) {
-          const order = deliveryQuote.order;
-          const previousStatus = order.order_status;
-
-          // Only update if status has changed
-          if (previousStatus !== newOrderStatus) {
-            this.logger.log(
-              `Updating order ${order.id} status from ${previousStatus} to ${newOrderStatus}`,
-            );
-
-            // Update order status based on delivery status
-            order.order_status = newOrderStatus;
-
-            // Update additional fields based on status
-            if (newOrderStatus === OrderStatus.OUT_FOR_DELIVERY) {
-              // Order is out for delivery
-              if (!order.order_ready_at) {
-                order.order_ready_at = new Date();
-              }
-            } else if (newOrderStatus === OrderStatus.DELIVERED) {
-              // Order has been delivered
-              order.delivered_at = new Date();
-            }
-
-            // Save updated order using OrderRepository
-            await this.orderRepository.save(order);
-
-            // Get customer ID
-            const customerId = order.customer_id;
-            const orderNumber = order.order_number;
-
-            // Send SSE notification to customer
-            try {
-              const notificationMessage =
-                this.getOrderStatusNotificationMessage(
-                  newOrderStatus,
-                  orderNumber,
-                  order.order_type,
-                );
-              this.notificationSSEService.sendOrderUpdate(
-                customerId,
-                order.id,
-                newOrderStatus,
-                notificationMessage,
-              );
-              this.logger.log(
-                `SSE notification sent to customer ${customerId} for order ${order.id} status: ${newOrderStatus}`,
-              );
-            } catch (error) {
-              this.logger.error(
-                `Failed to send SSE notification for order ${order.id}: ${error.message}`,
-              );
-            }
-
-            // Send push notification to customer
-            try {
-              const pushTitle = `Order #${orderNumber} - ${this.getOrderStatusTitle(
-                newOrderStatus,
-              )}`;
-              const pushMessage = this.getOrderStatusNotificationMessage(
-                newOrderStatus,
-                orderNumber,
-                order.order_type,
-              );
-
-              await this.notificationService.sendPushNotification(
-                customerId,
-                NotificationType.ORDER_UPDATE,
-                pushTitle,
-                pushMessage,
-                {
-                  order_id: order.id,
-                  order_number: orderNumber,
-                  status: newOrderStatus,
-                  order_type: order.order_type,
-                  delivery_status:
-                    webhookResult.status || webhookResult.eventType,
-                  delivery_provider: provider,
-                },
-              );
-              this.logger.log(
-                `Push notification sent to customer ${customerId} for order ${order.id} status: ${newOrderStatus}`,
-              );
-            } catch (error) {
-              this.logger.error(
-                `Failed to send push notification for order ${order.id}: ${error.message}`,
-              );
-            }
-          } else {
-            this.logger.log(
-              `Order ${order.id} status unchanged: ${previousStatus}`,
-            );
-          }
-        } else {
-          this.logger.warn(
-            `Could not map delivery status ${
-              webhookResult.status || webhookResult.eventType
-            } to order status`,
-          );
-        }
       } else {
         this.logger.warn(
           `No order found for delivery quote ${webhookResult.trackingId}`,
@@ -601,6 +852,144 @@ export class DeliveryService {
     return webhookResult;
   }
 
+  /**
+   * Whether a provider update shows a courier has taken the job
+   */
+  private isCourierAssigned(webhookResult: DeliveryWebhookDto): boolean {
+    if (webhookResult.data?.courier?.name) {
+      return true;
+    }
+    const status = (webhookResult.status || '').toLowerCase();
+    return COURIER_ASSIGNED_STATUSES.includes(status);
+  }
+
+  /**
+   * Record a provider update on the delivery booked from this quote: the
+   * timeline entry, courier details and when the courier was assigned, so
+   * the failover sweep leaves it alone. Proof of delivery is stored once
+   * the provider reports the drop-off.
+   */
+  private async recordWebhookTracking(
+    deliveryQuote: DeliveryQuote,
+    webhookResult: DeliveryWebhookDto,
+  ): Promise<void> {
+    const delivery = await this.deliveryRepository.findActiveByOrderId(
+      deliveryQuote.order_id,
+    );
+    if (!delivery || delivery.delivery_quote_id !== deliveryQuote.id) {
+      return;
+    }
+
+    const courier = webhookResult.data?.courier;
+    const location = courier?.location;
+    const status = webhookResult.status || webhookResult.eventType;
+    const updated = await this.deliveryLiveTrackingService.recordProviderUpdate(
+      delivery,
+      {
+        status,
+        description: webhookResult.description,
+        courier: courier && {
+          name: courier.name,
+          phone: courier.phone,
+          latitude: location?.lat ?? location?.latitude,
+          longitude: location?.lng ?? location?.longitude,
+        },
+        courierAssigned: this.isCourierAssigned(webhookResult),
+        providerData: webhookResult.data,
+      },
+    );
+
+    if (normalizeShipmentStatus(status) === ShipmentStatus.DELIVERED) {
+      await this.deliveryProofService.captureProviderProof(
+        updated,
+        webhookResult,
+      );
+    }
+  }
+
+  /**
+   * Move an order along after its delivery changed status, when the
+   * delivery provider is allowed to make that move
+   */
+  async applyDeliveryStatusToOrder(
+    order: Order,
+    provider: DeliveryProvider,
+    deliveryStatus: string,
+    metadata: Record<string, any> = {},
+  ): Promise<void> {
+    // Map delivery status to order status
+    const newOrderStatus = this.mapDeliveryStatusToOrderStatus(deliveryStatus);
+
+    if (!newOrderStatus) {
+      this.logger.warn(
+        `Could not map delivery status ${deliveryStatus} to order status`,
+      );
+      return;
+    }
+
+    const previousStatus = order.order_status;
+
+    // Only update if status has changed and the provider may make this move
+    if (previousStatus === newOrderStatus) {
+      this.logger.log(`Order ${order.id} status unchanged: ${previousStatus}`);
+      return;
+    }
+    if (
+      !this.orderStateMachine.canTransition(
+        OrderStatusActor.DELIVERY_WEBHOOK,
+        previousStatus,
+        newOrderStatus,
+      )
+    ) {
+      this.logger.warn(
+        `Ignoring ${provider} update moving order ${order.id} from ${previousStatus} to ${newOrderStatus}`,
+      );
+      return;
+    }
+
+    this.logger.log(
+      `Updating order ${order.id} status from ${previousStatus} to ${newOrderStatus}`,
+    );
+
+    // Update order status based on delivery status
+    order.order_status = newOrderStatus;
+
+    // Update additional fields based on status
+    if (newOrderStatus === OrderStatus.OUT_FOR_DELIVERY) {
+      // Order is out for delivery
+      if (!order.order_ready_at) {
+        order.order_ready_at = new Date();
+      }
+    } else if (newOrderStatus === OrderStatus.DELIVERED) {
+      // Order has been delivered
+      order.delivered_at = new Date();
+    }
+
+    // Save updated order using OrderRepository
+    await this.orderRepository.save(order);
+
+    const transition: OrderTransitionContext = {
+      actor: OrderStatusActor.DELIVERY_WEBHOOK,
+      metadata: {
+        provider,
+        delivery_status: deliveryStatus,
+        ...metadata,
+      },
+    };
+    await this.orderStateMachine.recordTransition(
+      order.id,
+      previousStatus,
+      newOrderStatus,
+      transition,
+    );
+    this.orderStateMachine.publishTransition(
+      order,
+      previousStatus,
+      newOrderStatus,
+      transition,
+    );
+  }
+
   private async addTrackingEvent(
     deliveryId: string,
     status: string,
@@ -732,6 +1121,9 @@ export class DeliveryService {
     quote_id: string;
     quote_ServiceCode?: string;
     courier_id?: string;
+    courier_name?: string;
+    estimated_delivery_time?: Date;
+    duration_minutes?: number;
   }> {
     this.logger.log(`Getting delivery quotes for provider: ${provider}`);
 
@@ -751,6 +1143,26 @@ export class DeliveryService {
         cartItems,
         subtotal,
       );
+    } else if (provider === DeliveryProvider.SELF_DELIVERY) {
+      const selfDeliveryQuote = await this.selfDeliveryService.getDeliveryQuote(
+        vendor.id,
+        vendor.address,
+        deliveryAddress,
+        subtotal,
+      );
+      if (!selfDeliveryQuote) {
+        throw new Error("Address is outside the vendor's delivery zones");
+      }
+
+      return {
+        fee: selfDeliveryQuote.fee,
+        quote_id: selfDeliveryQuote.zone_id,
+        courier_name: vendor.business_name,
+        estimated_delivery_time: new Date(
+          Date.now() + selfDeliveryQuote.estimated_minutes * 60 * 1000,
+        ),
+        duration_minutes: selfDeliveryQuote.estimated_minutes,
+      };
     }
 
     throw new Error(`Unsupported delivery provider: ${provider}`);
@@ -768,6 +1180,8 @@ export class DeliveryService {
     quote_ServiceCode: string;
     quote_id: string;
     courier_id: string;
+    courier_name: string;
+    estimated_delivery_time?: Date;
   }> {
     const shipbubbleService = this.shipbubbleDeliveryService;
 
@@ -910,6 +1324,8 @@ export class DeliveryService {
     const selectedFee = selectedCourier.total;
 
     const requestToken = ratesResponse.request_token;
+    // Shipbubble sometimes sends a description rather than a time
+    const eta = new Date(selectedCourier.delivery_eta_time);
 
     return {
       fee: selectedFee,
@@ -917,6 +1333,8 @@ export class DeliveryService {
       quote_id: selectedCourierId,
       quote_ServiceCode: selectedServiceCode,
       courier_id: selectedCourierId,
+      courier_name: selectedCourier.courier_name,
+      estimated_delivery_time: isNaN(eta.getTime()) ? undefined : eta,
     };
   }
 
@@ -925,7 +1343,13 @@ export class DeliveryService {
     deliveryAddress: any,
     cartItems: any[],
     subtotal: number,
-  ): Promise<{ fee: number; quote_id: string }> {
+  ): Promise<{
+    fee: number;
+    quote_id: string;
+    courier_name: string;
+    estimated_delivery_time?: Date;
+    duration_minutes?: number;
+  }> {
     this.logger.log('Getting Uber quote');
     const uberService = this.uberDeliveryService;
 
@@ -977,6 +1401,11 @@ export class DeliveryService {
     return {
       fee: deliveryFee,
       quote_id: quoteResponse.id,
+      courier_name: 'Uber Direct',
+      estimated_delivery_time: quoteResponse.dropoff_eta
+        ? new Date(quoteResponse.dropoff_eta)
+        : undefined,
+      duration_minutes: quoteResponse.duration,
     };
   }
 
@@ -1071,49 +1500,4 @@ export class DeliveryService {
     // Default: no mapping
     return null;
   }
-
-  /**
-   * Get notification message based on order status
-   */
-  private getOrderStatusNotificationMessage(
-    status: OrderStatus,
-    orderNumber: string,
-    orderType: OrderType,
-  ): string {
-    switch (status) {
-      case OrderStatus.OUT_FOR_DELIVERY:
-        return `Your order #${orderNumber} is out for delivery! Track your order for real-time updates.`;
-
-      case OrderStatus.DELIVERED:
-        if (orderType === OrderType.PICKUP) {
-          return `Your order #${orderNumber} has been delivered. Thank you for your order!`;
-        }
-        return `Your order #${orderNumber} has been delivered! We hope you enjoy your meal.`;
-
-      case OrderStatus.CANCELLED:
-        return `Your order #${orderNumber} has been cancelled. Please contact support if you have any questions.`;
-
-      default:
-        return `Your order #${orderNumber} status has been updated to ${status}.`;
-    }
-  }
-
-  /**
-   * Get notification title based on order status
-   */
-  private getOrderStatusTitle(status: OrderStatus): string {
-    switch (status) {
-      case OrderStatus.OUT_FOR_DELIVERY:
-        return 'Out for Delivery';
-
-      case OrderStatus.DELIVERED:
-        return 'Delivered';
-
-      case OrderStatus.CANCELLED:
-        return 'Cancelled';
-
-      default:
-        return status.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
-    }
-  }
 }
@@ -0,0 +1,240 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import {
+  Delivery,
+  DeliveryProvider,
+  DeliveryQuote,
+  DeliveryTracking,
+  ShipmentStatus,
+  VendorDeliveryZone,
+} from 'src/entities';
+import { calculateDistance } from 'src/utils/helpers';
+import {
+  DeliveryWebhookDto,
+  SelfDeliveryProviderInterface,
+  SelfDeliveryQuote,
+  ShipmentTrackingResponseDto,
+} from '../dto';
+import { DeliveryRepository } from '../repositories/delivery.repository';
+
+@Injectable()
+export class SelfDeliveryService implements SelfDeliveryProviderInterface {
+  private readonly logger = new Logger(SelfDeliveryService.name);
+
+  constructor(
+    @InjectRepository(VendorDeliveryZone)
+    private readonly zoneRepository: Repository<VendorDeliveryZone>,
+    @InjectRepository(DeliveryTracking)
+    private readonly deliveryTrackingRepository: Repository<DeliveryTracking>,
+    private readonly deliveryRepository: DeliveryRepository,
+  ) {}
+
+  getProviderName(): string {
+    return 'Self Delivery';
+  }
+
+  getSupportedCountries(): string[] {
+    // Wherever the vendor has riders
+    return [];
+  }
+
+  supportsRealTimeTracking(): boolean {
+    return true;
+  }
+
+  requiresConsumerConfirmation(): boolean {
+    return false;
+  }
+
+  getProviderFeatures(): string[] {
+    return ['real_time_tracking', 'rate_calculation'];
+  }
+
+  getWorkflowType(): 'on_demand' | 'scheduled' | 'batch' {
+    return 'on_demand';
+  }
+
+  async getDeliveryQuote(
+    vendorId: string,
+    origin: { latitude: number; longitude: number },
+    destination: { latitude: number; longitude: number },
+    subtotal: number,
+  ): Promise<SelfDeliveryQuote | null> {
+    if (
+      origin?.latitude == null ||
+      origin?.longitude == null ||
+      destination?.latitude == null ||
+      destination?.longitude == null
+    ) {
+      return null;
+    }
+
+    const zones = await this.zoneRepository.find({
+      where: { vendor_id: vendorId, is_active: true },
+      order: { max_distance_km: 'ASC' },
+    });
+    if (zones.length === 0) {
+      return null;
+    }
+
+    const distanceKm = calculateDistance(
+      Number(origin.latitude),
+      Number(origin.longitude),
+      Number(destination.latitude),
+      Number(destination.longitude),
+    );
+    const zone = zones.find(
+      candidate => candidate.max_distance_km >= distanceKm,
+    );
+    if (!zone) {
+      return null;
+    }
+    if (zone.min_order_amount != null && subtotal < zone.min_order_amount) {
+      this.logger.log(
+        `Order of ${subtotal} is below the ${zone.min_order_amount} minimum for zone ${zone.id}`,
+      );
+      return null;
+    }
+
+    return {
+      zone_id: zone.id,
+      zone_name: zone.name,
+      fee: zone.calculateFee(distanceKm),
+      distance_km: Math.round(distanceKm * 100) / 100,
+      estimated_minutes: zone.estimated_minutes,
+    };
+  }
+
+  /**
+   * Create the delivery record for a self-delivery quote. There is no
+   * provider to call; the vendor assigns a rider afterwards.
+   */
+  async createDelivery(
+    deliveryQuote: DeliveryQuote,
+    orderId: string,
+    attemptNumber = 1,
+  ): Promise<Delivery> {
+    const zone = deliveryQuote.provider_quote_id
+      ? await this.zoneRepository.findOne({
+          where: { id: deliveryQuote.provider_quote_id },
+        })
+      : null;
+    const estimatedMinutes = zone?.estimated_minutes ?? 45;
+    const origin = deliveryQuote.origin_address;
+    const destination = deliveryQuote.destination_address;
+
+    const delivery = await this.deliveryRepository.create({
+      order_id: orderId,
+      provider: DeliveryProvider.SELF_DELIVERY,
+      delivery_quote_id: deliveryQuote.id,
+      attempt_number: attemptNumber,
+      tracking_number: `SD-${randomBytes(6).toString('hex').toUpperCase()}`,
+      status: ShipmentStatus.PENDING,
+      cost: deliveryQuote.fee,
+      currency: deliveryQuote.currency,
+      courier_name: origin?.name || 'Vendor rider',
+      service_type: 'self_delivery',
+      rate_id: deliveryQuote.provider_quote_id,
+      reference_number: orderId,
+      estimated_delivery: new Date(Date.now() + estimatedMinutes * 60 * 1000),
+      origin_address: {
+        address: origin?.address,
+        city: origin?.city,
+        state: origin?.state,
+        country: origin?.country,
+        postalCode: origin?.postalCode,
+      },
+      destination_address: {
+        address: destination?.address,
+        city: destination?.city,
+        state: destination?.state,
+        country: destination?.country,
+        postalCode: destination?.postalCode,
+      },
+      package_details: {
+        weight: 0,
+        length: 0,
+        width: 0,
+        height: 0,
+        value: Number(deliveryQuote.items_price) || 0,
+      },
+    });
+
+    await this.deliveryTrackingRepository.save(
+      this.deliveryTrackingRepository.create({
+        delivery_id: delivery.id,
+        status: ShipmentStatus.PENDING,
+        description: 'Waiting for the vendor to assign a rider',
+        timestamp: new Date(),
+      }),
+    );
+
+    this.logger.log(
+      `Self-delivery ${delivery.tracking_number} booked for order ${orderId}`,
+    );
+    return delivery;
+  }
+
+  async trackShipment(
+    trackingNumber: string,
+  ): Promise<ShipmentTrackingResponseDto> {
+    const delivery = await this.deliveryRepository.findByTrackingNumber(
+      trackingNumber,
+    );
+    if (!delivery) {
+      return {
+        success: false,
+        trackingNumber,
+        status: 'unknown',
+        events: [],
+        error: 'Delivery not found',
+      };
+    }
+
+    const events = [...(delivery.tracking_events || [])].sort(
+      (a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+    );
+    const latest = events[events.length - 1];
+
+    return {
+      success: true,
+      trackingNumber,
+      status: delivery.status,
+      statusDescription: latest?.description,
+      currentLocation: [...events].reverse().find(event => event.location)
+        ?.location,
+      events: events.map(event => ({
+        timestamp: event.timestamp,
+        status: event.status,
+        description: event.description,
+        location: event.location,
+      })),
+      estimatedDelivery: delivery.estimated_delivery,
+      courier: delivery.courier_name,
+      service: delivery.service_type,
+    };
+  }
+
+  async cancelShipment(trackingNumber: string): Promise<boolean> {
+    const delivery = await this.deliveryRepository.findByTrackingNumber(
+      trackingNumber,
+    );
+    // Once a rider has the order it has to be brought back, not cancelled
+    return !!delivery && delivery.status === ShipmentStatus.PENDING;
+  }
+
+  async processWebhook(
+    _payload: any,
+    _signature: string,
+  ): Promise<DeliveryWebhookDto> {
+    return {
+      success: false,
+      eventType: 'unsupported',
+      provider: DeliveryProvider.SELF_DELIVERY,
+      error: 'Self-delivery updates are posted by riders, not webhooks',
+    };
+  }
+}
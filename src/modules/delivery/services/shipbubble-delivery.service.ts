@@ -213,13 +213,16 @@ export class ShipbubbleDeliveryService implements ShipbubbleProviderInterface {
 
       if (data.success && data.data) {
         const trackingData = data.data;
+        // Couriers come back as a name or as { name, phone, ... }
+        const courier = trackingData.courier;
+        const location = trackingData.current_location;
         
         return {
           success: true,
           trackingNumber: trackingData.tracking_number,
           status: trackingData.status,
           statusDescription: trackingData.status_description,
-          currentLocation: trackingData.current_location,
+          currentLocation: typeof location === 'object' ? location?.address : location,
           events: trackingData.events?.map((event: any) => ({
             timestamp: new Date(event.timestamp),
             status: event.status,
@@ -227,7 +230,12 @@ export class ShipbubbleDeliveryService implements ShipbubbleProviderInterface {
             location: event.location,
           })) || [],
           estimatedDelivery: trackingData.estimated_delivery ? new Date(trackingData.estimated_delivery) : undefined,
-          courier: trackingData.courier,
+          courier: typeof courier === 'object' ? courier?.name : courier,
+          courierPhone: typeof courier === 'object' ? courier?.phone : undefined,
+          courierCoordinates:
+            location?.latitude != null && location?.longitude != null
+              ? { latitude: Number(location.latitude), longitude: Number(location.longitude) }
+              : undefined,
           service: trackingData.service,
         };
       } else {
@@ -1002,6 +1002,9 @@ export class UberDeliveryService implements UberProviderInterface {
         events,
         estimatedDelivery: delivery.eta ? new Date(delivery.eta) : null,
         currentLocation: delivery.courier?.location ? `${delivery.courier.location.latitude}, ${delivery.courier.location.longitude}` : null,
+        courier: delivery.courier?.name,
+        courierPhone: delivery.courier?.phone,
+        courierCoordinates: delivery.courier?.location,
       };
     } catch (error) {
       this.logger.error('Failed to get delivery tracking', error);
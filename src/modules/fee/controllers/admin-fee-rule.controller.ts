@@ -0,0 +1,110 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { AdminAuthGuard } from '../../auth/guards/admin-auth-guard';
+import { GetUser } from '@/common/decorators/get-user.decorator';
+import { User } from '@/entities';
+import { FeeRuleService } from '../services/fee-rule.service';
+import {
+  CreateFeeRuleDto,
+  FeeBreakdownDto,
+  FeePreviewDto,
+  FeeRuleListResponseDto,
+  FeeRuleQueryDto,
+  FeeRuleResponseDto,
+  UpdateFeeRuleDto,
+} from '../dto/fee-rule.dto';
+
+@ApiTags('Admin - Fee Rules')
+@Controller('admin/fee-rules')
+@UseGuards(JwtAuthGuard, AdminAuthGuard)
+@ApiBearerAuth()
+export class AdminFeeRuleController {
+  constructor(private readonly feeRuleService: FeeRuleService) {}
+
+  @Post()
+  @ApiOperation({ summary: '[ADMIN ONLY]: Create a commission or fee rule' })
+  @ApiResponse({ status: 201, type: FeeRuleResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid rule' })
+  @ApiResponse({ status: 404, description: 'Vendor not found' })
+  async createRule(
+    @Body() dto: CreateFeeRuleDto,
+    @GetUser() admin: User,
+  ): Promise<FeeRuleResponseDto> {
+    return await this.feeRuleService.createRule(dto, admin.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: '[ADMIN ONLY]: List fee rules' })
+  @ApiResponse({ status: 200, type: FeeRuleListResponseDto })
+  async listRules(
+    @Query() query: FeeRuleQueryDto,
+  ): Promise<FeeRuleListResponseDto> {
+    return await this.feeRuleService.listRules(query);
+  }
+
+  @Post('preview')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '[ADMIN ONLY]: Fees an order would be charged under the rules',
+  })
+  @ApiResponse({ status: 200, type: FeeBreakdownDto })
+  @ApiResponse({ status: 404, description: 'Vendor not found' })
+  async preview(@Body() dto: FeePreviewDto): Promise<FeeBreakdownDto> {
+    return await this.feeRuleService.preview(dto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '[ADMIN ONLY]: Get a fee rule' })
+  @ApiParam({ name: 'id', description: 'Fee rule ID' })
+  @ApiResponse({ status: 200, type: FeeRuleResponseDto })
+  @ApiResponse({ status: 404, description: 'Fee rule not found' })
+  async getRule(@Param('id') id: string): Promise<FeeRuleResponseDto> {
+    return await this.feeRuleService.getRule(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: '[ADMIN ONLY]: Update a fee rule' })
+  @ApiParam({ name: 'id', description: 'Fee rule ID' })
+  @ApiResponse({ status: 200, type: FeeRuleResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid rule' })
+  @ApiResponse({ status: 404, description: 'Fee rule not found' })
+  async updateRule(
+    @Param('id') id: string,
+    @Body() dto: UpdateFeeRuleDto,
+    @GetUser() admin: User,
+  ): Promise<FeeRuleResponseDto> {
+    return await this.feeRuleService.updateRule(id, dto, admin.id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '[ADMIN ONLY]: Delete a fee rule' })
+  @ApiParam({ name: 'id', description: 'Fee rule ID' })
+  @ApiResponse({ status: 200, description: 'Fee rule deleted' })
+  @ApiResponse({ status: 404, description: 'Fee rule not found' })
+  async deleteRule(
+    @Param('id') id: string,
+    @GetUser() admin: User,
+  ): Promise<{ message: string }> {
+    await this.feeRuleService.deleteRule(id, admin.id);
+    return { message: 'Fee rule deleted successfully' };
+  }
+}
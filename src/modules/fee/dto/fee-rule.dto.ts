@@ -0,0 +1,325 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Currency, FeeKind, OrderType } from 'src/entities';
+
+export class CreateFeeRuleDto {
+  @ApiProperty({ example: 'Launch partner commission' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({ example: '10% for the first three months' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ enum: FeeKind, example: FeeKind.COMMISSION })
+  @IsEnum(FeeKind)
+  fee_kind: FeeKind;
+
+  @ApiPropertyOptional({ description: 'Only orders from this vendor' })
+  @IsOptional()
+  @IsUUID()
+  vendor_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only items from this menu category',
+  })
+  @IsOptional()
+  @IsUUID()
+  category_id?: string;
+
+  @ApiPropertyOptional({
+    example: 'GB',
+    description: "Vendor's country (ISO 3166-1 alpha-2)",
+  })
+  @IsOptional()
+  @IsString()
+  @Length(2, 2)
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  country?: string;
+
+  @ApiPropertyOptional({ enum: Currency })
+  @IsOptional()
+  @IsEnum(Currency)
+  currency?: Currency;
+
+  @ApiPropertyOptional({ enum: OrderType })
+  @IsOptional()
+  @IsEnum(OrderType)
+  order_type?: OrderType;
+
+  @ApiPropertyOptional({ example: 10, default: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  percentage?: number;
+
+  @ApiPropertyOptional({ example: 0, default: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  flat_amount?: number;
+
+  @ApiPropertyOptional({ example: 200, description: 'Minimum fee' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  min_amount?: number;
+
+  @ApiPropertyOptional({ example: 5000, description: 'Fee cap' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  max_amount?: number;
+
+  @ApiPropertyOptional({ example: '2025-01-01T00:00:00Z' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  start_date?: Date;
+
+  @ApiPropertyOptional({ example: '2025-03-31T23:59:59Z' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  end_date?: Date;
+
+  @ApiPropertyOptional({
+    example: 0,
+    default: 0,
+    description: 'Breaks ties between equally specific rules',
+  })
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean;
+}
+
+export class UpdateFeeRuleDto extends PartialType(CreateFeeRuleDto) {}
+
+export class FeeRuleQueryDto {
+  @ApiPropertyOptional({ enum: FeeKind })
+  @IsOptional()
+  @IsEnum(FeeKind)
+  fee_kind?: FeeKind;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  vendor_id?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === true || value === 'true')
+  is_active?: boolean;
+
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value))
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value))
+  limit?: number;
+}
+
+export class FeePreviewDto {
+  @ApiProperty()
+  @IsUUID()
+  vendor_id: string;
+
+  @ApiProperty({ example: 10000 })
+  @IsNumber()
+  @Min(0)
+  subtotal: number;
+
+  @ApiPropertyOptional({ enum: OrderType })
+  @IsOptional()
+  @IsEnum(OrderType)
+  order_type?: OrderType;
+
+  @ApiPropertyOptional({
+    description: 'Menu category the whole subtotal belongs to',
+  })
+  @IsOptional()
+  @IsUUID()
+  category_id?: string;
+
+  @ApiPropertyOptional({ description: 'Defaults to now' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  at?: Date;
+}
+
+export class FeeRuleResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiPropertyOptional()
+  description?: string | null;
+
+  @ApiProperty({ enum: FeeKind })
+  fee_kind: FeeKind;
+
+  @ApiPropertyOptional()
+  vendor_id?: string | null;
+
+  @ApiPropertyOptional()
+  category_id?: string | null;
+
+  @ApiPropertyOptional()
+  country?: string | null;
+
+  @ApiPropertyOptional({ enum: Currency })
+  currency?: Currency | null;
+
+  @ApiPropertyOptional({ enum: OrderType })
+  order_type?: OrderType | null;
+
+  @ApiProperty()
+  percentage: number;
+
+  @ApiProperty()
+  flat_amount: number;
+
+  @ApiPropertyOptional()
+  min_amount?: number | null;
+
+  @ApiPropertyOptional()
+  max_amount?: number | null;
+
+  @ApiPropertyOptional()
+  start_date?: Date | null;
+
+  @ApiPropertyOptional()
+  end_date?: Date | null;
+
+  @ApiProperty()
+  priority: number;
+
+  @ApiProperty()
+  is_active: boolean;
+
+  @ApiPropertyOptional()
+  updated_by?: string | null;
+
+  @ApiProperty()
+  created_at: Date;
+
+  @ApiProperty()
+  updated_at: Date;
+}
+
+export class FeeRuleListResponseDto {
+  @ApiProperty({ type: [FeeRuleResponseDto] })
+  rules: FeeRuleResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  total_pages: number;
+}
+
+export class FeeComponentDto {
+  @ApiPropertyOptional({ description: 'Null when the default applied' })
+  rule_id: string | null;
+
+  @ApiProperty()
+  rule_name: string;
+
+  @ApiPropertyOptional()
+  category_id?: string | null;
+
+  @ApiProperty({ description: 'Part of the subtotal this rule priced' })
+  base_amount: number;
+
+  @ApiProperty()
+  percentage: number;
+
+  @ApiProperty()
+  flat_amount: number;
+
+  @ApiPropertyOptional()
+  min_amount: number | null;
+
+  @ApiPropertyOptional()
+  max_amount: number | null;
+
+  @ApiProperty()
+  amount: number;
+}
+
+export class FeeLineDto {
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty({ type: [FeeComponentDto] })
+  components: FeeComponentDto[];
+}
+
+export class FeeBreakdownDto {
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
+  @ApiProperty()
+  subtotal: number;
+
+  @ApiPropertyOptional({ enum: OrderType })
+  order_type: OrderType | null;
+
+  @ApiProperty({ type: FeeLineDto })
+  service_fee: FeeLineDto;
+
+  @ApiProperty({ type: FeeLineDto })
+  commission: FeeLineDto;
+
+  @ApiProperty()
+  calculated_at: string;
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { FeeRule, Vendor } from 'src/entities';
+import { AuthModule } from '../auth/auth.module';
+
+// Controllers
+import { AdminFeeRuleController } from './controllers/admin-fee-rule.controller';
+
+// Services
+import { FeeRuleService } from './services/fee-rule.service';
+import { FeeCalculatorService } from './services/fee-calculator.service';
+
+/**
+ * Commission and service fee rules. Checkout prices orders through
+ * FeeCalculatorService; admins manage the rules.
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([FeeRule, Vendor]), AuthModule],
+  controllers: [AdminFeeRuleController],
+  providers: [FeeRuleService, FeeCalculatorService],
+  exports: [FeeCalculatorService],
+})
+export class FeeModule {}
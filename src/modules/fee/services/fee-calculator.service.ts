@@ -0,0 +1,207 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import {
+  Currency,
+  FeeBreakdown,
+  FeeComponent,
+  FeeKind,
+  FeeLine,
+  FeeRule,
+  OrderType,
+  Vendor,
+} from 'src/entities';
+import { getCurrencyForCountry } from 'src/utils/currency-mapper';
+
+export interface FeeCalculationLine {
+  category_id?: string | null;
+  amount: number;
+}
+
+export interface FeeCalculationInput {
+  vendor_id: string;
+  lines: FeeCalculationLine[];
+  // Unknown before checkout; rules scoped to an order type are then skipped
+  order_type?: OrderType | null;
+  // Vendor's country; looked up when not given
+  country?: string | null;
+  at?: Date;
+}
+
+interface RuleContext {
+  vendor_id: string;
+  country: string | null;
+  currency: Currency;
+  order_type: OrderType | null;
+  at: Date;
+}
+
+const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+/**
+ * Works out service fee and commission for an order from the fee rules.
+ * Items are grouped by the rule that applies to them, so a category rule
+ * only prices its own items and flat, minimum and cap apply once per rule.
+ */
+@Injectable()
+export class FeeCalculatorService {
+  constructor(
+    @InjectRepository(FeeRule)
+    private readonly feeRuleRepository: Repository<FeeRule>,
+    @InjectRepository(Vendor)
+    private readonly vendorRepository: Repository<Vendor>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async calculate(input: FeeCalculationInput): Promise<FeeBreakdown> {
+    const country =
+      input.country !== undefined
+        ? input.country
+        : await this.getVendorCountry(input.vendor_id);
+    const context: RuleContext = {
+      vendor_id: input.vendor_id,
+      country: country ? country.toUpperCase() : null,
+      currency: getCurrencyForCountry(country),
+      order_type: input.order_type || null,
+      at: input.at || new Date(),
+    };
+
+    const rules = await this.feeRuleRepository.find({
+      where: { is_active: true },
+    });
+
+    return {
+      currency: context.currency,
+      subtotal: roundMoney(
+        input.lines.reduce((sum, line) => sum + Number(line.amount), 0),
+      ),
+      order_type: context.order_type,
+      service_fee: this.priceLines(
+        FeeKind.SERVICE_FEE,
+        rules,
+        context,
+        input.lines,
+      ),
+      commission: this.priceLines(
+        FeeKind.COMMISSION,
+        rules,
+        context,
+        input.lines,
+      ),
+      calculated_at: context.at.toISOString(),
+    };
+  }
+
+  private priceLines(
+    kind: FeeKind,
+    rules: FeeRule[],
+    context: RuleContext,
+    lines: FeeCalculationLine[],
+  ): FeeLine {
+    const groups = new Map<string, { rule: FeeRule | null; base: number }>();
+
+    for (const line of lines) {
+      const rule = this.findRule(kind, rules, context, line.category_id);
+      const key = rule?.id || 'default';
+      const group = groups.get(key) || { rule, base: 0 };
+      group.base += Number(line.amount);
+      groups.set(key, group);
+    }
+
+    const components = [...groups.values()].map(({ rule, base }) =>
+      this.applyRule(kind, rule, roundMoney(base)),
+    );
+
+    return {
+      amount: roundMoney(
+        components.reduce((sum, component) => sum + component.amount, 0),
+      ),
+      components,
+    };
+  }
+
+  private findRule(
+    kind: FeeKind,
+    rules: FeeRule[],
+    context: RuleContext,
+    categoryId?: string | null,
+  ): FeeRule | null {
+    const candidates = rules.filter(
+      rule =>
+        rule.fee_kind === kind &&
+        (!rule.vendor_id || rule.vendor_id === context.vendor_id) &&
+        (!rule.category_id || rule.category_id === categoryId) &&
+        (!rule.country || rule.country === context.country) &&
+        (!rule.currency || rule.currency === context.currency) &&
+        (!rule.order_type || rule.order_type === context.order_type) &&
+        (!rule.start_date || rule.start_date <= context.at) &&
+        (!rule.end_date || context.at < rule.end_date),
+    );
+
+    candidates.sort(
+      (a, b) =>
+        this.specificity(b) - this.specificity(a) ||
+        b.priority - a.priority ||
+        b.created_at.getTime() - a.created_at.getTime(),
+    );
+
+    return candidates[0] || null;
+  }
+
+  private specificity(rule: FeeRule): number {
+    return (
+      (rule.vendor_id ? 16 : 0) +
+      (rule.category_id ? 8 : 0) +
+      (rule.country ? 4 : 0) +
+      (rule.currency ? 2 : 0) +
+      (rule.order_type ? 1 : 0)
+    );
+  }
+
+  private applyRule(
+    kind: FeeKind,
+    rule: FeeRule | null,
+    base: number,
+  ): FeeComponent {
+    const percentage = rule
+      ? Number(rule.percentage)
+      : this.getDefaultPercentage(kind);
+    const flatAmount = rule ? Number(rule.flat_amount) : 0;
+    const minAmount = rule?.min_amount ?? null;
+    const maxAmount = rule?.max_amount ?? null;
+
+    let amount = (base * percentage) / 100 + flatAmount;
+    if (minAmount !== null) amount = Math.max(amount, minAmount);
+    if (maxAmount !== null) amount = Math.min(amount, maxAmount);
+    // A vendor never owes more commission than the items earned
+    if (kind === FeeKind.COMMISSION) amount = Math.min(amount, base);
+
+    return {
+      rule_id: rule?.id || null,
+      rule_name: rule?.name || 'Default',
+      category_id: rule?.category_id || null,
+      base_amount: base,
+      percentage,
+      flat_amount: flatAmount,
+      min_amount: minAmount,
+      max_amount: maxAmount,
+      amount: roundMoney(amount),
+    };
+  }
+
+  private getDefaultPercentage(kind: FeeKind): number {
+    return kind === FeeKind.COMMISSION
+      ? this.configService.get<number>('fees.commissionPercentage', 20)
+      : this.configService.get<number>('fees.serviceFeePercentage', 15);
+  }
+
+  private async getVendorCountry(vendorId: string): Promise<string | null> {
+    const vendor = await this.vendorRepository.findOne({
+      where: { id: vendorId },
+      relations: ['address'],
+    });
+    return vendor?.address?.country || null;
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { FeeRule, Vendor } from 'src/entities';
+import {
+  CreateFeeRuleDto,
+  FeePreviewDto,
+  FeeRuleListResponseDto,
+  FeeRuleQueryDto,
+  FeeRuleResponseDto,
+  FeeBreakdownDto,
+  UpdateFeeRuleDto,
+} from '../dto/fee-rule.dto';
+import { FeeCalculatorService } from './fee-calculator.service';
+
+@Injectable()
+export class FeeRuleService {
+  private readonly logger = new Logger(FeeRuleService.name);
+
+  constructor(
+    @InjectRepository(FeeRule)
+    private readonly feeRuleRepository: Repository<FeeRule>,
+    @InjectRepository(Vendor)
+    private readonly vendorRepository: Repository<Vendor>,
+    private readonly feeCalculator: FeeCalculatorService,
+  ) {}
+
+  async createRule(
+    dto: CreateFeeRuleDto,
+    adminId: string,
+  ): Promise<FeeRuleResponseDto> {
+    const rule = this.feeRuleRepository.create({
+      ...dto,
+      percentage: dto.percentage ?? 0,
+      flat_amount: dto.flat_amount ?? 0,
+      priority: dto.priority ?? 0,
+      is_active: dto.is_active ?? true,
+      updated_by: adminId,
+    });
+    await this.validateRule(rule);
+
+    const saved = await this.feeRuleRepository.save(rule);
+    this.logger.log(
+      `Fee rule ${saved.id} (${saved.fee_kind} "${saved.name}") created by ${adminId}`,
+    );
+
+    return this.mapToResponse(saved);
+  }
+
+  async listRules(query: FeeRuleQueryDto): Promise<FeeRuleListResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const where: Record<string, any> = {};
+    if (query.fee_kind) where.fee_kind = query.fee_kind;
+    if (query.vendor_id) where.vendor_id = query.vendor_id;
+    if (query.is_active !== undefined) where.is_active = query.is_active;
+
+    const [rules, total] = await this.feeRuleRepository.findAndCount({
+      where,
+      order: { fee_kind: 'ASC', priority: 'DESC', created_at: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      rules: rules.map(rule => this.mapToResponse(rule)),
+      total,
+      page,
+      limit,
+      total_pages: Math.ceil(total / limit),
+    };
+  }
+
+  async getRule(id: string): Promise<FeeRuleResponseDto> {
+    return this.mapToResponse(await this.findRuleOrFail(id));
+  }
+
+  async updateRule(
+    id: string,
+    dto: UpdateFeeRuleDto,
+    adminId: string,
+  ): Promise<FeeRuleResponseDto> {
+    const rule = await this.findRuleOrFail(id);
+
+    Object.assign(rule, dto, { updated_by: adminId });
+    await this.validateRule(rule);
+
+    const saved = await this.feeRuleRepository.save(rule);
+    this.logger.log(`Fee rule ${saved.id} updated by ${adminId}`);
+
+    return this.mapToResponse(saved);
+  }
+
+  /**
+   * Orders already placed keep their stored breakdown
+   */
+  async deleteRule(id: string, adminId: string): Promise<void> {
+    const rule = await this.findRuleOrFail(id);
+    await this.feeRuleRepository.softRemove(rule);
+
+    this.logger.log(`Fee rule ${rule.id} deleted by ${adminId}`);
+  }
+
+  /**
+   * Fees an order would be charged right now, for checking rules before
+   * they go live
+   */
+  async preview(dto: FeePreviewDto): Promise<FeeBreakdownDto> {
+    await this.findVendorOrFail(dto.vendor_id);
+
+    return this.feeCalculator.calculate({
+      vendor_id: dto.vendor_id,
+      order_type: dto.order_type,
+      lines: [{ category_id: dto.category_id, amount: dto.subtotal }],
+      at: dto.at,
+    });
+  }
+
+  private async validateRule(rule: FeeRule): Promise<void> {
+    if (
+      rule.min_amount !== null &&
+      rule.min_amount !== undefined &&
+      rule.max_amount !== null &&
+      rule.max_amount !== undefined &&
+      Number(rule.min_amount) > Number(rule.max_amount)
+    ) {
+      throw new BadRequestException(
+        'min_amount cannot be greater than max_amount',
+      );
+    }
+
+    if (rule.start_date && rule.end_date && rule.start_date >= rule.end_date) {
+      throw new BadRequestException('end_date must be after start_date');
+    }
+
+    if (rule.vendor_id) {
+      await this.findVendorOrFail(rule.vendor_id);
+    }
+  }
+
+  private async findVendorOrFail(vendorId: string): Promise<Vendor> {
+    const vendor = await this.vendorRepository.findOne({
+      where: { id: vendorId },
+    });
+    if (!vendor) {
+      throw new NotFoundException('Vendor not found');
+    }
+    return vendor;
+  }
+
+  private async findRuleOrFail(id: string): Promise<FeeRule> {
+    const rule = await this.feeRuleRepository.findOne({ where: { id } });
+    if (!rule) {
+      throw new NotFoundException('Fee rule not found');
+    }
+    return rule;
+  }
+
+  private mapToResponse(rule: FeeRule): FeeRuleResponseDto {
+    return {
+      id: rule.id,
+      name: rule.name,
+      description: rule.description,
+      fee_kind: rule.fee_kind,
+      vendor_id: rule.vendor_id,
+      category_id: rule.category_id,
+      country: rule.country,
+      currency: rule.currency,
+      order_type: rule.order_type,
+      percentage: Number(rule.percentage),
+      flat_amount: Number(rule.flat_amount),
+      min_amount: rule.min_amount,
+      max_amount: rule.max_amount,
+      start_date: rule.start_date,
+      end_date: rule.end_date,
+      priority: rule.priority,
+      is_active: rule.is_active,
+      updated_by: rule.updated_by,
+      created_at: rule.created_at,
+      updated_at: rule.updated_at,
+    };
+  }
+}
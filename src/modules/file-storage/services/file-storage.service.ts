@@ -128,6 +128,27 @@ export class FileStorageService {
     }
   }
 
+  /**
+   * Upload an image held in memory rather than received as a multipart
+   * upload, e.g. one downloaded from a third party
+   */
+  async uploadImageBuffer(
+    buffer: Buffer,
+    originalName: string,
+    mimetype: string,
+    options: ImageProcessingOptions = {},
+  ): Promise<UploadedFile> {
+    return this.uploadImage(
+      {
+        buffer,
+        originalname: originalName,
+        mimetype,
+        size: buffer.length,
+      } as Express.Multer.File,
+      options,
+    );
+  }
+
   async uploadDocument(
     file: Express.Multer.File,
     category: string = 'documents',
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+
+// Services
+import { FxService } from './services/fx.service';
+import { FixtureFxRateProvider } from './services/fixture-fx-rate.provider';
+import { FX_RATE_PROVIDER } from './interfaces/fx-rate-provider.interface';
+
+/**
+ * Currency conversion for wallets paying in another currency. The rate
+ * source sits behind FX_RATE_PROVIDER; FX_RATE_PROVIDER_MODE picks it.
+ */
+@Module({
+  providers: [
+    {
+      provide: FX_RATE_PROVIDER,
+      useFactory: () => {
+        const mode = process.env.FX_RATE_PROVIDER_MODE || 'fixture';
+        if (mode !== 'fixture') {
+          throw new Error(`Unknown FX_RATE_PROVIDER_MODE: ${mode}`);
+        }
+        return new FixtureFxRateProvider();
+      },
+    },
+    FxService,
+  ],
+  exports: [FxService],
+})
+export class FxModule {}
@@ -0,0 +1,30 @@
+import { Currency } from 'src/entities';
+
+export const FX_RATE_PROVIDER = 'FX_RATE_PROVIDER';
+
+export interface FxRateProviderInterface {
+  // Recorded on transactions as fx_rate_source
+  readonly name: string;
+
+  /**
+   * Mid-market rate between two currencies, without any spread
+   * @param from Currency being converted
+   * @param to Currency wanted
+   * @returns Promise<number> Units of `to` per one `from`
+   */
+  getRate(from: Currency, to: Currency): Promise<number>;
+}
+
+export interface FxConversion {
+  from_currency: Currency;
+  to_currency: Currency;
+  // In from_currency
+  original_amount: number;
+  // Mid-market, units of to_currency per one from_currency
+  rate: number;
+  spread_percentage: number;
+  // original_amount at rate, plus the spread, in to_currency
+  converted_amount: number;
+  source: string;
+  quoted_at: Date;
+}
@@ -0,0 +1,55 @@
+import { Logger } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { Currency } from 'src/entities';
+import { FxRateProviderInterface } from '../interfaces/fx-rate-provider.interface';
+
+// Units of each currency per one USD
+const DEFAULT_USD_RATES: Record<Currency, number> = {
+  [Currency.USD]: 1,
+  [Currency.NGN]: 1550,
+  [Currency.GBP]: 0.79,
+  [Currency.EUR]: 0.92,
+};
+
+/**
+ * Rate source that needs no network access, for local development and
+ * until a live rate feed is plugged in behind FX_RATE_PROVIDER.
+ *
+ * Rates are units per one USD. They come from the JSON file at
+ * FX_RATES_FIXTURE_PATH (e.g. {"NGN": 1600, "GBP": 0.8}), re-read on every
+ * call, falling back to built-in defaults for anything it leaves out.
+ */
+export class FixtureFxRateProvider implements FxRateProviderInterface {
+  readonly name = 'fixture';
+  private readonly logger = new Logger(FixtureFxRateProvider.name);
+
+  async getRate(from: Currency, to: Currency): Promise<number> {
+    const rates = { ...DEFAULT_USD_RATES, ...this.loadFixture() };
+    if (!rates[from] || !rates[to]) {
+      throw new Error(`No exchange rate for ${from}/${to}`);
+    }
+
+    return rates[to] / rates[from];
+  }
+
+  private loadFixture(): Partial<Record<Currency, number>> {
+    const path = process.env.FX_RATES_FIXTURE_PATH;
+    if (!path) {
+      return {};
+    }
+
+    try {
+      const rows = JSON.parse(readFileSync(path, 'utf8'));
+      return Object.fromEntries(
+        Object.entries(rows)
+          .filter(([, rate]) => Number(rate) > 0)
+          .map(([currency, rate]) => [currency, Number(rate)]),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to read FX rates fixture ${path}: ${error.message}`,
+      );
+      return {};
+    }
+  }
+}
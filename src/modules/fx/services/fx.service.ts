@@ -0,0 +1,99 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Currency } from 'src/entities';
+import {
+  FX_RATE_PROVIDER,
+  FxConversion,
+  FxRateProviderInterface,
+} from '../interfaces/fx-rate-provider.interface';
+
+const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+/**
+ * Converts amounts between currencies at the rate source's mid-market rate
+ * plus the platform spread. The returned conversion carries everything a
+ * transaction needs to record how the amount was worked out.
+ */
+@Injectable()
+export class FxService {
+  private readonly logger = new Logger(FxService.name);
+  private readonly spreadPercentage: number;
+
+  constructor(
+    @Inject(FX_RATE_PROVIDER)
+    private readonly rateProvider: FxRateProviderInterface,
+    private readonly configService: ConfigService,
+  ) {
+    this.spreadPercentage = this.configService.get<number>(
+      'fx.spreadPercentage',
+      1.5,
+    );
+  }
+
+  /**
+   * What the customer pays in `to` for `amount` in `from`. The spread is
+   * added on top, so the platform never loses on the conversion.
+   */
+  async convert(
+    amount: number,
+    from: Currency,
+    to: Currency,
+  ): Promise<FxConversion> {
+    if (from === to) {
+      return {
+        from_currency: from,
+        to_currency: to,
+        original_amount: roundMoney(amount),
+        rate: 1,
+        spread_percentage: 0,
+        converted_amount: roundMoney(amount),
+        source: this.rateProvider.name,
+        quoted_at: new Date(),
+      };
+    }
+
+    const rate = await this.getRate(from, to);
+    const convertedAmount = roundMoney(
+      amount * rate * (1 + this.spreadPercentage / 100),
+    );
+
+    this.logger.log(
+      `Converted ${amount} ${from} to ${convertedAmount} ${to} at ${rate} (+${this.spreadPercentage}%)`,
+    );
+
+    return {
+      from_currency: from,
+      to_currency: to,
+      original_amount: roundMoney(amount),
+      rate,
+      spread_percentage: this.spreadPercentage,
+      converted_amount: convertedAmount,
+      source: this.rateProvider.name,
+      quoted_at: new Date(),
+    };
+  }
+
+  private async getRate(from: Currency, to: Currency): Promise<number> {
+    try {
+      const rate = await this.rateProvider.getRate(from, to);
+      if (!(rate > 0)) {
+        throw new Error(`Rate source returned ${rate}`);
+      }
+      // Stored with 8 decimal places on transactions
+      return Math.round(rate * 1e8) / 1e8;
+    } catch (error) {
+      this.logger.error(
+        `Exchange rate ${from}/${to} unavailable from ${this.rateProvider.name}: ${error.message}`,
+      );
+      throw new ServiceUnavailableException(
+        `Currency conversion from ${from} to ${to} is currently unavailable`,
+      );
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { AdminAuthGuard } from '../../auth/guards/admin-auth-guard';
+import { LedgerService } from '../services/ledger.service';
+import { LedgerReconciliationService } from '../services/ledger-reconciliation.service';
+import {
+  JournalEntryListResponseDto,
+  JournalEntryQueryDto,
+  LedgerAccountBalanceDto,
+  LedgerReconciliationReportDto,
+} from '../dto/ledger.dto';
+
+@ApiTags('Admin - Ledger')
+@Controller('admin/ledger')
+@UseGuards(JwtAuthGuard, AdminAuthGuard)
+@ApiBearerAuth()
+export class AdminLedgerController {
+  constructor(
+    private readonly ledgerService: LedgerService,
+    private readonly reconciliationService: LedgerReconciliationService,
+  ) {}
+
+  @Get('reconciliation')
+  @ApiOperation({
+    summary:
+      '[ADMIN ONLY]: Check wallet balances and the ledger against each other',
+  })
+  @ApiResponse({ status: 200, type: LedgerReconciliationReportDto })
+  async reconcile(): Promise<LedgerReconciliationReportDto> {
+    return await this.reconciliationService.reconcile();
+  }
+
+  @Get('entries')
+  @ApiOperation({ summary: '[ADMIN ONLY]: List journal entries' })
+  @ApiResponse({ status: 200, type: JournalEntryListResponseDto })
+  async listEntries(
+    @Query() query: JournalEntryQueryDto,
+  ): Promise<JournalEntryListResponseDto> {
+    return await this.ledgerService.listEntries(query);
+  }
+
+  @Get('accounts')
+  @ApiOperation({ summary: '[ADMIN ONLY]: Balances of all ledger accounts' })
+  @ApiResponse({ status: 200, type: [LedgerAccountBalanceDto] })
+  async getAccounts(): Promise<LedgerAccountBalanceDto[]> {
+    return await this.ledgerService.getAccountBalances();
+  }
+
+  @Get('accounts/:userId')
+  @ApiOperation({
+    summary: '[ADMIN ONLY]: Balances of the ledger accounts of one user',
+  })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiResponse({ status: 200, type: [LedgerAccountBalanceDto] })
+  async getUserAccounts(
+    @Param('userId') userId: string,
+  ): Promise<LedgerAccountBalanceDto[]> {
+    return await this.ledgerService.getAccountBalances(userId);
+  }
+}
@@ -0,0 +1,228 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  Currency,
+  JournalEntryType,
+  LedgerAccountType,
+  LedgerDirection,
+} from 'src/entities';
+
+export class JournalEntryQueryDto {
+  @ApiPropertyOptional({ enum: JournalEntryType })
+  @IsOptional()
+  @IsEnum(JournalEntryType)
+  entry_type?: JournalEntryType;
+
+  @ApiPropertyOptional({
+    description: 'Payment, refund or withdrawal reference',
+  })
+  @IsOptional()
+  @IsString()
+  reference?: string;
+
+  @ApiPropertyOptional({ description: 'Order ID' })
+  @IsOptional()
+  @IsUUID()
+  order_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only entries touching accounts owned by this user',
+  })
+  @IsOptional()
+  @IsString()
+  owner_id?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value))
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value))
+  limit?: number;
+}
+
+export class JournalLineResponseDto {
+  @ApiProperty()
+  account_code: string;
+
+  @ApiProperty({ enum: LedgerAccountType })
+  account_type: LedgerAccountType;
+
+  @ApiPropertyOptional()
+  owner_id?: string | null;
+
+  @ApiProperty({ enum: LedgerDirection })
+  direction: LedgerDirection;
+
+  @ApiProperty()
+  amount: number;
+}
+
+export class JournalEntryResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: JournalEntryType })
+  entry_type: JournalEntryType;
+
+  @ApiProperty()
+  reference: string;
+
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
+  @ApiProperty()
+  description: string;
+
+  @ApiPropertyOptional()
+  order_id?: string | null;
+
+  @ApiPropertyOptional()
+  metadata?: Record<string, any> | null;
+
+  @ApiProperty()
+  posted_at: Date;
+
+  @ApiProperty({ type: [JournalLineResponseDto] })
+  lines: JournalLineResponseDto[];
+}
+
+export class JournalEntryListResponseDto {
+  @ApiProperty({ type: [JournalEntryResponseDto] })
+  entries: JournalEntryResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  total_pages: number;
+}
+
+export class LedgerAccountBalanceDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  code: string;
+
+  @ApiProperty({ enum: LedgerAccountType })
+  type: LedgerAccountType;
+
+  @ApiPropertyOptional()
+  owner_id?: string | null;
+
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
+  @ApiProperty({ enum: LedgerDirection })
+  normal_balance: LedgerDirection;
+
+  @ApiProperty({ description: 'Balance on the normal side of the account' })
+  balance: number;
+}
+
+export class WalletDriftDto {
+  @ApiPropertyOptional({
+    description: 'Null when the ledger holds money no wallet shows',
+  })
+  wallet_id: string | null;
+
+  @ApiProperty()
+  user_id: string;
+
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
+  @ApiProperty({ enum: ['balance', 'vendor_balance'] })
+  balance_type: 'balance' | 'vendor_balance';
+
+  @ApiProperty()
+  wallet_amount: number;
+
+  @ApiProperty()
+  ledger_amount: number;
+
+  @ApiProperty({ description: 'Wallet amount minus ledger amount' })
+  drift: number;
+}
+
+export class UnbalancedEntryDto {
+  @ApiProperty()
+  entry_id: string;
+
+  @ApiProperty({ enum: JournalEntryType })
+  entry_type: JournalEntryType;
+
+  @ApiProperty()
+  reference: string;
+
+  @ApiProperty()
+  debits: number;
+
+  @ApiProperty()
+  credits: number;
+}
+
+export class PayoutInTransitCheckDto {
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
+  @ApiProperty()
+  ledger_amount: number;
+
+  @ApiProperty({ description: 'Sum of PENDING and PROCESSING withdrawals' })
+  open_withdrawals_amount: number;
+
+  @ApiProperty()
+  drift: number;
+}
+
+export class LedgerReconciliationReportDto {
+  @ApiProperty()
+  generated_at: Date;
+
+  @ApiProperty()
+  wallets_checked: number;
+
+  @ApiProperty({ description: 'True when nothing drifted' })
+  in_balance: boolean;
+
+  @ApiProperty()
+  drift_count: number;
+
+  @ApiProperty({ type: [WalletDriftDto] })
+  wallet_drifts: WalletDriftDto[];
+
+  @ApiProperty({ type: [UnbalancedEntryDto] })
+  unbalanced_entries: UnbalancedEntryDto[];
+
+  @ApiProperty({ type: [PayoutInTransitCheckDto] })
+  payout_in_transit: PayoutInTransitCheckDto[];
+}
@@ -0,0 +1,120 @@
+import {
+  Currency,
+  JournalEntryType,
+  LedgerAccountType,
+  LedgerDirection,
+  PaymentProvider,
+} from 'src/entities';
+
+export interface LedgerLineInput {
+  account: LedgerAccountType;
+  // User id for wallet and payable accounts, provider for gateway clearing
+  owner_id?: string;
+  direction: LedgerDirection;
+  amount: number;
+}
+
+export interface PostJournalEntryInput {
+  entry_type: JournalEntryType;
+  reference: string;
+  currency: Currency;
+  description: string;
+  order_id?: string;
+  metadata?: Record<string, any>;
+  lines: LedgerLineInput[];
+}
+
+export interface WalletFundingPosting {
+  reference: string;
+  user_id: string;
+  currency: Currency;
+  amount: number;
+  provider: PaymentProvider;
+}
+
+export interface OrderPaymentPosting {
+  reference: string;
+  order_id: string;
+  currency: Currency;
+  // What the customer paid
+  total_amount: number;
+  // What the vendor is owed after commission
+  vendor_amount: number;
+  vendor_user_id: string;
+  customer_id: string;
+  // WALLET debits the customer's wallet, anything else the gateway clearing
+  provider: PaymentProvider;
+  // Part of total_amount paid out of GROUP_ORDER_ESCROW instead
+  escrow_amount?: number;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Wallet money changing currency, e.g. an NGN wallet paying a GBP order.
+ * The customer's from_currency balance goes down and their to_currency
+ * balance goes up; the later payment or refund posts in to_currency as usual.
+ */
+export interface FxConversionPosting {
+  reference: string;
+  user_id: string;
+  from_currency: Currency;
+  from_amount: number;
+  to_currency: Currency;
+  to_amount: number;
+  // Mid-market rate and spread the amounts were worked out with
+  rate: number;
+  spread_percentage: number;
+  order_id?: string;
+}
+
+/**
+ * Wallet money moving between customers. A missing sender or recipient
+ * means the held account, GIFT_CREDIT unless held_account says otherwise:
+ * sending to someone without an account credits it, and claiming or
+ * returning the gift debits it.
+ */
+export interface WalletTransferPosting {
+  reference: string;
+  currency: Currency;
+  amount: number;
+  from_user_id?: string;
+  to_user_id?: string;
+  held_account?:
+    | LedgerAccountType.GIFT_CREDIT
+    | LedgerAccountType.GROUP_ORDER_ESCROW;
+  description: string;
+}
+
+export interface RefundPosting {
+  reference: string;
+  order_id: string;
+  currency: Currency;
+  amount: number;
+  vendor_clawback: number;
+  // Only needed when there is a clawback
+  vendor_user_id?: string;
+  customer_id: string;
+  // WALLET credits the customer's wallet, anything else the gateway clearing
+  provider: PaymentProvider;
+  description?: string;
+}
+
+export interface WithdrawalPosting {
+  id: string;
+  user_id: string;
+  amount: number;
+  currency: Currency;
+  payout_provider?: string;
+}
+
+export interface AdjustmentPosting {
+  account: LedgerAccountType.CUSTOMER_WALLET | LedgerAccountType.VENDOR_PAYABLE;
+  user_id: string;
+  currency: Currency;
+  // Positive raises the balance, negative lowers it
+  amount: number;
+  description: string;
+  reference?: string;
+  order_id?: string;
+  metadata?: Record<string, any>;
+}
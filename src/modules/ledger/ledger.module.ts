@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import {
+  JournalEntry,
+  JournalLine,
+  LedgerAccount,
+  Wallet,
+  WalletBalance,
+  Withdrawal,
+} from 'src/entities';
+import { AuthModule } from '../auth/auth.module';
+
+// Controllers
+import { AdminLedgerController } from './controllers/admin-ledger.controller';
+
+// Services
+import { LedgerService } from './services/ledger.service';
+import { LedgerReconciliationService } from './services/ledger-reconciliation.service';
+
+/**
+ * Double-entry ledger. Services that move money post through LedgerService;
+ * admins reconcile wallet balances against it.
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      LedgerAccount,
+      JournalEntry,
+      JournalLine,
+      Wallet,
+      WalletBalance,
+      Withdrawal,
+    ]),
+    AuthModule,
+  ],
+  controllers: [AdminLedgerController],
+  providers: [LedgerService, LedgerReconciliationService],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
@@ -0,0 +1,285 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { In, Repository } from 'typeorm';
+import {
+  Currency,
+  JournalEntry,
+  LedgerAccountType,
+  Wallet,
+  WalletBalance,
+  Withdrawal,
+  WithdrawalStatus,
+} from 'src/entities';
+import { LedgerService, ledgerAccountCode } from './ledger.service';
+import {
+  LedgerAccountBalanceDto,
+  LedgerReconciliationReportDto,
+  PayoutInTransitCheckDto,
+  UnbalancedEntryDto,
+  WalletDriftDto,
+} from '../dto/ledger.dto';
+
+const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+/**
+ * Compares the balances stored on wallets with what the ledger says they
+ * should be, and checks the ledger itself: every entry balanced, and the
+ * payout-in-transit account matching the withdrawals still in flight.
+ */
+@Injectable()
+export class LedgerReconciliationService {
+  private readonly logger = new Logger(LedgerReconciliationService.name);
+
+  constructor(
+    @InjectRepository(Wallet)
+    private readonly walletRepository: Repository<Wallet>,
+    @InjectRepository(WalletBalance)
+    private readonly walletBalanceRepository: Repository<WalletBalance>,
+    @InjectRepository(JournalEntry)
+    private readonly journalEntryRepository: Repository<JournalEntry>,
+    @InjectRepository(Withdrawal)
+    private readonly withdrawalRepository: Repository<Withdrawal>,
+    private readonly ledgerService: LedgerService,
+  ) {}
+
+  async reconcile(): Promise<LedgerReconciliationReportDto> {
+    const [
+      accounts,
+      wallets,
+      walletBalances,
+      unbalancedEntries,
+      openWithdrawals,
+    ] = await Promise.all([
+      this.ledgerService.getAccountBalances(),
+      this.walletRepository.find({
+        select: ['id', 'user_id', 'balance', 'vendor_balance', 'currency'],
+      }),
+      this.walletBalanceRepository.find({
+        select: ['id', 'wallet_id', 'currency', 'balance'],
+      }),
+      this.findUnbalancedEntries(),
+      this.sumOpenWithdrawals(),
+    ]);
+
+    const ledgerBalances = new Map(
+      accounts.map(account => [account.code, account.balance]),
+    );
+    const matchedCodes = new Set<string>();
+    const walletDrifts: WalletDriftDto[] = [];
+
+    const compare = (
+      wallet: Wallet,
+      accountType: LedgerAccountType,
+      balanceType: WalletDriftDto['balance_type'],
+      currency: Currency,
+      amount: number,
+    ): void => {
+      const code = ledgerAccountCode(accountType, currency, wallet.user_id);
+      matchedCodes.add(code);
+
+      const walletAmount = roundMoney(Number(amount) || 0);
+      const ledgerAmount = ledgerBalances.get(code) || 0;
+      const drift = roundMoney(walletAmount - ledgerAmount);
+
+      if (drift !== 0) {
+        walletDrifts.push({
+          wallet_id: wallet.id,
+          user_id: wallet.user_id,
+          currency,
+          balance_type: balanceType,
+          wallet_amount: walletAmount,
+          ledger_amount: ledgerAmount,
+          drift,
+        });
+      }
+    };
+
+    for (const wallet of wallets) {
+      compare(
+        wallet,
+        LedgerAccountType.CUSTOMER_WALLET,
+        'balance',
+        wallet.currency,
+        wallet.balance,
+      );
+      compare(
+        wallet,
+        LedgerAccountType.VENDOR_PAYABLE,
+        'vendor_balance',
+        wallet.currency,
+        wallet.vendor_balance,
+      );
+    }
+
+    // Balances held in currencies other than the wallet's own
+    const walletsById = new Map(wallets.map(wallet => [wallet.id, wallet]));
+    for (const walletBalance of walletBalances) {
+      const wallet = walletsById.get(walletBalance.wallet_id);
+      if (wallet) {
+        compare(
+          wallet,
+          LedgerAccountType.CUSTOMER_WALLET,
+          'balance',
+          walletBalance.currency,
+          walletBalance.balance,
+        );
+      }
+    }
+
+    // Ledger money with no wallet to show it, e.g. posted in another currency
+    for (const account of accounts) {
+      if (
+        matchedCodes.has(account.code) ||
+        account.balance === 0 ||
+        (account.type !== LedgerAccountType.CUSTOMER_WALLET &&
+          account.type !== LedgerAccountType.VENDOR_PAYABLE)
+      ) {
+        continue;
+      }
+
+      walletDrifts.push({
+        wallet_id: null,
+        user_id: account.owner_id,
+        currency: account.currency,
+        balance_type:
+          account.type === LedgerAccountType.CUSTOMER_WALLET
+            ? 'balance'
+            : 'vendor_balance',
+        wallet_amount: 0,
+        ledger_amount: account.balance,
+        drift: roundMoney(-account.balance),
+      });
+    }
+
+    const payoutInTransit = this.checkPayoutInTransit(
+      accounts,
+      openWithdrawals,
+    );
+
+    const driftCount =
+      walletDrifts.length +
+      unbalancedEntries.length +
+      payoutInTransit.filter(check => check.drift !== 0).length;
+
+    return {
+      generated_at: new Date(),
+      wallets_checked: wallets.length,
+      in_balance: driftCount === 0,
+      drift_count: driftCount,
+      wallet_drifts: walletDrifts,
+      unbalanced_entries: unbalancedEntries,
+      payout_in_transit: payoutInTransit,
+    };
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async reconcileNightly(): Promise<void> {
+    try {
+      const report = await this.reconcile();
+      if (report.in_balance) {
+        this.logger.log(
+          `Ledger reconciled: ${report.wallets_checked} wallets in balance`,
+        );
+        return;
+      }
+
+      this.logger.warn(
+        `Ledger drift: ${report.wallet_drifts.length} wallet balances, ${
+          report.unbalanced_entries.length
+        } unbalanced entries, payout in transit ${
+          report.payout_in_transit.filter(check => check.drift !== 0).length
+        } currencies off`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Ledger reconciliation failed: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  private async findUnbalancedEntries(): Promise<UnbalancedEntryDto[]> {
+    const rows = await this.journalEntryRepository
+      .createQueryBuilder('entry')
+      .innerJoin('entry.lines', 'line')
+      .select([
+        'entry.id AS entry_id',
+        'entry.entry_type AS entry_type',
+        'entry.reference AS reference',
+      ])
+      .addSelect(
+        `SUM(CASE WHEN line.direction = 'DEBIT' THEN line.amount ELSE 0 END)`,
+        'debits',
+      )
+      .addSelect(
+        `SUM(CASE WHEN line.direction = 'CREDIT' THEN line.amount ELSE 0 END)`,
+        'credits',
+      )
+      .groupBy('entry.id')
+      .having(
+        `SUM(CASE WHEN line.direction = 'DEBIT' THEN line.amount ELSE -line.amount END) <> 0`,
+      )
+      .getRawMany();
+
+    return rows.map(row => ({
+      entry_id: row.entry_id,
+      entry_type: row.entry_type,
+      reference: row.reference,
+      debits: parseFloat(row.debits) || 0,
+      credits: parseFloat(row.credits) || 0,
+    }));
+  }
+
+  /**
+   * Withdrawals already taken off vendor balances but not yet paid out or
+   * returned, per currency
+   */
+  private async sumOpenWithdrawals(): Promise<
+    { currency: Currency; amount: string }[]
+  > {
+    return this.withdrawalRepository
+      .createQueryBuilder('withdrawal')
+      .select('withdrawal.currency', 'currency')
+      .addSelect('SUM(withdrawal.amount)', 'amount')
+      .where({
+        status: In([WithdrawalStatus.PENDING, WithdrawalStatus.PROCESSING]),
+      })
+      .groupBy('withdrawal.currency')
+      .getRawMany();
+  }
+
+  private checkPayoutInTransit(
+    accounts: LedgerAccountBalanceDto[],
+    withdrawals: { currency: Currency; amount: string }[],
+  ): PayoutInTransitCheckDto[] {
+    const checks = new Map<string, PayoutInTransitCheckDto>();
+
+    for (const account of accounts) {
+      if (account.type !== LedgerAccountType.PAYOUT_IN_TRANSIT) continue;
+      checks.set(account.currency, {
+        currency: account.currency,
+        ledger_amount: account.balance,
+        open_withdrawals_amount: 0,
+        drift: 0,
+      });
+    }
+
+    for (const row of withdrawals) {
+      const check = checks.get(row.currency) || {
+        currency: row.currency,
+        ledger_amount: 0,
+        open_withdrawals_amount: 0,
+        drift: 0,
+      };
+      check.open_withdrawals_amount = roundMoney(parseFloat(row.amount) || 0);
+      checks.set(row.currency, check);
+    }
+
+    return [...checks.values()].map(check => ({
+      ...check,
+      drift: roundMoney(check.open_withdrawals_amount - check.ledger_amount),
+    }));
+  }
+}
@@ -0,0 +1,717 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import {
+  Currency,
+  JournalEntry,
+  JournalEntryType,
+  JournalLine,
+  LEDGER_NORMAL_BALANCE,
+  LedgerAccount,
+  LedgerAccountType,
+  LedgerDirection,
+  PaymentProvider,
+} from 'src/entities';
+import {
+  AdjustmentPosting,
+  FxConversionPosting,
+  LedgerLineInput,
+  OrderPaymentPosting,
+  PostJournalEntryInput,
+  RefundPosting,
+  WalletFundingPosting,
+  WalletTransferPosting,
+  WithdrawalPosting,
+} from '../interfaces/ledger-posting.interface';
+import {
+  JournalEntryListResponseDto,
+  JournalEntryQueryDto,
+  JournalEntryResponseDto,
+  LedgerAccountBalanceDto,
+} from '../dto/ledger.dto';
+
+const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Payouts marked as paid by an admin went out of the platform's own bank
+const MANUAL_PAYOUT_CLEARING = 'BANK';
+
+/**
+ * Unique code of a ledger account. The opening balance migration builds the
+ * same codes in SQL.
+ */
+export const ledgerAccountCode = (
+  type: LedgerAccountType,
+  currency: Currency,
+  ownerId?: string,
+): string => [type, ownerId, currency].filter(Boolean).join(':');
+
+/**
+ * Line for a signed amount: negative amounts go on the opposite side
+ */
+const signedLine = (
+  account: LedgerAccountType,
+  direction: LedgerDirection,
+  amount: number,
+  ownerId?: string,
+): LedgerLineInput => ({
+  account,
+  owner_id: ownerId,
+  direction:
+    amount >= 0
+      ? direction
+      : direction === LedgerDirection.DEBIT
+      ? LedgerDirection.CREDIT
+      : LedgerDirection.DEBIT,
+  amount: Math.abs(amount),
+});
+
+/**
+ * Double-entry ledger behind wallet and vendor balances. Every money
+ * movement posts a balanced journal entry; Wallet.balance and
+ * Wallet.vendor_balance stay as the fast read path and are checked against
+ * the ledger by LedgerReconciliationService.
+ */
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(
+    @InjectRepository(JournalEntry)
+    private readonly journalEntryRepository: Repository<JournalEntry>,
+    @InjectRepository(LedgerAccount)
+    private readonly ledgerAccountRepository: Repository<LedgerAccount>,
+  ) {}
+
+  /**
+   * Post a journal entry. Debits must equal credits. Posting the same entry
+   * type and reference again returns the existing entry. Pass the caller's
+   * manager to post inside its transaction.
+   */
+  async post(
+    input: PostJournalEntryInput,
+    manager?: EntityManager,
+  ): Promise<JournalEntry | null> {
+    const lines = input.lines
+      .map(line => ({ ...line, amount: roundMoney(Number(line.amount)) }))
+      .filter(line => line.amount > 0);
+
+    if (lines.length === 0) {
+      return null;
+    }
+
+    const debits = roundMoney(
+      lines
+        .filter(line => line.direction === LedgerDirection.DEBIT)
+        .reduce((sum, line) => sum + line.amount, 0),
+    );
+    const credits = roundMoney(
+      lines
+        .filter(line => line.direction === LedgerDirection.CREDIT)
+        .reduce((sum, line) => sum + line.amount, 0),
+    );
+
+    if (debits !== credits) {
+      throw new BadRequestException(
+        `Unbalanced ${input.entry_type} entry ${input.reference}: debits ${debits}, credits ${credits}`,
+      );
+    }
+
+    const write = async (em: EntityManager): Promise<JournalEntry> => {
+      const existing = await em.findOne(JournalEntry, {
+        where: { entry_type: input.entry_type, reference: input.reference },
+      });
+      if (existing) {
+        this.logger.log(
+          `${input.entry_type} ${input.reference} already posted, skipping`,
+        );
+        return existing;
+      }
+
+      const entry = em.create(JournalEntry, {
+        entry_type: input.entry_type,
+        reference: input.reference,
+        currency: input.currency,
+        description: input.description,
+        order_id: input.order_id,
+        metadata: input.metadata,
+        posted_at: new Date(),
+        lines: [],
+      });
+
+      for (const line of lines) {
+        const account = await this.resolveAccount(
+          em,
+          line.account,
+          input.currency,
+          line.owner_id,
+        );
+        entry.lines.push(
+          em.create(JournalLine, {
+            account_id: account.id,
+            direction: line.direction,
+            amount: line.amount,
+          }),
+        );
+      }
+
+      return em.save(entry);
+    };
+
+    const entry = manager
+      ? await write(manager)
+      : await this.journalEntryRepository.manager.transaction(write);
+
+    this.logger.log(
+      `Posted ${input.entry_type} ${input.reference}: ${debits} ${input.currency}`,
+    );
+
+    return entry;
+  }
+
+  async recordWalletFunding(
+    posting: WalletFundingPosting,
+    manager?: EntityManager,
+  ): Promise<JournalEntry | null> {
+    return this.post(
+      {
+        entry_type: JournalEntryType.WALLET_FUNDING,
+        reference: posting.reference,
+        currency: posting.currency,
+        description: `Wallet funding via ${posting.provider}`,
+        lines: [
+          {
+            account: LedgerAccountType.GATEWAY_CLEARING,
+            owner_id: posting.provider,
+            direction: LedgerDirection.DEBIT,
+            amount: posting.amount,
+          },
+          {
+            account: LedgerAccountType.CUSTOMER_WALLET,
+            owner_id: posting.user_id,
+            direction: LedgerDirection.CREDIT,
+            amount: posting.amount,
+          },
+        ],
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Move wallet money between currencies. Each currency gets its own entry,
+   * balanced against the FX position account, and both are posted together.
+   */
+  async recordFxConversion(
+    posting: FxConversionPosting,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const metadata = {
+      from_currency: posting.from_currency,
+      from_amount: posting.from_amount,
+      to_currency: posting.to_currency,
+      to_amount: posting.to_amount,
+      rate: posting.rate,
+      spread_percentage: posting.spread_percentage,
+    };
+    const description = `Converted ${posting.from_amount} ${posting.from_currency} to ${posting.to_amount} ${posting.to_currency}`;
+
+    const write = async (em: EntityManager): Promise<void> => {
+      await this.post(
+        {
+          entry_type: JournalEntryType.FX_CONVERSION,
+          reference: `${posting.reference}:${posting.from_currency}`,
+          currency: posting.from_currency,
+          description,
+          order_id: posting.order_id,
+          metadata,
+          lines: [
+            {
+              account: LedgerAccountType.CUSTOMER_WALLET,
+              owner_id: posting.user_id,
+              direction: LedgerDirection.DEBIT,
+              amount: posting.from_amount,
+            },
+            {
+              account: LedgerAccountType.FX_POSITION,
+              direction: LedgerDirection.CREDIT,
+              amount: posting.from_amount,
+            },
+          ],
+        },
+        em,
+      );
+      await this.post(
+        {
+          entry_type: JournalEntryType.FX_CONVERSION,
+          reference: `${posting.reference}:${posting.to_currency}`,
+          currency: posting.to_currency,
+          description,
+          order_id: posting.order_id,
+          metadata,
+          lines: [
+            {
+              account: LedgerAccountType.FX_POSITION,
+              direction: LedgerDirection.DEBIT,
+              amount: posting.to_amount,
+            },
+            {
+              account: LedgerAccountType.CUSTOMER_WALLET,
+              owner_id: posting.user_id,
+              direction: LedgerDirection.CREDIT,
+              amount: posting.to_amount,
+            },
+          ],
+        },
+        em,
+      );
+    };
+
+    if (manager) {
+      await write(manager);
+    } else {
+      await this.journalEntryRepository.manager.transaction(write);
+    }
+  }
+
+  async recordWalletTransfer(
+    posting: WalletTransferPosting,
+    manager?: EntityManager,
+  ): Promise<JournalEntry | null> {
+    const side = (
+      userId: string | undefined,
+      direction: LedgerDirection,
+    ): LedgerLineInput =>
+      userId
+        ? {
+            account: LedgerAccountType.CUSTOMER_WALLET,
+            owner_id: userId,
+            direction,
+            amount: posting.amount,
+          }
+        : {
+            account: posting.held_account ?? LedgerAccountType.GIFT_CREDIT,
+            direction,
+            amount: posting.amount,
+          };
+
+    return this.post(
+      {
+        entry_type: JournalEntryType.WALLET_TRANSFER,
+        reference: posting.reference,
+        currency: posting.currency,
+        description: posting.description,
+        lines: [
+          side(posting.from_user_id, LedgerDirection.DEBIT),
+          side(posting.to_user_id, LedgerDirection.CREDIT),
+        ],
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Customer payment split into the vendor's share and the platform's
+   * commission. The platform's share also carries delivery and service fees
+   * net of discounts, so it can go negative on heavily discounted orders.
+   */
+  async recordOrderPayment(
+    posting: OrderPaymentPosting,
+    manager?: EntityManager,
+  ): Promise<JournalEntry | null> {
+    const platformAmount = roundMoney(
+      posting.total_amount - posting.vendor_amount,
+    );
+    const escrowAmount = roundMoney(posting.escrow_amount ?? 0);
+
+    return this.post(
+      {
+        entry_type: JournalEntryType.ORDER_PAYMENT,
+        reference: posting.reference,
+        currency: posting.currency,
+        description: `Payment for order ${posting.order_id}`,
+        order_id: posting.order_id,
+        metadata: posting.metadata,
+        lines: [
+          this.customerFundsLine(
+            posting.provider,
+            posting.customer_id,
+            LedgerDirection.DEBIT,
+            roundMoney(posting.total_amount - escrowAmount),
+          ),
+          {
+            account: LedgerAccountType.GROUP_ORDER_ESCROW,
+            direction: LedgerDirection.DEBIT,
+            amount: escrowAmount,
+          },
+          {
+            account: LedgerAccountType.VENDOR_PAYABLE,
+            owner_id: posting.vendor_user_id,
+            direction: LedgerDirection.CREDIT,
+            amount: posting.vendor_amount,
+          },
+          signedLine(
+            LedgerAccountType.PLATFORM_COMMISSION,
+            LedgerDirection.CREDIT,
+            platformAmount,
+          ),
+        ],
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Refund to the customer, funded by the vendor clawback and the platform
+   * for the rest
+   */
+  async recordRefund(
+    posting: RefundPosting,
+    manager?: EntityManager,
+  ): Promise<JournalEntry | null> {
+    return this.post(
+      {
+        entry_type: JournalEntryType.REFUND,
+        reference: posting.reference,
+        currency: posting.currency,
+        description:
+          posting.description || `Refund for order ${posting.order_id}`,
+        order_id: posting.order_id,
+        lines: this.refundLines(posting),
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Take back a refund that should not have been issued, e.g. when an admin
+   * reverts a cancellation. Posted as an adjustment mirroring recordRefund.
+   */
+  async recordRefundReversal(
+    posting: RefundPosting,
+    manager?: EntityManager,
+  ): Promise<JournalEntry | null> {
+    return this.post(
+      {
+        entry_type: JournalEntryType.ADJUSTMENT,
+        reference: posting.reference,
+        currency: posting.currency,
+        description:
+          posting.description ||
+          `Refund reversed for order ${posting.order_id}`,
+        order_id: posting.order_id,
+        lines: this.refundLines(posting).map(line => ({
+          ...line,
+          direction:
+            line.direction === LedgerDirection.DEBIT
+              ? LedgerDirection.CREDIT
+              : LedgerDirection.DEBIT,
+        })),
+      },
+      manager,
+    );
+  }
+
+  async recordWithdrawalRequested(
+    withdrawal: WithdrawalPosting,
+    manager?: EntityManager,
+  ): Promise<JournalEntry | null> {
+    return this.post(
+      {
+        entry_type: JournalEntryType.WITHDRAWAL_REQUESTED,
+        reference: withdrawal.id,
+        currency: withdrawal.currency,
+        description: `Withdrawal ${withdrawal.id} requested`,
+        lines: [
+          {
+            account: LedgerAccountType.VENDOR_PAYABLE,
+            owner_id: withdrawal.user_id,
+            direction: LedgerDirection.DEBIT,
+            amount: withdrawal.amount,
+          },
+          {
+            account: LedgerAccountType.PAYOUT_IN_TRANSIT,
+            direction: LedgerDirection.CREDIT,
+            amount: withdrawal.amount,
+          },
+        ],
+      },
+      manager,
+    );
+  }
+
+  async recordWithdrawalPaid(
+    withdrawal: WithdrawalPosting,
+    manager?: EntityManager,
+  ): Promise<JournalEntry | null> {
+    const clearing = withdrawal.payout_provider || MANUAL_PAYOUT_CLEARING;
+
+    return this.post(
+      {
+        entry_type: JournalEntryType.WITHDRAWAL_PAID,
+        reference: withdrawal.id,
+        currency: withdrawal.currency,
+        description: `Withdrawal ${withdrawal.id} paid out via ${clearing}`,
+        lines: [
+          {
+            account: LedgerAccountType.PAYOUT_IN_TRANSIT,
+            direction: LedgerDirection.DEBIT,
+            amount: withdrawal.amount,
+          },
+          {
+            account: LedgerAccountType.GATEWAY_CLEARING,
+            owner_id: clearing,
+            direction: LedgerDirection.CREDIT,
+            amount: withdrawal.amount,
+          },
+        ],
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Failed or rejected withdrawal going back to the vendor's balance
+   */
+  async recordWithdrawalReturned(
+    withdrawal: WithdrawalPosting,
+    manager?: EntityManager,
+  ): Promise<JournalEntry | null> {
+    return this.post(
+      {
+        entry_type: JournalEntryType.WITHDRAWAL_RETURNED,
+        reference: withdrawal.id,
+        currency: withdrawal.currency,
+        description: `Withdrawal ${withdrawal.id} returned to vendor balance`,
+        lines: [
+          {
+            account: LedgerAccountType.PAYOUT_IN_TRANSIT,
+            direction: LedgerDirection.DEBIT,
+            amount: withdrawal.amount,
+          },
+          {
+            account: LedgerAccountType.VENDOR_PAYABLE,
+            owner_id: withdrawal.user_id,
+            direction: LedgerDirection.CREDIT,
+            amount: withdrawal.amount,
+          },
+        ],
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Manual correction of a wallet or vendor balance, balanced against the
+   * ADJUSTMENTS account
+   */
+  async recordAdjustment(
+    posting: AdjustmentPosting,
+    manager?: EntityManager,
+  ): Promise<JournalEntry | null> {
+    return this.post(
+      {
+        entry_type: JournalEntryType.ADJUSTMENT,
+        reference:
+          posting.reference ||
+          `adj_${Date.now()}_${randomBytes(6).toString('hex')}`,
+        currency: posting.currency,
+        description: posting.description,
+        order_id: posting.order_id,
+        metadata: posting.metadata,
+        lines: [
+          signedLine(
+            posting.account,
+            LedgerDirection.CREDIT,
+            posting.amount,
+            posting.user_id,
+          ),
+          signedLine(
+            LedgerAccountType.ADJUSTMENTS,
+            LedgerDirection.DEBIT,
+            posting.amount,
+          ),
+        ],
+      },
+      manager,
+    );
+  }
+
+  async listEntries(
+    query: JournalEntryQueryDto,
+  ): Promise<JournalEntryListResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const qb = this.journalEntryRepository
+      .createQueryBuilder('entry')
+      .leftJoinAndSelect('entry.lines', 'line')
+      .leftJoinAndSelect('line.account', 'account')
+      .orderBy('entry.posted_at', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    if (query.entry_type) {
+      qb.andWhere('entry.entry_type = :entryType', {
+        entryType: query.entry_type,
+      });
+    }
+    if (query.reference) {
+      qb.andWhere('entry.reference = :reference', {
+        reference: query.reference,
+      });
+    }
+    if (query.order_id) {
+      qb.andWhere('entry.order_id = :orderId', { orderId: query.order_id });
+    }
+    if (query.owner_id) {
+      qb.andWhere(
+        'entry.id IN (SELECT l.journal_entry_id FROM journal_lines l JOIN ledger_accounts a ON a.id = l.account_id WHERE a.owner_id = :ownerId)',
+        { ownerId: query.owner_id },
+      );
+    }
+
+    const [entries, total] = await qb.getManyAndCount();
+
+    return {
+      entries: entries.map(entry => this.mapEntryToResponse(entry)),
+      total,
+      page,
+      limit,
+      total_pages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Balances of every account, or of the accounts belonging to one user,
+   * computed from the journal lines
+   */
+  async getAccountBalances(
+    ownerId?: string,
+  ): Promise<LedgerAccountBalanceDto[]> {
+    const qb = this.ledgerAccountRepository
+      .createQueryBuilder('account')
+      .leftJoin(JournalLine, 'line', 'line.account_id = account.id')
+      .select([
+        'account.id AS id',
+        'account.code AS code',
+        'account.type AS type',
+        'account.owner_id AS owner_id',
+        'account.currency AS currency',
+        'account.normal_balance AS normal_balance',
+      ])
+      .addSelect(
+        `COALESCE(SUM(CASE WHEN line.direction::text = account.normal_balance::text THEN line.amount ELSE -line.amount END), 0)`,
+        'balance',
+      )
+      .groupBy('account.id')
+      .orderBy('account.code', 'ASC');
+
+    if (ownerId) {
+      qb.where('account.owner_id = :ownerId', { ownerId });
+    }
+
+    const rows = await qb.getRawMany();
+
+    return rows.map(row => ({
+      id: row.id,
+      code: row.code,
+      type: row.type,
+      owner_id: row.owner_id,
+      currency: row.currency,
+      normal_balance: row.normal_balance,
+      balance: roundMoney(parseFloat(row.balance) || 0),
+    }));
+  }
+
+  private refundLines(posting: RefundPosting): LedgerLineInput[] {
+    const platformAmount = roundMoney(posting.amount - posting.vendor_clawback);
+
+    return [
+      this.customerFundsLine(
+        posting.provider,
+        posting.customer_id,
+        LedgerDirection.CREDIT,
+        posting.amount,
+      ),
+      {
+        account: LedgerAccountType.VENDOR_PAYABLE,
+        owner_id: posting.vendor_user_id,
+        direction: LedgerDirection.DEBIT,
+        amount: posting.vendor_clawback,
+      },
+      signedLine(
+        LedgerAccountType.PLATFORM_COMMISSION,
+        LedgerDirection.DEBIT,
+        platformAmount,
+      ),
+    ];
+  }
+
+  private customerFundsLine(
+    provider: PaymentProvider,
+    customerId: string,
+    direction: LedgerDirection,
+    amount: number,
+  ): LedgerLineInput {
+    return provider === PaymentProvider.WALLET
+      ? {
+          account: LedgerAccountType.CUSTOMER_WALLET,
+          owner_id: customerId,
+          direction,
+          amount,
+        }
+      : {
+          account: LedgerAccountType.GATEWAY_CLEARING,
+          owner_id: provider,
+          direction,
+          amount,
+        };
+  }
+
+  private async resolveAccount(
+    manager: EntityManager,
+    type: LedgerAccountType,
+    currency: Currency,
+    ownerId?: string,
+  ): Promise<LedgerAccount> {
+    const code = ledgerAccountCode(type, currency, ownerId);
+
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(LedgerAccount)
+      .values({
+        code,
+        type,
+        owner_id: ownerId || null,
+        currency,
+        normal_balance: LEDGER_NORMAL_BALANCE[type],
+      })
+      .orIgnore()
+      .execute();
+
+    return manager.findOne(LedgerAccount, { where: { code } });
+  }
+
+  private mapEntryToResponse(entry: JournalEntry): JournalEntryResponseDto {
+    return {
+      id: entry.id,
+      entry_type: entry.entry_type,
+      reference: entry.reference,
+      currency: entry.currency,
+      description: entry.description,
+      order_id: entry.order_id,
+      metadata: entry.metadata,
+      posted_at: entry.posted_at,
+      lines: (entry.lines || []).map(line => ({
+        account_code: line.account?.code,
+        account_type: line.account?.type,
+        owner_id: line.account?.owner_id,
+        direction: line.direction,
+        amount: line.amount,
+      })),
+    };
+  }
+}
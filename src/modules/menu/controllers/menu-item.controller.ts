@@ -30,6 +30,8 @@ import {
 import { FileInterceptor } from '@nestjs/platform-express';
 import { JwtAuthGuard } from 'src/modules/auth/guards/jwt-auth.guard';
 import { MenuItemService } from '../services/menu-item.service';
+import { MenuModifierService } from '../services/menu-modifier.service';
+import { MenuInventoryService } from '../services/menu-inventory.service';
 import { FileStorageService } from 'src/modules/file-storage/services/file-storage.service';
 import {
   CreateMenuItemDto,
@@ -38,9 +40,12 @@ import {
   BulkMenuOperationDto,
   MenuItemWithDistanceDto,
   SearchMenuItemsResponseDto,
+  SetMenuModifiersDto,
+  UpdateMenuItemInventoryDto,
+  MenuItemInventoryResponseDto,
 } from 'src/modules/menu/dto';
 import { VendorOnly, AdminOrVendor, AccessControl } from 'src/common/guards';
-import { MenuItem, User, UserType } from 'src/entities';
+import { MenuItem, MenuModifierGroup, User, UserType } from 'src/entities';
 import { GetUser } from '@/common/decorators/get-user.decorator';
 
 @ApiTags('Menu Items')
@@ -50,6 +55,8 @@ export class MenuItemController {
   constructor(
     private readonly menuItemService: MenuItemService,
     private readonly fileStorageService: FileStorageService,
+    private readonly menuModifierService: MenuModifierService,
+    private readonly menuInventoryService: MenuInventoryService,
   ) {}
 
   @Post()
@@ -361,6 +368,92 @@ export class MenuItemController {
     await this.menuItemService.deleteMenuItem(id, user.id);
   }
 
+  @Get(':id/modifiers')
+  @ApiOperation({ summary: 'Get modifier groups (sizes, add-ons) of a menu item' })
+  @ApiParam({ name: 'id', description: 'Menu item ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Modifier groups retrieved successfully',
+  })
+  async getModifiers(@Param('id') id: string): Promise<MenuModifierGroup[]> {
+    return await this.menuModifierService.getModifierGroups(id);
+  }
+
+  @Put(':id/modifiers')
+  @UseGuards(JwtAuthGuard)
+  @AccessControl({
+    roles: [UserType.VENDOR],
+    requireVendorOwnership: 'id',
+  })
+  @ApiOperation({
+    summary: 'Replace modifier groups of a menu item',
+    description:
+      'Groups and options sent with an id are updated; ones without an id are created; any not listed are removed.',
+  })
+  @ApiParam({ name: 'id', description: 'Menu item ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Modifier groups updated successfully',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid selection limits' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Only owner can modify',
+  })
+  @ApiResponse({ status: 404, description: 'Menu item not found' })
+  async setModifiers(
+    @Param('id') id: string,
+    @GetUser() user: User,
+    @Body() dto: SetMenuModifiersDto,
+  ): Promise<MenuModifierGroup[]> {
+    return await this.menuModifierService.setModifierGroups(id, user.id, dto);
+  }
+
+  @Get(':id/inventory')
+  @ApiOperation({ summary: 'Get stock levels of a menu item' })
+  @ApiParam({ name: 'id', description: 'Menu item ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Inventory retrieved successfully',
+    type: MenuItemInventoryResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Menu item not found' })
+  async getInventory(
+    @Param('id') id: string,
+  ): Promise<MenuItemInventoryResponseDto> {
+    return await this.menuInventoryService.getInventory(id);
+  }
+
+  @Put(':id/inventory')
+  @UseGuards(JwtAuthGuard)
+  @AccessControl({
+    roles: [UserType.VENDOR],
+    requireVendorOwnership: 'id',
+  })
+  @ApiOperation({
+    summary: 'Set stock count and daily limit of a menu item',
+    description:
+      'The item is switched off automatically when stock runs out and back on when restocked.',
+  })
+  @ApiParam({ name: 'id', description: 'Menu item ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Inventory updated successfully',
+    type: MenuItemInventoryResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Only owner can modify',
+  })
+  @ApiResponse({ status: 404, description: 'Menu item not found' })
+  async updateInventory(
+    @Param('id') id: string,
+    @GetUser() user: User,
+    @Body() dto: UpdateMenuItemInventoryDto,
+  ): Promise<MenuItemInventoryResponseDto> {
+    return await this.menuInventoryService.updateInventory(id, user.id, dto);
+  }
+
   @Put(':id/availability')
   @UseGuards(JwtAuthGuard)
   @AccessControl({
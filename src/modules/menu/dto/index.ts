@@ -3,4 +3,6 @@ export * from './create-menu-item-with-file.dto';
 export * from './update-menu-item.dto';
 export * from './menu-item-response.dto';
 export * from './search-menu-items.dto';
-export * from './bulk-menu-operations.dto'; 
\ No newline at end of file
+export * from './bulk-menu-operations.dto'; 
+export * from './menu-modifier.dto';
+export * from './menu-inventory.dto';
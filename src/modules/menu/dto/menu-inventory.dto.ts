@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Min, ValidateIf } from 'class-validator';
+
+export class UpdateMenuItemInventoryDto {
+  @ApiPropertyOptional({
+    description: 'Portions in stock. Send null to stop tracking stock.',
+    example: 40,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  @Min(0)
+  stock_quantity?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      "Maximum portions sold per business day. Resets at the vendor's inventory reset time. Send null to remove the limit.",
+    example: 25,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  @Min(1)
+  daily_stock_limit?: number | null;
+}
+
+export class MenuItemInventoryResponseDto {
+  @ApiProperty({ example: 'menu-item-uuid' })
+  menu_item_id: string;
+
+  @ApiProperty({ example: 40, nullable: true })
+  stock_quantity: number | null;
+
+  @ApiProperty({ example: 25, nullable: true })
+  daily_stock_limit: number | null;
+
+  @ApiProperty({
+    description: 'Portions sold in the current business day',
+    example: 12,
+  })
+  sold_today: number;
+
+  @ApiProperty({
+    description: 'Portions that can still be ordered; null when unlimited',
+    example: 13,
+    nullable: true,
+  })
+  remaining_stock: number | null;
+
+  @ApiProperty({ example: '2024-01-02' })
+  business_day: string;
+
+  @ApiProperty({ example: true })
+  is_available: boolean;
+
+  @ApiPropertyOptional({
+    description: 'When the item was switched off automatically for selling out',
+    nullable: true,
+  })
+  sold_out_at?: Date | null;
+}
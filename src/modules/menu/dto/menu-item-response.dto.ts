@@ -9,6 +9,21 @@ export class MenuItemWithDistanceDto extends MenuItem {
     nullable: true
   })
   distance?: number | null;
+
+  @ApiProperty({
+    description: 'Whether the vendor is accepting orders right now',
+    example: true,
+    required: false
+  })
+  is_open_now?: boolean;
+
+  @ApiProperty({
+    description: 'Next time the vendor opens. Null while open.',
+    example: '2024-01-02T08:00:00.000Z',
+    required: false,
+    nullable: true
+  })
+  next_opening_at?: Date | null;
 }
 
 export class SearchMenuItemsResponseDto {
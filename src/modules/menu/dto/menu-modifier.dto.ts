@@ -0,0 +1,119 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsBoolean,
+  IsInt,
+  IsArray,
+  IsUUID,
+  Min,
+  Max,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ModifierOptionInputDto {
+  @ApiPropertyOptional({
+    description: 'Existing option ID; omit to create a new option',
+  })
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
+  @ApiProperty({ description: 'Option name', example: 'Large' })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Added to the item price when selected',
+    example: 500,
+    default: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-1000000)
+  price_delta?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the option can be selected',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  is_available?: boolean;
+
+  @ApiPropertyOptional({ description: 'Display order', default: 0 })
+  @IsOptional()
+  @IsInt()
+  sort_order?: number;
+}
+
+export class ModifierGroupInputDto {
+  @ApiPropertyOptional({
+    description: 'Existing group ID; omit to create a new group',
+  })
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
+  @ApiProperty({ description: 'Group name', example: 'Choose 2 sides' })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Group description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    description: 'Minimum options to select (0 = optional)',
+    example: 2,
+    minimum: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  min_selections: number;
+
+  @ApiProperty({
+    description: 'Maximum options to select',
+    example: 2,
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  max_selections: number;
+
+  @ApiPropertyOptional({ description: 'Display order', default: 0 })
+  @IsOptional()
+  @IsInt()
+  sort_order?: number;
+
+  @ApiProperty({
+    description: 'Options in this group',
+    type: [ModifierOptionInputDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => ModifierOptionInputDto)
+  options: ModifierOptionInputDto[];
+}
+
+export class SetMenuModifiersDto {
+  @ApiProperty({
+    description:
+      'Full list of modifier groups for the menu item. Groups and options not listed are removed.',
+    type: [ModifierGroupInputDto],
+  })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => ModifierGroupInputDto)
+  groups: ModifierGroupInputDto[];
+}
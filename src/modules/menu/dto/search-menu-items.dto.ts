@@ -6,7 +6,8 @@ export enum SortBy {
   NAME = 'name',
   PRICE = 'price',
   CREATED_AT = 'created_at',
-  DISTANCE = 'distance'
+  DISTANCE = 'distance',
+  RATING = 'rating'
 }
 
 export enum SortOrder {
@@ -61,6 +62,16 @@ export class SearchMenuItemsDto {
   @Transform(({ value }) => value === 'true' || value === true)
   include_inactive?: boolean;
 
+  @ApiPropertyOptional({ 
+    description: 'Include vendors that are currently closed (outside opening hours, on a closure or paused). Each item reports is_open_now and next_opening_at either way.',
+    default: false,
+    example: true
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  include_closed?: boolean;
+
   @ApiPropertyOptional({ 
     description: 'Sort by field. Note: When coordinates are provided, distance sorting takes priority',
     enum: SortBy
@@ -1,6 +1,14 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { MenuItem, Category, Vendor, MenuLike } from 'src/entities'; // ✅ Add MenuLike
+import {
+  MenuItem,
+  Category,
+  Vendor,
+  MenuLike,
+  MenuModifierGroup,
+  MenuModifierOption,
+  OrderItem,
+} from 'src/entities'; // ✅ Add MenuLike
 import { FileStorageModule } from 'src/modules/file-storage/file-storage.module';
 
 // Controllers
@@ -13,6 +21,8 @@ import { VendorMenuLikeController } from './controllers/vendor-menu-like.control
 import { MenuItemService } from './services/menu-item.service';
 import { CategoryService } from './services/category.service';
 import { MenuLikeService } from './services/menu-like.service'; // ✅ Add this
+import { MenuModifierService } from './services/menu-modifier.service';
+import { MenuInventoryService } from './services/menu-inventory.service';
 
 // Repositories
 import { MenuItemRepository } from './repositories/menu-item.repository';
@@ -26,7 +36,15 @@ import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([MenuItem, Category, Vendor, MenuLike]), // ✅ Add MenuLike
+    TypeOrmModule.forFeature([
+      MenuItem,
+      Category,
+      Vendor,
+      MenuLike, // ✅ Add MenuLike
+      MenuModifierGroup,
+      MenuModifierOption,
+      OrderItem,
+    ]),
     FileStorageModule,
     VendorModule,
     UserModule,
@@ -45,6 +63,8 @@ import { AuthModule } from '../auth/auth.module';
     CategoryRepository,
     MenuLikeService, // ✅ Add this
     MenuLikeRepository, // ✅ Add this
+    MenuModifierService,
+    MenuInventoryService,
   ],
   exports: [
     MenuItemService,
@@ -53,6 +73,8 @@ import { AuthModule } from '../auth/auth.module';
     CategoryRepository,
     MenuLikeService, // ✅ Add this (in case other modules need it)
     MenuLikeRepository, // ✅ Add this (in case other modules need it)
+    MenuModifierService,
+    MenuInventoryService,
   ],
 })
 export class MenuModule {}
\ No newline at end of file
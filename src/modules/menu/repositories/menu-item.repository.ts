@@ -2,7 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { Repository, SelectQueryBuilder } from 'typeorm';
 import { InjectRepository } from '@nestjs/typeorm';
 import { MenuItem, Vendor, Category } from 'src/entities';
-import { SearchMenuItemsDto } from '../dto/search-menu-items.dto';
+import { SearchMenuItemsDto, SortBy } from '../dto/search-menu-items.dto';
 import { MenuItemWithDistanceDto } from '../dto/menu-item-response.dto';
 import { fetchPage } from '@/utils/pagination.utils';
 
@@ -74,17 +74,11 @@ export class MenuItemRepository {
 
       if (searchDto.sort_by && searchDto.sort_by !== 'distance') {
         const sortOrder = searchDto.sort_order || 'ASC';
-        dataQB.addOrderBy(
-          `menu_item.${searchDto.sort_by}`,
-          sortOrder as 'ASC' | 'DESC',
-        );
+        this.applySort(dataQB, searchDto.sort_by, sortOrder as 'ASC' | 'DESC');
       }
     } else if (searchDto.sort_by) {
       const sortOrder = searchDto.sort_order || 'DESC';
-      dataQB.orderBy(
-        `menu_item.${searchDto.sort_by}`,
-        sortOrder as 'ASC' | 'DESC',
-      );
+      this.applySort(dataQB, searchDto.sort_by, sortOrder as 'ASC' | 'DESC');
     } else {
       dataQB.orderBy('menu_item.created_at', 'DESC');
     }
@@ -118,6 +112,21 @@ export class MenuItemRepository {
     return await this.findById(id);
   }
 
+  private applySort(
+    qb: SelectQueryBuilder<MenuItem>,
+    sortBy: SortBy,
+    sortOrder: 'ASC' | 'DESC',
+  ): void {
+    if (sortBy === SortBy.RATING) {
+      // Items with more ratings win ties, so one 5-star review doesn't top the list
+      qb.addOrderBy('menu_item.rating_average', sortOrder);
+      qb.addOrderBy('menu_item.total_ratings', 'DESC');
+      return;
+    }
+
+    qb.addOrderBy(`menu_item.${sortBy}`, sortOrder);
+  }
+
   async delete(id: string): Promise<void> {
     await this.menuItemRepository.softDelete(id);
   }
@@ -127,12 +136,15 @@ export class MenuItemRepository {
     if (!menuItem) return null;
 
     menuItem.is_available = !menuItem.is_available;
+    // A manual change overrides any automatic sell-out
+    menuItem.sold_out_at = null;
     return await this.menuItemRepository.save(menuItem);
   }
 
   async bulkToggleAvailability(ids: string[], value: boolean): Promise<number> {
     const result = await this.menuItemRepository.update(ids, {
       is_available: value,
+      sold_out_at: null,
     });
     return result.affected || 0;
   }
@@ -149,7 +161,9 @@ export class MenuItemRepository {
     return result.affected || 0;
   }
 
-  createCountQueryBuilder(searchDto: SearchMenuItemsDto) {
+  createCountQueryBuilder(
+    searchDto: SearchMenuItemsDto,
+  ) {
     const qb = this.menuItemRepository.createQueryBuilder('menu_item');
 
     // ✅ ALWAYS join vendor to filter by is_active
@@ -159,6 +173,11 @@ export class MenuItemRepository {
     if (!searchDto.include_inactive) {
       qb.andWhere('vendor.is_active = :vendorActive', { vendorActive: true });
     }
+
+    // Hide vendors that are closed right now (unless include_closed is true)
+    if (!searchDto.include_closed) {
+      qb.andWhere('vendor.is_open = :vendorOpen', { vendorOpen: true });
+    }
     
     // Always filter out soft-deleted records
     qb.andWhere('vendor.deleted_at IS NULL');
@@ -235,7 +254,9 @@ export class MenuItemRepository {
     return qb;
   }
 
-  createSearchQueryBuilder(searchDto: SearchMenuItemsDto) {
+  createSearchQueryBuilder(
+    searchDto: SearchMenuItemsDto,
+  ) {
     const qb = this.menuItemRepository
       .createQueryBuilder('menu_item')
       .leftJoinAndSelect('menu_item.vendor', 'vendor')
@@ -247,6 +268,11 @@ export class MenuItemRepository {
     if (!searchDto.include_inactive) {
       qb.andWhere('vendor.is_active = :vendorActive', { vendorActive: true });
     }
+
+    // Hide vendors that are closed right now (unless include_closed is true)
+    if (!searchDto.include_closed) {
+      qb.andWhere('vendor.is_open = :vendorOpen', { vendorOpen: true });
+    }
     
     // Always filter out soft-deleted records
     qb.andWhere('vendor.deleted_at IS NULL');
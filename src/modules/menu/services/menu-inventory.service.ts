@@ -0,0 +1,424 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { EntityManager, In, IsNull, MoreThan, Not, Repository } from 'typeorm';
+import { CartItem, MenuItem, OrderItem, Vendor } from 'src/entities';
+import { VendorService } from 'src/modules/vendor/services/vendor.service';
+import { getBusinessDay } from 'src/utils/timezone';
+import {
+  MenuItemInventoryResponseDto,
+  UpdateMenuItemInventoryDto,
+} from '../dto/menu-inventory.dto';
+
+type InventoryVendor = Pick<Vendor, 'timezone' | 'inventory_reset_time'>;
+
+export interface StockReservation {
+  menu_item_id: string;
+  quantity: number;
+  business_day: string;
+}
+
+export interface CartStockIssue {
+  cart_item_id: string;
+  menu_item_id: string;
+  menu_item_name: string;
+  requested_quantity: number;
+  remaining_stock: number;
+}
+
+@Injectable()
+export class MenuInventoryService {
+  private readonly logger = new Logger(MenuInventoryService.name);
+
+  constructor(
+    @InjectRepository(MenuItem)
+    private readonly menuItemRepository: Repository<MenuItem>,
+    @InjectRepository(Vendor)
+    private readonly vendorRepository: Repository<Vendor>,
+    private readonly vendorService: VendorService,
+  ) {}
+
+  /**
+   * Business day the vendor's daily stock limits currently count towards
+   */
+  getBusinessDay(vendor: InventoryVendor, at: Date = new Date()): string {
+    return getBusinessDay(
+      at,
+      vendor.timezone || 'Africa/Lagos',
+      vendor.inventory_reset_time || '00:00',
+    );
+  }
+
+  /**
+   * Portions of an item that can still be ordered, or null when unlimited
+   */
+  getRemainingStock(
+    menuItem: MenuItem,
+    vendor: InventoryVendor,
+    at: Date = new Date(),
+  ): number | null {
+    const limits: number[] = [];
+
+    if (menuItem.stock_quantity != null) {
+      limits.push(menuItem.stock_quantity);
+    }
+    if (menuItem.daily_stock_limit != null) {
+      limits.push(
+        menuItem.daily_stock_limit - this.getSoldToday(menuItem, vendor, at),
+      );
+    }
+
+    return limits.length > 0 ? Math.max(0, Math.min(...limits)) : null;
+  }
+
+  /**
+   * Take stock for the items of a new order. Rows are locked so concurrent
+   * checkouts cannot oversell; items that reach zero are switched off.
+   */
+  async reserveStock(
+    vendor: Vendor,
+    lines: { menu_item_id: string; quantity: number }[],
+    manager: EntityManager,
+  ): Promise<Map<string, StockReservation>> {
+    const requested = new Map<string, number>();
+    for (const line of lines) {
+      requested.set(
+        line.menu_item_id,
+        (requested.get(line.menu_item_id) || 0) + Number(line.quantity),
+      );
+    }
+
+    const now = new Date();
+    const businessDay = this.getBusinessDay(vendor, now);
+    const reservations = new Map<string, StockReservation>();
+
+    const menuItems = await manager.find(MenuItem, {
+      where: { id: In(Array.from(requested.keys())) },
+      order: { id: 'ASC' },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    for (const menuItem of menuItems) {
+      if (!menuItem.is_stock_tracked) continue;
+
+      const quantity = requested.get(menuItem.id);
+      const remaining = this.getRemainingStock(menuItem, vendor, now);
+      if (remaining < quantity) {
+        throw new BadRequestException(
+          remaining === 0
+            ? `"${menuItem.name}" is sold out`
+            : `Only ${remaining} portion(s) of "${menuItem.name}" left`,
+        );
+      }
+
+      const soldToday = this.getSoldToday(menuItem, vendor, now);
+      const updates: Partial<MenuItem> = {
+        daily_sold_count: soldToday + quantity,
+        daily_sold_date: businessDay,
+      };
+      if (menuItem.stock_quantity != null) {
+        updates.stock_quantity = menuItem.stock_quantity - quantity;
+      }
+      if (remaining === quantity) {
+        updates.is_available = false;
+        updates.sold_out_at = now;
+        this.logger.log(`Menu item ${menuItem.id} sold out`);
+      }
+
+      await manager.update(MenuItem, menuItem.id, updates);
+      reservations.set(menuItem.id, {
+        menu_item_id: menuItem.id,
+        quantity,
+        business_day: businessDay,
+      });
+    }
+
+    return reservations;
+  }
+
+  /**
+   * Return the stock held by an order's items. Safe to call more than once;
+   * lines are zeroed as they are released.
+   */
+  async releaseOrderStock(
+    orderId: string,
+    manager?: EntityManager,
+  ): Promise<void> {
+    if (!manager) {
+      return await this.menuItemRepository.manager.transaction(
+        async transactionManager =>
+          this.releaseOrderStock(orderId, transactionManager),
+      );
+    }
+
+    const orderItems = await manager.find(OrderItem, {
+      where: { order_id: orderId, reserved_quantity: MoreThan(0) },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (orderItems.length === 0) return;
+
+    const menuItems = await manager.find(MenuItem, {
+      where: { id: In(orderItems.map(item => item.menu_item_id)) },
+      order: { id: 'ASC' },
+      lock: { mode: 'pessimistic_write' },
+    });
+    const vendor = await manager.findOne(Vendor, {
+      where: { id: menuItems[0]?.vendor_id },
+    });
+
+    for (const menuItem of menuItems) {
+      const lines = orderItems.filter(
+        item => item.menu_item_id === menuItem.id,
+      );
+      const quantity = lines.reduce(
+        (sum, item) => sum + Number(item.reserved_quantity),
+        0,
+      );
+
+      if (menuItem.stock_quantity != null) {
+        menuItem.stock_quantity += quantity;
+      }
+
+      // Only give back today's allowance if the order was placed today
+      const sameDayQuantity = lines
+        .filter(item => item.reserved_business_day === menuItem.daily_sold_date)
+        .reduce((sum, item) => sum + Number(item.reserved_quantity), 0);
+      menuItem.daily_sold_count = Math.max(
+        0,
+        menuItem.daily_sold_count - sameDayQuantity,
+      );
+
+      const updates: Partial<MenuItem> = {
+        stock_quantity: menuItem.stock_quantity,
+        daily_sold_count: menuItem.daily_sold_count,
+      };
+      if (
+        menuItem.sold_out_at &&
+        vendor &&
+        this.getRemainingStock(menuItem, vendor) !== 0
+      ) {
+        updates.is_available = true;
+        updates.sold_out_at = null;
+      }
+
+      await manager.update(MenuItem, menuItem.id, updates);
+    }
+
+    await manager.update(
+      OrderItem,
+      { id: In(orderItems.map(item => item.id)) },
+      { reserved_quantity: 0 },
+    );
+
+    this.logger.log(`Released reserved stock for order ${orderId}`);
+  }
+
+  /**
+   * Release an order's stock from a cancellation or failed payment path.
+   * Failures are logged, never thrown, so they cannot block the caller.
+   */
+  async releaseOrderStockSafely(orderId?: string | null): Promise<void> {
+    if (!orderId) return;
+    try {
+      await this.releaseOrderStock(orderId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to release reserved stock for order ${orderId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Cart lines asking for more than is left. Lines for the same item (e.g.
+   * with different options) share the item's remaining stock in cart order.
+   */
+  async checkCartStock(cartItems: CartItem[]): Promise<CartStockIssue[]> {
+    const issues: CartStockIssue[] = [];
+    const allocated = new Map<string, number>();
+    const vendors = new Map<string, Vendor>();
+
+    for (const cartItem of cartItems) {
+      const menuItem = cartItem.menu_item;
+      if (!menuItem || !menuItem.is_stock_tracked) continue;
+
+      let vendor: Vendor = menuItem.vendor || vendors.get(menuItem.vendor_id);
+      if (!vendor) {
+        vendor = await this.vendorRepository.findOne({
+          where: { id: menuItem.vendor_id },
+        });
+        if (!vendor) continue;
+        vendors.set(vendor.id, vendor);
+      }
+
+      const alreadyAllocated = allocated.get(menuItem.id) || 0;
+      const remaining = Math.max(
+        0,
+        this.getRemainingStock(menuItem, vendor) - alreadyAllocated,
+      );
+      allocated.set(menuItem.id, alreadyAllocated + Number(cartItem.quantity));
+
+      if (Number(cartItem.quantity) > remaining) {
+        issues.push({
+          cart_item_id: cartItem.id,
+          menu_item_id: menuItem.id,
+          menu_item_name: menuItem.name,
+          requested_quantity: Number(cartItem.quantity),
+          remaining_stock: remaining,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  formatStockIssue(issue: CartStockIssue): string {
+    return issue.remaining_stock === 0
+      ? `"${issue.menu_item_name}" is sold out`
+      : `Only ${issue.remaining_stock} portion(s) of "${issue.menu_item_name}" left, but ${issue.requested_quantity} are in your cart`;
+  }
+
+  async getInventory(
+    menuItemId: string,
+  ): Promise<MenuItemInventoryResponseDto> {
+    const menuItem = await this.menuItemRepository.findOne({
+      where: { id: menuItemId },
+      relations: ['vendor'],
+    });
+    if (!menuItem) {
+      throw new NotFoundException(`Menu item with ID ${menuItemId} not found`);
+    }
+
+    return this.mapToInventoryResponse(menuItem, menuItem.vendor);
+  }
+
+  /**
+   * Set or clear stock tracking for a vendor's menu item. Restocking brings
+   * back an item that was switched off for selling out.
+   */
+  async updateInventory(
+    menuItemId: string,
+    userId: string,
+    dto: UpdateMenuItemInventoryDto,
+  ): Promise<MenuItemInventoryResponseDto> {
+    this.logger.log(`Updating inventory for menu item ${menuItemId}`);
+
+    const vendor = await this.vendorService.getVendorByUserId(userId);
+    if (!vendor) {
+      throw new NotFoundException(`Vendor with ID ${userId} not found`);
+    }
+
+    return await this.menuItemRepository.manager.transaction(async manager => {
+      const menuItem = await manager.findOne(MenuItem, {
+        where: { id: menuItemId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!menuItem) {
+        throw new NotFoundException(
+          `Menu item with ID ${menuItemId} not found`,
+        );
+      }
+      if (menuItem.vendor_id !== vendor.id) {
+        throw new ForbiddenException('You can only update your own menu items');
+      }
+
+      if (dto.stock_quantity !== undefined) {
+        menuItem.stock_quantity = dto.stock_quantity;
+      }
+      if (dto.daily_stock_limit !== undefined) {
+        menuItem.daily_stock_limit = dto.daily_stock_limit;
+      }
+
+      const remaining = this.getRemainingStock(menuItem, vendor);
+      if (remaining === 0 && menuItem.is_available) {
+        menuItem.is_available = false;
+        menuItem.sold_out_at = new Date();
+      } else if (remaining !== 0 && menuItem.sold_out_at) {
+        menuItem.is_available = true;
+        menuItem.sold_out_at = null;
+      }
+
+      await manager.update(MenuItem, menuItem.id, {
+        stock_quantity: menuItem.stock_quantity,
+        daily_stock_limit: menuItem.daily_stock_limit,
+        is_available: menuItem.is_available,
+        sold_out_at: menuItem.sold_out_at,
+      });
+
+      return this.mapToInventoryResponse(menuItem, vendor);
+    });
+  }
+
+  /**
+   * Bring back items that sold out on their daily limit once the vendor's
+   * next business day has started
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async restoreDailySoldOutItems(): Promise<void> {
+    const soldOutItems = await this.menuItemRepository.find({
+      where: {
+        is_available: false,
+        sold_out_at: Not(IsNull()),
+        daily_stock_limit: Not(IsNull()),
+      },
+      relations: ['vendor'],
+    });
+
+    let restored = 0;
+    for (const menuItem of soldOutItems) {
+      if (!menuItem.vendor) continue;
+
+      const businessDay = this.getBusinessDay(menuItem.vendor);
+      if (menuItem.daily_sold_date === businessDay) continue;
+
+      menuItem.daily_sold_count = 0;
+      menuItem.daily_sold_date = businessDay;
+      if (this.getRemainingStock(menuItem, menuItem.vendor) === 0) continue;
+
+      await this.menuItemRepository.update(menuItem.id, {
+        is_available: true,
+        sold_out_at: null,
+        daily_sold_count: 0,
+        daily_sold_date: businessDay,
+      });
+      restored++;
+    }
+
+    if (restored > 0) {
+      this.logger.log(
+        `Restored ${restored} menu item(s) for a new business day`,
+      );
+    }
+  }
+
+  private getSoldToday(
+    menuItem: MenuItem,
+    vendor: InventoryVendor,
+    at: Date,
+  ): number {
+    return menuItem.daily_sold_date === this.getBusinessDay(vendor, at)
+      ? Number(menuItem.daily_sold_count)
+      : 0;
+  }
+
+  private mapToInventoryResponse(
+    menuItem: MenuItem,
+    vendor: InventoryVendor,
+  ): MenuItemInventoryResponseDto {
+    return {
+      menu_item_id: menuItem.id,
+      stock_quantity: menuItem.stock_quantity ?? null,
+      daily_stock_limit: menuItem.daily_stock_limit ?? null,
+      sold_today: this.getSoldToday(menuItem, vendor, new Date()),
+      remaining_stock: this.getRemainingStock(menuItem, vendor),
+      business_day: this.getBusinessDay(vendor),
+      is_available: menuItem.is_available,
+      sold_out_at: menuItem.sold_out_at ?? null,
+    };
+  }
+}
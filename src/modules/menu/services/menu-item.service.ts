@@ -9,6 +9,7 @@ import { ConfigService } from '@nestjs/config';
 import { MenuItemRepository } from '../repositories/menu-item.repository';
 import { CategoryRepository } from '../repositories/category.repository';
 import { MenuLikeService } from './menu-like.service';
+import { MenuModifierService } from './menu-modifier.service';
 import {
   CreateMenuItemDto,
   UpdateMenuItemDto,
@@ -20,6 +21,7 @@ import {
 import { MenuItemWithLikeDto } from '../dto/menu-like.dto';
 import { MenuItem } from 'src/entities';
 import { VendorService } from 'src/modules/vendor/services/vendor.service';
+import { VendorAvailabilityService } from 'src/modules/vendor/services/vendor-availability.service';
 import { AddressService } from 'src/modules/user/services/address.service';
 
 @Injectable()
@@ -30,9 +32,11 @@ export class MenuItemService {
     private readonly menuItemRepository: MenuItemRepository,
     private readonly categoryRepository: CategoryRepository,
     private readonly vendorService: VendorService,
+    private readonly vendorAvailabilityService: VendorAvailabilityService,
     private readonly addressService: AddressService,
     private readonly configService: ConfigService,
     private readonly menuLikeService: MenuLikeService, // ✅ Inject MenuLikeService
+    private readonly menuModifierService: MenuModifierService,
   ) {}
 
   async createMenuItem(
@@ -196,6 +200,10 @@ export class MenuItemService {
       throw new NotFoundException(`Menu item with ID ${id} not found`);
     }
 
+    // Sizes, add-ons and other choices the customer can make
+    menuItem.modifier_groups =
+      await this.menuModifierService.getModifierGroups(id);
+
     // ✅ Enrich with like information
     const enrichedItems = await this.menuLikeService.enrichMenuItemsWithLikes(
       [menuItem],
@@ -329,6 +337,7 @@ export class MenuItemService {
       limit: searchDto.limit ?? 20,
     };
 
+    // Closed vendors are hidden unless include_closed is set
     const result = await this.menuItemRepository.search(resolvedSearchDto);
 
     // ✅ Enrich items with like information
@@ -337,9 +346,26 @@ export class MenuItemService {
       userId,
     );
 
+    // Expose whether each vendor is open and when it next opens
+    const vendors = new Map(
+      result.items
+        .filter(item => item.vendor)
+        .map(item => [item.vendor.id, item.vendor]),
+    );
+    const availability =
+      await this.vendorAvailabilityService.getAvailabilityForVendors(
+        Array.from(vendors.values()),
+      );
+
     return {
       ...result,
-      items: enrichedItems,
+      items: enrichedItems.map(item => {
+        const vendorAvailability = availability.get(item.vendor_id);
+        return Object.assign(item, {
+          is_open_now: vendorAvailability?.is_open_now ?? true,
+          next_opening_at: vendorAvailability?.next_opening_at ?? null,
+        });
+      }),
     };
   }
 
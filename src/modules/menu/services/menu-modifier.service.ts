@@ -0,0 +1,302 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import {
+  MenuItem,
+  MenuModifierGroup,
+  MenuModifierOption,
+  SelectedMenuOption,
+} from 'src/entities';
+import { MenuItemRepository } from '../repositories/menu-item.repository';
+import { VendorService } from 'src/modules/vendor/services/vendor.service';
+import { SetMenuModifiersDto } from '../dto/menu-modifier.dto';
+
+export interface ResolvedMenuSelection {
+  selected_options: SelectedMenuOption[];
+  options_signature: string;
+  unit_price: number;
+}
+
+@Injectable()
+export class MenuModifierService {
+  private readonly logger = new Logger(MenuModifierService.name);
+
+  constructor(
+    @InjectRepository(MenuModifierGroup)
+    private readonly groupRepository: Repository<MenuModifierGroup>,
+    @InjectRepository(MenuModifierOption)
+    private readonly optionRepository: Repository<MenuModifierOption>,
+    private readonly menuItemRepository: MenuItemRepository,
+    private readonly vendorService: VendorService,
+  ) {}
+
+  /**
+   * Modifier groups of a menu item with their options, in display order
+   */
+  async getModifierGroups(menuItemId: string): Promise<MenuModifierGroup[]> {
+    const groups = await this.groupRepository.find({
+      where: { menu_item_id: menuItemId },
+      relations: ['options'],
+      order: { sort_order: 'ASC', created_at: 'ASC' },
+    });
+
+    for (const group of groups) {
+      group.options.sort(
+        (a, b) =>
+          a.sort_order - b.sort_order ||
+          a.created_at.getTime() - b.created_at.getTime(),
+      );
+    }
+
+    return groups;
+  }
+
+  /**
+   * Replace the modifier groups of a menu item. Groups and options that keep
+   * their ID are updated in place so existing cart lines still resolve.
+   */
+  async setModifierGroups(
+    menuItemId: string,
+    userId: string,
+    dto: SetMenuModifiersDto,
+  ): Promise<MenuModifierGroup[]> {
+    this.logger.log(`Setting modifier groups for menu item ${menuItemId}`);
+
+    const menuItem = await this.menuItemRepository.findById(menuItemId);
+    if (!menuItem) {
+      throw new NotFoundException(`Menu item with ID ${menuItemId} not found`);
+    }
+
+    const vendor = await this.vendorService.getVendorByUserId(userId);
+    if (!vendor) {
+      throw new NotFoundException(`Vendor with ID ${userId} not found`);
+    }
+
+    if (menuItem.vendor_id !== vendor.id) {
+      throw new ForbiddenException('You can only update your own menu items');
+    }
+
+    for (const group of dto.groups) {
+      if (group.min_selections > group.max_selections) {
+        throw new BadRequestException(
+          `"${group.name}": min_selections cannot exceed max_selections`,
+        );
+      }
+      if (group.min_selections > group.options.length) {
+        throw new BadRequestException(
+          `"${group.name}" requires ${group.min_selections} selections but only has ${group.options.length} options`,
+        );
+      }
+    }
+
+    const existingGroups = await this.getModifierGroups(menuItemId);
+
+    await this.groupRepository.manager.transaction(async manager => {
+      const keptGroupIds = new Set<string>();
+
+      for (const [groupIndex, groupInput] of dto.groups.entries()) {
+        let group = groupInput.id
+          ? existingGroups.find(existing => existing.id === groupInput.id)
+          : undefined;
+        if (groupInput.id && !group) {
+          throw new BadRequestException(
+            `Modifier group ${groupInput.id} does not belong to this menu item`,
+          );
+        }
+
+        group = manager.merge(
+          MenuModifierGroup,
+          group ?? manager.create(MenuModifierGroup),
+          {
+            menu_item_id: menuItemId,
+            name: groupInput.name,
+            description: groupInput.description,
+            min_selections: groupInput.min_selections,
+            max_selections: groupInput.max_selections,
+            sort_order: groupInput.sort_order ?? groupIndex,
+          },
+        );
+        const existingOptions = group.options || [];
+        delete group.options;
+        group = await manager.save(MenuModifierGroup, group);
+        keptGroupIds.add(group.id);
+
+        const keptOptionIds = new Set<string>();
+        for (const [optionIndex, optionInput] of groupInput.options.entries()) {
+          let option = optionInput.id
+            ? existingOptions.find(existing => existing.id === optionInput.id)
+            : undefined;
+          if (optionInput.id && !option) {
+            throw new BadRequestException(
+              `Modifier option ${optionInput.id} does not belong to group "${groupInput.name}"`,
+            );
+          }
+
+          option = manager.merge(
+            MenuModifierOption,
+            option ?? manager.create(MenuModifierOption),
+            {
+              group_id: group.id,
+              name: optionInput.name,
+              price_delta: optionInput.price_delta ?? 0,
+              is_available: optionInput.is_available ?? true,
+              sort_order: optionInput.sort_order ?? optionIndex,
+            },
+          );
+          option = await manager.save(MenuModifierOption, option);
+          keptOptionIds.add(option.id);
+        }
+
+        const removedOptionIds = existingOptions
+          .filter(existing => !keptOptionIds.has(existing.id))
+          .map(existing => existing.id);
+        if (removedOptionIds.length > 0) {
+          await manager.softDelete(MenuModifierOption, removedOptionIds);
+        }
+      }
+
+      const removedGroupIds = existingGroups
+        .filter(existing => !keptGroupIds.has(existing.id))
+        .map(existing => existing.id);
+      if (removedGroupIds.length > 0) {
+        await manager.softDelete(MenuModifierOption, {
+          group_id: In(removedGroupIds),
+        });
+        await manager.softDelete(MenuModifierGroup, removedGroupIds);
+      }
+    });
+
+    this.logger.log(
+      `Menu item ${menuItemId} now has ${dto.groups.length} modifier groups`,
+    );
+    return await this.getModifierGroups(menuItemId);
+  }
+
+  /**
+   * Validate a customer's option choices for a menu item and price the line
+   */
+  async resolveSelection(
+    menuItem: MenuItem,
+    optionIds: string[] = [],
+  ): Promise<ResolvedMenuSelection> {
+    const groups = await this.getModifierGroups(menuItem.id);
+    const uniqueOptionIds = Array.from(new Set(optionIds));
+
+    const selected_options: SelectedMenuOption[] = [];
+    for (const optionId of uniqueOptionIds) {
+      const group = groups.find(candidate =>
+        candidate.options.some(option => option.id === optionId),
+      );
+      if (!group) {
+        throw new BadRequestException(
+          `Option ${optionId} is not available for "${menuItem.name}"`,
+        );
+      }
+
+      const option = group.options.find(candidate => candidate.id === optionId);
+      if (!option.is_available) {
+        throw new BadRequestException(
+          `"${option.name}" is currently unavailable for "${menuItem.name}"`,
+        );
+      }
+
+      selected_options.push({
+        group_id: group.id,
+        group_name: group.name,
+        option_id: option.id,
+        option_name: option.name,
+        price_delta: Number(option.price_delta),
+      });
+    }
+
+    for (const group of groups) {
+      const count = selected_options.filter(
+        option => option.group_id === group.id,
+      ).length;
+      if (count < group.min_selections) {
+        throw new BadRequestException(
+          `Select at least ${group.min_selections} option(s) for "${group.name}"`,
+        );
+      }
+      if (count > group.max_selections) {
+        throw new BadRequestException(
+          `Select at most ${group.max_selections} option(s) for "${group.name}"`,
+        );
+      }
+    }
+
+    // Keep options in menu display order
+    const displayOrder = groups.flatMap(group =>
+      group.options.map(option => option.id),
+    );
+    selected_options.sort(
+      (a, b) =>
+        displayOrder.indexOf(a.option_id) - displayOrder.indexOf(b.option_id),
+    );
+
+    return {
+      selected_options,
+      options_signature: this.buildOptionsSignature(uniqueOptionIds),
+      unit_price: this.calculateUnitPrice(menuItem.price, selected_options),
+    };
+  }
+
+  /**
+   * Reprice previously selected options against the current menu. Returns
+   * the names of options that have since been removed or made unavailable.
+   */
+  async repriceSelection(
+    menuItem: MenuItem,
+    selectedOptions: SelectedMenuOption[] = [],
+  ): Promise<{ unit_price: number; unavailable_options: string[] }> {
+    if (selectedOptions.length === 0) {
+      return { unit_price: Number(menuItem.price), unavailable_options: [] };
+    }
+
+    const currentOptions = await this.optionRepository.find({
+      where: { id: In(selectedOptions.map(option => option.option_id)) },
+    });
+
+    const unavailable_options: string[] = [];
+    const repriced = selectedOptions.map(selected => {
+      const current = currentOptions.find(
+        option => option.id === selected.option_id,
+      );
+      if (!current || !current.is_available) {
+        unavailable_options.push(selected.option_name);
+        return selected;
+      }
+      return { ...selected, price_delta: Number(current.price_delta) };
+    });
+
+    return {
+      unit_price: this.calculateUnitPrice(menuItem.price, repriced),
+      unavailable_options,
+    };
+  }
+
+  /**
+   * Stable key for a set of options, used to keep differently configured
+   * lines of the same item apart in the cart
+   */
+  buildOptionsSignature(optionIds: string[] = []): string {
+    return Array.from(new Set(optionIds)).sort().join(',');
+  }
+
+  private calculateUnitPrice(
+    basePrice: number,
+    selectedOptions: SelectedMenuOption[],
+  ): number {
+    const total = selectedOptions.reduce(
+      (sum, option) => sum + Number(option.price_delta),
+      Number(basePrice),
+    );
+    return Math.max(0, Math.round(total * 100) / 100);
+  }
+}
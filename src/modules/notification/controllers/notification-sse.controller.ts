@@ -9,9 +9,13 @@ import {
   HttpStatus,
   Query,
   Logger,
+  Headers,
 } from '@nestjs/common';
 import { Response } from 'express';
-import { NotificationSSEService } from '../services/notification-sse.service';
+import {
+  NotificationSSEService,
+  SSEConnectionStats,
+} from '../services/notification-sse.service';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard'; // Adjust path as needed
 import { GetUser } from '@/common/decorators/get-user.decorator';
 import { User } from '@/entities';
@@ -33,6 +37,7 @@ export class NotificationSSEController {
     @GetUser() user: User,
     @Res() res: Response,
     @Query('lastEventId') lastEventId?: string,
+    @Headers('last-event-id') lastEventIdHeader?: string,
   ): Promise<void> {
     const userId = user.id;
 
@@ -51,13 +56,16 @@ export class NotificationSSEController {
         timestamp: new Date(),
         message: 'SSE connection established',
       },
-      id: this.sseService['generateEventId'](),
     };
 
     this.writeSSEEvent(res, initialEvent);
 
-    // Create SSE connection
-    const eventStream = this.sseService.createUserConnection(userId);
+    // Create SSE connection, resuming after the last event the client saw.
+    // Browsers send Last-Event-ID automatically when EventSource reconnects.
+    const eventStream = this.sseService.createUserConnection(
+      userId,
+      lastEventIdHeader || lastEventId,
+    );
 
     // Handle client disconnect
     req.on('close', () => {
@@ -80,7 +88,6 @@ export class NotificationSSEController {
         this.writeSSEEvent(res, {
           type: 'error',
           data: { message: 'Stream error occurred' },
-          id: this.sseService['generateEventId'](),
         });
       },
       complete: () => {
@@ -88,7 +95,6 @@ export class NotificationSSEController {
         this.writeSSEEvent(res, {
           type: 'connection.closed',
           data: { message: 'Connection closed' },
-          id: this.sseService['generateEventId'](),
         });
       },
     });
@@ -103,7 +109,6 @@ export class NotificationSSEController {
       this.writeSSEEvent(res, {
         type: 'heartbeat',
         data: { timestamp: new Date() },
-        id: this.sseService['generateEventId'](),
       });
     }, 30000); // Send heartbeat every 30 seconds
 
@@ -187,11 +192,11 @@ export class NotificationSSEController {
   }
 
   /**
-   * Get connection statistics
+   * Get connection statistics across all instances
    */
   @Get('stats')
   @HttpCode(HttpStatus.OK)
-  async getConnectionStats(): Promise<any> {
+  async getConnectionStats(): Promise<SSEConnectionStats> {
     return this.sseService.getConnectionStats();
   }
 
@@ -204,7 +209,7 @@ export class NotificationSSEController {
     connected: boolean;
     message: string;
   }> {
-    const isConnected = this.sseService.isUserConnected(userId);
+    const isConnected = await this.sseService.isUserConnected(userId);
     
     return {
       connected: isConnected,
@@ -310,11 +315,13 @@ export class NotificationSSEController {
   }
 
   /**
-   * Write SSE event to response stream
+   * Write SSE event to response stream. Control events (heartbeats etc.) go
+   * out without an id so they don't move the client's Last-Event-ID.
    */
   private writeSSEEvent(res: Response, event: any): void {
     try {
-      const eventString = `id: ${event.id || ''}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+      const idLine = event.id ? `id: ${event.id}\n` : '';
+      const eventString = `${idLine}event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
       res.write(eventString);
     } catch (error) {
       this.logger.error('Error writing SSE event:', error);
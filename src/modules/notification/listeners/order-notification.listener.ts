@@ -0,0 +1,610 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Repository } from 'typeorm';
+import {
+  NotificationType,
+  Order,
+  OrderStatus,
+  OrderStatusActor,
+  OrderType,
+  PaymentProvider,
+  PaymentStatus,
+} from 'src/entities';
+import {
+  ORDER_EVENTS,
+  OrderCancelledEvent,
+  OrderCreatedEvent,
+  OrderReleasedToVendorEvent,
+  OrderStatusChangedEvent,
+  RecurringOrderPausedEvent,
+} from 'src/modules/order/events';
+import {
+  PAYMENT_EVENTS,
+  PaymentSucceededEvent,
+  RefundIssuedEvent,
+} from 'src/modules/payment/events';
+import { NotificationService } from '../notification.service';
+import { NotificationSSEService } from '../services/notification-sse.service';
+import { OrderEmailNotificationService } from '../services/order-email-notification.service';
+
+/**
+ * Sends the customer, vendor and admin notifications for order lifecycle
+ * events. Each channel is attempted independently so one failing provider
+ * does not stop the others.
+ */
+@Injectable()
+export class OrderNotificationListener {
+  private readonly logger = new Logger(OrderNotificationListener.name);
+
+  constructor(
+    @InjectRepository(Order)
+    private readonly orderRepository: Repository<Order>,
+    private readonly orderEmailNotification: OrderEmailNotificationService,
+    private readonly notificationService: NotificationService,
+    private readonly notificationSSEService: NotificationSSEService,
+  ) {}
+
+  @OnEvent(ORDER_EVENTS.CREATED, { async: true })
+  async handleOrderCreated(event: OrderCreatedEvent): Promise<void> {
+    // Unpaid orders are announced once payment.succeeded arrives
+    if (event.payment_status !== PaymentStatus.PAID) {
+      return;
+    }
+
+    const order = await this.loadOrder(event.order_id);
+    if (!order) return;
+
+    // Scheduled orders reach the vendor at their lead time, through
+    // order.released_to_vendor
+    const notifyVendor = !event.scheduled_for;
+
+    if (notifyVendor) {
+      await this.attempt('new order email to vendor', event.order_id, () =>
+        this.orderEmailNotification.sendNewOrderEmailToVendor(
+          order,
+          order.vendor.user,
+        ),
+      );
+    }
+    await this.attempt('order confirmation email', event.order_id, () =>
+      this.orderEmailNotification.sendOrderConfirmationToCustomer(
+        order,
+        order.customer,
+      ),
+    );
+    await this.attempt('order summary to admin', event.order_id, () =>
+      this.orderEmailNotification.sendOrderSummaryToAdmin(order),
+    );
+    if (!notifyVendor) return;
+
+    await this.attempt('new order push to vendor', event.order_id, () =>
+      this.notificationService.sendPushNotification(
+        order.vendor.user_id,
+        NotificationType.ORDER_UPDATE,
+        `New Order #${order.order_number}!`,
+        `You have received a new ${order.order_type.toLowerCase()} order from a customer.`,
+        {
+          order_id: order.id,
+          order_number: order.order_number,
+          status: order.order_status,
+          order_type: order.order_type,
+          total_amount: order.total_amount,
+        },
+      ),
+    );
+  }
+
+  @OnEvent(ORDER_EVENTS.STATUS_CHANGED, { async: true })
+  async handleOrderStatusChanged(
+    event: OrderStatusChangedEvent,
+  ): Promise<void> {
+    // Cancellations are handled by order.cancelled; SYSTEM moves follow
+    // payment events and admin overrides are not announced to customers
+    if (
+      event.new_status === OrderStatus.CANCELLED ||
+      event.actor === OrderStatusActor.SYSTEM ||
+      event.actor === OrderStatusActor.ADMIN
+    ) {
+      return;
+    }
+
+    const order = await this.loadOrder(event.order_id);
+    if (!order) return;
+
+    if (event.actor === OrderStatusActor.DELIVERY_WEBHOOK) {
+      await this.notifyDeliveryProgress(order, event);
+      return;
+    }
+
+    await this.notifyVendorProgress(order, event);
+  }
+
+  @OnEvent(ORDER_EVENTS.CANCELLED, { async: true })
+  async handleOrderCancelled(event: OrderCancelledEvent): Promise<void> {
+    // The only SYSTEM cancellations customers hear about are scheduled
+    // orders whose payment never went through
+    if (event.actor === OrderStatusActor.SYSTEM && !event.scheduled_for) {
+      return;
+    }
+
+    const order = await this.loadOrder(event.order_id);
+    if (!order) return;
+
+    if (event.actor === OrderStatusActor.SYSTEM) {
+      const message = `Your scheduled order #${order.order_number} was cancelled because payment could not be taken.`;
+      this.sendOrderUpdate(order.customer_id, order, message);
+      await this.pushToCustomer(
+        order,
+        `Order #${order.order_number} Cancelled`,
+        message,
+        { reason: event.reason, cancelled_by: event.actor },
+      );
+      return;
+    }
+
+    const reason =
+      event.reason || 'Please contact support for more information.';
+
+    if (event.actor === OrderStatusActor.DELIVERY_WEBHOOK) {
+      const message = `Your order #${order.order_number} has been cancelled. Please contact support if you have any questions.`;
+      this.sendOrderUpdate(order.customer_id, order, message);
+      await this.pushToCustomer(
+        order,
+        `Order #${order.order_number} - Cancelled`,
+        message,
+        { reason: event.reason },
+      );
+      return;
+    }
+
+    if (event.actor === OrderStatusActor.CUSTOMER) {
+      if (order.vendor?.user_id) {
+        this.sendOrderUpdate(
+          order.vendor.user_id,
+          order,
+          `Order ${order.order_number} has been cancelled by the customer. Reason: ${reason}`,
+        );
+      }
+      await this.pushToCustomer(
+        order,
+        `Order #${order.order_number} Cancelled`,
+        `You cancelled this order. ${reason}`,
+        { reason: event.reason, cancelled_by: event.actor },
+      );
+    } else {
+      const cancelledBy =
+        event.actor === OrderStatusActor.ADMIN ? 'admin' : 'the vendor';
+
+      await this.attempt('cancellation email', event.order_id, () =>
+        this.orderEmailNotification.sendOrderStatusUpdateToCustomer(
+          order,
+          order.customer,
+          OrderStatus.CANCELLED,
+          {
+            vendorNotes: `Order cancelled by ${cancelledBy}. Reason: ${reason}`,
+          },
+        ),
+      );
+      this.sendOrderUpdate(
+        order.customer_id,
+        order,
+        `Your order ${order.order_number} has been cancelled by ${cancelledBy}. ${reason}`,
+      );
+      await this.pushToCustomer(
+        order,
+        `Order #${order.order_number} Cancelled`,
+        `Your order has been cancelled by ${cancelledBy}. ${reason}`,
+        { reason: event.reason, cancelled_by: event.actor },
+      );
+
+      // Vendors only hear about admin cancellations of orders they were paid for
+      if (
+        event.actor === OrderStatusActor.ADMIN &&
+        [PaymentStatus.PAID, PaymentStatus.REFUNDED].includes(
+          event.payment_status,
+        ) &&
+        order.vendor?.user_id
+      ) {
+        await this.attempt('cancellation push to vendor', event.order_id, () =>
+          this.notificationService.sendPushNotification(
+            order.vendor.user_id,
+            NotificationType.ORDER_UPDATE,
+            `Order #${order.order_number} Cancelled by Admin`,
+            `Order has been cancelled by admin. ${reason}`,
+            {
+              order_id: order.id,
+              order_number: order.order_number,
+              status: OrderStatus.CANCELLED,
+              cancelled_by: event.actor,
+              reason: event.reason,
+            },
+          ),
+        );
+      }
+    }
+
+    await this.notifyAdminOfStatusChange(
+      order,
+      event.previous_status,
+      OrderStatus.CANCELLED,
+      this.describeActor(order, event.actor, event.reason),
+    );
+  }
+
+  @OnEvent(PAYMENT_EVENTS.SUCCEEDED, { async: true })
+  async handlePaymentSucceeded(event: PaymentSucceededEvent): Promise<void> {
+    const order = await this.loadOrder(event.order_id);
+    if (!order?.vendor?.user_id) return;
+    if (order.scheduled_for && !order.released_to_vendor_at) return;
+
+    await this.attempt('new order push to vendor', event.order_id, () =>
+      this.notificationService.sendPushNotification(
+        order.vendor.user_id,
+        NotificationType.ORDER_UPDATE,
+        `New Order #${order.order_number}!`,
+        `You have received a new ${order.order_type.toLowerCase()} order. Payment confirmed.`,
+        {
+          order_id: order.id,
+          order_number: order.order_number,
+          status: order.order_status,
+          order_type: order.order_type,
+          total_amount: order.total_amount,
+          payment_status: PaymentStatus.PAID,
+        },
+      ),
+    );
+  }
+
+  @OnEvent(ORDER_EVENTS.RELEASED_TO_VENDOR, { async: true })
+  async handleReleasedToVendor(
+    event: OrderReleasedToVendorEvent,
+  ): Promise<void> {
+    const order = await this.loadOrder(event.order_id);
+    if (!order?.vendor?.user_id) return;
+
+    const slot = new Date(order.scheduled_for).toLocaleString();
+
+    await this.attempt('new order email to vendor', event.order_id, () =>
+      this.orderEmailNotification.sendNewOrderEmailToVendor(
+        order,
+        order.vendor.user,
+      ),
+    );
+    this.sendOrderUpdate(
+      order.vendor.user_id,
+      order,
+      `Scheduled order ${order.order_number} is due at ${slot}.`,
+    );
+    await this.attempt('scheduled order push to vendor', event.order_id, () =>
+      this.notificationService.sendPushNotification(
+        order.vendor.user_id,
+        NotificationType.ORDER_UPDATE,
+        `Scheduled Order #${order.order_number}`,
+        `A scheduled ${order.order_type.toLowerCase()} order is due at ${slot}.`,
+        {
+          order_id: order.id,
+          order_number: order.order_number,
+          status: order.order_status,
+          order_type: order.order_type,
+          total_amount: order.total_amount,
+          scheduled_for: order.scheduled_for,
+        },
+      ),
+    );
+  }
+
+  @OnEvent(ORDER_EVENTS.RECURRING_PAUSED, { async: true })
+  async handleRecurringOrderPaused(
+    event: RecurringOrderPausedEvent,
+  ): Promise<void> {
+    try {
+      await this.notificationService.sendPushNotification(
+        event.customer_id,
+        NotificationType.ORDER_UPDATE,
+        'Recurring Order Paused',
+        `We could not place your recurring order several times in a row, so it has been paused.${
+          event.reason ? ` Last problem: ${event.reason}` : ''
+        }`,
+        {
+          recurring_order_id: event.recurring_order_id,
+          vendor_id: event.vendor_id,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send recurring order paused push for ${event.recurring_order_id}: ${error.message}`,
+      );
+    }
+  }
+
+  @OnEvent(PAYMENT_EVENTS.REFUND_ISSUED, { async: true })
+  async handleRefundIssued(event: RefundIssuedEvent): Promise<void> {
+    const order = await this.loadOrder(event.order_id);
+    if (!order) return;
+
+    await this.attempt('refund push to customer', event.order_id, () =>
+      this.notificationService.sendPushNotification(
+        order.customer_id,
+        NotificationType.ORDER_UPDATE,
+        `Refund for Order #${order.order_number}`,
+        `A refund of ${event.amount.toFixed(2)} ${event.currency} has been ${
+          event.provider === PaymentProvider.WALLET
+            ? 'credited to your wallet'
+            : 'sent back to your original payment method'
+        }.`,
+        {
+          order_id: order.id,
+          order_number: order.order_number,
+          refund_amount: event.amount,
+          refund_id: event.refund_id,
+          reason: event.reason,
+        },
+      ),
+    );
+
+    if (event.vendor_debit_amount > 0 && order.vendor?.user_id) {
+      await this.attempt('refund debit push to vendor', event.order_id, () =>
+        this.notificationService.sendPushNotification(
+          order.vendor.user_id,
+          NotificationType.ORDER_UPDATE,
+          `Refund for Order #${order.order_number}`,
+          `${event.vendor_debit_amount.toFixed(2)} ${
+            event.currency
+          } (amount you received) has been debited from your wallet.`,
+          {
+            order_id: order.id,
+            order_number: order.order_number,
+            debit_amount: event.vendor_debit_amount,
+            reason: event.reason,
+          },
+        ),
+      );
+    }
+  }
+
+  /**
+   * Customer email, admin email, live update and push for a status the
+   * vendor has just set
+   */
+  private async notifyVendorProgress(
+    order: Order,
+    event: OrderStatusChangedEvent,
+  ): Promise<void> {
+    const prepTime = event.metadata.estimated_prep_time_minutes;
+    const vendorNotes = event.metadata.vendor_notes;
+    const fulfilment =
+      order.order_type === OrderType.DELIVERY ? 'delivery' : 'pickup';
+
+    let estimatedTime: string | undefined;
+    let push: { title: string; message: string } | null = null;
+    let liveUpdate: string | null = null;
+
+    switch (event.new_status) {
+      case OrderStatus.CONFIRMED:
+        estimatedTime = prepTime ? `${prepTime} minutes` : undefined;
+        push = {
+          title: `Order #${order.order_number} Confirmed!`,
+          message: `Your order has been confirmed by the vendor.${
+            prepTime ? ` Estimated preparation time: ${prepTime} minutes.` : ''
+          }`,
+        };
+        break;
+
+      case OrderStatus.PREPARING:
+        estimatedTime = prepTime ? `${prepTime} minutes` : undefined;
+        push = {
+          title: `Order #${order.order_number} Being Prepared`,
+          message: `Your order is now being prepared!`,
+        };
+        break;
+
+      case OrderStatus.READY:
+        estimatedTime = order.estimated_delivery_time
+          ? new Date(order.estimated_delivery_time).toLocaleString()
+          : undefined;
+        liveUpdate = `Your order ${order.order_number} is ready for ${fulfilment}!`;
+        push = {
+          title: `Order #${order.order_number} is Ready!`,
+          message: `Your order is ready for ${fulfilment}!`,
+        };
+        break;
+
+      case OrderStatus.DELIVERED:
+        liveUpdate = `Your order ${order.order_number} has been delivered! Thank you for choosing Rambini.`;
+        push = {
+          title: `Order #${order.order_number} Delivered!`,
+          message: `Your order has been delivered! Thank you for choosing Rambini.`,
+        };
+        break;
+
+      default:
+        return;
+    }
+
+    if (order.customer?.email) {
+      await this.attempt('status email to customer', order.id, () =>
+        this.orderEmailNotification.sendOrderStatusUpdateToCustomer(
+          order,
+          order.customer,
+          event.new_status,
+          { estimatedTime, vendorNotes },
+        ),
+      );
+    } else {
+      this.logger.warn(
+        `Cannot send ${event.new_status} email - customer missing email for order ${order.id}`,
+      );
+    }
+
+    await this.notifyAdminOfStatusChange(
+      order,
+      event.previous_status,
+      event.new_status,
+      this.describeActor(order, event.actor),
+    );
+
+    if (liveUpdate) {
+      this.sendOrderUpdate(order.customer_id, order, liveUpdate);
+    }
+
+    await this.pushToCustomer(order, push.title, push.message, {
+      estimated_prep_time_minutes: prepTime,
+    });
+  }
+
+  /**
+   * Live update and push for a status reported by a delivery provider
+   */
+  private async notifyDeliveryProgress(
+    order: Order,
+    event: OrderStatusChangedEvent,
+  ): Promise<void> {
+    let title: string;
+    let message: string;
+
+    switch (event.new_status) {
+      case OrderStatus.OUT_FOR_DELIVERY:
+        title = 'Out for Delivery';
+        message = `Your order #${order.order_number} is out for delivery! Track your order for real-time updates.`;
+        break;
+
+      case OrderStatus.DELIVERED:
+        title = 'Delivered';
+        message =
+          order.order_type === OrderType.PICKUP
+            ? `Your order #${order.order_number} has been delivered. Thank you for your order!`
+            : `Your order #${order.order_number} has been delivered! We hope you enjoy your meal.`;
+        break;
+
+      default:
+        title = event.new_status
+          .replace(/_/g, ' ')
+          .replace(/\b\w/g, l => l.toUpperCase());
+        message = `Your order #${order.order_number} status has been updated to ${event.new_status}.`;
+    }
+
+    this.sendOrderUpdate(order.customer_id, order, message);
+    await this.pushToCustomer(
+      order,
+      `Order #${order.order_number} - ${title}`,
+      message,
+      {
+        delivery_status: event.metadata.delivery_status,
+        delivery_provider: event.metadata.provider,
+      },
+    );
+  }
+
+  private async notifyAdminOfStatusChange(
+    order: Order,
+    from: OrderStatus,
+    to: OrderStatus,
+    changedBy: string,
+  ): Promise<void> {
+    await this.attempt('status change email to admin', order.id, () =>
+      this.orderEmailNotification.sendOrderStatusChangeToAdmin(
+        order,
+        from,
+        to,
+        changedBy,
+      ),
+    );
+  }
+
+  private async pushToCustomer(
+    order: Order,
+    title: string,
+    message: string,
+    data: Record<string, any> = {},
+  ): Promise<void> {
+    await this.attempt('push to customer', order.id, () =>
+      this.notificationService.sendPushNotification(
+        order.customer_id,
+        NotificationType.ORDER_UPDATE,
+        title,
+        message,
+        {
+          order_id: order.id,
+          order_number: order.order_number,
+          status: order.order_status,
+          order_type: order.order_type,
+          ...data,
+        },
+      ),
+    );
+  }
+
+  private sendOrderUpdate(userId: string, order: Order, message: string): void {
+    try {
+      this.notificationSSEService.sendOrderUpdate(
+        userId,
+        order.id,
+        order.order_status,
+        message,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send SSE update for order ${order.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private describeActor(
+    order: Order,
+    actor: OrderStatusActor,
+    reason?: string | null,
+  ): string {
+    let label: string;
+    switch (actor) {
+      case OrderStatusActor.CUSTOMER:
+        label = `Customer: ${order.customer?.full_name || 'Unknown'}`;
+        break;
+      case OrderStatusActor.VENDOR:
+        label = `Vendor: ${order.vendor?.business_name || 'Unknown'}`;
+        break;
+      case OrderStatusActor.ADMIN:
+        label = 'Admin';
+        break;
+      case OrderStatusActor.DELIVERY_WEBHOOK:
+        label = 'Delivery provider';
+        break;
+      default:
+        label = 'System';
+    }
+    return reason ? `${label} - Reason: ${reason}` : label;
+  }
+
+  private async attempt(
+    description: string,
+    orderId: string,
+    send: () => Promise<unknown>,
+  ): Promise<void> {
+    try {
+      await send();
+    } catch (error) {
+      this.logger.error(
+        `Failed to send ${description} for order ${orderId}: ${error.message}`,
+      );
+    }
+  }
+
+  private async loadOrder(orderId: string): Promise<Order | null> {
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId },
+      relations: [
+        'customer',
+        'vendor',
+        'vendor.user',
+        'vendor.address',
+        'delivery_address',
+        'order_items',
+        'order_items.menu_item',
+      ],
+    });
+    if (!order) {
+      this.logger.warn(`Order ${orderId} not found for notification`);
+    }
+    return order;
+  }
+}
@@ -22,6 +22,8 @@ import {
   NotificationPriority,
 } from '../../entities';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminAuthGuard } from '../auth/guards/admin-auth-guard';
+import { DeadLetterJob, QueueStats } from './services/notification-queue.service';
 import { ApiTags } from '@nestjs/swagger';
 
 @ApiTags('Notifications')
@@ -428,27 +430,58 @@ export class NotificationController {
 
   // Queue Management Endpoints
   @Get('queue/stats')
-  async getQueueStats(): Promise<any> {
+  @UseGuards(AdminAuthGuard)
+  async getQueueStats(): Promise<QueueStats> {
     return this.notificationService.getQueueStats();
   }
 
   @Post('queue/pause')
+  @UseGuards(AdminAuthGuard)
   @HttpCode(HttpStatus.OK)
   async pauseQueue(): Promise<void> {
     return this.notificationService.pauseQueue();
   }
 
   @Post('queue/resume')
+  @UseGuards(AdminAuthGuard)
   @HttpCode(HttpStatus.OK)
   async resumeQueue(): Promise<void> {
     return this.notificationService.resumeQueue();
   }
 
   @Get('queue/status')
+  @UseGuards(AdminAuthGuard)
   async getProcessingStatus(): Promise<any> {
     return this.notificationService.getProcessingStatus();
   }
 
+  @Get('queue/dead-letter')
+  @UseGuards(AdminAuthGuard)
+  async getDeadLetterJobs(
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<DeadLetterJob[]> {
+    return this.notificationService.getDeadLetterJobs(
+      limit ? parseInt(limit) : undefined,
+      offset ? parseInt(offset) : undefined,
+    );
+  }
+
+  @Post('queue/dead-letter/retry-all')
+  @UseGuards(AdminAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async retryAllDeadLetterJobs(): Promise<{ retried: number }> {
+    const retried = await this.notificationService.retryAllDeadLetterJobs();
+    return { retried };
+  }
+
+  @Post('queue/dead-letter/:jobId/retry')
+  @UseGuards(AdminAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async retryDeadLetterJob(@Param('jobId') jobId: string): Promise<void> {
+    return this.notificationService.retryDeadLetterJob(jobId);
+  }
+
   // Statistics Endpoints
   @Get('stats/delivery')
   async getDeliveryStatistics(
@@ -3,6 +3,7 @@ import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ScheduleModule } from '@nestjs/schedule';
 import { EventEmitterModule } from '@nestjs/event-emitter';
+import { BullModule } from '@nestjs/bull';
 import { ConfigModule } from '@nestjs/config';
 import { AuthModule } from '../auth/auth.module';
 
@@ -30,14 +31,33 @@ import { OrderEmailNotificationService } from './services/order-email-notificati
 import { WithdrawalEmailTemplatesService } from './services/withdrawal-email-templates.service';
 import { WithdrawalEmailNotificationService } from './services/withdrawal-email-notification.service';
 
+// Queue Workers
+import {
+  PushNotificationProcessor,
+  EmailNotificationProcessor,
+  SmsNotificationProcessor,
+  InAppNotificationProcessor,
+} from './queues/notification-channel.processor';
+import {
+  NOTIFICATION_BACKOFF_STRATEGY,
+  NOTIFICATION_DEAD_LETTER_QUEUE,
+  NOTIFICATION_QUEUES,
+  getNotificationRetryDelay,
+} from './queues/notification-queue.constants';
+
+// Domain Event Listeners
+import { OrderNotificationListener } from './listeners/order-notification.listener';
+
 // Entities
 import {
   Notification,
   DeviceToken,
   UserNotificationPreference,
   User,
+  Order,
 } from '../../entities';
 import { AdminOrderEmailTemplatesService } from './services/admin-order-email-templates.service';
+import { RedisService } from '../../database/redis.service';
 
 @Module({
   imports: [
@@ -46,8 +66,20 @@ import { AdminOrderEmailTemplatesService } from './services/admin-order-email-te
       DeviceToken,
       UserNotificationPreference,
       User,
+      Order,
     ]),
     ConfigModule, // For accessing environment variables
+    BullModule.registerQueue(
+      ...Object.values(NOTIFICATION_QUEUES).map(name => ({
+        name,
+        settings: {
+          backoffStrategies: {
+            [NOTIFICATION_BACKOFF_STRATEGY]: getNotificationRetryDelay,
+          },
+        },
+      })),
+      { name: NOTIFICATION_DEAD_LETTER_QUEUE },
+    ),
     ScheduleModule.forRoot(),
     EventEmitterModule.forRoot(),
     forwardRef(() => AuthModule),
@@ -69,6 +101,7 @@ import { AdminOrderEmailTemplatesService } from './services/admin-order-email-te
     AdminOrderEmailTemplatesService, 
     NotificationQueueService,
     NotificationSSEService,
+    RedisService,
     
     // Order Email Services
     OrderEmailTemplatesService,
@@ -77,6 +110,15 @@ import { AdminOrderEmailTemplatesService } from './services/admin-order-email-te
     // Withdrawal Email Services
     WithdrawalEmailTemplatesService,
     WithdrawalEmailNotificationService,
+
+    // Queue Workers
+    PushNotificationProcessor,
+    EmailNotificationProcessor,
+    SmsNotificationProcessor,
+    InAppNotificationProcessor,
+
+    // Domain Event Listeners
+    OrderNotificationListener,
   ],
   exports: [
     // Main Service
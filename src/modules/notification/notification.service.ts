@@ -16,7 +16,7 @@ import { PushNotificationService } from './services/push-notification.service';
 import { InAppNotificationService } from './services/in-app-notification.service';
 import { NotificationTemplateService } from './services/notification-template.service';
 import { NotificationDeliveryService, DeliveryOptions, DeliveryResult } from './services/notification-delivery.service';
-import { NotificationQueueService } from './services/notification-queue.service';
+import { NotificationQueueService, DeadLetterJob, QueueStats } from './services/notification-queue.service';
 
 @Injectable()
 export class NotificationService {
@@ -696,7 +696,7 @@ export class NotificationService {
   }
 
   // Queue Management
-  async getQueueStats(): Promise<any> {
+  async getQueueStats(): Promise<QueueStats> {
     return this.queueService.getQueueStats();
   }
 
@@ -712,6 +712,18 @@ export class NotificationService {
     return this.queueService.getProcessingStatus();
   }
 
+  async getDeadLetterJobs(limit?: number, offset?: number): Promise<DeadLetterJob[]> {
+    return this.queueService.getDeadLetterJobs(limit, offset);
+  }
+
+  async retryDeadLetterJob(jobId: string): Promise<void> {
+    return this.queueService.retryDeadLetterJob(jobId);
+  }
+
+  async retryAllDeadLetterJobs(): Promise<number> {
+    return this.queueService.retryAllDeadLetterJobs();
+  }
+
   // FCM Topic Management
   async subscribeToTopic(tokens: string[], topic: string): Promise<void> {
     return this.pushService.subscribeToTopic(tokens, topic);
@@ -0,0 +1,182 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue, OnQueueFailed, Process, Processor } from '@nestjs/bull';
+import { Job, Queue } from 'bull';
+import { Repository } from 'typeorm';
+import {
+  DeliveryStatus,
+  Notification,
+  NotificationDelivery,
+} from '../../../entities';
+import { NotificationDeliveryService } from '../services/notification-delivery.service';
+import {
+  DeadLetterJobData,
+  NOTIFICATION_DEAD_LETTER_QUEUE,
+  NOTIFICATION_QUEUES,
+  NOTIFICATION_WORKER_CONCURRENCY,
+  NotificationJobData,
+} from './notification-queue.constants';
+
+/**
+ * Shared worker logic for the per-channel notification queues. A failed
+ * delivery throws so Bull retries it; once the attempts run out the job is
+ * copied to the dead-letter queue and the notification marked FAILED.
+ */
+@Injectable()
+export abstract class NotificationChannelProcessor {
+  protected abstract readonly channel: NotificationDelivery;
+  protected readonly logger = new Logger(this.constructor.name);
+
+  constructor(
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+    private readonly deliveryService: NotificationDeliveryService,
+    @InjectQueue(NOTIFICATION_DEAD_LETTER_QUEUE)
+    private readonly deadLetterQueue: Queue<DeadLetterJobData>,
+  ) {}
+
+  protected async deliver(job: Job<NotificationJobData>): Promise<void> {
+    const { notificationId, customData } = job.data;
+
+    const notification = await this.notificationRepository.findOne({
+      where: { id: notificationId },
+      relations: ['user'],
+    });
+
+    if (!notification) {
+      this.logger.warn(
+        `Notification ${notificationId} not found, dropping job ${job.id}`,
+      );
+      return;
+    }
+
+    const result = await this.deliveryService.deliverToChannel(
+      notification,
+      notification.user,
+      this.channel,
+      { channels: [this.channel], customData },
+    );
+
+    if (!result.success) {
+      throw new Error(result.error || `${this.channel} delivery failed`);
+    }
+
+    await this.notificationRepository.update(
+      { id: notificationId },
+      {
+        delivery_status: DeliveryStatus.SENT,
+        sent_at: result.deliveredAt || new Date(),
+        retry_count: job.attemptsMade,
+      },
+    );
+
+    this.logger.log(
+      `Delivered notification ${notificationId} via ${this.channel} (job ${job.id})`,
+    );
+  }
+
+  protected async handleFailure(
+    job: Job<NotificationJobData>,
+    error: Error,
+  ): Promise<void> {
+    const maxAttempts = job.opts.attempts || 1;
+
+    if (job.attemptsMade < maxAttempts) {
+      this.logger.warn(
+        `Attempt ${job.attemptsMade}/${maxAttempts} failed for job ${job.id}: ${error.message}`,
+      );
+      return;
+    }
+
+    try {
+      await this.deadLetterQueue.add(
+        {
+          ...job.data,
+          sourceJobId: String(job.id),
+          failedReason: error.message,
+          attemptsMade: job.attemptsMade,
+          failedAt: new Date().toISOString(),
+        },
+        { removeOnComplete: true },
+      );
+
+      await this.notificationRepository.update(
+        { id: job.data.notificationId },
+        {
+          delivery_status: DeliveryStatus.FAILED,
+          failure_reason: error.message,
+          retry_count: job.attemptsMade,
+        },
+      );
+
+      this.logger.error(
+        `Job ${job.id} moved to dead-letter queue after ${job.attemptsMade} attempts: ${error.message}`,
+      );
+    } catch (deadLetterError) {
+      this.logger.error(
+        `Failed to dead-letter job ${job.id}: ${deadLetterError.message}`,
+        deadLetterError.stack,
+      );
+    }
+  }
+}
+
+@Processor(NOTIFICATION_QUEUES[NotificationDelivery.PUSH])
+export class PushNotificationProcessor extends NotificationChannelProcessor {
+  protected readonly channel = NotificationDelivery.PUSH;
+
+  @Process({ concurrency: NOTIFICATION_WORKER_CONCURRENCY })
+  async process(job: Job<NotificationJobData>): Promise<void> {
+    await this.deliver(job);
+  }
+
+  @OnQueueFailed()
+  async onFailed(job: Job<NotificationJobData>, error: Error): Promise<void> {
+    await this.handleFailure(job, error);
+  }
+}
+
+@Processor(NOTIFICATION_QUEUES[NotificationDelivery.EMAIL])
+export class EmailNotificationProcessor extends NotificationChannelProcessor {
+  protected readonly channel = NotificationDelivery.EMAIL;
+
+  @Process({ concurrency: NOTIFICATION_WORKER_CONCURRENCY })
+  async process(job: Job<NotificationJobData>): Promise<void> {
+    await this.deliver(job);
+  }
+
+  @OnQueueFailed()
+  async onFailed(job: Job<NotificationJobData>, error: Error): Promise<void> {
+    await this.handleFailure(job, error);
+  }
+}
+
+@Processor(NOTIFICATION_QUEUES[NotificationDelivery.SMS])
+export class SmsNotificationProcessor extends NotificationChannelProcessor {
+  protected readonly channel = NotificationDelivery.SMS;
+
+  @Process({ concurrency: NOTIFICATION_WORKER_CONCURRENCY })
+  async process(job: Job<NotificationJobData>): Promise<void> {
+    await this.deliver(job);
+  }
+
+  @OnQueueFailed()
+  async onFailed(job: Job<NotificationJobData>, error: Error): Promise<void> {
+    await this.handleFailure(job, error);
+  }
+}
+
+@Processor(NOTIFICATION_QUEUES[NotificationDelivery.IN_APP])
+export class InAppNotificationProcessor extends NotificationChannelProcessor {
+  protected readonly channel = NotificationDelivery.IN_APP;
+
+  @Process({ concurrency: NOTIFICATION_WORKER_CONCURRENCY })
+  async process(job: Job<NotificationJobData>): Promise<void> {
+    await this.deliver(job);
+  }
+
+  @OnQueueFailed()
+  async onFailed(job: Job<NotificationJobData>, error: Error): Promise<void> {
+    await this.handleFailure(job, error);
+  }
+}
@@ -0,0 +1,62 @@
+import { NotificationDelivery, NotificationPriority } from '../../../entities';
+
+/**
+ * One Bull queue per delivery channel so a slow provider (e.g. SMTP) cannot
+ * hold up pushes, and each channel can be scaled or paused on its own.
+ */
+export const NOTIFICATION_QUEUES: Record<NotificationDelivery, string> = {
+  [NotificationDelivery.PUSH]: 'notifications-push',
+  [NotificationDelivery.EMAIL]: 'notifications-email',
+  [NotificationDelivery.SMS]: 'notifications-sms',
+  [NotificationDelivery.IN_APP]: 'notifications-in-app',
+};
+
+/**
+ * Jobs that exhausted their retries are parked here until an admin retries
+ * them. Nothing consumes this queue.
+ */
+export const NOTIFICATION_DEAD_LETTER_QUEUE = 'notifications-dead-letter';
+
+export const NOTIFICATION_BACKOFF_STRATEGY = 'notification-retry-delays';
+
+// 1s, 5s, 15s, 1m, 5m
+export const NOTIFICATION_RETRY_DELAYS = [1000, 5000, 15000, 60000, 300000];
+
+export const DEFAULT_NOTIFICATION_MAX_RETRIES = 3;
+
+export const NOTIFICATION_WORKER_CONCURRENCY = 5;
+
+// Bull treats 1 as the highest priority
+export const NOTIFICATION_JOB_PRIORITY: Record<NotificationPriority, number> = {
+  [NotificationPriority.URGENT]: 1,
+  [NotificationPriority.HIGH]: 2,
+  [NotificationPriority.NORMAL]: 3,
+  [NotificationPriority.LOW]: 4,
+};
+
+export interface NotificationJobData {
+  notificationId: string;
+  userId: string;
+  channel: NotificationDelivery;
+  priority: NotificationPriority;
+  customData?: Record<string, any>;
+  queuedAt: string;
+}
+
+export interface DeadLetterJobData extends NotificationJobData {
+  sourceJobId: string;
+  failedReason: string;
+  attemptsMade: number;
+  failedAt: string;
+}
+
+/**
+ * Delay before the next attempt, walking up NOTIFICATION_RETRY_DELAYS and
+ * staying on the last step once it is reached.
+ */
+export function getNotificationRetryDelay(attemptsMade: number): number {
+  const step = Math.max(attemptsMade - 1, 0);
+  return NOTIFICATION_RETRY_DELAYS[
+    Math.min(step, NOTIFICATION_RETRY_DELAYS.length - 1)
+  ];
+}
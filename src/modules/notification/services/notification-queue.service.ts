@@ -1,86 +1,115 @@
-import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, LessThan, MoreThan } from 'typeorm';
-import { Notification, DeliveryStatus, NotificationPriority } from '../../../entities';
-import { NotificationDeliveryService, DeliveryOptions } from './notification-delivery.service';
+import { InjectQueue } from '@nestjs/bull';
+import { Job, JobOptions, Queue } from 'bull';
+import { Repository } from 'typeorm';
+import { Notification, DeliveryStatus, NotificationDelivery, NotificationPriority } from '../../../entities';
+import { DeliveryOptions } from './notification-delivery.service';
 import { Cron, CronExpression } from '@nestjs/schedule';
-
-export interface QueuedNotification {
-  id: string;
-  notificationId: string;
-  userId: string;
-  priority: NotificationPriority;
-  scheduledFor: Date;
-  retryCount: number;
-  maxRetries: number;
-  channels: string[];
-  customData?: Record<string, any>;
-  createdAt: Date;
-  updatedAt: Date;
+import {
+  DEFAULT_NOTIFICATION_MAX_RETRIES,
+  DeadLetterJobData,
+  NOTIFICATION_BACKOFF_STRATEGY,
+  NOTIFICATION_DEAD_LETTER_QUEUE,
+  NOTIFICATION_JOB_PRIORITY,
+  NOTIFICATION_QUEUES,
+  NOTIFICATION_WORKER_CONCURRENCY,
+  NotificationJobData,
+} from '../queues/notification-queue.constants';
+
+export type QueueNotificationOptions = DeliveryOptions & {
+  priority?: NotificationPriority;
+  maxRetries?: number;
+};
+
+export interface ChannelQueueStats {
+  waiting: number;
+  active: number;
+  delayed: number;
+  completed: number;
+  failed: number;
+  paused: boolean;
 }
 
 export interface QueueStats {
   totalQueued: number;
   pending: number;
   processing: number;
+  delayed: number;
   completed: number;
   failed: number;
-  byPriority: Record<string, number>;
-  byChannel: Record<string, number>;
+  deadLettered: number;
+  byChannel: Record<string, ChannelQueueStats>;
+}
+
+export interface DeadLetterJob {
+  id: string;
+  notificationId: string;
+  userId: string;
+  channel: NotificationDelivery;
+  priority: NotificationPriority;
+  failedReason: string;
+  attemptsMade: number;
+  failedAt: string;
+  queuedAt: string;
 }
 
 @Injectable()
-export class NotificationQueueService implements OnModuleInit, OnModuleDestroy {
+export class NotificationQueueService {
   private readonly logger = new Logger(NotificationQueueService.name);
-  private readonly processingQueue = new Map<string, QueuedNotification>();
-  private readonly maxConcurrentJobs = 5;
-  private readonly retryDelays = [1000, 5000, 15000, 60000, 300000]; // 1s, 5s, 15s, 1m, 5m
-  private isProcessing = false;
-  private processingInterval: NodeJS.Timeout | null = null;
+  private readonly queues: Map<NotificationDelivery, Queue<NotificationJobData>>;
 
   constructor(
     @InjectRepository(Notification)
     private readonly notificationRepository: Repository<Notification>,
-    private readonly deliveryService: NotificationDeliveryService,
-  ) {}
-
-  async onModuleInit(): Promise<void> {
-    this.logger.log('Initializing notification queue service');
-    await this.startProcessing();
-  }
-
-  async onModuleDestroy(): Promise<void> {
-    this.logger.log('Shutting down notification queue service');
-    await this.stopProcessing();
+    @InjectQueue(NOTIFICATION_QUEUES[NotificationDelivery.PUSH])
+    pushQueue: Queue<NotificationJobData>,
+    @InjectQueue(NOTIFICATION_QUEUES[NotificationDelivery.EMAIL])
+    emailQueue: Queue<NotificationJobData>,
+    @InjectQueue(NOTIFICATION_QUEUES[NotificationDelivery.SMS])
+    smsQueue: Queue<NotificationJobData>,
+    @InjectQueue(NOTIFICATION_QUEUES[NotificationDelivery.IN_APP])
+    inAppQueue: Queue<NotificationJobData>,
+    @InjectQueue(NOTIFICATION_DEAD_LETTER_QUEUE)
+    private readonly deadLetterQueue: Queue<DeadLetterJobData>,
+  ) {
+    this.queues = new Map([
+      [NotificationDelivery.PUSH, pushQueue],
+      [NotificationDelivery.EMAIL, emailQueue],
+      [NotificationDelivery.SMS, smsQueue],
+      [NotificationDelivery.IN_APP, inAppQueue],
+    ]);
   }
 
+  /**
+   * Add one job per channel. Job ids are derived from the notification so a
+   * notification queued twice (e.g. from two workers) is only delivered once.
+   */
   async queueNotification(
     notificationId: string,
     userId: string,
-    options: DeliveryOptions & {
-      priority?: NotificationPriority;
-      maxRetries?: number;
-    }
+    options: QueueNotificationOptions,
   ): Promise<void> {
     try {
-      const queuedNotification: QueuedNotification = {
-        id: this.generateQueueId(),
-        notificationId,
-        userId,
-        priority: options.priority || NotificationPriority.NORMAL,
-        scheduledFor: options.scheduledFor || new Date(),
-        retryCount: 0,
-        maxRetries: options.maxRetries || 3,
-        channels: options.channels,
-        customData: options.customData,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+      const priority = options.priority || NotificationPriority.NORMAL;
+
+      for (const channel of options.channels) {
+        await this.getQueue(channel).add(
+          {
+            notificationId,
+            userId,
+            channel,
+            priority,
+            customData: options.customData,
+            queuedAt: new Date().toISOString(),
+          },
+          this.buildJobOptions(notificationId, channel, options),
+        );
+      }
 
-      // Store in database (you might want to create a separate queue table)
-      await this.storeQueuedNotification(queuedNotification);
-      
-      this.logger.log(`Queued notification ${notificationId} for user ${userId}`);
+      this.logger.log(
+        `Queued notification ${notificationId} for user ${userId} via ${options.channels.join(', ')}`,
+      );
     } catch (error) {
       this.logger.error(`Failed to queue notification: ${error.message}`, error.stack);
       throw error;
@@ -91,29 +120,37 @@ export class NotificationQueueService implements OnModuleInit, OnModuleDestroy {
     notifications: Array<{
       notificationId: string;
       userId: string;
-      options: DeliveryOptions & {
-        priority?: NotificationPriority;
-        maxRetries?: number;
-      };
+      options: QueueNotificationOptions;
     }>
   ): Promise<void> {
     try {
-      const queuedNotifications = notifications.map(({ notificationId, userId, options }) => ({
-        id: this.generateQueueId(),
-        notificationId,
-        userId,
-        priority: options.priority || NotificationPriority.NORMAL,
-        scheduledFor: options.scheduledFor || new Date(),
-        retryCount: 0,
-        maxRetries: options.maxRetries || 3,
-        channels: options.channels,
-        customData: options.customData,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      }));
-
-      await this.storeBulkQueuedNotifications(queuedNotifications);
-      
+      const jobsByChannel = new Map<
+        NotificationDelivery,
+        Array<{ data: NotificationJobData; opts: JobOptions }>
+      >();
+
+      for (const { notificationId, userId, options } of notifications) {
+        for (const channel of options.channels) {
+          const jobs = jobsByChannel.get(channel) || [];
+          jobs.push({
+            data: {
+              notificationId,
+              userId,
+              channel,
+              priority: options.priority || NotificationPriority.NORMAL,
+              customData: options.customData,
+              queuedAt: new Date().toISOString(),
+            },
+            opts: this.buildJobOptions(notificationId, channel, options),
+          });
+          jobsByChannel.set(channel, jobs);
+        }
+      }
+
+      for (const [channel, jobs] of jobsByChannel) {
+        await this.getQueue(channel).addBulk(jobs);
+      }
+
       this.logger.log(`Queued ${notifications.length} notifications for bulk processing`);
     } catch (error) {
       this.logger.error(`Failed to queue bulk notifications: ${error.message}`, error.stack);
@@ -121,61 +158,6 @@ export class NotificationQueueService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async startProcessing(): Promise<void> {
-    if (this.isProcessing) {
-      this.logger.warn('Queue processing is already running');
-      return;
-    }
-
-    this.isProcessing = true;
-    this.logger.log('Starting notification queue processing');
-
-    // Process queue every 5 seconds
-    this.processingInterval = setInterval(async () => {
-      await this.processQueue();
-    }, 5000);
-  }
-
-  async stopProcessing(): Promise<void> {
-    if (!this.isProcessing) {
-      return;
-    }
-
-    this.isProcessing = false;
-    
-    if (this.processingInterval) {
-      clearInterval(this.processingInterval);
-      this.processingInterval = null;
-    }
-
-    this.logger.log('Stopped notification queue processing');
-  }
-
-  @Cron(CronExpression.EVERY_MINUTE)
-  async processScheduledNotifications(): Promise<void> {
-    try {
-      const now = new Date();
-      const scheduledNotifications = await this.getScheduledNotifications(now);
-      
-      if (scheduledNotifications.length > 0) {
-        this.logger.log(`Processing ${scheduledNotifications.length} scheduled notifications`);
-        
-        for (const notification of scheduledNotifications) {
-          await this.queueNotification(
-            notification.id,
-            notification.user_id,
-            {
-              channels: [notification.delivery_method as any],
-              priority: notification.priority as any,
-            }
-          );
-        }
-      }
-    } catch (error) {
-      this.logger.error(`Failed to process scheduled notifications: ${error.message}`, error.stack);
-    }
-  }
-
   @Cron(CronExpression.EVERY_HOUR)
   async cleanupExpiredNotifications(): Promise<void> {
     try {
@@ -183,8 +165,8 @@ export class NotificationQueueService implements OnModuleInit, OnModuleDestroy {
         .createQueryBuilder()
         .delete()
         .where('expires_at < :now', { now: new Date() })
-        .andWhere('delivery_status IN (:...statuses)', { 
-          statuses: [DeliveryStatus.PENDING, DeliveryStatus.FAILED] 
+        .andWhere('delivery_status IN (:...statuses)', {
+          statuses: [DeliveryStatus.PENDING, DeliveryStatus.FAILED]
         })
         .execute();
 
@@ -196,178 +178,65 @@ export class NotificationQueueService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.processingQueue.size >= this.maxConcurrentJobs) {
-      return; // Skip if we're at capacity
-    }
-
-    try {
-      const queuedNotifications = await this.getQueuedNotifications();
-      
-      for (const queuedNotification of queuedNotifications) {
-        if (this.processingQueue.size >= this.maxConcurrentJobs) {
-          break; // Stop if we've reached capacity
-        }
-
-        await this.processQueuedNotification(queuedNotification);
-      }
-    } catch (error) {
-      this.logger.error(`Failed to process queue: ${error.message}`, error.stack);
-    }
-  }
-
-  private async processQueuedNotification(queuedNotification: QueuedNotification): Promise<void> {
-    const { id, notificationId, userId, channels, customData, retryCount, maxRetries } = queuedNotification;
-
-    try {
-      // Add to processing queue
-      this.processingQueue.set(id, queuedNotification);
-
-      // Get notification and user
-      const notification = await this.notificationRepository.findOne({
-        where: { id: notificationId },
-        relations: ['user'],
-      });
-
-      if (!notification) {
-        this.logger.warn(`Notification ${notificationId} not found, removing from queue`);
-        await this.removeQueuedNotification(id);
-        this.processingQueue.delete(id);
-        return;
-      }
-
-      const user = notification.user as any;
-
-      // Deliver notification
-      const result = await this.deliveryService.deliverNotification(
-        notification,
-        user,
-        {
-          channels: channels as any,
-          customData,
-        }
-      );
-
-      if (result.overallSuccess) {
-        await this.markQueuedNotificationCompleted(id);
-        this.logger.log(`Successfully processed queued notification ${id}`);
-      } else {
-        await this.handleQueuedNotificationFailure(id, queuedNotification, 'Delivery failed');
-      }
-
-    } catch (error) {
-      this.logger.error(`Failed to process queued notification ${id}: ${error.message}`, error.stack);
-      await this.handleQueuedNotificationFailure(id, queuedNotification, error.message);
-    } finally {
-      this.processingQueue.delete(id);
-    }
-  }
-
-  private async handleQueuedNotificationFailure(
-    id: string,
-    queuedNotification: QueuedNotification,
-    error: string
-  ): Promise<void> {
-    const { retryCount, maxRetries } = queuedNotification;
-
-    if (retryCount < maxRetries) {
-      // Schedule retry
-      const retryDelay = this.retryDelays[Math.min(retryCount, this.retryDelays.length - 1)];
-      const retryAt = new Date(Date.now() + retryDelay);
-
-      await this.scheduleRetry(id, retryAt, retryCount + 1);
-      
-      this.logger.log(`Scheduled retry ${retryCount + 1}/${maxRetries} for queued notification ${id} at ${retryAt.toISOString()}`);
-    } else {
-      // Mark as failed
-      await this.markQueuedNotificationFailed(id, error);
-      this.logger.error(`Queued notification ${id} failed after ${maxRetries} retries: ${error}`);
-    }
-  }
-
-  private async getQueuedNotifications(): Promise<QueuedNotification[]> {
-    // This would typically query a queue table
-    // For now, return empty array as we're using in-memory processing
-    return [];
-  }
-
-  private async getScheduledNotifications(now: Date): Promise<Notification[]> {
-    return await this.notificationRepository.find({
-      where: {
-        scheduled_for: LessThan(now),
-        delivery_status: DeliveryStatus.PENDING,
-      },
-    });
-  }
-
-  private async storeQueuedNotification(queuedNotification: QueuedNotification): Promise<void> {
-    // This would typically store in a queue table
-    // For now, just log
-    this.logger.log(`Stored queued notification: ${queuedNotification.id}`);
-  }
-
-  private async storeBulkQueuedNotifications(queuedNotifications: QueuedNotification[]): Promise<void> {
-    // This would typically store in a queue table
-    // For now, just log
-    this.logger.log(`Stored ${queuedNotifications.length} queued notifications`);
-  }
-
-  private async markQueuedNotificationCompleted(id: string): Promise<void> {
-    // This would typically update the queue table
-    this.logger.log(`Marked queued notification ${id} as completed`);
-  }
-
-  private async markQueuedNotificationFailed(id: string, error: string): Promise<void> {
-    // This would typically update the queue table
-    this.logger.log(`Marked queued notification ${id} as failed: ${error}`);
-  }
-
-  private async scheduleRetry(id: string, retryAt: Date, retryCount: number): Promise<void> {
-    // This would typically update the queue table with retry information
-    this.logger.log(`Scheduled retry for queued notification ${id} at ${retryAt.toISOString()}`);
-  }
-
-  private async removeQueuedNotification(id: string): Promise<void> {
-    // This would typically remove from the queue table
-    this.logger.log(`Removed queued notification ${id}`);
-  }
-
-  private generateQueueId(): string {
-    return 'QUEUE_' + Math.random().toString(36).substring(2, 15);
-  }
-
   async getQueueStats(): Promise<QueueStats> {
     try {
-      // This would typically query the queue table
-      // For now, return mock data
-      return {
+      const stats: QueueStats = {
         totalQueued: 0,
         pending: 0,
-        processing: this.processingQueue.size,
+        processing: 0,
+        delayed: 0,
         completed: 0,
         failed: 0,
-        byPriority: {},
+        deadLettered: 0,
         byChannel: {},
       };
+
+      for (const [channel, queue] of this.queues) {
+        const counts = await queue.getJobCounts();
+        stats.byChannel[channel] = {
+          ...counts,
+          paused: await queue.isPaused(),
+        };
+        stats.pending += counts.waiting;
+        stats.processing += counts.active;
+        stats.delayed += counts.delayed;
+        stats.completed += counts.completed;
+        stats.failed += counts.failed;
+      }
+
+      stats.totalQueued = stats.pending + stats.processing + stats.delayed;
+      stats.deadLettered = (await this.deadLetterQueue.getJobCounts()).waiting;
+
+      return stats;
     } catch (error) {
       this.logger.error(`Failed to get queue stats: ${error.message}`, error.stack);
       throw error;
     }
   }
 
+  /**
+   * Pause every channel queue across all workers. Jobs keep accumulating and
+   * are picked up once the queues are resumed.
+   */
   async pauseQueue(): Promise<void> {
-    await this.stopProcessing();
+    for (const queue of this.queues.values()) {
+      await queue.pause();
+    }
     this.logger.log('Queue processing paused');
   }
 
   async resumeQueue(): Promise<void> {
-    await this.startProcessing();
+    for (const queue of this.queues.values()) {
+      await queue.resume();
+    }
     this.logger.log('Queue processing resumed');
   }
 
   async clearQueue(): Promise<void> {
     try {
-      // This would typically clear the queue table
+      for (const queue of this.queues.values()) {
+        await queue.empty();
+      }
       this.logger.log('Queue cleared');
     } catch (error) {
       this.logger.error(`Failed to clear queue: ${error.message}`, error.stack);
@@ -381,19 +250,85 @@ export class NotificationQueueService implements OnModuleInit, OnModuleDestroy {
     maxConcurrentJobs: number;
     queueSize: number;
   }> {
+    const stats = await this.getQueueStats();
+    const paused = Object.values(stats.byChannel).every(channel => channel.paused);
+
     return {
-      isProcessing: this.isProcessing,
-      activeJobs: this.processingQueue.size,
-      maxConcurrentJobs: this.maxConcurrentJobs,
-      queueSize: 0, // This would come from the queue table
+      isProcessing: !paused,
+      activeJobs: stats.processing,
+      maxConcurrentJobs: NOTIFICATION_WORKER_CONCURRENCY * this.queues.size,
+      queueSize: stats.totalQueued,
     };
   }
 
+  async getDeadLetterJobs(limit: number = 50, offset: number = 0): Promise<DeadLetterJob[]> {
+    const jobs = await this.deadLetterQueue.getWaiting(offset, offset + limit - 1);
+    return jobs.map(job => this.mapDeadLetterJob(job));
+  }
+
+  /**
+   * Put a dead-lettered job back on its channel queue with a fresh set of
+   * attempts
+   */
+  async retryDeadLetterJob(jobId: string): Promise<void> {
+    const job = await this.deadLetterQueue.getJob(jobId);
+    if (!job) {
+      throw new NotFoundException(`Dead-letter job ${jobId} not found`);
+    }
+
+    const { notificationId, userId, channel, priority, customData } = job.data;
+
+    await this.notificationRepository.update(
+      { id: notificationId },
+      { delivery_status: DeliveryStatus.PENDING, failure_reason: null },
+    );
+
+    await this.getQueue(channel).add(
+      {
+        notificationId,
+        userId,
+        channel,
+        priority,
+        customData,
+        queuedAt: new Date().toISOString(),
+      },
+      {
+        ...this.buildJobOptions(notificationId, channel, { channels: [channel], priority }),
+        jobId: `${notificationId}:${channel}:retry:${Date.now()}`,
+      },
+    );
+    await job.remove();
+
+    this.logger.log(`Retried dead-letter job ${jobId} for notification ${notificationId}`);
+  }
+
+  async retryAllDeadLetterJobs(): Promise<number> {
+    const jobs = await this.deadLetterQueue.getWaiting();
+    for (const job of jobs) {
+      await this.retryDeadLetterJob(String(job.id));
+    }
+    return jobs.length;
+  }
+
   // Method to prioritize notifications
-  async prioritizeNotification(queueId: string, newPriority: NotificationPriority): Promise<void> {
+  async prioritizeNotification(
+    notificationId: string,
+    channel: NotificationDelivery,
+    newPriority: NotificationPriority,
+  ): Promise<void> {
     try {
-      // This would typically update the queue table
-      this.logger.log(`Updated priority for queued notification ${queueId} to ${newPriority}`);
+      const job = await this.getQueue(channel).getJob(this.getJobId(notificationId, channel));
+      if (!job || !(await job.isWaiting() || await job.isDelayed())) {
+        throw new NotFoundException(`No pending ${channel} job for notification ${notificationId}`);
+      }
+
+      const { opts, data } = job;
+      await job.remove();
+      await this.getQueue(channel).add(
+        { ...data, priority: newPriority },
+        { ...opts, priority: NOTIFICATION_JOB_PRIORITY[newPriority] },
+      );
+      this.logger.log(`Updated priority for notification ${notificationId} on ${channel} to ${newPriority}`);
     } catch (error) {
       this.logger.error(`Failed to prioritize notification: ${error.message}`, error.stack);
       throw error;
@@ -401,10 +336,15 @@ export class NotificationQueueService implements OnModuleInit, OnModuleDestroy {
   }
 
   // Method to cancel queued notification
-  async cancelQueuedNotification(queueId: string): Promise<void> {
+  async cancelQueuedNotification(notificationId: string): Promise<void> {
     try {
-      // This would typically remove from the queue table
-      this.logger.log(`Cancelled queued notification ${queueId}`);
+      for (const [channel, queue] of this.queues) {
+        const job = await queue.getJob(this.getJobId(notificationId, channel));
+        if (job && (await job.isWaiting() || await job.isDelayed())) {
+          await job.remove();
+        }
+      }
+      this.logger.log(`Cancelled queued notification ${notificationId}`);
     } catch (error) {
       this.logger.error(`Failed to cancel queued notification: ${error.message}`, error.stack);
       throw error;
@@ -412,13 +352,64 @@ export class NotificationQueueService implements OnModuleInit, OnModuleDestroy {
   }
 
   // Method to get queued notifications for a user
-  async getUserQueuedNotifications(userId: string): Promise<QueuedNotification[]> {
+  async getUserQueuedNotifications(userId: string): Promise<NotificationJobData[]> {
     try {
-      // This would typically query the queue table
-      return [];
+      const pending: NotificationJobData[] = [];
+      for (const queue of this.queues.values()) {
+        const jobs = await queue.getJobs(['waiting', 'delayed']);
+        pending.push(...jobs.filter(job => job?.data.userId === userId).map(job => job.data));
+      }
+      return pending;
     } catch (error) {
       this.logger.error(`Failed to get user queued notifications: ${error.message}`, error.stack);
       throw error;
     }
   }
+
+  private buildJobOptions(
+    notificationId: string,
+    channel: NotificationDelivery,
+    options: QueueNotificationOptions,
+  ): JobOptions {
+    const delay = options.scheduledFor
+      ? Math.max(new Date(options.scheduledFor).getTime() - Date.now(), 0)
+      : 0;
+    const maxRetries = options.maxRetries ?? DEFAULT_NOTIFICATION_MAX_RETRIES;
+
+    return {
+      jobId: this.getJobId(notificationId, channel),
+      priority: NOTIFICATION_JOB_PRIORITY[options.priority || NotificationPriority.NORMAL],
+      delay,
+      attempts: maxRetries + 1,
+      backoff: { type: NOTIFICATION_BACKOFF_STRATEGY },
+      removeOnComplete: 1000,
+      removeOnFail: 1000,
+    };
+  }
+
+  private getJobId(notificationId: string, channel: NotificationDelivery): string {
+    return `${notificationId}:${channel}`;
+  }
+
+  private getQueue(channel: NotificationDelivery): Queue<NotificationJobData> {
+    const queue = this.queues.get(channel);
+    if (!queue) {
+      throw new Error(`Unsupported delivery channel: ${channel}`);
+    }
+    return queue;
+  }
+
+  private mapDeadLetterJob(job: Job<DeadLetterJobData>): DeadLetterJob {
+    return {
+      id: String(job.id),
+      notificationId: job.data.notificationId,
+      userId: job.data.userId,
+      channel: job.data.channel,
+      priority: job.data.priority,
+      failedReason: job.data.failedReason,
+      attemptsMade: job.data.attemptsMade,
+      failedAt: job.data.failedAt,
+      queuedAt: job.data.queuedAt,
+    };
+  }
 }
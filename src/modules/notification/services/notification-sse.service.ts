@@ -1,7 +1,13 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
 import { Observable, Subject } from 'rxjs';
-import { filter, map } from 'rxjs/operators';
+import { hostname } from 'os';
+import { RedisService } from '../../../database/redis.service';
 
 export interface SSEEvent {
   type: string;
@@ -19,24 +25,95 @@ export interface UserSSEConnection {
   lastActivity: Date;
 }
 
+export interface SSENodeStats {
+  nodeId: string;
+  totalConnections: number;
+  activeConnections: number;
+  users: string[];
+  updatedAt: string;
+}
+
+export interface SSEConnectionStats {
+  totalConnections: number;
+  activeConnections: number;
+  users: string[];
+  nodes: SSENodeStats[];
+}
+
+interface SSEEnvelope {
+  userId: string;
+  event: SSEEvent;
+}
+
+// Every instance subscribes to this channel and delivers to the users
+// connected to it
+const SSE_CHANNEL = 'sse:events';
+const SSE_STREAM_PREFIX = 'sse:stream:';
+const SSE_NODE_PREFIX = 'sse:nodes:';
+const BROADCAST_TARGET = '*';
+const STREAM_TTL_SECONDS = 24 * 60 * 60;
+const NODE_HEARTBEAT_INTERVAL = 30 * 1000;
+const NODE_STATS_TTL_SECONDS = 90;
+// Redis stream ids look like 1700000000000-0
+const STREAM_ID_PATTERN = /^\d+-\d+$/;
+
+/**
+ * Server-sent events fan-out. Events are published over Redis pub/sub so a
+ * user connected to any instance receives them, and each user's history is
+ * kept in a Redis stream whose entry ids double as SSE event ids, letting a
+ * client resume from Last-Event-ID on whichever instance it reconnects to.
+ * Without Redis everything stays on the local instance.
+ */
 @Injectable()
-export class NotificationSSEService {
+export class NotificationSSEService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(NotificationSSEService.name);
   private readonly userConnections = new Map<string, UserSSEConnection>();
-  private readonly eventHistory = new Map<string, SSEEvent[]>(); // Store last 100 events per user
   private readonly maxHistorySize = 100;
+  private readonly replayOnConnect = 10;
+  private readonly nodeId = `${hostname()}:${process.pid}`;
+  private pubSubEnabled = false;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+
+  constructor(private readonly redisService: RedisService) {}
+
+  async onModuleInit(): Promise<void> {
+    this.pubSubEnabled = await this.redisService.subscribe(
+      SSE_CHANNEL,
+      message => this.handlePublishedEvent(message),
+    );
+
+    if (!this.pubSubEnabled) {
+      this.logger.warn(
+        'Redis pub/sub unavailable, SSE events will only reach users on this instance',
+      );
+    }
 
-  constructor() {
     // Cleanup inactive connections every 5 minutes
-    setInterval(() => {
+    this.cleanupInterval = setInterval(() => {
       this.cleanupInactiveConnections();
     }, 5 * 60 * 1000);
+
+    this.heartbeatInterval = setInterval(() => {
+      void this.publishNodeStats();
+    }, NODE_HEARTBEAT_INTERVAL);
+    await this.publishNodeStats();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.cleanupInterval) clearInterval(this.cleanupInterval);
+    if (this.heartbeatInterval) clearInterval(this.heartbeatInterval);
+    await this.redisService.del(this.getNodeKey(this.nodeId));
   }
 
   /**
-   * Create a new SSE connection for a user
+   * Create a new SSE connection for a user. Events after lastEventId are
+   * replayed from the user's stream; without one the most recent few are.
    */
-  createUserConnection(userId: string): Observable<SSEEvent> {
+  createUserConnection(
+    userId: string,
+    lastEventId?: string,
+  ): Observable<SSEEvent> {
     // Close existing connection if any
     this.closeUserConnection(userId);
 
@@ -44,6 +121,7 @@ export class NotificationSSEService {
     const connection: UserSSEConnection = {
       userId,
       subject,
+      lastEventId,
       isActive: true,
       createdAt: new Date(),
       lastActivity: new Date(),
@@ -53,7 +131,12 @@ export class NotificationSSEService {
     this.logger.log(`SSE connection created for user ${userId}`);
 
     // Send any missed events if user reconnects
-    this.sendMissedEvents(userId, subject);
+    this.sendMissedEvents(userId, subject, lastEventId).catch(error =>
+      this.logger.error(
+        `Failed to replay SSE events for user ${userId}: ${error.message}`,
+      ),
+    );
+    void this.publishNodeStats();
 
     return subject.asObservable();
   }
@@ -67,19 +150,15 @@ export class NotificationSSEService {
       connection.subject.complete();
       this.userConnections.delete(userId);
       this.logger.log(`SSE connection closed for user ${userId}`);
+      void this.publishNodeStats();
     }
   }
 
   /**
-   * Send event to specific user
+   * Send event to specific user, wherever they are connected
    */
   sendToUser(userId: string, event: SSEEvent): void {
-    const connection = this.userConnections.get(userId);
-    if (connection && connection.isActive) {
-      connection.subject.next(event);
-      connection.lastActivity = new Date();
-      this.logger.log(`SSE event sent to user ${userId}: ${event.type}`);
-    }
+    this.publish({ userId, event });
   }
 
   /**
@@ -92,134 +171,95 @@ export class NotificationSSEService {
   }
 
   /**
-   * Broadcast event to all connected users
+   * Broadcast event to all connected users on every instance
    */
   broadcast(event: SSEEvent): void {
-    this.userConnections.forEach((connection, userId) => {
-      if (connection.isActive) {
-        connection.subject.next(event);
-        connection.lastActivity = new Date();
-      }
-    });
-    this.logger.log(`SSE event broadcasted to ${this.userConnections.size} users: ${event.type}`);
+    this.publish({ userId: BROADCAST_TARGET, event });
   }
 
   /**
-   * Get connection statistics
+   * Get connection statistics summed across every live instance
    */
-  getConnectionStats(): {
-    totalConnections: number;
-    activeConnections: number;
-    users: string[];
-  } {
-    const activeConnections = Array.from(this.userConnections.values())
-      .filter(conn => conn.isActive).length;
+  async getConnectionStats(): Promise<SSEConnectionStats> {
+    const nodes = await this.getNodeStats();
+    const users = new Set<string>();
+
+    nodes.forEach(node => node.users.forEach(user => users.add(user)));
 
     return {
-      totalConnections: this.userConnections.size,
-      activeConnections,
-      users: Array.from(this.userConnections.keys()),
+      totalConnections: nodes.reduce(
+        (sum, node) => sum + node.totalConnections,
+        0,
+      ),
+      activeConnections: nodes.reduce(
+        (sum, node) => sum + node.activeConnections,
+        0,
+      ),
+      users: Array.from(users),
+      nodes,
     };
   }
 
   /**
-   * Check if user is connected
+   * Check if user is connected to any instance
    */
-  isUserConnected(userId: string): boolean {
-    const connection = this.userConnections.get(userId);
-    return connection ? connection.isActive : false;
+  async isUserConnected(userId: string): Promise<boolean> {
+    if (this.userConnections.get(userId)?.isActive) {
+      return true;
+    }
+
+    const nodes = await this.getNodeStats();
+    return nodes.some(node => node.users.includes(userId));
   }
 
   // Event Listeners for Notification Events
 
   @OnEvent('notification.created')
   handleNotificationCreated(payload: { userId: string; notification: any; timestamp: Date }): void {
-    const event: SSEEvent = {
-      type: 'notification.created',
-      data: {
-        notification: payload.notification,
-        timestamp: payload.timestamp,
-      },
-      id: this.generateEventId(),
-    };
-
-    this.sendToUser(payload.userId, event);
-    this.storeEvent(payload.userId, event);
+    this.emitToUser(payload.userId, 'notification.created', {
+      notification: payload.notification,
+      timestamp: payload.timestamp,
+    });
   }
 
   @OnEvent('notification.read')
   handleNotificationRead(payload: { notificationId: string; userId: string; readAt: Date }): void {
-    const event: SSEEvent = {
-      type: 'notification.read',
-      data: {
-        notificationId: payload.notificationId,
-        readAt: payload.readAt,
-      },
-      id: this.generateEventId(),
-    };
-
-    this.sendToUser(payload.userId, event);
-    this.storeEvent(payload.userId, event);
+    this.emitToUser(payload.userId, 'notification.read', {
+      notificationId: payload.notificationId,
+      readAt: payload.readAt,
+    });
   }
 
   @OnEvent('notifications.bulk.read')
   handleBulkNotificationsRead(payload: { userId: string; count: number; readAt: Date }): void {
-    const event: SSEEvent = {
-      type: 'notifications.bulk.read',
-      data: {
-        count: payload.count,
-        readAt: payload.readAt,
-      },
-      id: this.generateEventId(),
-    };
-
-    this.sendToUser(payload.userId, event);
-    this.storeEvent(payload.userId, event);
+    this.emitToUser(payload.userId, 'notifications.bulk.read', {
+      count: payload.count,
+      readAt: payload.readAt,
+    });
   }
 
   @OnEvent('notification.deleted')
   handleNotificationDeleted(payload: { notificationId: string; userId: string; deletedAt: Date }): void {
-    const event: SSEEvent = {
-      type: 'notification.deleted',
-      data: {
-        notificationId: payload.notificationId,
-        deletedAt: payload.deletedAt,
-      },
-      id: this.generateEventId(),
-    };
-
-    this.sendToUser(payload.userId, event);
-    this.storeEvent(payload.userId, event);
+    this.emitToUser(payload.userId, 'notification.deleted', {
+      notificationId: payload.notificationId,
+      deletedAt: payload.deletedAt,
+    });
   }
 
   @OnEvent('notifications.bulk.deleted')
   handleBulkNotificationsDeleted(payload: { userId: string; count: number; deletedAt: Date }): void {
-    const event: SSEEvent = {
-      type: 'notifications.bulk.deleted',
-      data: {
-        count: payload.count,
-        deletedAt: payload.deletedAt,
-      },
-      id: this.generateEventId(),
-    };
-
-    this.sendToUser(payload.userId, event);
-    this.storeEvent(payload.userId, event);
+    this.emitToUser(payload.userId, 'notifications.bulk.deleted', {
+      count: payload.count,
+      deletedAt: payload.deletedAt,
+    });
   }
 
   @OnEvent('notification.preferences.updated')
   handlePreferencesUpdated(payload: { userId: string; preferences: any; updatedAt: Date }): void {
-    const event: SSEEvent = {
-      type: 'notification.preferences.updated',
-      data: {
-        preferences: payload.preferences,
-        updatedAt: payload.updatedAt,
-      },
-      id: this.generateEventId(),
-    };
-
-    this.sendToUser(payload.userId, event);
-    this.storeEvent(payload.userId, event);
+    this.emitToUser(payload.userId, 'notification.preferences.updated', {
+      preferences: payload.preferences,
+      updatedAt: payload.updatedAt,
+    });
   }
 
   @OnEvent('notification.effects')
@@ -232,21 +272,14 @@ export class NotificationSSEService {
     vibration: boolean;
     showBadge: boolean;
   }): void {
-    const event: SSEEvent = {
-      type: 'notification.effects',
-      data: {
-        notificationId: payload.notificationId,
-        type: payload.type,
-        priority: payload.priority,
-        sound: payload.sound,
-        vibration: payload.vibration,
-        showBadge: payload.showBadge,
-      },
-      id: this.generateEventId(),
-    };
-
-    this.sendToUser(payload.userId, event);
-    this.storeEvent(payload.userId, event);
+    this.emitToUser(payload.userId, 'notification.effects', {
+      notificationId: payload.notificationId,
+      type: payload.type,
+      priority: payload.priority,
+      sound: payload.sound,
+      vibration: payload.vibration,
+      showBadge: payload.showBadge,
+    });
   }
 
   @OnEvent('notifications.bulk.created')
@@ -256,32 +289,18 @@ export class NotificationSSEService {
     type: string;
     timestamp: Date;
   }): void {
-    const event: SSEEvent = {
-      type: 'notifications.bulk.created',
-      data: {
+    // Send to all affected users
+    payload.userIds.forEach(userId => {
+      this.emitToUser(userId, 'notifications.bulk.created', {
         count: payload.count,
         type: payload.type,
         timestamp: payload.timestamp,
-      },
-      id: this.generateEventId(),
-    };
-
-    // Send to all affected users
-    payload.userIds.forEach(userId => {
-      this.sendToUser(userId, event);
-      this.storeEvent(userId, event);
+      });
     });
   }
 
   sendCustomEvent(userId: string, eventType: string, data: any): void {
-    const event: SSEEvent = {
-      type: eventType,
-      data,
-      id: this.generateEventId(),
-    };
-
-    this.sendToUser(userId, event);
-    this.storeEvent(userId, event);
+    this.emitToUser(userId, eventType, data);
   }
 
  
@@ -301,83 +320,195 @@ export class NotificationSSEService {
 
 
   sendOrderUpdate(userId: string, orderId: string, status: string, message: string): void {
-    const event: SSEEvent = {
-      type: 'order.update',
-      data: {
-        orderId,
-        status,
-        message,
-        timestamp: new Date(),
-      },
-      id: this.generateEventId(),
-    };
+    this.emitToUser(userId, 'order.update', {
+      orderId,
+      status,
+      message,
+      timestamp: new Date(),
+    });
+  }
 
-    this.sendToUser(userId, event);
-    this.storeEvent(userId, event);
+
+  sendDeliveryTracking(userId: string, orderId: string, tracking: any): void {
+    this.emitToUser(userId, 'delivery.tracking', {
+      orderId,
+      tracking,
+      timestamp: new Date(),
+    });
   }
 
 
   sendPaymentUpdate(userId: string, paymentId: string, status: string, amount: number): void {
-    const event: SSEEvent = {
-      type: 'payment.update',
-      data: {
-        paymentId,
-        status,
-        amount,
-        timestamp: new Date(),
-      },
-      id: this.generateEventId(),
-    };
-
-    this.sendToUser(userId, event);
-    this.storeEvent(userId, event);
+    this.emitToUser(userId, 'payment.update', {
+      paymentId,
+      status,
+      amount,
+      timestamp: new Date(),
+    });
   }
 
 
   sendPromotion(userId: string, promotionId: string, title: string, message: string, discountCode?: string): void {
-    const event: SSEEvent = {
-      type: 'promotion.new',
-      data: {
-        promotionId,
-        title,
-        message,
-        discountCode,
-        timestamp: new Date(),
-      },
-      id: this.generateEventId(),
-    };
+    this.emitToUser(userId, 'promotion.new', {
+      promotionId,
+      title,
+      message,
+      discountCode,
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Record the event in the user's stream, then deliver it with the stream
+   * entry id so the client can resume from it
+   */
+  private emitToUser(userId: string, type: string, data: any): void {
+    this.storeEvent(userId, type, data)
+      .then(id => this.sendToUser(userId, { type, data, id }))
+      .catch(error =>
+        this.logger.error(
+          `Failed to emit SSE event ${type} to user ${userId}: ${error.message}`,
+        ),
+      );
+  }
 
-    this.sendToUser(userId, event);
-    this.storeEvent(userId, event);
+  private publish(envelope: SSEEnvelope): void {
+    if (!this.pubSubEnabled) {
+      this.deliver(envelope);
+      return;
+    }
+
+    this.redisService
+      .publish(SSE_CHANNEL, JSON.stringify(envelope))
+      .then(published => {
+        // Fall back to local delivery if Redis dropped out
+        if (!published) this.deliver(envelope);
+      })
+      .catch(error =>
+        this.logger.error(`Failed to publish SSE event: ${error.message}`),
+      );
   }
 
+  private handlePublishedEvent(message: string): void {
+    try {
+      this.deliver(JSON.parse(message) as SSEEnvelope);
+    } catch (error) {
+      this.logger.error(`Invalid SSE message received: ${error.message}`);
+    }
+  }
 
-  private storeEvent(userId: string, event: SSEEvent): void {
-    if (!this.eventHistory.has(userId)) {
-      this.eventHistory.set(userId, []);
+  /**
+   * Push an event to the matching connections on this instance
+   */
+  private deliver({ userId, event }: SSEEnvelope): void {
+    if (userId === BROADCAST_TARGET) {
+      let delivered = 0;
+      this.userConnections.forEach(connection => {
+        if (connection.isActive) {
+          connection.subject.next(event);
+          connection.lastActivity = new Date();
+          delivered++;
+        }
+      });
+      this.logger.log(`SSE event broadcasted to ${delivered} users: ${event.type}`);
+      return;
     }
 
-    const userEvents = this.eventHistory.get(userId)!;
-    userEvents.push(event);
+    const connection = this.userConnections.get(userId);
+    if (connection && connection.isActive) {
+      connection.subject.next(event);
+      connection.lastActivity = new Date();
+      connection.lastEventId = event.id || connection.lastEventId;
+      this.logger.log(`SSE event sent to user ${userId}: ${event.type}`);
+    }
+  }
+
+  private async storeEvent(userId: string, type: string, data: any): Promise<string> {
+    const key = this.getStreamKey(userId);
+    const id = await this.redisService.xadd(
+      key,
+      { type, data: JSON.stringify(data ?? null) },
+      this.maxHistorySize,
+    );
 
-    // Keep only the last N events
-    if (userEvents.length > this.maxHistorySize) {
-      userEvents.splice(0, userEvents.length - this.maxHistorySize);
+    if (!id) {
+      return this.generateEventId();
     }
+
+    await this.redisService.expire(key, STREAM_TTL_SECONDS);
+    return id;
   }
 
-  private sendMissedEvents(userId: string, subject: Subject<SSEEvent>): void {
-    const userEvents = this.eventHistory.get(userId);
-    if (userEvents && userEvents.length > 0) {
-      // Send last 10 events to catch up
-      const recentEvents = userEvents.slice(-10);
-      recentEvents.forEach(event => {
-        subject.next(event);
+  private async sendMissedEvents(
+    userId: string,
+    subject: Subject<SSEEvent>,
+    lastEventId?: string,
+  ): Promise<void> {
+    const key = this.getStreamKey(userId);
+    const entries =
+      lastEventId && STREAM_ID_PATTERN.test(lastEventId)
+        ? await this.redisService.xrange(key, `(${lastEventId}`, '+', this.maxHistorySize)
+        : // Send last few events to catch up
+          (await this.redisService.xrevrange(key, '+', '-', this.replayOnConnect)).reverse();
+
+    entries.forEach(entry => {
+      subject.next({
+        id: entry.id,
+        type: entry.message.type,
+        data: JSON.parse(entry.message.data),
       });
-      this.logger.log(`Sent ${recentEvents.length} missed events to user ${userId}`);
+    });
+
+    if (entries.length > 0) {
+      this.logger.log(`Sent ${entries.length} missed events to user ${userId}`);
     }
   }
 
+  private getLocalStats(): SSENodeStats {
+    const connections = Array.from(this.userConnections.values());
+
+    return {
+      nodeId: this.nodeId,
+      totalConnections: connections.length,
+      activeConnections: connections.filter(conn => conn.isActive).length,
+      users: Array.from(this.userConnections.keys()),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Advertise this instance's connections; entries expire when an instance
+   * stops heartbeating
+   */
+  private async publishNodeStats(): Promise<void> {
+    await this.redisService.setex(
+      this.getNodeKey(this.nodeId),
+      NODE_STATS_TTL_SECONDS,
+      JSON.stringify(this.getLocalStats()),
+    );
+  }
+
+  private async getNodeStats(): Promise<SSENodeStats[]> {
+    const nodes = new Map<string, SSENodeStats>();
+    const keys = await this.redisService.scan(`${SSE_NODE_PREFIX}*`);
+    const values = await this.redisService.mget(keys);
+
+    values.forEach(value => {
+      if (!value) return;
+      try {
+        const stats = JSON.parse(value) as SSENodeStats;
+        nodes.set(stats.nodeId, stats);
+      } catch (error) {
+        this.logger.warn(`Ignoring malformed SSE node stats: ${error.message}`);
+      }
+    });
+
+    // Always report this instance from memory rather than its last heartbeat
+    nodes.set(this.nodeId, this.getLocalStats());
+
+    return Array.from(nodes.values());
+  }
+
   private cleanupInactiveConnections(): void {
     const now = new Date();
     const inactiveThreshold = 30 * 60 * 1000; // 30 minutes
@@ -392,6 +523,14 @@ export class NotificationSSEService {
     });
   }
 
+  private getStreamKey(userId: string): string {
+    return `${SSE_STREAM_PREFIX}${userId}`;
+  }
+
+  private getNodeKey(nodeId: string): string {
+    return `${SSE_NODE_PREFIX}${nodeId}`;
+  }
+
   private generateEventId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substring(2);
   }
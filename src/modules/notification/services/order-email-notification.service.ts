@@ -48,7 +48,7 @@ export class OrderEmailNotificationService {
       this.logger.log(`Sending new order email to vendor ${vendor.id} for order ${order.id}`);
 
       const formattedItems = order.order_items.map((item: OrderItem) => ({
-        name: item.menu_item?.name || 'Unknown Item',
+        name: this.formatItemName(item),
         quantity: item.quantity,
         price: Number(item.total_price),
       }));
@@ -110,7 +110,7 @@ export class OrderEmailNotificationService {
       this.logger.log(`Sending order confirmation email to customer ${customer.id} for order ${order.id}`);
 
       const formattedItems = order.order_items.map((item: OrderItem) => ({
-        name: item.menu_item?.name || 'Unknown Item',
+        name: this.formatItemName(item),
         quantity: item.quantity,
         price: Number(item.total_price),
       }));
@@ -242,7 +242,7 @@ export class OrderEmailNotificationService {
       this.logger.log(`✅ Sending to admin email: ${this.adminEmail}`);
 
       const formattedItems = order.order_items.map((item: OrderItem) => ({
-        name: item.menu_item?.name || 'Unknown Item',
+        name: this.formatItemName(item),
         quantity: item.quantity,
         price: Number(item.total_price),
       }));
@@ -383,6 +383,14 @@ export class OrderEmailNotificationService {
     }
   }
 
+  /**
+   * Item name with any chosen options, e.g. "Jollof Rice (Large, Extra Chicken)"
+   */
+  private formatItemName(item: OrderItem): string {
+    const name = item.menu_item?.name || 'Unknown Item';
+    return item.options_summary ? `${name} (${item.options_summary})` : name;
+  }
+
   /**
    * Format address for display
    */
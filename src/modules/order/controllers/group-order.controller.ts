@@ -0,0 +1,280 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/modules/auth/guards/jwt-auth.guard';
+import { GetUser } from '@/common/decorators/get-user.decorator';
+import { User } from '@/entities';
+import { GroupOrderService } from '../services/group-order.service';
+import {
+  AddGroupOrderItemDto,
+  CancelGroupOrderDto,
+  CreateGroupOrderDto,
+  GroupOrderPaymentDto,
+  GroupOrderResponseDto,
+  JoinGroupOrderDto,
+  UpdateGroupOrderItemDto,
+} from '../dto';
+
+@ApiTags('Group Orders')
+@Controller('group-orders')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class GroupOrderController {
+  constructor(private readonly groupOrderService: GroupOrderService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Open a group order at a vendor',
+    description:
+      'Share the returned share_token so colleagues can join and add their own items.',
+  })
+  @ApiResponse({ status: 201, type: GroupOrderResponseDto })
+  @ApiResponse({ status: 404, description: 'Vendor or address not found' })
+  async createGroupOrder(
+    @GetUser() user: User,
+    @Body() dto: CreateGroupOrderDto,
+  ): Promise<GroupOrderResponseDto> {
+    return await this.groupOrderService.createGroupOrder(user, dto);
+  }
+
+  @Post('join/:token')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Join a group order from its share link' })
+  @ApiParam({ name: 'token', description: 'Share token from the link' })
+  @ApiResponse({ status: 200, type: GroupOrderResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Group order is full or no longer open',
+  })
+  async joinGroupOrder(
+    @GetUser() user: User,
+    @Param('token') token: string,
+    @Body() dto: JoinGroupOrderDto,
+  ): Promise<GroupOrderResponseDto> {
+    return await this.groupOrderService.joinGroupOrder(user, token, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List group orders you host or joined' })
+  @ApiResponse({ status: 200, type: [GroupOrderResponseDto] })
+  async getGroupOrders(
+    @GetUser() user: User,
+  ): Promise<GroupOrderResponseDto[]> {
+    return await this.groupOrderService.getGroupOrders(user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: "Get a group order with everyone's items" })
+  @ApiParam({ name: 'id', description: 'Group order ID' })
+  @ApiResponse({ status: 200, type: GroupOrderResponseDto })
+  @ApiResponse({ status: 404, description: 'Group order not found' })
+  async getGroupOrder(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<GroupOrderResponseDto> {
+    return await this.groupOrderService.getGroupOrder(user.id, id);
+  }
+
+  @Post(':id/items')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Add one of your items' })
+  @ApiParam({ name: 'id', description: 'Group order ID' })
+  @ApiResponse({ status: 201, type: GroupOrderResponseDto })
+  async addItem(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: AddGroupOrderItemDto,
+  ): Promise<GroupOrderResponseDto> {
+    return await this.groupOrderService.addItem(user.id, id, dto);
+  }
+
+  @Patch(':id/items/:itemId')
+  @ApiOperation({ summary: 'Change the quantity of one of your items' })
+  @ApiParam({ name: 'id', description: 'Group order ID' })
+  @ApiParam({ name: 'itemId', description: 'Group order item ID' })
+  @ApiResponse({ status: 200, type: GroupOrderResponseDto })
+  async updateItem(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('itemId', ParseUUIDPipe) itemId: string,
+    @Body() dto: UpdateGroupOrderItemDto,
+  ): Promise<GroupOrderResponseDto> {
+    return await this.groupOrderService.updateItem(user.id, id, itemId, dto);
+  }
+
+  @Delete(':id/items/:itemId')
+  @ApiOperation({ summary: 'Remove one of your items' })
+  @ApiParam({ name: 'id', description: 'Group order ID' })
+  @ApiParam({ name: 'itemId', description: 'Group order item ID' })
+  @ApiResponse({ status: 200, type: GroupOrderResponseDto })
+  async removeItem(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('itemId', ParseUUIDPipe) itemId: string,
+  ): Promise<GroupOrderResponseDto> {
+    return await this.groupOrderService.removeItem(user.id, id, itemId);
+  }
+
+  @Post(':id/lock')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Lock the group order (host)',
+    description:
+      "Stops changes, prices the order and fixes each participant's share.",
+  })
+  @ApiParam({ name: 'id', description: 'Group order ID' })
+  @ApiResponse({ status: 200, type: GroupOrderResponseDto })
+  async lockGroupOrder(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<GroupOrderResponseDto> {
+    return await this.groupOrderService.lockGroupOrder(user.id, id);
+  }
+
+  @Post(':id/unlock')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reopen a locked group order for changes (host)',
+    description: 'Shares already paid are returned.',
+  })
+  @ApiParam({ name: 'id', description: 'Group order ID' })
+  @ApiResponse({ status: 200, type: GroupOrderResponseDto })
+  async unlockGroupOrder(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<GroupOrderResponseDto> {
+    return await this.groupOrderService.unlockGroupOrder(user.id, id);
+  }
+
+  @Post(':id/pay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Pay your share of a split group order',
+    description:
+      'The share is held in escrow until checkout, paid from your wallet or from a saved card through your wallet.',
+  })
+  @ApiParam({ name: 'id', description: 'Group order ID' })
+  @ApiResponse({ status: 200, type: GroupOrderResponseDto })
+  async payShare(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: GroupOrderPaymentDto,
+  ): Promise<GroupOrderResponseDto> {
+    return await this.groupOrderService.payShare(user, id, dto);
+  }
+
+  @Post(':id/checkout')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Place the group order with the vendor (host)',
+    description:
+      "Split group orders need every share paid; the held shares and the host's wallet pay the order together.",
+  })
+  @ApiParam({ name: 'id', description: 'Group order ID' })
+  @ApiResponse({ status: 200, type: GroupOrderResponseDto })
+  async checkout(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: GroupOrderPaymentDto,
+  ): Promise<GroupOrderResponseDto> {
+    return await this.groupOrderService.checkout(user.id, id, dto);
+  }
+
+  @Post(':id/leave')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Leave an open group order' })
+  @ApiParam({ name: 'id', description: 'Group order ID' })
+  @ApiResponse({ status: 200, type: GroupOrderResponseDto })
+  async leaveGroupOrder(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<GroupOrderResponseDto> {
+    return await this.groupOrderService.leaveGroupOrder(user.id, id);
+  }
+
+  @Delete(':id/participants/:participantId')
+  @ApiOperation({
+    summary: 'Remove a participant from an open group order (host)',
+  })
+  @ApiParam({ name: 'id', description: 'Group order ID' })
+  @ApiParam({ name: 'participantId', description: 'Participant ID' })
+  @ApiResponse({ status: 200, type: GroupOrderResponseDto })
+  async removeParticipant(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('participantId', ParseUUIDPipe) participantId: string,
+  ): Promise<GroupOrderResponseDto> {
+    return await this.groupOrderService.removeParticipant(
+      user.id,
+      id,
+      participantId,
+    );
+  }
+
+  @Post(':id/participants/:participantId/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Cancel one participant's part of a placed group order",
+    description:
+      'Their items are refunded; the order itself is cancelled once nobody is left.',
+  })
+  @ApiParam({ name: 'id', description: 'Group order ID' })
+  @ApiParam({ name: 'participantId', description: 'Participant ID' })
+  @ApiResponse({ status: 200, type: GroupOrderResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'The order cannot be cancelled at this stage',
+  })
+  async cancelParticipant(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('participantId', ParseUUIDPipe) participantId: string,
+    @Body() dto: CancelGroupOrderDto,
+  ): Promise<GroupOrderResponseDto> {
+    return await this.groupOrderService.cancelParticipant(
+      user.id,
+      id,
+      participantId,
+      dto.reason,
+    );
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel the group order (host)',
+    description:
+      'Paid shares are returned; after checkout each participant is refunded in turn.',
+  })
+  @ApiParam({ name: 'id', description: 'Group order ID' })
+  @ApiResponse({ status: 200, type: GroupOrderResponseDto })
+  async cancelGroupOrder(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CancelGroupOrderDto,
+  ): Promise<GroupOrderResponseDto> {
+    return await this.groupOrderService.cancelGroupOrder(
+      user.id,
+      id,
+      dto.reason,
+    );
+  }
+}
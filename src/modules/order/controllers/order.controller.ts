@@ -9,6 +9,8 @@ import {
   Query,
   Request,
   UseGuards,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -27,7 +29,10 @@ import {
   OrderFilterDto,
   CalculateOrderCostDto,
   OrderCostResponseDto,
+  OrderTimelineResponseDto,
+  OrderQuoteResponseDto,
 } from '../dto';
+import { OrderTrackingResponseDto } from 'src/modules/delivery/dto';
 import { GetUser } from '@/common/decorators/get-user.decorator';
 import { User } from '@/entities';
 
@@ -55,6 +60,10 @@ export class OrderController {
     status: 404,
     description: 'Delivery address or cart items not found',
   })
+  @ApiResponse({
+    status: 409,
+    description: 'The order no longer matches the quote_token it was sent with',
+  })
   async createOrder(
     @GetUser() user: User,
     @Body() createOrderDto: CreateOrderDto,
@@ -62,6 +71,30 @@ export class OrderController {
     return await this.orderService.createOrder(user.id, createOrderDto);
   }
 
+  @Post('quote')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Price the cart for a vendor before checkout',
+    description:
+      'Returns the itemised total the customer will be charged and a short-lived quote_token. Pass the token to POST /orders to be charged exactly this total.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Quote calculated; check is_valid and issues',
+    type: OrderQuoteResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 404,
+    description: 'Vendor or delivery quote not found',
+  })
+  async quoteOrder(
+    @GetUser() user: User,
+    @Body() createOrderDto: CreateOrderDto,
+  ): Promise<OrderQuoteResponseDto> {
+    return await this.orderService.quoteOrder(user.id, createOrderDto);
+  }
+
   @Get()
   @ApiOperation({
     summary: 'Get customer orders with filtering and pagination',
@@ -163,6 +196,60 @@ export class OrderController {
     );
   }
 
+  @Get(':id/timeline')
+  @ApiOperation({ summary: 'Get the status history of an order' })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Order timeline retrieved successfully',
+    type: OrderTimelineResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Order does not belong to user',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async getOrderTimeline(
+    @Request() req,
+    @Param('id') id: string,
+  ): Promise<OrderTimelineResponseDto> {
+    return await this.orderService.getOrderTimeline(
+      id,
+      req.user.id,
+      req.user.user_type,
+    );
+  }
+
+  @Get(':id/tracking')
+  @ApiOperation({
+    summary: 'Get live delivery tracking for an order',
+    description:
+      'Timeline, courier and last known courier position. Updates are also pushed over the notifications SSE stream as delivery.tracking events.',
+  })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Order tracking retrieved successfully',
+    type: OrderTrackingResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Order does not belong to user',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async getOrderTracking(
+    @Request() req,
+    @Param('id') id: string,
+  ): Promise<OrderTrackingResponseDto> {
+    return await this.orderService.getOrderTracking(
+      id,
+      req.user.id,
+      req.user.user_type,
+    );
+  }
+
   @Delete(':id/cancel')
   @ApiOperation({ summary: 'Cancel an order' })
   @ApiParam({ name: 'id', description: 'Order ID' })
@@ -0,0 +1,147 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/modules/auth/guards/jwt-auth.guard';
+import { GetUser } from '@/common/decorators/get-user.decorator';
+import { User } from '@/entities';
+import { RecurringOrderService } from '../services/recurring-order.service';
+import {
+  CreateRecurringOrderDto,
+  RecurringOrderResponseDto,
+  UpdateRecurringOrderDto,
+} from '../dto';
+
+@ApiTags('Recurring Orders')
+@Controller('recurring-orders')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class RecurringOrderController {
+  constructor(private readonly recurringOrderService: RecurringOrderService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Set up a recurring order from your cart with a vendor',
+    description:
+      'Each occurrence is placed as a scheduled order ahead of its slot and paid just in time from your wallet or a saved card.',
+  })
+  @ApiResponse({ status: 201, type: RecurringOrderResponseDto })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Empty cart, unsupported payment method, invalid timezone or no upcoming occurrence',
+  })
+  @ApiResponse({ status: 404, description: 'Vendor or address not found' })
+  async createRecurringOrder(
+    @GetUser() user: User,
+    @Body() dto: CreateRecurringOrderDto,
+  ): Promise<RecurringOrderResponseDto> {
+    return await this.recurringOrderService.createRecurringOrder(user.id, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List your recurring orders' })
+  @ApiResponse({ status: 200, type: [RecurringOrderResponseDto] })
+  async getRecurringOrders(
+    @GetUser() user: User,
+  ): Promise<RecurringOrderResponseDto[]> {
+    return await this.recurringOrderService.getRecurringOrders(user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a recurring order' })
+  @ApiParam({ name: 'id', description: 'Recurring order ID' })
+  @ApiResponse({ status: 200, type: RecurringOrderResponseDto })
+  @ApiResponse({ status: 404, description: 'Recurring order not found' })
+  async getRecurringOrder(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<RecurringOrderResponseDto> {
+    return await this.recurringOrderService.getRecurringOrder(user.id, id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Change the schedule, payment or delivery details',
+    description: 'Orders already placed for upcoming slots are not changed.',
+  })
+  @ApiParam({ name: 'id', description: 'Recurring order ID' })
+  @ApiResponse({ status: 200, type: RecurringOrderResponseDto })
+  @ApiResponse({ status: 404, description: 'Recurring order not found' })
+  async updateRecurringOrder(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateRecurringOrderDto,
+  ): Promise<RecurringOrderResponseDto> {
+    return await this.recurringOrderService.updateRecurringOrder(
+      user.id,
+      id,
+      dto,
+    );
+  }
+
+  @Post(':id/pause')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Stop placing orders until resumed' })
+  @ApiParam({ name: 'id', description: 'Recurring order ID' })
+  @ApiResponse({ status: 200, type: RecurringOrderResponseDto })
+  async pauseRecurringOrder(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<RecurringOrderResponseDto> {
+    return await this.recurringOrderService.pauseRecurringOrder(user.id, id);
+  }
+
+  @Post(':id/resume')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resume a paused recurring order' })
+  @ApiParam({ name: 'id', description: 'Recurring order ID' })
+  @ApiResponse({ status: 200, type: RecurringOrderResponseDto })
+  async resumeRecurringOrder(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<RecurringOrderResponseDto> {
+    return await this.recurringOrderService.resumeRecurringOrder(user.id, id);
+  }
+
+  @Post(':id/skip')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Skip the next occurrence' })
+  @ApiParam({ name: 'id', description: 'Recurring order ID' })
+  @ApiResponse({ status: 200, type: RecurringOrderResponseDto })
+  async skipNextOccurrence(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<RecurringOrderResponseDto> {
+    return await this.recurringOrderService.skipNextOccurrence(user.id, id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Cancel a recurring order' })
+  @ApiParam({ name: 'id', description: 'Recurring order ID' })
+  @ApiResponse({ status: 204, description: 'Recurring order cancelled' })
+  async cancelRecurringOrder(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.recurringOrderService.cancelRecurringOrder(user.id, id);
+  }
+}
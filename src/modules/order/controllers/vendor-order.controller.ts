@@ -1,6 +1,7 @@
 import {
   Controller,
   Get,
+  Post,
   Put,
   Param,
   Body,
@@ -18,6 +19,11 @@ import {
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from 'src/modules/auth/guards/jwt-auth.guard';
 import { OrderService } from '../services/order.service';
+import { RefundService } from '@/modules/payment/services/refund.service';
+import {
+  RefundResponseDto,
+  RefundUnavailableItemsDto,
+} from '@/modules/payment/dto/refund.dto';
 import {
   UpdateOrderStatusDto,
   OrderResponseDto,
@@ -32,7 +38,10 @@ import { AccessControl } from '@/common/guards';
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class VendorOrderController {
-  constructor(private readonly orderService: OrderService) {}
+  constructor(
+    private readonly orderService: OrderService,
+    private readonly refundService: RefundService,
+  ) {}
 
   @Get()
   @AccessControl({
@@ -190,4 +199,24 @@ export class VendorOrderController {
 
     return await this.orderService.cancelOrder(id, req.user.vendor_id, req.user.user_type, body.reason);
   }
-} 
\ No newline at end of file
+
+  @Post(':id/refund-items')
+  @AccessControl({
+    roles: [UserType.VENDOR],
+    requireVendorOwnership: 'id'
+  })
+  @ApiOperation({ summary: 'Refund order lines that are unavailable' })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @ApiResponse({ status: 201, description: 'Lines refunded to the customer', type: RefundResponseDto })
+  @ApiResponse({ status: 400, description: 'Bad request - Quantity not refundable or order already ready' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Order does not belong to vendor' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async refundUnavailableItems(
+    @GetUser() user: User,
+    @Param('id') id: string,
+    @Body() refundDto: RefundUnavailableItemsDto,
+  ): Promise<RefundResponseDto> {
+    return await this.refundService.refundUnavailableItems(id, user.id, refundDto);
+  }
+}
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsEnum, IsOptional, IsArray, ArrayNotEmpty, ArrayMinSize, IsNotEmpty } from 'class-validator';
-import { OrderType, PaymentMethod, Currency } from 'src/entities';
+import { IsString, IsEnum, IsOptional, IsArray, ArrayNotEmpty, ArrayMinSize, IsNotEmpty, IsDateString, IsBoolean, MaxLength, Matches } from 'class-validator';
+import { OrderType, PaymentMethod, Currency, ScheduledPaymentTiming } from 'src/entities';
 
 export class CreateOrderDto {
   @ApiProperty({ description: 'vendor id', type: String })
@@ -46,4 +46,35 @@ export class CreateOrderDto {
   @IsString()
   saved_card_id?: string;
 
+  @ApiPropertyOptional({ description: 'Token from POST /orders/quote; the order is only placed if the total still matches' })
+  @IsOptional()
+  @IsString()
+  quote_token?: string;
+
+  @ApiPropertyOptional({ description: 'Future slot to have the order ready for (ISO 8601); must fall inside the vendor\'s opening hours', example: '2025-01-20T12:30:00Z' })
+  @IsOptional()
+  @IsDateString()
+  scheduled_for?: string;
+
+  @ApiPropertyOptional({ description: 'For scheduled orders: pay now (UPFRONT) or shortly before the slot (JUST_IN_TIME, WALLET or CARD_SAVED only)', enum: ScheduledPaymentTiming, default: ScheduledPaymentTiming.UPFRONT })
+  @IsOptional()
+  @IsEnum(ScheduledPaymentTiming)
+  payment_timing?: ScheduledPaymentTiming;
+
+  @ApiPropertyOptional({ description: 'Delivery orders sent to someone else; a public tracking link is created to share with the recipient', default: false })
+  @IsOptional()
+  @IsBoolean()
+  is_gift?: boolean;
+
+  @ApiPropertyOptional({ description: 'Who the gift is for', example: 'Ada' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  gift_recipient_name?: string;
+
+  @ApiPropertyOptional({ description: 'High-value delivery orders only: 4 to 6 digits the courier must enter at drop-off', example: '4821' })
+  @IsOptional()
+  @Matches(/^\d{4,6}$/, { message: 'delivery_pin must be 4 to 6 digits' })
+  delivery_pin?: string;
+
 } 
\ No newline at end of file
@@ -0,0 +1,258 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import {
+  Currency,
+  GroupOrderPaymentMode,
+  GroupOrderStatus,
+  GroupParticipantStatus,
+  OrderType,
+  PaymentMethod,
+  SelectedMenuOption,
+} from 'src/entities';
+
+// Shares and group checkouts are paid without a hosted payment page
+const GROUP_PAYMENT_METHODS = [PaymentMethod.WALLET, PaymentMethod.CARD_SAVED];
+
+export class CreateGroupOrderDto {
+  @ApiProperty({ description: 'Vendor everyone orders from' })
+  @IsString()
+  @IsNotEmpty()
+  vendor_id: string;
+
+  @ApiProperty({ enum: OrderType })
+  @IsEnum(OrderType)
+  order_type: OrderType;
+
+  @ApiPropertyOptional({
+    description: "Host's address; required for DELIVERY orders",
+  })
+  @ValidateIf(dto => dto.order_type === OrderType.DELIVERY)
+  @IsString()
+  @IsNotEmpty()
+  delivery_address_id?: string;
+
+  @ApiProperty({
+    enum: GroupOrderPaymentMode,
+    description:
+      'HOST_PAYS: the host pays for everything. SPLIT: each participant pays their own share before the host checks out.',
+  })
+  @IsEnum(GroupOrderPaymentMode)
+  payment_mode: GroupOrderPaymentMode;
+
+  @ApiPropertyOptional({
+    description: 'Name shown to the other participants and the vendor',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  display_name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  delivery_instructions?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  vendor_notes?: string;
+}
+
+export class JoinGroupOrderDto {
+  @ApiPropertyOptional({
+    description: 'Name shown to the other participants and the vendor',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  display_name?: string;
+}
+
+export class AddGroupOrderItemDto {
+  @ApiProperty({ description: 'Menu item ID' })
+  @IsString()
+  menu_item_id: string;
+
+  @ApiProperty({ minimum: 1, maximum: 99, default: 1 })
+  @IsNumber()
+  @Min(1)
+  @Max(99)
+  @Transform(({ value }) => parseInt(value))
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'IDs of the chosen modifier options (size, add-ons, etc.)',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', { each: true })
+  option_ids?: string[];
+}
+
+export class UpdateGroupOrderItemDto {
+  @ApiProperty({ minimum: 1, maximum: 99 })
+  @IsNumber()
+  @Min(1)
+  @Max(99)
+  @Transform(({ value }) => parseInt(value))
+  quantity: number;
+}
+
+export class GroupOrderPaymentDto {
+  @ApiProperty({ enum: GROUP_PAYMENT_METHODS })
+  @IsIn(GROUP_PAYMENT_METHODS)
+  payment_method: PaymentMethod;
+
+  @ApiPropertyOptional({
+    description: 'Card to charge; your default card is used when empty',
+  })
+  @IsOptional()
+  @IsString()
+  saved_card_id?: string;
+}
+
+export class CancelGroupOrderDto {
+  @ApiPropertyOptional({ description: 'Reason for cancelling' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class GroupOrderItemResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  menu_item_id: string;
+
+  @ApiPropertyOptional()
+  menu_item_name?: string;
+
+  @ApiProperty()
+  quantity: number;
+
+  @ApiProperty()
+  unit_price: number;
+
+  @ApiProperty()
+  total_price: number;
+
+  @ApiProperty({ type: 'array' })
+  selected_options: SelectedMenuOption[];
+}
+
+export class GroupOrderParticipantResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  user_id: string;
+
+  @ApiProperty()
+  display_name: string;
+
+  @ApiProperty()
+  is_host: boolean;
+
+  @ApiProperty({ enum: GroupParticipantStatus })
+  status: GroupParticipantStatus;
+
+  @ApiProperty({ description: "Total of this participant's items" })
+  items_total: number;
+
+  @ApiProperty({
+    description:
+      'Items plus their part of the fees; set when the group is locked',
+  })
+  share_amount: number;
+
+  @ApiProperty()
+  paid_amount: number;
+
+  @ApiProperty()
+  refunded_amount: number;
+
+  @ApiPropertyOptional({ nullable: true })
+  paid_at: Date | null;
+
+  @ApiProperty({ type: [GroupOrderItemResponseDto] })
+  items: GroupOrderItemResponseDto[];
+}
+
+export class GroupOrderResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  host_id: string;
+
+  @ApiProperty()
+  vendor_id: string;
+
+  @ApiProperty({ description: 'Token for the share link' })
+  share_token: string;
+
+  @ApiProperty({ enum: GroupOrderStatus })
+  status: GroupOrderStatus;
+
+  @ApiProperty({ enum: GroupOrderPaymentMode })
+  payment_mode: GroupOrderPaymentMode;
+
+  @ApiProperty({ enum: OrderType })
+  order_type: OrderType;
+
+  @ApiPropertyOptional({ nullable: true })
+  delivery_address_id: string | null;
+
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
+  @ApiProperty()
+  subtotal: number;
+
+  @ApiProperty()
+  delivery_fee: number;
+
+  @ApiProperty()
+  service_fee: number;
+
+  @ApiProperty()
+  total_amount: number;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: 'Order placed for the group',
+  })
+  order_id: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  locked_at: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  placed_at: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  cancelled_at: Date | null;
+
+  @ApiProperty({ type: [GroupOrderParticipantResponseDto] })
+  participants: GroupOrderParticipantResponseDto[];
+
+  @ApiProperty()
+  created_at: Date;
+}
@@ -3,4 +3,7 @@ export * from './update-order-status.dto';
 export * from './order-response.dto';
 export * from './order-filter.dto';
 export * from './calculate-order-cost.dto'; 
-export * from './select-delivery-quote.dto'; 
\ No newline at end of file
+export * from './select-delivery-quote.dto'; export * from './order-timeline.dto';
+export * from './order-quote.dto';
+export * from './recurring-order.dto';
+export * from './group-order.dto';
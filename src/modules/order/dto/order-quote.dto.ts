@@ -0,0 +1,79 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Currency, OrderType, PaymentMethod } from 'src/entities';
+import { FeeBreakdownDto } from 'src/modules/fee/dto/fee-rule.dto';
+
+export class OrderQuoteItemDto {
+  @ApiProperty()
+  cart_item_id: string;
+
+  @ApiProperty()
+  menu_item_id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  quantity: number;
+
+  @ApiProperty()
+  unit_price: number;
+
+  @ApiProperty()
+  total_price: number;
+}
+
+export class OrderQuoteResponseDto {
+  @ApiPropertyOptional({
+    description:
+      'Pass as quote_token when creating the order to be charged exactly this total. Null when the cart has issues.',
+  })
+  quote_token: string | null;
+
+  @ApiPropertyOptional()
+  expires_at: Date | null;
+
+  @ApiProperty({ description: 'Whether the cart can be checked out' })
+  is_valid: boolean;
+
+  @ApiProperty({ type: [String], description: 'Problems to fix first' })
+  issues: string[];
+
+  @ApiProperty()
+  vendor_id: string;
+
+  @ApiProperty({ enum: OrderType })
+  order_type: OrderType;
+
+  @ApiProperty({ enum: PaymentMethod })
+  payment_method: PaymentMethod;
+
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
+  @ApiProperty({ type: [OrderQuoteItemDto] })
+  items: OrderQuoteItemDto[];
+
+  @ApiProperty()
+  subtotal: number;
+
+  @ApiPropertyOptional()
+  coupon_code?: string | null;
+
+  @ApiProperty()
+  discount_amount: number;
+
+  @ApiProperty()
+  delivery_fee: number;
+
+  @ApiProperty()
+  service_fee: number;
+
+  @ApiProperty({ description: 'Menu prices include tax; always 0 for now' })
+  tax_amount: number;
+
+  @ApiProperty()
+  total_amount: number;
+
+  @ApiProperty({ type: FeeBreakdownDto })
+  fee_breakdown: FeeBreakdownDto;
+}
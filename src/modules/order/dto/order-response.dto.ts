@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { OrderStatus, OrderType, PaymentMethod, PaymentStatus, Currency, PaymentTransactionStatus, Vendor } from 'src/entities';
+import { OrderStatus, OrderType, PaymentMethod, PaymentStatus, Currency, PaymentTransactionStatus, Vendor, SelectedMenuOption, ScheduledPaymentTiming } from 'src/entities';
 
 export class OrderItemResponseDto {
   @ApiProperty({ description: 'Order item ID' })
@@ -29,10 +29,30 @@ export class OrderItemResponseDto {
   @ApiPropertyOptional({ description: 'Customizations' })
   customizations?: Record<string, any>;
 
+  @ApiPropertyOptional({ description: 'Modifier options chosen for this item', type: 'array' })
+  selected_options?: SelectedMenuOption[];
+
+  @ApiPropertyOptional({ description: 'Group orders: participant the item belongs to', nullable: true })
+  group_participant_id?: string | null;
+
+  @ApiPropertyOptional({ description: 'Group orders: name of the participant the item belongs to', nullable: true })
+  group_participant_name?: string | null;
+
   @ApiProperty({ description: 'When created' })
   created_at: Date;
 }
 
+export class OrderParticipantItemsDto {
+  @ApiProperty({ description: 'Group order participant ID' })
+  participant_id: string;
+
+  @ApiProperty({ description: 'Participant name' })
+  participant_name: string;
+
+  @ApiProperty({ description: 'This participant\'s items', type: [OrderItemResponseDto] })
+  items: OrderItemResponseDto[];
+}
+
 export class OrderResponseDto {
   @ApiProperty({ description: 'Order ID' })
   id: string;
@@ -46,6 +66,9 @@ export class OrderResponseDto {
 
   tracking_url?:string
 
+  @ApiPropertyOptional({ description: 'Pass to GET /delivery/track/:trackingNumber once the delivery is booked' })
+  tracking_number?: string;
+
   @ApiProperty({ description: 'Service fee' })
   service_fee: number;
 
@@ -94,6 +117,12 @@ export class OrderResponseDto {
   @ApiProperty({ description: 'Delivery fee' })
   delivery_fee: number;
 
+  @ApiPropertyOptional({ description: 'Coupon discount applied to the order' })
+  discount_amount?: number;
+
+  @ApiPropertyOptional({ description: 'ID of the coupon applied to the order' })
+  coupon_id?: string;
+
   @ApiProperty({ description: 'Total amount' })
   total_amount: number;
 
@@ -133,9 +162,38 @@ export class OrderResponseDto {
   @ApiPropertyOptional({ description: 'Customer review' })
   customer_review?: string;
 
+  @ApiPropertyOptional({
+    description: 'Whether the customer can still review this order',
+  })
+  can_be_rated?: boolean;
+
   @ApiPropertyOptional({ description: 'Vendor notes' })
   vendor_notes?: string;
 
+  @ApiPropertyOptional({ description: 'Slot the order is scheduled for; null for as-soon-as-possible orders', nullable: true })
+  scheduled_for?: Date | null;
+
+  @ApiPropertyOptional({ description: 'When a scheduled order is paid', enum: ScheduledPaymentTiming, nullable: true })
+  payment_timing?: ScheduledPaymentTiming | null;
+
+  @ApiPropertyOptional({ description: 'Recurring order this order was placed from', nullable: true })
+  recurring_order_id?: string | null;
+
+  @ApiPropertyOptional({ description: 'Group order this order was placed for', nullable: true })
+  group_order_id?: string | null;
+
+  @ApiPropertyOptional({ description: 'Whether the order is a gift; its tracking link can be shared with the recipient' })
+  is_gift?: boolean;
+
+  @ApiPropertyOptional({ description: 'Who the gift is for', nullable: true })
+  gift_recipient_name?: string | null;
+
+  @ApiPropertyOptional({ description: 'Whether the courier must enter a delivery PIN at drop-off' })
+  delivery_pin_required?: boolean;
+
+  @ApiPropertyOptional({ description: 'Group orders: items grouped by participant', type: () => [OrderParticipantItemsDto] })
+  participants?: OrderParticipantItemsDto[];
+
   @ApiProperty({ description: 'When order was created' })
   created_at: Date;
 
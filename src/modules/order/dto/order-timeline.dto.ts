@@ -0,0 +1,55 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OrderStatus, OrderStatusActor } from 'src/entities';
+
+export class OrderTimelineEntryDto {
+  @ApiProperty({ description: 'History entry ID' })
+  id: string;
+
+  @ApiPropertyOptional({
+    description: 'Status before the change; null when the order was created',
+    enum: OrderStatus,
+    nullable: true,
+  })
+  from_status: OrderStatus | null;
+
+  @ApiProperty({ description: 'Status after the change', enum: OrderStatus })
+  to_status: OrderStatus;
+
+  @ApiProperty({ description: 'Who made the change', enum: OrderStatusActor })
+  actor_type: OrderStatusActor;
+
+  @ApiPropertyOptional({
+    description: 'User who made the change',
+    nullable: true,
+  })
+  actor_id: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Reason given for the change',
+    nullable: true,
+  })
+  reason: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Extra details recorded with the change',
+    nullable: true,
+  })
+  metadata: Record<string, any> | null;
+
+  @ApiProperty({ description: 'When the change happened' })
+  created_at: Date;
+}
+
+export class OrderTimelineResponseDto {
+  @ApiProperty({ description: 'Order ID' })
+  order_id: string;
+
+  @ApiProperty({ description: 'Order number' })
+  order_number: string;
+
+  @ApiProperty({ description: 'Current order status', enum: OrderStatus })
+  current_status: OrderStatus;
+
+  @ApiProperty({ type: [OrderTimelineEntryDto] })
+  timeline: OrderTimelineEntryDto[];
+}
@@ -0,0 +1,227 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import {
+  OrderType,
+  PaymentMethod,
+  RecurringOrderStatus,
+  SelectedMenuOption,
+} from 'src/entities';
+
+// Occurrences are paid just in time, so only methods that need no customer
+// interaction are allowed
+const RECURRING_PAYMENT_METHODS = [
+  PaymentMethod.WALLET,
+  PaymentMethod.CARD_SAVED,
+];
+
+export class CreateRecurringOrderDto {
+  @ApiProperty({
+    description:
+      'Vendor whose cart lines become the recurring order; the cart itself is left untouched',
+  })
+  @IsString()
+  @IsNotEmpty()
+  vendor_id: string;
+
+  @ApiProperty({ enum: OrderType })
+  @IsEnum(OrderType)
+  order_type: OrderType;
+
+  @ApiPropertyOptional({ description: 'Required for DELIVERY orders' })
+  @ValidateIf(dto => dto.order_type === OrderType.DELIVERY)
+  @IsString()
+  @IsNotEmpty()
+  delivery_address_id?: string;
+
+  @ApiProperty({ enum: RECURRING_PAYMENT_METHODS })
+  @IsIn(RECURRING_PAYMENT_METHODS)
+  payment_method: PaymentMethod;
+
+  @ApiPropertyOptional({
+    description: 'Card to charge; your default card is used when empty',
+  })
+  @IsOptional()
+  @IsString()
+  saved_card_id?: string;
+
+  @ApiProperty({
+    description: 'Days to order on, 0 = Sunday',
+    example: [1, 2, 3, 4, 5],
+    type: [Number],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(7)
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  days_of_week: number[];
+
+  @ApiProperty({ description: 'Time of day (HH:mm)', example: '12:30' })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, {
+    message: 'time_of_day must be in HH:mm format',
+  })
+  time_of_day: string;
+
+  @ApiPropertyOptional({
+    description: "IANA timezone for time_of_day; defaults to the vendor's",
+    example: 'Africa/Lagos',
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiPropertyOptional({ description: 'Stop placing orders after this date' })
+  @IsOptional()
+  @IsDateString()
+  ends_at?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  delivery_instructions?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  vendor_notes?: string;
+}
+
+export class UpdateRecurringOrderDto {
+  @ApiPropertyOptional({ type: [Number], description: '0 = Sunday' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(7)
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  days_of_week?: number[];
+
+  @ApiPropertyOptional({ example: '12:30' })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, {
+    message: 'time_of_day must be in HH:mm format',
+  })
+  time_of_day?: string;
+
+  @ApiPropertyOptional({ example: 'Africa/Lagos' })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiPropertyOptional({ enum: RECURRING_PAYMENT_METHODS })
+  @IsOptional()
+  @IsIn(RECURRING_PAYMENT_METHODS)
+  payment_method?: PaymentMethod;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  saved_card_id?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  delivery_address_id?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  ends_at?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  delivery_instructions?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  vendor_notes?: string;
+}
+
+export class RecurringOrderItemDto {
+  @ApiProperty()
+  menu_item_id: string;
+
+  @ApiProperty()
+  quantity: number;
+
+  @ApiProperty({ type: 'array' })
+  selected_options: SelectedMenuOption[];
+}
+
+export class RecurringOrderResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  vendor_id: string;
+
+  @ApiProperty({ enum: OrderType })
+  order_type: OrderType;
+
+  @ApiPropertyOptional({ nullable: true })
+  delivery_address_id: string | null;
+
+  @ApiProperty({ enum: PaymentMethod })
+  payment_method: PaymentMethod;
+
+  @ApiPropertyOptional({ nullable: true })
+  saved_card_id: string | null;
+
+  @ApiProperty({ type: [RecurringOrderItemDto] })
+  items: RecurringOrderItemDto[];
+
+  @ApiProperty({ type: [Number] })
+  days_of_week: number[];
+
+  @ApiProperty()
+  time_of_day: string;
+
+  @ApiProperty()
+  timezone: string;
+
+  @ApiProperty({ enum: RecurringOrderStatus })
+  status: RecurringOrderStatus;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: 'Next slot an order will be placed for',
+  })
+  next_occurrence_at: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  ends_at: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  last_order_id: string | null;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: 'Why the last occurrence could not be placed',
+  })
+  last_failure_reason: string | null;
+
+  @ApiProperty()
+  created_at: Date;
+}
@@ -0,0 +1,145 @@
+import {
+  Order,
+  OrderStatus,
+  OrderStatusActor,
+  OrderType,
+  PaymentStatus,
+  RecurringOrder,
+} from 'src/entities';
+import type { OrderTransitionContext } from '../services/order-state-machine.service';
+
+export const ORDER_EVENTS = {
+  CREATED: 'order.created',
+  STATUS_CHANGED: 'order.status_changed',
+  CANCELLED: 'order.cancelled',
+  RELEASED_TO_VENDOR: 'order.released_to_vendor',
+  RECURRING_PAUSED: 'order.recurring_paused',
+} as const;
+
+/**
+ * Fields every order event carries. Listeners load anything else they need,
+ * so payloads stay small and never hold stale relations.
+ */
+export abstract class OrderEvent {
+  readonly order_id: string;
+  readonly order_number: string;
+  readonly customer_id: string;
+  readonly vendor_id: string;
+  readonly order_type: OrderType;
+  readonly scheduled_for: Date | null;
+  readonly occurred_at: Date;
+
+  protected constructor(order: Order) {
+    this.order_id = order.id;
+    this.order_number = order.order_number;
+    this.customer_id = order.customer_id;
+    this.vendor_id = order.vendor_id;
+    this.order_type = order.order_type;
+    this.scheduled_for = order.scheduled_for ?? null;
+    this.occurred_at = new Date();
+  }
+}
+
+/**
+ * Published once checkout has created the order. Orders still waiting on a
+ * hosted payment page arrive with a PENDING payment status and are followed
+ * by payment.succeeded.
+ */
+export class OrderCreatedEvent extends OrderEvent {
+  readonly payment_status: PaymentStatus;
+  readonly total_amount: number;
+  readonly currency: string;
+
+  constructor(order: Order) {
+    super(order);
+    this.payment_status = order.payment_status;
+    this.total_amount = Number(order.total_amount);
+    this.currency = order.currency;
+  }
+}
+
+/**
+ * Published after every committed status change, whoever made it
+ */
+export class OrderStatusChangedEvent extends OrderEvent {
+  readonly previous_status: OrderStatus;
+  readonly new_status: OrderStatus;
+  readonly actor: OrderStatusActor;
+  readonly actor_id: string | null;
+  readonly reason: string | null;
+  readonly metadata: Record<string, any>;
+
+  constructor(
+    order: Order,
+    previousStatus: OrderStatus,
+    newStatus: OrderStatus,
+    context: OrderTransitionContext,
+  ) {
+    super(order);
+    this.previous_status = previousStatus;
+    this.new_status = newStatus;
+    this.actor = context.actor;
+    this.actor_id = context.actor_id ?? null;
+    this.reason = context.reason ?? null;
+    this.metadata = context.metadata ?? {};
+  }
+}
+
+/**
+ * Published alongside order.status_changed when an order is cancelled
+ */
+export class OrderCancelledEvent extends OrderEvent {
+  readonly previous_status: OrderStatus;
+  readonly actor: OrderStatusActor;
+  readonly actor_id: string | null;
+  readonly reason: string | null;
+  readonly payment_status: PaymentStatus;
+
+  constructor(
+    order: Order,
+    previousStatus: OrderStatus,
+    context: OrderTransitionContext,
+  ) {
+    super(order);
+    this.previous_status = previousStatus;
+    this.actor = context.actor;
+    this.actor_id = context.actor_id ?? null;
+    this.reason = context.reason ?? null;
+    this.payment_status = order.payment_status;
+  }
+}
+
+/**
+ * Published when a scheduled order enters the vendor's queue, the configured
+ * lead time before its slot
+ */
+export class OrderReleasedToVendorEvent extends OrderEvent {
+  readonly total_amount: number;
+  readonly currency: string;
+
+  constructor(order: Order) {
+    super(order);
+    this.total_amount = Number(order.total_amount);
+    this.currency = order.currency;
+  }
+}
+
+/**
+ * Published when a recurring order is paused after too many occurrences in a
+ * row could not be placed
+ */
+export class RecurringOrderPausedEvent {
+  readonly recurring_order_id: string;
+  readonly customer_id: string;
+  readonly vendor_id: string;
+  readonly reason: string | null;
+  readonly occurred_at: Date;
+
+  constructor(recurring: RecurringOrder) {
+    this.recurring_order_id = recurring.id;
+    this.customer_id = recurring.customer_id;
+    this.vendor_id = recurring.vendor_id;
+    this.reason = recurring.last_failure_reason ?? null;
+    this.occurred_at = new Date();
+  }
+}
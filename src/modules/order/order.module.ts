@@ -1,6 +1,6 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { Order, OrderItem, MenuItem, Vendor, User, Address } from 'src/entities';
+import { Order, OrderItem, MenuItem, Vendor, User, Address, OrderStatusHistory, RecurringOrder, GroupOrder, GroupOrderParticipant, GroupOrderItem } from 'src/entities';
 import { DeliveryQuote } from 'src/entities/delivery-quote.entity';
 import { CartModule } from 'src/modules/cart/cart.module';
 import { MenuModule } from 'src/modules/menu/menu.module';
@@ -10,39 +10,58 @@ import { PaymentModule } from 'src/modules/payment/payment.module';
 import { DeliveryModule } from 'src/modules/delivery/delivery.module';
 import { VendorModule } from 'src/modules/vendor/vendor.module';
 import { NotificationModule } from 'src/modules/notification/notification.module';
+import { CouponModule } from 'src/modules/coupon/coupon.module';
+import { FeeModule } from 'src/modules/fee/fee.module';
 
 // Controllers
 import { OrderController } from './controllers/order.controller';
 import { VendorOrderController } from './controllers/vendor-order.controller';
+import { RecurringOrderController } from './controllers/recurring-order.controller';
+import { GroupOrderController } from './controllers/group-order.controller';
 
 // Services
 import { OrderService } from './services/order.service';
+import { OrderStateMachineService } from './services/order-state-machine.service';
+import { OrderQuoteService } from './services/order-quote.service';
+import { ScheduledOrderService } from './services/scheduled-order.service';
+import { RecurringOrderService } from './services/recurring-order.service';
+import { GroupOrderService } from './services/group-order.service';
 
 // Repositories
 import { OrderRepository } from './repositories/order.repository';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Order, OrderItem, MenuItem, Vendor, User, Address, DeliveryQuote]),
+    TypeOrmModule.forFeature([Order, OrderItem, MenuItem, Vendor, User, Address, DeliveryQuote, OrderStatusHistory, RecurringOrder, GroupOrder, GroupOrderParticipant, GroupOrderItem]),
     forwardRef(() => CartModule),
     MenuModule,
     UserModule,
     AuthModule, // Import AuthModule to get access to JWTService and JwtAuthGuard
     forwardRef(() => PaymentModule), // Import PaymentModule to get access to PaymentService
-    DeliveryModule, // Import DeliveryModule to get access to DeliveryService
+    forwardRef(() => DeliveryModule), // Import DeliveryModule to get access to DeliveryService
     VendorModule, // Import VendorModule to get access to VendorService
     NotificationModule, // Import NotificationModule to get access to NotificationSSEService
+    CouponModule, // Import CouponModule to re-validate and consume applied cart coupons
+    FeeModule, // Import FeeModule to price service fee and commission at checkout
   ],
   controllers: [
     OrderController,
     VendorOrderController,
+    RecurringOrderController,
+    GroupOrderController,
   ],
   providers: [
     OrderService,
+    OrderStateMachineService,
+    OrderQuoteService,
+    ScheduledOrderService,
+    RecurringOrderService,
+    GroupOrderService,
     OrderRepository,
   ],
   exports: [
     OrderService,
+    OrderStateMachineService,
     OrderRepository,
   ],
 })
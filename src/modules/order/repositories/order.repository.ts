@@ -1,9 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { Repository, SelectQueryBuilder } from 'typeorm';
+import { EntityManager, Repository, SelectQueryBuilder } from 'typeorm';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Order, OrderItem, MenuItem, Vendor, User, Address, OrderStatus } from 'src/entities';
+import { Order, OrderItem, MenuItem, Vendor, User, Address, OrderStatus, OrderType, PaymentStatus, ScheduledPaymentTiming } from 'src/entities';
 import { OrderFilterDto } from '../dto';
 
+// Immediate orders, and scheduled orders the vendor has been shown
+const RELEASED_TO_VENDOR_CONDITION = '(order.scheduled_for IS NULL OR order.released_to_vendor_at IS NOT NULL)';
+
 @Injectable()
 export class OrderRepository {
   private readonly logger = new Logger(OrderRepository.name);
@@ -17,14 +20,20 @@ export class OrderRepository {
     private readonly menuItemRepository: Repository<MenuItem>,
   ) { }
 
-  async create(order: Partial<Order>): Promise<Order> {
-    const newOrder = this.orderRepository.create(order);
-    return await this.orderRepository.save(newOrder);
+  async transaction<T>(work: (manager: EntityManager) => Promise<T>): Promise<T> {
+    return await this.orderRepository.manager.transaction(work);
+  }
+
+  async create(order: Partial<Order>, manager?: EntityManager): Promise<Order> {
+    const repo = manager ? manager.getRepository(Order) : this.orderRepository;
+    const newOrder = repo.create(order);
+    return await repo.save(newOrder);
   }
 
-  async createOrderItem(orderItem: Partial<OrderItem>): Promise<OrderItem> {
-    const newOrderItem = this.orderItemRepository.create(orderItem);
-    return await this.orderItemRepository.save(newOrderItem);
+  async createOrderItem(orderItem: Partial<OrderItem>, manager?: EntityManager): Promise<OrderItem> {
+    const repo = manager ? manager.getRepository(OrderItem) : this.orderItemRepository;
+    const newOrderItem = repo.create(orderItem);
+    return await repo.save(newOrderItem);
   }
 
   async findById(id: string): Promise<Order | null> {
@@ -171,7 +180,7 @@ export class OrderRepository {
     };
   }
 
-  async getOrdersByStatus(status: OrderStatus, vendorId?: string): Promise<Order[]> {
+  async getOrdersByStatus(status: OrderStatus, vendorId?: string, options?: { releasedOnly?: boolean }): Promise<Order[]> {
     const queryBuilder = this.orderRepository
       .createQueryBuilder('order')
       .leftJoinAndSelect('order.customer', 'customer')
@@ -184,13 +193,18 @@ export class OrderRepository {
       queryBuilder.andWhere('order.vendor_id = :vendorId', { vendorId });
     }
 
+    if (options?.releasedOnly) {
+      queryBuilder.andWhere(RELEASED_TO_VENDOR_CONDITION);
+    }
+
     return await queryBuilder
       .orderBy('order.created_at', 'ASC')
       .getMany();
   }
 
   async getPendingOrders(vendorId?: string): Promise<Order[]> {
-    return await this.getOrdersByStatus(OrderStatus.NEW, vendorId);
+    // Scheduled orders stay hidden until they are released at the lead time
+    return await this.getOrdersByStatus(OrderStatus.NEW, vendorId, { releasedOnly: true });
   }
 
   async getActiveOrders(vendorId?: string): Promise<Order[]> {
@@ -202,7 +216,8 @@ export class OrderRepository {
       .leftJoinAndSelect('order_items.menu_item', 'menu_item')
       .where('order.order_status IN (:...statuses)', {
         statuses: ['NEW', 'CONFIRMED', 'PREPARING', 'READY', 'OUT_FOR_DELIVERY'],
-      });
+      })
+      .andWhere(RELEASED_TO_VENDOR_CONDITION);
 
     if (vendorId) {
       queryBuilder.andWhere('order.vendor_id = :vendorId', { vendorId });
@@ -235,6 +250,74 @@ export class OrderRepository {
       .getMany();
   }
 
+  async findScheduledOrdersDueForCharge(before: Date): Promise<Order[]> {
+    return await this.orderRepository
+      .createQueryBuilder('order')
+      .where('order.payment_timing = :timing', { timing: ScheduledPaymentTiming.JUST_IN_TIME })
+      .andWhere('order.payment_status = :paymentStatus', { paymentStatus: PaymentStatus.PENDING })
+      .andWhere('order.order_status = :status', { status: OrderStatus.NEW })
+      .andWhere('order.scheduled_for <= :before', { before })
+      // A charge already attempted (possibly awaiting 3-D Secure or a
+      // webhook) is settled by the webhook or at the slot time
+      .andWhere('NOT EXISTS (SELECT 1 FROM payments payment WHERE payment.order_id = order.id)')
+      .orderBy('order.scheduled_for', 'ASC')
+      .getMany();
+  }
+
+  async findUnpaidScheduledOrdersPastSlot(now: Date): Promise<Order[]> {
+    return await this.orderRepository
+      .createQueryBuilder('order')
+      .where('order.scheduled_for IS NOT NULL')
+      .andWhere('order.payment_status = :paymentStatus', { paymentStatus: PaymentStatus.PENDING })
+      .andWhere('order.order_status = :status', { status: OrderStatus.NEW })
+      .andWhere('order.scheduled_for <= :now', { now })
+      .getMany();
+  }
+
+  async findScheduledOrdersDueForRelease(before: Date): Promise<Order[]> {
+    return await this.orderRepository
+      .createQueryBuilder('order')
+      .leftJoinAndSelect('order.customer', 'customer')
+      .leftJoinAndSelect('order.vendor', 'vendor')
+      .leftJoinAndSelect('vendor.user', 'vendor_user')
+      .leftJoinAndSelect('order.order_items', 'order_items')
+      .leftJoinAndSelect('order_items.menu_item', 'menu_item')
+      .where('order.scheduled_for IS NOT NULL')
+      .andWhere('order.released_to_vendor_at IS NULL')
+      .andWhere('order.payment_status = :paymentStatus', { paymentStatus: PaymentStatus.PAID })
+      .andWhere('order.order_status = :status', { status: OrderStatus.NEW })
+      .andWhere('order.scheduled_for <= :before', { before })
+      .orderBy('order.scheduled_for', 'ASC')
+      .getMany();
+  }
+
+  async findScheduledDeliveriesDueForRequote(before: Date): Promise<Order[]> {
+    return await this.orderRepository
+      .createQueryBuilder('order')
+      .where('order.scheduled_for IS NOT NULL')
+      .andWhere('order.order_type = :orderType', { orderType: OrderType.DELIVERY })
+      .andWhere('order.delivery_requoted_at IS NULL')
+      .andWhere('order.order_status IN (:...statuses)', {
+        statuses: [OrderStatus.NEW, OrderStatus.CONFIRMED, OrderStatus.PREPARING],
+      })
+      .andWhere('order.scheduled_for <= :before', { before })
+      .getMany();
+  }
+
+  /**
+   * Returns false when another worker already released the order
+   */
+  async markReleasedToVendor(id: string): Promise<boolean> {
+    const result = await this.orderRepository
+      .createQueryBuilder()
+      .update(Order)
+      .set({ released_to_vendor_at: () => 'CURRENT_TIMESTAMP' })
+      .where('id = :id', { id })
+      .andWhere('released_to_vendor_at IS NULL')
+      .execute();
+    return (result.affected ?? 0) > 0;
+  }
+
   async generateOrderNumber(): Promise<string> {
     // Generate UUID-based order number - simple and no race conditions!
     const { v4: uuidv4 } = await import('uuid');
@@ -0,0 +1,1160 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import {
+  CartItem,
+  GroupOrder,
+  GroupOrderItem,
+  GroupOrderParticipant,
+  GroupOrderStatus,
+  GroupParticipantStatus,
+  NotificationPriority,
+  NotificationType,
+  OrderStatus,
+  OrderStatusActor,
+  OrderType,
+  PaymentMethod,
+  PaymentStatus,
+  RefundInitiator,
+  User,
+} from 'src/entities';
+import { MenuItemRepository } from 'src/modules/menu/repositories/menu-item.repository';
+import { MenuModifierService } from 'src/modules/menu/services/menu-modifier.service';
+import { VendorService } from 'src/modules/vendor/services/vendor.service';
+import { AddressService } from 'src/modules/user/services/address.service';
+import { DeliveryService } from 'src/modules/delivery/services/delivery.service';
+import { FeeCalculatorService } from 'src/modules/fee/services/fee-calculator.service';
+import { PaymentService } from 'src/modules/payment/services/payment.service';
+import { RefundService } from 'src/modules/payment/services/refund.service';
+import { WalletTransferService } from 'src/modules/payment/services/wallet-transfer.service';
+import { InAppNotificationService } from 'src/modules/notification/services/in-app-notification.service';
+import { getCurrencyForCountry } from 'src/utils/currency-mapper';
+import {
+  AddGroupOrderItemDto,
+  CreateGroupOrderDto,
+  GroupOrderItemResponseDto,
+  GroupOrderParticipantResponseDto,
+  GroupOrderPaymentDto,
+  GroupOrderResponseDto,
+  JoinGroupOrderDto,
+  UpdateGroupOrderItemDto,
+} from '../dto';
+import { OrderRepository } from '../repositories/order.repository';
+import { OrderStateMachineService } from './order-state-machine.service';
+import { OrderLine, OrderService } from './order.service';
+
+const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+/**
+ * Group orders: one person opens an order at a vendor, shares the link and
+ * everyone adds their own items. Locking fixes prices, fees and each
+ * participant's share; checkout places a single Order for the vendor with
+ * items tagged by participant.
+ *
+ * In SPLIT mode participants pay their share into group order escrow while
+ * the group is locked, out of everyone's reach. Checkout pays the order
+ * from escrow and the host's wallet together; shares returned before
+ * checkout come straight back out of escrow. Refunds after checkout are
+ * split by RefundService, so each participant's part goes straight back to
+ * them and the rest to the host.
+ */
+@Injectable()
+export class GroupOrderService {
+  private readonly logger = new Logger(GroupOrderService.name);
+
+  constructor(
+    @InjectRepository(GroupOrder)
+    private readonly groupOrderRepository: Repository<GroupOrder>,
+    @InjectRepository(GroupOrderParticipant)
+    private readonly participantRepository: Repository<GroupOrderParticipant>,
+    @InjectRepository(GroupOrderItem)
+    private readonly groupItemRepository: Repository<GroupOrderItem>,
+    private readonly orderService: OrderService,
+    private readonly orderRepository: OrderRepository,
+    private readonly orderStateMachine: OrderStateMachineService,
+    private readonly menuItemRepository: MenuItemRepository,
+    private readonly menuModifierService: MenuModifierService,
+    private readonly vendorService: VendorService,
+    private readonly addressService: AddressService,
+    private readonly deliveryService: DeliveryService,
+    private readonly feeCalculator: FeeCalculatorService,
+    @Inject(forwardRef(() => PaymentService))
+    private readonly paymentService: PaymentService,
+    @Inject(forwardRef(() => RefundService))
+    private readonly refundService: RefundService,
+    @Inject(forwardRef(() => WalletTransferService))
+    private readonly walletTransferService: WalletTransferService,
+    private readonly inAppNotificationService: InAppNotificationService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async createGroupOrder(
+    host: User,
+    dto: CreateGroupOrderDto,
+  ): Promise<GroupOrderResponseDto> {
+    const vendor = await this.vendorService.getVendorById(dto.vendor_id);
+    if (!vendor || !vendor.is_active) {
+      throw new NotFoundException('Vendor not found');
+    }
+    if (dto.order_type === OrderType.DELIVERY) {
+      await this.addressService.getAddressById(
+        host.id,
+        dto.delivery_address_id,
+      );
+    }
+
+    const group = await this.groupOrderRepository.manager.transaction(
+      async em => {
+        const created = await em.save(
+          em.create(GroupOrder, {
+            host_id: host.id,
+            vendor_id: vendor.id,
+            share_token: randomBytes(12).toString('hex'),
+            status: GroupOrderStatus.OPEN,
+            payment_mode: dto.payment_mode,
+            order_type: dto.order_type,
+            delivery_address_id:
+              dto.order_type === OrderType.DELIVERY
+                ? dto.delivery_address_id
+                : null,
+            currency: getCurrencyForCountry(vendor.address?.country),
+            delivery_instructions: dto.delivery_instructions || null,
+            vendor_notes: dto.vendor_notes || null,
+          }),
+        );
+        await em.save(
+          em.create(GroupOrderParticipant, {
+            group_order_id: created.id,
+            user_id: host.id,
+            is_host: true,
+            display_name: dto.display_name || host.full_name,
+            status: GroupParticipantStatus.ACTIVE,
+          }),
+        );
+        return created;
+      },
+    );
+
+    this.logger.log(
+      `Group order ${group.id} opened by ${host.id} at vendor ${vendor.id}`,
+    );
+    return this.mapToResponse(await this.loadGroup(group.id));
+  }
+
+  /**
+   * Join through a share link. Someone who left can come back while the
+   * group is still open.
+   */
+  async joinGroupOrder(
+    user: User,
+    shareToken: string,
+    dto: JoinGroupOrderDto,
+  ): Promise<GroupOrderResponseDto> {
+    const group = await this.groupOrderRepository.findOne({
+      where: { share_token: shareToken },
+      relations: ['participants'],
+    });
+    if (!group) {
+      throw new NotFoundException('Group order not found');
+    }
+    if (group.status !== GroupOrderStatus.OPEN) {
+      throw new BadRequestException(
+        'This group order is no longer taking participants',
+      );
+    }
+
+    const participants = group.participants as GroupOrderParticipant[];
+    const existing = participants.find(p => p.user_id === user.id);
+    if (existing?.is_active) {
+      return this.mapToResponse(await this.loadGroup(group.id));
+    }
+
+    const activeCount = participants.filter(p => p.is_active).length;
+    if (activeCount >= this.maxParticipants()) {
+      throw new BadRequestException('This group order is full');
+    }
+
+    if (existing) {
+      existing.status = GroupParticipantStatus.ACTIVE;
+      existing.display_name = dto.display_name || existing.display_name;
+      await this.participantRepository.save(existing);
+    } else {
+      await this.participantRepository.save(
+        this.participantRepository.create({
+          group_order_id: group.id,
+          user_id: user.id,
+          is_host: false,
+          display_name: dto.display_name || user.full_name,
+          status: GroupParticipantStatus.ACTIVE,
+        }),
+      );
+    }
+
+    this.logger.log(`User ${user.id} joined group order ${group.id}`);
+    return this.mapToResponse(await this.loadGroup(group.id));
+  }
+
+  async getGroupOrders(userId: string): Promise<GroupOrderResponseDto[]> {
+    const memberships = await this.participantRepository.find({
+      where: { user_id: userId },
+      select: ['group_order_id'],
+    });
+    if (memberships.length === 0) {
+      return [];
+    }
+
+    const groups = await this.groupOrderRepository.find({
+      where: { id: In(memberships.map(m => m.group_order_id)) },
+      relations: ['participants', 'items', 'items.menu_item'],
+      order: { created_at: 'DESC' },
+    });
+    return groups.map(group => this.mapToResponse(group));
+  }
+
+  async getGroupOrder(
+    userId: string,
+    groupOrderId: string,
+  ): Promise<GroupOrderResponseDto> {
+    const group = await this.loadGroup(groupOrderId);
+    this.findParticipant(group, userId);
+    return this.mapToResponse(group);
+  }
+
+  async addItem(
+    userId: string,
+    groupOrderId: string,
+    dto: AddGroupOrderItemDto,
+  ): Promise<GroupOrderResponseDto> {
+    const group = await this.loadGroup(groupOrderId);
+    const participant = this.findActiveParticipant(group, userId);
+    this.assertOpen(group);
+
+    const menuItem = await this.menuItemRepository.findById(dto.menu_item_id);
+    if (!menuItem || menuItem.vendor_id !== group.vendor_id) {
+      throw new NotFoundException(
+        `Menu item with ID ${dto.menu_item_id} not found at this vendor`,
+      );
+    }
+    if (!menuItem.is_available) {
+      throw new BadRequestException(
+        `Menu item "${menuItem.name}" is not available for ordering`,
+      );
+    }
+
+    const selection = await this.menuModifierService.resolveSelection(
+      menuItem,
+      dto.option_ids,
+    );
+    await this.groupItemRepository.save(
+      this.groupItemRepository.create({
+        group_order_id: group.id,
+        participant_id: participant.id,
+        menu_item_id: menuItem.id,
+        quantity: dto.quantity,
+        unit_price: selection.unit_price,
+        total_price: roundMoney(selection.unit_price * dto.quantity),
+        selected_options: selection.selected_options,
+      }),
+    );
+
+    return this.mapToResponse(await this.loadGroup(group.id));
+  }
+
+  async updateItem(
+    userId: string,
+    groupOrderId: string,
+    itemId: string,
+    dto: UpdateGroupOrderItemDto,
+  ): Promise<GroupOrderResponseDto> {
+    const group = await this.loadGroup(groupOrderId);
+    const participant = this.findActiveParticipant(group, userId);
+    this.assertOpen(group);
+
+    const item = this.findOwnItem(group, participant, itemId);
+    item.quantity = dto.quantity;
+    item.total_price = roundMoney(Number(item.unit_price) * dto.quantity);
+    await this.groupItemRepository.save(item);
+
+    return this.mapToResponse(await this.loadGroup(group.id));
+  }
+
+  async removeItem(
+    userId: string,
+    groupOrderId: string,
+    itemId: string,
+  ): Promise<GroupOrderResponseDto> {
+    const group = await this.loadGroup(groupOrderId);
+    const participant = this.findActiveParticipant(group, userId);
+    this.assertOpen(group);
+
+    await this.groupItemRepository.delete(
+      this.findOwnItem(group, participant, itemId).id,
+    );
+    return this.mapToResponse(await this.loadGroup(group.id));
+  }
+
+  /**
+   * Stop changes and fix what everyone owes. Items are repriced from the
+   * menu, fees and delivery are quoted for the whole order and split over
+   * participants in proportion to their items.
+   */
+  async lockGroupOrder(
+    hostId: string,
+    groupOrderId: string,
+  ): Promise<GroupOrderResponseDto> {
+    const group = await this.loadGroup(groupOrderId);
+    this.assertHost(group, hostId);
+    this.assertOpen(group);
+
+    const items = this.activeItems(group);
+    if (items.length === 0) {
+      throw new BadRequestException('Nobody has added any items yet');
+    }
+
+    const vendor = await this.vendorService.getVendorById(group.vendor_id);
+    if (!vendor || !vendor.is_active) {
+      throw new BadRequestException('Vendor is no longer available');
+    }
+
+    const lines = await this.orderService.priceMenuSelections(
+      group.vendor_id,
+      items,
+    );
+    items.forEach((item, index) => {
+      item.unit_price = lines[index].unit_price;
+      item.total_price = lines[index].total_price;
+    });
+    const subtotal = roundMoney(
+      lines.reduce((sum, line) => sum + Number(line.total_price), 0),
+    );
+
+    const feeBreakdown = await this.feeCalculator.calculate({
+      vendor_id: vendor.id,
+      order_type: group.order_type,
+      country: vendor.address?.country || null,
+      lines: lines.map(line => ({
+        category_id: line.menu_item?.category_id,
+        amount: Number(line.total_price),
+      })),
+    });
+
+    let deliveryFee = 0;
+    group.delivery_quote_id = null;
+    if (group.order_type === OrderType.DELIVERY) {
+      const deliveryQuote = await this.deliveryService.quoteDeliveryForAddress(
+        vendor,
+        group.host_id,
+        group.delivery_address_id,
+        lines,
+        subtotal,
+      );
+      group.delivery_quote_id = deliveryQuote.id;
+      deliveryFee = Number(deliveryQuote.fee);
+    }
+
+    const serviceFee = feeBreakdown.service_fee.amount;
+    group.subtotal = subtotal;
+    group.delivery_fee = deliveryFee;
+    group.service_fee = serviceFee;
+    group.fee_breakdown = feeBreakdown;
+    group.total_amount = roundMoney(subtotal + deliveryFee + serviceFee);
+    group.status = GroupOrderStatus.LOCKED;
+    group.locked_at = new Date();
+
+    const participants = this.activeParticipants(group);
+    this.assignShares(group, participants, items);
+
+    await this.groupOrderRepository.manager.transaction(async em => {
+      await em.save(GroupOrderItem, items);
+      await em.save(GroupOrderParticipant, participants);
+      await em.update(
+        GroupOrder,
+        { id: group.id },
+        {
+          subtotal: group.subtotal,
+          delivery_fee: group.delivery_fee,
+          service_fee: group.service_fee,
+          fee_breakdown: group.fee_breakdown,
+          total_amount: group.total_amount,
+          delivery_quote_id: group.delivery_quote_id,
+          status: group.status,
+          locked_at: group.locked_at,
+        },
+      );
+    });
+
+    if (group.is_split) {
+      for (const participant of participants) {
+        if (participant.is_host || Number(participant.share_amount) <= 0) {
+          continue;
+        }
+        await this.notify(
+          participant.user_id,
+          'Time to pay your share',
+          `Your share of the group order is ${group.currency} ${Number(
+            participant.share_amount,
+          ).toFixed(2)}.`,
+          group,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Group order ${group.id} locked at ${group.currency} ${group.total_amount}`,
+    );
+    return this.mapToResponse(await this.loadGroup(group.id));
+  }
+
+  /**
+   * Reopen a locked group for changes. Shares already paid go back to the
+   * participants, since the totals will change.
+   */
+  async unlockGroupOrder(
+    hostId: string,
+    groupOrderId: string,
+  ): Promise<GroupOrderResponseDto> {
+    const group = await this.loadGroup(groupOrderId);
+    this.assertHost(group, hostId);
+    if (group.status !== GroupOrderStatus.LOCKED) {
+      throw new BadRequestException('Group order is not locked');
+    }
+
+    await this.returnPaidShares(group, 'Group order reopened');
+    await this.participantRepository.update(
+      { group_order_id: group.id },
+      {
+        share_amount: 0,
+        paid_amount: 0,
+        refunded_amount: 0,
+        payment_method: null,
+        payment_reference: null,
+        paid_at: null,
+      },
+    );
+    await this.groupOrderRepository.update(group.id, {
+      status: GroupOrderStatus.OPEN,
+      locked_at: null,
+    });
+
+    return this.mapToResponse(await this.loadGroup(group.id));
+  }
+
+  /**
+   * Pay your share of a locked SPLIT group into escrow until checkout. A
+   * saved card tops up your wallet first, so both methods settle the same
+   * way.
+   */
+  async payShare(
+    user: User,
+    groupOrderId: string,
+    dto: GroupOrderPaymentDto,
+  ): Promise<GroupOrderResponseDto> {
+    const group = await this.loadGroup(groupOrderId);
+    const participant = this.findActiveParticipant(group, user.id);
+    if (!group.is_split) {
+      throw new BadRequestException('The host pays for this group order');
+    }
+    if (group.status !== GroupOrderStatus.LOCKED) {
+      throw new BadRequestException(
+        'Shares can only be paid once the host has locked the group order',
+      );
+    }
+    if (participant.is_host) {
+      throw new BadRequestException('The host pays their share at checkout');
+    }
+
+    const shareAmount = Number(participant.share_amount);
+    if (shareAmount <= 0) {
+      throw new BadRequestException('You have nothing to pay for');
+    }
+
+    // Claim the payment so a double submit can't pay twice
+    const reference = `GRP-${randomBytes(6).toString('hex').toUpperCase()}`;
+    const claim = await this.participantRepository.update(
+      { id: participant.id, paid_at: IsNull(), payment_reference: IsNull() },
+      { payment_reference: reference },
+    );
+    if (!claim.affected) {
+      throw new BadRequestException('Your share is already paid');
+    }
+
+    try {
+      if (dto.payment_method === PaymentMethod.CARD_SAVED) {
+        await this.paymentService.fundWallet(user, {
+          amount: shareAmount,
+          payment_method: PaymentMethod.CARD_SAVED,
+          saved_card_id: dto.saved_card_id,
+        });
+      }
+
+      await this.walletTransferService.holdFunds({
+        user_id: user.id,
+        amount: shareAmount,
+        currency: group.currency,
+        reference,
+        description: 'Share of group order, held until checkout',
+        metadata: { group_order_id: group.id, participant_id: participant.id },
+      });
+    } catch (error) {
+      await this.participantRepository.update(participant.id, {
+        payment_reference: null,
+      });
+      if (dto.payment_method === PaymentMethod.CARD_SAVED) {
+        // A card that needs 3-D Secure funds the wallet later, through the
+        // webhook; the share can then be paid with WALLET
+        throw new BadRequestException(
+          `Your card payment has not reached your wallet yet: ${error.message}`,
+        );
+      }
+      throw error;
+    }
+
+    await this.participantRepository.update(participant.id, {
+      paid_amount: shareAmount,
+      payment_method: dto.payment_method,
+      paid_at: new Date(),
+    });
+
+    await this.notify(
+      group.host_id,
+      'Share paid',
+      `${participant.display_name} paid their share of the group order.`,
+      group,
+    );
+    this.logger.log(
+      `Participant ${participant.id} paid ${shareAmount} for group order ${group.id}`,
+    );
+    return this.mapToResponse(await this.loadGroup(group.id));
+  }
+
+  /**
+   * Place the group's order. In SPLIT mode every share must be in; the
+   * shares pay their part straight out of escrow and the host's wallet the
+   * rest, in one transaction, so the shares are never spendable by the host.
+   */
+  async checkout(
+    hostId: string,
+    groupOrderId: string,
+    dto: GroupOrderPaymentDto,
+  ): Promise<GroupOrderResponseDto> {
+    const group = await this.loadGroup(groupOrderId);
+    this.assertHost(group, hostId);
+    if (group.status !== GroupOrderStatus.LOCKED) {
+      throw new BadRequestException('Lock the group order before checking out');
+    }
+
+    const participants = this.activeParticipants(group);
+    if (group.is_split) {
+      if (dto.payment_method !== PaymentMethod.WALLET) {
+        throw new BadRequestException(
+          "Split group orders are paid from the host's wallet together with the held shares",
+        );
+      }
+      const unpaid = participants.filter(
+        p => !p.is_host && Number(p.share_amount) > 0 && !p.has_paid_share,
+      );
+      if (unpaid.length > 0) {
+        throw new BadRequestException(
+          `Waiting for ${unpaid
+            .map(p => p.display_name)
+            .join(', ')} to pay their share`,
+        );
+      }
+    }
+
+    // A second checkout racing this one stops here
+    const claim = await this.groupOrderRepository.update(
+      { id: group.id, status: GroupOrderStatus.LOCKED },
+      { status: GroupOrderStatus.PLACED, placed_at: new Date() },
+    );
+    if (!claim.affected) {
+      throw new BadRequestException('Group order has already been placed');
+    }
+
+    const lines: OrderLine[] = this.activeItems(group).map(item => {
+      const participant = participants.find(p => p.id === item.participant_id);
+      return Object.assign(new CartItem(), {
+        menu_item_id: item.menu_item_id,
+        menu_item: item.menu_item,
+        vendor_id: group.vendor_id,
+        quantity: item.quantity,
+        unit_price: Number(item.unit_price),
+        total_price: Number(item.total_price),
+        selected_options: item.selected_options,
+        group_participant_id: participant.id,
+        group_participant_name: participant.display_name,
+      });
+    });
+
+    const escrowAmount = group.is_split
+      ? roundMoney(
+          participants
+            .filter(p => !p.is_host)
+            .reduce((sum, p) => sum + this.heldShare(p), 0),
+        )
+      : 0;
+
+    let orderId: string;
+    try {
+      const order = await this.orderService.placeGroupOrder(group, lines, {
+        payment_method: dto.payment_method,
+        saved_card_id: dto.saved_card_id,
+        escrow_amount: escrowAmount,
+      });
+      orderId = order.id;
+    } catch (error) {
+      // Nothing has left escrow; the payment failed as a whole
+      await this.groupOrderRepository.update(group.id, {
+        status: GroupOrderStatus.LOCKED,
+        placed_at: null,
+      });
+      throw error;
+    }
+
+    await this.groupOrderRepository.update(group.id, { order_id: orderId });
+
+    for (const participant of participants) {
+      if (participant.is_host) continue;
+      await this.notify(
+        participant.user_id,
+        'Group order placed',
+        'The group order has been sent to the vendor.',
+        group,
+      );
+    }
+
+    this.logger.log(`Group order ${group.id} checked out as order ${orderId}`);
+    return this.mapToResponse(await this.loadGroup(group.id));
+  }
+
+  async leaveGroupOrder(
+    userId: string,
+    groupOrderId: string,
+  ): Promise<GroupOrderResponseDto> {
+    const group = await this.loadGroup(groupOrderId);
+    const participant = this.findActiveParticipant(group, userId);
+    if (participant.is_host) {
+      throw new BadRequestException(
+        'The host cannot leave; cancel the group order instead',
+      );
+    }
+    this.assertOpen(group);
+
+    await this.dropParticipant(participant);
+    return this.mapToResponse(await this.loadGroup(group.id));
+  }
+
+  async removeParticipant(
+    hostId: string,
+    groupOrderId: string,
+    participantId: string,
+  ): Promise<GroupOrderResponseDto> {
+    const group = await this.loadGroup(groupOrderId);
+    this.assertHost(group, hostId);
+    this.assertOpen(group);
+
+    const participant = this.activeParticipants(group).find(
+      p => p.id === participantId,
+    );
+    if (!participant) {
+      throw new NotFoundException('Participant not found');
+    }
+    if (participant.is_host) {
+      throw new BadRequestException('The host cannot be removed');
+    }
+
+    await this.dropParticipant(participant);
+    await this.notify(
+      participant.user_id,
+      'Removed from group order',
+      'The host removed you from their group order.',
+      group,
+    );
+    return this.mapToResponse(await this.loadGroup(group.id));
+  }
+
+  /**
+   * Cancel the whole group. Before checkout, paid shares go back to their
+   * participants; after checkout every participant is cancelled and refunded
+   * in turn, which cancels the order once the last one is done.
+   */
+  async cancelGroupOrder(
+    hostId: string,
+    groupOrderId: string,
+    reason?: string,
+  ): Promise<GroupOrderResponseDto> {
+    const group = await this.loadGroup(groupOrderId);
+    this.assertHost(group, hostId);
+    const cancelReason = reason || 'Group order cancelled by the host';
+
+    if (group.status === GroupOrderStatus.CANCELLED) {
+      throw new BadRequestException('Group order is already cancelled');
+    }
+
+    if (group.status === GroupOrderStatus.PLACED) {
+      await this.assertOrderCancellable(group);
+      // The host goes last so the order is cancelled with their refund
+      const participants = this.activeParticipants(group).sort(
+        (a, b) => Number(a.is_host) - Number(b.is_host),
+      );
+      for (const participant of participants) {
+        await this.cancelPlacedParticipant(
+          group,
+          participant,
+          hostId,
+          cancelReason,
+        );
+      }
+    } else {
+      await this.returnPaidShares(group, cancelReason);
+      await this.groupOrderRepository.update(group.id, {
+        status: GroupOrderStatus.CANCELLED,
+        cancelled_at: new Date(),
+      });
+      for (const participant of this.activeParticipants(group)) {
+        if (participant.is_host) continue;
+        await this.notify(
+          participant.user_id,
+          'Group order cancelled',
+          cancelReason,
+          group,
+        );
+      }
+    }
+
+    this.logger.log(`Group order ${group.id} cancelled by host`);
+    return this.mapToResponse(await this.loadGroup(group.id));
+  }
+
+  /**
+   * Take one participant out of a placed group order: their items are
+   * refunded to the original payment, which in SPLIT mode means back to the
+   * participant's own wallet. The participant or the host can do this while
+   * the order can still be cancelled.
+   */
+  async cancelParticipant(
+    userId: string,
+    groupOrderId: string,
+    participantId: string,
+    reason?: string,
+  ): Promise<GroupOrderResponseDto> {
+    const group = await this.loadGroup(groupOrderId);
+    const actor = this.findParticipant(group, userId);
+    if (group.status !== GroupOrderStatus.PLACED) {
+      throw new BadRequestException(
+        'Only participants of a placed group order can be cancelled',
+      );
+    }
+
+    const participant = this.activeParticipants(group).find(
+      p => p.id === participantId,
+    );
+    if (!participant) {
+      throw new NotFoundException('Participant not found');
+    }
+    if (!actor.is_host && actor.id !== participant.id) {
+      throw new ForbiddenException(
+        'Only the host can cancel another participant',
+      );
+    }
+
+    await this.assertOrderCancellable(group);
+    await this.cancelPlacedParticipant(
+      group,
+      participant,
+      userId,
+      reason || `${participant.display_name} cancelled their items`,
+    );
+
+    return this.mapToResponse(await this.loadGroup(group.id));
+  }
+
+  private async cancelPlacedParticipant(
+    group: GroupOrder,
+    participant: GroupOrderParticipant,
+    actorId: string,
+    reason: string,
+  ): Promise<void> {
+    const order = await this.orderRepository.findById(group.order_id);
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const refundLines = (order.order_items || [])
+      .filter(
+        item =>
+          item.group_participant_id === participant.id &&
+          item.quantity - item.refunded_quantity > 0,
+      )
+      .map(item => ({
+        order_item_id: item.id,
+        quantity: item.quantity - item.refunded_quantity,
+      }));
+    const othersRemain = (order.order_items || []).some(
+      item =>
+        item.group_participant_id !== participant.id &&
+        item.quantity - item.refunded_quantity > 0,
+    );
+
+    // In SPLIT mode RefundService sends the participant's part straight to
+    // their wallet
+    if (
+      refundLines.length > 0 &&
+      (order.payment_status === PaymentStatus.PAID ||
+        order.payment_status === PaymentStatus.PARTIALLY_REFUNDED)
+    ) {
+      await this.refundService.refundOrderItems(
+        order.id,
+        { items: refundLines, reason, include_delivery_fee: !othersRemain },
+        { type: RefundInitiator.SYSTEM, id: actorId },
+      );
+    }
+
+    await this.participantRepository.update(participant.id, {
+      status: GroupParticipantStatus.CANCELLED,
+      cancelled_at: new Date(),
+    });
+
+    if (!othersRemain) {
+      if (
+        this.orderStateMachine.canTransition(
+          OrderStatusActor.CUSTOMER,
+          order.order_status,
+          OrderStatus.CANCELLED,
+        )
+      ) {
+        await this.orderService.cancelOrder(
+          order.id,
+          group.host_id,
+          'CUSTOMER',
+          reason,
+        );
+      }
+      await this.groupOrderRepository.update(group.id, {
+        status: GroupOrderStatus.CANCELLED,
+        cancelled_at: new Date(),
+      });
+    }
+
+    await this.notify(
+      participant.user_id,
+      'Your items were cancelled',
+      reason,
+      group,
+    );
+    this.logger.log(
+      `Participant ${participant.id} cancelled from group order ${group.id}`,
+    );
+  }
+
+  /**
+   * Give back shares paid before checkout from escrow. Throws if any could
+   * not be returned; those already returned are recorded, so retrying only
+   * returns the rest.
+   */
+  private async returnPaidShares(
+    group: GroupOrder,
+    reason: string,
+  ): Promise<void> {
+    let allReturned = true;
+    for (const participant of this.activeParticipants(group)) {
+      const held = this.heldShare(participant);
+      if (participant.is_host || held <= 0) {
+        continue;
+      }
+      try {
+        await this.walletTransferService.releaseHeldFunds({
+          user_id: participant.user_id,
+          amount: held,
+          currency: group.currency,
+          reference: `${participant.payment_reference}:refund`,
+          description: `Group order share returned: ${reason}`,
+          metadata: {
+            group_order_id: group.id,
+            participant_id: participant.id,
+          },
+        });
+        await this.participantRepository.update(participant.id, {
+          refunded_amount: roundMoney(
+            Number(participant.refunded_amount) + held,
+          ),
+        });
+      } catch (error) {
+        this.logger.error(
+          `Could not return ${held} share to participant ${participant.id} of group order ${group.id}: ${error.message}`,
+        );
+        allReturned = false;
+      }
+    }
+    if (!allReturned) {
+      throw new BadRequestException(
+        'Some paid shares could not be returned; try again',
+      );
+    }
+  }
+
+  private heldShare(participant: GroupOrderParticipant): number {
+    return roundMoney(
+      Number(participant.paid_amount) - Number(participant.refunded_amount),
+    );
+  }
+
+  /**
+   * Weight each participant's share of the fees by their items. Rounding is
+   * settled on the last participant with items so shares add up to the total.
+   */
+  private assignShares(
+    group: GroupOrder,
+    participants: GroupOrderParticipant[],
+    items: GroupOrderItem[],
+  ): void {
+    const subtotal = Number(group.subtotal);
+    const fees = roundMoney(
+      Number(group.delivery_fee) + Number(group.service_fee),
+    );
+    const itemsTotals = participants.map(p => this.itemsTotal(p, items));
+    const lastIndex = itemsTotals.reduce(
+      (last, total, index) => (total > 0 ? index : last),
+      -1,
+    );
+
+    let assigned = 0;
+    participants.forEach((participant, index) => {
+      const itemsTotal = itemsTotals[index];
+      let share = 0;
+      if (index === lastIndex) {
+        share = roundMoney(Number(group.total_amount) - assigned);
+      } else if (itemsTotal > 0) {
+        share = roundMoney(itemsTotal + (fees * itemsTotal) / subtotal);
+      }
+      assigned = roundMoney(assigned + share);
+      participant.share_amount = share;
+    });
+  }
+
+  private async dropParticipant(
+    participant: GroupOrderParticipant,
+  ): Promise<void> {
+    await this.groupItemRepository.delete({ participant_id: participant.id });
+    await this.participantRepository.update(participant.id, {
+      status: GroupParticipantStatus.LEFT,
+    });
+  }
+
+  private async assertOrderCancellable(group: GroupOrder): Promise<void> {
+    const order = await this.orderRepository.findById(group.order_id);
+    if (
+      !order ||
+      !this.orderStateMachine.canTransition(
+        OrderStatusActor.CUSTOMER,
+        order.order_status,
+        OrderStatus.CANCELLED,
+      )
+    ) {
+      throw new BadRequestException(
+        'The order cannot be cancelled at this stage',
+      );
+    }
+  }
+
+  private async loadGroup(groupOrderId: string): Promise<GroupOrder> {
+    const group = await this.groupOrderRepository.findOne({
+      where: { id: groupOrderId },
+      relations: ['participants', 'items', 'items.menu_item'],
+    });
+    if (!group) {
+      throw new NotFoundException('Group order not found');
+    }
+    return group;
+  }
+
+  /** Participants who left are still found, so they can see the group */
+  private findParticipant(
+    group: GroupOrder,
+    userId: string,
+  ): GroupOrderParticipant {
+    const participant = (group.participants as GroupOrderParticipant[]).find(
+      p => p.user_id === userId,
+    );
+    if (!participant) {
+      throw new NotFoundException('Group order not found');
+    }
+    return participant;
+  }
+
+  private findActiveParticipant(
+    group: GroupOrder,
+    userId: string,
+  ): GroupOrderParticipant {
+    const participant = this.findParticipant(group, userId);
+    if (!participant.is_active) {
+      throw new ForbiddenException('You are no longer in this group order');
+    }
+    return participant;
+  }
+
+  private findOwnItem(
+    group: GroupOrder,
+    participant: GroupOrderParticipant,
+    itemId: string,
+  ): GroupOrderItem {
+    const item = (group.items as GroupOrderItem[]).find(
+      candidate => candidate.id === itemId,
+    );
+    if (!item) {
+      throw new NotFoundException('Item not found');
+    }
+    if (item.participant_id !== participant.id) {
+      throw new ForbiddenException('You can only change your own items');
+    }
+    return item;
+  }
+
+  private activeParticipants(group: GroupOrder): GroupOrderParticipant[] {
+    return (group.participants as GroupOrderParticipant[])
+      .filter(p => p.is_active)
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+  }
+
+  private activeItems(group: GroupOrder): GroupOrderItem[] {
+    const activeIds = new Set(this.activeParticipants(group).map(p => p.id));
+    return (group.items as GroupOrderItem[])
+      .filter(item => activeIds.has(item.participant_id))
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+  }
+
+  private itemsTotal(
+    participant: GroupOrderParticipant,
+    items: GroupOrderItem[],
+  ): number {
+    return roundMoney(
+      items
+        .filter(item => item.participant_id === participant.id)
+        .reduce((sum, item) => sum + Number(item.total_price), 0),
+    );
+  }
+
+  private assertHost(group: GroupOrder, userId: string): void {
+    if (group.host_id !== userId) {
+      this.findParticipant(group, userId);
+      throw new ForbiddenException('Only the host can do this');
+    }
+  }
+
+  private assertOpen(group: GroupOrder): void {
+    if (group.status !== GroupOrderStatus.OPEN) {
+      throw new BadRequestException(
+        group.status === GroupOrderStatus.LOCKED
+          ? 'The group order is locked; ask the host to reopen it'
+          : `Group order is ${group.status.toLowerCase()}`,
+      );
+    }
+  }
+
+  private maxParticipants(): number {
+    return this.configService.get<number>('groupOrders.maxParticipants') ?? 25;
+  }
+
+  private async notify(
+    userId: string,
+    title: string,
+    message: string,
+    group: GroupOrder,
+  ): Promise<void> {
+    try {
+      await this.inAppNotificationService.createInAppNotification(
+        userId,
+        NotificationType.ORDER_UPDATE,
+        title,
+        message,
+        {
+          data: {
+            group_order_id: group.id,
+            order_id: group.order_id ?? null,
+            status: group.status,
+          },
+          priority: NotificationPriority.HIGH,
+          category: 'group_order',
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify ${userId} about group order ${group.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private mapToResponse(group: GroupOrder): GroupOrderResponseDto {
+    const items = (group.items || []) as GroupOrderItem[];
+    const participants = (
+      (group.participants || []) as GroupOrderParticipant[]
+    ).sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+
+    return {
+      id: group.id,
+      host_id: group.host_id,
+      vendor_id: group.vendor_id,
+      share_token: group.share_token,
+      status: group.status,
+      payment_mode: group.payment_mode,
+      order_type: group.order_type,
+      delivery_address_id: group.delivery_address_id ?? null,
+      currency: group.currency,
+      subtotal: Number(group.subtotal),
+      delivery_fee: Number(group.delivery_fee),
+      service_fee: Number(group.service_fee),
+      total_amount: Number(group.total_amount),
+      order_id: group.order_id ?? null,
+      locked_at: group.locked_at ?? null,
+      placed_at: group.placed_at ?? null,
+      cancelled_at: group.cancelled_at ?? null,
+      participants: participants.map(participant =>
+        this.mapParticipantToResponse(participant, items),
+      ),
+      created_at: group.created_at,
+    };
+  }
+
+  private mapParticipantToResponse(
+    participant: GroupOrderParticipant,
+    items: GroupOrderItem[],
+  ): GroupOrderParticipantResponseDto {
+    const ownItems = items.filter(
+      item => item.participant_id === participant.id,
+    );
+    return {
+      id: participant.id,
+      user_id: participant.user_id,
+      display_name: participant.display_name,
+      is_host: participant.is_host,
+      status: participant.status,
+      items_total: this.itemsTotal(participant, ownItems),
+      share_amount: Number(participant.share_amount),
+      paid_amount: Number(participant.paid_amount),
+      refunded_amount: Number(participant.refunded_amount),
+      paid_at: participant.paid_at ?? null,
+      items: ownItems.map(
+        (item): GroupOrderItemResponseDto => ({
+          id: item.id,
+          menu_item_id: item.menu_item_id,
+          menu_item_name: item.menu_item?.name,
+          quantity: item.quantity,
+          unit_price: Number(item.unit_price),
+          total_price: Number(item.total_price),
+          selected_options: item.selected_options || [],
+        }),
+      ),
+    };
+  }
+}
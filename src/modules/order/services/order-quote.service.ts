@@ -0,0 +1,114 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { CartItem, Currency, OrderType, PaymentMethod } from 'src/entities';
+
+/**
+ * What a customer was shown for an order. createOrder re-prices the cart
+ * and only goes ahead when it comes to the same figures.
+ */
+export interface OrderQuotePayload {
+  customer_id: string;
+  vendor_id: string;
+  order_type: OrderType;
+  payment_method: PaymentMethod;
+  delivery_quote_id: string | null;
+  // Items, quantities and prices the quote was worked out from
+  cart_fingerprint: string;
+  currency: Currency;
+  subtotal: number;
+  discount_amount: number;
+  delivery_fee: number;
+  service_fee: number;
+  tax_amount: number;
+  total_amount: number;
+  // Unix seconds
+  exp: number;
+}
+
+/**
+ * Signs and verifies checkout quotes. A quote is an HMAC-signed token, so
+ * nothing is stored and any instance can verify it until it expires.
+ */
+@Injectable()
+export class OrderQuoteService {
+  private readonly signingSecret: string;
+  private readonly ttlSeconds: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.signingSecret =
+      this.configService.get<string>('orderQuotes.signingSecret') ||
+      this.configService.get<string>('jwt.secret');
+    this.ttlSeconds = this.configService.get<number>(
+      'orderQuotes.ttlSeconds',
+      300,
+    );
+  }
+
+  sign(payload: Omit<OrderQuotePayload, 'exp'>): {
+    token: string;
+    expires_at: Date;
+  } {
+    const exp = Math.floor(Date.now() / 1000) + this.ttlSeconds;
+    const body = Buffer.from(JSON.stringify({ ...payload, exp })).toString(
+      'base64url',
+    );
+
+    return {
+      token: `${body}.${this.signature(body)}`,
+      expires_at: new Date(exp * 1000),
+    };
+  }
+
+  verify(token: string): OrderQuotePayload {
+    const [body, signature] = token.split('.');
+    if (!body || !signature) {
+      throw new BadRequestException('Invalid order quote');
+    }
+
+    const expected = Buffer.from(this.signature(body));
+    const received = Buffer.from(signature);
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      throw new BadRequestException('Invalid order quote');
+    }
+
+    let payload: OrderQuotePayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException('Invalid order quote');
+    }
+
+    if (payload.exp * 1000 < Date.now()) {
+      throw new BadRequestException(
+        'Order quote has expired, please request a new quote',
+      );
+    }
+
+    return payload;
+  }
+
+  /**
+   * Stable hash of the cart lines, so a quote can't be used after items or
+   * quantities change
+   */
+  fingerprintCart(cartItems: CartItem[]): string {
+    const lines = cartItems
+      .map(
+        item =>
+          `${item.id}:${item.quantity}:${Number(item.total_price).toFixed(2)}`,
+      )
+      .sort();
+
+    return createHash('sha256').update(lines.join('|')).digest('hex');
+  }
+
+  private signature(body: string): string {
+    return createHmac('sha256', this.signingSecret)
+      .update(body)
+      .digest('base64url');
+  }
+}
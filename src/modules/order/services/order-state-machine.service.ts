@@ -0,0 +1,197 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EntityManager, Repository } from 'typeorm';
+import {
+  Order,
+  OrderStatus,
+  OrderStatusActor,
+  OrderStatusHistory,
+} from 'src/entities';
+import {
+  ORDER_EVENTS,
+  OrderCancelledEvent,
+  OrderStatusChangedEvent,
+} from '../events';
+
+type TransitionTable = Partial<Record<OrderStatus, OrderStatus[]>>;
+
+const ALL_STATUSES = Object.values(OrderStatus);
+
+/**
+ * Status changes each actor is allowed to make. Anything not listed is
+ * rejected; admins may move an order anywhere as an override.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<
+  OrderStatusActor,
+  TransitionTable
+> = {
+  [OrderStatusActor.CUSTOMER]: {
+    [OrderStatus.NEW]: [OrderStatus.CANCELLED],
+    [OrderStatus.CONFIRMED]: [OrderStatus.CANCELLED],
+  },
+  [OrderStatusActor.VENDOR]: {
+    [OrderStatus.NEW]: [
+      OrderStatus.CONFIRMED,
+      OrderStatus.PREPARING,
+      OrderStatus.READY,
+      OrderStatus.CANCELLED,
+    ],
+    [OrderStatus.CONFIRMED]: [
+      OrderStatus.PREPARING,
+      OrderStatus.READY,
+      OrderStatus.OUT_FOR_DELIVERY,
+      OrderStatus.CANCELLED,
+    ],
+    [OrderStatus.PREPARING]: [
+      OrderStatus.READY,
+      OrderStatus.OUT_FOR_DELIVERY,
+      OrderStatus.CANCELLED,
+    ],
+    [OrderStatus.READY]: [OrderStatus.OUT_FOR_DELIVERY, OrderStatus.DELIVERED],
+    [OrderStatus.OUT_FOR_DELIVERY]: [OrderStatus.DELIVERED],
+  },
+  [OrderStatusActor.ADMIN]: Object.fromEntries(
+    ALL_STATUSES.map(from => [from, ALL_STATUSES.filter(to => to !== from)]),
+  ),
+  [OrderStatusActor.DELIVERY_WEBHOOK]: {
+    [OrderStatus.CONFIRMED]: [
+      OrderStatus.OUT_FOR_DELIVERY,
+      OrderStatus.DELIVERED,
+      OrderStatus.CANCELLED,
+    ],
+    [OrderStatus.PREPARING]: [
+      OrderStatus.OUT_FOR_DELIVERY,
+      OrderStatus.DELIVERED,
+      OrderStatus.CANCELLED,
+    ],
+    [OrderStatus.READY]: [
+      OrderStatus.OUT_FOR_DELIVERY,
+      OrderStatus.DELIVERED,
+      OrderStatus.CANCELLED,
+    ],
+    [OrderStatus.OUT_FOR_DELIVERY]: [
+      OrderStatus.DELIVERED,
+      OrderStatus.CANCELLED,
+    ],
+  },
+  [OrderStatusActor.SYSTEM]: {
+    // Payment failed or was abandoned
+    [OrderStatus.NEW]: [OrderStatus.CANCELLED],
+    // A late payment confirmation for an order cancelled as unpaid
+    [OrderStatus.CANCELLED]: [OrderStatus.NEW],
+  },
+};
+
+export interface OrderTransitionContext {
+  actor: OrderStatusActor;
+  actor_id?: string | null;
+  reason?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+@Injectable()
+export class OrderStateMachineService {
+  private readonly logger = new Logger(OrderStateMachineService.name);
+
+  constructor(
+    @InjectRepository(OrderStatusHistory)
+    private readonly historyRepository: Repository<OrderStatusHistory>,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  canTransition(
+    actor: OrderStatusActor,
+    from: OrderStatus,
+    to: OrderStatus,
+  ): boolean {
+    return (ORDER_STATUS_TRANSITIONS[actor][from] || []).includes(to);
+  }
+
+  /**
+   * Statuses the actor may move an order to from its current status
+   */
+  getAllowedTransitions(
+    actor: OrderStatusActor,
+    from: OrderStatus,
+  ): OrderStatus[] {
+    return ORDER_STATUS_TRANSITIONS[actor][from] || [];
+  }
+
+  assertTransition(
+    actor: OrderStatusActor,
+    from: OrderStatus,
+    to: OrderStatus,
+  ): void {
+    if (!this.canTransition(actor, from, to)) {
+      throw new BadRequestException(
+        `Invalid status transition from ${from} to ${to}`,
+      );
+    }
+  }
+
+  /**
+   * Write a status history row. Pass the transaction manager when the status
+   * itself is saved inside a transaction.
+   */
+  async recordTransition(
+    orderId: string,
+    from: OrderStatus | null,
+    to: OrderStatus,
+    context: OrderTransitionContext,
+    manager?: EntityManager,
+  ): Promise<OrderStatusHistory> {
+    const repository = manager
+      ? manager.getRepository(OrderStatusHistory)
+      : this.historyRepository;
+
+    const entry = await repository.save(
+      repository.create({
+        order_id: orderId,
+        from_status: from,
+        to_status: to,
+        actor_type: context.actor,
+        actor_id: context.actor_id ?? null,
+        reason: context.reason ?? null,
+        metadata: context.metadata ?? null,
+      }),
+    );
+
+    this.logger.log(
+      `Order ${orderId}: ${from ?? 'created'} -> ${to} by ${context.actor}${
+        context.actor_id ? ` ${context.actor_id}` : ''
+      }`,
+    );
+    return entry;
+  }
+
+  /**
+   * Announce a committed status change to event listeners. Call once the
+   * order and its history row are saved, never inside a transaction.
+   */
+  publishTransition(
+    order: Order,
+    from: OrderStatus,
+    to: OrderStatus,
+    context: OrderTransitionContext,
+  ): void {
+    this.eventEmitter.emit(
+      ORDER_EVENTS.STATUS_CHANGED,
+      new OrderStatusChangedEvent(order, from, to, context),
+    );
+
+    if (to === OrderStatus.CANCELLED) {
+      this.eventEmitter.emit(
+        ORDER_EVENTS.CANCELLED,
+        new OrderCancelledEvent(order, from, context),
+      );
+    }
+  }
+
+  async getHistory(orderId: string): Promise<OrderStatusHistory[]> {
+    return await this.historyRepository.find({
+      where: { order_id: orderId },
+      order: { created_at: 'ASC' },
+    });
+  }
+}
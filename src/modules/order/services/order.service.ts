@@ -8,19 +8,32 @@ import {
   Inject,
   forwardRef,
 } from '@nestjs/common';
+import { randomBytes } from 'crypto';
 import { OrderRepository } from '../repositories/order.repository';
 import { CartService } from 'src/modules/cart/services/cart.service';
 import { MenuItemRepository } from 'src/modules/menu/repositories/menu-item.repository';
+import { MenuInventoryService } from 'src/modules/menu/services/menu-inventory.service';
+import { MenuModifierService } from 'src/modules/menu/services/menu-modifier.service';
+import {
+  OrderStateMachineService,
+  OrderTransitionContext,
+} from './order-state-machine.service';
+import { ORDER_EVENTS, OrderCreatedEvent } from '../events';
+import { OrderQuotePayload, OrderQuoteService } from './order-quote.service';
 import { AddressService } from 'src/modules/user/services/address.service';
 import { PaymentService } from 'src/modules/payment/services/payment.service';
 import { DeliveryService } from 'src/modules/delivery/services/delivery.service';
+import { DeliveryFailoverService } from 'src/modules/delivery/services/delivery-failover.service';
+import { DeliveryLiveTrackingService } from 'src/modules/delivery/services/delivery-live-tracking.service';
+import { OrderTrackingResponseDto } from 'src/modules/delivery/dto';
 import { DeliveryProviderSelectorService } from 'src/modules/delivery/services/delivery-provider-selector.service';
 import { DeliveryQuoteService } from 'src/modules/delivery/services/delivery-quote.service';
 import { VendorService } from 'src/modules/vendor/services/vendor.service';
-import { NotificationSSEService } from 'src/modules/notification/services/notification-sse.service';
-import { NotificationService } from 'src/modules/notification/notification.service';
-import { NotificationType } from 'src/entities';
-import { OrderEmailNotificationService } from '../../notification/services/order-email-notification.service';
+import { VendorAvailabilityService } from 'src/modules/vendor/services/vendor-availability.service';
+import { OrderStatusActor } from 'src/entities';
+import { CouponService } from 'src/modules/coupon/services/coupon.service';
+import { CouponRepository } from 'src/modules/coupon/repositories/coupon.repository';
+import { FeeCalculatorService } from 'src/modules/fee/services/fee-calculator.service';
 import {
   CreateOrderDto,
   UpdateOrderStatusDto,
@@ -30,6 +43,9 @@ import {
   CalculateOrderCostDto,
   OrderCostResponseDto,
   OrderPaymentResponseDto,
+  OrderTimelineResponseDto,
+  OrderQuoteResponseDto,
+  OrderParticipantItemsDto,
 } from '../dto';
 import {
   Order,
@@ -41,10 +57,49 @@ import {
   DeliveryProvider,
   Currency,
   PaymentTransactionStatus,
+  Vendor,
+  CartItem,
+  FeeBreakdown,
+  ScheduledPaymentTiming,
+  RecurringOrder,
+  RecurringOrderItem,
+  GroupOrder,
 } from 'src/entities';
 import { ShipbubblePackageCategoryDto } from '@/modules/delivery/dto/delivery-rate.dto';
 import { getCurrencyForCountry } from 'src/utils/currency-mapper';
 import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+
+/**
+ * What an order for the current cart would cost, shared by checkout and
+ * quotes so both charge the same way
+ */
+interface OrderPricing {
+  currency: Currency;
+  cartItems: CartItem[];
+  vendorId: string;
+  subtotal: number;
+  couponId?: string;
+  couponCode?: string;
+  discountAmount: number;
+  deliveryFee: number;
+  feeBreakdown: FeeBreakdown;
+  serviceFee: number;
+  taxAmount: number;
+  totalAmount: number;
+  issues: string[];
+}
+
+/**
+ * A line to turn into an order item. Group order lines also say whose they are.
+ */
+export type OrderLine = CartItem & {
+  group_participant_id?: string;
+  group_participant_name?: string;
+};
+
+const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
 
 @Injectable()
 export class OrderService {
@@ -55,17 +110,25 @@ export class OrderService {
     private readonly orderRepository: OrderRepository,
     private readonly cartService: CartService,
     private readonly menuItemRepository: MenuItemRepository,
+    private readonly menuInventoryService: MenuInventoryService,
+    private readonly menuModifierService: MenuModifierService,
+    private readonly orderStateMachine: OrderStateMachineService,
     private readonly addressService: AddressService,
     @Inject(forwardRef(() => PaymentService))
     private readonly paymentService: PaymentService,
     private readonly deliveryService: DeliveryService,
+    private readonly deliveryFailoverService: DeliveryFailoverService,
+    private readonly deliveryLiveTrackingService: DeliveryLiveTrackingService,
     private readonly deliveryProviderSelector: DeliveryProviderSelectorService,
     private readonly deliveryQuoteService: DeliveryQuoteService,
     private readonly vendorService: VendorService,
-    private readonly notificationSSEService: NotificationSSEService,
-    private readonly notificationService: NotificationService,
+    private readonly vendorAvailabilityService: VendorAvailabilityService,
     private readonly configService: ConfigService,
-    private readonly orderEmailNotification: OrderEmailNotificationService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly couponService: CouponService,
+    private readonly couponRepository: CouponRepository,
+    private readonly feeCalculator: FeeCalculatorService,
+    private readonly orderQuoteService: OrderQuoteService,
   ) {
     this.serviceFeePercentage =
       this.configService.get<number>('fees.serviceFeePercentage') || 15;
@@ -79,109 +142,103 @@ export class OrderService {
       `Creating order for customer ${customerId} with cart items: ${createOrderDto.vendor_id}`,
     );
 
-    // get vendor currency
-    const vendor = await this.vendorService.getVendorById(
-      createOrderDto.vendor_id,
+    // Scheduled orders are checked against the vendor's hours at their slot
+    const scheduledFor = this.resolveScheduledSlot(
+      createOrderDto.scheduled_for,
     );
-    //  check if vendor exists
-    if (!vendor) {
-      throw new NotFoundException('Vendor not found');
-    }
-
-    // if vendor is not active
-    if (!vendor.is_active) {
-      throw new BadRequestException('Vendor is not active');
-    }
-
-    // get vendor currency from vendor country
-    const vendorCurrency = getCurrencyForCountry(vendor.address.country);
-
-    // Validate delivery address if there is one and get country for provider selection
-    let deliveryFee = 0;
-
-    if (createOrderDto.order_type === OrderType.DELIVERY) {
-      const deliveryQuote = await this.deliveryQuoteService.getQuoteById(
-        createOrderDto.delivery_quote_id,
+    const paymentTiming = scheduledFor
+      ? createOrderDto.payment_timing || ScheduledPaymentTiming.UPFRONT
+      : null;
+    if (paymentTiming === ScheduledPaymentTiming.JUST_IN_TIME) {
+      await this.assertJustInTimePayment(
+        customerId,
+        createOrderDto.payment_method,
+        createOrderDto.saved_card_id,
       );
-      if (!deliveryQuote) {
-        throw new NotFoundException('Delivery quote not found');
-      }
-      deliveryFee = deliveryQuote.fee;
     }
 
-    // get all cart items for this vendor
-    const { items } = await this.cartService.getCartByVendor(
-      customerId,
+    // get vendor currency; vendor must exist, be active and be open
+    const vendor = await this.validateVendorExistsAndActive(
       createOrderDto.vendor_id,
+      scheduledFor ?? undefined,
     );
 
-    // get all cart item ids for this vendor
-    const cartItemIds = items.map(item => item.id);
-    // Validate cart items for checkout
-    const cartValidation = await this.cartService.validateCartItemsForCheckout(
-      customerId,
-      cartItemIds,
-    );
-
-    this.logger.log(`Cart validation: ${JSON.stringify(cartValidation)}`);
+    const pricing = await this.priceOrder(customerId, createOrderDto, vendor, {
+      at: scheduledFor ?? undefined,
+    });
 
-    if (!cartValidation.is_valid) {
-      throw new BadRequestException(
-        `Cart validation failed: ${cartValidation.issues.join(', ')}`,
-      );
+    // Hold the customer to the total they were quoted
+    if (createOrderDto.quote_token) {
+      this.assertMatchesQuote(customerId, createOrderDto, pricing);
     }
 
-    const { cartItems, vendorId, subtotal } = cartValidation;
-
-    this.logger.log(`Delivery fee: ${deliveryFee}`);
-
-    const serviceFee = (Number(subtotal) * this.serviceFeePercentage) / 100;
-
-    const totalAmount =
-      Number(subtotal) + Number(deliveryFee) + Number(serviceFee);
-
-    // Determine currency based on delivery address or use provided currency
-    let orderCurrency = vendorCurrency;
+    const {
+      cartItems,
+      vendorId,
+      subtotal,
+      couponId,
+      discountAmount,
+      deliveryFee,
+      feeBreakdown,
+      totalAmount,
+    } = pricing;
+    const orderCurrency = pricing.currency;
 
     // Generate order number (UUID-based - no race conditions!)
     const orderNumber = await this.orderRepository.generateOrderNumber();
     this.logger.log(`Order number: ${orderNumber}`);
 
-    // Create order
-    const order = await this.orderRepository.create({
-      order_number: orderNumber,
-      customer_id: customerId,
-      vendor_id: vendorId,
-      delivery_address_id:
-        createOrderDto.order_type === OrderType.PICKUP
-          ? null
-          : createOrderDto.delivery_address_id,
-      order_status: OrderStatus.NEW,
-      order_type: createOrderDto.order_type,
-      payment_method: createOrderDto.payment_method,
-      payment_status: PaymentStatus.PENDING,
-      subtotal,
-      delivery_fee: deliveryFee,
-      total_amount: totalAmount,
-      currency: orderCurrency,
-      special_instructions: createOrderDto.delivery_instructions,
-      vendor_notes: createOrderDto.vendor_notes,
-      delivery_quote_id: createOrderDto.delivery_quote_id,
-    });
+    const order = await this.persistOrder(
+      vendor,
+      {
+        order_number: orderNumber,
+        customer_id: customerId,
+        vendor_id: vendorId,
+        delivery_address_id:
+          createOrderDto.order_type === OrderType.PICKUP
+            ? null
+            : createOrderDto.delivery_address_id,
+        order_status: OrderStatus.NEW,
+        order_type: createOrderDto.order_type,
+        payment_method: createOrderDto.payment_method,
+        payment_status: PaymentStatus.PENDING,
+        subtotal,
+        delivery_fee: deliveryFee,
+        discount_amount: discountAmount,
+        coupon_id: couponId,
+        total_amount: totalAmount,
+        currency: orderCurrency,
+        fee_breakdown: feeBreakdown,
+        special_instructions: createOrderDto.delivery_instructions,
+        vendor_notes: createOrderDto.vendor_notes,
+        delivery_quote_id: createOrderDto.delivery_quote_id,
+        scheduled_for: scheduledFor,
+        payment_timing: paymentTiming,
+        saved_card_id:
+          paymentTiming === ScheduledPaymentTiming.JUST_IN_TIME
+            ? createOrderDto.saved_card_id || null
+            : null,
+        ...this.resolveGift(createOrderDto),
+        delivery_pin: this.resolveDeliveryPin(
+          createOrderDto,
+          totalAmount,
+          orderCurrency,
+        ),
+      },
+      cartItems,
+      couponId ? { couponId, discountAmount } : undefined,
+    );
 
     this.logger.log(`Order created: ${order.id}`);
 
-    // Create order items from cart items
-    for (const cartItem of cartItems) {
-      await this.orderRepository.createOrderItem({
-        order_id: order.id,
-        menu_item_id: cartItem.menu_item_id,
-        quantity: cartItem.quantity,
-        unit_price: cartItem.unit_price,
-        total_price: cartItem.total_price,
-        cart_item_id: cartItem.id,
-      });
+    if (order.delivery_quote_id) {
+      await this.deliveryQuoteService.confirmCustomerChoice(
+        order.delivery_quote_id,
+        customerId,
+      );
+    }
 
+    for (const cartItem of cartItems) {
       // Update cart item with order_id
       await this.cartService.updateCartItem(customerId, cartItem.id, {
         order_id: order.id,
@@ -189,47 +246,52 @@ export class OrderService {
     }
 
     this.logger.log(`Order items created: ${order.id}`);
-    try {
-      if (createOrderDto.payment_method === PaymentMethod.WALLET) {
-        // For wallet payments, process immediately
-        await this.paymentService.processPayment({
-          order_id: order.id,
-          payment_method: createOrderDto.payment_method,
-          currency: orderCurrency,
-        });
-
-        // Update order payment status to paid
-        await this.orderRepository.update(order.id, {
-          payment_status: PaymentStatus.PAID,
-        });
-      } else {
-        this.logger.log(`Processing payment for order ${order.id}`);
-        const paymentResult = await this.paymentService.processPayment({
-          order_id: order.id,
-          payment_method: createOrderDto.payment_method,
-          currency: orderCurrency,
-          saved_card_id: createOrderDto.saved_card_id,
-        });
-
-        this.logger.log(`Payment result: ${JSON.stringify(paymentResult)}`);
+    // Just-in-time orders are charged shortly before their slot
+    if (paymentTiming !== ScheduledPaymentTiming.JUST_IN_TIME) {
+      try {
+        if (createOrderDto.payment_method === PaymentMethod.WALLET) {
+          // For wallet payments, process immediately; the payment service
+          // marks the order paid
+          await this.paymentService.processPayment({
+            order_id: order.id,
+            payment_method: createOrderDto.payment_method,
+            currency: orderCurrency,
+          });
+        } else {
+          this.logger.log(`Processing payment for order ${order.id}`);
+          const paymentResult = await this.paymentService.processPayment({
+            order_id: order.id,
+            payment_method: createOrderDto.payment_method,
+            currency: orderCurrency,
+            saved_card_id: createOrderDto.saved_card_id,
+          });
+
+          this.logger.log(`Payment result: ${JSON.stringify(paymentResult)}`);
+
+          this.eventEmitter.emit(
+            ORDER_EVENTS.CREATED,
+            new OrderCreatedEvent(order),
+          );
 
-        return {
-          payment_url: paymentResult?.payment_url,
-          external_payment_reference: paymentResult?.external_reference,
-          payment_processing_status:
-            paymentResult?.status as PaymentTransactionStatus,
-          order_id: order.id,
-        };
+          return {
+            payment_url: paymentResult?.payment_url,
+            external_payment_reference: paymentResult?.external_reference,
+            payment_processing_status:
+              paymentResult?.status as PaymentTransactionStatus,
+            order_id: order.id,
+          };
+        }
+      } catch (error) {
+        this.logger.error(
+          `Payment processing failed for order ${order.id}: ${error.message}`,
+        );
+        await this.menuInventoryService.releaseOrderStockSafely(order.id);
+        // Don't fail the order creation, just log the error
+        // return the order with payment processing status as failed
+        throw new BadRequestException(
+          `Payment processing failed for order ${order.id}: ${error.message}`,
+        );
       }
-    } catch (error) {
-      this.logger.error(
-        `Payment processing failed for order ${order.id}: ${error.message}`,
-      );
-      // Don't fail the order creation, just log the error
-      // return the order with payment processing status as failed
-      throw new BadRequestException(
-        `Payment processing failed for order ${order.id}: ${error.message}`,
-      );
     }
 
     // make all user cart items inactive for the vendor for this order
@@ -245,60 +307,9 @@ export class OrderService {
       throw new NotFoundException('Failed to retrieve created order');
     }
 
-    try {
-      await this.orderEmailNotification.sendNewOrderEmailToVendor(
-        completeOrder,
-        vendor.user,
-      );
-      this.logger.log(`New order email sent to vendor for order ${order.id}`);
-    } catch (error) {
-      this.logger.error(
-        `Failed to send new order email to vendor: ${error.message}`,
-      );
-      // Don't fail order creation if email fails
-    }
-
-    // Send email confirmation to customer
-    // After sending confirmation to customer (around line 267)
-    try {
-      await this.orderEmailNotification.sendOrderConfirmationToCustomer(
-        completeOrder,
-        completeOrder.customer,
-      );
-      this.logger.log(
-        `Order confirmation email sent to customer for order ${order.id}`,
-      );
-    } catch (error) {
-      this.logger.error(
-        `Failed to send order confirmation email to customer: ${error.message}`,
-      );
-      // Don't fail order creation if email fails
-    }
-
-    // ⭐ ADD THIS BLOCK HERE ⭐
-    // Send order summary to admin
-    try {
-      await this.orderEmailNotification.sendOrderSummaryToAdmin(completeOrder);
-      this.logger.log(`Order summary sent to admin for order ${order.id}`);
-    } catch (error) {
-      this.logger.error(
-        `Failed to send order summary to admin: ${error.message}`,
-      );
-      // Don't fail order creation if admin email fails
-    }
-    // Send push notification to vendor about new order
-    this.notificationService.sendPushNotification(
-      vendor.user_id,
-      NotificationType.ORDER_UPDATE,
-      `New Order #${orderNumber}!`,
-      `You have received a new ${completeOrder.order_type.toLowerCase()} order from a customer.`,
-      {
-        order_id: order.id,
-        order_number: orderNumber,
-        status: completeOrder.order_status,
-        order_type: completeOrder.order_type,
-        total_amount: completeOrder.total_amount,
-      },
+    this.eventEmitter.emit(
+      ORDER_EVENTS.CREATED,
+      new OrderCreatedEvent(completeOrder),
     );
 
     this.logger.log(
@@ -329,6 +340,83 @@ export class OrderService {
     return this.mapToOrderResponse(order);
   }
 
+  /**
+   * Status history of an order, visible to its customer, its vendor and admins
+   */
+  async getOrderTimeline(
+    orderId: string,
+    userId: string,
+    userType: string,
+  ): Promise<OrderTimelineResponseDto> {
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (userType === 'CUSTOMER' && order.customer_id !== userId) {
+      throw new ForbiddenException('You can only view your own orders');
+    }
+
+    if (userType === 'VENDOR') {
+      const vendor = await this.vendorService.getVendorByUserId(userId);
+      if (!vendor || order.vendor_id !== vendor.id) {
+        throw new ForbiddenException(
+          'You can only view orders for your vendor account',
+        );
+      }
+    }
+
+    const history = await this.orderStateMachine.getHistory(orderId);
+
+    return {
+      order_id: order.id,
+      order_number: order.order_number,
+      current_status: order.order_status,
+      timeline: history.map(entry => ({
+        id: entry.id,
+        from_status: entry.from_status ?? null,
+        to_status: entry.to_status,
+        actor_type: entry.actor_type,
+        actor_id: entry.actor_id ?? null,
+        reason: entry.reason ?? null,
+        metadata: entry.metadata ?? null,
+        created_at: entry.created_at,
+      })),
+    };
+  }
+
+  /**
+   * Live delivery tracking for an order. The customer also gets the public
+   * link for gift orders.
+   */
+  async getOrderTracking(
+    orderId: string,
+    userId: string,
+    userType: string,
+  ): Promise<OrderTrackingResponseDto> {
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (userType === 'CUSTOMER' && order.customer_id !== userId) {
+      throw new ForbiddenException('You can only view your own orders');
+    }
+
+    if (userType === 'VENDOR') {
+      const vendor = await this.vendorService.getVendorByUserId(userId);
+      if (!vendor || order.vendor_id !== vendor.id) {
+        throw new ForbiddenException(
+          'You can only view orders for your vendor account',
+        );
+      }
+    }
+
+    return await this.deliveryLiveTrackingService.getOrderTracking(order, {
+      includeShareUrl: order.customer_id === userId,
+    });
+  }
+
   async getCustomerOrders(
     customerId: string,
     filterDto?: OrderFilterDto,
@@ -384,8 +472,6 @@ export class OrderService {
     };
   }
 
-  // Add email notifications to each status case in updateOrderStatus method
-
   async updateOrderStatus(
     orderId: string,
     userId: string,
@@ -414,8 +500,18 @@ export class OrderService {
       );
     }
 
+    if (order.scheduled_for && !order.released_to_vendor_at) {
+      throw new BadRequestException(
+        'This scheduled order has not been released to you yet',
+      );
+    }
+
     // Validate status transition
-    this.validateStatusTransition(order.order_status, updateDto.order_status);
+    this.orderStateMachine.assertTransition(
+      OrderStatusActor.VENDOR,
+      order.order_status,
+      updateDto.order_status,
+    );
 
     // Update order with new status and additional fields
     const updateData: Partial<Order> = {
@@ -424,177 +520,14 @@ export class OrderService {
 
     // Handle specific status updates
     switch (updateDto.order_status) {
-      // In your OrderService.updateOrderStatus method, replace the email notification sections with this:
-
-      // For CONFIRMED status:
       case OrderStatus.CONFIRMED:
-        if (updateDto.estimated_prep_time_minutes) {
-          updateData.estimated_prep_time_minutes =
-            updateDto.estimated_prep_time_minutes;
-        }
-
-        // Send email to customer about order confirmation
-        try {
-          const estimatedTime = updateDto.estimated_prep_time_minutes
-            ? `${updateDto.estimated_prep_time_minutes} minutes`
-            : undefined;
-
-          if (order.customer && order.customer.email) {
-            await this.orderEmailNotification.sendOrderStatusUpdateToCustomer(
-              order,
-              order.customer,
-              OrderStatus.CONFIRMED,
-              {
-                estimatedTime,
-                vendorNotes: updateDto.vendor_notes,
-              },
-            );
-            this.logger.log(
-              `Order confirmation email sent to customer for order ${orderId}`,
-            );
-          } else {
-            this.logger.warn(
-              `Cannot send confirmation email - customer not loaded or missing email for order ${orderId}`,
-            );
-          }
-        } catch (error) {
-          this.logger.error(
-            `Failed to send order confirmation email: ${error.message}`,
-          );
-        }
-
-        // ⭐ ADD THIS BLOCK HERE ⭐
-        // Send status change notification to admin
-        try {
-          await this.orderEmailNotification.sendOrderStatusChangeToAdmin(
-            order,
-            order.order_status, // old status
-            OrderStatus.CONFIRMED, // new status
-            `Vendor: ${vendor.business_name || 'Unknown'}`,
-          );
-          this.logger.log(
-            `Admin notified of status change for order ${orderId}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Failed to send admin status change notification: ${error.message}`,
-          );
-        }
-
-        // Send push notification to customer about order being confirmed
-        try {
-          const prepTimeMsg = updateDto.estimated_prep_time_minutes
-            ? ` Estimated preparation time: ${updateDto.estimated_prep_time_minutes} minutes.`
-            : '';
-          await this.notificationService.sendPushNotification(
-            order.customer_id,
-            NotificationType.ORDER_UPDATE,
-            `Order #${order.order_number} Confirmed!`,
-            `Your order has been confirmed by the vendor.${prepTimeMsg}`,
-            {
-              order_id: orderId,
-              order_number: order.order_number,
-              status: updateDto.order_status,
-              estimated_prep_time_minutes:
-                updateDto.estimated_prep_time_minutes,
-              order_type: order.order_type,
-            },
-          );
-          this.logger.log(
-            `Push notification sent to customer ${order.customer_id} for order ${orderId} status: ${updateDto.order_status}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Failed to send push notification for order ${orderId}: ${error.message}`,
-          );
-        }
-        break;
-
-      // For PREPARING status:
       case OrderStatus.PREPARING:
         if (updateDto.estimated_prep_time_minutes) {
           updateData.estimated_prep_time_minutes =
             updateDto.estimated_prep_time_minutes;
         }
-
-        // Send email to customer about order being prepared
-        try {
-          const estimatedTime = updateDto.estimated_prep_time_minutes
-            ? `${updateDto.estimated_prep_time_minutes} minutes`
-            : undefined;
-
-          if (order.customer && order.customer.email) {
-            await this.orderEmailNotification.sendOrderStatusUpdateToCustomer(
-              order,
-              order.customer,
-              OrderStatus.PREPARING,
-              {
-                estimatedTime,
-                vendorNotes: updateDto.vendor_notes,
-              },
-            );
-            this.logger.log(
-              `Preparing status email sent to customer for order ${orderId}`,
-            );
-          } else {
-            this.logger.warn(
-              `Cannot send preparing email - customer not loaded or missing email for order ${orderId}`,
-            );
-          }
-        } catch (error) {
-          this.logger.error(`Failed to send preparing email: ${error.message}`);
-        }
-
-        // ⭐ ADD THIS BLOCK HERE ⭐
-        // Send status change notification to admin
-        try {
-          await this.orderEmailNotification.sendOrderStatusChangeToAdmin(
-            order,
-            order.order_status,
-            OrderStatus.PREPARING,
-            `Vendor: ${vendor.business_name || 'Unknown'}`,
-          );
-          this.logger.log(
-            `Admin notified of status change for order ${orderId}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Failed to send admin status change notification: ${error.message}`,
-          );
-        }
-
-        // Send push notification to customer about order being prepared
-        try {
-          const prepTimeMsg = updateDto.estimated_prep_time_minutes
-            ? ` Estimated time: ${updateDto.estimated_prep_time_minutes} minutes.`
-            : '';
-          await this.notificationService.sendPushNotification(
-            order.customer_id,
-            NotificationType.ORDER_UPDATE,
-            `Order #${order.order_number} Being Prepared`,
-            `Your order is now being prepared!`,
-            {
-              order_id: orderId,
-              order_number: order.order_number,
-              status: updateDto.order_status,
-              estimated_prep_time_minutes:
-                updateDto.estimated_prep_time_minutes,
-              order_type: order.order_type,
-            },
-          );
-          this.logger.log(
-            `Push notification sent to customer ${order.customer_id} for order ${orderId} status: ${updateDto.order_status}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Failed to send push notification for order ${orderId}: ${error.message}`,
-          );
-        }
         break;
 
-      // Apply the same pattern for other statuses (READY, OUT_FOR_DELIVERY, DELIVERED, CANCELLED)
-      // Always check if order.customer && order.customer.email exists before sending emails
-
       case OrderStatus.READY:
         updateData.order_ready_at = new Date();
         if (updateDto.estimated_delivery_time) {
@@ -612,101 +545,23 @@ export class OrderService {
             this.logger.log(
               `Creating delivery for order ${orderId} with quote ${order.delivery_quote_id}`,
             );
-            const deliveryResult = await this.deliveryService.createDelivery(
-              order.delivery_quote_id,
-              orderId,
-            );
-            this.logger.log(
-              `Delivery created successfully: ${deliveryResult.id} with tracking number: ${deliveryResult.trackingNumber}`,
-            );
+            // Falls back to the next provider if this one rejects it
+            const deliveryResult =
+              await this.deliveryFailoverService.dispatchOrder(
+                orderId,
+                order.delivery_quote_id,
+              );
+            if (deliveryResult) {
+              this.logger.log(
+                `Delivery created successfully: ${deliveryResult.id} with tracking number: ${deliveryResult.trackingNumber}`,
+              );
+            }
           } catch (error) {
             this.logger.error(
               `Failed to create delivery for order ${orderId}: ${error.message}`,
             );
           }
         }
-
-        // Send email to customer about order being ready
-        try {
-          await this.orderEmailNotification.sendOrderStatusUpdateToCustomer(
-            order,
-            order.customer,
-            OrderStatus.READY,
-            {
-              estimatedTime: updateDto.estimated_delivery_time
-                ? new Date(updateDto.estimated_delivery_time).toLocaleString()
-                : undefined,
-              vendorNotes: updateDto.vendor_notes,
-            },
-          );
-          this.logger.log(
-            `Ready status email sent to customer for order ${orderId}`,
-          );
-        } catch (error) {
-          this.logger.error(`Failed to send ready email: ${error.message}`);
-        }
-
-        // ⭐ ADD THIS BLOCK HERE ⭐
-        // Send status change notification to admin
-        try {
-          await this.orderEmailNotification.sendOrderStatusChangeToAdmin(
-            order,
-            order.order_status,
-            OrderStatus.READY,
-            `Vendor: ${vendor.business_name || 'Unknown'}`,
-          );
-          this.logger.log(
-            `Admin notified of status change for order ${orderId}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Failed to send admin status change notification: ${error.message}`,
-          );
-        }
-
-        // Send SSE notification to customer about order being ready
-        try {
-          this.notificationSSEService.sendOrderUpdate(
-            order.customer_id,
-            orderId,
-            updateDto.order_status,
-            `Your order ${order.order_number} is ready for ${
-              order.order_type === OrderType.DELIVERY ? 'delivery' : 'pickup'
-            }!`,
-          );
-          this.logger.log(
-            `SSE notification sent to customer ${order.customer_id} for order ${orderId} status: ${updateDto.order_status}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Failed to send SSE notification for order ${orderId}: ${error.message}`,
-          );
-        }
-
-        // Send push notification to customer
-        try {
-          await this.notificationService.sendPushNotification(
-            order.customer_id,
-            NotificationType.ORDER_UPDATE,
-            `Order #${order.order_number} is Ready!`,
-            `Your order is ready for ${
-              order.order_type === OrderType.DELIVERY ? 'delivery' : 'pickup'
-            }!`,
-            {
-              order_id: orderId,
-              order_number: order.order_number,
-              status: updateDto.order_status,
-              order_type: order.order_type,
-            },
-          );
-          this.logger.log(
-            `Push notification sent to customer ${order.customer_id} for order ${orderId} status: ${updateDto.order_status}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Failed to send push notification for order ${orderId}: ${error.message}`,
-          );
-        }
         break;
 
       case OrderStatus.DELIVERED:
@@ -717,81 +572,6 @@ export class OrderService {
         if (updateDto.customer_review) {
           updateData.customer_review = updateDto.customer_review;
         }
-
-        // Send email to customer about delivery
-        try {
-          await this.orderEmailNotification.sendOrderStatusUpdateToCustomer(
-            order,
-            order.customer,
-            OrderStatus.DELIVERED,
-            {
-              vendorNotes: updateDto.vendor_notes,
-            },
-          );
-          this.logger.log(
-            `Delivered status email sent to customer for order ${orderId}`,
-          );
-        } catch (error) {
-          this.logger.error(`Failed to send delivered email: ${error.message}`);
-        }
-
-        // ⭐ ADD THIS BLOCK HERE ⭐
-        // Send status change notification to admin
-        try {
-          await this.orderEmailNotification.sendOrderStatusChangeToAdmin(
-            order,
-            order.order_status,
-            OrderStatus.DELIVERED,
-            `Vendor: ${vendor.business_name || 'Unknown'}`,
-          );
-          this.logger.log(
-            `Admin notified of status change for order ${orderId}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Failed to send admin status change notification: ${error.message}`,
-          );
-        }
-
-        // Send SSE notification to customer about order being delivered
-        try {
-          this.notificationSSEService.sendOrderUpdate(
-            order.customer_id,
-            orderId,
-            updateDto.order_status,
-            `Your order ${order.order_number} has been delivered! Thank you for choosing Rambini.`,
-          );
-          this.logger.log(
-            `SSE notification sent to customer ${order.customer_id} for order ${orderId} status: ${updateDto.order_status}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Failed to send SSE notification for order ${orderId}: ${error.message}`,
-          );
-        }
-
-        // Send push notification to customer
-        try {
-          await this.notificationService.sendPushNotification(
-            order.customer_id,
-            NotificationType.ORDER_UPDATE,
-            `Order #${order.order_number} Delivered!`,
-            `Your order has been delivered! Thank you for choosing Rambini.`,
-            {
-              order_id: orderId,
-              order_number: order.order_number,
-              status: updateDto.order_status,
-              order_type: order.order_type,
-            },
-          );
-          this.logger.log(
-            `Push notification sent to customer ${order.customer_id} for order ${orderId} status: ${updateDto.order_status}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Failed to send push notification for order ${orderId}: ${error.message}`,
-          );
-        }
         break;
 
       case OrderStatus.CANCELLED:
@@ -799,90 +579,8 @@ export class OrderService {
         updateData.cancellation_reason =
           updateDto.reason || 'Cancelled by vendor';
         updateData.cancelled_by = 'VENDOR';
-
-        // Send email to customer about cancellation
-        try {
-          await this.orderEmailNotification.sendOrderStatusUpdateToCustomer(
-            order,
-            order.customer,
-            OrderStatus.CANCELLED,
-            {
-              vendorNotes: updateDto.reason || 'Cancelled by vendor',
-            },
-          );
-          this.logger.log(
-            `Cancellation email sent to customer for order ${orderId}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Failed to send cancellation email: ${error.message}`,
-          );
-        }
-
-        // ⭐ ADD THIS BLOCK HERE ⭐
-        // Send status change notification to admin
-        try {
-          await this.orderEmailNotification.sendOrderStatusChangeToAdmin(
-            order,
-            order.order_status,
-            OrderStatus.CANCELLED,
-            `Vendor: ${vendor.business_name || 'Unknown'}`,
-          );
-          this.logger.log(
-            `Admin notified of status change for order ${orderId}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Failed to send admin status change notification: ${error.message}`,
-          );
-        }
-
-        // Send SSE notification to customer about order being cancelled
-        try {
-          this.notificationSSEService.sendOrderUpdate(
-            order.customer_id,
-            orderId,
-            updateDto.order_status,
-            `Your order ${order.order_number} has been cancelled. ${
-              updateDto.reason || 'Please contact support for more information.'
-            }`,
-          );
-          this.logger.log(
-            `SSE notification sent to customer ${order.customer_id} for order ${orderId} status: ${updateDto.order_status}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Failed to send SSE notification for order ${orderId}: ${error.message}`,
-          );
-        }
-
-        // Send push notification to customer
-        try {
-          await this.notificationService.sendPushNotification(
-            order.customer_id,
-            NotificationType.ORDER_UPDATE,
-            `Order #${order.order_number} Cancelled`,
-            `Your order has been cancelled. ${
-              updateDto.reason || 'Please contact support for more information.'
-            }`,
-            {
-              order_id: orderId,
-              order_number: order.order_number,
-              status: updateDto.order_status,
-              reason: updateDto.reason || 'Cancelled by vendor',
-              order_type: order.order_type,
-            },
-          );
-          this.logger.log(
-            `Push notification sent to customer ${order.customer_id} for order ${orderId} status: ${updateDto.order_status}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Failed to send push notification for order ${orderId}: ${error.message}`,
-          );
-        }
-        break;
-    }
+        break;
+    }
 
     // Update vendor notes if provided
     if (updateDto.vendor_notes) {
@@ -894,6 +592,40 @@ export class OrderService {
       throw new NotFoundException('Failed to update order');
     }
 
+    const transition: OrderTransitionContext = {
+      actor: OrderStatusActor.VENDOR,
+      actor_id: userId,
+      reason: updateDto.reason,
+      metadata: updateDto.estimated_prep_time_minutes
+        ? {
+            estimated_prep_time_minutes: updateDto.estimated_prep_time_minutes,
+          }
+        : null,
+    };
+    await this.orderStateMachine.recordTransition(
+      orderId,
+      order.order_status,
+      updateDto.order_status,
+      transition,
+    );
+
+    if (updateDto.order_status === OrderStatus.CANCELLED) {
+      await this.menuInventoryService.releaseOrderStockSafely(orderId);
+    }
+
+    this.orderStateMachine.publishTransition(
+      updatedOrder,
+      order.order_status,
+      updateDto.order_status,
+      {
+        ...transition,
+        metadata: {
+          ...transition.metadata,
+          vendor_notes: updateDto.vendor_notes,
+        },
+      },
+    );
+
     this.logger.log(
       `Order ${orderId} status updated to ${updateDto.order_status}`,
     );
@@ -918,7 +650,13 @@ export class OrderService {
       if (order.customer_id !== userId) {
         throw new ForbiddenException('You can only cancel your own orders');
       }
-      if (!this.canCustomerCancel(order.order_status)) {
+      if (
+        !this.orderStateMachine.canTransition(
+          OrderStatusActor.CUSTOMER,
+          order.order_status,
+          OrderStatus.CANCELLED,
+        )
+      ) {
         throw new BadRequestException(
           'Order cannot be cancelled at this stage',
         );
@@ -929,7 +667,13 @@ export class OrderService {
           'You can only cancel orders for your vendor account',
         );
       }
-      if (!this.canVendorCancel(order.order_status)) {
+      if (
+        !this.orderStateMachine.canTransition(
+          OrderStatusActor.VENDOR,
+          order.order_status,
+          OrderStatus.CANCELLED,
+        )
+      ) {
         throw new BadRequestException(
           'Order cannot be cancelled at this stage',
         );
@@ -951,82 +695,29 @@ export class OrderService {
       throw new NotFoundException('Failed to cancel order');
     }
 
-    // Send SSE notification to relevant party
-    try {
-      if (userType === 'CUSTOMER') {
-        // Notify vendor about customer cancellation
-        this.notificationSSEService.sendOrderUpdate(
-          order.vendor_id,
-          orderId,
-          OrderStatus.CANCELLED,
-          `Order ${order.order_number} has been cancelled by the customer. Reason: ${reason}`,
-        );
-      } else {
-        // Notify customer about vendor cancellation
-        this.notificationSSEService.sendOrderUpdate(
-          order.customer_id,
-          orderId,
-          OrderStatus.CANCELLED,
-          `Your order ${order.order_number} has been cancelled by the vendor. Reason: ${reason}`,
-        );
-      }
-      this.logger.log(`SSE notification sent for cancelled order ${orderId}`);
-    } catch (error) {
-      this.logger.error(
-        `Failed to send SSE notification for cancelled order ${orderId}: ${error.message}`,
-      );
-    }
-
-    // Send push notification to customer (always notify customer regardless of who cancelled)
-    // After existing email/push notifications in cancelOrder method
-    // Send push notification to customer (always notify customer regardless of who cancelled)
-    try {
-      const cancelledBy = userType === 'CUSTOMER' ? 'You' : 'The vendor';
-      await this.notificationService.sendPushNotification(
-        order.customer_id,
-        NotificationType.ORDER_UPDATE,
-        `Order #${order.order_number} Cancelled`,
-        `${cancelledBy} cancelled this order. ${reason}`,
-        {
-          order_id: orderId,
-          order_number: order.order_number,
-          status: OrderStatus.CANCELLED,
-          reason: reason,
-          cancelled_by: userType,
-          order_type: order.order_type,
-        },
-      );
-      this.logger.log(
-        `Push notification sent to customer ${order.customer_id} for cancelled order ${orderId}`,
-      );
-    } catch (error) {
-      this.logger.error(
-        `Failed to send push notification for cancelled order ${orderId}: ${error.message}`,
-      );
-    }
-
-    // ⭐ ADD THIS BLOCK HERE ⭐
-    // Notify admin about cancellation
-    try {
-      const cancelledBy =
+    const transition: OrderTransitionContext = {
+      actor:
         userType === 'CUSTOMER'
-          ? `Customer: ${order.customer?.full_name || 'Unknown'}`
-          : `Vendor: ${order.vendor?.business_name || 'Unknown'}`;
+          ? OrderStatusActor.CUSTOMER
+          : OrderStatusActor.VENDOR,
+      actor_id: userId,
+      reason,
+    };
+    await this.orderStateMachine.recordTransition(
+      orderId,
+      order.order_status,
+      OrderStatus.CANCELLED,
+      transition,
+    );
 
-      await this.orderEmailNotification.sendOrderStatusChangeToAdmin(
-        order,
-        order.order_status,
-        OrderStatus.CANCELLED,
-        cancelledBy,
-      );
-      this.logger.log(
-        `Admin notified of order cancellation for order ${orderId}`,
-      );
-    } catch (error) {
-      this.logger.error(
-        `Failed to send admin cancellation notification: ${error.message}`,
-      );
-    }
+    await this.menuInventoryService.releaseOrderStockSafely(orderId);
+
+    this.orderStateMachine.publishTransition(
+      updatedOrder,
+      order.order_status,
+      OrderStatus.CANCELLED,
+      transition,
+    );
 
     this.logger.log(`Order ${orderId} cancelled successfully`);
     return this.mapToOrderResponse(updatedOrder);
@@ -1077,6 +768,299 @@ export class OrderService {
     return orders.map(order => this.mapToOrderResponse(order));
   }
 
+  /**
+   * Just-in-time payments are taken while the customer is away, so only
+   * methods that need no hosted payment page are allowed
+   */
+  async assertJustInTimePayment(
+    customerId: string,
+    paymentMethod: PaymentMethod,
+    savedCardId?: string | null,
+  ): Promise<void> {
+    if (
+      paymentMethod !== PaymentMethod.WALLET &&
+      paymentMethod !== PaymentMethod.CARD_SAVED
+    ) {
+      throw new BadRequestException(
+        'Just-in-time payment needs the WALLET or CARD_SAVED payment method',
+      );
+    }
+    if (paymentMethod === PaymentMethod.CARD_SAVED) {
+      await this.paymentService.resolveSavedCard(customerId, savedCardId);
+    }
+  }
+
+  /**
+   * Place the order for one occurrence of a recurring order. Items are
+   * repriced from the menu, delivery is quoted afresh and the order is paid
+   * just in time like any other scheduled order.
+   */
+  async placeRecurringOrder(
+    recurring: RecurringOrder,
+    scheduledFor: Date,
+  ): Promise<Order> {
+    const vendor = await this.validateVendorExistsAndActive(
+      recurring.vendor_id,
+      scheduledFor,
+    );
+    const lines = await this.priceMenuSelections(
+      recurring.vendor_id,
+      recurring.items,
+    );
+    const subtotal = roundMoney(
+      lines.reduce((sum, line) => sum + Number(line.total_price), 0),
+    );
+
+    const feeBreakdown = await this.feeCalculator.calculate({
+      vendor_id: vendor.id,
+      order_type: recurring.order_type,
+      country: vendor.address?.country || null,
+      lines: lines.map(line => ({
+        category_id: line.menu_item?.category_id,
+        amount: Number(line.total_price),
+      })),
+    });
+
+    let deliveryQuoteId: string | null = null;
+    let deliveryFee = 0;
+    if (recurring.order_type === OrderType.DELIVERY) {
+      const deliveryQuote = await this.deliveryService.quoteDeliveryForAddress(
+        vendor,
+        recurring.customer_id,
+        recurring.delivery_address_id,
+        lines,
+        subtotal,
+      );
+      deliveryQuoteId = deliveryQuote.id;
+      deliveryFee = Number(deliveryQuote.fee);
+    }
+
+    const orderNumber = await this.orderRepository.generateOrderNumber();
+    const order = await this.persistOrder(
+      vendor,
+      {
+        order_number: orderNumber,
+        customer_id: recurring.customer_id,
+        vendor_id: vendor.id,
+        delivery_address_id:
+          recurring.order_type === OrderType.PICKUP
+            ? null
+            : recurring.delivery_address_id,
+        order_status: OrderStatus.NEW,
+        order_type: recurring.order_type,
+        payment_method: recurring.payment_method,
+        payment_status: PaymentStatus.PENDING,
+        subtotal,
+        delivery_fee: deliveryFee,
+        discount_amount: 0,
+        total_amount: roundMoney(
+          subtotal + deliveryFee + feeBreakdown.service_fee.amount,
+        ),
+        currency: getCurrencyForCountry(vendor.address.country),
+        fee_breakdown: feeBreakdown,
+        special_instructions: recurring.delivery_instructions,
+        vendor_notes: recurring.vendor_notes,
+        delivery_quote_id: deliveryQuoteId,
+        scheduled_for: scheduledFor,
+        payment_timing: ScheduledPaymentTiming.JUST_IN_TIME,
+        saved_card_id: recurring.saved_card_id,
+        recurring_order_id: recurring.id,
+      },
+      lines,
+    );
+
+    const completeOrder = await this.orderRepository.findById(order.id);
+    this.eventEmitter.emit(
+      ORDER_EVENTS.CREATED,
+      new OrderCreatedEvent(completeOrder),
+    );
+
+    this.logger.log(
+      `Recurring order ${recurring.id} placed order ${
+        order.id
+      } for ${scheduledFor.toISOString()}`,
+    );
+    return completeOrder;
+  }
+
+  /**
+   * Charge a just-in-time scheduled order with the customer's wallet or
+   * saved card. Only a definite decline cancels the order; a card that needs
+   * the customer to authenticate is left for the webhook to settle, and
+   * anything else for cancelUnpaidOrders at the slot time.
+   */
+  async chargeScheduledOrder(orderId: string): Promise<boolean> {
+    const order = await this.orderRepository.findById(orderId);
+    if (
+      !order ||
+      order.order_status !== OrderStatus.NEW ||
+      order.payment_status !== PaymentStatus.PENDING
+    ) {
+      return false;
+    }
+
+    if (await this.paymentService.hasPaymentForOrder(order.id)) {
+      return false;
+    }
+
+    try {
+      const paymentResult = await this.paymentService.processPayment({
+        order_id: order.id,
+        payment_method: order.payment_method,
+        currency: order.currency,
+        saved_card_id: order.saved_card_id ?? undefined,
+      });
+
+      this.logger.log(
+        `Scheduled order ${order.id} charged: ${paymentResult.status}`,
+      );
+      return paymentResult.status === PaymentTransactionStatus.COMPLETED;
+    } catch (error) {
+      this.logger.error(
+        `Payment for scheduled order ${order.id} failed: ${error.message}`,
+      );
+      // Declines and insufficient balance surface as BadRequestException
+      if (error instanceof BadRequestException) {
+        await this.cancelUnpaidOrder(
+          order.id,
+          `Payment failed: ${error.message}`,
+        );
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Cancel an order that was never paid (a scheduled order whose charge
+   * failed, a group order whose checkout payment failed) and put its stock
+   * back
+   */
+  async cancelUnpaidOrder(orderId: string, reason: string): Promise<void> {
+    const order = await this.orderRepository.findById(orderId);
+    if (
+      !order ||
+      order.payment_status === PaymentStatus.PAID ||
+      !this.orderStateMachine.canTransition(
+        OrderStatusActor.SYSTEM,
+        order.order_status,
+        OrderStatus.CANCELLED,
+      )
+    ) {
+      return;
+    }
+
+    const updatedOrder = await this.orderRepository.update(orderId, {
+      order_status: OrderStatus.CANCELLED,
+      cancelled_at: new Date(),
+      cancellation_reason: reason,
+      cancelled_by: 'SYSTEM',
+    });
+
+    const transition: OrderTransitionContext = {
+      actor: OrderStatusActor.SYSTEM,
+      reason,
+    };
+    await this.orderStateMachine.recordTransition(
+      orderId,
+      order.order_status,
+      OrderStatus.CANCELLED,
+      transition,
+    );
+
+    await this.menuInventoryService.releaseOrderStockSafely(orderId);
+
+    this.orderStateMachine.publishTransition(
+      updatedOrder,
+      order.order_status,
+      OrderStatus.CANCELLED,
+      transition,
+    );
+
+    this.logger.log(`Unpaid order ${orderId} cancelled: ${reason}`);
+  }
+
+  /**
+   * Place and pay the single order for a locked group order. Totals are the
+   * ones fixed at lock time, which split shares were calculated from; the
+   * host pays with their wallet or a saved card. In SPLIT mode the shares
+   * held in escrow pay their part in the same transaction as the host's
+   * wallet.
+   */
+  async placeGroupOrder(
+    group: GroupOrder,
+    lines: OrderLine[],
+    payment: {
+      payment_method: PaymentMethod;
+      saved_card_id?: string;
+      escrow_amount?: number;
+    },
+  ): Promise<Order> {
+    const vendor = await this.validateVendorExistsAndActive(group.vendor_id);
+
+    const orderNumber = await this.orderRepository.generateOrderNumber();
+    const order = await this.persistOrder(
+      vendor,
+      {
+        order_number: orderNumber,
+        customer_id: group.host_id,
+        vendor_id: group.vendor_id,
+        delivery_address_id:
+          group.order_type === OrderType.PICKUP
+            ? null
+            : group.delivery_address_id,
+        order_status: OrderStatus.NEW,
+        order_type: group.order_type,
+        payment_method: payment.payment_method,
+        payment_status: PaymentStatus.PENDING,
+        subtotal: Number(group.subtotal),
+        delivery_fee: Number(group.delivery_fee),
+        discount_amount: 0,
+        total_amount: Number(group.total_amount),
+        currency: group.currency,
+        fee_breakdown: group.fee_breakdown,
+        special_instructions: group.delivery_instructions,
+        vendor_notes: group.vendor_notes,
+        delivery_quote_id: group.delivery_quote_id,
+        group_order_id: group.id,
+      },
+      lines,
+    );
+
+    try {
+      await this.paymentService.processPayment(
+        {
+          order_id: order.id,
+          payment_method: payment.payment_method,
+          currency: group.currency,
+          saved_card_id: payment.saved_card_id,
+        },
+        { escrow_amount: payment.escrow_amount },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Payment for group order ${group.id} failed: ${error.message}`,
+      );
+      await this.cancelUnpaidOrder(
+        order.id,
+        `Payment failed: ${error.message}`,
+      );
+      throw new BadRequestException(
+        `Payment processing failed for order ${order.id}: ${error.message}`,
+      );
+    }
+
+    const completeOrder = await this.orderRepository.findById(order.id);
+    this.eventEmitter.emit(
+      ORDER_EVENTS.CREATED,
+      new OrderCreatedEvent(completeOrder),
+    );
+
+    this.logger.log(
+      `Group order ${group.id} placed as order ${order.id} (${orderNumber})`,
+    );
+    return completeOrder;
+  }
+
   // private calculateDeliveryFee(orderType: OrderType, subtotal: number): number {
   //   if (orderType === OrderType.PICKUP) {
   //     return 0;
@@ -1086,6 +1070,213 @@ export class OrderService {
   //   return subtotal < 1000 ? 200 : 100;
   // }
 
+  /**
+   * Prices the customer's cart for this vendor exactly as createOrder
+   * would and signs the result. Problems that would stop checkout are
+   * returned as issues instead of errors, and no token is issued then.
+   */
+  async quoteOrder(
+    customerId: string,
+    createOrderDto: CreateOrderDto,
+  ): Promise<OrderQuoteResponseDto> {
+    // Inactive or closed vendors show up as cart issues
+    const vendor = await this.vendorService.getVendorById(
+      createOrderDto.vendor_id,
+    );
+    if (!vendor) {
+      throw new NotFoundException('Vendor not found');
+    }
+
+    const pricing = await this.priceOrder(customerId, createOrderDto, vendor, {
+      quoteOnly: true,
+    });
+    const isValid = pricing.issues.length === 0;
+    const signed = isValid
+      ? this.orderQuoteService.sign(
+          this.buildQuotePayload(customerId, createOrderDto, pricing),
+        )
+      : null;
+
+    return {
+      quote_token: signed?.token ?? null,
+      expires_at: signed?.expires_at ?? null,
+      is_valid: isValid,
+      issues: pricing.issues,
+      vendor_id: pricing.vendorId,
+      order_type: createOrderDto.order_type,
+      payment_method: createOrderDto.payment_method,
+      currency: pricing.currency,
+      items: pricing.cartItems.map(cartItem => ({
+        cart_item_id: cartItem.id,
+        menu_item_id: cartItem.menu_item_id,
+        name: cartItem.menu_item?.name || 'Unknown',
+        quantity: cartItem.quantity,
+        unit_price: Number(cartItem.unit_price),
+        total_price: Number(cartItem.total_price),
+      })),
+      subtotal: roundMoney(pricing.subtotal),
+      coupon_code: pricing.couponCode ?? null,
+      discount_amount: roundMoney(pricing.discountAmount),
+      delivery_fee: roundMoney(pricing.deliveryFee),
+      service_fee: roundMoney(pricing.serviceFee),
+      tax_amount: roundMoney(pricing.taxAmount),
+      total_amount: roundMoney(pricing.totalAmount),
+      fee_breakdown: pricing.feeBreakdown,
+    };
+  }
+
+  /**
+   * Works out what an order for the customer's cart with this vendor costs.
+   * Checkout throws on the first problem; quotes collect them as issues.
+   */
+  private async priceOrder(
+    customerId: string,
+    createOrderDto: CreateOrderDto,
+    vendor: Vendor,
+    options: { quoteOnly?: boolean; at?: Date } = {},
+  ): Promise<OrderPricing> {
+    // get vendor currency from vendor country
+    const currency = getCurrencyForCountry(vendor.address.country);
+
+    let deliveryFee = 0;
+    if (createOrderDto.order_type === OrderType.DELIVERY) {
+      const deliveryQuote = await this.deliveryQuoteService.getQuoteById(
+        createOrderDto.delivery_quote_id,
+      );
+      if (!deliveryQuote) {
+        throw new NotFoundException('Delivery quote not found');
+      }
+      deliveryFee = Number(deliveryQuote.fee);
+    }
+
+    // get all cart items for this vendor
+    const { items } = await this.cartService.getCartByVendor(
+      customerId,
+      createOrderDto.vendor_id,
+    );
+
+    // Validate cart items for checkout
+    const cartValidation = await this.cartService.validateCartItemsForCheckout(
+      customerId,
+      items.map(item => item.id),
+      options.at,
+    );
+
+    this.logger.log(`Cart validation: ${JSON.stringify(cartValidation)}`);
+
+    if (!cartValidation.is_valid && !options.quoteOnly) {
+      throw new BadRequestException(
+        `Cart validation failed: ${cartValidation.issues.join(', ')}`,
+      );
+    }
+
+    const { cartItems, subtotal } = cartValidation;
+    const vendorId = cartValidation.vendorId || createOrderDto.vendor_id;
+    const issues = [...cartValidation.issues];
+
+    this.logger.log(`Delivery fee: ${deliveryFee}`);
+
+    // Service fee and vendor commission from the fee rules; the breakdown
+    // is kept on the order so settlement and refunds use the same figures
+    const feeBreakdown = await this.feeCalculator.calculate({
+      vendor_id: vendorId,
+      order_type: createOrderDto.order_type,
+      country: vendor.address?.country || null,
+      lines: cartItems.map(cartItem => ({
+        category_id: cartItem.menu_item?.category_id,
+        amount: Number(cartItem.total_price),
+      })),
+    });
+    const serviceFee = feeBreakdown.service_fee.amount;
+
+    // Re-validate any coupon the customer applied to this vendor's cart
+    const coupon = await this.resolveAppliedCoupon(
+      customerId,
+      vendorId,
+      subtotal,
+      options,
+    );
+    if (coupon.issue) {
+      issues.push(coupon.issue);
+    }
+
+    // Menu prices include tax, so nothing is added on top
+    const taxAmount = 0;
+
+    const totalAmount =
+      Number(subtotal) -
+      Number(coupon.discountAmount) +
+      Number(deliveryFee) +
+      Number(serviceFee) +
+      taxAmount;
+
+    return {
+      currency,
+      cartItems,
+      vendorId,
+      subtotal: Number(subtotal),
+      couponId: coupon.couponId,
+      couponCode: coupon.couponCode,
+      discountAmount: Number(coupon.discountAmount),
+      deliveryFee,
+      feeBreakdown,
+      serviceFee,
+      taxAmount,
+      totalAmount,
+      issues,
+    };
+  }
+
+  private buildQuotePayload(
+    customerId: string,
+    createOrderDto: CreateOrderDto,
+    pricing: OrderPricing,
+  ): Omit<OrderQuotePayload, 'exp'> {
+    return {
+      customer_id: customerId,
+      vendor_id: pricing.vendorId,
+      order_type: createOrderDto.order_type,
+      payment_method: createOrderDto.payment_method,
+      delivery_quote_id:
+        createOrderDto.order_type === OrderType.DELIVERY
+          ? createOrderDto.delivery_quote_id || null
+          : null,
+      cart_fingerprint: this.orderQuoteService.fingerprintCart(
+        pricing.cartItems,
+      ),
+      currency: pricing.currency,
+      subtotal: roundMoney(pricing.subtotal),
+      discount_amount: roundMoney(pricing.discountAmount),
+      delivery_fee: roundMoney(pricing.deliveryFee),
+      service_fee: roundMoney(pricing.serviceFee),
+      tax_amount: roundMoney(pricing.taxAmount),
+      total_amount: roundMoney(pricing.totalAmount),
+    };
+  }
+
+  private assertMatchesQuote(
+    customerId: string,
+    createOrderDto: CreateOrderDto,
+    pricing: OrderPricing,
+  ): void {
+    const quote = this.orderQuoteService.verify(createOrderDto.quote_token);
+    const current = this.buildQuotePayload(customerId, createOrderDto, pricing);
+
+    const changed = Object.keys(current).filter(
+      key => current[key] !== quote[key],
+    );
+    if (changed.length > 0) {
+      this.logger.warn(
+        `Order quote for customer ${customerId} no longer matches: ${changed.join(
+          ', ',
+        )}`,
+      );
+      throw new ConflictException(
+        'Your order has changed since it was quoted. Please review the new total and try again.',
+      );
+    }
+  }
+
   private calculateServiceFee(subtotal: number): number {
     // 5% service fee
     return (subtotal * this.serviceFeePercentage) / 100;
@@ -1101,70 +1292,320 @@ export class OrderService {
     return subtotal * 0.15;
   }
 
-  private validateStatusTransition(
-    currentStatus: OrderStatus,
-    newStatus: OrderStatus,
-  ): void {
-    const validTransitions: Record<OrderStatus, OrderStatus[]> = {
-      [OrderStatus.NEW]: [
-        OrderStatus.CONFIRMED,
-        OrderStatus.CANCELLED,
-        OrderStatus.PREPARING,
-        OrderStatus.READY,
-      ],
-      [OrderStatus.CONFIRMED]: [
-        OrderStatus.PREPARING,
-        OrderStatus.CANCELLED,
-        OrderStatus.READY,
-        OrderStatus.PREPARING,
-        OrderStatus.OUT_FOR_DELIVERY,
-      ],
-      [OrderStatus.PREPARING]: [
-        OrderStatus.READY,
-        OrderStatus.CANCELLED,
-        OrderStatus.OUT_FOR_DELIVERY,
-      ],
-      [OrderStatus.READY]: [
-        OrderStatus.OUT_FOR_DELIVERY,
-        OrderStatus.CANCELLED,
-        OrderStatus.DELIVERED,
-      ],
-      [OrderStatus.OUT_FOR_DELIVERY]: [
-        OrderStatus.DELIVERED,
-        OrderStatus.CANCELLED,
-      ],
-      [OrderStatus.DELIVERED]: [], // Final state
-      [OrderStatus.CANCELLED]: [], // Final state
-      [OrderStatus.REFUNDED]: [], // Final state
+  /**
+   * Looks up the coupon applied to the customer's cart for this vendor and
+   * re-validates it against the checkout subtotal. Quotes report a coupon
+   * that no longer applies instead of removing it.
+   */
+  private async resolveAppliedCoupon(
+    customerId: string,
+    vendorId: string,
+    subtotal: number,
+    options: { quoteOnly?: boolean } = {},
+  ): Promise<{
+    couponId?: string;
+    couponCode?: string;
+    discountAmount: number;
+    issue?: string;
+  }> {
+    const [appliedCoupon] = await this.cartService.getAppliedCoupons(
+      customerId,
+      vendorId,
+    );
+    if (!appliedCoupon) {
+      return { discountAmount: 0 };
+    }
+
+    const validation = await this.couponService.validateCoupon(
+      appliedCoupon.code,
+      customerId,
+      Number(subtotal),
+      vendorId,
+    );
+
+    if (!validation.valid) {
+      const issue = `Coupon ${appliedCoupon.code} can no longer be applied: ${validation.error}`;
+      if (options.quoteOnly) {
+        return { discountAmount: 0, issue };
+      }
+
+      await this.cartService.removeCouponFromCart(customerId, vendorId);
+      throw new BadRequestException(issue);
+    }
+
+    return {
+      couponId: validation.coupon.id,
+      couponCode: appliedCoupon.code,
+      discountAmount: Number(validation.discount_amount),
     };
+  }
 
-    if (!validTransitions[currentStatus].includes(newStatus)) {
+  private async validateVendorExistsAndActive(
+    vendorId: string,
+    scheduledFor?: Date,
+  ): Promise<Vendor> {
+    const vendor = await this.vendorService.getVendorById(vendorId);
+    if (!vendor) {
+      throw new NotFoundException('Vendor not found');
+    }
+    if (!vendor.is_active) {
+      throw new BadRequestException('Vendor is not active');
+    }
+    if (!scheduledFor) {
+      await this.vendorAvailabilityService.assertVendorOpen(vendor);
+      return vendor;
+    }
+
+    const availability = await this.vendorAvailabilityService.getAvailability(
+      vendor,
+      scheduledFor,
+    );
+    if (!availability.is_open_now) {
+      const reason = availability.closed_reason
+        ? ` (${availability.closed_reason})`
+        : '';
+      const opens = availability.next_opening_at
+        ? ` The next available time is ${availability.next_opening_at.toISOString()}.`
+        : '';
       throw new BadRequestException(
-        `Invalid status transition from ${currentStatus} to ${newStatus}`,
+        `"${
+          vendor.business_name
+        }" is not open at ${scheduledFor.toISOString()}${reason}.${opens}`,
       );
     }
+    return vendor;
   }
 
-  private canCustomerCancel(status: OrderStatus): boolean {
-    return [OrderStatus.NEW, OrderStatus.CONFIRMED].includes(status);
+  /**
+   * Gift details for a new order. Gifts delivered to someone else get a
+   * token for the public tracking link.
+   */
+  private resolveGift(
+    createOrderDto: CreateOrderDto,
+  ): Pick<Order, 'is_gift' | 'gift_recipient_name' | 'tracking_token'> {
+    const isGift =
+      !!createOrderDto.is_gift &&
+      createOrderDto.order_type === OrderType.DELIVERY;
+
+    return {
+      is_gift: isGift,
+      gift_recipient_name: isGift
+        ? createOrderDto.gift_recipient_name || null
+        : null,
+      tracking_token: isGift ? randomBytes(24).toString('hex') : null,
+    };
+  }
+
+  /**
+   * Customers may set a drop-off PIN on delivery orders worth at least the
+   * configured amount in the order's currency
+   */
+  private resolveDeliveryPin(
+    createOrderDto: CreateOrderDto,
+    totalAmount: number,
+    currency: string,
+  ): string | null {
+    if (!createOrderDto.delivery_pin) {
+      return null;
+    }
+    if (createOrderDto.order_type !== OrderType.DELIVERY) {
+      throw new BadRequestException(
+        'A delivery PIN can only be set on delivery orders',
+      );
+    }
+
+    const minOrderValue = this.getDeliveryPinMinOrderValue(currency);
+    if (minOrderValue === null || totalAmount < minOrderValue) {
+      throw new BadRequestException(
+        minOrderValue === null
+          ? `Delivery PINs are not available for ${currency} orders`
+          : `Delivery PINs are only available on orders of ${currency} ${minOrderValue} or more`,
+      );
+    }
+    return createOrderDto.delivery_pin;
   }
 
-  private canVendorCancel(status: OrderStatus): boolean {
-    return [
-      OrderStatus.NEW,
-      OrderStatus.CONFIRMED,
-      OrderStatus.PREPARING,
-    ].includes(status);
+  /**
+   * Minimum order total for a delivery PIN, from entries like "NGN:50000"
+   */
+  private getDeliveryPinMinOrderValue(currency: string): number | null {
+    const entries = (
+      this.configService.get<string>('proofOfDelivery.pinMinOrderValues') || ''
+    ).split(',');
+    for (const entry of entries) {
+      const [code, value] = entry.split(':').map(part => part.trim());
+      if (code?.toUpperCase() === currency?.toUpperCase() && value) {
+        const amount = Number(value);
+        return Number.isFinite(amount) ? amount : null;
+      }
+    }
+    return null;
   }
 
-  private async validateVendorExistsAndActive(vendorId: string): Promise<void> {
-    const vendor = await this.vendorService.getVendorById(vendorId);
-    if (!vendor) {
-      throw new NotFoundException('Vendor not found');
+  /**
+   * Parse the requested slot and check it is within the booking window
+   */
+  private resolveScheduledSlot(value?: string): Date | null {
+    if (!value) {
+      return null;
     }
-    if (!vendor.is_active) {
-      throw new BadRequestException('Vendor is not active');
+
+    const scheduledFor = new Date(value);
+    const minLeadMinutes =
+      this.configService.get<number>('scheduledOrders.minLeadMinutes') ?? 60;
+    const maxDaysAhead =
+      this.configService.get<number>('scheduledOrders.maxDaysAhead') ?? 14;
+
+    if (scheduledFor.getTime() < Date.now() + minLeadMinutes * 60 * 1000) {
+      throw new BadRequestException(
+        `Scheduled orders must be at least ${minLeadMinutes} minutes ahead`,
+      );
+    }
+    if (
+      scheduledFor.getTime() >
+      Date.now() + maxDaysAhead * 24 * 60 * 60 * 1000
+    ) {
+      throw new BadRequestException(
+        `Orders can be scheduled up to ${maxDaysAhead} days ahead`,
+      );
+    }
+    return scheduledFor;
+  }
+
+  /**
+   * Create the order, its items, stock reservations and coupon usage
+   * atomically
+   */
+  private async persistOrder(
+    vendor: Vendor,
+    orderData: Partial<Order>,
+    lines: OrderLine[],
+    coupon?: { couponId: string; discountAmount: number },
+  ): Promise<Order> {
+    return await this.orderRepository.transaction(async manager => {
+      const reservations = await this.menuInventoryService.reserveStock(
+        vendor,
+        lines,
+        manager,
+      );
+
+      const createdOrder = await this.orderRepository.create(
+        orderData,
+        manager,
+      );
+
+      for (const line of lines) {
+        await this.orderRepository.createOrderItem(
+          {
+            order_id: createdOrder.id,
+            menu_item_id: line.menu_item_id,
+            quantity: line.quantity,
+            unit_price: line.unit_price,
+            total_price: line.total_price,
+            cart_item_id: line.id,
+            selected_options: line.selected_options,
+            reserved_quantity: reservations.has(line.menu_item_id)
+              ? line.quantity
+              : 0,
+            reserved_business_day:
+              reservations.get(line.menu_item_id)?.business_day ?? null,
+            group_participant_id: line.group_participant_id ?? null,
+            group_participant_name: line.group_participant_name ?? null,
+          },
+          manager,
+        );
+      }
+
+      await this.orderStateMachine.recordTransition(
+        createdOrder.id,
+        null,
+        OrderStatus.NEW,
+        { actor: OrderStatusActor.CUSTOMER, actor_id: orderData.customer_id },
+        manager,
+      );
+
+      if (coupon) {
+        const claimed = await this.couponRepository.incrementUsageCount(
+          coupon.couponId,
+          manager,
+        );
+        if (!claimed) {
+          throw new BadRequestException(
+            'Applied coupon has reached its usage limit',
+          );
+        }
+
+        await this.couponRepository.recordUsage(
+          coupon.couponId,
+          orderData.customer_id,
+          coupon.discountAmount,
+          createdOrder.id,
+          manager,
+        );
+        await this.couponRepository.removeAppliedCoupons(
+          orderData.customer_id,
+          orderData.vendor_id,
+          manager,
+        );
+      }
+
+      return createdOrder;
+    });
+  }
+
+  /**
+   * Price saved selections (recurring and group orders) from the current
+   * menu. Lines that can no longer be ordered throw rather than being
+   * dropped, so nobody is charged for a different order than they chose.
+   */
+  async priceMenuSelections(
+    vendorId: string,
+    selections: RecurringOrderItem[],
+  ): Promise<CartItem[]> {
+    const lines: CartItem[] = [];
+
+    for (const item of selections) {
+      const menuItem = await this.menuItemRepository.findById(
+        item.menu_item_id,
+      );
+      if (!menuItem || menuItem.vendor_id !== vendorId) {
+        throw new BadRequestException(
+          "An item is no longer on this vendor's menu",
+        );
+      }
+      if (!menuItem.is_available) {
+        throw new BadRequestException(
+          `"${menuItem.name}" is not available for ordering`,
+        );
+      }
+
+      const { unit_price, unavailable_options } =
+        await this.menuModifierService.repriceSelection(
+          menuItem,
+          item.selected_options,
+        );
+      if (unavailable_options.length > 0) {
+        throw new BadRequestException(
+          `${unavailable_options.join(', ')} for "${
+            menuItem.name
+          }" is no longer available`,
+        );
+      }
+
+      lines.push(
+        Object.assign(new CartItem(), {
+          menu_item_id: menuItem.id,
+          menu_item: menuItem,
+          vendor_id: vendorId,
+          quantity: item.quantity,
+          unit_price,
+          total_price: roundMoney(unit_price * item.quantity),
+          selected_options: item.selected_options,
+        }),
+      );
     }
+
+    return lines;
   }
 
   private mapToOrderResponse(
@@ -1172,7 +1613,9 @@ export class OrderService {
     options?: { isForAdmin?: boolean },
   ): OrderResponseDto {
     // add service fee to response
-    const service_fee = this.calculateServiceFee(order.subtotal);
+    const service_fee =
+      order.fee_breakdown?.service_fee.amount ??
+      this.calculateServiceFee(order.subtotal);
     return {
       id: order.id,
       order_number: order.order_number,
@@ -1194,8 +1637,11 @@ export class OrderService {
       payment_reference: order.payment_reference,
       subtotal: order.subtotal,
       delivery_fee: order.delivery_fee,
+      discount_amount: order.discount_amount,
+      coupon_id: order.coupon_id,
       total_amount: order.total_amount,
       tracking_url: order.delivery_quote?.labelUrl,
+      tracking_number: order.delivery_quote?.trackingNumber,
       currency: order.currency,
       estimated_prep_time_minutes: order.estimated_prep_time_minutes,
       estimated_delivery_time: order.estimated_delivery_time,
@@ -1208,7 +1654,18 @@ export class OrderService {
       delivery_notes: order.delivery_notes,
       customer_rating: order.customer_rating,
       customer_review: order.customer_review,
+      can_be_rated: order.can_be_rated,
       vendor_notes: order.vendor_notes,
+      scheduled_for: order.scheduled_for ?? null,
+      payment_timing: order.payment_timing ?? null,
+      recurring_order_id: order.recurring_order_id ?? null,
+      group_order_id: order.group_order_id ?? null,
+      is_gift: order.is_gift ?? false,
+      gift_recipient_name: order.gift_recipient_name ?? null,
+      delivery_pin_required: !!order.delivery_pin,
+      participants: order.group_order_id
+        ? this.groupItemsByParticipant(order.order_items || [])
+        : undefined,
       created_at: order.created_at,
       updated_at: order.updated_at,
       order_items:
@@ -1254,10 +1711,31 @@ export class OrderService {
       quantity: orderItem.quantity,
       unit_price: orderItem.unit_price,
       total_price: orderItem.total_price,
+      selected_options: orderItem.selected_options || [],
+      group_participant_id: orderItem.group_participant_id ?? null,
+      group_participant_name: orderItem.group_participant_name ?? null,
       created_at: orderItem.created_at,
     };
   }
 
+  private groupItemsByParticipant(
+    orderItems: OrderItem[],
+  ): OrderParticipantItemsDto[] {
+    const groups = new Map<string, OrderParticipantItemsDto>();
+    for (const item of orderItems) {
+      const participantId = item.group_participant_id ?? 'unassigned';
+      if (!groups.has(participantId)) {
+        groups.set(participantId, {
+          participant_id: participantId,
+          participant_name: item.group_participant_name || 'Unknown',
+          items: [],
+        });
+      }
+      groups.get(participantId).items.push(this.mapToOrderItemResponse(item));
+    }
+    return [...groups.values()];
+  }
+
   private async getDeliveryQuoteForOrder(
     vendor: any,
     deliveryAddress: any,
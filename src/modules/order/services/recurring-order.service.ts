@@ -0,0 +1,523 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import {
+  OrderType,
+  PaymentMethod,
+  RecurringOrder,
+  RecurringOrderStatus,
+} from 'src/entities';
+import { CartService } from 'src/modules/cart/services/cart.service';
+import { AddressService } from 'src/modules/user/services/address.service';
+import { VendorService } from 'src/modules/vendor/services/vendor.service';
+import { VendorAvailabilityService } from 'src/modules/vendor/services/vendor-availability.service';
+import {
+  getZonedDateParts,
+  isValidTimeZone,
+  parseTimeOfDay,
+  zonedTimeToUtc,
+} from 'src/utils/timezone';
+import {
+  CreateRecurringOrderDto,
+  RecurringOrderResponseDto,
+  UpdateRecurringOrderDto,
+} from '../dto';
+import { ORDER_EVENTS, RecurringOrderPausedEvent } from '../events';
+import { OrderRepository } from '../repositories/order.repository';
+import { OrderService } from './order.service';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Standing orders such as "every weekday at 12:30". Occurrences are turned
+ * into scheduled orders ahead of their slot and paid just in time.
+ */
+@Injectable()
+export class RecurringOrderService {
+  private readonly logger = new Logger(RecurringOrderService.name);
+  private isGenerating = false;
+
+  constructor(
+    @InjectRepository(RecurringOrder)
+    private readonly recurringOrderRepository: Repository<RecurringOrder>,
+    private readonly orderService: OrderService,
+    private readonly orderRepository: OrderRepository,
+    private readonly cartService: CartService,
+    private readonly addressService: AddressService,
+    private readonly vendorService: VendorService,
+    private readonly vendorAvailabilityService: VendorAvailabilityService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Set up a recurring order from the customer's current cart with a vendor
+   */
+  async createRecurringOrder(
+    customerId: string,
+    dto: CreateRecurringOrderDto,
+  ): Promise<RecurringOrderResponseDto> {
+    const vendor = await this.vendorService.getVendorById(dto.vendor_id);
+    if (!vendor || !vendor.is_active) {
+      throw new NotFoundException('Vendor not found');
+    }
+
+    const { items } = await this.cartService.getCartByVendor(
+      customerId,
+      dto.vendor_id,
+    );
+    if (items.length === 0) {
+      throw new BadRequestException(
+        'Add items from this vendor to your cart first',
+      );
+    }
+
+    const timezone = dto.timezone || vendor.timezone;
+    this.assertTimeZone(timezone);
+    await this.orderService.assertJustInTimePayment(
+      customerId,
+      dto.payment_method,
+      dto.saved_card_id,
+    );
+    if (dto.order_type === OrderType.DELIVERY) {
+      await this.addressService.getAddressById(
+        customerId,
+        dto.delivery_address_id,
+      );
+    }
+
+    const recurring = this.recurringOrderRepository.create({
+      customer_id: customerId,
+      vendor_id: dto.vendor_id,
+      order_type: dto.order_type,
+      delivery_address_id:
+        dto.order_type === OrderType.DELIVERY ? dto.delivery_address_id : null,
+      payment_method: dto.payment_method,
+      saved_card_id: dto.saved_card_id || null,
+      items: items.map(item => ({
+        menu_item_id: item.menu_item_id,
+        quantity: item.quantity,
+        selected_options: item.selected_options || [],
+      })),
+      days_of_week: [...dto.days_of_week].sort((a, b) => a - b),
+      time_of_day: dto.time_of_day,
+      timezone,
+      status: RecurringOrderStatus.ACTIVE,
+      ends_at: dto.ends_at ? new Date(dto.ends_at) : null,
+      delivery_instructions: dto.delivery_instructions || null,
+      vendor_notes: dto.vendor_notes || null,
+    });
+
+    recurring.next_occurrence_at = this.computeNextOccurrence(
+      recurring,
+      this.getEarliestSlot(),
+    );
+    if (!recurring.next_occurrence_at) {
+      throw new BadRequestException(
+        'The schedule has no occurrences before it ends',
+      );
+    }
+
+    const saved = await this.recurringOrderRepository.save(recurring);
+    this.logger.log(
+      `Recurring order ${saved.id} created for customer ${customerId}`,
+    );
+    return this.mapToResponse(saved);
+  }
+
+  async getRecurringOrders(
+    customerId: string,
+  ): Promise<RecurringOrderResponseDto[]> {
+    const recurringOrders = await this.recurringOrderRepository.find({
+      where: { customer_id: customerId },
+      order: { created_at: 'DESC' },
+    });
+    return recurringOrders.map(recurring => this.mapToResponse(recurring));
+  }
+
+  async getRecurringOrder(
+    customerId: string,
+    id: string,
+  ): Promise<RecurringOrderResponseDto> {
+    return this.mapToResponse(await this.findOwned(customerId, id));
+  }
+
+  async updateRecurringOrder(
+    customerId: string,
+    id: string,
+    dto: UpdateRecurringOrderDto,
+  ): Promise<RecurringOrderResponseDto> {
+    const recurring = await this.findOwned(customerId, id);
+    this.assertNotCancelled(recurring);
+
+    if (dto.timezone !== undefined) {
+      this.assertTimeZone(dto.timezone);
+      recurring.timezone = dto.timezone;
+    }
+    if (dto.days_of_week !== undefined) {
+      recurring.days_of_week = [...dto.days_of_week].sort((a, b) => a - b);
+    }
+    if (dto.time_of_day !== undefined) {
+      recurring.time_of_day = dto.time_of_day;
+    }
+    if (dto.ends_at !== undefined) {
+      recurring.ends_at = dto.ends_at ? new Date(dto.ends_at) : null;
+    }
+    if (dto.payment_method !== undefined || dto.saved_card_id !== undefined) {
+      const paymentMethod = dto.payment_method ?? recurring.payment_method;
+      const savedCardId =
+        dto.saved_card_id !== undefined
+          ? dto.saved_card_id
+          : recurring.saved_card_id;
+      await this.orderService.assertJustInTimePayment(
+        customerId,
+        paymentMethod,
+        savedCardId,
+      );
+      recurring.payment_method = paymentMethod;
+      recurring.saved_card_id =
+        paymentMethod === PaymentMethod.CARD_SAVED ? savedCardId || null : null;
+    }
+    if (dto.delivery_address_id !== undefined) {
+      if (recurring.order_type !== OrderType.DELIVERY) {
+        throw new BadRequestException(
+          'Pickup orders do not have a delivery address',
+        );
+      }
+      await this.addressService.getAddressById(
+        customerId,
+        dto.delivery_address_id,
+      );
+      recurring.delivery_address_id = dto.delivery_address_id;
+    }
+    if (dto.delivery_instructions !== undefined) {
+      recurring.delivery_instructions = dto.delivery_instructions || null;
+    }
+    if (dto.vendor_notes !== undefined) {
+      recurring.vendor_notes = dto.vendor_notes || null;
+    }
+
+    if (recurring.status === RecurringOrderStatus.ACTIVE) {
+      recurring.next_occurrence_at = this.computeNextOccurrence(
+        recurring,
+        await this.getRescheduleFrom(recurring),
+      );
+    }
+
+    const saved = await this.recurringOrderRepository.save(recurring);
+    return this.mapToResponse(saved);
+  }
+
+  async pauseRecurringOrder(
+    customerId: string,
+    id: string,
+  ): Promise<RecurringOrderResponseDto> {
+    const recurring = await this.findOwned(customerId, id);
+    this.assertNotCancelled(recurring);
+
+    recurring.status = RecurringOrderStatus.PAUSED;
+    recurring.next_occurrence_at = null;
+
+    const saved = await this.recurringOrderRepository.save(recurring);
+    return this.mapToResponse(saved);
+  }
+
+  async resumeRecurringOrder(
+    customerId: string,
+    id: string,
+  ): Promise<RecurringOrderResponseDto> {
+    const recurring = await this.findOwned(customerId, id);
+    this.assertNotCancelled(recurring);
+
+    const nextOccurrence = this.computeNextOccurrence(
+      recurring,
+      await this.getRescheduleFrom(recurring),
+    );
+    if (!nextOccurrence) {
+      throw new BadRequestException(
+        'The schedule has no occurrences before it ends',
+      );
+    }
+
+    recurring.status = RecurringOrderStatus.ACTIVE;
+    recurring.next_occurrence_at = nextOccurrence;
+    recurring.consecutive_failures = 0;
+    recurring.last_failure_reason = null;
+
+    const saved = await this.recurringOrderRepository.save(recurring);
+    return this.mapToResponse(saved);
+  }
+
+  /**
+   * Skip the next occurrence only; orders already placed are cancelled
+   * through the usual order endpoints
+   */
+  async skipNextOccurrence(
+    customerId: string,
+    id: string,
+  ): Promise<RecurringOrderResponseDto> {
+    const recurring = await this.findOwned(customerId, id);
+    if (!recurring.is_active || !recurring.next_occurrence_at) {
+      throw new BadRequestException('This recurring order has nothing to skip');
+    }
+
+    recurring.next_occurrence_at = this.computeNextOccurrence(
+      recurring,
+      recurring.next_occurrence_at,
+    );
+
+    const saved = await this.recurringOrderRepository.save(recurring);
+    return this.mapToResponse(saved);
+  }
+
+  async cancelRecurringOrder(customerId: string, id: string): Promise<void> {
+    const recurring = await this.findOwned(customerId, id);
+
+    recurring.status = RecurringOrderStatus.CANCELLED;
+    recurring.next_occurrence_at = null;
+    await this.recurringOrderRepository.save(recurring);
+  }
+
+  /**
+   * First slot strictly after `after` that falls on one of the schedule's
+   * days, or null when the schedule ends first
+   */
+  computeNextOccurrence(recurring: RecurringOrder, after: Date): Date | null {
+    const local = getZonedDateParts(after, recurring.timezone);
+    const minutes = parseTimeOfDay(recurring.time_of_day);
+
+    // Eight days covers a weekly schedule whose only day is today, already past
+    for (let offset = 0; offset <= 7; offset++) {
+      const dayOfWeek = (local.dayOfWeek + offset) % 7;
+      if (!recurring.days_of_week.includes(dayOfWeek)) {
+        continue;
+      }
+
+      const slot = zonedTimeToUtc(
+        local.year,
+        local.month,
+        local.day + offset,
+        minutes,
+        recurring.timezone,
+      );
+      if (slot <= after) {
+        continue;
+      }
+      if (recurring.ends_at && slot > new Date(recurring.ends_at)) {
+        return null;
+      }
+      return slot;
+    }
+
+    return null;
+  }
+
+  /**
+   * Place orders for occurrences coming up within the generation window.
+   * Each occurrence is claimed by moving next_occurrence_at on, so an
+   * occurrence is never placed twice.
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async generateDueOccurrences(): Promise<void> {
+    if (this.isGenerating) {
+      return;
+    }
+    this.isGenerating = true;
+
+    try {
+      const aheadHours =
+        this.configService.get<number>(
+          'scheduledOrders.recurringGenerateAheadHours',
+        ) ?? 24;
+      const due = await this.recurringOrderRepository.find({
+        where: {
+          status: RecurringOrderStatus.ACTIVE,
+          next_occurrence_at: LessThanOrEqual(
+            new Date(Date.now() + aheadHours * 60 * MINUTE_MS),
+          ),
+        },
+        order: { next_occurrence_at: 'ASC' },
+      });
+
+      for (const recurring of due) {
+        await this.generateOccurrence(recurring);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Recurring order generation failed: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.isGenerating = false;
+    }
+  }
+
+  private async generateOccurrence(recurring: RecurringOrder): Promise<void> {
+    const slot = new Date(recurring.next_occurrence_at);
+    const nextOccurrence = this.computeNextOccurrence(recurring, slot);
+
+    const claim = await this.recurringOrderRepository.update(
+      { id: recurring.id, next_occurrence_at: slot },
+      { next_occurrence_at: nextOccurrence },
+    );
+    if (!claim.affected) {
+      return;
+    }
+
+    // Occurrences missed while the job was not running are skipped; the
+    // slot is too close to charge for and prepare
+    if (slot < this.getEarliestSlot()) {
+      this.logger.warn(
+        `Recurring order ${
+          recurring.id
+        } missed its ${slot.toISOString()} occurrence`,
+      );
+      return;
+    }
+
+    // A closure at the slot (holiday, changed hours) skips the occurrence
+    // without counting as a failure
+    const vendor = await this.vendorService.getVendorById(recurring.vendor_id);
+    if (vendor) {
+      const availability = await this.vendorAvailabilityService.getAvailability(
+        vendor,
+        slot,
+      );
+      if (!availability.is_open_now) {
+        await this.recurringOrderRepository.update(recurring.id, {
+          last_failure_reason: `Vendor closed at ${slot.toISOString()}; occurrence skipped`,
+        });
+        return;
+      }
+    }
+
+    try {
+      const order = await this.orderService.placeRecurringOrder(
+        recurring,
+        slot,
+      );
+      await this.recurringOrderRepository.update(recurring.id, {
+        last_order_id: order.id,
+        consecutive_failures: 0,
+        last_failure_reason: null,
+      });
+    } catch (error) {
+      await this.recordFailure(recurring, error.message);
+    }
+  }
+
+  private async recordFailure(
+    recurring: RecurringOrder,
+    reason: string,
+  ): Promise<void> {
+    const maxFailures =
+      this.configService.get<number>(
+        'scheduledOrders.recurringMaxConsecutiveFailures',
+      ) ?? 3;
+    const failures = recurring.consecutive_failures + 1;
+
+    this.logger.warn(
+      `Recurring order ${recurring.id} occurrence failed (${failures}/${maxFailures}): ${reason}`,
+    );
+
+    if (failures < maxFailures) {
+      await this.recurringOrderRepository.update(recurring.id, {
+        consecutive_failures: failures,
+        last_failure_reason: reason,
+      });
+      return;
+    }
+
+    await this.recurringOrderRepository.update(recurring.id, {
+      consecutive_failures: failures,
+      last_failure_reason: reason,
+      status: RecurringOrderStatus.PAUSED,
+      next_occurrence_at: null,
+    });
+
+    recurring.last_failure_reason = reason;
+    this.eventEmitter.emit(
+      ORDER_EVENTS.RECURRING_PAUSED,
+      new RecurringOrderPausedEvent(recurring),
+    );
+  }
+
+  private getEarliestSlot(): Date {
+    const minLeadMinutes =
+      this.configService.get<number>('scheduledOrders.minLeadMinutes') ?? 60;
+    return new Date(Date.now() + minLeadMinutes * MINUTE_MS);
+  }
+
+  /**
+   * Point to look for the next slot from after a schedule change, past any
+   * occurrence that already has an order
+   */
+  private async getRescheduleFrom(recurring: RecurringOrder): Promise<Date> {
+    const earliest = this.getEarliestSlot();
+    if (!recurring.last_order_id) {
+      return earliest;
+    }
+
+    const lastOrder = await this.orderRepository.findById(
+      recurring.last_order_id,
+    );
+    if (lastOrder?.scheduled_for && lastOrder.scheduled_for > earliest) {
+      return new Date(lastOrder.scheduled_for);
+    }
+    return earliest;
+  }
+
+  private assertTimeZone(timezone: string): void {
+    if (!isValidTimeZone(timezone)) {
+      throw new BadRequestException(`Unknown timezone "${timezone}"`);
+    }
+  }
+
+  private assertNotCancelled(recurring: RecurringOrder): void {
+    if (recurring.status === RecurringOrderStatus.CANCELLED) {
+      throw new BadRequestException('This recurring order has been cancelled');
+    }
+  }
+
+  private async findOwned(
+    customerId: string,
+    id: string,
+  ): Promise<RecurringOrder> {
+    const recurring = await this.recurringOrderRepository.findOne({
+      where: { id, customer_id: customerId },
+    });
+    if (!recurring) {
+      throw new NotFoundException('Recurring order not found');
+    }
+    return recurring;
+  }
+
+  private mapToResponse(recurring: RecurringOrder): RecurringOrderResponseDto {
+    return {
+      id: recurring.id,
+      vendor_id: recurring.vendor_id,
+      order_type: recurring.order_type,
+      delivery_address_id: recurring.delivery_address_id ?? null,
+      payment_method: recurring.payment_method,
+      saved_card_id: recurring.saved_card_id ?? null,
+      items: recurring.items,
+      days_of_week: recurring.days_of_week,
+      time_of_day: recurring.time_of_day,
+      timezone: recurring.timezone,
+      status: recurring.status,
+      next_occurrence_at: recurring.next_occurrence_at ?? null,
+      ends_at: recurring.ends_at ?? null,
+      last_order_id: recurring.last_order_id ?? null,
+      last_failure_reason: recurring.last_failure_reason ?? null,
+      created_at: recurring.created_at,
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DeliveryService } from 'src/modules/delivery/services/delivery.service';
+import { OrderRepository } from '../repositories/order.repository';
+import { OrderService } from './order.service';
+import {
+  ORDER_EVENTS,
+  OrderReleasedToVendorEvent,
+} from '../events/order.events';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Moves scheduled orders along as their slot approaches: charges
+ * just-in-time payments, shows the order to the vendor at the lead time and
+ * refreshes the delivery quote shortly before dispatch.
+ */
+@Injectable()
+export class ScheduledOrderService {
+  private readonly logger = new Logger(ScheduledOrderService.name);
+  private isProcessing = false;
+
+  constructor(
+    private readonly orderRepository: OrderRepository,
+    private readonly orderService: OrderService,
+    private readonly deliveryService: DeliveryService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processScheduledOrders(): Promise<void> {
+    // A slow run must not overlap the next tick
+    if (this.isProcessing) {
+      return;
+    }
+    this.isProcessing = true;
+
+    try {
+      await this.chargeDueOrders();
+      await this.cancelUnpaidOrders();
+      await this.releaseDueOrders();
+      await this.requoteDueDeliveries();
+    } catch (error) {
+      this.logger.error(
+        `Scheduled order processing failed: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async chargeDueOrders(): Promise<void> {
+    const chargeLeadMinutes = this.getMinutes('chargeLeadMinutes', 60);
+    const due = await this.orderRepository.findScheduledOrdersDueForCharge(
+      new Date(Date.now() + chargeLeadMinutes * MINUTE_MS),
+    );
+
+    for (const order of due) {
+      await this.orderService.chargeScheduledOrder(order.id);
+    }
+  }
+
+  /**
+   * Orders still unpaid when their slot arrives (a declined card, or 3-D
+   * Secure the customer never completed) will not be fulfilled
+   */
+  private async cancelUnpaidOrders(): Promise<void> {
+    const unpaid = await this.orderRepository.findUnpaidScheduledOrdersPastSlot(
+      new Date(),
+    );
+
+    for (const order of unpaid) {
+      try {
+        await this.orderService.cancelUnpaidOrder(
+          order.id,
+          'Payment was not completed before the scheduled time',
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to cancel unpaid scheduled order ${order.id}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private async releaseDueOrders(): Promise<void> {
+    const vendorLeadMinutes = this.getMinutes('vendorLeadMinutes', 45);
+    const due = await this.orderRepository.findScheduledOrdersDueForRelease(
+      new Date(Date.now() + vendorLeadMinutes * MINUTE_MS),
+    );
+
+    for (const order of due) {
+      const released = await this.orderRepository.markReleasedToVendor(
+        order.id,
+      );
+      if (!released) {
+        continue;
+      }
+
+      this.eventEmitter.emit(
+        ORDER_EVENTS.RELEASED_TO_VENDOR,
+        new OrderReleasedToVendorEvent(order),
+      );
+      this.logger.log(
+        `Scheduled order ${order.id} released to vendor ${order.vendor_id}`,
+      );
+    }
+  }
+
+  /**
+   * Quotes taken at checkout expire long before a scheduled order is
+   * dispatched, so each delivery is quoted again close to its slot
+   */
+  private async requoteDueDeliveries(): Promise<void> {
+    const requoteMinutes = this.getMinutes('deliveryRequoteMinutes', 20);
+    const due = await this.orderRepository.findScheduledDeliveriesDueForRequote(
+      new Date(Date.now() + requoteMinutes * MINUTE_MS),
+    );
+
+    for (const order of due) {
+      try {
+        await this.deliveryService.requoteDeliveryForOrder(order.id);
+      } catch (error) {
+        // The order keeps its checkout quote
+        this.logger.warn(
+          `Failed to re-quote delivery for scheduled order ${order.id}: ${error.message}`,
+        );
+      }
+      await this.orderRepository.update(order.id, {
+        delivery_requoted_at: new Date(),
+      });
+    }
+  }
+
+  private getMinutes(key: string, fallback: number): number {
+    return this.configService.get<number>(`scheduledOrders.${key}`) ?? fallback;
+  }
+}
@@ -0,0 +1,106 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { AdminAuthGuard } from '../../auth/guards/admin-auth-guard';
+import { GetUser } from '@/common/decorators/get-user.decorator';
+import { User } from '@/entities';
+import { SettlementReconciliationService } from '../services/settlement/settlement-reconciliation.service';
+import {
+  ResolveSettlementMismatchDto,
+  RunSettlementDto,
+  SettlementMismatchListResponseDto,
+  SettlementMismatchQueryDto,
+  SettlementMismatchResponseDto,
+  SettlementRunListResponseDto,
+  SettlementRunQueryDto,
+  SettlementRunResponseDto,
+} from '../dto/settlement.dto';
+
+@ApiTags('Admin - Settlements')
+@Controller('admin/settlements')
+@UseGuards(JwtAuthGuard, AdminAuthGuard)
+@ApiBearerAuth()
+export class AdminSettlementController {
+  constructor(
+    private readonly settlementReconciliationService: SettlementReconciliationService,
+  ) {}
+
+  @Get('runs')
+  @ApiOperation({
+    summary: '[ADMIN ONLY]: List settlement reconciliation runs',
+  })
+  @ApiResponse({ status: 200, type: SettlementRunListResponseDto })
+  async listRuns(
+    @Query() query: SettlementRunQueryDto,
+  ): Promise<SettlementRunListResponseDto> {
+    return await this.settlementReconciliationService.listRuns(query);
+  }
+
+  @Post('runs')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: '[ADMIN ONLY]: Reconcile a day against the gateway reports now',
+  })
+  @ApiResponse({ status: 201, type: [SettlementRunResponseDto] })
+  @ApiResponse({
+    status: 400,
+    description: 'Day is in the future or a run is already in progress',
+  })
+  async runSettlement(
+    @Body() dto: RunSettlementDto,
+    @GetUser() admin: User,
+  ): Promise<SettlementRunResponseDto[]> {
+    return await this.settlementReconciliationService.runSettlement(
+      dto,
+      admin.id,
+    );
+  }
+
+  @Get('mismatches')
+  @ApiOperation({
+    summary:
+      '[ADMIN ONLY]: Settlement mismatches between the gateways and our payments',
+  })
+  @ApiResponse({ status: 200, type: SettlementMismatchListResponseDto })
+  async listMismatches(
+    @Query() query: SettlementMismatchQueryDto,
+  ): Promise<SettlementMismatchListResponseDto> {
+    return await this.settlementReconciliationService.listMismatches(query);
+  }
+
+  @Post('mismatches/:id/resolve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '[ADMIN ONLY]: Resolve a settlement mismatch with a note',
+  })
+  @ApiParam({ name: 'id', description: 'Settlement mismatch ID' })
+  @ApiResponse({ status: 200, type: SettlementMismatchResponseDto })
+  @ApiResponse({ status: 404, description: 'Settlement mismatch not found' })
+  async resolveMismatch(
+    @Param('id') id: string,
+    @Body() dto: ResolveSettlementMismatchDto,
+    @GetUser() admin: User,
+  ): Promise<SettlementMismatchResponseDto> {
+    return await this.settlementReconciliationService.resolveMismatch(
+      id,
+      dto,
+      admin.id,
+    );
+  }
+}
@@ -16,14 +16,20 @@ import {
   ApiHeader,
 } from '@nestjs/swagger';
 import { PaymentService } from '../services/payment.service';
-import { PaymentProvider } from 'src/entities';
+import { WithdrawalPayoutService } from '../services/withdrawal/withdrawal-payout.service';
+import { PaymentProvider, PayoutProvider, WebhookSource } from 'src/entities';
+import { WebhookInboxService } from 'src/modules/webhook/services/webhook-inbox.service';
 
 @ApiTags('Payment Webhooks')
 @Controller('webhooks/payments')
 export class PaymentWebhookController {
   private readonly logger = new Logger(PaymentWebhookController.name);
 
-  constructor(private readonly paymentService: PaymentService) {}
+  constructor(
+    private readonly paymentService: PaymentService,
+    private readonly payoutService: WithdrawalPayoutService,
+    private readonly webhookInbox: WebhookInboxService,
+  ) {}
 
   @Post('stripe')
   @ApiOperation({ summary: 'Handle Stripe payment webhook' })
@@ -41,11 +47,17 @@ export class PaymentWebhookController {
         console.error('No raw body found in request');
         throw new BadRequestException('No raw body found in request');
       }
-      await this.paymentService.processWebhook(
+      const normalized = await this.paymentService.verifyWebhook(
         PaymentProvider.STRIPE,
         request.rawBody,
         signature,
       );
+      await this.webhookInbox.record({
+        source: WebhookSource.PAYMENT,
+        provider: PaymentProvider.STRIPE,
+        payload: JSON.parse(request.rawBody.toString('utf8')),
+        normalized,
+      });
       
       return { received: true };
     } catch (error) {
@@ -66,11 +78,33 @@ export class PaymentWebhookController {
     this.logger.log('Received Paystack webhook');
     
     try {
-      await this.paymentService.processWebhook(
+      // Paystack sends transfer events to the same webhook URL as charges
+      if (payload?.event?.startsWith('transfer.')) {
+        const normalized = await this.payoutService.verifyWebhook(
+          PayoutProvider.PAYSTACK,
+          payload,
+          signature,
+        );
+        await this.webhookInbox.record({
+          source: WebhookSource.PAYOUT,
+          provider: PayoutProvider.PAYSTACK,
+          payload,
+          normalized,
+        });
+        return { received: true };
+      }
+
+      const normalized = await this.paymentService.verifyWebhook(
         PaymentProvider.PAYSTACK,
         payload,
         signature,
       );
+      await this.webhookInbox.record({
+        source: WebhookSource.PAYMENT,
+        provider: PaymentProvider.PAYSTACK,
+        payload,
+        normalized,
+      });
       
       return { received: true };
     } catch (error) {
@@ -91,11 +125,17 @@ export class PaymentWebhookController {
     this.logger.log('Received Mercury webhook');
     
     try {
-      await this.paymentService.processWebhook(
+      const normalized = await this.paymentService.verifyWebhook(
         PaymentProvider.MERCURY,
         payload,
         signature,
       );
+      await this.webhookInbox.record({
+        source: WebhookSource.PAYMENT,
+        provider: PaymentProvider.MERCURY,
+        payload,
+        normalized,
+      });
       
       return { received: true };
     } catch (error) {
@@ -124,11 +164,17 @@ export class PaymentWebhookController {
                       headers['signature'] || 
                       '';
       
-      await this.paymentService.processWebhook(
+      const normalized = await this.paymentService.verifyWebhook(
         provider,
         payload,
         signature,
       );
+      await this.webhookInbox.record({
+        source: WebhookSource.PAYMENT,
+        provider: provider,
+        payload,
+        normalized,
+      });
       
       return { received: true };
     } catch (error) {
@@ -20,6 +20,7 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from 'src/modules/auth/guards/jwt-auth.guard';
+import { AdminAuthGuard } from 'src/modules/auth/guards/admin-auth-guard';
 import { PaymentService } from '../services/payment.service';
 import { PaystackPaymentService } from '../services/paystack-payment.service';
 import { StripePaymentService } from '../services/stripe-payment.service';
@@ -41,7 +42,7 @@ import {
   TransactionDto,
 } from '../dto/transaction-history.dto';
 import { GetUser } from '@/common/decorators/get-user.decorator';
-import { User } from '@/entities';
+import { RefundInitiator, User } from '@/entities';
 
 @ApiTags('Payments')
 @Controller('payments')
@@ -161,7 +162,8 @@ export class PaymentController {
   }
 
   @Post('refund/:id')
-  @ApiOperation({ summary: 'Refund a payment' })
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: '[ADMIN ONLY]: Refund a payment' })
   @ApiParam({ name: 'id', description: 'Payment ID' })
   @ApiResponse({ status: 200, description: 'Payment refunded successfully' })
   @ApiResponse({
@@ -171,10 +173,14 @@ export class PaymentController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 404, description: 'Payment not found' })
   async refundPayment(
+    @GetUser() admin: User,
     @Param('id') id: string,
     @Body() body: { amount?: number; reason?: string },
   ): Promise<{ message: string }> {
-    await this.paymentService.refundPayment(id, body.amount, body.reason);
+    await this.paymentService.refundPayment(id, body.amount, body.reason, {
+      type: RefundInitiator.ADMIN,
+      id: admin.id,
+    });
     return { message: 'Payment refunded successfully' };
   }
 
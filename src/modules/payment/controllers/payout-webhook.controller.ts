@@ -0,0 +1,105 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Headers,
+  Logger,
+  BadRequestException,
+  Req,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { WithdrawalPayoutService } from '../services/withdrawal/withdrawal-payout.service';
+import { PayoutProvider, WebhookSource } from 'src/entities';
+import { WebhookInboxService } from 'src/modules/webhook/services/webhook-inbox.service';
+
+@ApiTags('Payout Webhooks')
+@Controller('webhooks/payouts')
+export class PayoutWebhookController {
+  private readonly logger = new Logger(PayoutWebhookController.name);
+
+  constructor(
+    private readonly payoutService: WithdrawalPayoutService,
+    private readonly webhookInbox: WebhookInboxService,
+  ) {}
+
+  @Post('stripe')
+  @ApiOperation({ summary: 'Handle Stripe Connect payout webhook' })
+  @ApiResponse({ status: 200, description: 'Webhook processed successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Invalid webhook data',
+  })
+  @ApiHeader({
+    name: 'stripe-signature',
+    description: 'Stripe webhook signature',
+  })
+  async handleStripeWebhook(
+    @Req() request: any,
+    @Headers('stripe-signature') signature: string,
+  ): Promise<{ received: boolean }> {
+    this.logger.log('Received Stripe payout webhook');
+
+    try {
+      if (!request.rawBody) {
+        throw new BadRequestException('No raw body found in request');
+      }
+      const normalized = await this.payoutService.verifyWebhook(
+        PayoutProvider.STRIPE,
+        request.rawBody,
+        signature,
+      );
+      await this.webhookInbox.record({
+        source: WebhookSource.PAYOUT,
+        provider: PayoutProvider.STRIPE,
+        payload: JSON.parse(request.rawBody.toString('utf8')),
+        normalized,
+      });
+
+      return { received: true };
+    } catch (error) {
+      this.logger.error(
+        `Stripe payout webhook processing failed: ${error.message}`,
+      );
+      throw new BadRequestException('Webhook processing failed');
+    }
+  }
+
+  @Post('paystack')
+  @ApiOperation({ summary: 'Handle Paystack transfer webhook' })
+  @ApiResponse({ status: 200, description: 'Webhook processed successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Invalid webhook data',
+  })
+  @ApiHeader({
+    name: 'x-paystack-signature',
+    description: 'Paystack webhook signature',
+  })
+  async handlePaystackWebhook(
+    @Body() payload: any,
+    @Headers('x-paystack-signature') signature: string,
+  ): Promise<{ received: boolean }> {
+    this.logger.log('Received Paystack transfer webhook');
+
+    try {
+      const normalized = await this.payoutService.verifyWebhook(
+        PayoutProvider.PAYSTACK,
+        payload,
+        signature,
+      );
+      await this.webhookInbox.record({
+        source: WebhookSource.PAYOUT,
+        provider: PayoutProvider.PAYSTACK,
+        payload,
+        normalized,
+      });
+
+      return { received: true };
+    } catch (error) {
+      this.logger.error(
+        `Paystack transfer webhook processing failed: ${error.message}`,
+      );
+      throw new BadRequestException('Webhook processing failed');
+    }
+  }
+}
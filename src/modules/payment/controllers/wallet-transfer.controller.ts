@@ -0,0 +1,106 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { GetUser } from '@/common/decorators/get-user.decorator';
+import { User } from '@/entities';
+import { WalletTransferService } from '../services/wallet-transfer.service';
+import {
+  ClaimGiftCreditResponseDto,
+  ConfirmWalletTransferDto,
+  CreateWalletTransferDto,
+  WalletTransferLimitsDto,
+  WalletTransferListResponseDto,
+  WalletTransferQueryDto,
+  WalletTransferResponseDto,
+} from '../dto/wallet-transfer.dto';
+
+@ApiTags('Wallet Transfers')
+@Controller('wallet/transfers')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class WalletTransferController {
+  constructor(private readonly walletTransferService: WalletTransferService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Send wallet credit to a phone number or email',
+    description:
+      'Sends you a confirmation code by SMS (or email when you have no verified phone). Nothing is sent until the transfer is confirmed. Recipients without an account get gift credit they can claim when they sign up.',
+  })
+  @ApiResponse({ status: 201, type: WalletTransferResponseDto })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Insufficient balance, daily limit reached or invalid recipient',
+  })
+  async createTransfer(
+    @GetUser() user: User,
+    @Body() dto: CreateWalletTransferDto,
+  ): Promise<WalletTransferResponseDto> {
+    return await this.walletTransferService.createTransfer(user.id, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List transfers you have sent or received' })
+  @ApiResponse({ status: 200, type: WalletTransferListResponseDto })
+  async listTransfers(
+    @GetUser() user: User,
+    @Query() query: WalletTransferQueryDto,
+  ): Promise<WalletTransferListResponseDto> {
+    return await this.walletTransferService.listTransfers(user.id, query);
+  }
+
+  @Get('limits')
+  @ApiOperation({ summary: 'Your daily transfer limits and what is left' })
+  @ApiResponse({ status: 200, type: WalletTransferLimitsDto })
+  async getLimits(@GetUser() user: User): Promise<WalletTransferLimitsDto> {
+    return await this.walletTransferService.getLimits(user.id);
+  }
+
+  @Post('claim')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Claim gift credit sent to your verified phone number or email',
+    description:
+      'Gift credit is applied automatically at sign up; this picks up anything sent to a phone or email verified later.',
+  })
+  @ApiResponse({ status: 200, type: ClaimGiftCreditResponseDto })
+  async claimGiftCredit(
+    @GetUser() user: User,
+  ): Promise<ClaimGiftCreditResponseDto> {
+    return await this.walletTransferService.claimGiftCredit(user.id);
+  }
+
+  @Post(':id/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm a transfer with the code you were sent' })
+  @ApiParam({ name: 'id', description: 'Transfer ID' })
+  @ApiResponse({ status: 200, type: WalletTransferResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid or expired code' })
+  @ApiResponse({ status: 404, description: 'Transfer not found' })
+  async confirmTransfer(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ConfirmWalletTransferDto,
+  ): Promise<WalletTransferResponseDto> {
+    return await this.walletTransferService.confirmTransfer(user.id, id, dto);
+  }
+}
@@ -1,5 +1,11 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, Length, Matches } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  Length,
+  Matches,
+} from 'class-validator';
 
 export class BankCreateDto {
   @ApiProperty({
@@ -34,5 +40,27 @@ export class BankCreateDto {
   @IsNotEmpty()
   @Length(8, 20)
   account_number: string;
+
+  @ApiProperty({
+    description: 'Paystack bank code, used for NGN payouts',
+    example: '011',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @Length(2, 20)
+  bank_code?: string;
+
+  @ApiProperty({
+    description: 'Stripe Connect account ID, used for USD, GBP and EUR payouts',
+    example: 'acct_1Nv0FGQ9RKHgCVdK',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @Matches(/^acct_[A-Za-z0-9]+$/, {
+    message: 'stripe_connect_account_id must be a Stripe account ID',
+  })
+  stripe_connect_account_id?: string;
 }
 
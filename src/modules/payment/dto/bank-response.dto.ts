@@ -25,6 +25,13 @@ export class BankResponseDto {
   })
   bank_name: string;
 
+  @ApiProperty({
+    description: 'Paystack bank code',
+    example: '011',
+    required: false,
+  })
+  bank_code?: string;
+
   @ApiProperty({
     description: 'Account number (masked)',
     example: '****7890',
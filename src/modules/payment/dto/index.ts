@@ -10,3 +10,6 @@ export * from './transaction-history.dto';
 export * from './bank-create.dto';
 export * from './bank-update.dto';
 export * from './bank-response.dto';
+export * from './refund.dto';
+export * from './settlement.dto';
+export * from './wallet-transfer.dto';
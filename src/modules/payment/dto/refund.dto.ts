@@ -0,0 +1,151 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  Currency,
+  PaymentProvider,
+  RefundInitiator,
+  RefundStatus,
+} from 'src/entities';
+
+export class RefundLineDto {
+  @ApiProperty({ description: 'Order item (line) to refund' })
+  @IsUUID()
+  order_item_id: string;
+
+  @ApiProperty({ description: 'Number of portions to refund', example: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class RefundUnavailableItemsDto {
+  @ApiProperty({ type: [RefundLineDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => RefundLineDto)
+  items: RefundLineDto[];
+
+  @ApiPropertyOptional({
+    description: 'Shown to the customer; defaults to "Item unavailable"',
+    example: 'Ran out of jollof rice',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class CreateItemRefundDto extends RefundUnavailableItemsDto {
+  @ApiProperty({
+    description: 'Reason for the refund',
+    example: 'Item arrived damaged',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiPropertyOptional({
+    description: 'Also refund whatever is left of the delivery fee',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  include_delivery_fee?: boolean;
+}
+
+export class RefundItemResponseDto {
+  @ApiProperty()
+  order_item_id: string;
+
+  @ApiProperty()
+  quantity: number;
+
+  @ApiProperty()
+  unit_price: number;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty()
+  vendor_clawback_amount: number;
+}
+
+export class RefundResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  refund_reference: string;
+
+  @ApiProperty()
+  order_id: string;
+
+  @ApiProperty()
+  payment_id: string;
+
+  @ApiProperty({ enum: PaymentProvider })
+  provider: PaymentProvider;
+
+  @ApiProperty({ enum: RefundStatus })
+  status: RefundStatus;
+
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
+  @ApiProperty({ description: 'Total returned to the customer' })
+  amount: number;
+
+  @ApiProperty()
+  items_amount: number;
+
+  @ApiProperty()
+  discount_amount: number;
+
+  @ApiProperty()
+  delivery_fee_amount: number;
+
+  @ApiProperty()
+  service_fee_amount: number;
+
+  @ApiProperty({ description: "Taken back from the vendor's earnings" })
+  vendor_clawback_amount: number;
+
+  @ApiProperty()
+  reason: string;
+
+  @ApiProperty({ enum: RefundInitiator })
+  initiated_by_type: RefundInitiator;
+
+  @ApiPropertyOptional()
+  initiated_by_id?: string | null;
+
+  @ApiPropertyOptional()
+  provider_reference?: string | null;
+
+  @ApiPropertyOptional()
+  failure_reason?: string | null;
+
+  @ApiPropertyOptional()
+  processed_at?: Date | null;
+
+  @ApiProperty({ type: [RefundItemResponseDto] })
+  items: RefundItemResponseDto[];
+
+  @ApiProperty()
+  created_at: Date;
+}
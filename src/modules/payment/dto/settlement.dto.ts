@@ -0,0 +1,263 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  PaymentProvider,
+  SettlementMismatchStatus,
+  SettlementMismatchType,
+  SettlementRunStatus,
+} from 'src/entities';
+
+export const SETTLEMENT_PROVIDERS = [
+  PaymentProvider.STRIPE,
+  PaymentProvider.PAYSTACK,
+];
+
+export class RunSettlementDto {
+  @ApiPropertyOptional({
+    description: 'UTC day to reconcile (YYYY-MM-DD); defaults to yesterday',
+    example: '2025-01-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  date?: string;
+
+  @ApiPropertyOptional({
+    enum: SETTLEMENT_PROVIDERS,
+    description: 'Gateway to reconcile; defaults to all of them',
+  })
+  @IsOptional()
+  @IsIn(SETTLEMENT_PROVIDERS)
+  provider?: PaymentProvider;
+}
+
+export class ResolveSettlementMismatchDto {
+  @ApiProperty({
+    description: 'What was found and what, if anything, was done about it',
+    example: 'Customer was charged twice; second charge refunded in Stripe',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  note: string;
+}
+
+class SettlementPageQueryDto {
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value))
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value))
+  limit?: number;
+}
+
+export class SettlementRunQueryDto extends SettlementPageQueryDto {
+  @ApiPropertyOptional({ enum: SETTLEMENT_PROVIDERS })
+  @IsOptional()
+  @IsEnum(PaymentProvider)
+  provider?: PaymentProvider;
+
+  @ApiPropertyOptional({ enum: SettlementRunStatus })
+  @IsOptional()
+  @IsEnum(SettlementRunStatus)
+  status?: SettlementRunStatus;
+}
+
+export class SettlementMismatchQueryDto extends SettlementPageQueryDto {
+  @ApiPropertyOptional({ enum: SETTLEMENT_PROVIDERS })
+  @IsOptional()
+  @IsEnum(PaymentProvider)
+  provider?: PaymentProvider;
+
+  @ApiPropertyOptional({ enum: SettlementMismatchType })
+  @IsOptional()
+  @IsEnum(SettlementMismatchType)
+  mismatch_type?: SettlementMismatchType;
+
+  @ApiPropertyOptional({
+    enum: SettlementMismatchStatus,
+    description: 'Defaults to OPEN',
+  })
+  @IsOptional()
+  @IsEnum(SettlementMismatchStatus)
+  status?: SettlementMismatchStatus;
+
+  @ApiPropertyOptional({ description: 'Settlement day (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  settlement_date?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only mismatches last reported by this run',
+  })
+  @IsOptional()
+  @IsUUID()
+  run_id?: string;
+
+  @ApiPropertyOptional({ description: 'Payment or gateway reference' })
+  @IsOptional()
+  @IsString()
+  reference?: string;
+}
+
+export class SettlementRunResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: PaymentProvider })
+  provider: PaymentProvider;
+
+  @ApiProperty({ example: '2025-01-31' })
+  settlement_date: string;
+
+  @ApiProperty({ enum: SettlementRunStatus })
+  status: SettlementRunStatus;
+
+  @ApiProperty({ description: 'Charges listed by the gateway for the day' })
+  gateway_count: number;
+
+  @ApiProperty({ description: 'Paid payments on our side for the day' })
+  local_count: number;
+
+  @ApiProperty()
+  matched_count: number;
+
+  @ApiProperty()
+  mismatch_count: number;
+
+  @ApiPropertyOptional()
+  error?: string | null;
+
+  @ApiPropertyOptional()
+  triggered_by?: string | null;
+
+  @ApiPropertyOptional()
+  completed_at?: Date | null;
+
+  @ApiProperty()
+  created_at: Date;
+}
+
+export class SettlementRunListResponseDto {
+  @ApiProperty({ type: [SettlementRunResponseDto] })
+  runs: SettlementRunResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  total_pages: number;
+}
+
+export class SettlementMismatchResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  run_id: string;
+
+  @ApiProperty({ enum: PaymentProvider })
+  provider: PaymentProvider;
+
+  @ApiProperty({ example: '2025-01-31' })
+  settlement_date: string;
+
+  @ApiProperty({ enum: SettlementMismatchType })
+  mismatch_type: SettlementMismatchType;
+
+  @ApiProperty()
+  reference: string;
+
+  @ApiPropertyOptional()
+  payment_id?: string | null;
+
+  @ApiPropertyOptional()
+  transaction_id?: string | null;
+
+  @ApiPropertyOptional()
+  gateway_transaction_id?: string | null;
+
+  @ApiPropertyOptional()
+  local_amount?: number | null;
+
+  @ApiPropertyOptional()
+  gateway_amount?: number | null;
+
+  @ApiPropertyOptional()
+  local_currency?: string | null;
+
+  @ApiPropertyOptional()
+  gateway_currency?: string | null;
+
+  @ApiPropertyOptional()
+  local_status?: string | null;
+
+  @ApiPropertyOptional()
+  gateway_status?: string | null;
+
+  @ApiProperty({ enum: SettlementMismatchStatus })
+  status: SettlementMismatchStatus;
+
+  @ApiProperty()
+  last_seen_at: Date;
+
+  @ApiPropertyOptional()
+  resolution_note?: string | null;
+
+  @ApiPropertyOptional()
+  resolved_by?: string | null;
+
+  @ApiPropertyOptional()
+  resolved_at?: Date | null;
+
+  @ApiProperty()
+  created_at: Date;
+}
+
+export class SettlementMismatchListResponseDto {
+  @ApiProperty({ type: [SettlementMismatchResponseDto] })
+  mismatches: SettlementMismatchResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  total_pages: number;
+}
@@ -1,5 +1,28 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { TransactionType, TransactionStatus } from 'src/entities';
+import { TransactionType, TransactionStatus, Currency } from 'src/entities';
+
+export class TransactionFxDto {
+  @ApiProperty({ description: 'Currency the order was priced in', enum: Currency })
+  original_currency: Currency;
+
+  @ApiProperty({ description: 'Amount in the original currency' })
+  original_amount: number;
+
+  @ApiProperty({ description: 'Currency the wallet was charged in', enum: Currency })
+  charged_currency: Currency;
+
+  @ApiProperty({ description: 'Amount charged to the wallet' })
+  charged_amount: number;
+
+  @ApiProperty({ description: 'Mid-market rate: charged currency per one original currency unit' })
+  rate: number;
+
+  @ApiProperty({ description: 'Conversion spread added on top of the rate, in percent' })
+  spread_percentage: number;
+
+  @ApiProperty({ description: 'Rate actually applied, including the spread' })
+  effective_rate: number;
+}
 
 export class TransactionDto {
   @ApiProperty({ description: 'Transaction ID' })
@@ -47,6 +70,12 @@ export class TransactionDto {
   @ApiProperty({ description: 'Transaction metadata', required: false })
   metadata?: Record<string, any>;
 
+  @ApiProperty({ description: 'Currency of the amount and balances', enum: Currency, required: false })
+  currency?: Currency;
+
+  @ApiProperty({ description: 'Exchange rate details when the amount was converted', type: TransactionFxDto, required: false, nullable: true })
+  fx?: TransactionFxDto | null;
+
   @ApiProperty({ description: 'Created at' })
   created_at: Date;
 
@@ -154,6 +154,14 @@ export class WalletFundingStatusDto {
   wallet_balance?: number;
 }
 
+export class WalletCurrencyBalanceDto {
+  @ApiProperty({ description: 'Balance currency', enum: Currency })
+  currency: Currency;
+
+  @ApiProperty({ description: 'Amount held in this currency' })
+  balance: number;
+}
+
 export class WalletBalanceDto {
   @ApiProperty({ description: 'Wallet ID' })
   id: string;
@@ -192,4 +200,11 @@ export class WalletBalanceDto {
   @IsOptional()
   @IsEnum(Currency)
   vendor_currency?: Currency;
+
+  @ApiPropertyOptional({
+    description:
+      'Balances held in currencies other than the wallet currency, e.g. from top-ups in that currency',
+    type: [WalletCurrencyBalanceDto],
+  })
+  balances?: WalletCurrencyBalanceDto[];
 }
@@ -0,0 +1,205 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import {
+  Currency,
+  WalletTransferOtpChannel,
+  WalletTransferStatus,
+} from 'src/entities';
+import { PhoneValidator } from 'src/modules/auth/helpers/validators';
+
+export class CreateWalletTransferDto {
+  @ApiPropertyOptional({
+    description:
+      'Recipient phone number in E.164 format; required when no email is given',
+    example: '+2348012345678',
+  })
+  @ValidateIf(dto => !dto.recipient_email)
+  @IsString()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? PhoneValidator.normalize(value) : value,
+  )
+  @Matches(/^\+[1-9]\d{7,14}$/, {
+    message: 'recipient_phone must be in E.164 format, e.g. +2348012345678',
+  })
+  recipient_phone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Recipient email; required when no phone number is given',
+    example: 'friend@example.com',
+  })
+  @ValidateIf(dto => !dto.recipient_phone)
+  @IsEmail()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.trim().toLowerCase() : value,
+  )
+  recipient_email?: string;
+
+  @ApiProperty({
+    description: 'Amount to send, in your wallet currency',
+    minimum: 1,
+    example: 2500,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(1)
+  @Transform(({ value }) => parseFloat(value))
+  amount: number;
+
+  @ApiPropertyOptional({
+    description: 'Message shown to the recipient',
+    example: 'Lunch is on me',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  note?: string;
+}
+
+export class ConfirmWalletTransferDto {
+  @ApiProperty({ description: 'Code sent to you by SMS or email' })
+  @IsString()
+  @IsNotEmpty()
+  otp_code: string;
+}
+
+export class WalletTransferQueryDto {
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value))
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value))
+  limit?: number;
+
+  @ApiPropertyOptional({ enum: WalletTransferStatus })
+  @IsOptional()
+  @IsEnum(WalletTransferStatus)
+  status?: WalletTransferStatus;
+}
+
+export class WalletTransferResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  reference: string;
+
+  @ApiProperty({ enum: ['SENT', 'RECEIVED'] })
+  direction: 'SENT' | 'RECEIVED';
+
+  @ApiProperty()
+  sender_id: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  recipient_id: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  recipient_phone: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  recipient_email: string | null;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
+  @ApiPropertyOptional({ nullable: true })
+  note: string | null;
+
+  @ApiProperty({ enum: WalletTransferStatus })
+  status: WalletTransferStatus;
+
+  @ApiPropertyOptional({
+    enum: WalletTransferOtpChannel,
+    nullable: true,
+    description: 'Where the confirmation code was sent',
+  })
+  otp_channel: WalletTransferOtpChannel | null;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description:
+      'Gift credit only: when it goes back to the sender if not claimed',
+  })
+  claim_expires_at: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  confirmed_at: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  claimed_at: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  returned_at: Date | null;
+
+  @ApiProperty()
+  created_at: Date;
+}
+
+export class WalletTransferListResponseDto {
+  @ApiProperty({ type: [WalletTransferResponseDto] })
+  transfers: WalletTransferResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+}
+
+export class WalletTransferLimitsDto {
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
+  @ApiProperty({ description: 'Most you can send per UTC day' })
+  daily_amount_limit: number;
+
+  @ApiProperty({ description: 'Most transfers you can send per UTC day' })
+  daily_count_limit: number;
+
+  @ApiProperty({ description: 'Sent so far today' })
+  sent_today: number;
+
+  @ApiProperty({ description: 'Transfers sent so far today' })
+  count_today: number;
+
+  @ApiProperty({ description: 'What you can still send today' })
+  remaining_amount: number;
+}
+
+export class ClaimGiftCreditResponseDto {
+  @ApiProperty({ description: 'Number of gifts credited to your wallet' })
+  claimed: number;
+
+  @ApiProperty({ type: [WalletTransferResponseDto] })
+  transfers: WalletTransferResponseDto[];
+}
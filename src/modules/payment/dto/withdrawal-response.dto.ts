@@ -1,5 +1,10 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { WithdrawalStatus, Currency, Country } from '../../../entities';
+import {
+  WithdrawalStatus,
+  Currency,
+  Country,
+  PayoutProvider,
+} from '../../../entities';
 
 export class WithdrawalResponseDto {
   @ApiProperty({
@@ -97,4 +102,18 @@ export class WithdrawalResponseDto {
     required: false,
   })
   transaction_reference?: string;
+
+  @ApiProperty({
+    description: 'Automated payout provider',
+    enum: PayoutProvider,
+    required: false,
+  })
+  payout_provider?: PayoutProvider;
+
+  @ApiProperty({
+    description: 'Automated payout reference',
+    example: 'payout_1701424800000_a1b2c3d4e5f6',
+    required: false,
+  })
+  payout_reference?: string;
 }
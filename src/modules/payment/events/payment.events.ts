@@ -0,0 +1,89 @@
+import {
+  Order,
+  OrderType,
+  Payment,
+  PaymentMethod,
+  PaymentProvider,
+} from 'src/entities';
+
+export const PAYMENT_EVENTS = {
+  SUCCEEDED: 'payment.succeeded',
+  REFUND_ISSUED: 'refund.issued',
+} as const;
+
+/**
+ * Published when a payment provider confirms an order payment
+ */
+export class PaymentSucceededEvent {
+  readonly payment_id: string;
+  readonly payment_reference: string;
+  readonly payment_method: PaymentMethod;
+  readonly provider: PaymentProvider;
+  readonly amount: number;
+  readonly order_id: string;
+  readonly order_number: string;
+  readonly customer_id: string;
+  readonly vendor_id: string;
+  readonly order_type: OrderType;
+  readonly currency: string;
+  readonly occurred_at: Date;
+
+  constructor(payment: Payment, order: Order) {
+    this.payment_id = payment.id;
+    this.payment_reference = payment.payment_reference;
+    this.payment_method = payment.payment_method;
+    this.provider = payment.provider;
+    this.amount = Number(payment.amount);
+    this.order_id = order.id;
+    this.order_number = order.order_number;
+    this.customer_id = order.customer_id;
+    this.vendor_id = order.vendor_id;
+    this.order_type = order.order_type;
+    this.currency = order.currency;
+    this.occurred_at = new Date();
+  }
+}
+
+export interface RefundIssuedDetails {
+  amount: number;
+  vendor_debit_amount: number;
+  reason: string;
+  issued_by?: string | null;
+  refund_id?: string | null;
+  // Where the money went back to; absent means the customer's wallet
+  provider?: PaymentProvider;
+}
+
+/**
+ * Published after a refund has been returned to the customer, either to
+ * their wallet or through the gateway that took the payment
+ */
+export class RefundIssuedEvent {
+  readonly order_id: string;
+  readonly order_number: string;
+  readonly customer_id: string;
+  readonly vendor_id: string;
+  readonly currency: string;
+  readonly amount: number;
+  readonly vendor_debit_amount: number;
+  readonly reason: string;
+  readonly issued_by: string | null;
+  readonly refund_id: string | null;
+  readonly provider: PaymentProvider;
+  readonly occurred_at: Date;
+
+  constructor(order: Order, details: RefundIssuedDetails) {
+    this.order_id = order.id;
+    this.order_number = order.order_number;
+    this.customer_id = order.customer_id;
+    this.vendor_id = order.vendor_id;
+    this.currency = order.currency;
+    this.amount = Number(details.amount);
+    this.vendor_debit_amount = Number(details.vendor_debit_amount);
+    this.reason = details.reason;
+    this.issued_by = details.issued_by ?? null;
+    this.refund_id = details.refund_id ?? null;
+    this.provider = details.provider ?? PaymentProvider.WALLET;
+    this.occurred_at = new Date();
+  }
+}
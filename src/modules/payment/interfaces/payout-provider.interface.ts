@@ -0,0 +1,90 @@
+import { Bank, Currency, PayoutProvider, Withdrawal } from 'src/entities';
+
+export const PAYSTACK_PAYOUT_PROVIDER = 'PAYSTACK_PAYOUT_PROVIDER';
+export const STRIPE_PAYOUT_PROVIDER = 'STRIPE_PAYOUT_PROVIDER';
+
+export interface PayoutProviderInterface {
+  readonly provider: PayoutProvider;
+
+  /**
+   * Currencies this provider can pay out in
+   */
+  readonly supportedCurrencies: Currency[];
+
+  /**
+   * Send the net withdrawal amount to the vendor's bank account
+   * @param withdrawal Withdrawal being paid out
+   * @param bank Saved bank the withdrawal was requested against
+   * @param reference Unique payout reference, echoed back in webhooks
+   * @returns Promise<PayoutInitiationResult>
+   */
+  initiatePayout(
+    withdrawal: Withdrawal,
+    bank: Bank,
+    reference: string,
+  ): Promise<PayoutInitiationResult>;
+
+  /**
+   * Ask the provider where a payout stands. Used to settle payouts whose
+   * initiation ended ambiguously or whose webhook never arrived.
+   * @param withdrawal Withdrawal being paid out
+   * @param bank Saved bank the withdrawal was requested against
+   * @param reference Payout reference passed to initiatePayout
+   * @returns Promise<PayoutWebhookResult>
+   */
+  lookupPayout(
+    withdrawal: Withdrawal,
+    bank: Bank,
+    reference: string,
+  ): Promise<PayoutWebhookResult>;
+
+  /**
+   * Bring back funds a failed payout left outside the platform balance, so
+   * the withdrawal can be refunded to the wallet without paying twice.
+   * Succeeds straight away when nothing needs reversing.
+   * @param withdrawal Withdrawal whose payout failed
+   * @param reference Payout reference passed to initiatePayout
+   * @returns Promise<PayoutReversalResult>
+   */
+  reversePayout(
+    withdrawal: Withdrawal,
+    reference: string,
+  ): Promise<PayoutReversalResult>;
+
+  /**
+   * Verify and parse a payout webhook from the provider
+   * @param payload Raw webhook payload
+   * @param signature Webhook signature for verification
+   * @returns Promise<PayoutWebhookResult>
+   */
+  processWebhook(payload: any, signature: string): Promise<PayoutWebhookResult>;
+}
+
+export interface PayoutInitiationResult {
+  success: boolean;
+  // 'failed' only when the provider definitely rejected the payout.
+  // 'unknown' when it may have gone through (timeout, 5xx, partial
+  // Stripe transfer); the withdrawal then waits for a webhook or lookup.
+  status?: 'pending' | 'completed' | 'failed' | 'unknown';
+  transfer_id?: string;
+  // Provider-side identifiers to persist on the bank for reuse
+  bank_updates?: Partial<Bank>;
+  gateway_response?: Record<string, any>;
+  error?: string;
+}
+
+export interface PayoutWebhookResult {
+  success: boolean;
+  reference?: string;
+  status?: 'pending' | 'completed' | 'failed';
+  transfer_id?: string;
+  failure_reason?: string;
+  gateway_response?: Record<string, any>;
+  error?: string;
+}
+
+export interface PayoutReversalResult {
+  success: boolean;
+  reversal_id?: string;
+  error?: string;
+}
@@ -0,0 +1,35 @@
+import { PaymentProvider } from 'src/entities';
+
+export const STRIPE_SETTLEMENT_REPORT = 'STRIPE_SETTLEMENT_REPORT';
+export const PAYSTACK_SETTLEMENT_REPORT = 'PAYSTACK_SETTLEMENT_REPORT';
+
+export interface SettlementReportProviderInterface {
+  readonly provider: PaymentProvider;
+
+  /**
+   * List the charges the gateway created in a time window
+   * @param from Start of the window, inclusive
+   * @param to End of the window, exclusive
+   * @returns Promise<GatewayTransaction[]>
+   */
+  listTransactions(from: Date, to: Date): Promise<GatewayTransaction[]>;
+}
+
+export type GatewayTransactionStatus =
+  | 'pending'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'refunded';
+
+export interface GatewayTransaction {
+  // Our payment reference as sent to the gateway, when it echoes one back
+  reference?: string;
+  // Gateway's own id (Stripe session or payment intent, Paystack transaction)
+  gateway_transaction_id: string;
+  // Major units
+  amount: number;
+  currency: string;
+  status: GatewayTransactionStatus;
+  created_at: Date;
+}
@@ -1,4 +1,5 @@
   import { Module, forwardRef } from '@nestjs/common';
+  import { ConfigService } from '@nestjs/config';
   import { TypeOrmModule } from '@nestjs/typeorm';
   import { getRepositoryToken } from '@nestjs/typeorm';
   import { 
@@ -10,29 +11,61 @@
     Vendor,
     Withdrawal,
     Bank,
-    SavedCard
+    SavedCard,
+    Refund,
+    RefundItem,
+    SettlementRun,
+    SettlementMismatch,
+    WalletBalance,
+    WalletTransfer,
+    Currency,
+    PayoutProvider,
+    PaymentProvider,
   } from 'src/entities';
   import { AuthModule } from 'src/modules/auth/auth.module';
 
   // Controllers
   import { PaymentController } from './controllers/payment.controller';
   import { PaymentWebhookController } from './controllers/payment-webhook.controller';
+  import { PayoutWebhookController } from './controllers/payout-webhook.controller';
   import { WithdrawalController, AdminWithdrawalController } from './controllers/withdrawal.controller';
   import { FixDuplicatesController } from './controllers/fix-duplicates.controller';
   import { FixCompletedWithdrawalsController } from './controllers/fix-completed-withdrawals.controller'; // NEW
+  import { AdminSettlementController } from './controllers/admin-settlement.controller';
+import { WalletTransferController } from './controllers/wallet-transfer.controller';
 
   // Payment Services
   import { PaymentService } from './services/payment.service';
   import { WalletPaymentService } from './services/wallet-payment.service';
+import { WalletTransferService } from './services/wallet-transfer.service';
   import { StripePaymentService } from './services/stripe-payment.service';
   import { PaystackPaymentService } from './services/paystack-payment.service';
   import { MercuryPaymentService } from './services/mercury-payment.service';
+  import { RefundService } from './services/refund.service';
 
   // Withdrawal Services - Refactored
   import { WithdrawalService } from './services/withdrawal/withdrawal.service';
   import { WithdrawalOtpService } from './services/withdrawal/withdrawal-otp.service';
   import { WithdrawalAdminService } from './services/withdrawal/withdrawal-admin.service';
   import { WithdrawalBankService } from './services/withdrawal/withdrawal-bank.service';
+  import { WithdrawalPayoutService } from './services/withdrawal/withdrawal-payout.service';
+
+  // Payout Providers
+  import { PaystackPayoutProvider } from './services/payout/paystack-payout.provider';
+  import { StripePayoutProvider } from './services/payout/stripe-payout.provider';
+  import { LocalPayoutProvider } from './services/payout/local-payout.provider';
+  import {
+    PAYSTACK_PAYOUT_PROVIDER,
+    STRIPE_PAYOUT_PROVIDER,
+  } from './interfaces/payout-provider.interface';
+
+  // Settlement Reconciliation
+  import { SettlementReconciliationService } from './services/settlement/settlement-reconciliation.service';
+  import { LocalSettlementReportProvider } from './services/settlement/local-settlement-report.provider';
+  import {
+    PAYSTACK_SETTLEMENT_REPORT,
+    STRIPE_SETTLEMENT_REPORT,
+  } from './interfaces/settlement-report-provider.interface';
 
   // Fix Services
   import { FixDuplicateCreditsService } from './services/fix-duplicate-credits.service';
@@ -48,9 +81,14 @@
   import { OrderModule } from '../order/order.module';
   import { VendorModule } from '../vendor/vendor.module';
   import { NotificationModule } from '../notification/notification.module';
+  import { MenuModule } from '../menu/menu.module';
+  import { WebhookModule } from '../webhook/webhook.module';
+  import { LedgerModule } from '../ledger/ledger.module';
+import { FxModule } from '../fx/fx.module';
 
   // Database
   import { RedisService } from '../../database/redis.service';
+  import { PaymentWebhookProcessor } from './queues/payment-webhook.processor';
 
   @Module({
     imports: [
@@ -64,25 +102,39 @@
         Withdrawal,
         Bank,
         SavedCard,
+        Refund,
+        RefundItem,
+        SettlementRun,
+        SettlementMismatch,
+        WalletBalance,
+        WalletTransfer,
       ]),
       AuthModule,
       forwardRef(() => CartModule),
       forwardRef(() => OrderModule),
       forwardRef(() => VendorModule),
       forwardRef(() => NotificationModule),
+      MenuModule,
+      WebhookModule,
+      LedgerModule,
+      FxModule,
     ],
     controllers: [
       PaymentController,
       PaymentWebhookController,
+      PayoutWebhookController,
       WithdrawalController,
       AdminWithdrawalController,
       FixDuplicatesController,
       FixCompletedWithdrawalsController, // NEW
+      AdminSettlementController,
+      WalletTransferController,
     ],
     providers: [
       // Payment Services
       PaymentService,
       WalletPaymentService,
+      WalletTransferService,
       {
         provide: StripePaymentService,
         useFactory: (savedCardRepository) => {
@@ -100,16 +152,66 @@
         inject: [getRepositoryToken(SavedCard)],
       },
       MercuryPaymentService,
+      RefundService,
       
       // Withdrawal Services - Refactored into specialized services
       WithdrawalService,
       WithdrawalOtpService,
       WithdrawalAdminService,
       WithdrawalBankService,
+      WithdrawalPayoutService,
+
+      // Payout Providers - payouts.mode=local swaps in in-memory fakes
+      {
+        provide: PAYSTACK_PAYOUT_PROVIDER,
+        useFactory: (configService: ConfigService) =>
+          configService.get<string>('payouts.mode') === 'local'
+            ? new LocalPayoutProvider(
+                PayoutProvider.PAYSTACK,
+                [Currency.NGN],
+                configService.get<string>('payouts.localWebhookSecret'),
+              )
+            : new PaystackPayoutProvider(),
+        inject: [ConfigService],
+      },
+      {
+        provide: STRIPE_PAYOUT_PROVIDER,
+        useFactory: (configService: ConfigService) =>
+          configService.get<string>('payouts.mode') === 'local'
+            ? new LocalPayoutProvider(
+                PayoutProvider.STRIPE,
+                [Currency.USD, Currency.GBP, Currency.EUR],
+                configService.get<string>('payouts.localWebhookSecret'),
+              )
+            : new StripePayoutProvider(),
+        inject: [ConfigService],
+      },
       
+      // Settlement Reports - SETTLEMENT_REPORT_MODE=local swaps in fixture-backed fakes
+      {
+        provide: STRIPE_SETTLEMENT_REPORT,
+        useFactory: (stripePaymentService: StripePaymentService) =>
+          process.env.SETTLEMENT_REPORT_MODE === 'local'
+            ? new LocalSettlementReportProvider(PaymentProvider.STRIPE)
+            : stripePaymentService,
+        inject: [StripePaymentService],
+      },
+      {
+        provide: PAYSTACK_SETTLEMENT_REPORT,
+        useFactory: (paystackPaymentService: PaystackPaymentService) =>
+          process.env.SETTLEMENT_REPORT_MODE === 'local'
+            ? new LocalSettlementReportProvider(PaymentProvider.PAYSTACK)
+            : paystackPaymentService,
+        inject: [PaystackPaymentService],
+      },
+      SettlementReconciliationService,
+
       // Fix Services
       FixDuplicateCreditsService,
       FixCompletedWithdrawalsService, // NEW
+
+      // Queue Processors
+      PaymentWebhookProcessor,
       
       // Database Services
       RedisService,
@@ -123,12 +225,15 @@
       // Payment Services
       PaymentService,
       WalletPaymentService,
+      WalletTransferService,
+      RefundService,
       
       // Withdrawal Services
       WithdrawalService,
       WithdrawalOtpService,
       WithdrawalAdminService,
       WithdrawalBankService,
+      WithdrawalPayoutService,
       
       // Fix Services
       FixDuplicateCreditsService,
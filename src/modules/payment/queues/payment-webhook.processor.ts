@@ -0,0 +1,51 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Job } from 'bull';
+import { PayoutProvider, WebhookSource } from 'src/entities';
+import { WebhookInboxService } from 'src/modules/webhook/services/webhook-inbox.service';
+import {
+  WEBHOOK_EVENTS_QUEUE,
+  WEBHOOK_WORKER_CONCURRENCY,
+  WebhookJobData,
+} from 'src/modules/webhook/queues/webhook-queue.constants';
+import { PaymentWebhookResult } from '../interfaces/payment-provider.interface';
+import { PayoutWebhookResult } from '../interfaces/payout-provider.interface';
+import { PaymentService } from '../services/payment.service';
+import { WithdrawalPayoutService } from '../services/withdrawal/withdrawal-payout.service';
+
+/**
+ * Applies stored payment and payout webhooks. The signature was checked when
+ * the event was received, so only the normalised result is used here.
+ */
+@Processor(WEBHOOK_EVENTS_QUEUE)
+export class PaymentWebhookProcessor {
+  constructor(
+    private readonly webhookInbox: WebhookInboxService,
+    private readonly paymentService: PaymentService,
+    private readonly payoutService: WithdrawalPayoutService,
+  ) {}
+
+  @Process({
+    name: WebhookSource.PAYMENT,
+    concurrency: WEBHOOK_WORKER_CONCURRENCY,
+  })
+  async processPayment(job: Job<WebhookJobData>): Promise<void> {
+    await this.webhookInbox.process(job.data.webhookEventId, async event => {
+      await this.paymentService.applyWebhookResult(
+        event.normalized_payload as PaymentWebhookResult,
+      );
+    });
+  }
+
+  @Process({
+    name: WebhookSource.PAYOUT,
+    concurrency: WEBHOOK_WORKER_CONCURRENCY,
+  })
+  async processPayout(job: Job<WebhookJobData>): Promise<void> {
+    await this.webhookInbox.process(job.data.webhookEventId, async event => {
+      await this.payoutService.applyWebhookResult(
+        event.provider as PayoutProvider,
+        event.normalized_payload as PayoutWebhookResult,
+      );
+    });
+  }
+}
@@ -1,6 +1,14 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, FindOptionsWhere, In } from 'typeorm';
+import {
+  EntityManager,
+  Repository,
+  FindOptionsWhere,
+  In,
+  IsNull,
+  LessThan,
+  Not,
+} from 'typeorm';
 import { Withdrawal, WithdrawalStatus, User } from '../../../entities';
 
 @Injectable()
@@ -10,9 +18,15 @@ export class WithdrawalRepository {
     private readonly withdrawalRepository: Repository<Withdrawal>,
   ) {}
 
-  async create(withdrawalData: Partial<Withdrawal>): Promise<Withdrawal> {
-    const withdrawal = this.withdrawalRepository.create(withdrawalData);
-    return await this.withdrawalRepository.save(withdrawal);
+  async create(
+    withdrawalData: Partial<Withdrawal>,
+    manager?: EntityManager,
+  ): Promise<Withdrawal> {
+    const repo = manager
+      ? manager.getRepository(Withdrawal)
+      : this.withdrawalRepository;
+    const withdrawal = repo.create(withdrawalData);
+    return await repo.save(withdrawal);
   }
 
   async findById(id: string): Promise<Withdrawal | null> {
@@ -22,6 +36,13 @@ export class WithdrawalRepository {
     });
   }
 
+  async findByPayoutReference(reference: string): Promise<Withdrawal | null> {
+    return await this.withdrawalRepository.findOne({
+      where: { payout_reference: reference },
+      relations: ['user'],
+    });
+  }
+
   async findByUserId(userId: string): Promise<Withdrawal[]> {
     return await this.withdrawalRepository.find({
       where: { user_id: userId },
@@ -86,9 +107,47 @@ export class WithdrawalRepository {
     });
   }
 
-  async update(id: string, updateData: Partial<Withdrawal>): Promise<Withdrawal | null> {
-    await this.withdrawalRepository.update(id, updateData);
-    return await this.findById(id);
+  /**
+   * Processing withdrawals sent to a payout provider before the cutoff that
+   * have not been settled by a webhook yet
+   */
+  async findUnsettledPayouts(initiatedBefore: Date): Promise<Withdrawal[]> {
+    return await this.withdrawalRepository.find({
+      where: {
+        status: WithdrawalStatus.PROCESSING,
+        payout_reference: Not(IsNull()),
+        payout_initiated_at: LessThan(initiatedBefore),
+      },
+      relations: ['user'],
+      order: { payout_initiated_at: 'ASC' },
+    });
+  }
+
+  async update(
+    id: string,
+    updateData: Partial<Withdrawal>,
+    manager?: EntityManager,
+  ): Promise<Withdrawal | null> {
+    const repo = manager
+      ? manager.getRepository(Withdrawal)
+      : this.withdrawalRepository;
+    await repo.update(id, updateData);
+    return await repo.findOne({ where: { id }, relations: ['user'] });
+  }
+
+  /**
+   * Record the payout fields on a processing withdrawal that has no payout
+   * yet, in one conditional update. False when another caller claimed it.
+   */
+  async claimForPayout(
+    id: string,
+    payoutData: Partial<Withdrawal>,
+  ): Promise<boolean> {
+    const result = await this.withdrawalRepository.update(
+      { id, status: WithdrawalStatus.PROCESSING, payout_reference: IsNull() },
+      payoutData,
+    );
+    return !!result.affected;
   }
 
   async updateStatus(
@@ -96,7 +155,8 @@ export class WithdrawalRepository {
     status: WithdrawalStatus, 
     adminId?: string, 
     notes?: string,
-    transactionRef?: string
+    transactionRef?: string,
+    manager?: EntityManager,
   ): Promise<Withdrawal | null> {
     const updateData: Partial<Withdrawal> = {
       status,
@@ -115,7 +175,7 @@ export class WithdrawalRepository {
       updateData.transaction_reference = transactionRef;
     }
 
-    return await this.update(id, updateData);
+    return await this.update(id, updateData, manager);
   }
 
   async findByStatus(status: WithdrawalStatus): Promise<Withdrawal[]> {
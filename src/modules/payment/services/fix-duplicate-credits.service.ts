@@ -3,7 +3,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { Wallet, Transaction, TransactionType, TransactionStatus } from 'src/entities';
+import { Wallet, Transaction, TransactionType, TransactionStatus, LedgerAccountType } from 'src/entities';
+import { LedgerService } from '../../ledger/services/ledger.service';
 
 @Injectable()
 export class FixDuplicateCreditsService {
@@ -14,6 +15,7 @@ export class FixDuplicateCreditsService {
     private readonly walletRepository: Repository<Wallet>,
     @InjectRepository(Transaction)
     private readonly transactionRepository: Repository<Transaction>,
+    private readonly ledgerService: LedgerService,
   ) {}
 
   async fixDuplicateCredits(vendorUserId: string): Promise<{
@@ -108,6 +110,17 @@ export class FixDuplicateCreditsService {
 
       await this.transactionRepository.save(correctionTransaction);
 
+      await this.ledgerService.recordAdjustment({
+        account: wallet.vendor_balance
+          ? LedgerAccountType.VENDOR_PAYABLE
+          : LedgerAccountType.CUSTOMER_WALLET,
+        user_id: wallet.user_id,
+        currency: wallet.currency,
+        amount: -totalDuplicateAmount,
+        description: correctionTransaction.description,
+        reference: correctionTransaction.reference_id,
+      });
+
       // Update the correct balance field
       if (wallet.vendor_balance) {
         wallet.vendor_balance = newBalance;
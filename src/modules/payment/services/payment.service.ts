@@ -8,24 +8,32 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import {
   Order,
+  Payment,
   PaymentMethod,
   PaymentProvider,
   PaymentTransactionStatus,
   PaymentStatus,
   OrderStatus,
+  OrderStatusActor,
   User,
-  NotificationType,
   SavedCard,
   PaymentGateway,
+  RefundInitiator,
 } from 'src/entities';
 import { PaymentRepository } from '../repositories/payment.repository';
 import { WalletPaymentService } from './wallet-payment.service';
 import { StripePaymentService } from './stripe-payment.service';
 import { PaystackPaymentService } from './paystack-payment.service';
 import { MercuryPaymentService } from './mercury-payment.service';
-import { PaymentProviderInterface } from '../interfaces/payment-provider.interface';
+import { RefundInitiatedBy, RefundService } from './refund.service';
+import {
+  PaymentProviderInterface,
+  PaymentWebhookResult,
+} from '../interfaces/payment-provider.interface';
+import { PAYMENT_EVENTS, PaymentSucceededEvent } from '../events';
 import {
   ProcessPaymentDto,
   PaymentResponseDto,
@@ -37,7 +45,11 @@ import {
 } from '../dto';
 import { CartService } from '@/modules/cart/services/cart.service';
 import { OrderService } from '@/modules/order/services/order.service';
-import { NotificationService } from '@/modules/notification/notification.service';
+import {
+  OrderStateMachineService,
+  OrderTransitionContext,
+} from '@/modules/order/services/order-state-machine.service';
+import { MenuInventoryService } from '@/modules/menu/services/menu-inventory.service';
 import { getCurrencyForCountry } from '@/utils/currency-mapper';
 
 @Injectable()
@@ -61,7 +73,10 @@ export class PaymentService {
     private readonly cartService: CartService,
     @Inject(forwardRef(() => OrderService))
     private readonly orderService: OrderService,
-    private readonly notificationService: NotificationService,
+    private readonly orderStateMachine: OrderStateMachineService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly menuInventoryService: MenuInventoryService,
+    private readonly refundService: RefundService,
   ) {
     // Initialize payment providers (excluding wallet as it's handled separately)
     this.paymentProviders = new Map();
@@ -73,8 +88,13 @@ export class PaymentService {
     // this.paymentProviders.set(PaymentMethod.MERCURY, this.mercuryPaymentService);
   }
 
+  /**
+   * @param options.escrow_amount Part of a wallet payment already held in
+   * group order escrow, for split group orders
+   */
   async processPayment(
     processPaymentDto: ProcessPaymentDto,
+    options: { escrow_amount?: number } = {},
   ): Promise<PaymentResponseDto> {
     this.logger.log(
       `Processing payment for order ${processPaymentDto.order_id} with method ${processPaymentDto.payment_method}`,
@@ -108,6 +128,12 @@ export class PaymentService {
     }
     this.logger.log(`Payment not found for this order`);
 
+    if (options.escrow_amount && payment_method !== PaymentMethod.WALLET) {
+      throw new BadRequestException(
+        'Held group order shares can only pay wallet orders',
+      );
+    }
+
     if (
       payment_method !== PaymentMethod.WALLET &&
       payment_method !== PaymentMethod.CARD_SAVED
@@ -144,11 +170,19 @@ export class PaymentService {
         const walletPayment =
           await this.walletPaymentService.processWalletPayment(
             order_id,
-            { total_amount: order.total_amount, subtotal: order.subtotal },
+            {
+              total_amount: order.total_amount,
+              subtotal: order.subtotal,
+              fee_breakdown: order.fee_breakdown,
+              currency: order.currency,
+              escrow_amount: options.escrow_amount,
+            },
             order.customer_id,
             order.vendor_id,
           );
 
+        await this.markOrderPaid(walletPayment, order);
+
         return this.mapToPaymentResponse(walletPayment);
       } else if (payment_method === PaymentMethod.CARD_SAVED) {
         // Process payment with saved card
@@ -156,37 +190,10 @@ export class PaymentService {
           `Processing payment with saved card for order ${order_id}`,
         );
 
-        // Get saved card
-        let savedCard: SavedCard;
-        if (saved_card_id) {
-          savedCard = await this.savedCardRepository.findOne({
-            where: {
-              id: saved_card_id,
-              user_id: order.customer_id,
-              is_active: true,
-            },
-          });
-          if (!savedCard) {
-            throw new BadRequestException('Saved card not found or inactive');
-          }
-        } else {
-          // Use default card
-          savedCard = await this.savedCardRepository.findOne({
-            where: {
-              user_id: order.customer_id,
-              is_default: true,
-              is_active: true,
-            },
-          });
-          if (!savedCard) {
-            throw new BadRequestException('No default saved card found');
-          }
-        }
-
-        // Check if card is expired
-        if (savedCard.isExpired()) {
-          throw new BadRequestException('Card has expired');
-        }
+        const savedCard = await this.resolveSavedCard(
+          order.customer_id,
+          saved_card_id,
+        );
 
         // Determine gateway and charge the saved card
         let chargeResult: any;
@@ -251,11 +258,6 @@ export class PaymentService {
 
             // Credit vendor wallet for completed payment
             await this.creditVendorForExternalPayment(payment);
-
-            // Update order status to PAID
-            await this.orderRepository.update(order.id, {
-              payment_status: PaymentStatus.PAID,
-            });
           } else {
             // Requires action (3D Secure)
             payment.status = PaymentTransactionStatus.PENDING;
@@ -268,11 +270,6 @@ export class PaymentService {
 
             // Credit vendor wallet for completed payment
             await this.creditVendorForExternalPayment(payment);
-
-            // Update order status to PAID
-            await this.orderRepository.update(order.id, {
-              payment_status: PaymentStatus.PAID,
-            });
           } else {
             payment.status = PaymentTransactionStatus.PENDING;
           }
@@ -280,6 +277,10 @@ export class PaymentService {
 
         await this.paymentRepository.update(payment.id, payment);
 
+        if (payment.status === PaymentTransactionStatus.COMPLETED) {
+          await this.markOrderPaid(payment, order);
+        }
+
         return {
           id: payment.id,
           payment_reference: payment.payment_reference,
@@ -344,6 +345,55 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Whether a payment has already been attempted for the order
+   */
+  async hasPaymentForOrder(orderId: string): Promise<boolean> {
+    return !!(await this.paymentRepository.findByOrderId(orderId));
+  }
+
+  /**
+   * The customer's active card to charge: the one asked for, or their default.
+   * Throws when there is no usable card.
+   */
+  async resolveSavedCard(
+    userId: string,
+    savedCardId?: string | null,
+  ): Promise<SavedCard> {
+    let savedCard: SavedCard;
+    if (savedCardId) {
+      savedCard = await this.savedCardRepository.findOne({
+        where: {
+          id: savedCardId,
+          user_id: userId,
+          is_active: true,
+        },
+      });
+      if (!savedCard) {
+        throw new BadRequestException('Saved card not found or inactive');
+      }
+    } else {
+      // Use default card
+      savedCard = await this.savedCardRepository.findOne({
+        where: {
+          user_id: userId,
+          is_default: true,
+          is_active: true,
+        },
+      });
+      if (!savedCard) {
+        throw new BadRequestException('No default saved card found');
+      }
+    }
+
+    // Check if card is expired
+    if (savedCard.isExpired()) {
+      throw new BadRequestException('Card has expired');
+    }
+
+    return savedCard;
+  }
+
   async verifyPayment(paymentReference: string): Promise<PaymentResponseDto> {
     this.logger.log(`Verifying payment: ${paymentReference}`);
 
@@ -376,8 +426,11 @@ export class PaymentService {
       const newStatus = this.mapVerificationStatusToPaymentStatus(
         verificationResult.status,
       );
+      const completes =
+        newStatus === PaymentTransactionStatus.COMPLETED &&
+        payment.status !== PaymentTransactionStatus.COMPLETED;
 
-      if (newStatus === PaymentTransactionStatus.COMPLETED) {
+      if (completes) {
         payment.markAsCompleted(
           verificationResult.external_reference,
           verificationResult.gateway_response,
@@ -390,20 +443,31 @@ export class PaymentService {
           verificationResult.error || 'Payment verification failed',
           verificationResult.gateway_response,
         );
+        await this.menuInventoryService.releaseOrderStockSafely(
+          payment.order_id,
+        );
       }
 
       await this.paymentRepository.update(payment.id, payment);
+
+      if (completes && payment.order) {
+        await this.markOrderPaid(payment, payment.order);
+      }
     }
 
     return this.mapToPaymentResponse(payment);
   }
 
-  async processWebhook(
+  /**
+   * Verify a provider webhook and normalise it into a PaymentWebhookResult.
+   * Throws if the provider rejects the signature or payload.
+   */
+  async verifyWebhook(
     provider: PaymentProvider,
     payload: any,
     signature: string,
-  ): Promise<PaymentResponseDto | WalletFundingStatusDto> {
-    this.logger.log(`Processing webhook for provider: ${provider}`);
+  ): Promise<PaymentWebhookResult> {
+    this.logger.log(`Verifying webhook for provider: ${provider}`);
 
     const paymentMethod = this.getPaymentMethodFromProvider(provider);
     const paymentProvider = this.paymentProviders.get(paymentMethod);
@@ -431,6 +495,16 @@ export class PaymentService {
       );
     }
 
+    return webhookResult;
+  }
+
+  /**
+   * Apply a verified webhook to the wallet funding or order payment it is
+   * about. Called by the webhook inbox worker, once per stored event.
+   */
+  async applyWebhookResult(
+    webhookResult: PaymentWebhookResult,
+  ): Promise<PaymentResponseDto | WalletFundingStatusDto> {
     this.logger.log(`Finding payment by reference: ${webhookResult.reference}`);
 
     // Check if this is a wallet funding transaction
@@ -518,8 +592,12 @@ export class PaymentService {
     const newStatus = this.mapVerificationStatusToPaymentStatus(
       webhookResult.status,
     );
+    // A verify call may already have completed the payment
+    const completes =
+      newStatus === PaymentTransactionStatus.COMPLETED &&
+      payment.status !== PaymentTransactionStatus.COMPLETED;
 
-    if (newStatus === PaymentTransactionStatus.COMPLETED) {
+    if (completes) {
       payment.markAsCompleted(
         webhookResult.external_reference,
         webhookResult.gateway_response,
@@ -533,10 +611,14 @@ export class PaymentService {
         webhookResult.gateway_response,
       );
       // update order status and payment status after failed payment
-      await this.orderRepository.update(payment.order_id, {
-        payment_status: PaymentStatus.FAILED,
-        order_status: OrderStatus.CANCELLED,
-      });
+      await this.applySystemOrderStatus(
+        payment.order,
+        OrderStatus.CANCELLED,
+        { payment_status: PaymentStatus.FAILED },
+        `Payment failed: ${webhookResult.error || 'Payment failed'}`,
+        payment.payment_reference,
+      );
+      await this.menuInventoryService.releaseOrderStockSafely(payment.order_id);
     }
 
     await this.paymentRepository.update(payment.id, payment);
@@ -549,27 +631,8 @@ export class PaymentService {
     );
 
     // update order status and payment status after successful payment
-    if (newStatus === PaymentTransactionStatus.COMPLETED) {
-      await this.orderRepository.update(payment.order_id, {
-        payment_status: PaymentStatus.PAID,
-        order_status: OrderStatus.NEW,
-      });
-
-      // send push notification to vendor
-      await this.notificationService.sendPushNotification(
-        payment.order.vendor.user_id,
-        NotificationType.ORDER_UPDATE,
-        `New Order #${payment.order.order_number}!`,
-        `You have received a new ${payment.order.order_type.toLowerCase()} order. Payment confirmed.`,
-        {
-          order_id: payment.order.id,
-          order_number: payment.order.order_number,
-          status: OrderStatus.NEW,
-          order_type: payment.order.order_type,
-          total_amount: payment.order.total_amount,
-          payment_status: PaymentStatus.PAID,
-        },
-      );
+    if (completes) {
+      await this.markOrderPaid(payment, payment.order);
     }
 
     return this.mapToPaymentResponse(payment);
@@ -607,47 +670,22 @@ export class PaymentService {
     return this.mapToPaymentResponse(payment);
   }
 
+  /**
+   * Refund part or all of a payment through the refund ledger
+   * @param amount Refund amount (optional, defaults to everything left)
+   */
   async refundPayment(
     paymentId: string,
     amount?: number,
     reason?: string,
+    initiatedBy: RefundInitiatedBy = { type: RefundInitiator.ADMIN },
   ): Promise<void> {
-    const payment = await this.paymentRepository.findById(paymentId);
-    if (!payment) {
-      throw new NotFoundException('Payment not found');
-    }
-
-    if (payment.payment_method === PaymentMethod.WALLET) {
-      await this.walletPaymentService.refundWalletPayment(
-        paymentId,
-        amount,
-        reason,
-      );
-    } else {
-      const paymentProvider = this.paymentProviders.get(payment.payment_method);
-      if (!paymentProvider) {
-        throw new BadRequestException(
-          `Unsupported payment method: ${payment.payment_method}`,
-        );
-      }
-
-      const refundResult = await paymentProvider.refundPayment(
-        payment.external_reference!,
-        amount,
-        reason,
-      );
-
-      if (!refundResult.success) {
-        throw new BadRequestException(refundResult.error || 'Refund failed');
-      }
-
-      // Update payment record
-      payment.processRefund(
-        amount || payment.amount,
-        reason || 'Refund processed',
-      );
-      await this.paymentRepository.update(payment.id, payment);
-    }
+    await this.refundService.refundPaymentAmount(
+      paymentId,
+      amount,
+      reason,
+      initiatedBy,
+    );
   }
 
   private async creditVendorForExternalPayment(payment: any): Promise<void> {
@@ -669,6 +707,13 @@ export class PaymentService {
       order.subtotal,
       order.id,
       payment.payment_reference,
+      {
+        customer_id: order.customer_id,
+        total_amount: Number(payment.amount),
+        provider: payment.provider,
+        currency: order.currency,
+        fee_breakdown: order.fee_breakdown,
+      },
     );
     this.logger.log(
       `Vendor wallet credited: ${order.vendor_id}, amount: ${payment.amount}`,
@@ -1031,4 +1076,77 @@ export class PaymentService {
       processed_at: payment.processed_at,
     };
   }
+
+  /**
+   * Mark the order paid and publish payment.succeeded. Every path that
+   * completes an order payment (wallet, saved card, verify, webhook) ends
+   * here, so listeners hear about each payment exactly once.
+   */
+  private async markOrderPaid(payment: Payment, order: Order): Promise<void> {
+    await this.applySystemOrderStatus(
+      order,
+      OrderStatus.NEW,
+      { payment_status: PaymentStatus.PAID },
+      'Payment confirmed',
+      payment.payment_reference,
+    );
+
+    this.eventEmitter.emit(
+      PAYMENT_EVENTS.SUCCEEDED,
+      new PaymentSucceededEvent(payment, order),
+    );
+  }
+
+  /**
+   * Update an order after a payment event. The status only changes when the
+   * order state machine allows it; the change is written to status history.
+   */
+  private async applySystemOrderStatus(
+    order: Order,
+    status: OrderStatus,
+    updates: Partial<Order>,
+    reason: string,
+    paymentReference: string,
+  ): Promise<void> {
+    const previousStatus = order.order_status;
+    const changesStatus =
+      previousStatus !== status &&
+      this.orderStateMachine.canTransition(
+        OrderStatusActor.SYSTEM,
+        previousStatus,
+        status,
+      );
+
+    await this.orderRepository.update(order.id, {
+      ...updates,
+      ...(changesStatus ? { order_status: status } : {}),
+    });
+
+    Object.assign(order, updates);
+
+    if (changesStatus) {
+      const transition: OrderTransitionContext = {
+        actor: OrderStatusActor.SYSTEM,
+        reason,
+        metadata: { payment_reference: paymentReference },
+      };
+      order.order_status = status;
+      await this.orderStateMachine.recordTransition(
+        order.id,
+        previousStatus,
+        status,
+        transition,
+      );
+      this.orderStateMachine.publishTransition(
+        order,
+        previousStatus,
+        status,
+        transition,
+      );
+    } else if (previousStatus !== status) {
+      this.logger.warn(
+        `Order ${order.id} left in ${previousStatus}; ${status} is not allowed after a payment event`,
+      );
+    }
+  }
 }
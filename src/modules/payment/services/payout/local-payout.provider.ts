@@ -0,0 +1,173 @@
+import { Logger } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { Bank, Currency, PayoutProvider, Withdrawal } from 'src/entities';
+import {
+  PayoutInitiationResult,
+  PayoutProviderInterface,
+  PayoutReversalResult,
+  PayoutWebhookResult,
+} from '../../interfaces/payout-provider.interface';
+
+interface LocalTransfer {
+  reference: string;
+  transfer_id: string;
+  amount: number;
+  currency: Currency;
+  status: 'pending' | 'completed' | 'failed';
+}
+
+/**
+ * In-memory stand-in for a payout provider, used when
+ * PAYOUT_PROVIDER_MODE=local so payouts can be exercised end to end
+ * without real Paystack or Stripe credentials.
+ *
+ * Account numbers ending in "0000" are rejected at initiation, and ones
+ * ending in "9999" are accepted but answer as if the request timed out, so
+ * the ambiguous path can be exercised. Failed payouts to accounts ending in
+ * "8888" cannot be reversed. Webhooks are
+ * plain `{ reference, status, reason? }` payloads signed with
+ * PAYOUT_LOCAL_WEBHOOK_SECRET, which must be set so webhooks can't be
+ * forged if local mode is switched on by mistake.
+ */
+export class LocalPayoutProvider implements PayoutProviderInterface {
+  private readonly logger: Logger;
+  private readonly transfers = new Map<string, LocalTransfer>();
+
+  constructor(
+    readonly provider: PayoutProvider,
+    readonly supportedCurrencies: Currency[],
+    private readonly webhookSecret: string,
+  ) {
+    if (!webhookSecret) {
+      throw new Error(
+        'PAYOUT_LOCAL_WEBHOOK_SECRET is required for the local payout provider',
+      );
+    }
+    this.logger = new Logger(`LocalPayoutProvider:${provider}`);
+  }
+
+  async initiatePayout(
+    withdrawal: Withdrawal,
+    bank: Bank,
+    reference: string,
+  ): Promise<PayoutInitiationResult> {
+    if (bank.account_number.endsWith('0000')) {
+      return {
+        success: false,
+        status: 'failed',
+        error: 'Account number rejected by local payout provider',
+      };
+    }
+
+    const transfer: LocalTransfer = {
+      reference,
+      transfer_id: `local_trf_${randomBytes(8).toString('hex')}`,
+      amount: withdrawal.net_amount,
+      currency: withdrawal.currency,
+      status: 'pending',
+    };
+    this.transfers.set(reference, transfer);
+
+    this.logger.log(
+      `Local payout ${reference} queued for ${transfer.currency} ${transfer.amount}`,
+    );
+
+    if (bank.account_number.endsWith('9999')) {
+      return {
+        success: false,
+        status: 'unknown',
+        error: 'Local payout provider timed out',
+      };
+    }
+
+    return {
+      success: true,
+      status: transfer.status,
+      transfer_id: transfer.transfer_id,
+      gateway_response: { ...transfer },
+    };
+  }
+
+  async lookupPayout(
+    _withdrawal: Withdrawal,
+    _bank: Bank,
+    reference: string,
+  ): Promise<PayoutWebhookResult> {
+    const transfer = this.transfers.get(reference);
+    if (!transfer) {
+      return {
+        success: true,
+        reference,
+        status: 'failed',
+        failure_reason: 'No local payout with this reference',
+      };
+    }
+
+    return {
+      success: true,
+      reference,
+      status: transfer.status,
+      transfer_id: transfer.transfer_id,
+      failure_reason:
+        transfer.status === 'failed' ? 'Local payout failed' : undefined,
+      gateway_response: { ...transfer },
+    };
+  }
+
+  async reversePayout(
+    withdrawal: Withdrawal,
+    reference: string,
+  ): Promise<PayoutReversalResult> {
+    if (withdrawal.account_number?.endsWith('8888')) {
+      return {
+        success: false,
+        error: 'Local payout provider could not reverse the payout',
+      };
+    }
+
+    return {
+      success: true,
+      reversal_id: this.transfers.has(reference)
+        ? `local_rev_${randomBytes(8).toString('hex')}`
+        : undefined,
+    };
+  }
+
+  async processWebhook(
+    payload: any,
+    signature: string,
+  ): Promise<PayoutWebhookResult> {
+    if (signature !== this.webhookSecret) {
+      return { success: false, error: 'Invalid webhook signature' };
+    }
+
+    const transfer = this.transfers.get(payload?.reference);
+    if (!transfer) {
+      return {
+        success: false,
+        error: `Unknown payout reference: ${payload?.reference}`,
+      };
+    }
+
+    if (payload.status !== 'completed' && payload.status !== 'failed') {
+      return {
+        success: false,
+        error: `Unhandled payout status: ${payload.status}`,
+      };
+    }
+
+    transfer.status = payload.status;
+
+    return {
+      success: true,
+      reference: transfer.reference,
+      status: transfer.status,
+      transfer_id: transfer.transfer_id,
+      failure_reason:
+        transfer.status === 'failed'
+          ? payload.reason || 'Local payout failed'
+          : undefined,
+      gateway_response: payload,
+    };
+  }
+}
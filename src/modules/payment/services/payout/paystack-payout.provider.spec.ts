@@ -0,0 +1,256 @@
+import { createHmac } from 'crypto';
+import { Bank, Currency, Withdrawal } from 'src/entities';
+import { PaystackPayoutProvider } from './paystack-payout.provider';
+
+const SECRET_KEY = 'sk_test_paystack';
+const REFERENCE = 'payout_1_abc';
+
+/**
+ * Paystack answers keyed by "METHOD path". A function answer can throw to
+ * stand in for a network failure.
+ */
+type PaystackAnswer = { status: number; body: any } | (() => never);
+
+const respond = (status: number, body: any): PaystackAnswer => ({
+  status,
+  body,
+});
+
+describe('PaystackPayoutProvider', () => {
+  let provider: PaystackPayoutProvider;
+  let answers: Record<string, PaystackAnswer>;
+  let requests: Array<{ method: string; path: string; body?: any }>;
+  let withdrawal: Withdrawal;
+  let bank: Bank;
+
+  beforeEach(() => {
+    process.env.PAYSTACK_SECRET_KEY = SECRET_KEY;
+    provider = new PaystackPayoutProvider();
+
+    answers = {};
+    requests = [];
+    jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(async (url: string, init: RequestInit) => {
+        const path = new URL(url).pathname;
+        const key = `${init.method} ${path}`;
+        requests.push({
+          method: init.method,
+          path,
+          body: init.body ? JSON.parse(init.body as string) : undefined,
+        });
+
+        const answer = answers[key];
+        if (!answer) {
+          throw new Error(`Unexpected Paystack request ${key}`);
+        }
+        if (typeof answer === 'function') {
+          return answer();
+        }
+        return {
+          ok: answer.status < 400,
+          status: answer.status,
+          json: async () => answer.body,
+        } as Response;
+      });
+
+    withdrawal = Object.assign(new Withdrawal(), {
+      id: 'wd_1',
+      amount: 50000,
+      fee: 100,
+      currency: Currency.NGN,
+      account_name: 'Ada Vendor',
+    });
+    bank = Object.assign(new Bank(), {
+      id: 'bank_1',
+      user_id: 'vendor_1',
+      account_number: '0123456789',
+      bank_name: 'Test Bank',
+      bank_code: '058',
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('initiatePayout', () => {
+    it('creates a recipient once and starts the transfer', async () => {
+      answers['POST /transferrecipient'] = respond(200, {
+        status: true,
+        data: { recipient_code: 'RCP_1' },
+      });
+      answers['POST /transfer'] = respond(200, {
+        status: true,
+        data: { status: 'pending', transfer_code: 'TRF_1' },
+      });
+
+      const result = await provider.initiatePayout(withdrawal, bank, REFERENCE);
+
+      expect(result).toMatchObject({
+        success: true,
+        status: 'pending',
+        transfer_id: 'TRF_1',
+        bank_updates: { paystack_recipient_code: 'RCP_1' },
+      });
+      expect(requests[1].body).toMatchObject({
+        amount: 4990000,
+        recipient: 'RCP_1',
+        reference: REFERENCE,
+      });
+    });
+
+    it('fails when the recipient cannot be created', async () => {
+      answers['POST /transferrecipient'] = respond(422, {
+        status: false,
+        message: 'Account number is invalid',
+      });
+
+      const result = await provider.initiatePayout(withdrawal, bank, REFERENCE);
+
+      expect(result).toMatchObject({ success: false, status: 'failed' });
+      expect(requests.map(r => r.path)).toEqual(['/transferrecipient']);
+    });
+
+    it('fails when Paystack rejects the transfer with a 4xx', async () => {
+      bank.paystack_recipient_code = 'RCP_1';
+      answers['POST /transfer'] = respond(400, {
+        status: false,
+        message: 'Insufficient balance',
+      });
+
+      const result = await provider.initiatePayout(withdrawal, bank, REFERENCE);
+
+      expect(result).toMatchObject({ success: false, status: 'failed' });
+    });
+
+    it('leaves the outcome unknown after a 5xx', async () => {
+      bank.paystack_recipient_code = 'RCP_1';
+      answers['POST /transfer'] = respond(502, {
+        status: false,
+        message: 'Bad gateway',
+      });
+
+      const result = await provider.initiatePayout(withdrawal, bank, REFERENCE);
+
+      expect(result).toMatchObject({ success: false, status: 'unknown' });
+    });
+
+    it('leaves the outcome unknown after a network error', async () => {
+      bank.paystack_recipient_code = 'RCP_1';
+      answers['POST /transfer'] = () => {
+        throw new TypeError('fetch failed');
+      };
+
+      const result = await provider.initiatePayout(withdrawal, bank, REFERENCE);
+
+      expect(result).toMatchObject({ success: false, status: 'unknown' });
+    });
+  });
+
+  describe('lookupPayout', () => {
+    const verifyPath = `GET /transfer/verify/${REFERENCE}`;
+
+    it.each([
+      ['success', 'completed'],
+      ['reversed', 'failed'],
+      ['pending', 'pending'],
+    ])('maps a %s transfer to %s', async (paystackStatus, status) => {
+      answers[verifyPath] = respond(200, {
+        status: true,
+        data: { status: paystackStatus, transfer_code: 'TRF_1' },
+      });
+
+      const result = await provider.lookupPayout(withdrawal, bank, REFERENCE);
+
+      expect(result).toMatchObject({
+        success: true,
+        reference: REFERENCE,
+        status,
+        transfer_id: 'TRF_1',
+      });
+    });
+
+    it('fails a payout Paystack has never seen', async () => {
+      answers[verifyPath] = respond(404, {
+        status: false,
+        message: 'Transfer not found',
+      });
+
+      const result = await provider.lookupPayout(withdrawal, bank, REFERENCE);
+
+      expect(result).toMatchObject({ success: true, status: 'failed' });
+    });
+
+    it('reports a failed lookup without settling', async () => {
+      answers[verifyPath] = respond(500, {
+        status: false,
+        message: 'Server error',
+      });
+
+      const result = await provider.lookupPayout(withdrawal, bank, REFERENCE);
+
+      expect(result.success).toBe(false);
+      expect(result.status).toBeUndefined();
+    });
+  });
+
+  describe('processWebhook', () => {
+    const sign = (payload: any) =>
+      createHmac('sha512', SECRET_KEY)
+        .update(JSON.stringify(payload))
+        .digest('hex');
+
+    const transferEvent = (event: string) => ({
+      event,
+      data: {
+        reference: REFERENCE,
+        transfer_code: 'TRF_1',
+        reason: 'Account closed',
+      },
+    });
+
+    it('completes on transfer.success', async () => {
+      const payload = transferEvent('transfer.success');
+
+      const result = await provider.processWebhook(payload, sign(payload));
+
+      expect(result).toMatchObject({
+        success: true,
+        reference: REFERENCE,
+        status: 'completed',
+        transfer_id: 'TRF_1',
+      });
+    });
+
+    it.each(['transfer.failed', 'transfer.reversed'])(
+      'fails on %s',
+      async event => {
+        const payload = transferEvent(event);
+
+        const result = await provider.processWebhook(payload, sign(payload));
+
+        expect(result).toMatchObject({
+          success: true,
+          status: 'failed',
+          failure_reason: 'Account closed',
+        });
+      },
+    );
+
+    it('rejects a payload with a bad signature', async () => {
+      const payload = transferEvent('transfer.success');
+
+      const result = await provider.processWebhook(payload, 'forged');
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  it('has nothing to reverse after a failed transfer', async () => {
+    const result = await provider.reversePayout(withdrawal, REFERENCE);
+
+    expect(result).toEqual({ success: true });
+    expect(requests).toEqual([]);
+  });
+});
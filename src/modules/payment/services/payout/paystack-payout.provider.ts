@@ -0,0 +1,325 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { Bank, Currency, PayoutProvider, Withdrawal } from 'src/entities';
+import {
+  PayoutInitiationResult,
+  PayoutProviderInterface,
+  PayoutReversalResult,
+  PayoutWebhookResult,
+} from '../../interfaces/payout-provider.interface';
+
+// An answer Paystack actually sent, as opposed to a network failure
+class PaystackApiError extends Error {
+  constructor(message: string, readonly httpStatus: number) {
+    super(message);
+  }
+}
+
+/**
+ * NGN payouts through Paystack Transfers.
+ * A transfer recipient is created once per saved bank and reused afterwards.
+ */
+@Injectable()
+export class PaystackPayoutProvider implements PayoutProviderInterface {
+  private readonly logger = new Logger(PaystackPayoutProvider.name);
+  private readonly paystackSecretKey: string;
+  private readonly paystackBaseUrl: string = 'https://api.paystack.co';
+
+  readonly provider = PayoutProvider.PAYSTACK;
+  readonly supportedCurrencies = [Currency.NGN];
+
+  constructor() {
+    this.paystackSecretKey = process.env.PAYSTACK_SECRET_KEY || '';
+
+    if (!this.paystackSecretKey) {
+      this.logger.warn('Paystack secret key not configured');
+    }
+  }
+
+  async initiatePayout(
+    withdrawal: Withdrawal,
+    bank: Bank,
+    reference: string,
+  ): Promise<PayoutInitiationResult> {
+    this.logger.log(
+      `Initiating Paystack transfer ${reference} for withdrawal ${withdrawal.id}`,
+    );
+
+    const bankUpdates: Partial<Bank> = {};
+    let recipientCode = bank.paystack_recipient_code;
+
+    try {
+      if (!this.paystackSecretKey) {
+        throw new BadRequestException('Paystack configuration missing');
+      }
+
+      if (!recipientCode) {
+        const bankCode = bank.bank_code || (await this.resolveBankCode(bank));
+        if (bankCode !== bank.bank_code) {
+          bankUpdates.bank_code = bankCode;
+        }
+
+        recipientCode = await this.createTransferRecipient(
+          bank,
+          bankCode,
+          withdrawal.account_name,
+        );
+        bankUpdates.paystack_recipient_code = recipientCode;
+      }
+    } catch (error) {
+      // No transfer was requested yet, so no money can have moved
+      this.logger.error(`Paystack transfer setup failed: ${error.message}`);
+      return {
+        success: false,
+        status: 'failed',
+        bank_updates: bankUpdates,
+        error: error.message,
+      };
+    }
+
+    try {
+      const response = await this.makePaystackRequest(
+        'POST',
+        `${this.paystackBaseUrl}/transfer`,
+        {
+          source: 'balance',
+          amount: Math.round(withdrawal.net_amount * 100), // Convert to kobo
+          currency: Currency.NGN,
+          recipient: recipientCode,
+          reference,
+          reason: `Rambini withdrawal ${withdrawal.id}`,
+        },
+      );
+
+      return {
+        success: true,
+        status: this.mapTransferStatus(response.data.status),
+        transfer_id: response.data.transfer_code,
+        bank_updates: bankUpdates,
+        gateway_response: response,
+      };
+    } catch (error) {
+      // Only a 4xx answer means Paystack refused the transfer. A timeout,
+      // network error or 5xx may still have been accepted.
+      const rejected =
+        error instanceof PaystackApiError && error.httpStatus < 500;
+      this.logger.error(
+        `Paystack transfer ${reference} ${
+          rejected ? 'rejected' : 'outcome unknown'
+        }: ${error.message}`,
+      );
+      return {
+        success: false,
+        status: rejected ? 'failed' : 'unknown',
+        bank_updates: bankUpdates,
+        error: error.message,
+      };
+    }
+  }
+
+  async lookupPayout(
+    _withdrawal: Withdrawal,
+    _bank: Bank,
+    reference: string,
+  ): Promise<PayoutWebhookResult> {
+    try {
+      const response = await this.makePaystackRequest(
+        'GET',
+        `${this.paystackBaseUrl}/transfer/verify/${encodeURIComponent(
+          reference,
+        )}`,
+      );
+      const status = this.mapTransferStatus(response.data.status);
+
+      return {
+        success: true,
+        reference,
+        status,
+        transfer_id: response.data.transfer_code,
+        failure_reason:
+          status === 'failed'
+            ? response.data.reason ||
+              `Paystack transfer ${response.data.status}`
+            : undefined,
+        gateway_response: response,
+      };
+    } catch (error) {
+      if (error instanceof PaystackApiError && error.httpStatus === 404) {
+        return {
+          success: true,
+          reference,
+          status: 'failed',
+          failure_reason: 'Paystack has no transfer with this reference',
+        };
+      }
+
+      this.logger.error(
+        `Paystack transfer lookup for ${reference} failed: ${error.message}`,
+      );
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * Paystack returns the amount of a failed or reversed transfer to the
+   * balance itself, so there is nothing to pull back
+   */
+  async reversePayout(
+    _withdrawal: Withdrawal,
+    _reference: string,
+  ): Promise<PayoutReversalResult> {
+    return { success: true };
+  }
+
+  async processWebhook(
+    payload: any,
+    signature: string,
+  ): Promise<PayoutWebhookResult> {
+    try {
+      if (!this.verifyWebhookSignature(payload, signature)) {
+        throw new BadRequestException('Invalid webhook signature');
+      }
+
+      const event = payload;
+      let status: 'pending' | 'completed' | 'failed';
+
+      switch (event.event) {
+        case 'transfer.success':
+          status = 'completed';
+          break;
+        case 'transfer.failed':
+        case 'transfer.reversed':
+          status = 'failed';
+          break;
+        default:
+          return {
+            success: false,
+            error: `Unhandled event type: ${event.event}`,
+          };
+      }
+
+      return {
+        success: true,
+        reference: event.data.reference,
+        status,
+        transfer_id: event.data.transfer_code,
+        failure_reason:
+          status === 'failed'
+            ? event.data.reason || `Paystack ${event.event}`
+            : undefined,
+        gateway_response: event,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Paystack payout webhook processing failed: ${error.message}`,
+      );
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  private async resolveBankCode(bank: Bank): Promise<string> {
+    const response = await this.makePaystackRequest(
+      'GET',
+      `${this.paystackBaseUrl}/bank?country=nigeria&currency=NGN`,
+    );
+
+    const bankName = bank.bank_name.trim().toLowerCase();
+    const match = (response.data || []).find(
+      (paystackBank: any) => paystackBank.name?.toLowerCase() === bankName,
+    );
+
+    if (!match) {
+      throw new Error(
+        `Could not resolve Paystack bank code for "${bank.bank_name}"`,
+      );
+    }
+
+    return match.code;
+  }
+
+  private async createTransferRecipient(
+    bank: Bank,
+    bankCode: string,
+    accountName?: string,
+  ): Promise<string> {
+    const response = await this.makePaystackRequest(
+      'POST',
+      `${this.paystackBaseUrl}/transferrecipient`,
+      {
+        type: 'nuban',
+        name: accountName || bank.name,
+        account_number: bank.account_number,
+        bank_code: bankCode,
+        currency: Currency.NGN,
+        metadata: { bank_id: bank.id, user_id: bank.user_id },
+      },
+    );
+
+    return response.data.recipient_code;
+  }
+
+  private mapTransferStatus(
+    status: string,
+  ): 'pending' | 'completed' | 'failed' {
+    switch (status) {
+      case 'success':
+        return 'completed';
+      case 'failed':
+      case 'reversed':
+        return 'failed';
+      default:
+        return 'pending';
+    }
+  }
+
+  private verifyWebhookSignature(payload: any, signature: string): boolean {
+    try {
+      const hash = createHmac('sha512', this.paystackSecretKey)
+        .update(JSON.stringify(payload))
+        .digest('hex');
+
+      return hash === signature;
+    } catch (error) {
+      this.logger.error(
+        `Webhook signature verification failed: ${error.message}`,
+      );
+      return false;
+    }
+  }
+
+  private async makePaystackRequest(
+    method: string,
+    url: string,
+    body?: any,
+  ): Promise<any> {
+    const requestOptions: RequestInit = {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.paystackSecretKey}`,
+        'Content-Type': 'application/json',
+      },
+    };
+
+    if (body && method !== 'GET') {
+      requestOptions.body = JSON.stringify(body);
+    }
+
+    const response = await fetch(url, requestOptions);
+    const data = await response.json();
+
+    if (!response.ok || !data.status) {
+      throw new PaystackApiError(
+        `Paystack API error: ${data.message || 'Unknown error'}`,
+        response.status,
+      );
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,322 @@
+import { Bank, Currency, Withdrawal } from 'src/entities';
+import { StripePayoutProvider } from './stripe-payout.provider';
+
+/**
+ * Stand-in for the parts of the Stripe client the provider calls. Each test
+ * sets the answers it needs.
+ */
+const stripe = {
+  transfers: {
+    create: jest.fn(),
+    list: jest.fn(),
+    createReversal: jest.fn(),
+  },
+  payouts: {
+    create: jest.fn(),
+    retrieve: jest.fn(),
+  },
+  webhooks: {
+    constructEvent: jest.fn(),
+  },
+};
+
+jest.mock('stripe', () => ({
+  __esModule: true,
+  default: jest.fn(() => stripe),
+}));
+
+const REFERENCE = 'payout_1_abc';
+const CONNECT_ACCOUNT = 'acct_vendor';
+
+const stripeError = (statusCode?: number) =>
+  Object.assign(new Error(`Stripe error ${statusCode ?? 'network'}`), {
+    statusCode,
+  });
+
+describe('StripePayoutProvider', () => {
+  let provider: StripePayoutProvider;
+  let withdrawal: Withdrawal;
+  let bank: Bank;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.STRIPE_SECRET_KEY = 'sk_test';
+    process.env.STRIPE_CONNECT_WEBHOOK_SECRET = 'whsec_test';
+    provider = new StripePayoutProvider();
+
+    withdrawal = Object.assign(new Withdrawal(), {
+      id: 'wd_1',
+      amount: 100,
+      fee: 1.5,
+      currency: Currency.USD,
+    });
+    bank = Object.assign(new Bank(), {
+      id: 'bank_1',
+      stripe_connect_account_id: CONNECT_ACCOUNT,
+    });
+  });
+
+  describe('initiatePayout', () => {
+    it('transfers to the connected account and pays it out', async () => {
+      stripe.transfers.create.mockResolvedValue({ id: 'tr_1' });
+      stripe.payouts.create.mockResolvedValue({
+        id: 'po_1',
+        status: 'pending',
+      });
+
+      const result = await provider.initiatePayout(withdrawal, bank, REFERENCE);
+
+      expect(result).toMatchObject({
+        success: true,
+        status: 'pending',
+        transfer_id: 'po_1',
+      });
+      expect(stripe.transfers.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: 9850,
+          destination: CONNECT_ACCOUNT,
+          transfer_group: REFERENCE,
+        }),
+        { idempotencyKey: `${REFERENCE}-transfer` },
+      );
+      expect(stripe.payouts.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 9850 }),
+        {
+          stripeAccount: CONNECT_ACCOUNT,
+          idempotencyKey: `${REFERENCE}-payout`,
+        },
+      );
+    });
+
+    it('fails without a connected account', async () => {
+      bank.stripe_connect_account_id = null;
+
+      const result = await provider.initiatePayout(withdrawal, bank, REFERENCE);
+
+      expect(result).toMatchObject({ success: false, status: 'failed' });
+      expect(stripe.transfers.create).not.toHaveBeenCalled();
+    });
+
+    it('fails when Stripe rejects the transfer with a 4xx', async () => {
+      stripe.transfers.create.mockRejectedValue(stripeError(400));
+
+      const result = await provider.initiatePayout(withdrawal, bank, REFERENCE);
+
+      expect(result).toMatchObject({ success: false, status: 'failed' });
+    });
+
+    it.each([
+      ['a 5xx', 500],
+      ['an idempotency conflict', 409],
+      ['a network error', undefined],
+    ])(
+      'leaves the outcome unknown after %s on the transfer',
+      async (_label, statusCode) => {
+        stripe.transfers.create.mockRejectedValue(stripeError(statusCode));
+
+        const result = await provider.initiatePayout(
+          withdrawal,
+          bank,
+          REFERENCE,
+        );
+
+        expect(result).toMatchObject({ success: false, status: 'unknown' });
+      },
+    );
+
+    it('leaves the outcome unknown when the payout fails after the transfer', async () => {
+      stripe.transfers.create.mockResolvedValue({ id: 'tr_1' });
+      stripe.payouts.create.mockRejectedValue(stripeError(400));
+
+      const result = await provider.initiatePayout(withdrawal, bank, REFERENCE);
+
+      expect(result).toMatchObject({
+        success: false,
+        status: 'unknown',
+        transfer_id: 'tr_1',
+      });
+    });
+  });
+
+  describe('lookupPayout', () => {
+    it('reads a known payout from the connected account', async () => {
+      withdrawal.payout_transfer_id = 'po_1';
+      stripe.payouts.retrieve.mockResolvedValue({ id: 'po_1', status: 'paid' });
+
+      const result = await provider.lookupPayout(withdrawal, bank, REFERENCE);
+
+      expect(result).toMatchObject({
+        success: true,
+        status: 'completed',
+        transfer_id: 'po_1',
+      });
+      expect(stripe.payouts.retrieve).toHaveBeenCalledWith(
+        'po_1',
+        {},
+        { stripeAccount: CONNECT_ACCOUNT },
+      );
+    });
+
+    it('fails a payout whose transfer never reached Stripe', async () => {
+      stripe.transfers.list.mockResolvedValue({ data: [] });
+
+      const result = await provider.lookupPayout(withdrawal, bank, REFERENCE);
+
+      expect(result).toMatchObject({ success: true, status: 'failed' });
+      expect(stripe.payouts.create).not.toHaveBeenCalled();
+    });
+
+    it('retries the payout under the same key when only the transfer went through', async () => {
+      withdrawal.payout_transfer_id = 'tr_1';
+      stripe.transfers.list.mockResolvedValue({ data: [{ id: 'tr_1' }] });
+      stripe.payouts.create.mockResolvedValue({
+        id: 'po_1',
+        status: 'in_transit',
+      });
+
+      const result = await provider.lookupPayout(withdrawal, bank, REFERENCE);
+
+      expect(result).toMatchObject({
+        success: true,
+        status: 'pending',
+        transfer_id: 'po_1',
+      });
+      expect(stripe.payouts.create).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ idempotencyKey: `${REFERENCE}-payout` }),
+      );
+    });
+
+    it('reports a failed lookup without settling', async () => {
+      stripe.transfers.list.mockRejectedValue(stripeError(500));
+
+      const result = await provider.lookupPayout(withdrawal, bank, REFERENCE);
+
+      expect(result.success).toBe(false);
+      expect(result.status).toBeUndefined();
+    });
+  });
+
+  describe('reversePayout', () => {
+    it('reverses what is left of the transfer', async () => {
+      stripe.transfers.list.mockResolvedValue({
+        data: [{ id: 'tr_1', amount: 9850, amount_reversed: 0 }],
+      });
+      stripe.transfers.createReversal.mockResolvedValue({ id: 'trr_1' });
+
+      const result = await provider.reversePayout(withdrawal, REFERENCE);
+
+      expect(result).toEqual({ success: true, reversal_id: 'trr_1' });
+      expect(stripe.transfers.createReversal).toHaveBeenCalledWith(
+        'tr_1',
+        expect.objectContaining({ amount: 9850 }),
+        { idempotencyKey: `${REFERENCE}-reversal` },
+      );
+    });
+
+    it('has nothing to reverse when no transfer was made', async () => {
+      stripe.transfers.list.mockResolvedValue({ data: [] });
+
+      const result = await provider.reversePayout(withdrawal, REFERENCE);
+
+      expect(result).toEqual({ success: true });
+      expect(stripe.transfers.createReversal).not.toHaveBeenCalled();
+    });
+
+    it('does not reverse a transfer twice', async () => {
+      stripe.transfers.list.mockResolvedValue({
+        data: [
+          {
+            id: 'tr_1',
+            amount: 9850,
+            amount_reversed: 9850,
+            reversals: { data: [{ id: 'trr_1' }] },
+          },
+        ],
+      });
+
+      const result = await provider.reversePayout(withdrawal, REFERENCE);
+
+      expect(result).toEqual({ success: true, reversal_id: 'trr_1' });
+      expect(stripe.transfers.createReversal).not.toHaveBeenCalled();
+    });
+
+    it('reports a reversal Stripe refuses', async () => {
+      stripe.transfers.list.mockResolvedValue({
+        data: [{ id: 'tr_1', amount: 9850, amount_reversed: 0 }],
+      });
+      stripe.transfers.createReversal.mockRejectedValue(stripeError(400));
+
+      const result = await provider.reversePayout(withdrawal, REFERENCE);
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('processWebhook', () => {
+    const payoutEvent = (type: string, payout: Record<string, any> = {}) => ({
+      type,
+      data: {
+        object: {
+          id: 'po_1',
+          metadata: { payout_reference: REFERENCE },
+          ...payout,
+        },
+      },
+    });
+
+    it('completes on payout.paid', async () => {
+      stripe.webhooks.constructEvent.mockReturnValue(
+        payoutEvent('payout.paid'),
+      );
+
+      const result = await provider.processWebhook('{}', 'sig');
+
+      expect(result).toMatchObject({
+        success: true,
+        reference: REFERENCE,
+        status: 'completed',
+        transfer_id: 'po_1',
+      });
+      expect(stripe.webhooks.constructEvent).toHaveBeenCalledWith(
+        '{}',
+        'sig',
+        'whsec_test',
+      );
+    });
+
+    it.each(['payout.failed', 'payout.canceled'])('fails on %s', async type => {
+      stripe.webhooks.constructEvent.mockReturnValue(
+        payoutEvent(type, { failure_message: 'Account closed' }),
+      );
+
+      const result = await provider.processWebhook('{}', 'sig');
+
+      expect(result).toMatchObject({
+        success: true,
+        status: 'failed',
+        failure_reason: 'Account closed',
+      });
+    });
+
+    it('rejects an event with a bad signature', async () => {
+      stripe.webhooks.constructEvent.mockImplementation(() => {
+        throw new Error('No signatures found matching the expected signature');
+      });
+
+      const result = await provider.processWebhook('{}', 'forged');
+
+      expect(result.success).toBe(false);
+    });
+
+    it('ignores events it does not handle', async () => {
+      stripe.webhooks.constructEvent.mockReturnValue(
+        payoutEvent('payout.created'),
+      );
+
+      const result = await provider.processWebhook('{}', 'sig');
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,332 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import Stripe from 'stripe';
+import { Bank, Currency, PayoutProvider, Withdrawal } from 'src/entities';
+import {
+  PayoutInitiationResult,
+  PayoutProviderInterface,
+  PayoutReversalResult,
+  PayoutWebhookResult,
+} from '../../interfaces/payout-provider.interface';
+
+/**
+ * USD, GBP and EUR payouts through Stripe Connect.
+ * Funds are transferred to the vendor's connected account, then paid out
+ * from that account to its external bank account.
+ */
+@Injectable()
+export class StripePayoutProvider implements PayoutProviderInterface {
+  private readonly logger = new Logger(StripePayoutProvider.name);
+  private readonly stripeSecretKey: string;
+  private readonly stripeConnectWebhookSecret: string;
+  private readonly stripe: Stripe;
+
+  readonly provider = PayoutProvider.STRIPE;
+  readonly supportedCurrencies = [Currency.USD, Currency.GBP, Currency.EUR];
+
+  constructor() {
+    this.stripeSecretKey = process.env.STRIPE_SECRET_KEY || '';
+    this.stripeConnectWebhookSecret =
+      process.env.STRIPE_CONNECT_WEBHOOK_SECRET || '';
+
+    if (!this.stripeSecretKey) {
+      this.logger.warn('Stripe secret key not configured');
+    }
+
+    this.stripe = new Stripe(this.stripeSecretKey, {
+      apiVersion: '2023-10-16',
+      typescript: true,
+    });
+  }
+
+  async initiatePayout(
+    withdrawal: Withdrawal,
+    bank: Bank,
+    reference: string,
+  ): Promise<PayoutInitiationResult> {
+    this.logger.log(
+      `Initiating Stripe Connect payout ${reference} for withdrawal ${withdrawal.id}`,
+    );
+
+    if (!this.stripeSecretKey) {
+      return {
+        success: false,
+        status: 'failed',
+        error: 'Stripe configuration missing',
+      };
+    }
+
+    if (!bank.stripe_connect_account_id) {
+      return {
+        success: false,
+        status: 'failed',
+        error: 'Bank account is not linked to a Stripe Connect account',
+      };
+    }
+
+    let transfer: Stripe.Transfer;
+    try {
+      transfer = await this.stripe.transfers.create(
+        {
+          amount: this.toMinorUnits(withdrawal),
+          currency: withdrawal.currency.toLowerCase(),
+          destination: bank.stripe_connect_account_id,
+          transfer_group: reference,
+          metadata: this.buildMetadata(withdrawal, reference),
+        },
+        { idempotencyKey: `${reference}-transfer` },
+      );
+    } catch (error) {
+      const rejected = this.isDefiniteRejection(error);
+      this.logger.error(
+        `Stripe transfer ${reference} ${
+          rejected ? 'rejected' : 'outcome unknown'
+        }: ${error.message}`,
+      );
+      return {
+        success: false,
+        status: rejected ? 'failed' : 'unknown',
+        error: error.message,
+      };
+    }
+
+    try {
+      const payout = await this.createConnectedPayout(
+        withdrawal,
+        bank,
+        reference,
+      );
+
+      return {
+        success: true,
+        status: this.mapPayoutStatus(payout.status),
+        transfer_id: payout.id,
+        gateway_response: payout as any,
+      };
+    } catch (error) {
+      // The funds already sit on the connected account. Refunding the
+      // wallet now would pay the vendor twice, so keep the transfer and let
+      // lookupPayout retry the payout under the same idempotency key.
+      this.logger.error(
+        `Stripe payout ${reference} failed after transfer ${transfer.id}: ${error.message}`,
+      );
+      return {
+        success: false,
+        status: 'unknown',
+        transfer_id: transfer.id,
+        gateway_response: transfer as any,
+        error: error.message,
+      };
+    }
+  }
+
+  async lookupPayout(
+    withdrawal: Withdrawal,
+    bank: Bank,
+    reference: string,
+  ): Promise<PayoutWebhookResult> {
+    try {
+      let payout: Stripe.Payout;
+
+      if (withdrawal.payout_transfer_id?.startsWith('po_')) {
+        payout = await this.stripe.payouts.retrieve(
+          withdrawal.payout_transfer_id,
+          {},
+          { stripeAccount: bank.stripe_connect_account_id },
+        );
+      } else {
+        const transfers = await this.stripe.transfers.list({
+          transfer_group: reference,
+          limit: 1,
+        });
+        if (transfers.data.length === 0) {
+          return {
+            success: true,
+            reference,
+            status: 'failed',
+            failure_reason: 'Stripe has no transfer for this payout',
+          };
+        }
+
+        payout = await this.createConnectedPayout(withdrawal, bank, reference);
+      }
+
+      const status = this.mapPayoutStatus(payout.status);
+      return {
+        success: true,
+        reference,
+        status,
+        transfer_id: payout.id,
+        failure_reason:
+          status === 'failed'
+            ? payout.failure_message || `Stripe payout ${payout.status}`
+            : undefined,
+        gateway_response: payout as any,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Stripe payout lookup for ${reference} failed: ${error.message}`,
+      );
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * A failed Connect payout leaves the funds on the connected account, so
+   * the transfer is reversed back to the platform before the wallet is
+   * refunded
+   */
+  async reversePayout(
+    withdrawal: Withdrawal,
+    reference: string,
+  ): Promise<PayoutReversalResult> {
+    try {
+      const transfers = await this.stripe.transfers.list({
+        transfer_group: reference,
+        limit: 1,
+      });
+      const transfer = transfers.data[0];
+      if (!transfer) {
+        // The transfer never happened, so the funds never left
+        return { success: true };
+      }
+
+      if (transfer.amount_reversed >= transfer.amount) {
+        return { success: true, reversal_id: transfer.reversals.data[0]?.id };
+      }
+
+      const reversal = await this.stripe.transfers.createReversal(
+        transfer.id,
+        {
+          amount: transfer.amount - transfer.amount_reversed,
+          metadata: this.buildMetadata(withdrawal, reference),
+        },
+        { idempotencyKey: `${reference}-reversal` },
+      );
+
+      return { success: true, reversal_id: reversal.id };
+    } catch (error) {
+      this.logger.error(
+        `Stripe transfer reversal for ${reference} failed: ${error.message}`,
+      );
+      return { success: false, error: error.message };
+    }
+  }
+
+  async processWebhook(
+    payload: any,
+    signature: string,
+  ): Promise<PayoutWebhookResult> {
+    try {
+      if (!this.stripeConnectWebhookSecret) {
+        throw new BadRequestException(
+          'Stripe Connect webhook secret not configured',
+        );
+      }
+
+      const event = this.stripe.webhooks.constructEvent(
+        payload,
+        signature,
+        this.stripeConnectWebhookSecret,
+      );
+
+      let status: 'pending' | 'completed' | 'failed';
+      switch (event.type) {
+        case 'payout.paid':
+          status = 'completed';
+          break;
+        case 'payout.failed':
+        case 'payout.canceled':
+          status = 'failed';
+          break;
+        default:
+          return {
+            success: false,
+            error: `Unhandled event type: ${event.type}`,
+          };
+      }
+
+      const payout = event.data.object as Stripe.Payout;
+
+      return {
+        success: true,
+        reference: payout.metadata?.payout_reference,
+        status,
+        transfer_id: payout.id,
+        failure_reason:
+          status === 'failed'
+            ? payout.failure_message || `Stripe ${event.type}`
+            : undefined,
+        gateway_response: event as any,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Stripe payout webhook processing failed: ${error.message}`,
+      );
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  private createConnectedPayout(
+    withdrawal: Withdrawal,
+    bank: Bank,
+    reference: string,
+  ): Promise<Stripe.Payout> {
+    return this.stripe.payouts.create(
+      {
+        amount: this.toMinorUnits(withdrawal),
+        currency: withdrawal.currency.toLowerCase(),
+        metadata: this.buildMetadata(withdrawal, reference),
+      },
+      {
+        stripeAccount: bank.stripe_connect_account_id,
+        idempotencyKey: `${reference}-payout`,
+      },
+    );
+  }
+
+  private toMinorUnits(withdrawal: Withdrawal): number {
+    return Math.round(withdrawal.net_amount * 100); // Convert to cents
+  }
+
+  private buildMetadata(
+    withdrawal: Withdrawal,
+    reference: string,
+  ): Record<string, string> {
+    return {
+      payout_reference: reference,
+      withdrawal_id: withdrawal.id,
+    };
+  }
+
+  private mapPayoutStatus(status: string): 'pending' | 'completed' | 'failed' {
+    switch (status) {
+      case 'paid':
+        return 'completed';
+      case 'failed':
+      case 'canceled':
+        return 'failed';
+      default:
+        return 'pending';
+    }
+  }
+
+  /**
+   * Stripe refused the request outright. Connection errors, 5xx and
+   * idempotency conflicts (409) leave the outcome open.
+   */
+  private isDefiniteRejection(error: any): boolean {
+    const statusCode = (error as Stripe.errors.StripeError)?.statusCode;
+    return (
+      typeof statusCode === 'number' &&
+      statusCode >= 400 &&
+      statusCode < 500 &&
+      statusCode !== 409
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { Injectable, Logger, BadRequestException, Inject } from '@nestjs/common';
 import { PaymentMethod, PaymentProvider, User } from 'src/entities';
 import { PaymentProviderInterface, PaymentInitiationResult, PaymentVerificationResult, PaymentWebhookResult, RefundResult } from '../interfaces/payment-provider.interface';
+import { GatewayTransaction, GatewayTransactionStatus, SettlementReportProviderInterface } from '../interfaces/settlement-report-provider.interface';
 import { SavedCard, PaymentGateway } from 'src/entities';
 import { Repository } from 'typeorm';
 import { getRepositoryToken } from '@nestjs/typeorm';
@@ -8,7 +9,8 @@ import { createHmac } from 'crypto';
 import { UserBindingContextSolution } from 'twilio/lib/rest/ipMessaging/v2/service/user/userBinding';
 
 @Injectable()
-export class PaystackPaymentService implements PaymentProviderInterface {
+export class PaystackPaymentService implements PaymentProviderInterface, SettlementReportProviderInterface {
+  readonly provider = PaymentProvider.PAYSTACK;
   private readonly logger = new Logger(PaystackPaymentService.name);
   private readonly paystackSecretKey: string;
   private readonly paystackPublicKey: string;
@@ -317,6 +319,49 @@ export class PaystackPaymentService implements PaymentProviderInterface {
     return [PaymentMethod.PAYSTACK];
   }
 
+  async listTransactions(from: Date, to: Date): Promise<GatewayTransaction[]> {
+    if (!this.paystackSecretKey) {
+      throw new BadRequestException('Paystack configuration missing');
+    }
+
+    const transactions: GatewayTransaction[] = [];
+    let page = 1;
+    let pageCount = 1;
+
+    do {
+      const params = new URLSearchParams({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        perPage: '100',
+        page: String(page),
+      });
+      const response = await this.makePaystackRequest('GET', `${this.paystackBaseUrl}/transaction?${params}`);
+
+      for (const transaction of response.data || []) {
+        const createdAt = new Date(transaction.created_at || transaction.createdAt);
+        // Paystack treats "to" as inclusive
+        if (createdAt >= to) {
+          continue;
+        }
+
+        transactions.push({
+          reference: transaction.reference,
+          gateway_transaction_id: String(transaction.id),
+          amount: transaction.amount / 100, // Convert from kobo
+          currency: transaction.currency,
+          status: this.mapTransactionStatus(transaction.status),
+          created_at: createdAt,
+        });
+      }
+
+      pageCount = response.meta?.pageCount || 1;
+      page++;
+    } while (page <= pageCount);
+
+    this.logger.log(`Fetched ${transactions.length} Paystack transactions between ${from.toISOString()} and ${to.toISOString()}`);
+    return transactions;
+  }
+
   async getBanks(): Promise<any> {
     try {
       this.logger.log('Fetching banks from Paystack');
@@ -374,6 +419,21 @@ export class PaystackPaymentService implements PaymentProviderInterface {
     return response;
   }
 
+  private mapTransactionStatus(status: string): GatewayTransactionStatus {
+    switch (status) {
+      case 'success':
+        return 'completed';
+      case 'reversed':
+        return 'refunded';
+      case 'failed':
+        return 'failed';
+      case 'abandoned':
+        return 'cancelled';
+      default:
+        return 'pending';
+    }
+  }
+
   private verifyWebhookSignature(payload: any, signature: string): boolean {
     try {
       const hash = createHmac('sha512', this.paystackSecretKey)
@@ -0,0 +1,887 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EntityManager, In, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import {
+  GroupOrder,
+  GroupOrderParticipant,
+  Order,
+  OrderItem,
+  OrderStatus,
+  Payment,
+  PaymentProvider,
+  PaymentStatus,
+  PaymentTransactionStatus,
+  Refund,
+  RefundInitiator,
+  RefundItem,
+  RefundStatus,
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+  Vendor,
+  Wallet,
+} from 'src/entities';
+import { VendorService } from '@/modules/vendor/services/vendor.service';
+import { LedgerService } from '@/modules/ledger/services/ledger.service';
+import {
+  WalletPaymentService,
+  WalletRefundShare,
+} from './wallet-payment.service';
+import { StripePaymentService } from './stripe-payment.service';
+import { PaystackPaymentService } from './paystack-payment.service';
+import { MercuryPaymentService } from './mercury-payment.service';
+import {
+  PaymentProviderInterface,
+  RefundResult,
+} from '../interfaces/payment-provider.interface';
+import { PAYMENT_EVENTS, RefundIssuedEvent } from '../events';
+import {
+  CreateItemRefundDto,
+  RefundLineDto,
+  RefundResponseDto,
+  RefundUnavailableItemsDto,
+} from '../dto/refund.dto';
+
+export interface RefundInitiatedBy {
+  type: RefundInitiator;
+  id?: string | null;
+}
+
+interface RefundContext {
+  order: Order;
+  payment: Payment;
+  orderItems: OrderItem[];
+  previousRefunds: Refund[];
+  refundableAmount: number;
+  vendorClawbackRemaining: number;
+}
+
+interface RefundPlan {
+  lines: {
+    item: OrderItem;
+    quantity: number;
+    amount: number;
+    clawback: number;
+  }[];
+  amount: number;
+  itemsAmount: number;
+  discountAmount: number;
+  deliveryFeeAmount: number;
+  serviceFeeAmount: number;
+  vendorClawbackAmount: number;
+}
+
+// Part of a split group order refund that goes back to a participant
+interface GroupRefundShare extends WalletRefundShare {
+  participant_id: string;
+}
+
+// Vendors can only refund lines they have not finished preparing
+const VENDOR_REFUNDABLE_STATUSES = [
+  OrderStatus.NEW,
+  OrderStatus.CONFIRMED,
+  OrderStatus.PREPARING,
+];
+
+const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+const sumOf = <T>(rows: T[], pick: (row: T) => number): number =>
+  roundMoney(rows.reduce((total, row) => total + (Number(pick(row)) || 0), 0));
+
+/**
+ * Issues refunds against order payments and keeps the refund ledger.
+ *
+ * Every refund is recorded as a Refund row before any money moves, with the
+ * refunded lines, delivery fee and service fee broken out. The money goes
+ * back through whichever provider took the payment, and the vendor's net
+ * share of the refunded lines is taken back out of their vendor_balance.
+ * Wallet refunds on SPLIT group orders go straight back to the participants
+ * who paid into them.
+ */
+@Injectable()
+export class RefundService {
+  private readonly logger = new Logger(RefundService.name);
+  private readonly gatewayProviders: Map<
+    PaymentProvider,
+    PaymentProviderInterface
+  >;
+
+  constructor(
+    @InjectRepository(Refund)
+    private readonly refundRepository: Repository<Refund>,
+    @InjectRepository(Payment)
+    private readonly paymentRepository: Repository<Payment>,
+    private readonly walletPaymentService: WalletPaymentService,
+    private readonly stripePaymentService: StripePaymentService,
+    private readonly paystackPaymentService: PaystackPaymentService,
+    private readonly mercuryPaymentService: MercuryPaymentService,
+    private readonly vendorService: VendorService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly ledgerService: LedgerService,
+  ) {
+    // Wallet refunds are credited directly and do not go through this map
+    this.gatewayProviders = new Map();
+    this.gatewayProviders.set(
+      PaymentProvider.STRIPE,
+      this.stripePaymentService,
+    );
+    this.gatewayProviders.set(
+      PaymentProvider.PAYSTACK,
+      this.paystackPaymentService,
+    );
+    this.gatewayProviders.set(
+      PaymentProvider.MERCURY,
+      this.mercuryPaymentService,
+    );
+  }
+
+  /**
+   * Refund specific order lines (admin). Fees follow the lines: the service
+   * fee and discount are refunded pro rata, and once every line has been
+   * refunded whatever is left of the fees goes back too.
+   */
+  async refundOrderItems(
+    orderId: string,
+    dto: CreateItemRefundDto,
+    initiatedBy: RefundInitiatedBy,
+  ): Promise<RefundResponseDto> {
+    const refund = await this.issueRefund(
+      orderId,
+      dto.reason,
+      initiatedBy,
+      context =>
+        this.planItemRefund(context, dto.items, !!dto.include_delivery_fee),
+    );
+    return this.mapToRefundResponse(refund);
+  }
+
+  /**
+   * "Item unavailable, refund this line" flow for the vendor that owns the
+   * order. Only allowed before the order is ready.
+   */
+  async refundUnavailableItems(
+    orderId: string,
+    vendorUserId: string,
+    dto: RefundUnavailableItemsDto,
+  ): Promise<RefundResponseDto> {
+    const vendor = await this.vendorService.getVendorByUserId(vendorUserId);
+    if (!vendor) {
+      throw new NotFoundException('Vendor not found');
+    }
+
+    const refund = await this.issueRefund(
+      orderId,
+      dto.reason || 'Item unavailable',
+      { type: RefundInitiator.VENDOR, id: vendorUserId },
+      context => {
+        if (context.order.vendor_id !== vendor.id) {
+          throw new ForbiddenException(
+            'You can only refund items on your own orders',
+          );
+        }
+        if (!VENDOR_REFUNDABLE_STATUSES.includes(context.order.order_status)) {
+          throw new BadRequestException(
+            `Items cannot be refunded once an order is ${context.order.order_status}`,
+          );
+        }
+        return this.planItemRefund(context, dto.items, false);
+      },
+    );
+    return this.mapToRefundResponse(refund);
+  }
+
+  /**
+   * Refund an amount that is not tied to particular lines. The vendor's
+   * share is clawed back in proportion to the part of the payment refunded.
+   * @param amount Amount to refund (optional, defaults to everything left)
+   */
+  async refundPaymentAmount(
+    paymentId: string,
+    amount: number | undefined,
+    reason: string | undefined,
+    initiatedBy: RefundInitiatedBy,
+  ): Promise<RefundResponseDto> {
+    const payment = await this.paymentRepository.findOne({
+      where: { id: paymentId },
+    });
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+    if (!payment.order_id) {
+      throw new BadRequestException('Payment is not linked to an order');
+    }
+
+    const refund = await this.issueRefund(
+      payment.order_id,
+      reason || 'Refund processed',
+      initiatedBy,
+      context => this.planAmountRefund(context, amount),
+    );
+    return this.mapToRefundResponse(refund);
+  }
+
+  async getOrderRefunds(orderId: string): Promise<RefundResponseDto[]> {
+    const refunds = await this.refundRepository.find({
+      where: { order_id: orderId },
+      relations: ['items'],
+      order: { created_at: 'DESC' },
+    });
+    return refunds.map(refund => this.mapToRefundResponse(refund));
+  }
+
+  /**
+   * Records the refund and reserves the refunded quantities under a lock on
+   * the order, sends the money back through the payment's provider, then
+   * settles the payment, order and vendor balance. A gateway failure marks
+   * the refund FAILED and releases the quantities again.
+   */
+  private async issueRefund(
+    orderId: string,
+    reason: string,
+    initiatedBy: RefundInitiatedBy,
+    plan: (context: RefundContext) => RefundPlan,
+  ): Promise<Refund> {
+    const { refund, payment, shares } =
+      await this.refundRepository.manager.transaction(async manager => {
+        const order = await manager.findOne(Order, {
+          where: { id: orderId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!order) {
+          throw new NotFoundException('Order not found');
+        }
+
+        if (
+          order.payment_status !== PaymentStatus.PAID &&
+          order.payment_status !== PaymentStatus.PARTIALLY_REFUNDED
+        ) {
+          throw new BadRequestException(
+            `Order payment is ${order.payment_status}; there is nothing to refund`,
+          );
+        }
+
+        const payment = await manager.findOne(Payment, {
+          where: { order_id: orderId },
+        });
+        if (!payment) {
+          throw new NotFoundException('Payment not found');
+        }
+
+        const orderItems = await manager.find(OrderItem, {
+          where: { order_id: orderId },
+        });
+        const previousRefunds = await manager.find(Refund, {
+          where: {
+            order_id: orderId,
+            status: In([RefundStatus.PENDING, RefundStatus.COMPLETED]),
+          },
+        });
+
+        const plannedRefund = plan({
+          order,
+          payment,
+          orderItems,
+          previousRefunds,
+          refundableAmount: this.getRefundableAmount(payment, previousRefunds),
+          vendorClawbackRemaining: roundMoney(
+            Number(order.subtotal) * this.getVendorShare(order) -
+              sumOf(previousRefunds, r => r.vendor_clawback_amount),
+          ),
+        });
+
+        if (plannedRefund.amount <= 0) {
+          throw new BadRequestException('Nothing left to refund on this order');
+        }
+
+        for (const line of plannedRefund.lines) {
+          await manager.update(OrderItem, line.item.id, {
+            refunded_quantity:
+              (line.item.refunded_quantity || 0) + line.quantity,
+          });
+        }
+
+        const refundReference = this.generateRefundReference();
+        const shares = await this.planGroupShares(
+          manager,
+          order,
+          payment,
+          plannedRefund,
+          refundReference,
+        );
+        for (const share of shares) {
+          await manager.increment(
+            GroupOrderParticipant,
+            { id: share.participant_id },
+            'refunded_amount',
+            share.amount,
+          );
+        }
+
+        const refund = await manager.save(
+          manager.create(Refund, {
+            refund_reference: refundReference,
+            order_id: order.id,
+            payment_id: payment.id,
+            vendor_id: order.vendor_id,
+            customer_id: order.customer_id,
+            provider: payment.provider,
+            status: RefundStatus.PENDING,
+            currency: order.currency,
+            amount: plannedRefund.amount,
+            items_amount: plannedRefund.itemsAmount,
+            discount_amount: plannedRefund.discountAmount,
+            delivery_fee_amount: plannedRefund.deliveryFeeAmount,
+            service_fee_amount: plannedRefund.serviceFeeAmount,
+            vendor_clawback_amount: plannedRefund.vendorClawbackAmount,
+            reason,
+            initiated_by_type: initiatedBy.type,
+            initiated_by_id: initiatedBy.id ?? null,
+            items: plannedRefund.lines.map(line =>
+              manager.create(RefundItem, {
+                order_item_id: line.item.id,
+                quantity: line.quantity,
+                unit_price: Number(line.item.unit_price),
+                amount: line.amount,
+                vendor_clawback_amount: line.clawback,
+              }),
+            ),
+          }),
+        );
+
+        return { refund, payment, shares };
+      });
+
+    this.logger.log(
+      `Refund ${refund.refund_reference} recorded for order ${orderId}: ${refund.amount} via ${refund.provider}`,
+    );
+
+    const result = await this.sendToProvider(refund, payment, shares);
+
+    if (!result.success) {
+      await this.failRefund(refund, result, shares);
+      throw new BadRequestException(
+        `Refund failed: ${result.error || 'provider declined the refund'}`,
+      );
+    }
+
+    let order: Order;
+    try {
+      order = await this.settleRefund(refund, result);
+    } catch (error) {
+      // The money has already left; keep the refund PENDING so it shows up
+      // for reconciliation instead of being retried
+      this.logger.error(
+        `Refund ${refund.refund_reference} was sent but could not be settled: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+
+    this.eventEmitter.emit(
+      PAYMENT_EVENTS.REFUND_ISSUED,
+      new RefundIssuedEvent(order, {
+        amount: Number(refund.amount),
+        vendor_debit_amount: Number(refund.vendor_clawback_amount),
+        reason: refund.reason,
+        issued_by: refund.initiated_by_id,
+        refund_id: refund.id,
+        provider: refund.provider,
+      }),
+    );
+
+    return refund;
+  }
+
+  private planItemRefund(
+    context: RefundContext,
+    lines: RefundLineDto[],
+    includeDeliveryFee: boolean,
+  ): RefundPlan {
+    const { order, orderItems, previousRefunds } = context;
+    const itemsById = new Map(orderItems.map(item => [item.id, item]));
+
+    const requested = new Map<string, number>();
+    for (const line of lines) {
+      requested.set(
+        line.order_item_id,
+        (requested.get(line.order_item_id) || 0) + Number(line.quantity),
+      );
+    }
+
+    const vendorShare = this.getVendorShare(order);
+    const plannedLines: RefundPlan['lines'] = [];
+    for (const [orderItemId, quantity] of requested) {
+      const item = itemsById.get(orderItemId);
+      if (!item) {
+        throw new BadRequestException(
+          `Order item ${orderItemId} does not belong to this order`,
+        );
+      }
+      if (quantity > item.refundable_quantity) {
+        throw new BadRequestException(
+          `Only ${item.refundable_quantity} portion(s) of order item ${orderItemId} can still be refunded`,
+        );
+      }
+
+      const amount = roundMoney(Number(item.unit_price) * quantity);
+      plannedLines.push({
+        item,
+        quantity,
+        amount,
+        clawback: roundMoney(amount * vendorShare),
+      });
+    }
+
+    const subtotal = Number(order.subtotal) || 0;
+    const discount = Number(order.discount_amount) || 0;
+    const deliveryFee = Number(order.delivery_fee) || 0;
+    // The service fee is not stored on the order; it is what is left of the
+    // total once everything else is accounted for
+    const serviceFee = Math.max(
+      roundMoney(
+        Number(order.total_amount) - subtotal + discount - deliveryFee,
+      ),
+      0,
+    );
+
+    const itemsAmount = sumOf(plannedLines, line => line.amount);
+    const allLinesRefunded = orderItems.every(
+      item => (requested.get(item.id) || 0) >= item.refundable_quantity,
+    );
+
+    const remaining = (total: number, pick: (refund: Refund) => number) =>
+      Math.max(roundMoney(total - sumOf(previousRefunds, pick)), 0);
+
+    let discountAmount: number;
+    let serviceFeeAmount: number;
+    if (allLinesRefunded) {
+      discountAmount = remaining(discount, r => r.discount_amount);
+      serviceFeeAmount = remaining(serviceFee, r => r.service_fee_amount);
+    } else {
+      const ratio = subtotal > 0 ? itemsAmount / subtotal : 0;
+      discountAmount = roundMoney(discount * ratio);
+      serviceFeeAmount = roundMoney(serviceFee * ratio);
+    }
+
+    const deliveryFeeAmount =
+      includeDeliveryFee || allLinesRefunded
+        ? remaining(deliveryFee, r => r.delivery_fee_amount)
+        : 0;
+
+    const amount = Math.min(
+      roundMoney(
+        itemsAmount - discountAmount + serviceFeeAmount + deliveryFeeAmount,
+      ),
+      context.refundableAmount,
+    );
+
+    const lineClawback = sumOf(plannedLines, line => line.clawback);
+    return {
+      lines: plannedLines,
+      amount,
+      itemsAmount,
+      discountAmount,
+      deliveryFeeAmount,
+      serviceFeeAmount,
+      vendorClawbackAmount: Math.max(
+        Math.min(lineClawback, context.vendorClawbackRemaining),
+        0,
+      ),
+    };
+  }
+
+  private planAmountRefund(
+    context: RefundContext,
+    requestedAmount?: number,
+  ): RefundPlan {
+    const { order, payment, refundableAmount } = context;
+    const amount = roundMoney(requestedAmount ?? refundableAmount);
+
+    if (amount <= 0) {
+      throw new BadRequestException('Refund amount must be greater than 0');
+    }
+    if (amount > refundableAmount) {
+      throw new BadRequestException(
+        `Refund amount cannot exceed the remaining refundable amount (${refundableAmount})`,
+      );
+    }
+
+    const paymentAmount = Number(payment.amount) || 0;
+    const share = paymentAmount > 0 ? amount / paymentAmount : 0;
+    const clawback = roundMoney(
+      Number(order.subtotal) * this.getVendorShare(order) * share,
+    );
+
+    return {
+      lines: [],
+      amount,
+      itemsAmount: 0,
+      discountAmount: 0,
+      deliveryFeeAmount: 0,
+      serviceFeeAmount: 0,
+      vendorClawbackAmount: Math.max(
+        Math.min(clawback, context.vendorClawbackRemaining),
+        0,
+      ),
+    };
+  }
+
+  /**
+   * Split a wallet refund on a SPLIT group order between the participants
+   * who paid into it; the host, who placed the order, keeps the rest. Each
+   * participant gets the part for their own lines and their share of any
+   * delivery fee or amount refund, up to what they paid and have not had
+   * back.
+   */
+  private async planGroupShares(
+    manager: EntityManager,
+    order: Order,
+    payment: Payment,
+    plan: RefundPlan,
+    refundReference: string,
+  ): Promise<GroupRefundShare[]> {
+    if (!order.group_order_id || payment.provider !== PaymentProvider.WALLET) {
+      return [];
+    }
+    const group = await manager.findOne(GroupOrder, {
+      where: { id: order.group_order_id },
+    });
+    if (!group?.is_split) {
+      return [];
+    }
+
+    const participants = await manager.find(GroupOrderParticipant, {
+      where: { group_order_id: group.id, is_host: false },
+    });
+    // Lines carry the items, discount and service fee; the delivery fee and
+    // amount refunds are shared out like the order was
+    const linesPart =
+      plan.itemsAmount > 0
+        ? roundMoney(plan.amount - plan.deliveryFeeAmount)
+        : 0;
+    const sharedPart = roundMoney(plan.amount - linesPart);
+    const orderTotal = Number(order.total_amount) || 0;
+
+    const shares: GroupRefundShare[] = [];
+    for (const participant of participants) {
+      const ownLines = sumOf(
+        plan.lines.filter(
+          line => line.item.group_participant_id === participant.id,
+        ),
+        line => line.amount,
+      );
+      const amount = roundMoney(
+        (plan.itemsAmount > 0 ? (linesPart * ownLines) / plan.itemsAmount : 0) +
+          (orderTotal > 0
+            ? (sharedPart * Number(participant.share_amount)) / orderTotal
+            : 0),
+      );
+      const owed = roundMoney(
+        Number(participant.paid_amount) - Number(participant.refunded_amount),
+      );
+      if (Math.min(amount, owed) > 0) {
+        shares.push({
+          participant_id: participant.id,
+          user_id: participant.user_id,
+          amount: Math.min(amount, owed),
+          reference: `${refundReference}:${participant.id}`,
+        });
+      }
+    }
+    return shares;
+  }
+
+  private async sendToProvider(
+    refund: Refund,
+    payment: Payment,
+    shares: GroupRefundShare[],
+  ): Promise<RefundResult> {
+    const amount = Number(refund.amount);
+
+    try {
+      if (payment.provider === PaymentProvider.WALLET) {
+        return await this.walletPaymentService.refundWalletPayment(
+          payment,
+          refund.customer_id,
+          amount,
+          refund.refund_reference,
+          refund.reason,
+          refund.currency,
+          shares,
+        );
+      }
+
+      const provider = this.gatewayProviders.get(payment.provider);
+      if (!provider) {
+        return {
+          success: false,
+          error: `Refunds are not supported for ${payment.provider} payments`,
+        };
+      }
+      if (!payment.external_reference) {
+        return {
+          success: false,
+          error: 'Payment has no gateway reference to refund against',
+        };
+      }
+
+      return await provider.refundPayment(
+        payment.external_reference,
+        amount,
+        refund.reason,
+      );
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  private async failRefund(
+    refund: Refund,
+    result: RefundResult,
+    shares: GroupRefundShare[],
+  ): Promise<void> {
+    this.logger.warn(
+      `Refund ${refund.refund_reference} failed at ${refund.provider}: ${result.error}`,
+    );
+
+    await this.refundRepository.manager.transaction(async manager => {
+      for (const line of refund.items || []) {
+        await manager.decrement(
+          OrderItem,
+          { id: line.order_item_id },
+          'refunded_quantity',
+          line.quantity,
+        );
+      }
+      for (const share of shares) {
+        await manager.decrement(
+          GroupOrderParticipant,
+          { id: share.participant_id },
+          'refunded_amount',
+          share.amount,
+        );
+      }
+
+      refund.markAsFailed(
+        result.error || 'Provider declined the refund',
+        result.gateway_response,
+      );
+      await manager.update(Refund, refund.id, {
+        status: refund.status,
+        failure_reason: refund.failure_reason,
+        gateway_response: refund.gateway_response,
+      });
+    });
+  }
+
+  /**
+   * Marks the payment and order (partially) refunded, claws the vendor's
+   * share back out of vendor_balance and completes the refund record
+   */
+  private async settleRefund(
+    refund: Refund,
+    result: RefundResult,
+  ): Promise<Order> {
+    return this.refundRepository.manager.transaction(async manager => {
+      const order = await manager.findOne(Order, {
+        where: { id: refund.order_id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const payment = await manager.findOne(Payment, {
+        where: { id: refund.payment_id },
+      });
+
+      payment.processRefund(Number(refund.amount), refund.reason);
+      await manager.save(payment);
+
+      order.payment_status =
+        payment.status === PaymentTransactionStatus.REFUNDED
+          ? PaymentStatus.REFUNDED
+          : PaymentStatus.PARTIALLY_REFUNDED;
+      await manager.update(Order, order.id, {
+        payment_status: order.payment_status,
+      });
+
+      const clawback = Number(refund.vendor_clawback_amount);
+      const vendorUserId =
+        clawback > 0
+          ? await this.debitVendorBalance(manager, order, refund, clawback)
+          : undefined;
+
+      await this.ledgerService.recordRefund(
+        {
+          reference: refund.refund_reference,
+          order_id: order.id,
+          currency: refund.currency,
+          amount: Number(refund.amount),
+          vendor_clawback: clawback,
+          vendor_user_id: vendorUserId,
+          customer_id: refund.customer_id,
+          provider: refund.provider,
+          description: `Refund for order ${order.order_number}: ${refund.reason}`,
+        },
+        manager,
+      );
+
+      refund.markAsCompleted(result.refund_reference, result.gateway_response);
+      await manager.update(Refund, refund.id, {
+        status: refund.status,
+        processed_at: refund.processed_at,
+        provider_reference: refund.provider_reference,
+        gateway_response: refund.gateway_response,
+      });
+
+      this.logger.log(
+        `Refund ${refund.refund_reference} completed: customer ${refund.amount}, vendor clawback ${clawback}`,
+      );
+
+      return order;
+    });
+  }
+
+  private async debitVendorBalance(
+    manager: EntityManager,
+    order: Order,
+    refund: Refund,
+    amount: number,
+  ): Promise<string> {
+    const vendor = await manager.findOne(Vendor, {
+      where: { id: order.vendor_id },
+    });
+    if (!vendor) {
+      throw new NotFoundException('Vendor not found');
+    }
+
+    let vendorWallet = await manager.findOne(Wallet, {
+      where: { user_id: vendor.user_id },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!vendorWallet) {
+      vendorWallet = manager.create(Wallet, {
+        user_id: vendor.user_id,
+        balance: 0,
+        vendor_balance: 0,
+        is_active: true,
+      });
+    }
+
+    const balanceBefore = Number(vendorWallet.vendor_balance) || 0;
+    if (balanceBefore < amount) {
+      // Same as admin cancellations: the refund still goes ahead and the
+      // vendor's balance goes negative until future earnings cover it
+      this.logger.warn(
+        `Vendor ${vendor.id} has insufficient vendor_balance (${balanceBefore}) for refund clawback ${amount}`,
+      );
+    }
+
+    vendorWallet.vendor_balance = roundMoney(balanceBefore - amount);
+    vendorWallet.last_transaction_at = new Date();
+    vendorWallet = await manager.save(vendorWallet);
+
+    await manager.save(
+      manager.create(Transaction, {
+        wallet_id: vendorWallet.id,
+        transaction_type: TransactionType.DEBIT,
+        amount,
+        balance_before: balanceBefore,
+        balance_after: Number(vendorWallet.vendor_balance),
+        description: `Refund clawback for order ${order.order_number}: ${refund.reason}`,
+        reference_id: refund.refund_reference,
+        status: TransactionStatus.COMPLETED,
+        processed_at: new Date(),
+        metadata: {
+          order_id: order.id,
+          refund_id: refund.id,
+          balance: 'vendor_balance',
+        },
+      }),
+    );
+
+    return vendor.user_id;
+  }
+
+  /**
+   * What is left of the payment, counting refunds still in flight. Older
+   * refunds that predate the ledger only show up in payment.refunded_amount.
+   */
+  private getRefundableAmount(
+    payment: Payment,
+    previousRefunds: Refund[],
+  ): number {
+    const completed = sumOf(
+      previousRefunds.filter(r => r.status === RefundStatus.COMPLETED),
+      r => r.amount,
+    );
+    const pending = sumOf(
+      previousRefunds.filter(r => r.status === RefundStatus.PENDING),
+      r => r.amount,
+    );
+    const refunded = Math.max(Number(payment.refunded_amount) || 0, completed);
+
+    return Math.max(roundMoney(Number(payment.amount) - refunded - pending), 0);
+  }
+
+  /**
+   * Fraction of the subtotal the vendor was credited, matching
+   * WalletPaymentService.creditVendorWallet
+   */
+  private getVendorShare(order: Order): number {
+    const subtotal = Number(order.subtotal);
+    if (order.fee_breakdown && subtotal > 0) {
+      return 1 - Number(order.fee_breakdown.commission.amount) / subtotal;
+    }
+
+    const commissionPercentage = this.configService.get<number>(
+      'fees.commissionPercentage',
+      20,
+    );
+    return 1 - commissionPercentage / 100;
+  }
+
+  private generateRefundReference(): string {
+    return `refund_${Date.now()}_${randomBytes(6).toString('hex')}`;
+  }
+
+  private mapToRefundResponse(refund: Refund): RefundResponseDto {
+    return {
+      id: refund.id,
+      refund_reference: refund.refund_reference,
+      order_id: refund.order_id,
+      payment_id: refund.payment_id,
+      provider: refund.provider,
+      status: refund.status,
+      currency: refund.currency,
+      amount: Number(refund.amount),
+      items_amount: Number(refund.items_amount),
+      discount_amount: Number(refund.discount_amount),
+      delivery_fee_amount: Number(refund.delivery_fee_amount),
+      service_fee_amount: Number(refund.service_fee_amount),
+      vendor_clawback_amount: Number(refund.vendor_clawback_amount),
+      reason: refund.reason,
+      initiated_by_type: refund.initiated_by_type,
+      initiated_by_id: refund.initiated_by_id,
+      provider_reference: refund.provider_reference,
+      failure_reason: refund.failure_reason,
+      processed_at: refund.processed_at,
+      items: (refund.items || []).map(item => ({
+        order_item_id: item.order_item_id,
+        quantity: item.quantity,
+        unit_price: Number(item.unit_price),
+        amount: Number(item.amount),
+        vendor_clawback_amount: Number(item.vendor_clawback_amount),
+      })),
+      created_at: refund.created_at,
+    };
+  }
+}
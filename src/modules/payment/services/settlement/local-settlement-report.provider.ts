@@ -0,0 +1,64 @@
+import { Logger } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { PaymentProvider } from 'src/entities';
+import {
+  GatewayTransaction,
+  SettlementReportProviderInterface,
+} from '../../interfaces/settlement-report-provider.interface';
+
+/**
+ * Stand-in for a gateway's transaction list, used when
+ * SETTLEMENT_REPORT_MODE=local so reconciliation can run without Stripe or
+ * Paystack credentials.
+ *
+ * Transactions come from the JSON file at SETTLEMENT_REPORT_FIXTURE_PATH
+ * (an array of GatewayTransaction objects, each with a `provider`), re-read
+ * on every call, plus anything registered through add().
+ */
+export class LocalSettlementReportProvider
+  implements SettlementReportProviderInterface
+{
+  private readonly logger: Logger;
+  private readonly transactions: GatewayTransaction[] = [];
+
+  constructor(readonly provider: PaymentProvider) {
+    this.logger = new Logger(`LocalSettlementReportProvider:${provider}`);
+  }
+
+  add(transaction: GatewayTransaction): void {
+    this.transactions.push(transaction);
+  }
+
+  async listTransactions(from: Date, to: Date): Promise<GatewayTransaction[]> {
+    return [...this.loadFixture(), ...this.transactions].filter(
+      transaction =>
+        transaction.created_at >= from && transaction.created_at < to,
+    );
+  }
+
+  private loadFixture(): GatewayTransaction[] {
+    const path = process.env.SETTLEMENT_REPORT_FIXTURE_PATH;
+    if (!path) {
+      return [];
+    }
+
+    try {
+      const rows = JSON.parse(readFileSync(path, 'utf8'));
+      return rows
+        .filter(row => row.provider === this.provider)
+        .map(row => ({
+          reference: row.reference,
+          gateway_transaction_id: row.gateway_transaction_id,
+          amount: Number(row.amount),
+          currency: row.currency,
+          status: row.status,
+          created_at: new Date(row.created_at),
+        }));
+    } catch (error) {
+      this.logger.error(
+        `Failed to read settlement fixture ${path}: ${error.message}`,
+      );
+      return [];
+    }
+  }
+}
@@ -0,0 +1,677 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Between, In, Not, Repository } from 'typeorm';
+import {
+  Payment,
+  PaymentProvider,
+  PaymentTransactionStatus,
+  SettlementMismatch,
+  SettlementMismatchStatus,
+  SettlementMismatchType,
+  SettlementRun,
+  SettlementRunStatus,
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+} from 'src/entities';
+import {
+  GatewayTransaction,
+  PAYSTACK_SETTLEMENT_REPORT,
+  STRIPE_SETTLEMENT_REPORT,
+  SettlementReportProviderInterface,
+} from '../../interfaces/settlement-report-provider.interface';
+import {
+  ResolveSettlementMismatchDto,
+  RunSettlementDto,
+  SettlementMismatchListResponseDto,
+  SettlementMismatchQueryDto,
+  SettlementMismatchResponseDto,
+  SettlementRunListResponseDto,
+  SettlementRunQueryDto,
+  SettlementRunResponseDto,
+} from '../../dto/settlement.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Charges near midnight can land on either side of the day boundary at the
+// gateway, so both sides are fetched with this much slack for matching
+const MATCH_SLACK_MS = 2 * 60 * 60 * 1000;
+
+// A run still RUNNING after this long is assumed to have died
+const STALE_RUN_MS = 60 * 60 * 1000;
+
+// Local statuses that mean the customer's money was taken
+const PAID_PAYMENT_STATUSES = [
+  PaymentTransactionStatus.COMPLETED,
+  PaymentTransactionStatus.REFUNDED,
+  PaymentTransactionStatus.PARTIALLY_REFUNDED,
+];
+
+const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+interface DetectedMismatch {
+  mismatch_type: SettlementMismatchType;
+  reference: string;
+  payment?: Payment;
+  transaction?: Transaction;
+  gateway?: GatewayTransaction;
+  gateway_amount?: number;
+}
+
+interface MatchResult {
+  gateway_count: number;
+  local_count: number;
+  matched_count: number;
+  mismatches: DetectedMismatch[];
+}
+
+/**
+ * Matches each gateway's list of charges for a day against our Payment and
+ * Transaction rows. Mismatches are kept until an admin resolves them or a
+ * later run of the same day no longer finds them.
+ */
+@Injectable()
+export class SettlementReconciliationService {
+  private readonly logger = new Logger(SettlementReconciliationService.name);
+  private readonly reportProviders: Map<
+    PaymentProvider,
+    SettlementReportProviderInterface
+  >;
+
+  constructor(
+    @InjectRepository(SettlementRun)
+    private readonly settlementRunRepository: Repository<SettlementRun>,
+    @InjectRepository(SettlementMismatch)
+    private readonly settlementMismatchRepository: Repository<SettlementMismatch>,
+    @InjectRepository(Payment)
+    private readonly paymentRepository: Repository<Payment>,
+    @InjectRepository(Transaction)
+    private readonly transactionRepository: Repository<Transaction>,
+    @Inject(STRIPE_SETTLEMENT_REPORT)
+    stripeReport: SettlementReportProviderInterface,
+    @Inject(PAYSTACK_SETTLEMENT_REPORT)
+    paystackReport: SettlementReportProviderInterface,
+  ) {
+    this.reportProviders = new Map(
+      [stripeReport, paystackReport].map(report => [report.provider, report]),
+    );
+  }
+
+  /**
+   * Reconcile the previous UTC day for every gateway
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async reconcileYesterday(): Promise<void> {
+    const date = this.previousDay();
+
+    for (const provider of this.reportProviders.keys()) {
+      try {
+        await this.reconcileDay(provider, date);
+      } catch (error) {
+        this.logger.error(
+          `Nightly settlement run for ${provider} on ${date} failed: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  async runSettlement(
+    dto: RunSettlementDto,
+    adminId: string,
+  ): Promise<SettlementRunResponseDto[]> {
+    const date = dto.date ? dto.date.slice(0, 10) : this.previousDay();
+    if (new Date(`${date}T00:00:00.000Z`).getTime() > Date.now()) {
+      throw new BadRequestException('Cannot reconcile a day in the future');
+    }
+
+    const providers = dto.provider
+      ? [dto.provider]
+      : [...this.reportProviders.keys()];
+
+    const runs: SettlementRunResponseDto[] = [];
+    for (const provider of providers) {
+      const run = await this.reconcileDay(provider, date, adminId);
+      runs.push(this.mapRunToResponse(run));
+    }
+    return runs;
+  }
+
+  /**
+   * Fetch the gateway's charges for one day, compare them with ours and
+   * record what does not line up. The run is stored as FAILED, not thrown,
+   * when the gateway cannot be reached.
+   */
+  async reconcileDay(
+    provider: PaymentProvider,
+    date: string,
+    triggeredBy?: string,
+  ): Promise<SettlementRun> {
+    const reportProvider = this.reportProviders.get(provider);
+    if (!reportProvider) {
+      throw new BadRequestException(
+        `Settlement reports are not available for ${provider}`,
+      );
+    }
+
+    const running = await this.settlementRunRepository.findOne({
+      where: {
+        provider,
+        settlement_date: date,
+        status: SettlementRunStatus.RUNNING,
+      },
+    });
+    if (running && Date.now() - running.created_at.getTime() < STALE_RUN_MS) {
+      throw new BadRequestException(
+        `A ${provider} settlement run for ${date} is already in progress`,
+      );
+    }
+
+    const run = await this.settlementRunRepository.save(
+      this.settlementRunRepository.create({
+        provider,
+        settlement_date: date,
+        status: SettlementRunStatus.RUNNING,
+        triggered_by: triggeredBy || null,
+      }),
+    );
+
+    try {
+      const result = await this.matchDay(reportProvider, date);
+
+      for (const mismatch of result.mismatches) {
+        await this.recordMismatch(run, mismatch);
+      }
+      await this.clearUnreportedMismatches(run);
+
+      run.gateway_count = result.gateway_count;
+      run.local_count = result.local_count;
+      run.matched_count = result.matched_count;
+      run.mismatch_count = result.mismatches.length;
+      run.status = SettlementRunStatus.COMPLETED;
+      run.completed_at = new Date();
+      await this.settlementRunRepository.save(run);
+
+      this.logger.log(
+        `Settlement run ${run.id} for ${provider} on ${date}: ${run.matched_count} matched, ${run.mismatch_count} mismatches`,
+      );
+    } catch (error) {
+      run.status = SettlementRunStatus.FAILED;
+      run.error = error.message;
+      run.completed_at = new Date();
+      await this.settlementRunRepository.save(run);
+
+      this.logger.error(
+        `Settlement run ${run.id} for ${provider} on ${date} failed: ${error.message}`,
+        error.stack,
+      );
+    }
+
+    return run;
+  }
+
+  async listRuns(
+    query: SettlementRunQueryDto,
+  ): Promise<SettlementRunListResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const where: Record<string, any> = {};
+    if (query.provider) where.provider = query.provider;
+    if (query.status) where.status = query.status;
+
+    const [runs, total] = await this.settlementRunRepository.findAndCount({
+      where,
+      order: { created_at: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      runs: runs.map(run => this.mapRunToResponse(run)),
+      total,
+      page,
+      limit,
+      total_pages: Math.ceil(total / limit),
+    };
+  }
+
+  async listMismatches(
+    query: SettlementMismatchQueryDto,
+  ): Promise<SettlementMismatchListResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const where: Record<string, any> = {
+      status: query.status || SettlementMismatchStatus.OPEN,
+    };
+    if (query.provider) where.provider = query.provider;
+    if (query.mismatch_type) where.mismatch_type = query.mismatch_type;
+    if (query.settlement_date) {
+      where.settlement_date = query.settlement_date.slice(0, 10);
+    }
+    if (query.run_id) where.run_id = query.run_id;
+    if (query.reference) where.reference = query.reference;
+
+    const [mismatches, total] =
+      await this.settlementMismatchRepository.findAndCount({
+        where,
+        order: { settlement_date: 'DESC', created_at: 'DESC' },
+        skip: (page - 1) * limit,
+        take: limit,
+      });
+
+    return {
+      mismatches: mismatches.map(mismatch =>
+        this.mapMismatchToResponse(mismatch),
+      ),
+      total,
+      page,
+      limit,
+      total_pages: Math.ceil(total / limit),
+    };
+  }
+
+  async resolveMismatch(
+    id: string,
+    dto: ResolveSettlementMismatchDto,
+    adminId: string,
+  ): Promise<SettlementMismatchResponseDto> {
+    const mismatch = await this.settlementMismatchRepository.findOne({
+      where: { id },
+    });
+    if (!mismatch) {
+      throw new NotFoundException('Settlement mismatch not found');
+    }
+
+    if (mismatch.status === SettlementMismatchStatus.RESOLVED) {
+      throw new BadRequestException('Settlement mismatch is already resolved');
+    }
+
+    mismatch.status = SettlementMismatchStatus.RESOLVED;
+    mismatch.resolution_note = dto.note;
+    mismatch.resolved_by = adminId;
+    mismatch.resolved_at = new Date();
+    await this.settlementMismatchRepository.save(mismatch);
+
+    this.logger.log(
+      `Settlement mismatch ${mismatch.id} (${mismatch.mismatch_type} ${mismatch.reference}) resolved by ${adminId}`,
+    );
+
+    return this.mapMismatchToResponse(mismatch);
+  }
+
+  /**
+   * Gateway charges are grouped by our reference, since a checkout can be
+   * retried under the same reference. Only charges created on the day are
+   * reported; the slack either side is used to match payments near midnight.
+   */
+  private async matchDay(
+    reportProvider: SettlementReportProviderInterface,
+    date: string,
+  ): Promise<MatchResult> {
+    const dayStart = new Date(`${date}T00:00:00.000Z`);
+    const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+    const windowStart = new Date(dayStart.getTime() - MATCH_SLACK_MS);
+    const windowEnd = new Date(dayEnd.getTime() + MATCH_SLACK_MS);
+    const inDay = (at: Date) => at >= dayStart && at < dayEnd;
+
+    const gatewayTransactions = await reportProvider.listTransactions(
+      windowStart,
+      windowEnd,
+    );
+
+    const groups = new Map<string, GatewayTransaction[]>();
+    for (const transaction of gatewayTransactions) {
+      const key = transaction.reference || transaction.gateway_transaction_id;
+      groups.set(key, [...(groups.get(key) || []), transaction]);
+    }
+
+    const gatewayKeys = gatewayTransactions.flatMap(transaction =>
+      [transaction.reference, transaction.gateway_transaction_id].filter(
+        Boolean,
+      ),
+    );
+    const payments = await this.findLocalPayments(
+      reportProvider.provider,
+      windowStart,
+      windowEnd,
+      gatewayKeys,
+    );
+    const transactions = await this.findCreditTransactions([
+      ...gatewayKeys,
+      ...payments.map(payment => payment.payment_reference),
+    ]);
+
+    const paymentsByKey = new Map<string, Payment>();
+    for (const payment of payments) {
+      for (const key of [
+        payment.payment_reference,
+        payment.external_reference,
+        payment.gateway_transaction_id,
+      ]) {
+        if (key && !paymentsByKey.has(key)) paymentsByKey.set(key, payment);
+      }
+    }
+    const transactionsByKey = new Map<string, Transaction>();
+    for (const transaction of transactions) {
+      for (const key of [
+        transaction.reference_id,
+        transaction.external_reference,
+      ]) {
+        if (key && !transactionsByKey.has(key)) {
+          transactionsByKey.set(key, transaction);
+        }
+      }
+    }
+
+    const result: MatchResult = {
+      gateway_count: 0,
+      local_count: 0,
+      matched_count: 0,
+      mismatches: [],
+    };
+    const matchedPaymentIds = new Set<string>();
+
+    for (const group of groups.values()) {
+      const lookup = <T>(map: Map<string, T>): T | undefined =>
+        group
+          .flatMap(transaction => [
+            transaction.reference,
+            transaction.gateway_transaction_id,
+          ])
+          .map(key => key && map.get(key))
+          .find(Boolean);
+      const payment = lookup(paymentsByKey);
+      const transaction = lookup(transactionsByKey);
+
+      if (payment) matchedPaymentIds.add(payment.id);
+
+      const paidCharges = group.filter(charge => this.isGatewayPaid(charge));
+      const gateway = (paidCharges.length ? paidCharges : group).reduce(
+        (latest, charge) =>
+          charge.created_at > latest.created_at ? charge : latest,
+      );
+      if (!inDay(gateway.created_at)) continue;
+
+      result.gateway_count++;
+      const gatewayPaid = paidCharges.length > 0;
+      const gatewayAmount = gatewayPaid
+        ? roundMoney(
+            paidCharges.reduce((sum, charge) => sum + charge.amount, 0),
+          )
+        : gateway.amount;
+      const reference =
+        payment?.payment_reference ||
+        transaction?.reference_id ||
+        gateway.reference ||
+        gateway.gateway_transaction_id;
+      const found = (mismatch_type: SettlementMismatchType) =>
+        result.mismatches.push({
+          mismatch_type,
+          reference,
+          payment,
+          transaction,
+          gateway,
+          gateway_amount: gatewayAmount,
+        });
+
+      if (!payment && !transaction) {
+        // Abandoned or failed attempts with no local row are not a problem
+        if (gatewayPaid) {
+          found(SettlementMismatchType.MISSING_LOCALLY);
+        } else {
+          result.matched_count++;
+        }
+        continue;
+      }
+
+      const localPaid = payment
+        ? PAID_PAYMENT_STATUSES.includes(payment.status)
+        : transaction.status === TransactionStatus.COMPLETED;
+      const localAmount = roundMoney(
+        Number(payment ? payment.amount : transaction.amount),
+      );
+      const localCurrency = this.resolveLocalCurrency(payment, transaction);
+      const mismatchCount = result.mismatches.length;
+
+      if (localPaid !== gatewayPaid) {
+        found(SettlementMismatchType.STATUS_MISMATCH);
+      } else if (localPaid) {
+        if (localAmount !== gatewayAmount) {
+          found(SettlementMismatchType.AMOUNT_MISMATCH);
+        }
+        if (
+          localCurrency &&
+          gateway.currency &&
+          localCurrency !== gateway.currency.toUpperCase()
+        ) {
+          found(SettlementMismatchType.CURRENCY_MISMATCH);
+        }
+      }
+
+      if (result.mismatches.length === mismatchCount) {
+        result.matched_count++;
+      }
+    }
+
+    for (const payment of payments) {
+      if (
+        !inDay(payment.created_at) ||
+        !PAID_PAYMENT_STATUSES.includes(payment.status)
+      ) {
+        continue;
+      }
+
+      result.local_count++;
+      if (!matchedPaymentIds.has(payment.id)) {
+        result.mismatches.push({
+          mismatch_type: SettlementMismatchType.MISSING_AT_GATEWAY,
+          reference: payment.payment_reference,
+          payment,
+          transaction: transactionsByKey.get(payment.payment_reference),
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Payments made through the gateway in the window, plus any payment the
+   * gateway's charges point at regardless of when it was created
+   */
+  private async findLocalPayments(
+    provider: PaymentProvider,
+    from: Date,
+    to: Date,
+    gatewayKeys: string[],
+  ): Promise<Payment[]> {
+    const inWindow = await this.paymentRepository.find({
+      where: { provider, created_at: Between(from, to) },
+      relations: ['order'],
+    });
+
+    const known = new Set(inWindow.map(payment => payment.id));
+    const referenced = gatewayKeys.length
+      ? await this.paymentRepository.find({
+          where: [
+            { payment_reference: In(gatewayKeys) },
+            { external_reference: In(gatewayKeys) },
+            { gateway_transaction_id: In(gatewayKeys) },
+          ],
+          relations: ['order'],
+        })
+      : [];
+
+    return [
+      ...inWindow,
+      ...referenced.filter(payment => !known.has(payment.id)),
+    ];
+  }
+
+  /**
+   * Wallet top-up credits. Their wallet gives the currency for funding
+   * payments, which have no order to take it from.
+   */
+  private async findCreditTransactions(keys: string[]): Promise<Transaction[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    return this.transactionRepository.find({
+      where: [
+        {
+          transaction_type: TransactionType.CREDIT,
+          reference_id: In(keys),
+        },
+        {
+          transaction_type: TransactionType.CREDIT,
+          external_reference: In(keys),
+        },
+      ],
+      relations: ['wallet'],
+    });
+  }
+
+  private resolveLocalCurrency(
+    payment?: Payment,
+    transaction?: Transaction,
+  ): string | null {
+    return payment?.order?.currency || transaction?.wallet?.currency || null;
+  }
+
+  private isGatewayPaid(transaction: GatewayTransaction): boolean {
+    return (
+      transaction.status === 'completed' || transaction.status === 'refunded'
+    );
+  }
+
+  /**
+   * One row per gateway, reference and kind of mismatch. An open row is
+   * refreshed with the latest figures; a resolved one is left as the admin
+   * closed it.
+   */
+  private async recordMismatch(
+    run: SettlementRun,
+    detected: DetectedMismatch,
+  ): Promise<void> {
+    const existing = await this.settlementMismatchRepository.findOne({
+      where: {
+        provider: run.provider,
+        reference: detected.reference,
+        mismatch_type: detected.mismatch_type,
+      },
+    });
+
+    if (existing?.status === SettlementMismatchStatus.RESOLVED) {
+      return;
+    }
+
+    const { payment, transaction, gateway } = detected;
+    const mismatch =
+      existing ||
+      this.settlementMismatchRepository.create({
+        provider: run.provider,
+        reference: detected.reference,
+        mismatch_type: detected.mismatch_type,
+        status: SettlementMismatchStatus.OPEN,
+      });
+
+    Object.assign(mismatch, {
+      run_id: run.id,
+      settlement_date: run.settlement_date,
+      payment_id: payment?.id || null,
+      transaction_id: transaction?.id || null,
+      gateway_transaction_id: gateway?.gateway_transaction_id || null,
+      local_amount:
+        payment || transaction
+          ? Number(payment ? payment.amount : transaction.amount)
+          : null,
+      gateway_amount: gateway ? detected.gateway_amount : null,
+      local_currency: this.resolveLocalCurrency(payment, transaction),
+      gateway_currency: gateway?.currency?.toUpperCase() || null,
+      local_status: payment?.status || transaction?.status || null,
+      gateway_status: gateway?.status || null,
+      last_seen_at: new Date(),
+    });
+
+    await this.settlementMismatchRepository.save(mismatch);
+  }
+
+  /**
+   * Open mismatches of the same day that this run no longer sees have been
+   * fixed in the meantime, e.g. by a late webhook
+   */
+  private async clearUnreportedMismatches(run: SettlementRun): Promise<void> {
+    await this.settlementMismatchRepository.update(
+      {
+        provider: run.provider,
+        settlement_date: run.settlement_date,
+        status: SettlementMismatchStatus.OPEN,
+        run_id: Not(run.id),
+      },
+      {
+        status: SettlementMismatchStatus.RESOLVED,
+        resolution_note: `No longer reported by settlement run ${run.id}`,
+        resolved_at: new Date(),
+      },
+    );
+  }
+
+  private previousDay(): string {
+    return new Date(Date.now() - DAY_MS).toISOString().slice(0, 10);
+  }
+
+  private mapRunToResponse(run: SettlementRun): SettlementRunResponseDto {
+    return {
+      id: run.id,
+      provider: run.provider,
+      settlement_date: run.settlement_date,
+      status: run.status,
+      gateway_count: run.gateway_count,
+      local_count: run.local_count,
+      matched_count: run.matched_count,
+      mismatch_count: run.mismatch_count,
+      error: run.error,
+      triggered_by: run.triggered_by,
+      completed_at: run.completed_at,
+      created_at: run.created_at,
+    };
+  }
+
+  private mapMismatchToResponse(
+    mismatch: SettlementMismatch,
+  ): SettlementMismatchResponseDto {
+    return {
+      id: mismatch.id,
+      run_id: mismatch.run_id,
+      provider: mismatch.provider,
+      settlement_date: mismatch.settlement_date,
+      mismatch_type: mismatch.mismatch_type,
+      reference: mismatch.reference,
+      payment_id: mismatch.payment_id,
+      transaction_id: mismatch.transaction_id,
+      gateway_transaction_id: mismatch.gateway_transaction_id,
+      local_amount: mismatch.local_amount,
+      gateway_amount: mismatch.gateway_amount,
+      local_currency: mismatch.local_currency,
+      gateway_currency: mismatch.gateway_currency,
+      local_status: mismatch.local_status,
+      gateway_status: mismatch.gateway_status,
+      status: mismatch.status,
+      last_seen_at: mismatch.last_seen_at,
+      resolution_note: mismatch.resolution_note,
+      resolved_by: mismatch.resolved_by,
+      resolved_at: mismatch.resolved_at,
+      created_at: mismatch.created_at,
+    };
+  }
+}
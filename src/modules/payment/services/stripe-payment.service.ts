@@ -1,6 +1,7 @@
 import { Injectable, Logger, BadRequestException, Inject } from '@nestjs/common';
 import { PaymentMethod, PaymentProvider } from 'src/entities';
 import { PaymentProviderInterface, PaymentInitiationResult, PaymentVerificationResult, PaymentWebhookResult, RefundResult } from '../interfaces/payment-provider.interface';
+import { GatewayTransaction, GatewayTransactionStatus, SettlementReportProviderInterface } from '../interfaces/settlement-report-provider.interface';
 import { SavedCard, PaymentGateway } from 'src/entities';
 import { Repository } from 'typeorm';
 import { getRepositoryToken } from '@nestjs/typeorm';
@@ -8,7 +9,8 @@ import Stripe from 'stripe';
 // Crypto import removed as it's not used in this service
 
 @Injectable()
-export class StripePaymentService implements PaymentProviderInterface {
+export class StripePaymentService implements PaymentProviderInterface, SettlementReportProviderInterface {
+  readonly provider = PaymentProvider.STRIPE;
   private readonly logger = new Logger(StripePaymentService.name);
   private readonly stripeSecretKey: string;
   private readonly stripeWebhookSecret: string;
@@ -382,6 +384,78 @@ export class StripePaymentService implements PaymentProviderInterface {
     return [PaymentMethod.STRIPE];
   }
 
+  /**
+   * Checkout sessions plus payment intents charged directly against saved
+   * cards. Intents that belong to a session are skipped so each charge is
+   * listed once.
+   */
+  async listTransactions(from: Date, to: Date): Promise<GatewayTransaction[]> {
+    if (!this.stripeSecretKey) {
+      throw new BadRequestException('Stripe configuration missing');
+    }
+
+    const created = {
+      gte: Math.floor(from.getTime() / 1000),
+      lt: Math.floor(to.getTime() / 1000),
+    };
+    const transactions: GatewayTransaction[] = [];
+    const sessionIntents = new Set<string>();
+
+    for await (const session of this.stripe.checkout.sessions.list({ created, limit: 100 })) {
+      if (session.payment_intent) {
+        sessionIntents.add(
+          typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent.id,
+        );
+      }
+
+      let status: GatewayTransactionStatus = 'pending';
+      if (session.status === 'complete' && session.payment_status !== 'unpaid') {
+        status = 'completed';
+      } else if (session.status === 'expired') {
+        status = 'cancelled';
+      }
+
+      transactions.push({
+        reference: session.client_reference_id || session.metadata?.reference,
+        gateway_transaction_id: session.id,
+        amount: (session.amount_total || 0) / 100,
+        currency: (session.currency || '').toUpperCase(),
+        status,
+        created_at: new Date(session.created * 1000),
+      });
+    }
+
+    for await (const intent of this.stripe.paymentIntents.list({ created, limit: 100 })) {
+      if (sessionIntents.has(intent.id)) {
+        continue;
+      }
+
+      let status: GatewayTransactionStatus;
+      switch (intent.status) {
+        case 'succeeded':
+          status = 'completed';
+          break;
+        case 'canceled':
+          status = 'cancelled';
+          break;
+        default:
+          status = 'pending';
+      }
+
+      transactions.push({
+        reference: intent.metadata?.payment_reference || intent.metadata?.funding_reference,
+        gateway_transaction_id: intent.id,
+        amount: intent.amount / 100,
+        currency: intent.currency.toUpperCase(),
+        status,
+        created_at: new Date(intent.created * 1000),
+      });
+    }
+
+    this.logger.log(`Fetched ${transactions.length} Stripe transactions between ${from.toISOString()} and ${to.toISOString()}`);
+    return transactions;
+  }
+
   // =============== Minimal tokenization helpers (no DB writes) ===============
   async createSetupIntentLight(email: string, userId?: string): Promise<{ success: boolean; client_secret?: string; customer_id?: string; error?: string }> {
     try {
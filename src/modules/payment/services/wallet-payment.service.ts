@@ -5,7 +5,7 @@ import {
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
 import {
   Wallet,
   Transaction,
@@ -15,6 +15,8 @@ import {
   PaymentProvider,
   PaymentTransactionStatus,
   Currency,
+  FeeBreakdown,
+  WalletBalance,
 } from 'src/entities';
 import { PaymentRepository } from '../repositories/payment.repository';
 import { Payment } from 'src/entities/payment.entity';
@@ -29,8 +31,51 @@ import {
   TransactionHistoryResponseDto,
   TransactionQueryDto,
   TransactionDto,
+  TransactionFxDto,
 } from '../dto/transaction-history.dto';
 import { ConfigService } from '@nestjs/config';
+import { RefundResult } from '../interfaces/payment-provider.interface';
+import { LedgerService } from '@/modules/ledger/services/ledger.service';
+import { FxService } from '@/modules/fx/services/fx.service';
+import { FxConversion } from '@/modules/fx/interfaces/fx-rate-provider.interface';
+
+/**
+ * Who paid for an order and how, for the ledger entry posted alongside the
+ * vendor credit
+ */
+export interface OrderPayer {
+  customer_id: string;
+  total_amount: number;
+  provider: PaymentProvider;
+  currency: Currency;
+  // Fees priced at checkout; orders placed before fee rules have none
+  fee_breakdown?: FeeBreakdown | null;
+  // Part of total_amount paid out of group order escrow
+  escrow_amount?: number;
+}
+
+/**
+ * Part of a wallet refund that goes to someone other than the customer who
+ * paid, e.g. a split group order participant's share
+ */
+export interface WalletRefundShare {
+  user_id: string;
+  amount: number;
+  reference: string;
+}
+
+/**
+ * Which balance a wallet payment comes out of. balance is the separate
+ * currency balance when one covers the payment, otherwise the wallet's own
+ * balance, converted when the currencies differ.
+ */
+interface WalletDebitPlan {
+  balance: WalletBalance | null;
+  currency: Currency;
+  // In currency
+  amount: number;
+  fx: FxConversion | null;
+}
 
 @Injectable()
 export class WalletPaymentService {
@@ -44,11 +89,24 @@ export class WalletPaymentService {
     private readonly paymentRepository: PaymentRepository,
     private readonly vendorService: VendorService,
     private readonly configService: ConfigService,
+    private readonly ledgerService: LedgerService,
+    @InjectRepository(WalletBalance)
+    private readonly walletBalanceRepository: Repository<WalletBalance>,
+    private readonly fxService: FxService,
   ) {}
 
   async processWalletPayment(
     orderId: string,
-    amount: { total_amount: number; subtotal: number },
+    amount: {
+      total_amount: number;
+      subtotal: number;
+      fee_breakdown?: FeeBreakdown | null;
+      // Order currency; defaults to the wallet's
+      currency?: Currency;
+      // Part of the total already held in group order escrow; only the rest
+      // comes out of the customer's wallet
+      escrow_amount?: number;
+    },
     customerId: string,
     vendorId: string,
   ): Promise<Payment> {
@@ -71,10 +129,35 @@ export class WalletPaymentService {
       throw new BadRequestException('Customer wallet is not active');
     }
 
+    const orderCurrency = amount.currency || customerWallet.currency;
+    const escrowAmount = Number(amount.escrow_amount) || 0;
+    const walletAmount =
+      Math.round((Number(amount.total_amount) - escrowAmount) * 100) / 100;
+    if (walletAmount < 0) {
+      throw new BadRequestException('Escrow cannot cover more than the order');
+    }
+    // Nothing to take from the wallet when escrow covers the whole order
+    const debitPlan =
+      walletAmount > 0
+        ? await this.planWalletDebit(
+            customerWallet,
+            orderCurrency,
+            walletAmount,
+          )
+        : null;
+
     this.logger.log(`Checking if customer has sufficient balance`);
     // Check if customer has sufficient balance
-    if (!customerWallet.can_transact(amount.total_amount)) {
-      throw new BadRequestException('Insufficient wallet balance');
+    if (
+      debitPlan &&
+      !debitPlan.balance &&
+      !customerWallet.can_transact(debitPlan.amount)
+    ) {
+      throw new BadRequestException(
+        debitPlan.fx
+          ? `Insufficient wallet balance: ${debitPlan.amount} ${debitPlan.currency} needed for ${debitPlan.fx.original_amount} ${orderCurrency}`
+          : 'Insufficient wallet balance',
+      );
     }
 
     this.logger.log(`Customer has sufficient balance`);
@@ -91,52 +174,75 @@ export class WalletPaymentService {
     const paymentReference = payment.payment_reference;
 
     try {
-      this.logger.log(`Processing wallet debit transaction`);
-      // Process wallet debit transaction
-      const debitSuccess = customerWallet.debit(amount.total_amount);
-      if (!debitSuccess) {
-        throw new BadRequestException('Failed to debit customer wallet');
-      }
-
-      this.logger.log(`Wallet debit transaction processed`);
-
-      // Save updated wallet
-      this.logger.log(`Saving updated wallet`);
-      await this.walletRepository.save(customerWallet);
-
-      // Create debit transaction record
-      this.logger.log(`Creating debit transaction record`);
-      const debitTransaction = await this.transactionRepository.create({
-        wallet_id: customerWallet.id,
-        transaction_type: TransactionType.DEBIT,
-        amount: Number(amount.total_amount),
-        balance_before:
-          Number(customerWallet.balance) + Number(amount.total_amount),
-        balance_after: Number(customerWallet.balance),
-        description: `Payment for order ${orderId}`,
-        reference_id: paymentReference,
-        status: TransactionStatus.COMPLETED,
-        processed_at: new Date(),
+      // Debit, vendor credit and ledger entries commit together or not at all
+      await this.walletRepository.manager.transaction(async em => {
+        if (debitPlan) {
+          await this.debitForOrder(
+            em,
+            customerWallet,
+            debitPlan,
+            orderId,
+            paymentReference,
+          );
+        }
+
+        if (debitPlan?.fx) {
+          // Wallet money changes currency before the order payment is posted
+          await this.ledgerService.recordFxConversion(
+            {
+              reference: paymentReference,
+              user_id: customerId,
+              from_currency: debitPlan.currency,
+              from_amount: debitPlan.amount,
+              to_currency: orderCurrency,
+              to_amount: walletAmount,
+              rate: debitPlan.fx.rate,
+              spread_percentage: debitPlan.fx.spread_percentage,
+              order_id: orderId,
+            },
+            em,
+          );
+          payment.metadata = {
+            ...payment.metadata,
+            fx: this.fxReceipt(debitPlan.fx),
+          };
+        }
+        if (escrowAmount > 0) {
+          payment.metadata = {
+            ...payment.metadata,
+            escrow_amount: escrowAmount,
+          };
+        }
+
+        // Credit vendor wallet
+        this.logger.log(`Credit vendor wallet`);
+        await this.creditVendorWallet(
+          vendorId,
+          amount.subtotal,
+          orderId,
+          paymentReference,
+          {
+            customer_id: customerId,
+            total_amount: Number(amount.total_amount),
+            provider: PaymentProvider.WALLET,
+            currency: orderCurrency,
+            fee_breakdown: amount.fee_breakdown,
+            escrow_amount: escrowAmount,
+          },
+          em,
+        );
+        this.logger.log(`Vendor wallet credited`);
+
+        this.logger.log(`Marking payment as completed`);
+        // Mark payment as completed
+        payment.markAsCompleted();
+        await em.update(Payment, payment.id, {
+          status: payment.status,
+          processed_at: payment.processed_at,
+          metadata: payment.metadata,
+        });
       });
 
-      this.logger.log(`Saving debit transaction record`);
-      await this.transactionRepository.save(debitTransaction);
-
-      // Credit vendor wallet
-      this.logger.log(`Credit vendor wallet`);
-      await this.creditVendorWallet(
-        vendorId,
-        amount.subtotal,
-        orderId,
-        paymentReference,
-      );
-      this.logger.log(`Vendor wallet credited`);
-
-      this.logger.log(`Marking payment as completed`);
-      // Mark payment as completed
-      payment.markAsCompleted();
-      await this.paymentRepository.update(payment.id, payment);
-
       this.logger.log(`Wallet payment completed for order ${orderId}`);
       return payment;
     } catch (error) {
@@ -152,17 +258,96 @@ export class WalletPaymentService {
     }
   }
 
+  /**
+   * Take an order payment out of the customer's wallet, or the balance the
+   * plan picked, with its transaction record
+   */
+  private async debitForOrder(
+    em: EntityManager,
+    customerWallet: Wallet,
+    debitPlan: WalletDebitPlan,
+    orderId: string,
+    paymentReference: string,
+  ): Promise<void> {
+    this.logger.log(`Processing wallet debit transaction`);
+    // Re-read under lock so concurrent payments can't spend the same money
+    const lockedWallet = await em.findOne(Wallet, {
+      where: { id: customerWallet.id },
+      lock: { mode: 'pessimistic_write' },
+    });
+    const lockedBalance = debitPlan.balance
+      ? await em.findOne(WalletBalance, {
+          where: { id: debitPlan.balance.id },
+          lock: { mode: 'pessimistic_write' },
+        })
+      : null;
+    const debitedBalance = lockedBalance || lockedWallet;
+    const balanceBefore = Number(debitedBalance.balance);
+    const debitSuccess = debitedBalance.debit(debitPlan.amount);
+    if (!debitSuccess) {
+      throw new BadRequestException('Failed to debit customer wallet');
+    }
+
+    this.logger.log(`Wallet debit transaction processed`);
+
+    // Save updated wallet
+    this.logger.log(`Saving updated wallet`);
+    if (lockedBalance) {
+      await em.save(lockedBalance);
+      lockedWallet.last_transaction_at = new Date();
+    }
+    await em.save(lockedWallet);
+
+    // Create debit transaction record
+    this.logger.log(`Saving debit transaction record`);
+    await em.save(
+      em.create(Transaction, {
+        wallet_id: lockedWallet.id,
+        transaction_type: TransactionType.DEBIT,
+        amount: Number(debitPlan.amount),
+        balance_before: balanceBefore,
+        balance_after: Number(debitedBalance.balance),
+        description: `Payment for order ${orderId}`,
+        reference_id: paymentReference,
+        status: TransactionStatus.COMPLETED,
+        processed_at: new Date(),
+        currency: debitPlan.currency,
+        ...this.fxColumns(debitPlan.fx),
+      }),
+    );
+  }
+
+  /**
+   * Credit the vendor's share of an order payment, with its transaction
+   * record and ledger entry. Runs in the caller's transaction when given
+   * one, otherwise in its own.
+   */
   private async creditVendorWallet(
     vendorId: string,
     amount: number,
     orderId: string,
     paymentReference: string,
+    payer: OrderPayer,
+    manager?: EntityManager,
   ): Promise<void> {
+    if (!manager) {
+      return this.walletRepository.manager.transaction(em =>
+        this.creditVendorWallet(
+          vendorId,
+          amount,
+          orderId,
+          paymentReference,
+          payer,
+          em,
+        ),
+      );
+    }
+
     this.logger.log(`Getting vendor wallet for: ${vendorId}`);
     this.logger.log(`Payment reference: ${paymentReference}`);
 
     // ✅ CRITICAL FIX: Check if this payment was already credited
-    const existingCredit = await this.transactionRepository.findOne({
+    const existingCredit = await manager.findOne(Transaction, {
       where: {
         reference_id: paymentReference,
         transaction_type: TransactionType.CREDIT,
@@ -177,7 +362,9 @@ export class WalletPaymentService {
       return; // Exit early - already processed
     }
 
-    // Get service fee and commission percentages from config
+    // Commission comes from the fee rules applied at checkout; older orders
+    // fall back to the configured percentages
+    const feeBreakdown = payer.fee_breakdown || null;
     const serviceFeePercentage = this.configService.get<number>(
       'fees.serviceFeePercentage',
       15,
@@ -188,28 +375,35 @@ export class WalletPaymentService {
     );
 
     // Calculate deductions
-    const commission = (amount * commissionPercentage) / 100;
+    const commission = feeBreakdown
+      ? Number(feeBreakdown.commission.amount)
+      : (amount * commissionPercentage) / 100;
     const amountToCreditVendor = amount - commission;
 
     this.logger.log(`Original amount: ${amount}`);
-    this.logger.log(`Commission (${commissionPercentage}%): ${commission}`);
+    this.logger.log(
+      feeBreakdown
+        ? `Commission (fee rules): ${commission}`
+        : `Commission (${commissionPercentage}%): ${commission}`,
+    );
     this.logger.log(`Amount to credit vendor: ${amountToCreditVendor}`);
 
     // get vendor with vendor id
     const vendor = await this.vendorService.getVendorById(vendorId);
 
-    let vendorWallet = await this.walletRepository.findOne({
+    let vendorWallet = await manager.findOne(Wallet, {
       where: { user_id: vendor.user_id },
+      lock: { mode: 'pessimistic_write' },
     });
 
     if (!vendorWallet) {
       this.logger.log(`Creating vendor wallet for: ${vendorId}`);
-      vendorWallet = this.walletRepository.create({
+      vendorWallet = manager.create(Wallet, {
         user_id: vendor.user_id,
         balance: 0,
         is_active: true,
       });
-      await this.walletRepository.save(vendorWallet);
+      await manager.save(vendorWallet);
     }
 
     // Store balance before credit for transaction record
@@ -217,12 +411,12 @@ export class WalletPaymentService {
 
     // Credit vendor wallet with amount after deductions
     vendorWallet.creditVendor(amountToCreditVendor);
-    await this.walletRepository.save(vendorWallet);
+    await manager.save(vendorWallet);
 
     this.logger.log(`Vendor wallet credited: ${vendorWallet?.id}`);
 
     // Create credit transaction record
-    const creditTransaction = await this.transactionRepository.create({
+    const creditTransaction = manager.create(Transaction, {
       wallet_id: vendorWallet.id,
       transaction_type: TransactionType.CREDIT,
       amount: Number(amountToCreditVendor),
@@ -234,14 +428,36 @@ export class WalletPaymentService {
       processed_at: new Date(),
       metadata: {
         original_amount: Number(amount),
-        service_fee_percentage: serviceFeePercentage,
+        service_fee_percentage: feeBreakdown ? null : serviceFeePercentage,
         commission: Number(commission),
-        commission_percentage: commissionPercentage,
+        commission_percentage: feeBreakdown ? null : commissionPercentage,
         net_amount: Number(amountToCreditVendor),
+        fee_breakdown: feeBreakdown,
       },
     });
 
-    await this.transactionRepository.save(creditTransaction);
+    await manager.save(creditTransaction);
+
+    await this.ledgerService.recordOrderPayment(
+      {
+        reference: paymentReference,
+        order_id: orderId,
+        currency: payer.currency,
+        total_amount: payer.total_amount,
+        vendor_amount: amountToCreditVendor,
+        vendor_user_id: vendor.user_id,
+        customer_id: payer.customer_id,
+        provider: payer.provider,
+        escrow_amount: payer.escrow_amount,
+        metadata: {
+          subtotal: Number(amount),
+          commission: Number(commission),
+          commission_percentage: feeBreakdown ? null : commissionPercentage,
+          fee_breakdown: feeBreakdown,
+        },
+      },
+      manager,
+    );
 
     this.logger.log(
       `Vendor wallet credited successfully: ${vendorId}, net amount: ${amountToCreditVendor}`,
@@ -249,119 +465,249 @@ export class WalletPaymentService {
   }
 
   /**
-   * Refund wallet payment
-   * @param paymentId Payment ID
-   * @param amount Refund amount (optional, defaults to full amount)
+   * Credit a refund back to the customer's wallet. RefundService calls this
+   * the same way it calls the card gateways; it takes care of the vendor
+   * clawback and the payment's refunded amount.
+   * @param payment Wallet payment being refunded
+   * @param customerId Customer to credit
+   * @param amount Refund amount
+   * @param refundReference Reference of the Refund record
    * @param reason Refund reason
+   * @param currency Currency of the refund amount (the order's)
+   * @param shares Parts of the amount credited straight to others instead
    */
   async refundWalletPayment(
-    paymentId: string,
-    amount?: number,
-    reason?: string,
-  ): Promise<void> {
-    const payment = await this.paymentRepository.findById(paymentId);
-    if (!payment) {
-      throw new NotFoundException('Payment not found');
-    }
-
+    payment: Payment,
+    customerId: string,
+    amount: number,
+    refundReference: string,
+    reason: string,
+    currency?: Currency,
+    shares: WalletRefundShare[] = [],
+  ): Promise<RefundResult> {
     if (!payment.is_wallet_payment) {
       throw new BadRequestException('Payment is not a wallet payment');
     }
 
-    const refundAmount = amount || payment.amount;
-    if (refundAmount > payment.amount) {
-      throw new BadRequestException(
-        'Refund amount cannot exceed payment amount',
-      );
-    }
-
-    // Get order details
-    const order = payment.order;
-    if (!order) {
-      throw new NotFoundException('Order not found');
-    }
-
-    // Get vendor wallet to debit
-    const vendorWallet = await this.walletRepository.findOne({
-      where: { user_id: order.vendor_id },
+    const customerWallet = await this.walletRepository.findOne({
+      where: { user_id: customerId },
     });
 
-    if (!vendorWallet) {
-      throw new NotFoundException('Vendor wallet not found');
+    if (!customerWallet) {
+      return { success: false, error: 'Customer wallet not found' };
     }
 
-    // Check if vendor has sufficient balance
-    if (!vendorWallet.can_transact(refundAmount)) {
-      throw new BadRequestException(
-        'Insufficient vendor wallet balance for refund',
-      );
-    }
+    // The refund goes back to the balance the payment came out of, and a
+    // converted payment is converted back at the rate the customer paid
+    const refundCurrency = currency || customerWallet.currency;
+    const customerAmount =
+      Math.round(
+        (Number(amount) -
+          shares.reduce((sum, share) => sum + share.amount, 0)) *
+          100,
+      ) / 100;
+    const paymentDebit = await this.transactionRepository.findOne({
+      where: {
+        wallet_id: customerWallet.id,
+        reference_id: payment.payment_reference,
+        transaction_type: TransactionType.DEBIT,
+      },
+    });
 
-    // Debit vendor wallet
-    const debitSuccess = vendorWallet.debit(refundAmount);
-    if (!debitSuccess) {
-      throw new BadRequestException('Failed to debit vendor wallet for refund');
+    let creditCurrency = paymentDebit
+      ? paymentDebit.currency || customerWallet.currency
+      : refundCurrency;
+    let creditAmount = customerAmount;
+    let fx: FxConversion | null = null;
+
+    if (
+      paymentDebit?.fx_original_currency === refundCurrency &&
+      Number(paymentDebit.fx_original_amount) > 0
+    ) {
+      creditAmount =
+        Math.round(
+          ((customerAmount * Number(paymentDebit.amount)) /
+            Number(paymentDebit.fx_original_amount)) *
+            100,
+        ) / 100;
+      fx = {
+        from_currency: refundCurrency,
+        to_currency: creditCurrency,
+        original_amount: customerAmount,
+        rate: Number(paymentDebit.fx_rate),
+        spread_percentage: Number(paymentDebit.fx_spread_percentage),
+        converted_amount: creditAmount,
+        source: paymentDebit.fx_rate_source,
+        quoted_at: paymentDebit.created_at,
+      };
+    } else if (!paymentDebit) {
+      creditCurrency = refundCurrency;
     }
 
-    await this.walletRepository.save(vendorWallet);
+    // Wallet credits, transaction records and FX entry commit together
+    const refundTransaction = await this.walletRepository.manager.transaction(
+      async em => {
+        const wallets = await em.find(Wallet, {
+          where: {
+            user_id: In([customerId, ...shares.map(share => share.user_id)]),
+          },
+          order: { id: 'ASC' },
+          lock: { mode: 'pessimistic_write' },
+        });
+
+        let shareTransaction: Transaction | null = null;
+        for (const share of shares) {
+          shareTransaction = await this.creditRefundShare(
+            em,
+            wallets.find(w => w.user_id === share.user_id),
+            share,
+            payment,
+            customerId,
+            reason,
+            refundCurrency,
+          );
+        }
+        if (customerAmount <= 0) {
+          return shareTransaction;
+        }
+
+        const lockedWallet = wallets.find(w => w.id === customerWallet.id);
+        const creditedBalance =
+          creditCurrency === lockedWallet.currency
+            ? lockedWallet
+            : await this.getOrCreateWalletBalance(
+                lockedWallet,
+                creditCurrency,
+                em,
+              );
+
+        // Store balance before credit for transaction record
+        const customerBalanceBefore = Number(creditedBalance.balance);
+
+        creditedBalance.credit(creditAmount);
+        if (creditedBalance !== lockedWallet) {
+          await em.save(creditedBalance);
+          lockedWallet.last_transaction_at = new Date();
+        }
+        await em.save(lockedWallet);
+
+        const transaction = await em.save(
+          em.create(Transaction, {
+            wallet_id: lockedWallet.id,
+            transaction_type: TransactionType.REFUND,
+            amount: creditAmount,
+            balance_before: customerBalanceBefore,
+            balance_after: Number(creditedBalance.balance),
+            description: `Refund for order ${payment.order_id}: ${reason}`,
+            reference_id: refundReference,
+            status: TransactionStatus.COMPLETED,
+            processed_at: new Date(),
+            currency: creditCurrency,
+            ...this.fxColumns(fx),
+            metadata: {
+              payment_id: payment.id,
+              payment_reference: payment.payment_reference,
+            },
+          }),
+        );
 
-    // Create debit transaction for vendor
-    const vendorDebitTransaction = await this.transactionRepository.create({
-      wallet_id: vendorWallet.id,
-      transaction_type: TransactionType.DEBIT,
-      amount: Number(refundAmount),
-      balance_before: Number(vendorWallet.balance) + Number(refundAmount),
-      balance_after: Number(vendorWallet.balance),
-      description: `Refund for order ${order.id}: ${
-        reason || 'No reason provided'
-      }`,
-      reference_id: payment.payment_reference,
-      status: TransactionStatus.COMPLETED,
-      processed_at: new Date(),
-    });
+        if (fx) {
+          // RefundService posts the refund in the order currency; move it
+          // back into the currency the customer paid with
+          await this.ledgerService.recordFxConversion(
+            {
+              reference: refundReference,
+              user_id: customerId,
+              from_currency: refundCurrency,
+              from_amount: customerAmount,
+              to_currency: creditCurrency,
+              to_amount: creditAmount,
+              rate: fx.rate,
+              spread_percentage: fx.spread_percentage,
+              order_id: payment.order_id,
+            },
+            em,
+          );
+        }
+
+        return transaction;
+      },
+    );
 
-    await this.transactionRepository.save(vendorDebitTransaction);
+    this.logger.log(
+      `Wallet refund ${refundReference} credited: ${creditAmount} ${creditCurrency} to customer ${customerId}` +
+        (shares.length > 0 ? `, ${shares.length} share(s) to others` : ''),
+    );
 
-    // Get customer wallet to credit
-    const customerWallet = await this.walletRepository.findOne({
-      where: { user_id: order.customer_id },
-    });
+    return {
+      success: true,
+      refund_reference: refundTransaction?.id,
+    };
+  }
 
-    if (!customerWallet) {
-      throw new NotFoundException('Customer wallet not found');
+  /**
+   * Credit one share of a refund to its owner's wallet, in the refund
+   * currency. RefundService posts the whole refund to the paying customer,
+   * so the share is posted on as a transfer from them.
+   */
+  private async creditRefundShare(
+    em: EntityManager,
+    wallet: Wallet | undefined,
+    share: WalletRefundShare,
+    payment: Payment,
+    customerId: string,
+    reason: string,
+    currency: Currency,
+  ): Promise<Transaction> {
+    if (!wallet) {
+      throw new NotFoundException(`Wallet for user ${share.user_id} not found`);
     }
 
-    // Store balance before credit for transaction record
-    const customerBalanceBefore = customerWallet.balance;
-
-    // Credit customer wallet
-    customerWallet.credit(refundAmount);
-    await this.walletRepository.save(customerWallet);
-
-    // Create credit transaction for customer
-    const customerCreditTransaction = await this.transactionRepository.create({
-      wallet_id: customerWallet.id,
-      transaction_type: TransactionType.CREDIT,
-      amount: Number(refundAmount),
-      balance_before: Number(customerBalanceBefore),
-      balance_after: Number(customerWallet.balance),
-      description: `Refund for order ${order.id}: ${
-        reason || 'No reason provided'
-      }`,
-      reference_id: payment.payment_reference,
-      status: TransactionStatus.COMPLETED,
-      processed_at: new Date(),
-    });
-
-    await this.transactionRepository.save(customerCreditTransaction);
+    const creditedBalance =
+      currency === wallet.currency
+        ? wallet
+        : await this.getOrCreateWalletBalance(wallet, currency, em);
+    const balanceBefore = Number(creditedBalance.balance);
+    creditedBalance.credit(share.amount);
+    if (creditedBalance !== wallet) {
+      await em.save(creditedBalance);
+      wallet.last_transaction_at = new Date();
+    }
+    await em.save(wallet);
 
-    // Update payment record
-    payment.processRefund(refundAmount, reason || 'Refund processed');
-    await this.paymentRepository.update(payment.id, payment);
+    const transaction = await em.save(
+      em.create(Transaction, {
+        wallet_id: wallet.id,
+        transaction_type: TransactionType.REFUND,
+        amount: share.amount,
+        balance_before: balanceBefore,
+        balance_after: Number(creditedBalance.balance),
+        description: `Refund for order ${payment.order_id}: ${reason}`,
+        reference_id: share.reference,
+        status: TransactionStatus.COMPLETED,
+        processed_at: new Date(),
+        currency,
+        metadata: {
+          payment_id: payment.id,
+          payment_reference: payment.payment_reference,
+          paid_by: customerId,
+        },
+      }),
+    );
 
-    this.logger.log(
-      `Wallet payment refunded: ${paymentId}, amount: ${refundAmount}`,
+    await this.ledgerService.recordWalletTransfer(
+      {
+        reference: share.reference,
+        currency,
+        amount: share.amount,
+        from_user_id: customerId,
+        to_user_id: share.user_id,
+        description: `Refund share for order ${payment.order_id}`,
+      },
+      em,
     );
+
+    return transaction;
   }
 
   /**
@@ -414,6 +760,7 @@ export class WalletPaymentService {
         ...fundWalletDto.metadata,
         wallet_funding: true,
         user_id: userId,
+        currency: fundWalletDto.currency || wallet.currency,
         return_url: fundWalletDto.return_url,
         cancel_url: fundWalletDto.cancel_url,
       },
@@ -426,7 +773,7 @@ export class WalletPaymentService {
       reference: fundingReference,
       user_id: userId,
       amount: fundWalletDto.amount,
-      currency: fundWalletDto.currency,
+      currency: fundWalletDto.currency || wallet.currency,
       payment_method: fundWalletDto.payment_method,
       status: payment.status,
       created_at: payment.created_at,
@@ -480,51 +827,86 @@ export class WalletPaymentService {
       throw new NotFoundException('Wallet not found');
     }
 
-    try {
-      // Credit the wallet
-      const balanceBefore = wallet.balance;
-      wallet.credit(payment.amount);
-      await this.walletRepository.save(wallet);
+    // Top-ups in another currency are held as a separate balance rather
+    // than converted, so they can pay orders in that currency at no spread
+    const currency: Currency = payment.metadata.currency || wallet.currency;
 
-      // Create credit transaction record
-      const creditTransaction = await this.transactionRepository.create({
-        wallet_id: wallet.id,
-        transaction_type: TransactionType.CREDIT,
-        amount: Number(payment.amount),
-        balance_before: Number(balanceBefore),
-        balance_after: Number(wallet.balance),
-        description: `Wallet funding via ${payment.payment_method}`,
-        reference_id: paymentReference,
-        external_reference: externalReference,
-        status: TransactionStatus.COMPLETED,
-        processed_at: new Date(),
-        metadata: {
-          funding_type: 'wallet_topup',
-          payment_method: payment.payment_method,
-          gateway_response: gatewayResponse,
+    try {
+      // Wallet credit, transaction record and ledger entry commit together
+      const target = await this.walletRepository.manager.transaction(
+        async em => {
+          const lockedWallet = await em.findOne(Wallet, {
+            where: { id: wallet.id },
+            lock: { mode: 'pessimistic_write' },
+          });
+          const credited =
+            currency === lockedWallet.currency
+              ? lockedWallet
+              : await this.getOrCreateWalletBalance(lockedWallet, currency, em);
+          const balanceBefore = credited.balance;
+          credited.credit(payment.amount);
+          await em.save(credited);
+
+          // Create credit transaction record
+          await em.save(
+            em.create(Transaction, {
+              wallet_id: lockedWallet.id,
+              transaction_type: TransactionType.CREDIT,
+              amount: Number(payment.amount),
+              currency,
+              balance_before: Number(balanceBefore),
+              balance_after: Number(credited.balance),
+              description: `Wallet funding via ${payment.payment_method}`,
+              reference_id: paymentReference,
+              external_reference: externalReference,
+              status: TransactionStatus.COMPLETED,
+              processed_at: new Date(),
+              metadata: {
+                funding_type: 'wallet_topup',
+                payment_method: payment.payment_method,
+                gateway_response: gatewayResponse,
+              },
+            }),
+          );
+
+          await this.ledgerService.recordWalletFunding(
+            {
+              reference: paymentReference,
+              user_id: userId,
+              currency,
+              amount: Number(payment.amount),
+              provider: payment.provider,
+            },
+            em,
+          );
+
+          // Mark payment as completed
+          payment.markAsCompleted(externalReference, gatewayResponse);
+          await em.update(Payment, payment.id, {
+            status: payment.status,
+            processed_at: payment.processed_at,
+            gateway_transaction_id: payment.gateway_transaction_id,
+            gateway_response: payment.gateway_response,
+          });
+
+          return credited;
         },
-      });
-
-      await this.transactionRepository.save(creditTransaction);
-
-      // Mark payment as completed
-      payment.markAsCompleted(externalReference, gatewayResponse);
-      await this.paymentRepository.update(payment.id, payment);
+      );
 
       const response: WalletFundingStatusDto = {
         id: payment.id,
         reference: paymentReference,
         amount: payment.amount,
-        currency: wallet.currency,
+        currency,
         payment_method: payment.payment_method,
         status: payment.status,
         created_at: payment.created_at,
         processed_at: payment.processed_at,
-        wallet_balance: wallet.balance,
+        wallet_balance: target.balance,
       };
 
       this.logger.log(
-        `Wallet funding completed: ${paymentReference}, new balance: ${wallet.balance}`,
+        `Wallet funding completed: ${paymentReference}, new ${currency} balance: ${target.balance}`,
       );
       return response;
     } catch (error) {
@@ -560,18 +942,28 @@ export class WalletPaymentService {
     const userId = payment.metadata.user_id;
     let walletBalance: number | undefined;
 
-    if (payment.is_completed) {
-      const wallet = await this.walletRepository.findOne({
-        where: { user_id: userId },
-      });
-      walletBalance = wallet?.balance;
+    const wallet = await this.walletRepository.findOne({
+      where: { user_id: userId },
+    });
+    // Fundings initiated before the currency was recorded were in NGN
+    const currency: Currency = payment.metadata.currency || Currency.NGN;
+
+    if (payment.is_completed && wallet) {
+      if (currency === wallet.currency) {
+        walletBalance = wallet.balance;
+      } else {
+        const balance = await this.walletBalanceRepository.findOne({
+          where: { wallet_id: wallet.id, currency },
+        });
+        walletBalance = balance?.balance;
+      }
     }
 
     return {
       id: payment.id,
       reference: reference,
       amount: payment.amount,
-      currency: Currency.NGN, // Default, should be stored in payment metadata
+      currency,
       payment_method: payment.payment_method,
       status: payment.status,
       failure_reason: payment.failure_reason,
@@ -603,6 +995,11 @@ export class WalletPaymentService {
       await this.walletRepository.save(wallet);
     }
 
+    const balances = await this.walletBalanceRepository.find({
+      where: { wallet_id: wallet.id },
+      order: { currency: 'ASC' },
+    });
+
     return {
       id: wallet.id,
       user_id: wallet.user_id,
@@ -614,6 +1011,10 @@ export class WalletPaymentService {
       vendor_balance: wallet.vendor_balance,
       created_at: wallet.created_at,
       updated_at: wallet.updated_at,
+      balances: balances.map(walletBalance => ({
+        currency: walletBalance.currency,
+        balance: Number(walletBalance.balance),
+      })),
     };
   }
 
@@ -633,6 +1034,127 @@ export class WalletPaymentService {
     return wallet;
   }
 
+  /**
+   * Where a wallet payment in `currency` comes from: the wallet's own balance
+   * when the currencies match, a balance already held in that currency when
+   * it covers the amount, otherwise the wallet's own balance converted at
+   * the current rate
+   */
+  private async planWalletDebit(
+    wallet: Wallet,
+    currency: Currency,
+    amount: number,
+  ): Promise<WalletDebitPlan> {
+    if (currency === wallet.currency) {
+      return { balance: null, currency, amount, fx: null };
+    }
+
+    const walletBalance = await this.walletBalanceRepository.findOne({
+      where: { wallet_id: wallet.id, currency },
+    });
+    if (walletBalance && Number(walletBalance.balance) >= amount) {
+      return { balance: walletBalance, currency, amount, fx: null };
+    }
+
+    const fx = await this.fxService.convert(amount, currency, wallet.currency);
+    return {
+      balance: null,
+      currency: wallet.currency,
+      amount: fx.converted_amount,
+      fx,
+    };
+  }
+
+  private async getOrCreateWalletBalance(
+    wallet: Wallet,
+    currency: Currency,
+    manager?: EntityManager,
+  ): Promise<WalletBalance> {
+    const repository = manager
+      ? manager.getRepository(WalletBalance)
+      : this.walletBalanceRepository;
+    const existing = await repository.findOne({
+      where: { wallet_id: wallet.id, currency },
+      ...(manager ? { lock: { mode: 'pessimistic_write' as const } } : {}),
+    });
+    if (existing) {
+      return existing;
+    }
+
+    return repository.save(
+      repository.create({
+        wallet_id: wallet.id,
+        currency,
+        balance: 0,
+      }),
+    );
+  }
+
+  private fxColumns(fx: FxConversion | null): Partial<Transaction> {
+    if (!fx) {
+      return {};
+    }
+
+    return {
+      fx_original_currency: fx.from_currency,
+      fx_original_amount: fx.original_amount,
+      fx_rate: fx.rate,
+      fx_spread_percentage: fx.spread_percentage,
+      fx_rate_source: fx.source,
+    };
+  }
+
+  private transactionFxReceipt(
+    transaction: Transaction,
+    walletCurrency: Currency,
+  ): TransactionFxDto | null {
+    if (!transaction.fx_original_currency) {
+      return null;
+    }
+
+    return this.fxReceipt({
+      from_currency: transaction.fx_original_currency,
+      to_currency: transaction.currency || walletCurrency,
+      original_amount: transaction.fx_original_amount,
+      rate: transaction.fx_rate,
+      spread_percentage: transaction.fx_spread_percentage,
+      converted_amount: transaction.amount,
+    });
+  }
+
+  /**
+   * Exchange-rate details shown with a transaction, null when nothing was
+   * converted
+   */
+  private fxReceipt(
+    fx: Pick<
+      FxConversion,
+      | 'from_currency'
+      | 'to_currency'
+      | 'original_amount'
+      | 'rate'
+      | 'spread_percentage'
+      | 'converted_amount'
+    > | null,
+  ): TransactionFxDto | null {
+    if (!fx) {
+      return null;
+    }
+
+    return {
+      original_currency: fx.from_currency,
+      original_amount: Number(fx.original_amount),
+      charged_currency: fx.to_currency,
+      charged_amount: Number(fx.converted_amount),
+      rate: Number(fx.rate),
+      spread_percentage: Number(fx.spread_percentage),
+      effective_rate:
+        Math.round(
+          (Number(fx.converted_amount) / Number(fx.original_amount)) * 1e8,
+        ) / 1e8,
+    };
+  }
+
   /**
    * Generate unique funding reference
    * @returns Promise<string>
@@ -646,14 +1168,23 @@ export class WalletPaymentService {
     userId: string,
     amount: number,
     description: string,
+    manager?: EntityManager,
   ): Promise<void> {
     this.logger.log(
       `Debiting wallet for withdrawal: user ${userId}, amount: ${amount}`,
     );
 
-    // Get user wallet
-    const wallet = await this.walletRepository.findOne({
+    const walletRepository = manager
+      ? manager.getRepository(Wallet)
+      : this.walletRepository;
+    const transactionRepository = manager
+      ? manager.getRepository(Transaction)
+      : this.transactionRepository;
+
+    // Get user wallet, locked when debiting inside the caller's transaction
+    const wallet = await walletRepository.findOne({
       where: { user_id: userId },
+      ...(manager ? { lock: { mode: 'pessimistic_write' as const } } : {}),
     });
 
     if (!wallet) {
@@ -682,10 +1213,10 @@ export class WalletPaymentService {
       }
 
       // Save updated wallet
-      await this.walletRepository.save(wallet);
+      await walletRepository.save(wallet);
 
       // ✅ FIX: Create transaction record with correct vendor balance tracking
-      const debitTransaction = await this.transactionRepository.create({
+      const debitTransaction = transactionRepository.create({
         wallet_id: wallet.id,
         transaction_type: TransactionType.DEBIT,
         amount: Number(amount),
@@ -701,7 +1232,7 @@ export class WalletPaymentService {
         },
       });
 
-      await this.transactionRepository.save(debitTransaction);
+      await transactionRepository.save(debitTransaction);
 
       this.logger.log(
         `Vendor wallet debited successfully for withdrawal: ${amount}, new vendor_balance: ${wallet.vendor_balance}`,
@@ -780,6 +1311,8 @@ export class WalletPaymentService {
       reversed_at: transaction.reversed_at,
       reversal_reason: transaction.reversal_reason,
       metadata: transaction.metadata,
+      currency: transaction.currency || wallet.currency,
+      fx: this.transactionFxReceipt(transaction, wallet.currency),
       created_at: transaction.created_at,
       updated_at: transaction.updated_at,
       is_credit: transaction.is_credit,
@@ -844,6 +1377,8 @@ export class WalletPaymentService {
       reversed_at: transaction.reversed_at,
       reversal_reason: transaction.reversal_reason,
       metadata: transaction.metadata,
+      currency: transaction.currency || wallet.currency,
+      fx: this.transactionFxReceipt(transaction, wallet.currency),
       created_at: transaction.created_at,
       updated_at: transaction.updated_at,
       is_credit: transaction.is_credit,
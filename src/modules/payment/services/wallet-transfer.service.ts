@@ -0,0 +1,1063 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { OnEvent } from '@nestjs/event-emitter';
+import {
+  Brackets,
+  EntityManager,
+  FindOptionsWhere,
+  In,
+  LessThan,
+  Repository,
+} from 'typeorm';
+import { randomBytes } from 'crypto';
+import {
+  Currency,
+  LedgerAccountType,
+  NotificationPriority,
+  NotificationType,
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+  User,
+  Wallet,
+  WalletBalance,
+  WalletTransfer,
+  WalletTransferOtpChannel,
+  WalletTransferStatus,
+} from 'src/entities';
+import { OTPService } from 'src/modules/auth/services/otp.service';
+import { PhoneValidator } from 'src/modules/auth/helpers/validators';
+import { LedgerService } from 'src/modules/ledger/services/ledger.service';
+import { InAppNotificationService } from 'src/modules/notification/services/in-app-notification.service';
+import { EmailNotificationService } from 'src/modules/notification/services/email-notification.service';
+import {
+  USER_EVENTS,
+  UserContactVerifiedEvent,
+  UserCreatedEvent,
+} from 'src/modules/user/events';
+import { getCurrencyForCountry } from 'src/utils/currency-mapper';
+import {
+  ClaimGiftCreditResponseDto,
+  ConfirmWalletTransferDto,
+  CreateWalletTransferDto,
+  WalletTransferLimitsDto,
+  WalletTransferListResponseDto,
+  WalletTransferQueryDto,
+  WalletTransferResponseDto,
+} from '../dto/wallet-transfer.dto';
+
+const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Statuses where the money has left the sender's wallet
+const SENT_STATUSES = [
+  WalletTransferStatus.COMPLETED,
+  WalletTransferStatus.PENDING_CLAIM,
+  WalletTransferStatus.CLAIMED,
+  WalletTransferStatus.RETURNED,
+];
+
+/**
+ * Customer wallet money held by the platform, e.g. a group order share
+ * waiting for checkout
+ */
+export interface WalletFundsHold {
+  user_id: string;
+  amount: number;
+  currency: Currency;
+  reference: string;
+  description: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Customer-to-customer wallet transfers, addressed by phone number or email
+ * and confirmed with an OTP. Money sent to someone without an account is
+ * held on the GIFT_CREDIT ledger account until they sign up with that phone
+ * or email, or goes back to the sender once the claim window passes.
+ */
+@Injectable()
+export class WalletTransferService {
+  private readonly logger = new Logger(WalletTransferService.name);
+
+  constructor(
+    @InjectRepository(WalletTransfer)
+    private readonly walletTransferRepository: Repository<WalletTransfer>,
+    @InjectRepository(Wallet)
+    private readonly walletRepository: Repository<Wallet>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly otpService: OTPService,
+    private readonly ledgerService: LedgerService,
+    private readonly inAppNotificationService: InAppNotificationService,
+    private readonly emailNotificationService: EmailNotificationService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Start a transfer and send the sender a confirmation code. Nothing moves
+   * until confirmTransfer is called with that code.
+   */
+  async createTransfer(
+    senderId: string,
+    dto: CreateWalletTransferDto,
+  ): Promise<WalletTransferResponseDto> {
+    const sender = await this.userRepository.findOne({
+      where: { id: senderId },
+    });
+    if (!sender) {
+      throw new NotFoundException('User not found');
+    }
+
+    const wallet = await this.walletRepository.findOne({
+      where: { user_id: senderId },
+    });
+    if (!wallet || !wallet.is_active) {
+      throw new BadRequestException('Wallet is not active');
+    }
+
+    const amount = roundMoney(Number(dto.amount));
+    if (!wallet.can_transact(amount)) {
+      throw new BadRequestException('Insufficient wallet balance');
+    }
+
+    const recipientPhone = dto.recipient_phone
+      ? PhoneValidator.normalize(dto.recipient_phone) || null
+      : null;
+    const recipientEmail = dto.recipient_email?.trim().toLowerCase() || null;
+    if (
+      (recipientPhone && recipientPhone === sender.phone_number) ||
+      (recipientEmail && recipientEmail === sender.email?.toLowerCase())
+    ) {
+      throw new BadRequestException('You cannot send credit to yourself');
+    }
+
+    const recipient = await this.findRecipient(recipientPhone, recipientEmail);
+    if (recipient?.id === senderId) {
+      throw new BadRequestException('You cannot send credit to yourself');
+    }
+
+    await this.assertWithinDailyLimits(
+      this.walletTransferRepository.manager,
+      senderId,
+      wallet.currency,
+      amount,
+    );
+
+    const transfer = await this.walletTransferRepository.save(
+      this.walletTransferRepository.create({
+        reference: `wt_${Date.now()}_${randomBytes(6).toString('hex')}`,
+        sender_id: senderId,
+        recipient_id: recipient?.id ?? null,
+        recipient_phone: recipientPhone,
+        recipient_email: recipientEmail,
+        amount,
+        currency: wallet.currency,
+        note: dto.note?.trim() || null,
+        status: WalletTransferStatus.PENDING_OTP,
+      }),
+    );
+
+    const { otpId, channel } = await this.sendOtp(sender, transfer);
+    transfer.otp_id = otpId;
+    transfer.otp_channel = channel;
+    await this.walletTransferRepository.save(transfer);
+
+    this.logger.log(
+      `Wallet transfer ${transfer.reference} of ${amount} ${wallet.currency} started by ${senderId}, code sent by ${channel}`,
+    );
+
+    return this.mapToResponse(transfer, senderId);
+  }
+
+  /**
+   * Check the code and move the money: straight into the recipient's wallet
+   * when they have an account, otherwise into held gift credit
+   */
+  async confirmTransfer(
+    senderId: string,
+    transferId: string,
+    dto: ConfirmWalletTransferDto,
+  ): Promise<WalletTransferResponseDto> {
+    const transfer = await this.walletTransferRepository.findOne({
+      where: { id: transferId, sender_id: senderId },
+    });
+    if (!transfer) {
+      throw new NotFoundException('Transfer not found');
+    }
+    if (transfer.status !== WalletTransferStatus.PENDING_OTP) {
+      throw new BadRequestException(
+        `Transfer is already ${transfer.status.toLowerCase()}`,
+      );
+    }
+
+    const sender = await this.userRepository.findOne({
+      where: { id: senderId },
+    });
+    await this.verifyOtp(sender, transfer, dto.otp_code);
+
+    // Look the recipient up again: they may have signed up or verified the
+    // contact since the transfer was started, or given it up
+    const recipient = await this.findRecipient(
+      transfer.recipient_phone,
+      transfer.recipient_email,
+    );
+    if (recipient) {
+      await this.ensureWallet(recipient, transfer.currency);
+    }
+
+    await this.walletTransferRepository.manager.transaction(async em => {
+      // A second confirm racing this one waits here and then stops
+      const pending = await em.findOne(WalletTransfer, {
+        where: { id: transfer.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (pending?.status !== WalletTransferStatus.PENDING_OTP) {
+        throw new BadRequestException('Transfer has already been confirmed');
+      }
+
+      // Lock both wallets in a fixed order so transfers crossing each other
+      // can't deadlock
+      const userIds = [senderId, recipient?.id].filter(Boolean);
+      const wallets = await em.find(Wallet, {
+        where: { user_id: In(userIds) },
+        order: { id: 'ASC' },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const senderWallet = wallets.find(w => w.user_id === senderId);
+
+      if (!senderWallet?.is_active) {
+        throw new BadRequestException('Wallet is not active');
+      }
+      if (senderWallet.currency !== transfer.currency) {
+        throw new BadRequestException(
+          'Your wallet currency has changed since this transfer was started',
+        );
+      }
+
+      await this.assertWithinDailyLimits(
+        em,
+        senderId,
+        transfer.currency,
+        Number(transfer.amount),
+      );
+
+      const balanceBefore = Number(senderWallet.balance);
+      if (!senderWallet.debit(Number(transfer.amount))) {
+        throw new BadRequestException('Insufficient wallet balance');
+      }
+      await em.save(senderWallet);
+      await em.save(
+        em.create(Transaction, {
+          wallet_id: senderWallet.id,
+          transaction_type: TransactionType.TRANSFER,
+          amount: Number(transfer.amount),
+          balance_before: balanceBefore,
+          balance_after: Number(senderWallet.balance),
+          description: recipient
+            ? `Sent to ${this.displayName(recipient)}`
+            : `Gift credit for ${this.recipientContact(transfer)}`,
+          reference_id: transfer.reference,
+          status: TransactionStatus.COMPLETED,
+          processed_at: new Date(),
+          currency: transfer.currency,
+          metadata: {
+            wallet_transfer_id: transfer.id,
+            direction: 'out',
+            recipient_id: recipient?.id ?? null,
+          },
+        }),
+      );
+
+      transfer.confirmed_at = new Date();
+
+      if (recipient) {
+        await this.creditWallet(
+          em,
+          wallets.find(w => w.user_id === recipient.id),
+          transfer,
+          `Received from ${this.displayName(sender)}`,
+          this.creditMetadata(transfer),
+        );
+        await this.ledgerService.recordWalletTransfer(
+          {
+            reference: transfer.reference,
+            currency: transfer.currency,
+            amount: Number(transfer.amount),
+            from_user_id: senderId,
+            to_user_id: recipient.id,
+            description: `Wallet transfer ${transfer.reference}`,
+          },
+          em,
+        );
+        transfer.recipient_id = recipient.id;
+        transfer.status = WalletTransferStatus.COMPLETED;
+      } else {
+        await this.ledgerService.recordWalletTransfer(
+          {
+            reference: transfer.reference,
+            currency: transfer.currency,
+            amount: Number(transfer.amount),
+            from_user_id: senderId,
+            description: `Gift credit ${
+              transfer.reference
+            } held for ${this.recipientContact(transfer)}`,
+          },
+          em,
+        );
+        transfer.recipient_id = null;
+        transfer.status = WalletTransferStatus.PENDING_CLAIM;
+        transfer.claim_expires_at = new Date(
+          Date.now() + this.giftClaimDays() * 24 * 60 * 60 * 1000,
+        );
+      }
+
+      await em.save(transfer);
+    });
+
+    this.logger.log(
+      `Wallet transfer ${transfer.reference} confirmed: ${transfer.status}`,
+    );
+
+    const amountText = this.formatAmount(transfer);
+    if (recipient) {
+      await this.notify(
+        senderId,
+        'Transfer sent',
+        `You sent ${amountText} to ${this.displayName(recipient)}.`,
+        transfer,
+      );
+      await this.notify(
+        recipient.id,
+        'You received wallet credit',
+        `${this.displayName(sender)} sent you ${amountText}${
+          transfer.note ? `: "${transfer.note}"` : '.'
+        }`,
+        transfer,
+      );
+    } else {
+      await this.notify(
+        senderId,
+        'Gift credit sent',
+        `${amountText} is waiting for ${this.recipientContact(
+          transfer,
+        )} to sign up. It comes back to you if it isn't claimed by ${transfer.claim_expires_at.toDateString()}.`,
+        transfer,
+      );
+    }
+
+    return this.mapToResponse(transfer, senderId);
+  }
+
+  /**
+   * Take money out of a customer's wallet into group order escrow, where
+   * they can no longer spend or send it
+   */
+  async holdFunds(hold: WalletFundsHold): Promise<void> {
+    if (hold.amount <= 0) {
+      return;
+    }
+
+    await this.walletTransferRepository.manager.transaction(async em => {
+      const wallet = await em.findOne(Wallet, {
+        where: { user_id: hold.user_id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!wallet?.is_active) {
+        throw new BadRequestException('Wallet is not active');
+      }
+      if (wallet.currency !== hold.currency) {
+        throw new BadRequestException(
+          `Wallet currency must be ${hold.currency} for this payment`,
+        );
+      }
+
+      const amount = roundMoney(hold.amount);
+      const balanceBefore = Number(wallet.balance);
+      if (!wallet.debit(amount)) {
+        throw new BadRequestException('Insufficient wallet balance');
+      }
+      await em.save(wallet);
+      await em.save(
+        em.create(Transaction, {
+          wallet_id: wallet.id,
+          transaction_type: TransactionType.TRANSFER,
+          amount,
+          balance_before: balanceBefore,
+          balance_after: Number(wallet.balance),
+          description: hold.description,
+          reference_id: hold.reference,
+          status: TransactionStatus.COMPLETED,
+          processed_at: new Date(),
+          currency: hold.currency,
+          metadata: { ...hold.metadata, direction: 'out' },
+        }),
+      );
+      await this.ledgerService.recordWalletTransfer(
+        {
+          reference: hold.reference,
+          currency: hold.currency,
+          amount,
+          from_user_id: hold.user_id,
+          held_account: LedgerAccountType.GROUP_ORDER_ESCROW,
+          description: hold.description,
+        },
+        em,
+      );
+    });
+
+    this.logger.log(
+      `Held ${hold.currency} ${hold.amount} from ${hold.user_id} (${hold.reference})`,
+    );
+  }
+
+  /**
+   * Pay money out of group order escrow back into the wallet of whoever
+   * paid it in
+   */
+  async releaseHeldFunds(hold: WalletFundsHold): Promise<void> {
+    if (hold.amount <= 0) {
+      return;
+    }
+
+    await this.walletTransferRepository.manager.transaction(async em => {
+      const wallet = await em.findOne(Wallet, {
+        where: { user_id: hold.user_id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!wallet?.is_active) {
+        throw new BadRequestException('Wallet is not active');
+      }
+
+      const amount = roundMoney(hold.amount);
+      await this.creditWallet(
+        em,
+        wallet,
+        { amount, currency: hold.currency, reference: hold.reference },
+        hold.description,
+        hold.metadata ?? {},
+      );
+      await this.ledgerService.recordWalletTransfer(
+        {
+          reference: hold.reference,
+          currency: hold.currency,
+          amount,
+          to_user_id: hold.user_id,
+          held_account: LedgerAccountType.GROUP_ORDER_ESCROW,
+          description: hold.description,
+        },
+        em,
+      );
+    });
+
+    this.logger.log(
+      `Released ${hold.currency} ${hold.amount} to ${hold.user_id} (${hold.reference})`,
+    );
+  }
+
+  async listTransfers(
+    userId: string,
+    query: WalletTransferQueryDto,
+  ): Promise<WalletTransferListResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const qb = this.walletTransferRepository
+      .createQueryBuilder('transfer')
+      .where(
+        new Brackets(where =>
+          where
+            .where('transfer.sender_id = :userId', { userId })
+            .orWhere('transfer.recipient_id = :userId', { userId }),
+        ),
+      )
+      .orderBy('transfer.created_at', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    if (query.status) {
+      qb.andWhere('transfer.status = :status', { status: query.status });
+    }
+
+    const [transfers, total] = await qb.getManyAndCount();
+
+    return {
+      transfers: transfers.map(transfer =>
+        this.mapToResponse(transfer, userId),
+      ),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async getLimits(userId: string): Promise<WalletTransferLimitsDto> {
+    const wallet = await this.walletRepository.findOne({
+      where: { user_id: userId },
+    });
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    const usage = await this.getDailyUsage(
+      this.walletTransferRepository.manager,
+      userId,
+      wallet.currency,
+    );
+    const dailyAmountLimit = this.dailyAmountLimit(wallet.currency);
+
+    return {
+      currency: wallet.currency,
+      daily_amount_limit: dailyAmountLimit,
+      daily_count_limit: this.dailyCountLimit(),
+      sent_today: usage.amount,
+      count_today: usage.count,
+      remaining_amount: Math.max(
+        roundMoney(dailyAmountLimit - usage.amount),
+        0,
+      ),
+    };
+  }
+
+  /**
+   * Credit any gift credit sent to the user's verified phone number or email
+   */
+  async claimGiftCredit(userId: string): Promise<ClaimGiftCreditResponseDto> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const contacts: FindOptionsWhere<WalletTransfer>[] = [];
+    if (user.phone_number && user.is_phone_verified) {
+      contacts.push({ recipient_phone: user.phone_number });
+    }
+    if (user.email && user.email_verified_at) {
+      contacts.push({ recipient_email: user.email.toLowerCase() });
+    }
+    if (contacts.length === 0) {
+      return { claimed: 0, transfers: [] };
+    }
+
+    const gifts = await this.walletTransferRepository.find({
+      where: contacts.map(contact => ({
+        ...contact,
+        status: WalletTransferStatus.PENDING_CLAIM,
+      })),
+      order: { created_at: 'ASC' },
+    });
+
+    const claimed: WalletTransfer[] = [];
+    for (const gift of gifts) {
+      if (gift.sender_id === userId) {
+        continue;
+      }
+
+      try {
+        if (await this.releaseGift(gift, user, WalletTransferStatus.CLAIMED)) {
+          claimed.push(gift);
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to claim gift credit ${gift.reference} for ${userId}: ${error.message}`,
+        );
+      }
+    }
+
+    for (const gift of claimed) {
+      const sender = await this.userRepository.findOne({
+        where: { id: gift.sender_id },
+      });
+      const amountText = this.formatAmount(gift);
+      await this.notify(
+        userId,
+        'You received gift credit',
+        `${this.displayName(sender)} sent you ${amountText}${
+          gift.note ? `: "${gift.note}"` : '.'
+        } It's in your wallet.`,
+        gift,
+      );
+      await this.notify(
+        gift.sender_id,
+        'Gift credit claimed',
+        `${this.displayName(user)} claimed the ${amountText} you sent.`,
+        gift,
+      );
+    }
+
+    return {
+      claimed: claimed.length,
+      transfers: claimed.map(gift => this.mapToResponse(gift, userId)),
+    };
+  }
+
+  @OnEvent(USER_EVENTS.CREATED, { async: true })
+  async handleUserCreated(event: UserCreatedEvent): Promise<void> {
+    await this.applyGiftCredit(event.user_id);
+  }
+
+  /**
+   * Gifts sent to an email address or phone number wait until the user has
+   * verified it, which can happen after the account was created
+   */
+  @OnEvent(USER_EVENTS.CONTACT_VERIFIED, { async: true })
+  async handleContactVerified(event: UserContactVerifiedEvent): Promise<void> {
+    await this.applyGiftCredit(event.user_id);
+  }
+
+  private async applyGiftCredit(userId: string): Promise<void> {
+    try {
+      const result = await this.claimGiftCredit(userId);
+      if (result.claimed > 0) {
+        this.logger.log(
+          `Applied ${result.claimed} gift credit(s) to user ${userId}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to apply gift credit for user ${userId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Send unclaimed gift credit back to the sender once the claim window
+   * has passed
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async returnExpiredGifts(): Promise<number> {
+    const expired = await this.walletTransferRepository.find({
+      where: {
+        status: WalletTransferStatus.PENDING_CLAIM,
+        claim_expires_at: LessThan(new Date()),
+      },
+      take: 100,
+    });
+
+    let returned = 0;
+    for (const gift of expired) {
+      try {
+        const sender = await this.userRepository.findOne({
+          where: { id: gift.sender_id },
+        });
+        if (
+          !sender ||
+          !(await this.releaseGift(gift, sender, WalletTransferStatus.RETURNED))
+        ) {
+          continue;
+        }
+        returned++;
+
+        await this.notify(
+          gift.sender_id,
+          'Gift credit returned',
+          `${this.formatAmount(gift)} you sent to ${this.recipientContact(
+            gift,
+          )} wasn't claimed and is back in your wallet.`,
+          gift,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to return gift credit ${gift.reference}: ${error.message}`,
+        );
+      }
+    }
+
+    if (returned > 0) {
+      this.logger.log(`Returned ${returned} unclaimed gift credit(s)`);
+    }
+    return returned;
+  }
+
+  /**
+   * Pay held gift credit out to `user`, either the recipient claiming it or
+   * the sender getting it back. Returns false when another claim or return
+   * got to it first.
+   */
+  private async releaseGift(
+    gift: WalletTransfer,
+    user: User,
+    status: WalletTransferStatus.CLAIMED | WalletTransferStatus.RETURNED,
+  ): Promise<boolean> {
+    await this.ensureWallet(user, gift.currency);
+
+    return this.walletTransferRepository.manager.transaction(async em => {
+      const now = new Date();
+      const claimed = status === WalletTransferStatus.CLAIMED;
+
+      const result = await em.update(
+        WalletTransfer,
+        { id: gift.id, status: WalletTransferStatus.PENDING_CLAIM },
+        claimed
+          ? { status, recipient_id: user.id, claimed_at: now }
+          : { status, returned_at: now },
+      );
+      if (!result.affected) {
+        return false;
+      }
+
+      const wallet = await em.findOne(Wallet, {
+        where: { user_id: user.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      await this.creditWallet(
+        em,
+        wallet,
+        gift,
+        claimed
+          ? 'Gift credit received'
+          : `Unclaimed gift credit for ${this.recipientContact(gift)} returned`,
+        this.creditMetadata(gift),
+      );
+      await this.ledgerService.recordWalletTransfer(
+        {
+          reference: `${gift.reference}:${claimed ? 'claim' : 'return'}`,
+          currency: gift.currency,
+          amount: Number(gift.amount),
+          to_user_id: user.id,
+          description: claimed
+            ? `Gift credit ${gift.reference} claimed`
+            : `Gift credit ${gift.reference} returned to sender`,
+        },
+        em,
+      );
+
+      Object.assign(
+        gift,
+        claimed
+          ? { status, recipient_id: user.id, claimed_at: now }
+          : { status, returned_at: now },
+      );
+      return true;
+    });
+  }
+
+  /**
+   * Credit a transfer to a locked wallet. Money in another currency than the
+   * wallet's is kept as a separate balance rather than converted.
+   */
+  private async creditWallet(
+    em: EntityManager,
+    wallet: Wallet,
+    credit: { amount: number; currency: Currency; reference: string },
+    description: string,
+    metadata: Record<string, any>,
+  ): Promise<void> {
+    const amount = Number(credit.amount);
+    let target: Wallet | WalletBalance = wallet;
+
+    if (credit.currency !== wallet.currency) {
+      target =
+        (await em.findOne(WalletBalance, {
+          where: { wallet_id: wallet.id, currency: credit.currency },
+          lock: { mode: 'pessimistic_write' },
+        })) ||
+        em.create(WalletBalance, {
+          wallet_id: wallet.id,
+          currency: credit.currency,
+          balance: 0,
+        });
+    }
+
+    const balanceBefore = Number(target.balance);
+    target.credit(amount);
+    wallet.last_transaction_at = new Date();
+    if (target !== wallet) {
+      await em.save(target);
+    }
+    await em.save(wallet);
+
+    await em.save(
+      em.create(Transaction, {
+        wallet_id: wallet.id,
+        transaction_type: TransactionType.TRANSFER,
+        amount,
+        balance_before: balanceBefore,
+        balance_after: Number(target.balance),
+        description,
+        reference_id: credit.reference,
+        status: TransactionStatus.COMPLETED,
+        processed_at: new Date(),
+        currency: credit.currency,
+        metadata: { ...metadata, direction: 'in' },
+      }),
+    );
+  }
+
+  private creditMetadata(transfer: WalletTransfer): Record<string, any> {
+    return {
+      wallet_transfer_id: transfer.id,
+      sender_id: transfer.sender_id,
+      note: transfer.note,
+    };
+  }
+
+  /**
+   * Wallets are usually created at sign up or profile completion; a
+   * recipient may not have reached that yet
+   */
+  private async ensureWallet(user: User, currency: Currency): Promise<void> {
+    await this.walletRepository
+      .createQueryBuilder()
+      .insert()
+      .into(Wallet)
+      .values({
+        user_id: user.id,
+        balance: 0,
+        currency: user.country ? getCurrencyForCountry(user.country) : currency,
+        is_active: true,
+      })
+      .orIgnore()
+      .execute();
+  }
+
+  /**
+   * The account that has verified the contact. Anyone can put an unverified
+   * number or email on their profile, so money for one is held as gift
+   * credit until its owner verifies it, the same rule claimGiftCredit uses.
+   */
+  private async findRecipient(
+    phone: string | null,
+    email: string | null,
+  ): Promise<User | null> {
+    if (phone) {
+      return this.userRepository.findOne({
+        where: { phone_number: phone, is_phone_verified: true },
+      });
+    }
+    if (email) {
+      return this.userRepository
+        .createQueryBuilder('user')
+        .where('LOWER(user.email) = :email', { email })
+        .andWhere('user.email_verified_at IS NOT NULL')
+        .getOne();
+    }
+    return null;
+  }
+
+  private async assertWithinDailyLimits(
+    em: EntityManager,
+    senderId: string,
+    currency: Currency,
+    amount: number,
+  ): Promise<void> {
+    const usage = await this.getDailyUsage(em, senderId, currency);
+    const amountLimit = this.dailyAmountLimit(currency);
+    const countLimit = this.dailyCountLimit();
+
+    if (usage.count >= countLimit) {
+      throw new BadRequestException(
+        `You can send at most ${countLimit} transfers a day`,
+      );
+    }
+    if (roundMoney(usage.amount + amount) > amountLimit) {
+      throw new BadRequestException(
+        `This transfer would take you over your daily limit of ${amountLimit} ${currency}. You can send ${Math.max(
+          roundMoney(amountLimit - usage.amount),
+          0,
+        )} ${currency} more today.`,
+      );
+    }
+  }
+
+  private async getDailyUsage(
+    em: EntityManager,
+    senderId: string,
+    currency: Currency,
+  ): Promise<{ amount: number; count: number }> {
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    const row = await em
+      .createQueryBuilder(WalletTransfer, 'transfer')
+      .select('COALESCE(SUM(transfer.amount), 0)', 'amount')
+      .addSelect('COUNT(*)', 'count')
+      .where('transfer.sender_id = :senderId', { senderId })
+      .andWhere('transfer.currency = :currency', { currency })
+      .andWhere('transfer.status IN (:...statuses)', {
+        statuses: SENT_STATUSES,
+      })
+      .andWhere('transfer.confirmed_at >= :startOfDay', { startOfDay })
+      .getRawOne();
+
+    return {
+      amount: roundMoney(parseFloat(row?.amount) || 0),
+      count: parseInt(row?.count, 10) || 0,
+    };
+  }
+
+  private async sendOtp(
+    sender: User,
+    transfer: WalletTransfer,
+  ): Promise<{ otpId: string; channel: WalletTransferOtpChannel }> {
+    try {
+      if (sender.phone_number && sender.is_phone_verified) {
+        const { otpId } = await this.otpService.generateOTP(
+          sender.phone_number,
+        );
+        return { otpId, channel: WalletTransferOtpChannel.SMS };
+      }
+
+      const { otpId, otpCode } = await this.otpService.generateEmailOTP(
+        sender.email,
+        'wallet_transfer',
+      );
+      const amountText = this.formatAmount(transfer);
+      const to = this.recipientContact(transfer);
+      await this.emailNotificationService.sendEmail({
+        to: sender.email,
+        subject: 'Confirm your wallet transfer - Rambini',
+        html: `<p>You are sending <strong>${amountText}</strong> to ${to}.</p><p>Your confirmation code is <strong>${otpCode}</strong>. It expires in 10 minutes.</p><p>If you didn't start this transfer, don't share this code and change your password.</p>`,
+        text: `You are sending ${amountText} to ${to}.\n\nYour confirmation code is: ${otpCode}\n\nIt expires in 10 minutes. If you didn't start this transfer, don't share this code and change your password.`,
+      });
+      return { otpId, channel: WalletTransferOtpChannel.EMAIL };
+    } catch (error) {
+      this.logger.error(
+        `Failed to send transfer code for ${transfer.reference}: ${error.message}`,
+      );
+      throw new ServiceUnavailableException(
+        'Could not send your confirmation code. Please try again.',
+      );
+    }
+  }
+
+  private async verifyOtp(
+    sender: User,
+    transfer: WalletTransfer,
+    otpCode: string,
+  ): Promise<void> {
+    if (!transfer.otp_id) {
+      throw new BadRequestException('No confirmation code was sent');
+    }
+
+    // The code must have gone to this sender's own phone or email
+    let validation: { isValid: boolean; error?: string };
+    let sentTo: string | undefined;
+    if (transfer.otp_channel === WalletTransferOtpChannel.SMS) {
+      const result = await this.otpService.validateOTP(
+        transfer.otp_id,
+        otpCode,
+      );
+      validation = result;
+      sentTo = result.phoneNumber;
+    } else {
+      const result = await this.otpService.validateEmailOTP(
+        transfer.otp_id,
+        otpCode,
+        'wallet_transfer',
+      );
+      validation = result;
+      sentTo = result.email;
+    }
+
+    if (!validation.isValid) {
+      throw new BadRequestException(
+        validation.error || 'Invalid confirmation code',
+      );
+    }
+    if (sentTo !== sender.phone_number && sentTo !== sender.email) {
+      throw new BadRequestException('Invalid confirmation code');
+    }
+  }
+
+  private async notify(
+    userId: string,
+    title: string,
+    message: string,
+    transfer: WalletTransfer,
+  ): Promise<void> {
+    try {
+      await this.inAppNotificationService.createInAppNotification(
+        userId,
+        NotificationType.WALLET_UPDATE,
+        title,
+        message,
+        {
+          data: {
+            wallet_transfer_id: transfer.id,
+            reference: transfer.reference,
+            amount: Number(transfer.amount),
+            currency: transfer.currency,
+            status: transfer.status,
+          },
+          priority: NotificationPriority.HIGH,
+          category: 'wallet_transfer',
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify ${userId} about transfer ${transfer.reference}: ${error.message}`,
+      );
+    }
+  }
+
+  private displayName(user: User | null): string {
+    if (!user) {
+      return 'Someone';
+    }
+    const name = [user.first_name, user.last_name].filter(Boolean).join(' ');
+    return name || user.phone_number || user.email;
+  }
+
+  private recipientContact(transfer: WalletTransfer): string {
+    return transfer.recipient_phone || transfer.recipient_email;
+  }
+
+  private formatAmount(transfer: WalletTransfer): string {
+    return `${Number(transfer.amount).toFixed(2)} ${transfer.currency}`;
+  }
+
+  private dailyAmountLimit(currency: Currency): number {
+    return Number(
+      this.configService.get<number>(
+        `walletTransfers.dailyAmountLimits.${currency}`,
+        0,
+      ),
+    );
+  }
+
+  private dailyCountLimit(): number {
+    return this.configService.get<number>(
+      'walletTransfers.dailyCountLimit',
+      10,
+    );
+  }
+
+  private giftClaimDays(): number {
+    return this.configService.get<number>('walletTransfers.giftClaimDays', 30);
+  }
+
+  private mapToResponse(
+    transfer: WalletTransfer,
+    viewerId: string,
+  ): WalletTransferResponseDto {
+    return {
+      id: transfer.id,
+      reference: transfer.reference,
+      direction: transfer.sender_id === viewerId ? 'SENT' : 'RECEIVED',
+      sender_id: transfer.sender_id,
+      recipient_id: transfer.recipient_id ?? null,
+      recipient_phone: transfer.recipient_phone ?? null,
+      recipient_email: transfer.recipient_email ?? null,
+      amount: Number(transfer.amount),
+      currency: transfer.currency,
+      note: transfer.note ?? null,
+      status: transfer.status,
+      otp_channel: transfer.otp_channel ?? null,
+      claim_expires_at: transfer.claim_expires_at ?? null,
+      confirmed_at: transfer.confirmed_at ?? null,
+      claimed_at: transfer.claimed_at ?? null,
+      returned_at: transfer.returned_at ?? null,
+      created_at: transfer.created_at,
+    };
+  }
+}
@@ -1,7 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { Withdrawal, WithdrawalStatus, User } from '../../../../entities';
+import { Withdrawal, WithdrawalStatus, User, LedgerAccountType } from '../../../../entities';
+import { LedgerService } from '../../../ledger/services/ledger.service';
 
 export interface FixResult {
   total_completed_withdrawals: number;
@@ -31,8 +32,24 @@ export class FixCompletedWithdrawalsService {
     private readonly withdrawalRepository: Repository<Withdrawal>,
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
+    private readonly ledgerService: LedgerService,
   ) {}
 
+  /**
+   * The withdrawal was paid without ever leaving the vendor balance, so the
+   * catch-up debit is a correction rather than a payout
+   */
+  private async postWithdrawalDebitToLedger(withdrawal: Withdrawal): Promise<void> {
+    await this.ledgerService.recordAdjustment({
+      account: LedgerAccountType.VENDOR_PAYABLE,
+      user_id: withdrawal.user_id,
+      currency: withdrawal.currency,
+      amount: -withdrawal.amount,
+      description: `Missed debit for completed withdrawal ${withdrawal.id}`,
+      reference: `withdrawal_debit_fix:${withdrawal.id}`,
+    });
+  }
+
   /**
    * DRY RUN - Analyze what needs to be fixed without making changes
    * Now checks wallet_debited_at field to identify already-fixed withdrawals
@@ -315,6 +332,7 @@ export class FixCompletedWithdrawalsService {
             // Debit the wallet
             user.wallet.vendor_balance -= amountToDeduct;
             totalDeducted += amountToDeduct;
+            await this.postWithdrawalDebitToLedger(withdrawal);
 
             // NEW: Mark withdrawal with timestamp when wallet was debited
             // @ts-ignore
@@ -468,6 +486,7 @@ export class FixCompletedWithdrawalsService {
 
         user.wallet.vendor_balance -= withdrawal.amount;
         result.total_amount_to_deduct += withdrawal.amount;
+        await this.postWithdrawalDebitToLedger(withdrawal);
 
         // NEW: Mark with timestamp
         // @ts-ignore
@@ -7,4 +7,5 @@ export { WithdrawalService } from './withdrawal.service';
 export { WithdrawalOtpService } from './withdrawal-otp.service';
 export { WithdrawalAdminService } from './withdrawal-admin.service';
 export { WithdrawalBankService } from './withdrawal-bank.service';
-export { OTPData } from './withdrawal-otp.service';
\ No newline at end of file
+export { OTPData } from './withdrawal-otp.service';
+export { WithdrawalPayoutService } from './withdrawal-payout.service';
@@ -5,15 +5,20 @@ import {
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EntityManager, Repository } from 'typeorm';
 import {
   Withdrawal,
   WithdrawalStatus,
   User,
+  Wallet,
+  Transaction,
+  TransactionType,
+  TransactionStatus,
 } from '../../../../entities';
 import { WithdrawalRepository } from '../../repositories/withdrawal.repository';
 import { WithdrawalEmailNotificationService } from '../../../notification/services/withdrawal-email-notification.service';
 import { AdminWithdrawalActionDto, WithdrawalResponseDto } from '../../dto';
+import { LedgerService } from '../../../ledger/services/ledger.service';
 
 @Injectable()
 export class WithdrawalAdminService {
@@ -24,6 +29,7 @@ export class WithdrawalAdminService {
     private readonly userRepository: Repository<User>,
     private readonly withdrawalRepo: WithdrawalRepository,
     private readonly withdrawalEmailService: WithdrawalEmailNotificationService,
+    private readonly ledgerService: LedgerService,
   ) {}
 
   /**
@@ -50,6 +56,7 @@ export class WithdrawalAdminService {
       totalCompleted,
       totalRejected,
       totalFailed,
+      totalReviewRequired,
       totalAmountCompleted,
       totalAmountPending,
       totalAmountProcessing,
@@ -59,6 +66,7 @@ export class WithdrawalAdminService {
       this.withdrawalRepo.countByStatus(WithdrawalStatus.COMPLETED),
       this.withdrawalRepo.countByStatus(WithdrawalStatus.REJECTED),
       this.withdrawalRepo.countByStatus(WithdrawalStatus.FAILED),
+      this.withdrawalRepo.countByStatus(WithdrawalStatus.REVIEW_REQUIRED),
       this.withdrawalRepo.getTotalWithdrawnByStatus(
         WithdrawalStatus.COMPLETED,
       ),
@@ -74,6 +82,7 @@ export class WithdrawalAdminService {
       completed: totalCompleted,
       rejected: totalRejected,
       failed: totalFailed,
+      review_required: totalReviewRequired,
       total_amount_completed: totalAmountCompleted,
       total_amount_pending: totalAmountPending,
       total_amount_processing: totalAmountProcessing,
@@ -82,7 +91,8 @@ export class WithdrawalAdminService {
         totalProcessing +
         totalCompleted +
         totalRejected +
-        totalFailed,
+        totalFailed +
+        totalReviewRequired,
     };
   }
 
@@ -115,36 +125,35 @@ export class WithdrawalAdminService {
       `[WITHDRAWAL COMPLETE] Admin ${adminId} completing withdrawal ${withdrawalId}`,
     );
 
-    const withdrawal = await this.withdrawalRepo.findById(withdrawalId);
-    if (!withdrawal) {
-      throw new NotFoundException('Withdrawal not found');
-    }
+    // Status change and ledger entry commit together
+    await this.userRepository.manager.transaction(async em => {
+      const withdrawal = await this.lockOpenWithdrawal(withdrawalId, em);
 
-    if (withdrawal.is_final_status) {
-      throw new BadRequestException('Withdrawal is already in final status');
-    }
+      this.logger.log(
+        `[WITHDRAWAL COMPLETE] Current status: ${withdrawal.status}`,
+      );
 
-    this.logger.log(
-      `[WITHDRAWAL COMPLETE] Current status: ${withdrawal.status}`,
-    );
+      // Money was already debited when request was created
+      this.logger.log(
+        `[WITHDRAWAL COMPLETE] Money already debited during request. No wallet change needed.`,
+      );
 
-    // Money was already debited when request was created
-    this.logger.log(
-      `[WITHDRAWAL COMPLETE] Money already debited during request. No wallet change needed.`,
-    );
+      // Update withdrawal status
+      await this.withdrawalRepo.updateStatus(
+        withdrawalId,
+        WithdrawalStatus.COMPLETED,
+        adminId,
+        actionData.notes,
+        actionData.transaction_reference,
+        em,
+      );
 
-    // Update withdrawal status
-    await this.withdrawalRepo.updateStatus(
-      withdrawalId,
-      WithdrawalStatus.COMPLETED,
-      adminId,
-      actionData.notes,
-      actionData.transaction_reference,
-    );
+      this.logger.log(
+        `[WITHDRAWAL COMPLETE] ✓ Status updated to COMPLETED`,
+      );
 
-    this.logger.log(
-      `[WITHDRAWAL COMPLETE] ✓ Status updated to COMPLETED`,
-    );
+      await this.ledgerService.recordWithdrawalPaid(withdrawal, em);
+    });
 
     // Get updated withdrawal and user
     const updatedWithdrawal = await this.withdrawalRepo.findById(withdrawalId);
@@ -189,33 +198,31 @@ export class WithdrawalAdminService {
       `[WITHDRAWAL FAILED] Admin ${adminId} marking withdrawal ${withdrawalId} as failed`,
     );
 
-    const withdrawal = await this.withdrawalRepo.findById(withdrawalId);
-    if (!withdrawal) {
-      throw new NotFoundException('Withdrawal not found');
-    }
-
-    if (withdrawal.is_final_status) {
-      throw new BadRequestException('Withdrawal is already in final status');
-    }
-
-    this.logger.log(
-      `[WITHDRAWAL FAILED] Current status: ${withdrawal.status}, Amount: ${withdrawal.amount}`,
-    );
+    // Refund, status change and ledger entry commit together
+    await this.userRepository.manager.transaction(async em => {
+      const withdrawal = await this.lockOpenWithdrawal(withdrawalId, em);
 
-    // Refund the money back to vendor's wallet
-    await this.refundWithdrawal(withdrawal);
+      this.logger.log(
+        `[WITHDRAWAL FAILED] Current status: ${withdrawal.status}, Amount: ${withdrawal.amount}`,
+      );
 
-    // Update withdrawal status
-    await this.withdrawalRepo.updateStatus(
-      withdrawalId,
-      WithdrawalStatus.FAILED,
-      adminId,
-      actionData.notes,
-    );
+      // Refund the money back to vendor's wallet
+      await this.refundWithdrawal(withdrawal, em);
+
+      // Update withdrawal status
+      await this.withdrawalRepo.updateStatus(
+        withdrawalId,
+        WithdrawalStatus.FAILED,
+        adminId,
+        actionData.notes,
+        undefined,
+        em,
+      );
 
-    this.logger.log(
-      `[WITHDRAWAL FAILED] ✓ Status updated to FAILED`,
-    );
+      this.logger.log(
+        `[WITHDRAWAL FAILED] ✓ Status updated to FAILED`,
+      );
+    });
 
     // Get updated withdrawal
     const updatedWithdrawal = await this.withdrawalRepo.findById(withdrawalId);
@@ -260,33 +267,31 @@ export class WithdrawalAdminService {
       `[WITHDRAWAL REJECTED] Admin ${adminId} rejecting withdrawal ${withdrawalId}`,
     );
 
-    const withdrawal = await this.withdrawalRepo.findById(withdrawalId);
-    if (!withdrawal) {
-      throw new NotFoundException('Withdrawal not found');
-    }
-
-    if (withdrawal.is_final_status) {
-      throw new BadRequestException('Withdrawal is already in final status');
-    }
-
-    this.logger.log(
-      `[WITHDRAWAL REJECTED] Current status: ${withdrawal.status}, Amount: ${withdrawal.amount}`,
-    );
+    // Refund, status change and ledger entry commit together
+    await this.userRepository.manager.transaction(async em => {
+      const withdrawal = await this.lockOpenWithdrawal(withdrawalId, em);
 
-    // Refund the money back to vendor's wallet
-    await this.refundWithdrawal(withdrawal);
+      this.logger.log(
+        `[WITHDRAWAL REJECTED] Current status: ${withdrawal.status}, Amount: ${withdrawal.amount}`,
+      );
 
-    // Update withdrawal status
-    await this.withdrawalRepo.updateStatus(
-      withdrawalId,
-      WithdrawalStatus.REJECTED,
-      adminId,
-      actionData.notes,
-    );
+      // Refund the money back to vendor's wallet
+      await this.refundWithdrawal(withdrawal, em);
+
+      // Update withdrawal status
+      await this.withdrawalRepo.updateStatus(
+        withdrawalId,
+        WithdrawalStatus.REJECTED,
+        adminId,
+        actionData.notes,
+        undefined,
+        em,
+      );
 
-    this.logger.log(
-      `[WITHDRAWAL REJECTED] ✓ Status updated to REJECTED`,
-    );
+      this.logger.log(
+        `[WITHDRAWAL REJECTED] ✓ Status updated to REJECTED`,
+      );
+    });
 
     // Get updated withdrawal
     const updatedWithdrawal = await this.withdrawalRepo.findById(withdrawalId);
@@ -316,34 +321,79 @@ export class WithdrawalAdminService {
     return updatedWithdrawal;
   }
 
+  /**
+   * Private helper: Lock a withdrawal that can still change status
+   */
+  private async lockOpenWithdrawal(
+    withdrawalId: string,
+    em: EntityManager,
+  ): Promise<Withdrawal> {
+    const withdrawal = await em.findOne(Withdrawal, {
+      where: { id: withdrawalId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!withdrawal) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+
+    if (withdrawal.is_final_status) {
+      throw new BadRequestException('Withdrawal is already in final status');
+    }
+
+    return withdrawal;
+  }
+
   /**
    * Private helper: Refund withdrawal to user's wallet
    */
-  private async refundWithdrawal(withdrawal: Withdrawal): Promise<void> {
+  private async refundWithdrawal(
+    withdrawal: Withdrawal,
+    em: EntityManager,
+  ): Promise<void> {
     this.logger.log(
       `[REFUND] Attempting to refund ${withdrawal.amount} back to user ${withdrawal.user_id}`,
     );
 
     try {
-      // Get user with wallet
-      const user = await this.userRepository.findOne({
-        where: { id: withdrawal.user_id },
-        relations: ['wallet'],
+      const wallet = await em.findOne(Wallet, {
+        where: { user_id: withdrawal.user_id },
+        lock: { mode: 'pessimistic_write' },
       });
 
-      if (!user || !user.wallet) {
+      if (!wallet) {
         throw new BadRequestException('User or wallet not found');
       }
 
       // Credit vendor wallet
-      user.wallet.creditVendor(withdrawal.amount);
-      await this.userRepository.manager.save(user.wallet);
+      const balanceBefore = Number(wallet.vendor_balance);
+      wallet.creditVendor(withdrawal.amount);
+      await em.save(wallet);
+
+      await em.save(
+        em.create(Transaction, {
+          wallet_id: wallet.id,
+          transaction_type: TransactionType.REFUND,
+          amount: Number(withdrawal.amount),
+          balance_before: balanceBefore,
+          balance_after: Number(wallet.vendor_balance),
+          description: `Withdrawal ${withdrawal.id} returned`,
+          reference_id: `withdrawal_${withdrawal.id}_refund`,
+          status: TransactionStatus.COMPLETED,
+          processed_at: new Date(),
+          metadata: {
+            withdrawal_id: withdrawal.id,
+            balance_type: 'vendor_balance',
+          },
+        }),
+      );
+
+      await this.ledgerService.recordWithdrawalReturned(withdrawal, em);
 
       this.logger.log(
         `[REFUND] ✓ Successfully refunded ${withdrawal.amount} to user ${withdrawal.user_id}`,
       );
       this.logger.log(
-        `[REFUND] New vendor balance: ${user.wallet.vendor_balance}`,
+        `[REFUND] New vendor balance: ${wallet.vendor_balance}`,
       );
     } catch (error) {
       this.logger.error(
@@ -352,4 +402,4 @@ export class WithdrawalAdminService {
       throw new BadRequestException(`Failed to refund money: ${error.message}`);
     }
   }
-}
\ No newline at end of file
+}
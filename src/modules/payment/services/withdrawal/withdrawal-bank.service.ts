@@ -52,6 +52,8 @@ export class WithdrawalBankService {
       name: bankData.name,
       bank_name: bankData.bank_name,
       account_number: bankData.account_number,
+      bank_code: bankData.bank_code,
+      stripe_connect_account_id: bankData.stripe_connect_account_id,
     });
 
     this.logger.log(`Bank created: ${bank.id} for user ${userId}`);
@@ -121,7 +123,17 @@ export class WithdrawalBankService {
       }
     }
 
-    const updatedBank = await this.bankRepo.update(bankId, bankData);
+    // A changed account invalidates the Paystack transfer recipient
+    const bankUpdates: Partial<Bank> = { ...bankData };
+    if (
+      (bankData.account_number &&
+        bankData.account_number !== existingBank.account_number) ||
+      (bankData.bank_code && bankData.bank_code !== existingBank.bank_code)
+    ) {
+      bankUpdates.paystack_recipient_code = null;
+    }
+
+    const updatedBank = await this.bankRepo.update(bankId, bankUpdates);
     this.logger.log(`Bank updated: ${bankId} for user ${userId}`);
     return updatedBank;
   }
@@ -158,6 +170,7 @@ export class WithdrawalBankService {
       user_id: bank.user_id,
       name: bank.name,
       bank_name: bank.bank_name,
+      bank_code: bank.bank_code,
       account_number: bank.masked_account_number,
       display_name: bank.display_name,
       created_at: bank.created_at,
@@ -0,0 +1,336 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import {
+  Bank,
+  Currency,
+  PayoutProvider,
+  Withdrawal,
+  WithdrawalStatus,
+} from 'src/entities';
+import {
+  PAYSTACK_PAYOUT_PROVIDER,
+  STRIPE_PAYOUT_PROVIDER,
+} from '../../interfaces/payout-provider.interface';
+import { BankRepository } from '../../repositories/bank.repository';
+import { WithdrawalRepository } from '../../repositories/withdrawal.repository';
+import { LocalPayoutProvider } from '../payout/local-payout.provider';
+import { WithdrawalAdminService } from './withdrawal-admin.service';
+import { WithdrawalPayoutService } from './withdrawal-payout.service';
+
+const WEBHOOK_SECRET = 'local-payout-secret';
+
+/**
+ * Withdrawals and banks live in memory. Lookups return copies, the way rows
+ * come back from the database.
+ */
+class InMemoryWithdrawalRepository {
+  readonly rows = new Map<string, Withdrawal>();
+
+  async findById(id: string): Promise<Withdrawal | null> {
+    const row = this.rows.get(id);
+    return row ? Object.assign(new Withdrawal(), row) : null;
+  }
+
+  async findByPayoutReference(reference: string): Promise<Withdrawal | null> {
+    const row = [...this.rows.values()].find(
+      w => w.payout_reference === reference,
+    );
+    return row ? this.findById(row.id) : null;
+  }
+
+  async findUnsettledPayouts(initiatedBefore: Date): Promise<Withdrawal[]> {
+    return [...this.rows.values()]
+      .filter(
+        w =>
+          w.status === WithdrawalStatus.PROCESSING &&
+          w.payout_reference &&
+          w.payout_initiated_at < initiatedBefore,
+      )
+      .map(w => Object.assign(new Withdrawal(), w));
+  }
+
+  async claimForPayout(
+    id: string,
+    payoutData: Partial<Withdrawal>,
+  ): Promise<boolean> {
+    const row = this.rows.get(id);
+    if (row.status !== WithdrawalStatus.PROCESSING || row.payout_reference) {
+      return false;
+    }
+    Object.assign(row, payoutData);
+    return true;
+  }
+
+  async update(
+    id: string,
+    updateData: Partial<Withdrawal>,
+  ): Promise<Withdrawal | null> {
+    Object.assign(this.rows.get(id), updateData);
+    return this.findById(id);
+  }
+}
+
+class InMemoryBankRepository {
+  readonly rows: Bank[] = [];
+
+  async findByAccountNumber(
+    userId: string,
+    accountNumber: string,
+  ): Promise<Bank | null> {
+    return (
+      this.rows.find(
+        b => b.user_id === userId && b.account_number === accountNumber,
+      ) || null
+    );
+  }
+
+  async update(id: string, bankData: Partial<Bank>): Promise<Bank | null> {
+    const bank = this.rows.find(b => b.id === id);
+    return Object.assign(bank, bankData);
+  }
+}
+
+/**
+ * Mirrors the final-status guard of WithdrawalAdminService and counts the
+ * wallet refunds it would make
+ */
+class RecordingAdminService {
+  readonly refunds: string[] = [];
+
+  constructor(private readonly withdrawals: InMemoryWithdrawalRepository) {}
+
+  async markWithdrawalAsDone(id: string): Promise<Withdrawal> {
+    await this.assertNotFinal(id);
+    return this.withdrawals.update(id, { status: WithdrawalStatus.COMPLETED });
+  }
+
+  async markWithdrawalAsFailed(id: string): Promise<Withdrawal> {
+    await this.assertNotFinal(id);
+    this.refunds.push(id);
+    return this.withdrawals.update(id, { status: WithdrawalStatus.FAILED });
+  }
+
+  private async assertNotFinal(id: string): Promise<void> {
+    const withdrawal = await this.withdrawals.findById(id);
+    if (withdrawal.is_final_status) {
+      throw new BadRequestException('Withdrawal is already in final status');
+    }
+  }
+}
+
+describe.each([
+  { provider: PayoutProvider.PAYSTACK, currency: Currency.NGN },
+  { provider: PayoutProvider.STRIPE, currency: Currency.USD },
+])('WithdrawalPayoutService with $provider', ({ provider, currency }) => {
+  let service: WithdrawalPayoutService;
+  let withdrawals: InMemoryWithdrawalRepository;
+  let banks: InMemoryBankRepository;
+  let adminService: RecordingAdminService;
+  let payoutProvider: LocalPayoutProvider;
+
+  beforeEach(async () => {
+    withdrawals = new InMemoryWithdrawalRepository();
+    banks = new InMemoryBankRepository();
+    adminService = new RecordingAdminService(withdrawals);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        WithdrawalPayoutService,
+        { provide: WithdrawalRepository, useValue: withdrawals },
+        { provide: BankRepository, useValue: banks },
+        { provide: WithdrawalAdminService, useValue: adminService },
+        {
+          provide: PAYSTACK_PAYOUT_PROVIDER,
+          useValue: new LocalPayoutProvider(
+            PayoutProvider.PAYSTACK,
+            [Currency.NGN],
+            WEBHOOK_SECRET,
+          ),
+        },
+        {
+          provide: STRIPE_PAYOUT_PROVIDER,
+          useValue: new LocalPayoutProvider(
+            PayoutProvider.STRIPE,
+            [Currency.USD, Currency.GBP, Currency.EUR],
+            WEBHOOK_SECRET,
+          ),
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(WithdrawalPayoutService);
+    payoutProvider = moduleRef.get(
+      provider === PayoutProvider.PAYSTACK
+        ? PAYSTACK_PAYOUT_PROVIDER
+        : STRIPE_PAYOUT_PROVIDER,
+    );
+  });
+
+  const createWithdrawal = (accountNumber = '0123456789'): Withdrawal => {
+    const withdrawal = Object.assign(new Withdrawal(), {
+      id: `wd_${withdrawals.rows.size + 1}`,
+      user_id: 'vendor_1',
+      amount: 10000,
+      fee: 100,
+      currency,
+      status: WithdrawalStatus.PROCESSING,
+      account_number: accountNumber,
+      account_name: 'Ada Vendor',
+      bank_name: 'Test Bank',
+    });
+    withdrawals.rows.set(withdrawal.id, withdrawal);
+    banks.rows.push(
+      Object.assign(new Bank(), {
+        id: `bank_${withdrawal.id}`,
+        user_id: withdrawal.user_id,
+        account_number: accountNumber,
+        bank_name: 'Test Bank',
+      }),
+    );
+    return withdrawal;
+  };
+
+  const deliverWebhook = async (
+    reference: string,
+    status: 'completed' | 'failed',
+  ) => {
+    const result = await service.verifyWebhook(
+      provider,
+      { reference, status, reason: 'Account closed' },
+      WEBHOOK_SECRET,
+    );
+    await service.applyWebhookResult(provider, result);
+  };
+
+  it('leaves the withdrawal processing until the payout webhook arrives', async () => {
+    const { id } = createWithdrawal();
+
+    const pending = await service.initiatePayout(id);
+
+    expect(pending.status).toBe(WithdrawalStatus.PROCESSING);
+    expect(pending.payout_provider).toBe(provider);
+    expect(pending.payout_reference).toBeTruthy();
+    expect(pending.payout_transfer_id).toBeTruthy();
+  });
+
+  it('sends only one payout when two initiations race', async () => {
+    const { id } = createWithdrawal();
+    const initiate = jest.spyOn(payoutProvider, 'initiatePayout');
+
+    const results = await Promise.allSettled([
+      service.initiatePayout(id),
+      service.initiatePayout(id),
+    ]);
+
+    expect(results.map(r => r.status).sort()).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    expect(initiate).toHaveBeenCalledTimes(1);
+  });
+
+  it('completes the withdrawal on a completed webhook', async () => {
+    const { id } = createWithdrawal();
+    const { payout_reference } = await service.initiatePayout(id);
+
+    await deliverWebhook(payout_reference, 'completed');
+
+    expect(withdrawals.rows.get(id).status).toBe(WithdrawalStatus.COMPLETED);
+    expect(adminService.refunds).toEqual([]);
+  });
+
+  it('fails and refunds the withdrawal once on a failed webhook', async () => {
+    const { id } = createWithdrawal();
+    const { payout_reference } = await service.initiatePayout(id);
+
+    await deliverWebhook(payout_reference, 'failed');
+
+    expect(withdrawals.rows.get(id).status).toBe(WithdrawalStatus.FAILED);
+    expect(adminService.refunds).toEqual([id]);
+  });
+
+  it('ignores a redelivered failed webhook', async () => {
+    const { id } = createWithdrawal();
+    const { payout_reference } = await service.initiatePayout(id);
+
+    await deliverWebhook(payout_reference, 'failed');
+    await deliverWebhook(payout_reference, 'failed');
+
+    expect(withdrawals.rows.get(id).status).toBe(WithdrawalStatus.FAILED);
+    expect(adminService.refunds).toEqual([id]);
+  });
+
+  it('ignores a redelivered completed webhook', async () => {
+    const { id } = createWithdrawal();
+    const { payout_reference } = await service.initiatePayout(id);
+
+    await deliverWebhook(payout_reference, 'completed');
+    await deliverWebhook(payout_reference, 'completed');
+
+    expect(withdrawals.rows.get(id).status).toBe(WithdrawalStatus.COMPLETED);
+    expect(adminService.refunds).toEqual([]);
+  });
+
+  it('holds a failed payout for review when its funds cannot be reversed', async () => {
+    const { id } = createWithdrawal('0123458888');
+    const { payout_reference } = await service.initiatePayout(id);
+
+    await deliverWebhook(payout_reference, 'failed');
+
+    expect(withdrawals.rows.get(id).status).toBe(
+      WithdrawalStatus.REVIEW_REQUIRED,
+    );
+    expect(adminService.refunds).toEqual([]);
+  });
+
+  it('refunds a payout the provider rejects at initiation', async () => {
+    const { id } = createWithdrawal('0123450000');
+
+    const failed = await service.initiatePayout(id);
+
+    expect(failed.status).toBe(WithdrawalStatus.FAILED);
+    expect(adminService.refunds).toEqual([id]);
+  });
+
+  it('keeps a payout with an unknown outcome pending without refunding', async () => {
+    const { id } = createWithdrawal('0123459999');
+
+    const pending = await service.initiatePayout(id);
+
+    expect(pending.status).toBe(WithdrawalStatus.PROCESSING);
+    expect(pending.payout_reference).toBeTruthy();
+    expect(adminService.refunds).toEqual([]);
+  });
+
+  it('settles a payout with an unknown outcome by looking it up', async () => {
+    const { id } = createWithdrawal('0123459999');
+    const pending = await service.initiatePayout(id);
+
+    await service.reconcilePayout(pending);
+    expect(withdrawals.rows.get(id).status).toBe(WithdrawalStatus.PROCESSING);
+    expect(withdrawals.rows.get(id).payout_transfer_id).toBeTruthy();
+
+    // The provider finishes the payout but its webhook never arrives
+    await payoutProvider.processWebhook(
+      { reference: pending.payout_reference, status: 'completed' },
+      WEBHOOK_SECRET,
+    );
+    await service.reconcilePayout(await withdrawals.findById(id));
+
+    expect(withdrawals.rows.get(id).status).toBe(WithdrawalStatus.COMPLETED);
+    expect(adminService.refunds).toEqual([]);
+  });
+
+  it('refunds once when the lookup finds no payout at the provider', async () => {
+    const { id } = createWithdrawal();
+    const pending = await service.initiatePayout(id);
+    await withdrawals.update(id, { payout_reference: 'payout_lost' });
+
+    await service.reconcilePayout(await withdrawals.findById(id));
+    await service.reconcilePayout(await withdrawals.findById(id));
+
+    expect(pending.status).toBe(WithdrawalStatus.PROCESSING);
+    expect(withdrawals.rows.get(id).status).toBe(WithdrawalStatus.FAILED);
+    expect(adminService.refunds).toEqual([id]);
+  });
+});
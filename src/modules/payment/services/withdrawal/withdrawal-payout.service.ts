@@ -0,0 +1,379 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { randomBytes } from 'crypto';
+import {
+  Withdrawal,
+  WithdrawalStatus,
+  PayoutProvider,
+} from '../../../../entities';
+import { WithdrawalRepository } from '../../repositories/withdrawal.repository';
+import { BankRepository } from '../../repositories/bank.repository';
+import { WithdrawalAdminService } from './withdrawal-admin.service';
+import {
+  PAYSTACK_PAYOUT_PROVIDER,
+  STRIPE_PAYOUT_PROVIDER,
+  PayoutProviderInterface,
+  PayoutWebhookResult,
+} from '../../interfaces/payout-provider.interface';
+
+export const PAYOUT_SYSTEM_ACTOR = 'SYSTEM';
+
+// How long a payout may wait for its webhook before the provider is asked
+const PAYOUT_LOOKUP_AFTER_MS = 10 * 60 * 1000;
+
+@Injectable()
+export class WithdrawalPayoutService {
+  private readonly logger = new Logger(WithdrawalPayoutService.name);
+  private readonly providers: PayoutProviderInterface[];
+  private isReconciling = false;
+
+  constructor(
+    private readonly withdrawalRepo: WithdrawalRepository,
+    private readonly bankRepo: BankRepository,
+    private readonly adminService: WithdrawalAdminService,
+    @Inject(PAYSTACK_PAYOUT_PROVIDER)
+    paystackPayoutProvider: PayoutProviderInterface,
+    @Inject(STRIPE_PAYOUT_PROVIDER)
+    stripePayoutProvider: PayoutProviderInterface,
+  ) {
+    this.providers = [paystackPayoutProvider, stripePayoutProvider];
+  }
+
+  /**
+   * Send a processing withdrawal to the payout provider for its currency.
+   * The wallet was already debited at request time, so only a definite
+   * provider rejection fails the withdrawal, which refunds it once the
+   * provider has nothing left to reverse.
+   * When the outcome is unknown the withdrawal stays processing with its
+   * payout reference until a webhook or reconcilePendingPayouts settles it.
+   */
+  async initiatePayout(
+    withdrawalId: string,
+    initiatedBy: string = PAYOUT_SYSTEM_ACTOR,
+  ): Promise<Withdrawal> {
+    this.logger.log(`Initiating payout for withdrawal ${withdrawalId}`);
+
+    const withdrawal = await this.withdrawalRepo.findById(withdrawalId);
+    if (!withdrawal) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+
+    if (withdrawal.status !== WithdrawalStatus.PROCESSING) {
+      throw new BadRequestException(
+        'Only processing withdrawals can be paid out',
+      );
+    }
+
+    if (withdrawal.payout_reference) {
+      throw new BadRequestException(
+        'Payout has already been initiated for this withdrawal',
+      );
+    }
+
+    const provider = this.getProviderForCurrency(withdrawal);
+
+    const bank = await this.bankRepo.findByAccountNumber(
+      withdrawal.user_id,
+      withdrawal.account_number,
+    );
+    if (!bank) {
+      throw new BadRequestException(
+        'Saved bank account for this withdrawal was not found',
+      );
+    }
+
+    // Claimed atomically so an admin request and auto-initiation cannot
+    // both send a transfer
+    const reference = this.generatePayoutReference();
+    const claimed = await this.withdrawalRepo.claimForPayout(withdrawal.id, {
+      payout_provider: provider.provider,
+      payout_reference: reference,
+      payout_initiated_at: new Date(),
+      processed_by: initiatedBy,
+    });
+    if (!claimed) {
+      throw new BadRequestException(
+        'Payout has already been initiated for this withdrawal',
+      );
+    }
+
+    const result = await provider.initiatePayout(withdrawal, bank, reference);
+
+    if (result.bank_updates && Object.keys(result.bank_updates).length > 0) {
+      await this.bankRepo.update(bank.id, result.bank_updates);
+    }
+
+    if (result.transfer_id) {
+      await this.withdrawalRepo.update(withdrawal.id, {
+        payout_transfer_id: result.transfer_id,
+      });
+    }
+
+    if (result.status === 'failed') {
+      this.logger.error(
+        `Payout ${reference} for withdrawal ${withdrawal.id} failed: ${result.error}`,
+      );
+      return await this.failPayout(
+        withdrawal,
+        provider,
+        reference,
+        `Automated payout failed: ${result.error || 'unknown error'}`,
+        initiatedBy,
+      );
+    }
+
+    if (!result.success) {
+      this.logger.warn(
+        `Payout ${reference} for withdrawal ${withdrawal.id} has an unknown outcome, awaiting ${provider.provider}: ${result.error}`,
+      );
+      return await this.withdrawalRepo.findById(withdrawal.id);
+    }
+
+    if (result.status === 'completed') {
+      return await this.adminService.markWithdrawalAsDone(
+        withdrawal.id,
+        initiatedBy,
+        {
+          notes: `Automated ${provider.provider} payout completed`,
+          transaction_reference: result.transfer_id || reference,
+        },
+      );
+    }
+
+    this.logger.log(
+      `Payout ${reference} for withdrawal ${withdrawal.id} is pending with ${provider.provider}`,
+    );
+    return await this.withdrawalRepo.findById(withdrawal.id);
+  }
+
+  /**
+   * Verify a payout webhook from the given provider and normalise it
+   */
+  async verifyWebhook(
+    provider: PayoutProvider,
+    payload: any,
+    signature: string,
+  ): Promise<PayoutWebhookResult> {
+    const payoutProvider = this.providers.find(p => p.provider === provider);
+    if (!payoutProvider) {
+      throw new BadRequestException(`Unsupported payout provider: ${provider}`);
+    }
+
+    const result = await payoutProvider.processWebhook(payload, signature);
+    if (!result.success) {
+      throw new BadRequestException(result.error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply a verified payout webhook to its withdrawal
+   */
+  async applyWebhookResult(
+    provider: PayoutProvider,
+    result: PayoutWebhookResult,
+  ): Promise<void> {
+    if (!result.reference) {
+      this.logger.warn(`${provider} payout webhook without a reference`);
+      return;
+    }
+
+    const payoutProvider = this.providers.find(p => p.provider === provider);
+    if (!payoutProvider) {
+      this.logger.warn(`Unsupported payout provider: ${provider}`);
+      return;
+    }
+
+    const withdrawal = await this.withdrawalRepo.findByPayoutReference(
+      result.reference,
+    );
+    if (!withdrawal) {
+      this.logger.warn(
+        `No withdrawal found for ${provider} payout ${result.reference}`,
+      );
+      return;
+    }
+
+    await this.settlePayout(withdrawal, payoutProvider, result);
+  }
+
+  /**
+   * Ask the provider about payouts that have waited too long for a webhook,
+   * including ones whose initiation ended with an unknown outcome
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async reconcilePendingPayouts(): Promise<void> {
+    // A slow run must not overlap the next tick
+    if (this.isReconciling) {
+      return;
+    }
+    this.isReconciling = true;
+
+    try {
+      const withdrawals = await this.withdrawalRepo.findUnsettledPayouts(
+        new Date(Date.now() - PAYOUT_LOOKUP_AFTER_MS),
+      );
+
+      for (const withdrawal of withdrawals) {
+        try {
+          await this.reconcilePayout(withdrawal);
+        } catch (error) {
+          this.logger.error(
+            `Payout reconciliation for withdrawal ${withdrawal.id} failed: ${error.message}`,
+            error.stack,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Payout reconciliation failed: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  /**
+   * Look up one payout with its provider and settle the withdrawal if the
+   * provider has a final answer
+   */
+  async reconcilePayout(withdrawal: Withdrawal): Promise<void> {
+    const provider = this.providers.find(
+      p => p.provider === withdrawal.payout_provider,
+    );
+    if (!provider) {
+      this.logger.warn(
+        `Withdrawal ${withdrawal.id} has unsupported payout provider ${withdrawal.payout_provider}`,
+      );
+      return;
+    }
+
+    const bank = await this.bankRepo.findByAccountNumber(
+      withdrawal.user_id,
+      withdrawal.account_number,
+    );
+    if (!bank) {
+      this.logger.warn(
+        `Saved bank account for withdrawal ${withdrawal.id} was not found`,
+      );
+      return;
+    }
+
+    const result = await provider.lookupPayout(
+      withdrawal,
+      bank,
+      withdrawal.payout_reference,
+    );
+    if (!result.success) {
+      this.logger.warn(
+        `Could not look up payout ${withdrawal.payout_reference}: ${result.error}`,
+      );
+      return;
+    }
+
+    if (
+      result.transfer_id &&
+      result.transfer_id !== withdrawal.payout_transfer_id
+    ) {
+      await this.withdrawalRepo.update(withdrawal.id, {
+        payout_transfer_id: result.transfer_id,
+      });
+      withdrawal.payout_transfer_id = result.transfer_id;
+    }
+
+    await this.settlePayout(withdrawal, provider, result);
+  }
+
+  private async settlePayout(
+    withdrawal: Withdrawal,
+    provider: PayoutProviderInterface,
+    result: PayoutWebhookResult,
+  ): Promise<void> {
+    if (withdrawal.is_final_status) {
+      this.logger.log(
+        `Withdrawal ${withdrawal.id} already ${withdrawal.status}, ignoring payout update`,
+      );
+      return;
+    }
+
+    if (result.status === 'completed') {
+      await this.adminService.markWithdrawalAsDone(
+        withdrawal.id,
+        PAYOUT_SYSTEM_ACTOR,
+        {
+          notes: `Automated ${provider.provider} payout completed`,
+          transaction_reference:
+            result.transfer_id || withdrawal.payout_transfer_id,
+        },
+      );
+    } else if (result.status === 'failed') {
+      await this.failPayout(
+        withdrawal,
+        provider,
+        withdrawal.payout_reference,
+        `Automated ${provider.provider} payout failed: ${result.failure_reason}`,
+        PAYOUT_SYSTEM_ACTOR,
+      );
+    }
+  }
+
+  /**
+   * Refund a failed payout to the wallet once the provider has pulled its
+   * funds back. When they cannot be recovered the withdrawal is held for
+   * review instead, since a refund would pay the vendor twice.
+   */
+  private async failPayout(
+    withdrawal: Withdrawal,
+    provider: PayoutProviderInterface,
+    reference: string,
+    reason: string,
+    actor: string,
+  ): Promise<Withdrawal> {
+    const reversal = await provider.reversePayout(withdrawal, reference);
+    if (!reversal.success) {
+      this.logger.error(
+        `Payout ${reference} for withdrawal ${withdrawal.id} failed but could not be reversed: ${reversal.error}`,
+      );
+      return await this.withdrawalRepo.update(withdrawal.id, {
+        status: WithdrawalStatus.REVIEW_REQUIRED,
+        admin_notes: `${reason}. Reversal failed: ${reversal.error}`,
+      });
+    }
+
+    return await this.adminService.markWithdrawalAsFailed(
+      withdrawal.id,
+      actor,
+      {
+        notes: reversal.reversal_id
+          ? `${reason} (reversed as ${reversal.reversal_id})`
+          : reason,
+      },
+    );
+  }
+
+  private getProviderForCurrency(
+    withdrawal: Withdrawal,
+  ): PayoutProviderInterface {
+    const provider = this.providers.find(p =>
+      p.supportedCurrencies.includes(withdrawal.currency),
+    );
+    if (!provider) {
+      throw new BadRequestException(
+        `Automated payouts are not supported for ${withdrawal.currency}`,
+      );
+    }
+    return provider;
+  }
+
+  private generatePayoutReference(): string {
+    return `payout_${Date.now()}_${randomBytes(6).toString('hex')}`;
+  }
+}
@@ -6,6 +6,7 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
 import { Repository } from 'typeorm';
 import {
   Withdrawal,
@@ -20,6 +21,8 @@ import { WalletPaymentService } from './../wallet-payment.service';
 import { WithdrawalOtpService } from './withdrawal-otp.service';
 import { WithdrawalAdminService } from './withdrawal-admin.service';
 import { WithdrawalBankService } from './withdrawal-bank.service';
+import { WithdrawalPayoutService } from './withdrawal-payout.service';
+import { LedgerService } from '../../../ledger/services/ledger.service';
 import {
   WithdrawalOtpRequestDto,
   WithdrawalRequestDto,
@@ -45,6 +48,9 @@ export class WithdrawalService {
     private readonly otpService: WithdrawalOtpService,
     private readonly adminService: WithdrawalAdminService,
     private readonly bankService: WithdrawalBankService,
+    private readonly payoutService: WithdrawalPayoutService,
+    private readonly ledgerService: LedgerService,
+    private readonly configService: ConfigService,
   ) {}
 
   // ==================== OTP METHODS ====================
@@ -152,54 +158,68 @@ export class WithdrawalService {
       `[WALLET DEBIT] Attempting to debit ${totalAmount} from user ${userId} wallet`,
     );
 
-    try {
-      await this.walletPaymentService.debitWalletForWithdrawal(
-        userId,
-        totalAmount,
-        `Withdrawal request - Processing`,
-      );
-
-      this.logger.log(
-        `[WALLET DEBIT] ✓ Successfully debited ${totalAmount} from user ${userId} wallet`,
-      );
-    } catch (error) {
-      this.logger.error(
-        `[WALLET DEBIT ERROR] ❌ Failed to debit wallet: ${error.message}`,
-      );
-      throw new BadRequestException(
-        `Failed to process withdrawal: ${error.message}`,
-      );
-    }
-
-    // Create withdrawal request with PROCESSING status
-    this.logger.log(
-      `[WITHDRAWAL CREATE] Creating withdrawal record with PROCESSING status`,
-    );
-
-    const withdrawal = await this.withdrawalRepo.create({
-      user_id: userId,
-      amount: withdrawalData.amount,
-      currency: withdrawalData.currency,
-      country: withdrawalData.country,
-      fee: 0,
-      bank_name: withdrawalData.bank_name,
-      account_number: withdrawalData.account_number,
-      account_name: withdrawalData.account_name,
-      recipient_type:
-        withdrawalData.recipient_type || withdrawalData.recipient_type_uk,
-      routing_number: withdrawalData.routing_number,
-      account_type: withdrawalData.account_type,
-      recipient_address: withdrawalData.recipient_address,
-      recipient_city: withdrawalData.recipient_city,
-      recipient_state: withdrawalData.recipient_state,
-      recipient_zip_code: withdrawalData.recipient_zip_code,
-      sort_code: withdrawalData.sort_code,
-      is_otp_verified: true,
-      status: WithdrawalStatus.PROCESSING,
-    });
-
-    this.logger.log(
-      `[WITHDRAWAL CREATED] ✓ Withdrawal ${withdrawal.id} created with PROCESSING status`,
+    // The wallet debit, withdrawal record and ledger entry commit together
+    const withdrawal = await this.withdrawalRepository.manager.transaction(
+      async em => {
+        try {
+          await this.walletPaymentService.debitWalletForWithdrawal(
+            userId,
+            totalAmount,
+            `Withdrawal request - Processing`,
+            em,
+          );
+
+          this.logger.log(
+            `[WALLET DEBIT] ✓ Successfully debited ${totalAmount} from user ${userId} wallet`,
+          );
+        } catch (error) {
+          this.logger.error(
+            `[WALLET DEBIT ERROR] ❌ Failed to debit wallet: ${error.message}`,
+          );
+          throw new BadRequestException(
+            `Failed to process withdrawal: ${error.message}`,
+          );
+        }
+
+        // Create withdrawal request with PROCESSING status
+        this.logger.log(
+          `[WITHDRAWAL CREATE] Creating withdrawal record with PROCESSING status`,
+        );
+
+        const created = await this.withdrawalRepo.create(
+          {
+            user_id: userId,
+            amount: withdrawalData.amount,
+            currency: withdrawalData.currency,
+            country: withdrawalData.country,
+            fee: 0,
+            bank_name: withdrawalData.bank_name,
+            account_number: withdrawalData.account_number,
+            account_name: withdrawalData.account_name,
+            recipient_type:
+              withdrawalData.recipient_type || withdrawalData.recipient_type_uk,
+            routing_number: withdrawalData.routing_number,
+            account_type: withdrawalData.account_type,
+            recipient_address: withdrawalData.recipient_address,
+            recipient_city: withdrawalData.recipient_city,
+            recipient_state: withdrawalData.recipient_state,
+            recipient_zip_code: withdrawalData.recipient_zip_code,
+            sort_code: withdrawalData.sort_code,
+            is_otp_verified: true,
+            status: WithdrawalStatus.PROCESSING,
+          },
+          em,
+        );
+
+        this.logger.log(
+          `[WITHDRAWAL CREATED] ✓ Withdrawal ${created.id} created with PROCESSING status`,
+        );
+
+        // Vendor payable -> payout in transit until it is paid or returned
+        await this.ledgerService.recordWithdrawalRequested(created, em);
+
+        return created;
+      },
     );
 
     // Send notification to admin
@@ -226,6 +246,17 @@ export class WithdrawalService {
     this.logger.log(`[WITHDRAWAL SUMMARY] Admin Notified: YES`);
     this.logger.log(`[WITHDRAWAL SUMMARY] ========================================`);
 
+    if (this.configService.get<boolean>('payouts.autoInitiate')) {
+      try {
+        const paidOut = await this.payoutService.initiatePayout(withdrawal.id);
+        return this.mapToResponseDto(paidOut);
+      } catch (error) {
+        this.logger.error(
+          `[WITHDRAWAL PAYOUT ERROR] ⚠️ Automated payout not initiated for ${withdrawal.id}: ${error.message}`,
+        );
+      }
+    }
+
     return this.mapToResponseDto(withdrawal);
   }
 
@@ -325,6 +356,20 @@ export class WithdrawalService {
     return this.mapToResponseDto(withdrawal);
   }
 
+  /**
+   * Pay out a processing withdrawal through Paystack or Stripe Connect
+   */
+  async initiatePayout(
+    withdrawalId: string,
+    adminId: string,
+  ): Promise<WithdrawalResponseDto> {
+    const withdrawal = await this.payoutService.initiatePayout(
+      withdrawalId,
+      adminId,
+    );
+    return this.mapToResponseDto(withdrawal);
+  }
+
   /**
    * Mark withdrawal as rejected and refund money
    */
@@ -409,6 +454,8 @@ export class WithdrawalService {
       processed_at: withdrawal.processed_at,
       admin_notes: withdrawal.admin_notes,
       transaction_reference: withdrawal.transaction_reference,
+      payout_provider: withdrawal.payout_provider,
+      payout_reference: withdrawal.payout_reference,
     };
   }
 
@@ -0,0 +1,102 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { AdminAuthGuard } from '../../auth/guards/admin-auth-guard';
+import { GetUser } from '@/common/decorators/get-user.decorator';
+import { User } from '@/entities';
+import { ReviewService } from '../services/review.service';
+import {
+  AdminReviewListResponseDto,
+  AdminReviewQueryDto,
+  AdminReviewResponseDto,
+  FlagReviewDto,
+  HideReviewDto,
+} from '../dto/review.dto';
+
+@ApiTags('Admin - Reviews')
+@Controller('admin/reviews')
+@UseGuards(JwtAuthGuard, AdminAuthGuard)
+@ApiBearerAuth()
+export class AdminReviewController {
+  constructor(private readonly reviewService: ReviewService) {}
+
+  @Get()
+  @ApiOperation({ summary: '[ADMIN ONLY]: List reviews for moderation' })
+  @ApiResponse({ status: 200, type: AdminReviewListResponseDto })
+  async listReviews(
+    @Query() query: AdminReviewQueryDto,
+  ): Promise<AdminReviewListResponseDto> {
+    return await this.reviewService.listForAdmin(query);
+  }
+
+  @Post(':id/hide')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '[ADMIN ONLY]: Hide a review',
+    description:
+      'Hidden reviews are not shown publicly and do not count towards ratings.',
+  })
+  @ApiParam({ name: 'id', description: 'Review ID' })
+  @ApiResponse({ status: 200, type: AdminReviewResponseDto })
+  async hideReview(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: HideReviewDto,
+    @GetUser() admin: User,
+  ): Promise<AdminReviewResponseDto> {
+    return await this.reviewService.hideReview(id, admin.id, dto.note);
+  }
+
+  @Post(':id/unhide')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '[ADMIN ONLY]: Publish a hidden review again' })
+  @ApiParam({ name: 'id', description: 'Review ID' })
+  @ApiResponse({ status: 200, type: AdminReviewResponseDto })
+  async unhideReview(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetUser() admin: User,
+  ): Promise<AdminReviewResponseDto> {
+    return await this.reviewService.unhideReview(id, admin.id);
+  }
+
+  @Post(':id/flag')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '[ADMIN ONLY]: Flag a review for follow-up' })
+  @ApiParam({ name: 'id', description: 'Review ID' })
+  @ApiResponse({ status: 200, type: AdminReviewResponseDto })
+  async flagReview(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: FlagReviewDto,
+    @GetUser() admin: User,
+  ): Promise<AdminReviewResponseDto> {
+    return await this.reviewService.flagReview(id, admin.id, dto.reason);
+  }
+
+  @Post(':id/unflag')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '[ADMIN ONLY]: Clear the flag on a review' })
+  @ApiParam({ name: 'id', description: 'Review ID' })
+  @ApiResponse({ status: 200, type: AdminReviewResponseDto })
+  async unflagReview(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetUser() admin: User,
+  ): Promise<AdminReviewResponseDto> {
+    return await this.reviewService.unflagReview(id, admin.id);
+  }
+}
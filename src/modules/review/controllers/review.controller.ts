@@ -0,0 +1,135 @@
+import {
+  Body,
+  Controller,
+  FileTypeValidator,
+  Get,
+  HttpCode,
+  HttpStatus,
+  MaxFileSizeValidator,
+  Param,
+  ParseFilePipe,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/modules/auth/guards/jwt-auth.guard';
+import { GetUser } from '@/common/decorators/get-user.decorator';
+import { User } from '@/entities';
+import { ReviewService } from '../services/review.service';
+import {
+  CreateReviewDto,
+  ReviewListResponseDto,
+  ReviewQueryDto,
+  ReviewResponseDto,
+} from '../dto/review.dto';
+
+@ApiTags('Reviews')
+@Controller('reviews')
+export class ReviewController {
+  constructor(private readonly reviewService: ReviewService) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Rate a delivered order',
+    description:
+      'Scores food, packaging and (for deliveries) the delivery, with optional per-item ratings.',
+  })
+  @ApiResponse({ status: 201, type: ReviewResponseDto })
+  @ApiResponse({ status: 400, description: 'Order cannot be rated' })
+  @ApiResponse({ status: 409, description: 'Order already reviewed' })
+  async createReview(
+    @GetUser() user: User,
+    @Body() dto: CreateReviewDto,
+  ): Promise<ReviewResponseDto> {
+    return await this.reviewService.createReview(user.id, dto);
+  }
+
+  @Post(':id/photos')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add a photo to your review' })
+  @ApiParam({ name: 'id', description: 'Review ID' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        photo: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+    },
+  })
+  @UseInterceptors(FileInterceptor('photo'))
+  @ApiResponse({ status: 201, type: ReviewResponseDto })
+  async addPhoto(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: 5 * 1024 * 1024 }), // 5MB
+          new FileTypeValidator({ fileType: /image\/.*$/ }),
+        ],
+      }),
+    )
+    file: Express.Multer.File,
+  ): Promise<ReviewResponseDto> {
+    return await this.reviewService.addPhoto(user.id, id, file);
+  }
+
+  @Get('mine')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "List reviews you've written" })
+  @ApiResponse({ status: 200, type: ReviewListResponseDto })
+  async getMyReviews(
+    @GetUser() user: User,
+    @Query() query: ReviewQueryDto,
+  ): Promise<ReviewListResponseDto> {
+    return await this.reviewService.getMyReviews(user.id, query);
+  }
+
+  @Get('vendor/:vendorId')
+  @ApiOperation({ summary: "List a vendor's reviews with its average rating" })
+  @ApiParam({ name: 'vendorId', description: 'Vendor ID' })
+  @ApiResponse({ status: 200, type: ReviewListResponseDto })
+  @ApiResponse({ status: 404, description: 'Vendor not found' })
+  async getVendorReviews(
+    @Param('vendorId', ParseUUIDPipe) vendorId: string,
+    @Query() query: ReviewQueryDto,
+  ): Promise<ReviewListResponseDto> {
+    return await this.reviewService.getVendorReviews(vendorId, query);
+  }
+
+  @Get('menu-item/:menuItemId')
+  @ApiOperation({
+    summary: 'List reviews that rated a menu item, with its average rating',
+  })
+  @ApiParam({ name: 'menuItemId', description: 'Menu item ID' })
+  @ApiResponse({ status: 200, type: ReviewListResponseDto })
+  @ApiResponse({ status: 404, description: 'Menu item not found' })
+  async getMenuItemReviews(
+    @Param('menuItemId', ParseUUIDPipe) menuItemId: string,
+    @Query() query: ReviewQueryDto,
+  ): Promise<ReviewListResponseDto> {
+    return await this.reviewService.getMenuItemReviews(menuItemId, query);
+  }
+}
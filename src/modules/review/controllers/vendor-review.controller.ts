@@ -0,0 +1,74 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/modules/auth/guards/jwt-auth.guard';
+import { GetUser } from '@/common/decorators/get-user.decorator';
+import { AccessControl } from '@/common/guards';
+import { User, UserType } from '@/entities';
+import { ReviewService } from '../services/review.service';
+import {
+  ReviewListResponseDto,
+  ReviewQueryDto,
+  ReviewResponseDto,
+  VendorReplyDto,
+} from '../dto/review.dto';
+
+@ApiTags('Vendor Reviews')
+@Controller('vendor/reviews')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class VendorReviewController {
+  constructor(private readonly reviewService: ReviewService) {}
+
+  @Get()
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({ summary: 'List reviews of your business' })
+  @ApiResponse({ status: 200, type: ReviewListResponseDto })
+  async getReviews(
+    @GetUser() user: User,
+    @Query() query: ReviewQueryDto,
+  ): Promise<ReviewListResponseDto> {
+    return await this.reviewService.getReviewsForVendorUser(user.id, query);
+  }
+
+  @Put(':id/reply')
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({ summary: 'Reply publicly to a review, or edit your reply' })
+  @ApiParam({ name: 'id', description: 'Review ID' })
+  @ApiResponse({ status: 200, type: ReviewResponseDto })
+  @ApiResponse({ status: 403, description: 'Not a review of your business' })
+  async reply(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: VendorReplyDto,
+  ): Promise<ReviewResponseDto> {
+    return await this.reviewService.replyToReview(user.id, id, dto.reply);
+  }
+
+  @Delete(':id/reply')
+  @AccessControl({ roles: [UserType.VENDOR] })
+  @ApiOperation({ summary: 'Remove your reply to a review' })
+  @ApiParam({ name: 'id', description: 'Review ID' })
+  @ApiResponse({ status: 200, type: ReviewResponseDto })
+  async deleteReply(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ReviewResponseDto> {
+    return await this.reviewService.deleteReply(user.id, id);
+  }
+}
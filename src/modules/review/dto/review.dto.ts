@@ -0,0 +1,277 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ReviewStatus } from 'src/entities';
+
+export class ReviewItemRatingDto {
+  @ApiProperty({ description: 'Order item being rated' })
+  @IsUUID()
+  order_item_id: string;
+
+  @ApiProperty({ minimum: 1, maximum: 5 })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  comment?: string;
+}
+
+export class CreateReviewDto {
+  @ApiProperty({ description: 'Delivered order being reviewed' })
+  @IsUUID()
+  order_id: string;
+
+  @ApiProperty({ minimum: 1, maximum: 5 })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  food_rating: number;
+
+  @ApiProperty({ minimum: 1, maximum: 5 })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  packaging_rating: number;
+
+  @ApiPropertyOptional({
+    minimum: 1,
+    maximum: 5,
+    description: 'Required for delivery orders; not accepted for pickups',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  delivery_rating?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+
+  @ApiPropertyOptional({
+    type: [ReviewItemRatingDto],
+    description: 'Optional scores for individual items in the order',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReviewItemRatingDto)
+  item_ratings?: ReviewItemRatingDto[];
+}
+
+export class VendorReplyDto {
+  @ApiProperty({ description: 'Public reply shown under the review' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  reply: string;
+}
+
+export class HideReviewDto {
+  @ApiPropertyOptional({ description: 'Why the review was hidden' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class FlagReviewDto {
+  @ApiProperty({ description: 'What needs looking at' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class ReviewQueryDto {
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value))
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value))
+  limit?: number;
+}
+
+export class AdminReviewQueryDto extends ReviewQueryDto {
+  @ApiPropertyOptional({ enum: ReviewStatus })
+  @IsOptional()
+  @IsEnum(ReviewStatus)
+  status?: ReviewStatus;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === true || value === 'true')
+  is_flagged?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  vendor_id?: string;
+}
+
+export class ReviewItemRatingResponseDto {
+  @ApiProperty()
+  order_item_id: string;
+
+  @ApiProperty()
+  menu_item_id: string;
+
+  @ApiPropertyOptional()
+  menu_item_name?: string;
+
+  @ApiProperty()
+  rating: number;
+
+  @ApiPropertyOptional({ nullable: true })
+  comment: string | null;
+}
+
+export class ReviewResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  order_id: string;
+
+  @ApiProperty()
+  vendor_id: string;
+
+  @ApiPropertyOptional({ description: 'First name of the reviewer' })
+  customer_name?: string;
+
+  @ApiProperty()
+  food_rating: number;
+
+  @ApiProperty()
+  packaging_rating: number;
+
+  @ApiPropertyOptional({ nullable: true })
+  delivery_rating: number | null;
+
+  @ApiProperty({ description: 'Mean of the scores given' })
+  overall_rating: number;
+
+  @ApiPropertyOptional({ nullable: true })
+  comment: string | null;
+
+  @ApiProperty({ type: [String] })
+  photo_urls: string[];
+
+  @ApiProperty({ type: [ReviewItemRatingResponseDto] })
+  item_ratings: ReviewItemRatingResponseDto[];
+
+  @ApiPropertyOptional({ nullable: true })
+  vendor_reply: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  vendor_replied_at: Date | null;
+
+  @ApiProperty()
+  created_at: Date;
+}
+
+export class AdminReviewResponseDto extends ReviewResponseDto {
+  @ApiProperty()
+  customer_id: string;
+
+  @ApiProperty({ enum: ReviewStatus })
+  status: ReviewStatus;
+
+  @ApiProperty()
+  is_flagged: boolean;
+
+  @ApiPropertyOptional({ nullable: true })
+  flag_reason: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  moderation_note: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  moderated_by: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  moderated_at: Date | null;
+}
+
+export class RatingSummaryDto {
+  @ApiProperty()
+  rating_average: number;
+
+  @ApiProperty()
+  total_ratings: number;
+}
+
+export class ReviewListResponseDto {
+  @ApiPropertyOptional({
+    type: RatingSummaryDto,
+    description: 'Average for the vendor or menu item being listed',
+  })
+  summary?: RatingSummaryDto;
+
+  @ApiProperty({ type: [ReviewResponseDto] })
+  reviews: ReviewResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  total_pages: number;
+}
+
+export class AdminReviewListResponseDto {
+  @ApiProperty({ type: [AdminReviewResponseDto] })
+  reviews: AdminReviewResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  total_pages: number;
+}
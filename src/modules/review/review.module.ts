@@ -0,0 +1,49 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import {
+  MenuItem,
+  Order,
+  OrderItem,
+  Review,
+  ReviewItemRating,
+  Vendor,
+} from 'src/entities';
+import { AuthModule } from '../auth/auth.module';
+import { VendorModule } from '../vendor/vendor.module';
+import { FileStorageModule } from '../file-storage/file-storage.module';
+
+// Controllers
+import { ReviewController } from './controllers/review.controller';
+import { VendorReviewController } from './controllers/vendor-review.controller';
+import { AdminReviewController } from './controllers/admin-review.controller';
+
+// Services
+import { ReviewService } from './services/review.service';
+
+/**
+ * Customer reviews of delivered orders. Keeps the rating averages on
+ * vendors and menu items that search sorts by.
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Review,
+      ReviewItemRating,
+      Order,
+      OrderItem,
+      Vendor,
+      MenuItem,
+    ]),
+    AuthModule,
+    VendorModule,
+    FileStorageModule,
+  ],
+  controllers: [
+    ReviewController,
+    VendorReviewController,
+    AdminReviewController,
+  ],
+  providers: [ReviewService],
+  exports: [ReviewService],
+})
+export class ReviewModule {}
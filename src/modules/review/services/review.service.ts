@@ -0,0 +1,578 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import {
+  MenuItem,
+  Order,
+  OrderItem,
+  OrderType,
+  Review,
+  ReviewItemRating,
+  ReviewStatus,
+  Vendor,
+} from 'src/entities';
+import { FileStorageService } from 'src/modules/file-storage/services/file-storage.service';
+import { VendorService } from 'src/modules/vendor/services/vendor.service';
+import {
+  AdminReviewListResponseDto,
+  AdminReviewQueryDto,
+  AdminReviewResponseDto,
+  CreateReviewDto,
+  ReviewListResponseDto,
+  ReviewQueryDto,
+  ReviewResponseDto,
+} from '../dto/review.dto';
+
+@Injectable()
+export class ReviewService {
+  private readonly logger = new Logger(ReviewService.name);
+
+  constructor(
+    @InjectRepository(Review)
+    private readonly reviewRepository: Repository<Review>,
+    @InjectRepository(Order)
+    private readonly orderRepository: Repository<Order>,
+    @InjectRepository(OrderItem)
+    private readonly orderItemRepository: Repository<OrderItem>,
+    @InjectRepository(Vendor)
+    private readonly vendorRepository: Repository<Vendor>,
+    @InjectRepository(MenuItem)
+    private readonly menuItemRepository: Repository<MenuItem>,
+    private readonly vendorService: VendorService,
+    private readonly fileStorageService: FileStorageService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async createReview(
+    customerId: string,
+    dto: CreateReviewDto,
+  ): Promise<ReviewResponseDto> {
+    const order = await this.orderRepository.findOne({
+      where: { id: dto.order_id, customer_id: customerId },
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const existing = await this.reviewRepository.findOne({
+      where: { order_id: order.id },
+      withDeleted: true,
+    });
+    if (existing) {
+      throw new ConflictException('This order has already been reviewed');
+    }
+    if (!order.can_be_rated) {
+      throw new BadRequestException('Only delivered orders can be rated');
+    }
+
+    const windowDays = this.configService.get<number>(
+      'reviews.ratingWindowDays',
+    );
+    const deliveredAt = order.delivered_at ?? order.updated_at;
+    if (
+      windowDays &&
+      deliveredAt.getTime() + windowDays * 24 * 60 * 60 * 1000 < Date.now()
+    ) {
+      throw new BadRequestException(
+        `Orders can only be rated within ${windowDays} days of delivery`,
+      );
+    }
+
+    if (order.order_type === OrderType.PICKUP && dto.delivery_rating) {
+      throw new BadRequestException('Pickup orders have no delivery to rate');
+    }
+    if (order.order_type === OrderType.DELIVERY && !dto.delivery_rating) {
+      throw new BadRequestException('delivery_rating is required');
+    }
+
+    const itemRatings = await this.resolveItemRatings(order.id, dto);
+
+    const scores = [
+      dto.food_rating,
+      dto.packaging_rating,
+      ...(dto.delivery_rating ? [dto.delivery_rating] : []),
+    ];
+    const overall =
+      Math.round(
+        (scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100,
+      ) / 100;
+
+    const reviewId = await this.reviewRepository.manager.transaction(
+      async em => {
+        const review = await em.save(
+          em.create(Review, {
+            order_id: order.id,
+            customer_id: customerId,
+            vendor_id: order.vendor_id,
+            food_rating: dto.food_rating,
+            packaging_rating: dto.packaging_rating,
+            delivery_rating: dto.delivery_rating ?? null,
+            overall_rating: overall,
+            comment: dto.comment ?? null,
+            photo_urls: [],
+            status: ReviewStatus.PUBLISHED,
+          }),
+        );
+
+        if (itemRatings.length) {
+          await em.save(
+            itemRatings.map(rating =>
+              em.create(ReviewItemRating, { ...rating, review_id: review.id }),
+            ),
+          );
+        }
+
+        // Keep the order's own rating fields in step for older clients
+        order.addCustomerReview(Math.round(overall), dto.comment ?? null);
+        await em.save(order);
+
+        await this.refreshRatings(em, review.vendor_id, itemRatings);
+        return review.id;
+      },
+    );
+
+    this.logger.log(
+      `Order ${order.id} reviewed by ${customerId} (${overall.toFixed(2)})`,
+    );
+
+    return this.mapToResponse(await this.findReviewOrFail(reviewId));
+  }
+
+  async addPhoto(
+    customerId: string,
+    reviewId: string,
+    file: Express.Multer.File,
+  ): Promise<ReviewResponseDto> {
+    const review = await this.findReviewOrFail(reviewId);
+    if (review.customer_id !== customerId) {
+      throw new NotFoundException('Review not found');
+    }
+
+    const maxPhotos = this.configService.get<number>('reviews.maxPhotos');
+    if (review.photo_urls.length >= maxPhotos) {
+      throw new BadRequestException(
+        `A review can have at most ${maxPhotos} photos`,
+      );
+    }
+
+    const uploaded = await this.fileStorageService.uploadImage(file, {
+      quality: 85,
+      createThumbnail: true,
+      thumbnailSize: 300,
+    });
+
+    review.photo_urls = [...review.photo_urls, uploaded.url];
+    await this.reviewRepository.save(review);
+
+    return this.mapToResponse(review);
+  }
+
+  async getMyReviews(
+    customerId: string,
+    query: ReviewQueryDto,
+  ): Promise<ReviewListResponseDto> {
+    return this.listReviews({ customer_id: customerId }, query, review =>
+      this.mapToResponse(review),
+    );
+  }
+
+  async getVendorReviews(
+    vendorId: string,
+    query: ReviewQueryDto,
+  ): Promise<ReviewListResponseDto> {
+    const vendor = await this.vendorRepository.findOne({
+      where: { id: vendorId },
+    });
+    if (!vendor) {
+      throw new NotFoundException('Vendor not found');
+    }
+
+    const list = await this.listReviews(
+      { vendor_id: vendorId, status: ReviewStatus.PUBLISHED },
+      query,
+      review => this.mapToResponse(review),
+    );
+    return {
+      summary: {
+        rating_average: vendor.rating_average,
+        total_ratings: vendor.total_ratings,
+      },
+      ...list,
+    };
+  }
+
+  async getMenuItemReviews(
+    menuItemId: string,
+    query: ReviewQueryDto,
+  ): Promise<ReviewListResponseDto> {
+    const menuItem = await this.menuItemRepository.findOne({
+      where: { id: menuItemId },
+    });
+    if (!menuItem) {
+      throw new NotFoundException('Menu item not found');
+    }
+
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [reviews, total] = await this.reviewRepository
+      .createQueryBuilder('review')
+      .innerJoin(
+        'review.item_ratings',
+        'rated',
+        'rated.menu_item_id = :menuItemId',
+        { menuItemId },
+      )
+      .leftJoinAndSelect('review.item_ratings', 'item_rating')
+      .leftJoinAndSelect('item_rating.menu_item', 'menu_item')
+      .leftJoinAndSelect('review.customer', 'customer')
+      .where('review.status = :status', { status: ReviewStatus.PUBLISHED })
+      .orderBy('review.created_at', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      summary: {
+        rating_average: menuItem.rating_average,
+        total_ratings: menuItem.total_ratings,
+      },
+      reviews: reviews.map(review => this.mapToResponse(review)),
+      total,
+      page,
+      limit,
+      total_pages: Math.ceil(total / limit),
+    };
+  }
+
+  async getReviewsForVendorUser(
+    userId: string,
+    query: ReviewQueryDto,
+  ): Promise<ReviewListResponseDto> {
+    const vendor = await this.getVendorForUser(userId);
+    return this.getVendorReviews(vendor.id, query);
+  }
+
+  async replyToReview(
+    userId: string,
+    reviewId: string,
+    reply: string,
+  ): Promise<ReviewResponseDto> {
+    const vendor = await this.getVendorForUser(userId);
+    const review = await this.findReviewOrFail(reviewId);
+    if (review.vendor_id !== vendor.id) {
+      throw new ForbiddenException('You can only reply to your own reviews');
+    }
+    if (review.status !== ReviewStatus.PUBLISHED) {
+      throw new BadRequestException('This review has been hidden');
+    }
+
+    review.vendor_reply = reply;
+    review.vendor_replied_at = new Date();
+    await this.reviewRepository.save(review);
+
+    return this.mapToResponse(review);
+  }
+
+  async deleteReply(
+    userId: string,
+    reviewId: string,
+  ): Promise<ReviewResponseDto> {
+    const vendor = await this.getVendorForUser(userId);
+    const review = await this.findReviewOrFail(reviewId);
+    if (review.vendor_id !== vendor.id) {
+      throw new ForbiddenException('You can only reply to your own reviews');
+    }
+
+    review.vendor_reply = null;
+    review.vendor_replied_at = null;
+    await this.reviewRepository.save(review);
+
+    return this.mapToResponse(review);
+  }
+
+  async listForAdmin(
+    query: AdminReviewQueryDto,
+  ): Promise<AdminReviewListResponseDto> {
+    const where: Record<string, any> = {};
+    if (query.status) where.status = query.status;
+    if (query.is_flagged !== undefined) where.is_flagged = query.is_flagged;
+    if (query.vendor_id) where.vendor_id = query.vendor_id;
+
+    return this.listReviews(where, query, review =>
+      this.mapToAdminResponse(review),
+    );
+  }
+
+  /**
+   * Hidden reviews drop out of public listings and rating averages
+   */
+  async hideReview(
+    reviewId: string,
+    adminId: string,
+    note?: string,
+  ): Promise<AdminReviewResponseDto> {
+    return this.setStatus(reviewId, adminId, ReviewStatus.HIDDEN, note);
+  }
+
+  async unhideReview(
+    reviewId: string,
+    adminId: string,
+  ): Promise<AdminReviewResponseDto> {
+    return this.setStatus(reviewId, adminId, ReviewStatus.PUBLISHED);
+  }
+
+  async flagReview(
+    reviewId: string,
+    adminId: string,
+    reason: string,
+  ): Promise<AdminReviewResponseDto> {
+    const review = await this.findReviewOrFail(reviewId);
+
+    review.is_flagged = true;
+    review.flag_reason = reason;
+    review.moderated_by = adminId;
+    review.moderated_at = new Date();
+    await this.reviewRepository.save(review);
+
+    this.logger.log(`Review ${review.id} flagged by ${adminId}: ${reason}`);
+    return this.mapToAdminResponse(review);
+  }
+
+  async unflagReview(
+    reviewId: string,
+    adminId: string,
+  ): Promise<AdminReviewResponseDto> {
+    const review = await this.findReviewOrFail(reviewId);
+
+    review.is_flagged = false;
+    review.flag_reason = null;
+    review.moderated_by = adminId;
+    review.moderated_at = new Date();
+    await this.reviewRepository.save(review);
+
+    return this.mapToAdminResponse(review);
+  }
+
+  private async setStatus(
+    reviewId: string,
+    adminId: string,
+    status: ReviewStatus,
+    note?: string,
+  ): Promise<AdminReviewResponseDto> {
+    const review = await this.findReviewOrFail(reviewId);
+    if (review.status === status) {
+      return this.mapToAdminResponse(review);
+    }
+
+    await this.reviewRepository.manager.transaction(async em => {
+      review.status = status;
+      review.moderated_by = adminId;
+      review.moderated_at = new Date();
+      if (note !== undefined) review.moderation_note = note;
+      await em.save(review);
+
+      await this.refreshRatings(em, review.vendor_id, review.item_ratings);
+    });
+
+    this.logger.log(`Review ${review.id} set to ${status} by ${adminId}`);
+    return this.mapToAdminResponse(review);
+  }
+
+  /**
+   * Checks the optional per-item scores against the order's own lines
+   */
+  private async resolveItemRatings(
+    orderId: string,
+    dto: CreateReviewDto,
+  ): Promise<
+    Pick<
+      ReviewItemRating,
+      'order_item_id' | 'menu_item_id' | 'rating' | 'comment'
+    >[]
+  > {
+    const ratings = dto.item_ratings ?? [];
+    if (!ratings.length) {
+      return [];
+    }
+
+    const ids = ratings.map(rating => rating.order_item_id);
+    if (new Set(ids).size !== ids.length) {
+      throw new BadRequestException('Each order item can only be rated once');
+    }
+
+    const orderItems = await this.orderItemRepository.find({
+      where: { id: In(ids), order_id: orderId },
+    });
+    const byId = new Map(orderItems.map(item => [item.id, item]));
+
+    return ratings.map(rating => {
+      const orderItem = byId.get(rating.order_item_id);
+      if (!orderItem) {
+        throw new BadRequestException(
+          `Order item ${rating.order_item_id} is not part of this order`,
+        );
+      }
+      return {
+        order_item_id: orderItem.id,
+        menu_item_id: orderItem.menu_item_id,
+        rating: rating.rating,
+        comment: rating.comment ?? null,
+      };
+    });
+  }
+
+  /**
+   * Recomputes the rolling averages from published reviews. The vendor and
+   * menu item rows are locked first so concurrent reviews can't overwrite
+   * each other's totals.
+   */
+  private async refreshRatings(
+    em: EntityManager,
+    vendorId: string,
+    itemRatings: Pick<ReviewItemRating, 'menu_item_id'>[] = [],
+  ): Promise<void> {
+    await em.findOne(Vendor, {
+      where: { id: vendorId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    const vendorStats = await em
+      .createQueryBuilder(Review, 'review')
+      .select('AVG(review.overall_rating)', 'average')
+      .addSelect('COUNT(review.id)', 'count')
+      .where('review.vendor_id = :vendorId', { vendorId })
+      .andWhere('review.status = :status', { status: ReviewStatus.PUBLISHED })
+      .getRawOne();
+    await em.update(Vendor, vendorId, this.toAggregate(vendorStats));
+
+    const menuItemIds = [
+      ...new Set(itemRatings.map(rating => rating.menu_item_id)),
+    ].sort();
+    for (const menuItemId of menuItemIds) {
+      await em.findOne(MenuItem, {
+        where: { id: menuItemId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const itemStats = await em
+        .createQueryBuilder(ReviewItemRating, 'item_rating')
+        .innerJoin('item_rating.review', 'review')
+        .select('AVG(item_rating.rating)', 'average')
+        .addSelect('COUNT(item_rating.id)', 'count')
+        .where('item_rating.menu_item_id = :menuItemId', { menuItemId })
+        .andWhere('review.status = :status', {
+          status: ReviewStatus.PUBLISHED,
+        })
+        .getRawOne();
+      await em.update(MenuItem, menuItemId, this.toAggregate(itemStats));
+    }
+  }
+
+  private toAggregate(stats: { average: string | null; count: string }): {
+    rating_average: number;
+    total_ratings: number;
+  } {
+    const average = stats?.average ? parseFloat(stats.average) : 0;
+    return {
+      rating_average: Math.round(average * 100) / 100,
+      total_ratings: parseInt(stats?.count, 10) || 0,
+    };
+  }
+
+  private async listReviews<T extends ReviewResponseDto>(
+    where: Record<string, any>,
+    query: ReviewQueryDto,
+    map: (review: Review) => T,
+  ): Promise<{
+    reviews: T[];
+    total: number;
+    page: number;
+    limit: number;
+    total_pages: number;
+  }> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [reviews, total] = await this.reviewRepository.findAndCount({
+      where,
+      relations: ['item_ratings', 'item_ratings.menu_item', 'customer'],
+      order: { created_at: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      reviews: reviews.map(map),
+      total,
+      page,
+      limit,
+      total_pages: Math.ceil(total / limit),
+    };
+  }
+
+  private async getVendorForUser(userId: string): Promise<Vendor> {
+    const vendor = await this.vendorService.getVendorByUserId(userId);
+    if (!vendor) {
+      throw new NotFoundException('Vendor profile not found');
+    }
+    return vendor;
+  }
+
+  private async findReviewOrFail(id: string): Promise<Review> {
+    const review = await this.reviewRepository.findOne({
+      where: { id },
+      relations: ['item_ratings', 'item_ratings.menu_item', 'customer'],
+    });
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+    return review;
+  }
+
+  private mapToResponse(review: Review): ReviewResponseDto {
+    const itemRatings = (review.item_ratings || []) as ReviewItemRating[];
+
+    return {
+      id: review.id,
+      order_id: review.order_id,
+      vendor_id: review.vendor_id,
+      customer_name: review.customer?.first_name,
+      food_rating: review.food_rating,
+      packaging_rating: review.packaging_rating,
+      delivery_rating: review.delivery_rating ?? null,
+      overall_rating: review.overall_rating,
+      comment: review.comment ?? null,
+      photo_urls: review.photo_urls || [],
+      item_ratings: itemRatings.map(rating => ({
+        order_item_id: rating.order_item_id,
+        menu_item_id: rating.menu_item_id,
+        menu_item_name: rating.menu_item?.name,
+        rating: rating.rating,
+        comment: rating.comment ?? null,
+      })),
+      vendor_reply: review.vendor_reply ?? null,
+      vendor_replied_at: review.vendor_replied_at ?? null,
+      created_at: review.created_at,
+    };
+  }
+
+  private mapToAdminResponse(review: Review): AdminReviewResponseDto {
+    return {
+      ...this.mapToResponse(review),
+      customer_id: review.customer_id,
+      status: review.status,
+      is_flagged: review.is_flagged,
+      flag_reason: review.flag_reason ?? null,
+      moderation_note: review.moderation_note ?? null,
+      moderated_by: review.moderated_by ?? null,
+      moderated_at: review.moderated_at ?? null,
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { User } from 'src/entities';
+
+export const USER_EVENTS = {
+  CREATED: 'user.created',
+  CONTACT_VERIFIED: 'user.contact_verified',
+} as const;
+
+/**
+ * Published when a new account is created, whichever way the user signed up
+ */
+export class UserCreatedEvent {
+  readonly user_id: string;
+  readonly email: string | null;
+  readonly phone_number: string | null;
+  readonly occurred_at: Date;
+
+  constructor(user: User) {
+    this.user_id = user.id;
+    this.email = user.email ?? null;
+    this.phone_number = user.phone_number ?? null;
+    this.occurred_at = new Date();
+  }
+}
+
+/**
+ * Published when a user verifies an email address or phone number, at signup
+ * or later on
+ */
+export class UserContactVerifiedEvent {
+  readonly user_id: string;
+  readonly channel: 'email' | 'phone';
+  readonly occurred_at: Date;
+
+  constructor(user: User, channel: 'email' | 'phone') {
+    this.user_id = user.id;
+    this.channel = channel;
+    this.occurred_at = new Date();
+  }
+}
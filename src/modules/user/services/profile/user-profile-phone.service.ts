@@ -6,10 +6,12 @@ import {
   ConflictException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Repository } from 'typeorm';
 import { User } from 'src/entities';
 import { UserProfileBaseService } from './user-profile-base.service';
 import { OTPService } from '@/modules/auth/services/otp.service';
+import { USER_EVENTS, UserContactVerifiedEvent } from '../../events';
 
 export interface ChangePhoneRequest {
   newPhoneNumber: string;
@@ -30,6 +32,7 @@ export class UserProfilePhoneService {
     private readonly userRepository: Repository<User>,
     private readonly profileBaseService: UserProfileBaseService,
     private readonly otpService: OTPService,
+    private readonly eventEmitter: EventEmitter2,
   ) {}
 
   /**
@@ -116,6 +119,11 @@ export class UserProfilePhoneService {
 
     const updatedUser = await this.userRepository.save(user);
 
+    this.eventEmitter.emit(
+      USER_EVENTS.CONTACT_VERIFIED,
+      new UserContactVerifiedEvent(updatedUser, 'phone'),
+    );
+
     this.logger.log(
       `Phone number changed for user ${userId} to ${newPhoneNumber}`,
     );
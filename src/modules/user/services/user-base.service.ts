@@ -6,8 +6,10 @@ import {
   Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Repository } from 'typeorm';
 import { User, UserType, UserStatus } from 'src/entities';
+import { USER_EVENTS, UserCreatedEvent } from '../events';
 
 @Injectable()
 export class UserBaseService {
@@ -16,11 +18,14 @@ export class UserBaseService {
   constructor(
     @InjectRepository(User)
     protected readonly userRepository: Repository<User>,
+    private readonly eventEmitter: EventEmitter2,
   ) {}
 
   async createUser(userData: Partial<User>): Promise<User> {
     const user = this.userRepository.create(userData);
-    return await this.userRepository.save(user);
+    const saved = await this.userRepository.save(user);
+    this.eventEmitter.emit(USER_EVENTS.CREATED, new UserCreatedEvent(saved));
+    return saved;
   }
 
   async findById(id: string): Promise<User> {
@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { AdminAuthGuard } from '../../auth/guards/admin-auth-guard';
+import { GetUser } from '@/common/decorators/get-user.decorator';
+import { User, WebhookEventStatus } from '@/entities';
+import { WebhookInboxService } from '../services/webhook-inbox.service';
+import {
+  WebhookEventListResponseDto,
+  WebhookEventQueryDto,
+  WebhookEventResponseDto,
+} from '../dto/webhook-event.dto';
+
+@ApiTags('Admin - Webhooks')
+@Controller('admin/webhooks/events')
+@UseGuards(JwtAuthGuard, AdminAuthGuard)
+@ApiBearerAuth()
+export class AdminWebhookController {
+  constructor(private readonly webhookInboxService: WebhookInboxService) {}
+
+  @Get()
+  @ApiOperation({ summary: '[ADMIN ONLY]: List received webhook events' })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook events retrieved successfully',
+    type: WebhookEventListResponseDto,
+  })
+  async listEvents(
+    @Query() query: WebhookEventQueryDto,
+  ): Promise<WebhookEventListResponseDto> {
+    return await this.webhookInboxService.listEvents(query);
+  }
+
+  @Get('failed')
+  @ApiOperation({ summary: '[ADMIN ONLY]: List webhook events that failed' })
+  @ApiResponse({
+    status: 200,
+    description: 'Failed webhook events retrieved successfully',
+    type: WebhookEventListResponseDto,
+  })
+  async listFailedEvents(
+    @Query() query: WebhookEventQueryDto,
+  ): Promise<WebhookEventListResponseDto> {
+    return await this.webhookInboxService.listEvents({
+      ...query,
+      status: WebhookEventStatus.FAILED,
+    });
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: '[ADMIN ONLY]: Get a webhook event with its payload',
+  })
+  @ApiParam({ name: 'id', description: 'Webhook event ID' })
+  @ApiResponse({ status: 200, type: WebhookEventResponseDto })
+  @ApiResponse({ status: 404, description: 'Webhook event not found' })
+  async getEvent(@Param('id') id: string): Promise<WebhookEventResponseDto> {
+    return await this.webhookInboxService.getEvent(id);
+  }
+
+  @Post(':id/replay')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: '[ADMIN ONLY]: Queue a webhook event to be processed again',
+  })
+  @ApiParam({ name: 'id', description: 'Webhook event ID' })
+  @ApiResponse({ status: 202, type: WebhookEventResponseDto })
+  @ApiResponse({ status: 400, description: 'Event is still being processed' })
+  @ApiResponse({ status: 404, description: 'Webhook event not found' })
+  async replayEvent(
+    @GetUser() admin: User,
+    @Param('id') id: string,
+  ): Promise<WebhookEventResponseDto> {
+    return await this.webhookInboxService.replay(id, admin.id);
+  }
+}
@@ -0,0 +1,122 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { WebhookEventStatus, WebhookSource } from 'src/entities';
+
+export class WebhookEventQueryDto {
+  @ApiPropertyOptional({ enum: WebhookSource })
+  @IsOptional()
+  @IsEnum(WebhookSource)
+  source?: WebhookSource;
+
+  @ApiPropertyOptional({ description: 'Provider, e.g. STRIPE or shipbubble' })
+  @IsOptional()
+  @IsString()
+  provider?: string;
+
+  @ApiPropertyOptional({ enum: WebhookEventStatus })
+  @IsOptional()
+  @IsEnum(WebhookEventStatus)
+  status?: WebhookEventStatus;
+
+  @ApiPropertyOptional({
+    description: 'Provider event type, e.g. charge.success',
+  })
+  @IsOptional()
+  @IsString()
+  event_type?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value))
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value))
+  limit?: number;
+}
+
+export class WebhookEventResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: WebhookSource })
+  source: WebhookSource;
+
+  @ApiProperty()
+  provider: string;
+
+  @ApiProperty()
+  event_id: string;
+
+  @ApiPropertyOptional()
+  event_type?: string | null;
+
+  @ApiProperty({ enum: WebhookEventStatus })
+  status: WebhookEventStatus;
+
+  @ApiProperty()
+  attempts: number;
+
+  @ApiPropertyOptional()
+  last_error?: string | null;
+
+  @ApiPropertyOptional()
+  processed_at?: Date | null;
+
+  @ApiPropertyOptional()
+  failed_at?: Date | null;
+
+  @ApiProperty()
+  replay_count: number;
+
+  @ApiPropertyOptional()
+  last_replayed_at?: Date | null;
+
+  @ApiPropertyOptional()
+  last_replayed_by?: string | null;
+
+  @ApiProperty()
+  created_at: Date;
+
+  @ApiPropertyOptional({ description: 'Only included on the detail endpoint' })
+  payload?: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Only included on the detail endpoint' })
+  normalized_payload?: Record<string, any> | null;
+}
+
+export class WebhookEventListResponseDto {
+  @ApiProperty({ type: [WebhookEventResponseDto] })
+  events: WebhookEventResponseDto[];
+
+  @ApiProperty({ description: 'Total number of events' })
+  total: number;
+
+  @ApiProperty({ description: 'Current page number' })
+  page: number;
+
+  @ApiProperty({ description: 'Number of items per page' })
+  limit: number;
+
+  @ApiProperty({ description: 'Total number of pages' })
+  total_pages: number;
+}
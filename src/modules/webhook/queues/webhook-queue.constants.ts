@@ -0,0 +1,24 @@
+/**
+ * Every stored webhook is processed from this queue. Jobs are named after
+ * the WebhookSource so the payment and delivery modules can each register a
+ * processor for their own events.
+ */
+export const WEBHOOK_EVENTS_QUEUE = 'webhook-events';
+
+export const WEBHOOK_JOB_ATTEMPTS = 5;
+
+// 5s, 10s, 20s, 40s between attempts
+export const WEBHOOK_JOB_BACKOFF_MS = 5000;
+
+export const WEBHOOK_WORKER_CONCURRENCY = 5;
+
+// A PROCESSING claim older than this is assumed to belong to a dead worker
+export const WEBHOOK_STALE_CLAIM_MS = 10 * 60 * 1000;
+
+// Events still RECEIVED after this long were never queued (e.g. Redis was
+// down at ingest) and are picked up by the sweeper
+export const WEBHOOK_REQUEUE_AFTER_MS = 2 * 60 * 1000;
+
+export interface WebhookJobData {
+  webhookEventId: string;
+}
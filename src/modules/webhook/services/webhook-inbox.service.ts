@@ -0,0 +1,346 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bull';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Queue } from 'bull';
+import { LessThan, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { WebhookEvent, WebhookEventStatus, WebhookSource } from 'src/entities';
+import {
+  WEBHOOK_EVENTS_QUEUE,
+  WEBHOOK_JOB_ATTEMPTS,
+  WEBHOOK_JOB_BACKOFF_MS,
+  WEBHOOK_REQUEUE_AFTER_MS,
+  WEBHOOK_STALE_CLAIM_MS,
+  WebhookJobData,
+} from '../queues/webhook-queue.constants';
+import {
+  WebhookEventListResponseDto,
+  WebhookEventQueryDto,
+  WebhookEventResponseDto,
+} from '../dto/webhook-event.dto';
+
+export interface RecordWebhookInput {
+  source: WebhookSource;
+  provider: string;
+  // Parsed request body
+  payload: Record<string, any>;
+  // What the provider adapter returned after verifying the signature
+  normalized: Record<string, any>;
+}
+
+/**
+ * Stores inbound webhooks, hands them to the queue and makes sure each one is
+ * applied once. The HTTP handlers only verify and record; the processors in
+ * the payment and delivery modules do the work through process().
+ */
+@Injectable()
+export class WebhookInboxService {
+  private readonly logger = new Logger(WebhookInboxService.name);
+
+  constructor(
+    @InjectRepository(WebhookEvent)
+    private readonly webhookEventRepository: Repository<WebhookEvent>,
+    @InjectQueue(WEBHOOK_EVENTS_QUEUE)
+    private readonly webhookQueue: Queue<WebhookJobData>,
+  ) {}
+
+  /**
+   * Store a verified webhook and queue it. A redelivery of an event we
+   * already hold is acknowledged without being stored or applied again.
+   */
+  async record(input: RecordWebhookInput): Promise<WebhookEvent> {
+    const eventId = this.resolveEventId(input.provider, input.payload);
+
+    await this.webhookEventRepository
+      .createQueryBuilder()
+      .insert()
+      .into(WebhookEvent)
+      .values({
+        source: input.source,
+        provider: input.provider,
+        event_id: eventId,
+        event_type:
+          input.payload?.type ||
+          input.payload?.event ||
+          input.payload?.event_type ||
+          null,
+        payload: input.payload,
+        normalized_payload: input.normalized,
+      })
+      .orIgnore()
+      .execute();
+
+    const event = await this.webhookEventRepository.findOne({
+      where: {
+        source: input.source,
+        provider: input.provider,
+        event_id: eventId,
+      },
+    });
+
+    if (event.status !== WebhookEventStatus.RECEIVED) {
+      this.logger.log(
+        `Duplicate ${input.provider} webhook ${eventId} (${event.status}), not queueing again`,
+      );
+      return event;
+    }
+
+    try {
+      await this.enqueue(event);
+    } catch (error) {
+      // Stored but not queued; requeueStrandedEvents picks it up
+      this.logger.error(
+        `Failed to queue webhook event ${event.id}: ${error.message}`,
+      );
+    }
+
+    return event;
+  }
+
+  /**
+   * Claim the event, run the handler and record the outcome. Returns without
+   * doing anything if the event was already processed or another worker is
+   * on it. Errors are rethrown so Bull retries the job.
+   */
+  async process(
+    webhookEventId: string,
+    handler: (event: WebhookEvent) => Promise<void>,
+  ): Promise<void> {
+    const now = new Date();
+    const claim = await this.webhookEventRepository
+      .createQueryBuilder()
+      .update(WebhookEvent)
+      .set({
+        status: WebhookEventStatus.PROCESSING,
+        processing_started_at: now,
+        attempts: () => 'attempts + 1',
+      })
+      .where('id = :id', { id: webhookEventId })
+      .andWhere(
+        '(status IN (:...claimable) OR (status = :processing AND processing_started_at < :staleBefore))',
+        {
+          claimable: [WebhookEventStatus.RECEIVED, WebhookEventStatus.FAILED],
+          processing: WebhookEventStatus.PROCESSING,
+          staleBefore: new Date(now.getTime() - WEBHOOK_STALE_CLAIM_MS),
+        },
+      )
+      .execute();
+
+    if (!claim.affected) {
+      this.logger.log(
+        `Webhook event ${webhookEventId} already processed or in progress, skipping`,
+      );
+      return;
+    }
+
+    const event = await this.webhookEventRepository.findOne({
+      where: { id: webhookEventId },
+    });
+
+    try {
+      await handler(event);
+
+      await this.webhookEventRepository.update(event.id, {
+        status: WebhookEventStatus.PROCESSED,
+        processed_at: new Date(),
+        last_error: null,
+      });
+
+      this.logger.log(
+        `Processed ${event.provider} webhook ${event.event_id} (${event.event_type})`,
+      );
+    } catch (error) {
+      await this.webhookEventRepository.update(event.id, {
+        status: WebhookEventStatus.FAILED,
+        failed_at: new Date(),
+        last_error: error.message,
+      });
+
+      this.logger.error(
+        `Failed to process ${event.provider} webhook ${event.event_id}: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  async listEvents(
+    query: WebhookEventQueryDto,
+  ): Promise<WebhookEventListResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const where: Record<string, any> = {};
+    if (query.source) where.source = query.source;
+    if (query.provider) where.provider = query.provider;
+    if (query.status) where.status = query.status;
+    if (query.event_type) where.event_type = query.event_type;
+
+    const [events, total] = await this.webhookEventRepository.findAndCount({
+      where,
+      order: { created_at: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      events: events.map(event => this.mapToResponse(event)),
+      total,
+      page,
+      limit,
+      total_pages: Math.ceil(total / limit),
+    };
+  }
+
+  async getEvent(id: string): Promise<WebhookEventResponseDto> {
+    const event = await this.findEventOrFail(id);
+    return this.mapToResponse(event, true);
+  }
+
+  /**
+   * Run an event through its processor again, e.g. after a bug fix. Works
+   * for failed and already processed events; handlers are expected to
+   * ignore work that is already done.
+   */
+  async replay(id: string, adminId: string): Promise<WebhookEventResponseDto> {
+    const event = await this.findEventOrFail(id);
+
+    if (event.status === WebhookEventStatus.PROCESSING) {
+      throw new BadRequestException(
+        'Webhook event is being processed; try again once it finishes',
+      );
+    }
+
+    event.status = WebhookEventStatus.RECEIVED;
+    event.replay_count += 1;
+    event.last_replayed_at = new Date();
+    event.last_replayed_by = adminId;
+    event.last_error = null;
+    await this.webhookEventRepository.save(event);
+
+    await this.enqueue(event);
+
+    this.logger.log(
+      `Webhook event ${event.id} replayed by ${adminId} (replay #${event.replay_count})`,
+    );
+
+    return this.mapToResponse(event);
+  }
+
+  /**
+   * Queue events that were stored but never made it onto the queue
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async requeueStrandedEvents(): Promise<void> {
+    const stranded = await this.webhookEventRepository.find({
+      where: {
+        status: WebhookEventStatus.RECEIVED,
+        updated_at: LessThan(new Date(Date.now() - WEBHOOK_REQUEUE_AFTER_MS)),
+      },
+      order: { created_at: 'ASC' },
+      take: 100,
+    });
+
+    for (const event of stranded) {
+      try {
+        await this.enqueue(event);
+      } catch (error) {
+        this.logger.error(
+          `Failed to requeue webhook event ${event.id}: ${error.message}`,
+        );
+        return;
+      }
+    }
+
+    if (stranded.length > 0) {
+      this.logger.log(`Requeued ${stranded.length} stranded webhook events`);
+    }
+  }
+
+  /**
+   * The job id is stable per event and replay, so an event still waiting in
+   * Bull is never added twice
+   */
+  private async enqueue(event: WebhookEvent): Promise<void> {
+    await this.webhookQueue.add(
+      event.source,
+      { webhookEventId: event.id },
+      {
+        jobId:
+          event.replay_count > 0
+            ? `${event.id}:replay:${event.replay_count}`
+            : event.id,
+        attempts: WEBHOOK_JOB_ATTEMPTS,
+        backoff: { type: 'exponential', delay: WEBHOOK_JOB_BACKOFF_MS },
+        removeOnComplete: 1000,
+        removeOnFail: 1000,
+      },
+    );
+  }
+
+  /**
+   * Stripe and Uber send an event id; Paystack only identifies the object,
+   * so its event name is added. Anything else falls back to a hash of the
+   * body, which still catches straight redeliveries.
+   */
+  private resolveEventId(
+    provider: string,
+    payload: Record<string, any>,
+  ): string {
+    if (payload?.id) {
+      return String(payload.id);
+    }
+    if (payload?.event_id) {
+      return String(payload.event_id);
+    }
+    if (payload?.event && (payload.data?.id || payload.data?.reference)) {
+      return `${payload.event}:${payload.data.id || payload.data.reference}`;
+    }
+
+    return createHash('sha256')
+      .update(`${provider}:${JSON.stringify(payload)}`)
+      .digest('hex');
+  }
+
+  private async findEventOrFail(id: string): Promise<WebhookEvent> {
+    const event = await this.webhookEventRepository.findOne({ where: { id } });
+    if (!event) {
+      throw new NotFoundException('Webhook event not found');
+    }
+    return event;
+  }
+
+  private mapToResponse(
+    event: WebhookEvent,
+    includePayload = false,
+  ): WebhookEventResponseDto {
+    return {
+      id: event.id,
+      source: event.source,
+      provider: event.provider,
+      event_id: event.event_id,
+      event_type: event.event_type,
+      status: event.status,
+      attempts: event.attempts,
+      last_error: event.last_error,
+      processed_at: event.processed_at,
+      failed_at: event.failed_at,
+      replay_count: event.replay_count,
+      last_replayed_at: event.last_replayed_at,
+      last_replayed_by: event.last_replayed_by,
+      created_at: event.created_at,
+      ...(includePayload
+        ? {
+            payload: event.payload,
+            normalized_payload: event.normalized_payload,
+          }
+        : {}),
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BullModule } from '@nestjs/bull';
+import { WebhookEvent } from 'src/entities';
+import { AuthModule } from '../auth/auth.module';
+
+// Controllers
+import { AdminWebhookController } from './controllers/admin-webhook.controller';
+
+// Services
+import { WebhookInboxService } from './services/webhook-inbox.service';
+
+import { WEBHOOK_EVENTS_QUEUE } from './queues/webhook-queue.constants';
+
+/**
+ * Inbox for payment, payout and delivery webhooks. The modules that own the
+ * providers import this, record verified events through WebhookInboxService
+ * and register a processor on WEBHOOK_EVENTS_QUEUE for their job name.
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WebhookEvent]),
+    BullModule.registerQueue({ name: WEBHOOK_EVENTS_QUEUE }),
+    AuthModule,
+  ],
+  controllers: [AdminWebhookController],
+  providers: [WebhookInboxService],
+  exports: [WebhookInboxService, BullModule],
+})
+export class WebhookModule {}
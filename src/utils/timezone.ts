@@ -0,0 +1,134 @@
+/**
+ * Timezone helpers built on Intl, used to evaluate vendor opening hours
+ * in the vendor's local time.
+ */
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  dayOfWeek: number; // 0 = Sunday
+  minutes: number; // minutes since local midnight
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Check that a string is an IANA timezone Intl understands
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Break a UTC instant into wall-clock parts in the given timezone
+ */
+export const getZonedDateParts = (
+  date: Date,
+  timeZone: string,
+): ZonedDateParts => {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+};
+
+/**
+ * Offset of the timezone from UTC at the given instant, in minutes
+ */
+const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  const asUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second),
+  );
+
+  return Math.round((asUtc - date.getTime()) / 60000);
+};
+
+/**
+ * Convert a local wall-clock time in the given timezone to a UTC instant.
+ * `day` may overflow the month; it is normalised like Date.UTC does.
+ */
+export const zonedTimeToUtc = (
+  year: number,
+  month: number,
+  day: number,
+  minutes: number,
+  timeZone: string,
+): Date => {
+  const naiveUtc = Date.UTC(year, month - 1, day, 0, minutes);
+
+  // Two passes settle the offset across DST transitions
+  let offset = getTimeZoneOffset(new Date(naiveUtc), timeZone);
+  offset = getTimeZoneOffset(new Date(naiveUtc - offset * 60000), timeZone);
+
+  return new Date(naiveUtc - offset * 60000);
+};
+
+/**
+ * Parse "HH:mm" into minutes since midnight
+ */
+export const parseTimeOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Local calendar day (YYYY-MM-DD) of a business whose day starts at
+ * `startsAt` ("HH:mm") rather than midnight
+ */
+export const getBusinessDay = (
+  date: Date,
+  timeZone: string,
+  startsAt = '00:00',
+): string => {
+  const local = getZonedDateParts(date, timeZone);
+  const dayOffset = local.minutes < parseTimeOfDay(startsAt) ? -1 : 0;
+
+  return new Date(Date.UTC(local.year, local.month - 1, local.day + dayOffset))
+    .toISOString()
+    .slice(0, 10);
+};